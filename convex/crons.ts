@@ -8,6 +8,8 @@
 │  - Email sync: Every 2 minutes, processes accounts due for sync             │
 │  - Webhook renewal: Every hour, renews expiring Microsoft webhooks          │
 │  - Body cache TTL: Daily at 3 AM UTC, cleans up expired cache entries       │
+│  - Finance recurring: Every hour, generates recurring transactions and      │
+│    invoices, flips past-due items to overdue                                │
 │                                                                              │
 │  DOCTRINE:                                                                   │
 │  - Crons are server-controlled (no user-exposed intervals)                  │
@@ -41,6 +43,29 @@ crons.interval(
   internal.productivity.email.sync.processEmailSyncQueue
 );
 
+// ═══════════════════════════════════════════════════════════════════════════
+// FINANCE RECURRING CRON
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process the finance recurring queue every hour
+ *
+ * Generates the next instance of every due recurring template
+ * (transactions and invoices), marks sent invoices and pending
+ * transactions past their due date as overdue, and logs the run
+ * to finance_recurring_Runs.
+ *
+ * Why 1 hour:
+ * - Schedules are day-granular, so hourly is well within a day
+ * - Instances are idempotent per occurrence, so overlapping or
+ *   retried runs never duplicate anything
+ */
+crons.interval(
+  'finance-recurring-queue',
+  { hours: 1 },
+  internal.domains.finance.recurring.runner.processRecurringQueue
+);
+
 // ═══════════════════════════════════════════════════════════════════════════
 // WEBHOOK RENEWAL CRON
 // ═══════════════════════════════════════════════════════════════════════════
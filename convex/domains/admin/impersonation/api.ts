@@ -0,0 +1,13 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔌 IMPERSONATION API - SRS Layer 4                                       │
+│  /convex/domains/admin/impersonation/api.ts                               │
+│                                                                           │
+│  Central export point for admiral "view as user" functions.               │
+│  Domain modules resolve the effective user through ./model.               │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+// Export queries
+export { getImpersonationLog } from "./queries";
+
+// Export mutations
+export { startImpersonation, stopImpersonation } from "./mutations";
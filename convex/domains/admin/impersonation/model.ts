@@ -0,0 +1,70 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🎭 IMPERSONATION MODEL - Shared Helpers                                  │
+│  /convex/domains/admin/impersonation/model.ts                             │
+│                                                                           │
+│  Resolves who a domain query reads as; keeps impersonation read-only.     │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - callerUserId stays the admiral's sovereign _id (SID-5.3 untouched)     │
+│  - An open admin_users_Impersonations row swaps the caller for the        │
+│    target inside domain queries - same rank, same org, same data          │
+│  - Domain mutations are refused during a session, so nothing is ever      │
+│    written under the target's name                                        │
+│  - Sessions expire on their own; an expired row is simply ignored         │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+
+/** A "view as user" session lasts an hour unless stopped sooner */
+export const IMPERSONATION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Caller's open impersonation session, if any
+ */
+export async function getActiveImpersonation(ctx: QueryCtx, actorId: Id<"admin_users">) {
+  const session = await ctx.db
+    .query("admin_users_Impersonations")
+    .withIndex("by_actor", (q) => q.eq("actorId", actorId).eq("endedAt", undefined))
+    .order("desc")
+    .first();
+
+  if (!session || session.expiresAt <= Date.now()) return null;
+  return session;
+}
+
+/**
+ * The user a domain query reads as: the impersonated user while an
+ * admiral has a session open, otherwise the caller
+ */
+export async function getEffectiveUser(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  const caller = await ctx.db.get(callerUserId);
+  if (!caller) throw new Error("User not found");
+  if (caller.rank !== "admiral") return caller;
+
+  const session = await getActiveImpersonation(ctx, caller._id);
+  if (!session) return caller;
+
+  const target = await ctx.db.get(session.targetUserId);
+  return target ?? caller;
+}
+
+/**
+ * Refuse writes while impersonating - "view as user" is read-only
+ */
+export async function assertNotImpersonating(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  if (await getActiveImpersonation(ctx, callerUserId)) {
+    throw new Error("Unauthorized: Changes are blocked while viewing as another user");
+  }
+}
+
+/**
+ * The user a domain mutation writes as: always the caller, and never while
+ * a session is open, so createdBy/updatedBy name the real author
+ */
+export async function getWritingUser(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  await assertNotImpersonating(ctx, callerUserId);
+  const caller = await ctx.db.get(callerUserId);
+  if (!caller) throw new Error("User not found");
+  return caller;
+}
@@ -0,0 +1,101 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🎭 IMPERSONATION MUTATIONS - SRS Layer 4                                 │
+│  /convex/domains/admin/impersonation/mutations.ts                         │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Admiral "view as user":                                                  │
+│  • Admiral only; never yourself or another admiral                        │
+│  • One open session per admiral - starting a new one closes the last      │
+│  • Every session is a row in admin_users_Impersonations (audit log)       │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { requireAdmiralRank } from "@/convex/system/utils/rankAuth";
+import { IMPERSONATION_TTL_MS } from "./model";
+
+/**
+ * Close every open session of the admiral
+ */
+async function endOpenSessions(
+  ctx: MutationCtx,
+  actorId: Id<"admin_users">,
+  endReason: "stopped" | "replaced"
+) {
+  const open = await ctx.db
+    .query("admin_users_Impersonations")
+    .withIndex("by_actor", (q) => q.eq("actorId", actorId).eq("endedAt", undefined))
+    .collect();
+
+  const now = Date.now();
+  for (const session of open) {
+    // Expired sessions keep their expiry as the end time
+    await ctx.db.patch(session._id, { endedAt: Math.min(now, session.expiresAt), endReason });
+  }
+  return open.length;
+}
+
+/**
+ * Start viewing the app as another user
+ */
+export const startImpersonation = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    targetUserId: v.id("admin_users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // 🛡️ SID-5.3: Verify Admiral rank using sovereign callerUserId
+    const admiral = await requireAdmiralRank(ctx, args.callerUserId);
+
+    const target = await ctx.db.get(args.targetUserId);
+    if (!target) throw new Error("User not found");
+    if (target._id === admiral._id) throw new Error("You cannot impersonate yourself");
+    if (target.rank === "admiral") throw new Error("Unauthorized: Admirals cannot be impersonated");
+
+    await endOpenSessions(ctx, admiral._id, "replaced");
+
+    const startedAt = Date.now();
+    const expiresAt = startedAt + IMPERSONATION_TTL_MS;
+    const sessionId = await ctx.db.insert("admin_users_Impersonations", {
+      actorId: admiral._id,
+      targetUserId: target._id,
+      targetRank: target.rank || "crew",
+      reason: args.reason?.trim() || undefined,
+      startedAt,
+      expiresAt,
+    });
+
+    return {
+      success: true,
+      sessionId,
+      target: {
+        _id: target._id,
+        name: `${target.firstName ?? ""} ${target.lastName ?? ""}`.trim() || target.email,
+        rank: target.rank || "crew",
+        orgId: target.orgId,
+      },
+      startedAt,
+      expiresAt,
+    };
+  },
+});
+
+/**
+ * Stop viewing as another user (no-op when nothing is open)
+ */
+export const stopImpersonation = mutation({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    // 🛡️ SID-5.3: Verify Admiral rank using sovereign callerUserId
+    const admiral = await requireAdmiralRank(ctx, args.callerUserId);
+    const ended = await endOpenSessions(ctx, admiral._id, "stopped");
+
+    return { success: true, ended };
+  },
+});
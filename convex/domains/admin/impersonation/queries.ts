@@ -0,0 +1,65 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🎭 IMPERSONATION QUERIES - SRS Layer 4                                   │
+│  /convex/domains/admin/impersonation/queries.ts                           │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│                                                                           │
+│  Impersonation audit log - Admiral only, newest first.                    │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { requireAdmiralRank } from "@/convex/system/utils/rankAuth";
+
+/** Most recent sessions returned (the log only ever grows) */
+const LOG_LIMIT = 200;
+
+/**
+ * Every impersonation session, with actor and target names
+ */
+export const getImpersonationLog = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    // 🔒 SECURITY: Admiral-only access (return empty if unauthorized)
+    try {
+      await requireAdmiralRank(ctx, args.callerUserId);
+    } catch {
+      return [];
+    }
+
+    const sessions = await ctx.db
+      .query("admin_users_Impersonations")
+      .withIndex("by_started")
+      .order("desc")
+      .take(LOG_LIMIT);
+
+    const names = new Map<Id<"admin_users">, string>();
+    const nameOf = async (userId: Id<"admin_users">) => {
+      if (!names.has(userId)) {
+        const user: Doc<"admin_users"> | null = await ctx.db.get(userId);
+        names.set(userId, user ? `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.email : "Deleted user");
+      }
+      return names.get(userId) as string;
+    };
+
+    const now = Date.now();
+    const log = [];
+    for (const session of sessions) {
+      log.push({
+        _id: session._id,
+        actorId: session.actorId,
+        actorName: await nameOf(session.actorId),
+        targetUserId: session.targetUserId,
+        targetName: await nameOf(session.targetUserId),
+        targetRank: session.targetRank,
+        reason: session.reason,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt ?? (session.expiresAt <= now ? session.expiresAt : undefined),
+        endReason: session.endReason ?? (session.expiresAt <= now ? "expired" : undefined),
+      });
+    }
+    return log;
+  },
+});
@@ -0,0 +1,20 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔌 ORGANIZATIONS API - SRS Layer 4                                       │
+│  /convex/domains/admin/orgs/api.ts                                        │
+│                                                                           │
+│  Central export point for organization Convex functions.                  │
+│  The backfill migration is internal and lives in ./migrations.            │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+// Export queries
+export { getMyOrg, listMyOrgs, listMyInvites } from "./queries";
+
+// Export mutations
+export {
+  updateOrg,
+  inviteOrgMember,
+  acceptOrgInvite,
+  cancelOrgInvite,
+  removeOrgMember,
+  switchActiveOrg,
+} from "./mutations";
@@ -0,0 +1,157 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🏢 ORG BACKFILL - One-off Migration                                      │
+│  /convex/domains/admin/orgs/migrations.ts                                 │
+│                                                                           │
+│  Turns the legacy orgSlug grouping into admin_orgs:                       │
+│  1. users  - one org per distinct orgSlug, a membership per user,         │
+│              admin_users.orgId set                                        │
+│  2. tables - every ORG_SCOPED_TABLES row whose orgId is a slug gets the   │
+│              org's _id instead; email rows stamped with the owner's user  │
+│              _id get that user's org                                      │
+│                                                                           │
+│  Run once per deployment, before deploying the schema that narrows        │
+│  business orgId to v.id("admin_orgs"):                                    │
+│    npx convex run domains/admin/orgs/migrations:backfillOrgs              │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Idempotent: users with an orgId and rows holding an org _id are        │
+│    skipped, so a rerun only picks up stragglers                           │
+│  - Bounded batches; each batch schedules the next                         │
+│  - The org goes to the highest-ranked user sharing the slug               │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { internalMutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { internal } from "@/convex/_generated/api";
+import { v } from "convex/values";
+import { ORG_SCOPED_TABLES, addMembership, createOrgForUser, type OrgScopedTable } from "./model";
+
+/** Documents handled per batch (well under Convex's per-mutation limits) */
+const BATCH_SIZE = 200;
+
+const RANK_ORDER = ["crew", "captain", "commodore", "admiral"];
+
+/**
+ * Put one legacy user into the org for their slug
+ */
+async function backfillUser(ctx: MutationCtx, user: Doc<"admin_users">) {
+  const org = await ctx.db
+    .query("admin_orgs")
+    .withIndex("by_slug", (q) => q.eq("slug", user.orgSlug))
+    .first();
+
+  if (!org) {
+    await createOrgForUser(ctx, user, {
+      name: user.entityName || user.orgSlug,
+      slug: user.orgSlug,
+      country: user.businessCountry,
+    });
+    return;
+  }
+
+  await addMembership(ctx, org._id, user._id, "member", user._id);
+  await ctx.db.patch(user._id, { orgId: org._id });
+
+  // A captain outranks the crew member who happened to be migrated first
+  const owner = await ctx.db.get(org.ownerId);
+  if (owner && RANK_ORDER.indexOf(user.rank) > RANK_ORDER.indexOf(owner.rank)) {
+    await ctx.db.patch(org._id, { ownerId: user._id, updatedAt: Date.now() });
+    const memberships = await ctx.db
+      .query("admin_orgs_Members")
+      .withIndex("by_org", (q) => q.eq("orgId", org._id))
+      .collect();
+    for (const membership of memberships) {
+      if (membership.userId === owner._id) await ctx.db.patch(membership._id, { role: "member" });
+      if (membership.userId === user._id) await ctx.db.patch(membership._id, { role: "owner" });
+    }
+  }
+}
+
+/**
+ * Swap a slug (or a user _id) orgId for the org's _id
+ */
+async function backfillRow(
+  ctx: MutationCtx,
+  row: Doc<OrgScopedTable>,
+  orgIdsByLegacyId: Map<string, Id<"admin_orgs"> | null>
+) {
+  const legacyId = row.orgId;
+  if (!legacyId) return false;
+  if (ctx.db.normalizeId("admin_orgs", legacyId)) return false;
+
+  if (!orgIdsByLegacyId.has(legacyId)) {
+    // Email was stamped with the owner's user _id before orgs existed
+    const userId = ctx.db.normalizeId("admin_users", legacyId);
+    if (userId) {
+      const user = await ctx.db.get(userId);
+      orgIdsByLegacyId.set(legacyId, (user?.orgId && ctx.db.normalizeId("admin_orgs", user.orgId)) || null);
+    } else {
+      const org = await ctx.db
+        .query("admin_orgs")
+        .withIndex("by_slug", (q) => q.eq("slug", legacyId))
+        .first();
+      orgIdsByLegacyId.set(legacyId, org?._id ?? null);
+    }
+  }
+
+  const orgId = orgIdsByLegacyId.get(legacyId);
+  if (!orgId) return false;
+  const patch: Partial<Doc<OrgScopedTable>> = { orgId };
+  await ctx.db.patch(row._id, patch);
+  return true;
+}
+
+/**
+ * 🏢 BACKFILL ORGS - one batch, then schedules the next
+ */
+export const backfillOrgs = internalMutation({
+  args: {
+    phase: v.optional(v.union(v.literal("users"), v.literal("tables"))),
+    tableIndex: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const phase = args.phase ?? "users";
+    const tableIndex = args.tableIndex ?? 0;
+    const table = phase === "users" ? "admin_users" : ORG_SCOPED_TABLES[tableIndex];
+    const paginationOpts = { cursor: args.cursor ?? null, numItems: BATCH_SIZE };
+
+    let updated = 0;
+    let page;
+    if (phase === "users") {
+      page = await ctx.db.query("admin_users").paginate(paginationOpts);
+      for (const user of page.page) {
+        if (user.orgId || !user.orgSlug) continue;
+        await backfillUser(ctx, user);
+        updated++;
+      }
+    } else {
+      page = await ctx.db.query(ORG_SCOPED_TABLES[tableIndex]).paginate(paginationOpts);
+      const orgIdsByLegacyId = new Map<string, Id<"admin_orgs"> | null>();
+      for (const row of page.page) {
+        if (await backfillRow(ctx, row, orgIdsByLegacyId)) updated++;
+      }
+    }
+
+    console.log(`🏢 ORG BACKFILL: ${table} - ${updated} of ${page.page.length} updated`);
+
+    // Next batch: same table, next table, or the tables phase
+    let next: { phase: "users" | "tables"; tableIndex: number; cursor: string | null } | null = null;
+    if (!page.isDone) {
+      next = { phase, tableIndex, cursor: page.continueCursor };
+    } else if (phase === "users") {
+      next = { phase: "tables", tableIndex: 0, cursor: null };
+    } else if (tableIndex + 1 < ORG_SCOPED_TABLES.length) {
+      next = { phase, tableIndex: tableIndex + 1, cursor: null };
+    }
+
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.domains.admin.orgs.migrations.backfillOrgs, next);
+    } else {
+      console.log("🏢 ORG BACKFILL: complete");
+    }
+
+    return { table, updated, done: next === null };
+  },
+});
@@ -0,0 +1,197 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🏢 ORGANIZATIONS MODEL - Shared Helpers                                  │
+│  /convex/domains/admin/orgs/model.ts                                      │
+│                                                                           │
+│  Org creation and membership writes, shared by the org mutations,         │
+│  completeSetup/updateProfile and the backfill migration.                  │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - admin_orgs_Members is the source of truth for who belongs              │
+│  - admin_users.orgId is the member's active org (what queries scope by)   │
+│  - Slugs are unique; ids are what business tables store                   │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx, QueryCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+/**
+ * Every table scoped by orgId (rewritten by backfillOrgs)
+ */
+export const ORG_SCOPED_TABLES = [
+  "clients_contacts_Users",
+  "clients_pipeline_Stages",
+  "clients_pipeline_Deals",
+  "finance_banking_Statements",
+  "finance_invoicing_Invoices",
+  "finance_invoicing_Sequences",
+  "finance_ledger_Accounts",
+  "finance_ledger_JournalEntries",
+  "finance_currency_Settings",
+  "finance_currency_Rates",
+  "finance_recurring_Templates",
+  "projects_tracking_Schedule",
+  "projects_tracking_Costs",
+  "projects_tracking_Budgets",
+  "projects_tracking_Tasks",
+  "projects_tracking_TaskDependencies",
+  "projects_tracking_Locations",
+  "productivity_email_Messages",
+  "productivity_email_Index",
+  "productivity_email_Accounts",
+  "productivity_email_SenderCache",
+  "productivity_email_Links",
+  "productivity_calendar_Events",
+  "productivity_bookings_Form",
+  "productivity_tasks_Tasks",
+  "productivity_pipeline_Prospects",
+] as const;
+
+export type OrgScopedTable = (typeof ORG_SCOPED_TABLES)[number];
+
+/**
+ * The caller's active org, for writes that must never land org-less
+ */
+export function requireActiveOrgId(user: Doc<"admin_users">): Id<"admin_orgs"> {
+  if (!user.orgId) throw new Error("No active organization - finish setup or switch orgs first");
+  return user.orgId;
+}
+
+/**
+ * "Acme Pty Ltd" → "acme-pty-ltd" (same rule as the setup modal)
+ */
+export function slugifyOrgName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * First free slug: "acme", "acme-2", "acme-3"...
+ */
+async function uniqueSlug(ctx: QueryCtx, base: string, exceptId?: Id<"admin_orgs">) {
+  const root = base || "org";
+  for (let suffix = 1; ; suffix++) {
+    const slug = suffix === 1 ? root : `${root}-${suffix}`;
+    const taken = await ctx.db
+      .query("admin_orgs")
+      .withIndex("by_slug", (q) => q.eq("slug", slug))
+      .first();
+    if (!taken || taken._id === exceptId) return slug;
+  }
+}
+
+export async function getMembership(ctx: QueryCtx, orgId: Id<"admin_orgs">, userId: Id<"admin_users">) {
+  return await ctx.db
+    .query("admin_orgs_Members")
+    .withIndex("by_org_user", (q) => q.eq("orgId", orgId).eq("userId", userId))
+    .first();
+}
+
+/**
+ * Add a user to an org (no-op when already a member)
+ */
+export async function addMembership(
+  ctx: MutationCtx,
+  orgId: Id<"admin_orgs">,
+  userId: Id<"admin_users">,
+  role: "owner" | "member",
+  createdBy: Id<"admin_users">
+) {
+  const existing = await getMembership(ctx, orgId, userId);
+  if (existing) return existing._id;
+
+  return await ctx.db.insert("admin_orgs_Members", {
+    orgId,
+    userId,
+    role,
+    createdAt: Date.now(),
+    createdBy,
+  });
+}
+
+/**
+ * Create an org owned by `owner` and make it their active org
+ */
+export async function createOrgForUser(
+  ctx: MutationCtx,
+  owner: Doc<"admin_users">,
+  details: { name: string; slug?: string; country?: string }
+) {
+  const now = Date.now();
+  const orgId = await ctx.db.insert("admin_orgs", {
+    name: details.name.trim() || owner.email,
+    slug: await uniqueSlug(ctx, details.slug || slugifyOrgName(details.name)),
+    ownerId: owner._id,
+    settings: { country: details.country ?? "" },
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await addMembership(ctx, orgId, owner._id, "owner", owner._id);
+  await ctx.db.patch(owner._id, { orgId, updatedAt: now });
+
+  return orgId;
+}
+
+/**
+ * Keep an owner's org in step with their entity profile.
+ * Only the owner's edits rename the org; members' profiles are their own.
+ */
+export async function syncOwnedOrg(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  updates: { name?: string; country?: string }
+) {
+  if (!user.orgId || (updates.name === undefined && updates.country === undefined)) return;
+  const org = await ctx.db.get(user.orgId);
+  if (!org || org.ownerId !== user._id) return;
+
+  const patch: Partial<Doc<"admin_orgs">> = { updatedAt: Date.now() };
+  if (updates.name?.trim()) {
+    patch.name = updates.name.trim();
+    patch.slug = await uniqueSlug(ctx, slugifyOrgName(updates.name), org._id);
+  }
+  if (updates.country !== undefined) {
+    patch.settings = { ...org.settings, country: updates.country };
+  }
+  await ctx.db.patch(org._id, patch);
+}
+
+/**
+ * Org a domain function should act on.
+ * Admirals may name any org; commodores any org in their portfolio
+ * (orgs they hold a membership in); everyone else gets their active org.
+ * Null when the caller has no active org yet (reads come back empty).
+ */
+export async function resolveOrgId(
+  ctx: QueryCtx,
+  user: Doc<"admin_users">,
+  requested?: Id<"admin_orgs">
+): Promise<Id<"admin_orgs"> | null> {
+  const active = user.orgId ?? null;
+  if (!requested || requested === active) return active;
+
+  const rank = user.rank || "crew";
+  if (rank === "admiral") return requested;
+
+  if (rank === "commodore") {
+    if (!(await getMembership(ctx, requested, user._id))) {
+      throw new Error("Unauthorized: Organization is not in your portfolio");
+    }
+    return requested;
+  }
+
+  return active;
+}
+
+/**
+ * resolveOrgId for writes, which must never land org-less
+ */
+export async function resolveWriteOrgId(
+  ctx: QueryCtx,
+  user: Doc<"admin_users">,
+  requested?: Id<"admin_orgs">
+): Promise<Id<"admin_orgs">> {
+  return (await resolveOrgId(ctx, user, requested)) ?? requireActiveOrgId(user);
+}
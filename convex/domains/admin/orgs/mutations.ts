@@ -0,0 +1,272 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🏢 ORGANIZATION MUTATIONS - SRS Layer 4                                  │
+│  /convex/domains/admin/orgs/mutations.ts                                  │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Org settings and membership:                                             │
+│  • Captain or higher, and a member of the org (admirals: any org)         │
+│  • Members join by invite; accepting makes the org their active org       │
+│    (commodores and up keep theirs - it joins their portfolio instead)     │
+│  • The owner cannot be removed                                            │
+│  • Commodores and up switch between the orgs they belong to               │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { addMembership, getMembership, slugifyOrgName } from "./model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Load the org and check the caller may manage it
+ */
+async function getManagedOrg(ctx: MutationCtx, user: Doc<"admin_users">, orgId?: Id<"admin_orgs">) {
+  const rank = user.rank || "crew";
+  requireCaptainOrHigher(rank);
+
+  const targetId = orgId ?? user.orgId;
+  const org = targetId ? await ctx.db.get(targetId) : null;
+  if (!org) throw new Error("Organization not found");
+
+  if (rank !== "admiral" && !(await getMembership(ctx, org._id, user._id))) {
+    throw new Error("Unauthorized: Organization is not yours");
+  }
+  return org;
+}
+
+/**
+ * Invites are matched on the trimmed, lowercased address
+ */
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Load an invite addressed to the caller
+ */
+async function getOwnInvite(ctx: MutationCtx, user: Doc<"admin_users">, inviteId: Id<"admin_orgs_Invites">) {
+  const invite = await ctx.db.get(inviteId);
+  if (!invite || invite.email !== normalizeEmail(user.email)) throw new Error("Invite not found");
+  return invite;
+}
+
+/**
+ * Rename the org or change its settings
+ */
+export const updateOrg = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    orgId: v.optional(v.id("admin_orgs")), // Admiral override; defaults to active org
+    name: v.optional(v.string()),
+    country: v.optional(v.string()),
+    timezone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const org = await getManagedOrg(ctx, user, args.orgId);
+
+    const updates: Partial<Doc<"admin_orgs">> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.name !== undefined) {
+      const name = args.name.trim();
+      if (!name) throw new Error("Organization needs a name");
+      const slug = slugifyOrgName(name);
+      const taken = await ctx.db
+        .query("admin_orgs")
+        .withIndex("by_slug", (q) => q.eq("slug", slug))
+        .first();
+      if (taken && taken._id !== org._id) throw new Error(`Another organization already uses "${slug}"`);
+      updates.name = name;
+      updates.slug = slug;
+    }
+    if (args.country !== undefined || args.timezone !== undefined) {
+      updates.settings = {
+        country: args.country ?? org.settings.country,
+        timezone: args.timezone === undefined ? org.settings.timezone : args.timezone || undefined,
+      };
+    }
+
+    await ctx.db.patch(org._id, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Invite someone (by email) to the org.
+ * Nothing changes for them until they accept - see acceptOrgInvite.
+ */
+export const inviteOrgMember = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    email: v.string(),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const org = await getManagedOrg(ctx, user, args.orgId);
+
+    const email = normalizeEmail(args.email);
+    if (!email.includes("@")) throw new Error("Enter an email address");
+
+    const existing = await ctx.db
+      .query("admin_users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .first();
+    if (existing && (await getMembership(ctx, org._id, existing._id))) {
+      throw new Error(`${email} is already a member`);
+    }
+
+    const pending = await ctx.db
+      .query("admin_orgs_Invites")
+      .withIndex("by_email", (q) => q.eq("email", email).eq("orgId", org._id))
+      .first();
+    if (pending) throw new Error(`${email} has already been invited`);
+
+    const inviteId = await ctx.db.insert("admin_orgs_Invites", {
+      orgId: org._id,
+      email,
+      invitedBy: user._id,
+      createdAt: Date.now(),
+    });
+
+    return { success: true, inviteId };
+  },
+});
+
+/**
+ * Accept an invite addressed to the caller's email: join the org and switch
+ * into it (a commodore already working in another org just gains it in
+ * their portfolio)
+ */
+export const acceptOrgInvite = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    inviteId: v.id("admin_orgs_Invites"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const invite = await getOwnInvite(ctx, user, args.inviteId);
+
+    const org = await ctx.db.get(invite.orgId);
+    if (!org) throw new Error("Organization not found");
+
+    await addMembership(ctx, org._id, user._id, "member", invite.invitedBy);
+    await ctx.db.delete(invite._id);
+
+    const keepsActiveOrg = !!user.orgId && (user.rank === "commodore" || user.rank === "admiral");
+    if (!keepsActiveOrg) {
+      await ctx.db.patch(user._id, { orgId: org._id, updatedAt: Date.now() });
+    }
+
+    return { success: true, orgId: org._id, switched: !keepsActiveOrg };
+  },
+});
+
+/**
+ * Drop a pending invite - the invitee declining, or a manager of the org
+ * withdrawing it
+ */
+export const cancelOrgInvite = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    inviteId: v.id("admin_orgs_Invites"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const invite = await ctx.db.get(args.inviteId);
+    if (!invite) throw new Error("Invite not found");
+
+    if (invite.email !== normalizeEmail(user.email)) {
+      await getManagedOrg(ctx, user, invite.orgId);
+    }
+
+    await ctx.db.delete(invite._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove a member; their active org falls back to another membership
+ */
+export const removeOrgMember = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    userId: v.id("admin_users"),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const org = await getManagedOrg(ctx, user, args.orgId);
+
+    if (org.ownerId === args.userId) throw new Error("The owner cannot be removed");
+    const membership = await getMembership(ctx, org._id, args.userId);
+    if (!membership) throw new Error("User is not a member of this organization");
+
+    await ctx.db.delete(membership._id);
+
+    const member = await ctx.db.get(args.userId);
+    if (member && member.orgId === org._id) {
+      const fallback = await ctx.db
+        .query("admin_orgs_Members")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .first();
+      await ctx.db.patch(member._id, { orgId: fallback?.orgId, updatedAt: Date.now() });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Make another org in the caller's portfolio their active org
+ */
+export const switchActiveOrg = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    orgId: v.id("admin_orgs"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    if (rank !== "commodore" && rank !== "admiral") {
+      throw new Error("Unauthorized: Commodore rank or higher required");
+    }
+
+    const org = await ctx.db.get(args.orgId);
+    if (!org) throw new Error("Organization not found");
+    if (!(await getMembership(ctx, org._id, user._id))) {
+      throw new Error("Unauthorized: Organization is not in your portfolio");
+    }
+
+    await ctx.db.patch(user._id, { orgId: org._id, updatedAt: Date.now() });
+
+    return { success: true, orgId: org._id };
+  },
+});
@@ -0,0 +1,124 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🏢 ORGANIZATION QUERIES - SRS Layer 4                                    │
+│  /convex/domains/admin/orgs/queries.ts                                    │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│                                                                           │
+│  Every member can see their active org and who else belongs to it.        │
+│  Commodores also see their portfolio - every org they can switch into.    │
+│  Anyone can see the invites addressed to their email.                     │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import { v } from "convex/values";
+
+/**
+ * Active org of the caller, with its members and pending invites
+ */
+export const getMyOrg = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    // 🛡️ SID-5.3: Direct lookup by sovereign _id
+    const user = await ctx.db.get(args.callerUserId);
+    if (!user?.orgId) return null;
+
+    const org = await ctx.db.get(user.orgId);
+    if (!org) return null;
+
+    const memberships = await ctx.db
+      .query("admin_orgs_Members")
+      .withIndex("by_org", (q) => q.eq("orgId", org._id))
+      .collect();
+
+    const members = [];
+    for (const membership of memberships) {
+      const member = await ctx.db.get(membership.userId);
+      if (!member) continue;
+      // Only what the members list needs - never the full user record
+      members.push({
+        _id: member._id,
+        firstName: member.firstName,
+        lastName: member.lastName,
+        email: member.email,
+        rank: member.rank || "crew",
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      });
+    }
+
+    const invites = await ctx.db
+      .query("admin_orgs_Invites")
+      .withIndex("by_org", (q) => q.eq("orgId", org._id))
+      .collect();
+
+    return {
+      _id: org._id,
+      name: org.name,
+      slug: org.slug,
+      ownerId: org.ownerId,
+      country: org.settings.country,
+      timezone: org.settings.timezone,
+      members,
+      invites: invites.map((invite) => ({ _id: invite._id, email: invite.email, createdAt: invite.createdAt })),
+    };
+  },
+});
+
+/**
+ * Orgs the caller belongs to (a commodore's portfolio), active org first
+ */
+export const listMyOrgs = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    // 🛡️ SID-5.3: Direct lookup by sovereign _id
+    const user = await ctx.db.get(args.callerUserId);
+    if (!user) return [];
+
+    const memberships = await ctx.db
+      .query("admin_orgs_Members")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const orgs = [];
+    for (const membership of memberships) {
+      const org = await ctx.db.get(membership.orgId);
+      if (!org) continue;
+      orgs.push({
+        _id: org._id,
+        name: org.name,
+        slug: org.slug,
+        role: membership.role,
+        isActive: org._id === user.orgId,
+      });
+    }
+
+    return orgs.sort((a, b) => Number(b.isActive) - Number(a.isActive) || a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Pending invites addressed to the caller's email
+ */
+export const listMyInvites = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    // 🛡️ SID-5.3: Direct lookup by sovereign _id
+    const user = await ctx.db.get(args.callerUserId);
+    if (!user?.email) return [];
+
+    const email = user.email.trim().toLowerCase();
+    const invites = await ctx.db
+      .query("admin_orgs_Invites")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+
+    const pending = [];
+    for (const invite of invites) {
+      const org = await ctx.db.get(invite.orgId);
+      if (!org) continue;
+      pending.push({ _id: invite._id, orgId: org._id, orgName: org.name, createdAt: invite.createdAt });
+    }
+    return pending;
+  },
+});
@@ -0,0 +1,104 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ADMIN SCHEMA - Domain Tables                                             │
+│  /convex/domains/admin/schema.ts                                          │
+│                                                                           │
+│  Impersonation audit log, organizations, memberships and invites.         │
+│  Spread into defineSchema by /convex/schema.ts.                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const adminTables = {
+  /**
+   * 🎭 IMPERSONATION AUDIT LOG - one row per admiral "view as user" session.
+   * While a row is open (no endedAt, before expiresAt) domain queries resolve
+   * the actor to the target and domain mutations are refused.
+   */
+  admin_users_Impersonations: defineTable({
+    actorId: v.id("admin_users"), // Admiral doing the viewing
+    targetUserId: v.id("admin_users"),
+    targetRank: v.string(),
+    reason: v.optional(v.string()),
+    startedAt: v.number(),
+    expiresAt: v.number(),
+    endedAt: v.optional(v.number()),
+    endReason: v.optional(v.union(v.literal("stopped"), v.literal("replaced"))),
+  })
+    .index("by_actor", ["actorId", "endedAt"])
+    .index("by_target", ["targetUserId"])
+    .index("by_started", ["startedAt"]),
+
+  /**
+   * 🏢 ORGANIZATIONS
+   *
+   * The tenant every business table is scoped by. Members share one orgId,
+   * so two users see the same contacts, books and projects.
+   *
+   * DOCTRINE:
+   * - orgId on business tables is v.id("admin_orgs") (never a slug or user id)
+   * - Slug and name follow the owner's entity name; ids never change
+   * - SID-ORG: a deployment still holding slug or user-id orgIds must run
+   *   backfillOrgs on the previous schema first - Convex refuses to push a
+   *   schema its stored rows do not match
+   */
+  admin_orgs: defineTable({
+    name: v.string(),
+    slug: v.string(),
+    ownerId: v.id("admin_users"),
+    settings: v.object({
+      country: v.string(), // ISO 3166-1 alpha-2, "" = not set
+      timezone: v.optional(v.string()), // IANA, e.g. "Australia/Sydney"
+    }),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_slug", ["slug"])
+    .index("by_owner", ["ownerId"]),
+
+  /**
+   * 👥 ORGANIZATION MEMBERSHIPS
+   *
+   * Who belongs to which org. admin_users.orgId points at the active one.
+   *
+   * DOCTRINE:
+   * - One row per (org, user); the owner has role "owner"
+   * - Rank still governs what a member may do inside the org
+   */
+  admin_orgs_Members: defineTable({
+    orgId: v.id("admin_orgs"),
+    userId: v.id("admin_users"),
+    role: v.union(v.literal("owner"), v.literal("member")),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    createdBy: v.id("admin_users"),
+  })
+    .index("by_org", ["orgId"])
+    .index("by_user", ["userId"])
+    .index("by_org_user", ["orgId", "userId"]),
+
+  /**
+   * ✉️ ORGANIZATION INVITES
+   *
+   * Pending invitations to join an org. Nobody is added to an org (or has
+   * their active org changed) until they accept.
+   *
+   * DOCTRINE:
+   * - email is stored trimmed and lowercased; the invitee matches on it
+   * - Accepting or declining deletes the row
+   */
+  admin_orgs_Invites: defineTable({
+    orgId: v.id("admin_orgs"),
+    email: v.string(),
+    invitedBy: v.id("admin_users"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+  })
+    .index("by_org", ["orgId"])
+    .index("by_email", ["email", "orgId"])
+    .index("by_user", ["invitedBy"]),
+};
@@ -7,6 +7,7 @@ import { v } from "convex/values";
 import { UsersModel } from "./model";
 import { isTrialExpired, isInGracePeriod } from "@/fuse/constants/ranks";
 import { getUserIdFromClerkId } from "@/convex/identity/registry";
+import { createOrgForUser, syncOwnedOrg } from "@/convex/domains/admin/orgs/model";
 
 // ══════════════════════════════════════════════════════════════════════
 // AUTHORIZATION HELPER
@@ -726,6 +727,17 @@ export const completeSetup = mutation({
       updatedAt: Date.now(),
     });
 
+    // 🏢 First setup founds the user's org; members added to an org keep theirs
+    if (!user.orgId) {
+      await createOrgForUser(ctx, user, {
+        name: args.entityName,
+        slug: args.orgSlug,
+        country: args.businessCountry,
+      });
+    } else {
+      await syncOwnedOrg(ctx, user, { name: args.entityName, country: args.businessCountry });
+    }
+
     return { success: true };
   },
 });
@@ -765,6 +777,7 @@ export const updateProfile = mutation({
     if (args.businessCountry !== undefined) updates.businessCountry = args.businessCountry;
 
     await ctx.db.patch(args.userId, updates);
+    await syncOwnedOrg(ctx, user, { name: args.entityName, country: args.businessCountry });
 
     return { success: true };
   },
@@ -799,6 +812,7 @@ export const updateEntity = mutation({
     if (args.businessCountry !== undefined) updates.businessCountry = args.businessCountry;
 
     await ctx.db.patch(args.userId, updates);
+    await syncOwnedOrg(ctx, user, { name: args.entityName, country: args.businessCountry });
 
     return { success: true };
   },
@@ -9,7 +9,17 @@
 └───────────────────────────────────────────────────────────────────────────┘ */
 
 // Export queries
-export { listClients, getClient } from "./queries";
+export { listClients, getClient, listAssignableMembers } from "./queries";
+export { listPipelineStages, listDeals } from "./pipeline/queries";
 
 // Export mutations
 export { createClient, updateClient, deleteClient } from "./mutations";
+export { importContacts } from "./transfer/mutations";
+export {
+  seedPipelineStages,
+  createPipelineStage,
+  updatePipelineStage,
+  reorderPipelineStages,
+  deletePipelineStage,
+} from "./pipeline/stageMutations";
+export { createDeal, updateDeal, moveDeal, deleteDeal } from "./pipeline/dealMutations";
@@ -11,6 +11,7 @@
 │  • Update: Captain/Commodore/Admiral only (org-scoped)                    │
 │  • Delete: Captain/Commodore/Admiral only (org-scoped)                    │
 │  • Crew: Cannot create/update/delete (read-only access)                   │
+│  • Emails are unique per org; assignees must belong to the contact's org  │
 │                                                                           │
 │  SRS Commandment #4: Data scoping via Convex mutations                    │
 └───────────────────────────────────────────────────────────────────────────┘ */
@@ -19,15 +20,26 @@ import { mutation } from "@/convex/_generated/server";
 import type { MutationCtx } from "@/convex/_generated/server";
 import type { Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { deleteEmailLinksTo } from "@/convex/domains/productivity/links/model";
+import { DEFAULT_CONTACT_STATUS, normalizeEmail, validateContact } from "@/domains/clients";
+import { getMembership, requireActiveOrgId, resolveWriteOrgId } from "@/convex/domains/admin/orgs/model";
+
+const statusValidator = v.union(
+  v.literal("lead"),
+  v.literal("prospect"),
+  v.literal("active"),
+  v.literal("inactive"),
+  v.literal("archived")
+);
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
  */
 async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getWritingUser(ctx, callerUserId);
 }
 
 /**
@@ -39,6 +51,36 @@ function requireCaptainOrHigher(rank: string | undefined) {
   }
 }
 
+/**
+ * Reject a second contact with the same email in one org
+ */
+async function assertEmailAvailable(
+  ctx: MutationCtx,
+  orgId: Id<"admin_orgs">,
+  email: string,
+  exceptId?: Id<"clients_contacts_Users">
+) {
+  const matches = await ctx.db
+    .query("clients_contacts_Users")
+    .withIndex("by_email", (q) => q.eq("email", email))
+    .collect();
+  if (matches.some((match) => match.orgId === orgId && match._id !== exceptId)) {
+    throw new Error(`A contact with ${email} already exists`);
+  }
+}
+
+/**
+ * Assignees must be members of the contact's org
+ */
+async function assertAssignable(ctx: MutationCtx, orgId: Id<"admin_orgs">, assigneeId: Id<"admin_users">) {
+  const assignee = await ctx.db.get(assigneeId);
+  if (!assignee) throw new Error("Assignee not found");
+  const orgDocId = ctx.db.normalizeId("admin_orgs", orgId);
+  if (!orgDocId || !(await getMembership(ctx, orgDocId, assigneeId))) {
+    throw new Error("Unauthorized: Assignee not in this organization");
+  }
+}
+
 /**
  * Create new client
  */
@@ -51,16 +93,9 @@ export const createClient = mutation({
     company: v.optional(v.string()),
     jobTitle: v.optional(v.string()),
     phoneNumber: v.optional(v.string()),
-    orgId: v.optional(v.string()),
+    orgId: v.optional(v.id("admin_orgs")),
     assignedTo: v.optional(v.id("admin_users")),
-    status: v.optional(
-      v.union(
-        v.literal("active"),
-        v.literal("inactive"),
-        v.literal("prospect"),
-        v.literal("archived")
-      )
-    ),
+    status: v.optional(statusValidator),
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -69,25 +104,27 @@ export const createClient = mutation({
 
     requireCaptainOrHigher(rank);
 
-    let orgId: string;
-    if (rank === "admiral" && args.orgId) {
-      orgId = args.orgId;
-    } else {
-      orgId = user.orgSlug || "";
-    }
+    const orgId = await resolveWriteOrgId(ctx, user, args.orgId);
+
+    const contactError = validateContact(args);
+    if (contactError) throw new Error(contactError);
+
+    const email = normalizeEmail(args.email);
+    await assertEmailAvailable(ctx, orgId, email);
+    if (args.assignedTo) await assertAssignable(ctx, orgId, args.assignedTo);
 
     const now = Date.now();
 
     const clientId = await ctx.db.insert("clients_contacts_Users", {
-      firstName: args.firstName,
-      lastName: args.lastName,
-      email: args.email,
+      firstName: args.firstName.trim(),
+      lastName: args.lastName.trim(),
+      email,
       company: args.company,
       jobTitle: args.jobTitle,
       phoneNumber: args.phoneNumber,
       orgId,
       assignedTo: args.assignedTo,
-      status: args.status || "active",
+      status: args.status || DEFAULT_CONTACT_STATUS,
       notes: args.notes,
       createdAt: now,
       updatedAt: now,
@@ -111,15 +148,8 @@ export const updateClient = mutation({
     company: v.optional(v.string()),
     jobTitle: v.optional(v.string()),
     phoneNumber: v.optional(v.string()),
-    assignedTo: v.optional(v.id("admin_users")),
-    status: v.optional(
-      v.union(
-        v.literal("active"),
-        v.literal("inactive"),
-        v.literal("prospect"),
-        v.literal("archived")
-      )
-    ),
+    assignedTo: v.optional(v.union(v.id("admin_users"), v.null())), // null = unassign
+    status: v.optional(statusValidator),
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -134,7 +164,7 @@ export const updateClient = mutation({
     }
 
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (client.orgId !== orgId) {
         throw new Error("Unauthorized: Client not in your organization");
       }
@@ -144,13 +174,26 @@ export const updateClient = mutation({
       updatedAt: Date.now(),
     };
 
-    if (args.firstName !== undefined) updates.firstName = args.firstName;
-    if (args.lastName !== undefined) updates.lastName = args.lastName;
-    if (args.email !== undefined) updates.email = args.email;
+    const contactError = validateContact({
+      firstName: args.firstName ?? client.firstName,
+      lastName: args.lastName ?? client.lastName,
+      email: args.email ?? client.email,
+    });
+    if (contactError) throw new Error(contactError);
+
+    if (args.email !== undefined) {
+      const email = normalizeEmail(args.email);
+      await assertEmailAvailable(ctx, client.orgId, email, client._id);
+      updates.email = email;
+    }
+    if (args.assignedTo) await assertAssignable(ctx, client.orgId, args.assignedTo);
+
+    if (args.firstName !== undefined) updates.firstName = args.firstName.trim();
+    if (args.lastName !== undefined) updates.lastName = args.lastName.trim();
     if (args.company !== undefined) updates.company = args.company;
     if (args.jobTitle !== undefined) updates.jobTitle = args.jobTitle;
     if (args.phoneNumber !== undefined) updates.phoneNumber = args.phoneNumber;
-    if (args.assignedTo !== undefined) updates.assignedTo = args.assignedTo;
+    if (args.assignedTo !== undefined) updates.assignedTo = args.assignedTo ?? undefined;
     if (args.status !== undefined) updates.status = args.status;
     if (args.notes !== undefined) updates.notes = args.notes;
 
@@ -180,12 +223,13 @@ export const deleteClient = mutation({
     }
 
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (client.orgId !== orgId) {
         throw new Error("Unauthorized: Client not in your organization");
       }
     }
 
+    await deleteEmailLinksTo(ctx, "contact", args.clientId);
     await ctx.db.delete(args.clientId);
 
     return { success: true };
@@ -0,0 +1,232 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💼 PIPELINE DEAL MUTATIONS - SRS Layer 4                                 │
+│  /convex/domains/clients/pipeline/dealMutations.ts                        │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Deals with rank-based authorization:                                     │
+│  • Captain/Commodore/Admiral only (org-scoped)                            │
+│  • Entering a won/lost stage requires a reason; leaving one reopens       │
+│  • Crew: Read-only access                                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { isClosedStage, validateDeal } from "@/domains/clients";
+import { assertContactInOrg, assertSameOrg, nextPosition } from "./model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Create a deal at the bottom of a stage.
+ * Probability defaults to the stage's; closed stages need a reason.
+ */
+export const createDeal = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    title: v.string(),
+    stageId: v.id("clients_pipeline_Stages"),
+    value: v.number(),
+    currency: v.string(),
+    probability: v.optional(v.number()),
+    expectedCloseDate: v.optional(v.number()),
+    contactId: v.optional(v.id("clients_contacts_Users")),
+    notes: v.optional(v.string()),
+    closeReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const stage = await ctx.db.get(args.stageId);
+    if (!stage) throw new Error("Stage not found");
+    assertSameOrg(user, stage, "Stage");
+
+    const currency = args.currency.trim().toUpperCase();
+    const probability = args.probability ?? stage.probability;
+    const dealError = validateDeal({ ...args, currency, probability });
+    if (dealError) throw new Error(dealError);
+
+    const closed = isClosedStage(stage.kind);
+    if (closed && !args.closeReason?.trim()) {
+      throw new Error(`A ${stage.kind} reason is required`);
+    }
+    if (args.contactId) await assertContactInOrg(ctx, stage.orgId, args.contactId);
+
+    const now = Date.now();
+
+    const dealId = await ctx.db.insert("clients_pipeline_Deals", {
+      title: args.title.trim(),
+      stageId: stage._id,
+      position: await nextPosition(ctx, stage._id),
+      value: args.value,
+      currency,
+      probability,
+      expectedCloseDate: args.expectedCloseDate,
+      contactId: args.contactId,
+      notes: args.notes,
+      closedAt: closed ? now : undefined,
+      closeReason: closed ? args.closeReason?.trim() : undefined,
+      orgId: stage.orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, dealId };
+  },
+});
+
+/**
+ * Update deal details (stage changes go through moveDeal)
+ */
+export const updateDeal = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    dealId: v.id("clients_pipeline_Deals"),
+    title: v.optional(v.string()),
+    value: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    probability: v.optional(v.number()),
+    expectedCloseDate: v.optional(v.union(v.number(), v.null())), // null = clear
+    contactId: v.optional(v.union(v.id("clients_contacts_Users"), v.null())), // null = unlink
+    notes: v.optional(v.string()),
+    closeReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const deal = await ctx.db.get(args.dealId);
+    if (!deal) throw new Error("Deal not found");
+    assertSameOrg(user, deal, "Deal");
+
+    const next = {
+      title: args.title ?? deal.title,
+      value: args.value ?? deal.value,
+      currency: (args.currency ?? deal.currency).trim().toUpperCase(),
+      probability: args.probability ?? deal.probability,
+    };
+    const dealError = validateDeal(next);
+    if (dealError) throw new Error(dealError);
+
+    if (args.closeReason !== undefined) {
+      if (deal.closedAt === undefined) throw new Error("Only closed deals have a close reason");
+      if (!args.closeReason.trim()) throw new Error("Close reason cannot be empty");
+    }
+    if (args.contactId) await assertContactInOrg(ctx, deal.orgId, args.contactId);
+
+    const updates: Record<string, unknown> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.title !== undefined) updates.title = next.title.trim();
+    if (args.value !== undefined) updates.value = next.value;
+    if (args.currency !== undefined) updates.currency = next.currency;
+    if (args.probability !== undefined) updates.probability = next.probability;
+    if (args.expectedCloseDate !== undefined) updates.expectedCloseDate = args.expectedCloseDate ?? undefined;
+    if (args.contactId !== undefined) updates.contactId = args.contactId ?? undefined;
+    if (args.notes !== undefined) updates.notes = args.notes;
+    if (args.closeReason !== undefined) updates.closeReason = args.closeReason.trim();
+
+    await ctx.db.patch(args.dealId, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Drag-and-drop: move a deal to a stage/position.
+ * Changing stage resets probability to the stage default.
+ */
+export const moveDeal = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    dealId: v.id("clients_pipeline_Deals"),
+    stageId: v.id("clients_pipeline_Stages"),
+    position: v.number(),
+    closeReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const deal = await ctx.db.get(args.dealId);
+    if (!deal) throw new Error("Deal not found");
+    assertSameOrg(user, deal, "Deal");
+
+    const stage = await ctx.db.get(args.stageId);
+    if (!stage || stage.orgId !== deal.orgId) throw new Error("Stage not found");
+
+    const now = Date.now();
+    const updates: Record<string, unknown> = {
+      position: args.position,
+      updatedAt: now,
+    };
+
+    if (stage._id !== deal.stageId) {
+      const from = await ctx.db.get(deal.stageId);
+      updates.stageId = stage._id;
+      updates.probability = stage.probability;
+
+      if (isClosedStage(stage.kind)) {
+        // Won → lost (or back) is a new outcome and needs its own reason
+        if (from?.kind !== stage.kind) {
+          if (!args.closeReason?.trim()) throw new Error(`A ${stage.kind} reason is required`);
+          updates.closedAt = now;
+          updates.closeReason = args.closeReason.trim();
+        }
+      } else {
+        updates.closedAt = undefined;
+        updates.closeReason = undefined;
+      }
+    }
+
+    await ctx.db.patch(args.dealId, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete deal
+ */
+export const deleteDeal = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    dealId: v.id("clients_pipeline_Deals"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const deal = await ctx.db.get(args.dealId);
+    if (!deal) throw new Error("Deal not found");
+    assertSameOrg(user, deal, "Deal");
+
+    await ctx.db.delete(args.dealId);
+
+    return { success: true };
+  },
+});
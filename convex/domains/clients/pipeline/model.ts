@@ -0,0 +1,93 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💼 CLIENT PIPELINE MODEL - Shared Helpers                                │
+│  /convex/domains/clients/pipeline/model.ts                                │
+│                                                                           │
+│  Org scoping and stage/deal lookups shared by the stage and deal          │
+│  mutations.                                                               │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Admirals may act on any org; everyone else on their active org         │
+│  - Every org keeps at least one won and one lost stage                    │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import { DEFAULT_PIPELINE_STAGES, positionBetween } from "@/domains/clients";
+
+/**
+ * Resolve the org a pipeline write targets (admirals may name one)
+ */
+export function resolveOrgId(user: Doc<"admin_users">, orgId: Id<"admin_orgs"> | undefined) {
+  return (user.rank || "crew") === "admiral" && orgId ? orgId : requireActiveOrgId(user);
+}
+
+/**
+ * Enforce org ownership of a pipeline record for non-admirals
+ */
+export function assertSameOrg(user: Doc<"admin_users">, record: { orgId: Id<"admin_orgs"> }, label: string) {
+  if ((user.rank || "crew") !== "admiral" && record.orgId !== user.orgId) {
+    throw new Error(`Unauthorized: ${label} not in your organization`);
+  }
+}
+
+export async function getOrgStages(ctx: MutationCtx, orgId: Id<"admin_orgs">) {
+  const stages = await ctx.db
+    .query("clients_pipeline_Stages")
+    .withIndex("by_org", (q) => q.eq("orgId", orgId))
+    .collect();
+  return stages.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Seed DEFAULT_PIPELINE_STAGES for an org that has none yet
+ */
+export async function ensurePipelineStages(ctx: MutationCtx, orgId: Id<"admin_orgs">, userId: Id<"admin_users">) {
+  const existing = await getOrgStages(ctx, orgId);
+  if (existing.length > 0) return existing;
+
+  const now = Date.now();
+  for (const [order, stage] of DEFAULT_PIPELINE_STAGES.entries()) {
+    await ctx.db.insert("clients_pipeline_Stages", {
+      ...stage,
+      order,
+      orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: userId,
+    });
+  }
+  return await getOrgStages(ctx, orgId);
+}
+
+/**
+ * Stage set must keep a way to win and a way to lose
+ */
+export function assertClosingStages(stages: { kind: string }[]) {
+  if (!stages.some((stage) => stage.kind === "won") || !stages.some((stage) => stage.kind === "lost")) {
+    throw new Error("Pipeline needs at least one won and one lost stage");
+  }
+}
+
+/**
+ * Linked contacts must belong to the deal's org
+ */
+export async function assertContactInOrg(ctx: MutationCtx, orgId: Id<"admin_orgs">, contactId: Id<"clients_contacts_Users">) {
+  const contact = await ctx.db.get(contactId);
+  if (!contact) throw new Error("Contact not found");
+  if (contact.orgId !== orgId) {
+    throw new Error("Unauthorized: Contact not in this organization");
+  }
+}
+
+/**
+ * Bottom-of-column position for a stage
+ */
+export async function nextPosition(ctx: MutationCtx, stageId: Id<"clients_pipeline_Stages">) {
+  const deals = await ctx.db
+    .query("clients_pipeline_Deals")
+    .withIndex("by_stage", (q) => q.eq("stageId", stageId))
+    .collect();
+  const last = deals.reduce<number | undefined>((max, deal) => max === undefined || deal.position > max ? deal.position : max, undefined);
+  return positionBetween(last, undefined);
+}
@@ -0,0 +1,92 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💼 CLIENT PIPELINE QUERIES - SRS Layer 4                                 │
+│  /convex/domains/clients/pipeline/queries.ts                              │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Rank-based data scoping for the sales pipeline:                          │
+│  • Crew: Org stages; deals linked to their assigned contacts              │
+│  • Captain/Commodore: Organization-scoped (by_org index)                  │
+│  • Admiral: All orgs (cross-org, platform-wide)                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List pipeline stages in board order
+ */
+export const listPipelineStages = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    let stages;
+
+    if (rank === "admiral") {
+      stages = await ctx.db.query("clients_pipeline_Stages").collect();
+    } else {
+      const orgId = user.orgId;
+      stages = orgId
+        ? await ctx.db
+          .query("clients_pipeline_Stages")
+          .withIndex("by_org", (q) => q.eq("orgId", orgId))
+          .collect()
+        : [];
+    }
+
+    return stages.sort((a, b) => a.order - b.order);
+  },
+});
+
+/**
+ * List deals with rank-based scoping
+ */
+export const listDeals = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    if (rank === "admiral") {
+      return await ctx.db.query("clients_pipeline_Deals").collect();
+    }
+
+    if (rank === "captain" || rank === "commodore") {
+      const orgId = user.orgId;
+      if (!orgId) return [];
+      return await ctx.db
+        .query("clients_pipeline_Deals")
+        .withIndex("by_org", (q) => q.eq("orgId", orgId))
+        .collect();
+    }
+
+    // Crew follow their contacts
+    const contacts = await ctx.db
+      .query("clients_contacts_Users")
+      .withIndex("by_assigned", (q) => q.eq("assignedTo", user._id))
+      .collect();
+    const deals = await Promise.all(contacts.map((contact) =>
+      ctx.db
+        .query("clients_pipeline_Deals")
+        .withIndex("by_contact", (q) => q.eq("contactId", contact._id))
+        .collect()
+    ));
+    return deals.flat();
+  },
+});
@@ -0,0 +1,205 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💼 PIPELINE STAGE MUTATIONS - SRS Layer 4                                │
+│  /convex/domains/clients/pipeline/stageMutations.ts                       │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Board columns with rank-based authorization:                             │
+│  • Captain/Commodore/Admiral only (org-scoped)                            │
+│  • Every org keeps at least one won and one lost stage                    │
+│  • Stages holding deals cannot change kind or be deleted                  │
+│  • Crew: Read-only access                                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { validateStage } from "@/domains/clients";
+import { assertClosingStages, assertSameOrg, ensurePipelineStages, getOrgStages, resolveOrgId } from "./model";
+
+const stageKindValidator = v.union(v.literal("open"), v.literal("won"), v.literal("lost"));
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Create the default stages for the org (no-op once it has any)
+ */
+export const seedPipelineStages = mutation({
+  args: { callerUserId: v.id("admin_users"), orgId: v.optional(v.id("admin_orgs")) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    await ensurePipelineStages(ctx, resolveOrgId(user, args.orgId), user._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Add a stage at the end of the board
+ */
+export const createPipelineStage = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    name: v.string(),
+    kind: stageKindValidator,
+    probability: v.number(),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const stageError = validateStage(args);
+    if (stageError) throw new Error(stageError);
+
+    const orgId = resolveOrgId(user, args.orgId);
+    const stages = await ensurePipelineStages(ctx, orgId, user._id);
+    const now = Date.now();
+
+    const stageId = await ctx.db.insert("clients_pipeline_Stages", {
+      name: args.name.trim(),
+      kind: args.kind,
+      probability: args.probability,
+      order: stages.length === 0 ? 0 : stages[stages.length - 1].order + 1,
+      orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, stageId };
+  },
+});
+
+/**
+ * Rename a stage or change its kind / default probability
+ */
+export const updatePipelineStage = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    stageId: v.id("clients_pipeline_Stages"),
+    name: v.optional(v.string()),
+    kind: v.optional(stageKindValidator),
+    probability: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const stage = await ctx.db.get(args.stageId);
+    if (!stage) throw new Error("Stage not found");
+    assertSameOrg(user, stage, "Stage");
+
+    const next = {
+      name: args.name ?? stage.name,
+      kind: args.kind ?? stage.kind,
+      probability: args.probability ?? stage.probability,
+    };
+    const stageError = validateStage(next);
+    if (stageError) throw new Error(stageError);
+
+    if (next.kind !== stage.kind) {
+      const stages = await getOrgStages(ctx, stage.orgId);
+      assertClosingStages(stages.map((s) => (s._id === stage._id ? next : s)));
+
+      const deals = await ctx.db
+        .query("clients_pipeline_Deals")
+        .withIndex("by_stage", (q) => q.eq("stageId", stage._id))
+        .first();
+      if (deals) throw new Error("Move the deals out of this stage before changing its kind");
+    }
+
+    await ctx.db.patch(args.stageId, {
+      name: next.name.trim(),
+      kind: next.kind,
+      probability: next.probability,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Save the board's column order (must list every stage of the org once)
+ */
+export const reorderPipelineStages = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    stageIds: v.array(v.id("clients_pipeline_Stages")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const first = args.stageIds[0] ? await ctx.db.get(args.stageIds[0]) : null;
+    if (!first) throw new Error("Stage not found");
+    assertSameOrg(user, first, "Stage");
+
+    const stages = await getOrgStages(ctx, first.orgId);
+    const ids = new Set(args.stageIds);
+    if (ids.size !== args.stageIds.length || ids.size !== stages.length || stages.some((stage) => !ids.has(stage._id))) {
+      throw new Error("Stage order must include every stage exactly once");
+    }
+
+    const now = Date.now();
+    for (const [order, stageId] of args.stageIds.entries()) {
+      await ctx.db.patch(stageId, { order, updatedAt: now });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete an empty stage
+ */
+export const deletePipelineStage = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    stageId: v.id("clients_pipeline_Stages"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const stage = await ctx.db.get(args.stageId);
+    if (!stage) throw new Error("Stage not found");
+    assertSameOrg(user, stage, "Stage");
+
+    const deal = await ctx.db
+      .query("clients_pipeline_Deals")
+      .withIndex("by_stage", (q) => q.eq("stageId", stage._id))
+      .first();
+    if (deal) throw new Error("Move the deals out of this stage before deleting it");
+
+    const stages = await getOrgStages(ctx, stage.orgId);
+    assertClosingStages(stages.filter((s) => s._id !== stage._id));
+
+    await ctx.db.delete(args.stageId);
+
+    return { success: true };
+  },
+});
@@ -17,17 +17,17 @@
 
 import { query } from "@/convex/_generated/server";
 import type { QueryCtx } from "@/convex/_generated/server";
-import type { Id } from "@/convex/_generated/dataModel";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
  */
 async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getEffectiveUser(ctx, callerUserId);
 }
 
 /**
@@ -44,11 +44,13 @@ export const listClients = query({
     if (rank === "admiral") {
       clients = await ctx.db.query("clients_contacts_Users").collect();
     } else if (rank === "captain" || rank === "commodore") {
-      const orgId = user.orgSlug || "";
-      clients = await ctx.db
-        .query("clients_contacts_Users")
-        .withIndex("by_org", (q) => q.eq("orgId", orgId))
-        .collect();
+      const orgId = user.orgId;
+      clients = orgId
+        ? await ctx.db
+          .query("clients_contacts_Users")
+          .withIndex("by_org", (q) => q.eq("orgId", orgId))
+          .collect()
+        : [];
     } else {
       clients = await ctx.db
         .query("clients_contacts_Users")
@@ -75,7 +77,7 @@ export const getClient = query({
     if (rank === "admiral") {
       return client;
     } else if (rank === "captain" || rank === "commodore") {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
       if (client.orgId !== orgId) {
         throw new Error("Unauthorized: Client not in your organization");
       }
@@ -88,3 +90,43 @@ export const getClient = query({
     }
   },
 });
+
+/**
+ * List people contacts can be assigned to (org members; admirals see everyone)
+ */
+export const listAssignableMembers = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    // Only what the assignee picker needs - never the full user record
+    const toMember = (member: Doc<"admin_users">, orgId: string) => ({
+      _id: member._id,
+      firstName: member.firstName,
+      lastName: member.lastName,
+      email: member.email,
+      rank: member.rank || "crew",
+      orgId,
+    });
+
+    if (rank === "admiral") {
+      const everyone = await ctx.db.query("admin_users").collect();
+      return everyone.map((member) => toMember(member, member.orgId ?? ""));
+    }
+
+    if (!user.orgId) return [toMember(user, "")];
+    const orgId = user.orgId;
+    const memberships = await ctx.db
+      .query("admin_orgs_Members")
+      .withIndex("by_org", (q) => q.eq("orgId", orgId))
+      .collect();
+
+    const members = [];
+    for (const membership of memberships) {
+      const member = await ctx.db.get(membership.userId);
+      if (member) members.push(toMember(member, orgId));
+    }
+    return members;
+  },
+});
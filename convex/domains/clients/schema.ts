@@ -0,0 +1,103 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  CLIENTS SCHEMA - Domain Tables                                           │
+│  /convex/domains/clients/schema.ts                                        │
+│                                                                           │
+│  Contacts and the sales pipeline.                                         │
+│  Spread into defineSchema by /convex/schema.ts.                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const clientsTables = {
+  clients_contacts_Users: defineTable({
+    // Identity (required)
+    firstName: v.string(),
+    lastName: v.string(),
+    email: v.string(),
+
+    // Profile (optional)
+    company: v.optional(v.string()),
+    jobTitle: v.optional(v.string()),
+    phoneNumber: v.optional(v.string()),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+    assignedTo: v.optional(v.id("admin_users")),
+
+    // Status (required with default)
+    status: v.union(
+      v.literal("lead"),
+      v.literal("prospect"),
+      v.literal("active"),
+      v.literal("inactive"),
+      v.literal("archived")
+    ),
+    notes: v.optional(v.string()),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_assigned", ["assignedTo"])
+    .index("by_email", ["email"])
+    .index("by_status", ["status"]),
+
+  /**
+   * 🧭 PIPELINE STAGES - Per-org sales pipeline columns
+   *
+   * DOCTRINE:
+   * - Seeded from DEFAULT_PIPELINE_STAGES (@/domains/clients) on first use
+   * - kind "won"/"lost" closes a deal; every org keeps at least one of each
+   * - probability is the default win chance for deals entering the stage
+   * - A stage holding deals cannot be deleted
+   */
+  clients_pipeline_Stages: defineTable({
+    name: v.string(),
+    kind: v.union(v.literal("open"), v.literal("won"), v.literal("lost")),
+    probability: v.number(), // 0-100
+    order: v.number(),
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"]),
+
+  /**
+   * 💼 PIPELINE DEALS - Opportunities moving through the stages
+   *
+   * DOCTRINE:
+   * - position orders deals within a stage (fractional - a move patches one row)
+   * - Entering a won/lost stage stamps closedAt and requires a closeReason;
+   *   moving back to an open stage reopens the deal
+   * - Forecast = value × probability, summed per currency
+   */
+  clients_pipeline_Deals: defineTable({
+    title: v.string(),
+    stageId: v.id("clients_pipeline_Stages"),
+    position: v.number(),
+    value: v.number(),
+    currency: v.string(),
+    probability: v.number(), // 0-100
+    expectedCloseDate: v.optional(v.number()),
+    contactId: v.optional(v.id("clients_contacts_Users")),
+    notes: v.optional(v.string()),
+
+    // Outcome (set when the deal enters a won/lost stage)
+    closedAt: v.optional(v.number()),
+    closeReason: v.optional(v.string()),
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_stage", ["stageId"])
+    .index("by_contact", ["contactId"]),
+};
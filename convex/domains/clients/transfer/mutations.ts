@@ -0,0 +1,162 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📇 CLIENT CONTACT IMPORT MUTATIONS - SRS Layer 4                         │
+│  /convex/domains/clients/transfer/mutations.ts                            │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Contact import (CSV/vCard parsed + previewed client-side):               │
+│  • Captain/Commodore/Admiral only, always into the caller's org           │
+│  • One batch per call (≤ CONTACT_IMPORT_BATCH_SIZE rows + merges)         │
+│  • New rows dedupe on by_email against the org and within the batch -     │
+│    re-running an import is a no-op                                        │
+│  • Merges patch only the fields the user picked from the file             │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import {
+  CONTACT_IMPORT_BATCH_SIZE,
+  DEFAULT_CONTACT_STATUS,
+  normalizeEmail,
+  validateContact,
+} from "@/domains/clients";
+
+const statusValidator = v.union(
+  v.literal("lead"),
+  v.literal("prospect"),
+  v.literal("active"),
+  v.literal("inactive"),
+  v.literal("archived")
+);
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Import one batch of parsed contacts and duplicate merges.
+ * Rows without a status take the batch default (lead unless chosen).
+ */
+export const importContacts = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    status: v.optional(statusValidator),
+    rows: v.array(v.object({
+      firstName: v.string(),
+      lastName: v.string(),
+      email: v.string(),
+      company: v.optional(v.string()),
+      jobTitle: v.optional(v.string()),
+      phoneNumber: v.optional(v.string()),
+      notes: v.optional(v.string()),
+      status: v.optional(statusValidator),
+    })),
+    merges: v.array(v.object({
+      clientId: v.id("clients_contacts_Users"),
+      firstName: v.optional(v.string()),
+      lastName: v.optional(v.string()),
+      company: v.optional(v.string()),
+      jobTitle: v.optional(v.string()),
+      phoneNumber: v.optional(v.string()),
+      notes: v.optional(v.string()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    if (args.rows.length + args.merges.length > CONTACT_IMPORT_BATCH_SIZE) {
+      throw new Error(`Import batches are limited to ${CONTACT_IMPORT_BATCH_SIZE} contacts`);
+    }
+
+    // Contacts always land in the caller's own org
+    const orgId = requireActiveOrgId(user);
+    const now = Date.now();
+    const seen = new Set<string>();
+    let inserted = 0;
+    let skipped = 0;
+
+    for (const row of args.rows) {
+      const email = normalizeEmail(row.email);
+      if (validateContact(row) || seen.has(email)) {
+        skipped++;
+        continue;
+      }
+      seen.add(email);
+
+      const matches = await ctx.db
+        .query("clients_contacts_Users")
+        .withIndex("by_email", (q) => q.eq("email", email))
+        .collect();
+      if (matches.some((match) => match.orgId === orgId)) {
+        skipped++;
+        continue;
+      }
+
+      await ctx.db.insert("clients_contacts_Users", {
+        firstName: row.firstName.trim(),
+        lastName: row.lastName.trim(),
+        email,
+        company: row.company,
+        jobTitle: row.jobTitle,
+        phoneNumber: row.phoneNumber,
+        orgId,
+        status: row.status || args.status || DEFAULT_CONTACT_STATUS,
+        notes: row.notes,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: user._id,
+      });
+      inserted++;
+    }
+
+    let merged = 0;
+    for (const { clientId, ...fields } of args.merges) {
+      const client = await ctx.db.get(clientId);
+      if (!client) throw new Error("Client not found");
+      if (client.orgId !== orgId) {
+        throw new Error("Unauthorized: Client not in your organization");
+      }
+
+      const updates: Record<string, unknown> = { updatedAt: now };
+      if (fields.firstName !== undefined) updates.firstName = fields.firstName.trim();
+      if (fields.lastName !== undefined) updates.lastName = fields.lastName.trim();
+      if (fields.company !== undefined) updates.company = fields.company;
+      if (fields.jobTitle !== undefined) updates.jobTitle = fields.jobTitle;
+      if (fields.phoneNumber !== undefined) updates.phoneNumber = fields.phoneNumber;
+      if (fields.notes !== undefined) updates.notes = fields.notes;
+
+      const contactError = validateContact({
+        firstName: (updates.firstName as string | undefined) ?? client.firstName,
+        lastName: (updates.lastName as string | undefined) ?? client.lastName,
+        email: client.email,
+      });
+      if (contactError) throw new Error(contactError);
+
+      await ctx.db.patch(clientId, updates);
+      merged++;
+    }
+
+    return { success: true, inserted, merged, skipped };
+  },
+});
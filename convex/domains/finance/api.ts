@@ -10,6 +10,31 @@
 
 // Export queries
 export { listTransactions, getTransaction } from "./queries";
+export { listInvoices, getInvoice } from "./invoices/queries";
+export { listLedgerAccounts, listJournalEntries } from "./ledger/queries";
+export { getCurrencySettings, listFxRates } from "./currency/queries";
+export { listRecurringTemplates, listRecurringRuns } from "./recurring/queries";
 
 // Export mutations
 export { createTransaction, updateTransaction, deleteTransaction } from "./mutations";
+export {
+  createInvoice,
+  updateInvoice,
+  updateInvoiceStatus,
+  deleteInvoice,
+} from "./invoices/mutations";
+export { importStatementRows, matchStatementPayment } from "./statements/mutations";
+export {
+  seedChartOfAccounts,
+  createLedgerAccount,
+  updateLedgerAccount,
+  createJournalEntry,
+  reverseJournalEntry,
+} from "./ledger/mutations";
+export { setBaseCurrency, saveFxRate, importFxRates, deleteFxRate } from "./currency/mutations";
+export {
+  createRecurringTemplate,
+  updateRecurringTemplate,
+  setRecurringTemplateStatus,
+  deleteRecurringTemplate,
+} from "./recurring/mutations";
@@ -0,0 +1,219 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💱 FINANCE CURRENCY MUTATIONS - SRS Layer 4                              │
+│  /convex/domains/finance/currency/mutations.ts                            │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Base currency + dated FX rates (manual entry or file import):            │
+│  • Captain/Commodore/Admiral only (org-scoped)                            │
+│  • One rate per pair per day - saving again overwrites it                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import { isCurrencyCode } from "@/lib/currency";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Resolve the org a currency write targets (admirals may name one)
+ */
+function resolveOrgId(user: Doc<"admin_users">, orgId: Id<"admin_orgs"> | undefined) {
+  return (user.rank || "crew") === "admiral" && orgId ? orgId : requireActiveOrgId(user);
+}
+
+const rateValidator = v.object({
+  base: v.string(),
+  quote: v.string(),
+  rate: v.number(),
+  date: v.number(),
+});
+
+/**
+ * Insert or overwrite the rate for a pair on a day
+ */
+async function upsertRate(
+  ctx: MutationCtx,
+  orgId: Id<"admin_orgs">,
+  userId: Id<"admin_users">,
+  input: { base: string; quote: string; rate: number; date: number },
+  source: "manual" | "import"
+) {
+  const base = input.base.trim().toUpperCase();
+  const quote = input.quote.trim().toUpperCase();
+  if (!isCurrencyCode(base) || !isCurrencyCode(quote)) {
+    throw new Error(`Invalid currency pair ${input.base}/${input.quote}`);
+  }
+  if (base === quote) {
+    throw new Error("Base and quote currency must differ");
+  }
+  if (!Number.isFinite(input.rate) || input.rate <= 0) {
+    throw new Error(`Invalid rate for ${base}/${quote}`);
+  }
+
+  const date = Math.floor(input.date / DAY_MS) * DAY_MS;
+  const existing = await ctx.db
+    .query("finance_currency_Rates")
+    .withIndex("by_org_pair_date", (q) => q.eq("orgId", orgId).eq("base", base).eq("quote", quote).eq("date", date))
+    .first();
+
+  const now = Date.now();
+  if (existing) {
+    await ctx.db.patch(existing._id, { rate: input.rate, source, updatedAt: now });
+    return { rateId: existing._id, created: false };
+  }
+
+  const rateId = await ctx.db.insert("finance_currency_Rates", {
+    base,
+    quote,
+    rate: input.rate,
+    date,
+    source,
+    orgId,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: userId,
+  });
+  return { rateId, created: true };
+}
+
+/**
+ * Set the org base currency (overrides the org country default)
+ */
+export const setBaseCurrency = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    baseCurrency: v.string(),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const orgId = resolveOrgId(user, args.orgId);
+    const baseCurrency = args.baseCurrency.trim().toUpperCase();
+    if (!isCurrencyCode(baseCurrency)) {
+      throw new Error("Base currency must be a 3-letter ISO code");
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("finance_currency_Settings")
+      .withIndex("by_org", (q) => q.eq("orgId", orgId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { baseCurrency, updatedAt: now });
+    } else {
+      await ctx.db.insert("finance_currency_Settings", {
+        baseCurrency,
+        orgId,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: user._id,
+      });
+    }
+
+    return { success: true, baseCurrency };
+  },
+});
+
+/**
+ * Enter a single rate by hand
+ */
+export const saveFxRate = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    base: v.string(),
+    quote: v.string(),
+    rate: v.number(),
+    date: v.number(),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const result = await upsertRate(ctx, resolveOrgId(user, args.orgId), user._id, args, "manual");
+
+    return { success: true, ...result };
+  },
+});
+
+/**
+ * Import a batch of parsed rates (client sends FX_IMPORT_BATCH_SIZE at a time)
+ */
+export const importFxRates = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    rates: v.array(rateValidator),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const orgId = resolveOrgId(user, args.orgId);
+    let created = 0;
+    let updated = 0;
+
+    for (const rate of args.rates) {
+      const result = await upsertRate(ctx, orgId, user._id, rate, "import");
+      if (result.created) created++;
+      else updated++;
+    }
+
+    return { success: true, created, updated };
+  },
+});
+
+/**
+ * Delete a stored rate
+ */
+export const deleteFxRate = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    rateId: v.id("finance_currency_Rates"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const rate = await ctx.db.get(args.rateId);
+    if (!rate) {
+      throw new Error("Rate not found");
+    }
+
+    if ((user.rank || "crew") !== "admiral" && rate.orgId !== user.orgId) {
+      throw new Error("Unauthorized: Rate not in your organization");
+    }
+
+    await ctx.db.delete(args.rateId);
+
+    return { success: true };
+  },
+});
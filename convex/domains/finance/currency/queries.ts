@@ -0,0 +1,61 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💱 FINANCE CURRENCY QUERIES - SRS Layer 4                                │
+│  /convex/domains/finance/currency/queries.ts                              │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Base currency + FX rates are org-wide reference data:                    │
+│  • Crew/Captain/Commodore: own organization                               │
+│  • Admiral: own organization, or any org via orgId                        │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+import { resolveOrgId } from "@/convex/domains/admin/orgs/model";
+import { getBaseCurrency } from "./rates";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * Org base currency (isDefault = derived from the org's country, never saved)
+ */
+export const getCurrencySettings = query({
+  args: { callerUserId: v.id("admin_users"), orgId: v.optional(v.id("admin_orgs")) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const orgId = await resolveOrgId(ctx, user, args.orgId);
+
+    return await getBaseCurrency(ctx, orgId);
+  },
+});
+
+/**
+ * List FX rates (newest first)
+ */
+export const listFxRates = query({
+  args: { callerUserId: v.id("admin_users"), orgId: v.optional(v.id("admin_orgs")) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const orgId = await resolveOrgId(ctx, user, args.orgId);
+    if (!orgId) return [];
+
+    const rates = await ctx.db
+      .query("finance_currency_Rates")
+      .withIndex("by_org", (q) => q.eq("orgId", orgId))
+      .collect();
+
+    return rates.sort((a, b) => b.date - a.date);
+  },
+});
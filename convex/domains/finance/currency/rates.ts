@@ -0,0 +1,44 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  💱 CURRENCY - Shared Query Helpers                                       │
+│  /convex/domains/finance/currency/rates.ts                                │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Base currency = settings row, else derived from the org's country     │
+│  - Rates are org-scoped; conversion math lives in @/lib/currency so the   │
+│    client, reports and project rollups all convert the same way           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { currencyForCountry, type FxRate } from "@/lib/currency";
+
+/**
+ * Resolve an org's base currency
+ * Without a settings row it follows the org's settings.country
+ */
+export async function getBaseCurrency(ctx: QueryCtx, orgId: Id<"admin_orgs"> | null) {
+  if (!orgId) return { baseCurrency: currencyForCountry(undefined), isDefault: true };
+
+  const settings = await ctx.db
+    .query("finance_currency_Settings")
+    .withIndex("by_org", (q) => q.eq("orgId", orgId))
+    .first();
+  if (settings) return { baseCurrency: settings.baseCurrency, isDefault: false };
+
+  const org = await ctx.db.get(orgId);
+  return { baseCurrency: currencyForCountry(org?.settings.country), isDefault: true };
+}
+
+/**
+ * All stored FX rates for an org, oldest first
+ */
+export async function getOrgRates(ctx: QueryCtx, orgId: Id<"admin_orgs">): Promise<FxRate[]> {
+  const rows = await ctx.db
+    .query("finance_currency_Rates")
+    .withIndex("by_org", (q) => q.eq("orgId", orgId))
+    .collect();
+
+  return rows
+    .map(({ base, quote, rate, date }) => ({ base, quote, rate, date }))
+    .sort((a, b) => a.date - b.date);
+}
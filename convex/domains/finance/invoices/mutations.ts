@@ -0,0 +1,303 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🧾 FINANCE INVOICE MUTATIONS - SRS Layer 4                               │
+│  /convex/domains/finance/invoices/mutations.ts                            │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Invoice lifecycle with rank-based authorization:                         │
+│  • Create/Update/Delete: Captain/Commodore/Admiral only (org-scoped)      │
+│  • Drafts are editable and deletable; issued invoices can only move       │
+│    forward (sent → overdue → paid | void)                                 │
+│  • Numbers come from the per-org sequence when a draft leaves draft       │
+│  • Crew: Read-only access                                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId, resolveWriteOrgId } from "@/convex/domains/admin/orgs/model";
+import {
+  calculateInvoiceTotals,
+  canTransitionInvoice,
+  invoicePostingLines,
+  validateLineItems,
+} from "@/domains/finance";
+import { postSourceEntry, reverseSourceEntries } from "@/convex/domains/finance/ledger/posting";
+import { allocateInvoiceNumber } from "@/convex/domains/finance/invoices/numbering";
+import { deleteEmailLinksTo } from "@/convex/domains/productivity/links/model";
+
+const lineItemValidator = v.object({
+  description: v.string(),
+  quantity: v.number(),
+  unitPrice: v.number(),
+  taxRate: v.number(),
+});
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Load an invoice and enforce org ownership for non-admirals
+ */
+async function getAuthorizedInvoice(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  invoiceId: Id<"finance_invoicing_Invoices">
+) {
+  const invoice = await ctx.db.get(invoiceId);
+  if (!invoice) {
+    throw new Error("Invoice not found");
+  }
+
+  if ((user.rank || "crew") !== "admiral") {
+    const orgId = requireActiveOrgId(user);
+    if (invoice.orgId !== orgId) {
+      throw new Error("Unauthorized: Invoice not in your organization");
+    }
+  }
+
+  return invoice;
+}
+
+/**
+ * Create new draft invoice
+ */
+export const createInvoice = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    contactId: v.optional(v.id("clients_contacts_Users")),
+    customerName: v.string(),
+    customerEmail: v.optional(v.string()),
+    lineItems: v.array(lineItemValidator),
+    currency: v.string(),
+    issueDate: v.number(),
+    dueDate: v.number(),
+    notes: v.optional(v.string()),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    requireCaptainOrHigher(rank);
+
+    const lineItemError = validateLineItems(args.lineItems);
+    if (lineItemError) throw new Error(lineItemError);
+    if (args.dueDate < args.issueDate) throw new Error("Due date cannot be before issue date");
+
+    const orgId = await resolveWriteOrgId(ctx, user, args.orgId);
+
+    const now = Date.now();
+
+    const invoiceId = await ctx.db.insert("finance_invoicing_Invoices", {
+      contactId: args.contactId,
+      customerName: args.customerName,
+      customerEmail: args.customerEmail,
+      lineItems: args.lineItems,
+      ...calculateInvoiceTotals(args.lineItems),
+      currency: args.currency,
+      issueDate: args.issueDate,
+      dueDate: args.dueDate,
+      notes: args.notes,
+      orgId,
+      status: "draft",
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, invoiceId };
+  },
+});
+
+/**
+ * Update draft invoice content (customer, lines, dates, currency).
+ * Notes and due date stay editable after sending.
+ */
+export const updateInvoice = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    invoiceId: v.id("finance_invoicing_Invoices"),
+    contactId: v.optional(v.id("clients_contacts_Users")),
+    customerName: v.optional(v.string()),
+    customerEmail: v.optional(v.string()),
+    lineItems: v.optional(v.array(lineItemValidator)),
+    currency: v.optional(v.string()),
+    issueDate: v.optional(v.number()),
+    dueDate: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const invoice = await getAuthorizedInvoice(ctx, user, args.invoiceId);
+
+    const touchesContent =
+      args.contactId !== undefined ||
+      args.customerName !== undefined ||
+      args.customerEmail !== undefined ||
+      args.lineItems !== undefined ||
+      args.currency !== undefined ||
+      args.issueDate !== undefined;
+
+    if (touchesContent && invoice.status !== "draft") {
+      throw new Error("Only draft invoices can be edited");
+    }
+    if (invoice.status === "paid" || invoice.status === "void") {
+      throw new Error(`Invoice is ${invoice.status} and can no longer be changed`);
+    }
+
+    const updates: Record<string, unknown> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.contactId !== undefined) updates.contactId = args.contactId;
+    if (args.customerName !== undefined) updates.customerName = args.customerName;
+    if (args.customerEmail !== undefined) updates.customerEmail = args.customerEmail;
+    if (args.currency !== undefined) updates.currency = args.currency;
+    if (args.issueDate !== undefined) updates.issueDate = args.issueDate;
+    if (args.dueDate !== undefined) updates.dueDate = args.dueDate;
+    if (args.notes !== undefined) updates.notes = args.notes;
+
+    if (args.lineItems !== undefined) {
+      const lineItemError = validateLineItems(args.lineItems);
+      if (lineItemError) throw new Error(lineItemError);
+      updates.lineItems = args.lineItems;
+      Object.assign(updates, calculateInvoiceTotals(args.lineItems));
+    }
+
+    const issueDate = args.issueDate ?? invoice.issueDate;
+    const dueDate = args.dueDate ?? invoice.dueDate;
+    if (dueDate < issueDate) throw new Error("Due date cannot be before issue date");
+
+    // Extending the due date of an overdue invoice puts it back to sent
+    if (invoice.status === "overdue" && dueDate >= Date.now()) updates.status = "sent";
+
+    await ctx.db.patch(args.invoiceId, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Move an invoice through its lifecycle (draft → sent → paid | void).
+ * The first move out of draft allocates the org's next invoice number.
+ * Overdue is set by the recurring queue, never by hand.
+ */
+export const updateInvoiceStatus = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    invoiceId: v.id("finance_invoicing_Invoices"),
+    status: v.union(
+      v.literal("sent"),
+      v.literal("paid"),
+      v.literal("void")
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const invoice = await getAuthorizedInvoice(ctx, user, args.invoiceId);
+
+    if (!canTransitionInvoice(invoice.status, args.status)) {
+      throw new Error(`Cannot change invoice from ${invoice.status} to ${args.status}`);
+    }
+
+    const now = Date.now();
+    const updates: Record<string, unknown> = {
+      status: args.status,
+      updatedAt: now,
+    };
+
+    // Voiding a draft leaves it unnumbered - no gap in the issued sequence
+    if (invoice.status === "draft" && args.status !== "void") {
+      const allocated = await allocateInvoiceNumber(ctx, invoice.orgId);
+      updates.sequence = allocated.sequence;
+      updates.number = allocated.number;
+    }
+
+    if (args.status === "sent") updates.sentAt = now;
+    if (args.status === "paid") updates.paidAt = now;
+    if (args.status === "void") updates.voidedAt = now;
+
+    await ctx.db.patch(args.invoiceId, updates);
+
+    // 📒 Ledger: recognise the receivable when issued, settle it when paid
+    const number = (updates.number as string | undefined) ?? invoice.number;
+    const posting = {
+      orgId: invoice.orgId,
+      userId: user._id,
+      currency: invoice.currency,
+      sourceType: "invoice" as const,
+      sourceId: invoice._id,
+    };
+    if (args.status === "void") {
+      await reverseSourceEntries(ctx, "invoice", invoice._id, user._id, now);
+    } else {
+      await postSourceEntry(ctx, {
+        ...posting,
+        date: invoice.issueDate,
+        memo: `Invoice ${number} - ${invoice.customerName}`,
+        sourceEvent: "sent",
+        lines: invoicePostingLines(invoice, "sent"),
+      });
+    }
+    if (args.status === "paid") {
+      await postSourceEntry(ctx, {
+        ...posting,
+        date: now,
+        memo: `Payment for invoice ${number}`,
+        sourceEvent: "paid",
+        lines: invoicePostingLines(invoice, "paid"),
+      });
+    }
+
+    return { success: true, number };
+  },
+});
+
+/**
+ * Delete draft invoice (issued invoices must be voided instead)
+ */
+export const deleteInvoice = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    invoiceId: v.id("finance_invoicing_Invoices"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const invoice = await getAuthorizedInvoice(ctx, user, args.invoiceId);
+
+    if (invoice.status !== "draft") {
+      throw new Error("Only draft invoices can be deleted - void it instead");
+    }
+
+    await deleteEmailLinksTo(ctx, "invoice", args.invoiceId);
+    await ctx.db.delete(args.invoiceId);
+
+    return { success: true };
+  },
+});
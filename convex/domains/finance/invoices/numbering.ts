@@ -0,0 +1,40 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔢 INVOICE NUMBERING - Shared Mutation Helper                            │
+│  /convex/domains/finance/invoices/numbering.ts                            │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Called INSIDE the issuing mutation (manual send or recurring queue),   │
+│    so the number and the invoice commit in one transaction               │
+│  - Numbers are never reused; drafts stay unnumbered                       │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { DEFAULT_INVOICE_PREFIX, formatInvoiceNumber } from "@/domains/finance";
+
+/**
+ * Allocate the next invoice number for an org (creates the sequence on first use).
+ * Runs inside the calling mutation's transaction, so numbers never collide.
+ */
+export async function allocateInvoiceNumber(ctx: MutationCtx, orgId: Id<"admin_orgs">) {
+  const now = Date.now();
+  const sequence = await ctx.db
+    .query("finance_invoicing_Sequences")
+    .withIndex("by_org", (q) => q.eq("orgId", orgId))
+    .first();
+
+  if (!sequence) {
+    await ctx.db.insert("finance_invoicing_Sequences", {
+      orgId,
+      prefix: DEFAULT_INVOICE_PREFIX,
+      nextNumber: 2,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { sequence: 1, number: formatInvoiceNumber(1, DEFAULT_INVOICE_PREFIX) };
+  }
+
+  const current = sequence.nextNumber;
+  await ctx.db.patch(sequence._id, { nextNumber: current + 1, updatedAt: now });
+  return { sequence: current, number: formatInvoiceNumber(current, sequence.prefix) };
+}
@@ -0,0 +1,78 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🧾 FINANCE INVOICE QUERIES - SRS Layer 4                                 │
+│  /convex/domains/finance/invoices/queries.ts                              │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Rank-based data scoping for invoices:                                    │
+│  • Crew/Captain/Commodore: organization-scoped                            │
+│  • Admiral: All data (cross-org, platform-wide)                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List invoices with rank-based scoping (newest first)
+ */
+export const listInvoices = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    let invoices;
+
+    if (rank === "admiral") {
+      invoices = await ctx.db.query("finance_invoicing_Invoices").order("desc").collect();
+    } else {
+      const orgId = user.orgId;
+      invoices = orgId
+        ? await ctx.db
+          .query("finance_invoicing_Invoices")
+          .withIndex("by_org", (q) => q.eq("orgId", orgId))
+          .order("desc")
+          .collect()
+        : [];
+    }
+
+    return invoices;
+  },
+});
+
+/**
+ * Get single invoice by ID with rank-based authorization
+ */
+export const getInvoice = query({
+  args: { callerUserId: v.id("admin_users"), invoiceId: v.id("finance_invoicing_Invoices") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    const invoice = await ctx.db.get(args.invoiceId);
+    if (!invoice) return null;
+
+    if (rank !== "admiral") {
+      const orgId = user.orgId;
+      if (invoice.orgId !== orgId) {
+        throw new Error("Unauthorized: Invoice not in your organization");
+      }
+    }
+
+    return invoice;
+  },
+});
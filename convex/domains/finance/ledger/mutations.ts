@@ -0,0 +1,261 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📒 FINANCE LEDGER MUTATIONS - SRS Layer 4                                │
+│  /convex/domains/finance/ledger/mutations.ts                              │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Chart of accounts + manual journal entries:                              │
+│  • Captain/Commodore/Admiral only (org-scoped)                            │
+│  • Automatic postings live in ./posting.ts                                │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import { ensureChartOfAccounts, postJournalEntry, postReversal } from "./posting";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Resolve the org a ledger write targets (admirals may name one)
+ */
+function resolveOrgId(user: Doc<"admin_users">, orgId: Id<"admin_orgs"> | undefined) {
+  return (user.rank || "crew") === "admiral" && orgId ? orgId : requireActiveOrgId(user);
+}
+
+/**
+ * Load an account and enforce org ownership for non-admirals
+ */
+async function getAuthorizedAccount(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  accountId: Id<"finance_ledger_Accounts">
+) {
+  const account = await ctx.db.get(accountId);
+  if (!account) {
+    throw new Error("Account not found");
+  }
+
+  if ((user.rank || "crew") !== "admiral" && account.orgId !== user.orgId) {
+    throw new Error("Unauthorized: Account not in your organization");
+  }
+
+  return account;
+}
+
+const accountTypeValidator = v.union(
+  v.literal("asset"),
+  v.literal("liability"),
+  v.literal("equity"),
+  v.literal("income"),
+  v.literal("expense")
+);
+
+/**
+ * Create the default chart of accounts for the caller's org (no-op when present)
+ */
+export const seedChartOfAccounts = mutation({
+  args: { callerUserId: v.id("admin_users"), orgId: v.optional(v.id("admin_orgs")) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    await ensureChartOfAccounts(ctx, resolveOrgId(user, args.orgId), user._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Add an account to the chart (codes are unique per org)
+ */
+export const createLedgerAccount = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    code: v.string(),
+    name: v.string(),
+    type: accountTypeValidator,
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const orgId = resolveOrgId(user, args.orgId);
+    const code = args.code.trim();
+    const name = args.name.trim();
+    if (!code || !name) {
+      throw new Error("Account code and name are required");
+    }
+
+    const clash = await ctx.db
+      .query("finance_ledger_Accounts")
+      .withIndex("by_org_code", (q) => q.eq("orgId", orgId).eq("code", code))
+      .first();
+    if (clash) {
+      throw new Error(`Account code ${code} is already used by ${clash.name}`);
+    }
+
+    const now = Date.now();
+    const accountId = await ctx.db.insert("finance_ledger_Accounts", {
+      code,
+      name,
+      type: args.type,
+      isArchived: false,
+      orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, accountId };
+  },
+});
+
+/**
+ * Rename, re-code or archive an account.
+ * Type is fixed once created - it decides which statement the balance lands on.
+ */
+export const updateLedgerAccount = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    accountId: v.id("finance_ledger_Accounts"),
+    code: v.optional(v.string()),
+    name: v.optional(v.string()),
+    isArchived: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const account = await getAuthorizedAccount(ctx, user, args.accountId);
+
+    const updates: Record<string, unknown> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.code !== undefined && args.code.trim() !== account.code) {
+      const code = args.code.trim();
+      const clash = await ctx.db
+        .query("finance_ledger_Accounts")
+        .withIndex("by_org_code", (q) => q.eq("orgId", account.orgId).eq("code", code))
+        .first();
+      if (!code || clash) {
+        throw new Error(code ? `Account code ${code} is already used by ${clash?.name}` : "Account code is required");
+      }
+      updates.code = code;
+    }
+    if (args.name !== undefined) {
+      if (!args.name.trim()) throw new Error("Account name is required");
+      updates.name = args.name.trim();
+    }
+    if (args.isArchived !== undefined) {
+      if (args.isArchived && account.systemKey) {
+        throw new Error("System accounts are used by automatic postings and cannot be archived");
+      }
+      updates.isArchived = args.isArchived;
+    }
+
+    await ctx.db.patch(args.accountId, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Post a manual journal entry (debits must equal credits)
+ */
+export const createJournalEntry = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    date: v.number(),
+    memo: v.string(),
+    currency: v.string(),
+    lines: v.array(v.object({
+      accountId: v.id("finance_ledger_Accounts"),
+      debit: v.number(),
+      credit: v.number(),
+      memo: v.optional(v.string()),
+    })),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const orgId = resolveOrgId(user, args.orgId);
+    if (!args.memo.trim()) {
+      throw new Error("A memo is required");
+    }
+
+    for (const line of args.lines) {
+      const account = await getAuthorizedAccount(ctx, user, line.accountId);
+      if (account.orgId !== orgId) {
+        throw new Error("Unauthorized: Account not in this organization");
+      }
+      if (account.isArchived) {
+        throw new Error(`Account ${account.code} ${account.name} is archived`);
+      }
+    }
+
+    const entryId = await postJournalEntry(ctx, {
+      orgId,
+      userId: user._id,
+      date: args.date,
+      memo: args.memo.trim(),
+      currency: args.currency,
+      lines: args.lines,
+      sourceType: "manual",
+    });
+
+    return { success: true, entryId };
+  },
+});
+
+/**
+ * Reverse a posted entry (the only way to correct the ledger)
+ */
+export const reverseJournalEntry = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    entryId: v.id("finance_ledger_JournalEntries"),
+    date: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry) {
+      throw new Error("Journal entry not found");
+    }
+    if ((user.rank || "crew") !== "admiral" && entry.orgId !== user.orgId) {
+      throw new Error("Unauthorized: Journal entry not in your organization");
+    }
+
+    const reversalId = await postReversal(ctx, entry, user._id, args.date ?? Date.now());
+
+    return { success: true, reversalId };
+  },
+});
@@ -0,0 +1,177 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📒 LEDGER POSTING - Shared Mutation Helpers                              │
+│  /convex/domains/finance/ledger/posting.ts                                │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Called INSIDE the invoice/transaction mutations, so the source write   │
+│    and its journal entry commit in one transaction                        │
+│  - Every entry passes validateJournalLines (debits = credits)             │
+│  - Never patch or delete posted lines - reverse them                      │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import {
+  DEFAULT_CHART_OF_ACCOUNTS,
+  reverseJournalLines,
+  validateJournalLines,
+  type PostingLine,
+  type SystemAccountKey,
+} from "@/domains/finance";
+
+type LedgerLines = Doc<"finance_ledger_JournalEntries">["lines"];
+type SourceType = Doc<"finance_ledger_JournalEntries">["sourceType"];
+
+interface JournalEntryInput {
+  orgId: Id<"admin_orgs">;
+  userId: Id<"admin_users">;
+  date: number;
+  memo: string;
+  currency: string;
+  lines: LedgerLines;
+  sourceType: SourceType;
+  sourceId?: string;
+  sourceEvent?: string;
+  reversesEntryId?: Id<"finance_ledger_JournalEntries">;
+}
+
+/**
+ * Make sure an org has the default system accounts.
+ * @returns systemKey → account id for the posting rules
+ */
+export async function ensureChartOfAccounts(
+  ctx: MutationCtx,
+  orgId: Id<"admin_orgs">,
+  userId: Id<"admin_users">
+): Promise<Record<SystemAccountKey, Id<"finance_ledger_Accounts">>> {
+  const accounts = await ctx.db
+    .query("finance_ledger_Accounts")
+    .withIndex("by_org", (q) => q.eq("orgId", orgId))
+    .collect();
+
+  const now = Date.now();
+  const resolved = {} as Record<SystemAccountKey, Id<"finance_ledger_Accounts">>;
+
+  for (const template of DEFAULT_CHART_OF_ACCOUNTS) {
+    const existing = accounts.find((account) => account.systemKey === template.systemKey);
+    resolved[template.systemKey] = existing
+      ? existing._id
+      : await ctx.db.insert("finance_ledger_Accounts", {
+          ...template,
+          isArchived: false,
+          orgId,
+          createdAt: now,
+          updatedAt: now,
+          createdBy: userId,
+        });
+  }
+
+  return resolved;
+}
+
+/**
+ * Validate and insert one journal entry
+ */
+export async function postJournalEntry(ctx: MutationCtx, input: JournalEntryInput) {
+  const error = validateJournalLines(input.lines);
+  if (error) {
+    throw new Error(`Unbalanced journal entry: ${error}`);
+  }
+
+  const now = Date.now();
+  return await ctx.db.insert("finance_ledger_JournalEntries", {
+    date: input.date,
+    memo: input.memo,
+    currency: input.currency,
+    lines: input.lines,
+    sourceType: input.sourceType,
+    sourceId: input.sourceId,
+    sourceEvent: input.sourceEvent,
+    reversesEntryId: input.reversesEntryId,
+    orgId: input.orgId,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: input.userId,
+  });
+}
+
+/**
+ * Post posting-rule output (system account keys) for an invoice or transaction.
+ * Idempotent per source + event: an existing live entry is left as is.
+ */
+export async function postSourceEntry(
+  ctx: MutationCtx,
+  input: Omit<JournalEntryInput, "lines" | "sourceId" | "sourceEvent" | "reversesEntryId"> & {
+    sourceId: string;
+    sourceEvent: string;
+    lines: PostingLine[];
+  }
+) {
+  if (input.lines.length === 0) return null;
+
+  const existing = await ctx.db
+    .query("finance_ledger_JournalEntries")
+    .withIndex("by_source", (q) => q.eq("sourceType", input.sourceType).eq("sourceId", input.sourceId))
+    .collect();
+  if (existing.some((entry) => entry.sourceEvent === input.sourceEvent && !entry.reversedAt && !entry.reversesEntryId)) {
+    return null;
+  }
+
+  const accounts = await ensureChartOfAccounts(ctx, input.orgId, input.userId);
+  return await postJournalEntry(ctx, {
+    ...input,
+    lines: input.lines.map((line) => ({ ...line, accountId: accounts[line.accountId] })),
+  });
+}
+
+/**
+ * Reverse one posted entry (swap debits/credits) and mark the original
+ */
+export async function postReversal(
+  ctx: MutationCtx,
+  entry: Doc<"finance_ledger_JournalEntries">,
+  userId: Id<"admin_users">,
+  date: number
+) {
+  if (entry.reversedAt || entry.reversesEntryId) {
+    throw new Error("Journal entry is already a reversal or has been reversed");
+  }
+
+  const reversalId = await postJournalEntry(ctx, {
+    orgId: entry.orgId,
+    userId,
+    date,
+    memo: `Reversal: ${entry.memo}`,
+    currency: entry.currency,
+    lines: reverseJournalLines(entry.lines),
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    sourceEvent: entry.sourceEvent,
+    reversesEntryId: entry._id,
+  });
+  await ctx.db.patch(entry._id, { reversedAt: Date.now(), updatedAt: Date.now() });
+  return reversalId;
+}
+
+/**
+ * Reverse every live entry posted for a source (void invoice, edited or
+ * deleted bank transaction)
+ */
+export async function reverseSourceEntries(
+  ctx: MutationCtx,
+  sourceType: SourceType,
+  sourceId: string,
+  userId: Id<"admin_users">,
+  date: number
+) {
+  const entries = await ctx.db
+    .query("finance_ledger_JournalEntries")
+    .withIndex("by_source", (q) => q.eq("sourceType", sourceType).eq("sourceId", sourceId))
+    .collect();
+
+  for (const entry of entries) {
+    if (!entry.reversedAt && !entry.reversesEntryId) {
+      await postReversal(ctx, entry, userId, date);
+    }
+  }
+}
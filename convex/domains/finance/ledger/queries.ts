@@ -0,0 +1,63 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📒 FINANCE LEDGER QUERIES - SRS Layer 4                                  │
+│  /convex/domains/finance/ledger/queries.ts                                │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  A ledger only balances within one org, so every rank is org-scoped:      │
+│  • Crew/Captain/Commodore: own organization                               │
+│  • Admiral: own organization, or any org via orgId                        │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+import { resolveOrgId } from "@/convex/domains/admin/orgs/model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List the chart of accounts (including archived accounts)
+ */
+export const listLedgerAccounts = query({
+  args: { callerUserId: v.id("admin_users"), orgId: v.optional(v.id("admin_orgs")) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const orgId = await resolveOrgId(ctx, user, args.orgId);
+    if (!orgId) return [];
+
+    return await ctx.db
+      .query("finance_ledger_Accounts")
+      .withIndex("by_org", (q) => q.eq("orgId", orgId))
+      .collect();
+  },
+});
+
+/**
+ * List journal entries (newest first)
+ */
+export const listJournalEntries = query({
+  args: { callerUserId: v.id("admin_users"), orgId: v.optional(v.id("admin_orgs")) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const orgId = await resolveOrgId(ctx, user, args.orgId);
+    if (!orgId) return [];
+
+    return await ctx.db
+      .query("finance_ledger_JournalEntries")
+      .withIndex("by_org_date", (q) => q.eq("orgId", orgId))
+      .order("desc")
+      .collect();
+  },
+});
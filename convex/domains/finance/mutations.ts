@@ -11,23 +11,27 @@
 │  • Update: Captain/Commodore/Admiral only (org-scoped)                    │
 │  • Delete: Captain/Commodore/Admiral only (org-scoped)                    │
 │  • Crew: Read-only access (cannot create/update/delete)                   │
+│  • Every write is mirrored to the general ledger (ledger/posting.ts)      │
 │                                                                           │
 │  SRS Commandment #4: Data scoping via Convex mutations                    │
 └───────────────────────────────────────────────────────────────────────────┘ */
 
 import { mutation } from "@/convex/_generated/server";
 import type { MutationCtx } from "@/convex/_generated/server";
-import type { Id } from "@/convex/_generated/dataModel";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId, resolveWriteOrgId } from "@/convex/domains/admin/orgs/model";
+import { transactionPostingLines } from "@/domains/finance";
+import { postSourceEntry, reverseSourceEntries } from "./ledger/posting";
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
  */
 async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getWritingUser(ctx, callerUserId);
 }
 
 /**
@@ -39,6 +43,27 @@ function requireCaptainOrHigher(rank: string | undefined) {
   }
 }
 
+/**
+ * 📒 Post a bank transaction to the general ledger
+ */
+async function postTransaction(
+  ctx: MutationCtx,
+  transaction: Doc<"finance_banking_Statements">,
+  userId: Id<"admin_users">
+) {
+  await postSourceEntry(ctx, {
+    orgId: transaction.orgId,
+    userId,
+    date: transaction.date,
+    memo: transaction.description,
+    currency: transaction.currency,
+    sourceType: "transaction",
+    sourceId: transaction._id,
+    sourceEvent: transaction.status,
+    lines: transactionPostingLines(transaction),
+  });
+}
+
 /**
  * Create new financial transaction
  */
@@ -53,7 +78,7 @@ export const createTransaction = mutation({
     amount: v.number(),
     currency: v.string(),
     description: v.string(),
-    orgId: v.optional(v.string()),
+    orgId: v.optional(v.id("admin_orgs")),
     status: v.optional(
       v.union(
         v.literal("pending"),
@@ -69,12 +94,7 @@ export const createTransaction = mutation({
 
     requireCaptainOrHigher(rank);
 
-    let orgId: string;
-    if (rank === "admiral" && args.orgId) {
-      orgId = args.orgId;
-    } else {
-      orgId = user.orgSlug || "";
-    }
+    const orgId = await resolveWriteOrgId(ctx, user, args.orgId);
 
     const now = Date.now();
 
@@ -91,6 +111,9 @@ export const createTransaction = mutation({
       createdBy: user._id,
     });
 
+    const transaction = await ctx.db.get(transactionId);
+    if (transaction) await postTransaction(ctx, transaction, user._id);
+
     return { success: true, transactionId };
   },
 });
@@ -126,7 +149,7 @@ export const updateTransaction = mutation({
     }
 
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (transaction.orgId !== orgId) {
         throw new Error("Unauthorized: Transaction not in your organization");
       }
@@ -144,6 +167,13 @@ export const updateTransaction = mutation({
 
     await ctx.db.patch(args.transactionId, updates);
 
+    // 📒 Ledger: reverse the old posting and re-post the edited transaction
+    const updated = await ctx.db.get(args.transactionId);
+    if (updated) {
+      await reverseSourceEntries(ctx, "transaction", updated._id, user._id, Date.now());
+      await postTransaction(ctx, updated, user._id);
+    }
+
     return { success: true };
   },
 });
@@ -168,13 +198,14 @@ export const deleteTransaction = mutation({
     }
 
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (transaction.orgId !== orgId) {
         throw new Error("Unauthorized: Transaction not in your organization");
       }
     }
 
     await ctx.db.delete(args.transactionId);
+    await reverseSourceEntries(ctx, "transaction", args.transactionId, user._id, Date.now());
 
     return { success: true };
   },
@@ -19,15 +19,15 @@ import { query } from "@/convex/_generated/server";
 import type { QueryCtx } from "@/convex/_generated/server";
 import type { Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
  */
 async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getEffectiveUser(ctx, callerUserId);
 }
 
 /**
@@ -44,11 +44,13 @@ export const listTransactions = query({
     if (rank === "admiral") {
       transactions = await ctx.db.query("finance_banking_Statements").collect();
     } else {
-      const orgId = user.orgSlug || "";
-      transactions = await ctx.db
-        .query("finance_banking_Statements")
-        .withIndex("by_org", (q) => q.eq("orgId", orgId))
-        .collect();
+      const orgId = user.orgId;
+      transactions = orgId
+        ? await ctx.db
+          .query("finance_banking_Statements")
+          .withIndex("by_org", (q) => q.eq("orgId", orgId))
+          .collect()
+        : [];
     }
 
     return transactions;
@@ -70,7 +72,7 @@ export const getTransaction = query({
     if (rank === "admiral") {
       return transaction;
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
       if (transaction.orgId !== orgId) {
         throw new Error("Unauthorized: Transaction not in your organization");
       }
@@ -0,0 +1,278 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔁 FINANCE RECURRING MUTATIONS - SRS Layer 4                             │
+│  /convex/domains/finance/recurring/mutations.ts                           │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Recurring transaction / invoice templates:                               │
+│  • Captain/Commodore/Admiral only (org-scoped)                            │
+│  • Instances are generated by the recurring queue (runner.ts)             │
+│  • Resuming skips occurrences missed while paused                         │
+│  • Deleting a template keeps the instances it already generated           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId, resolveWriteOrgId } from "@/convex/domains/admin/orgs/model";
+import { nextRecurringRun, validateLineItems, validateRecurringSchedule } from "@/domains/finance";
+import { isCurrencyCode } from "@/lib/currency";
+
+const transactionPayloadValidator = v.object({
+  type: v.union(v.literal("invoice"), v.literal("payment"), v.literal("expense")),
+  amount: v.number(),
+  currency: v.string(),
+  description: v.string(),
+  dueInDays: v.optional(v.number()),
+});
+
+const invoicePayloadValidator = v.object({
+  contactId: v.optional(v.id("clients_contacts_Users")),
+  customerName: v.string(),
+  customerEmail: v.optional(v.string()),
+  lineItems: v.array(v.object({
+    description: v.string(),
+    quantity: v.number(),
+    unitPrice: v.number(),
+    taxRate: v.number(),
+  })),
+  currency: v.string(),
+  paymentTermsDays: v.number(),
+  notes: v.optional(v.string()),
+  autoSend: v.boolean(),
+});
+
+type TemplatePayload = Pick<Doc<"finance_recurring_Templates">, "kind" | "transaction" | "invoice">;
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Load a template and enforce org ownership for non-admirals
+ */
+async function getAuthorizedTemplate(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  templateId: Id<"finance_recurring_Templates">
+) {
+  const template = await ctx.db.get(templateId);
+  if (!template) {
+    throw new Error("Recurring template not found");
+  }
+
+  if ((user.rank || "crew") !== "admiral") {
+    const orgId = requireActiveOrgId(user);
+    if (template.orgId !== orgId) {
+      throw new Error("Unauthorized: Recurring template not in your organization");
+    }
+  }
+
+  return template;
+}
+
+/**
+ * Check that the payload matches the template kind and is complete
+ */
+function validatePayload({ kind, transaction, invoice }: TemplatePayload) {
+  if (kind === "transaction") {
+    if (!transaction) throw new Error("Transaction template needs transaction details");
+    if (!transaction.description.trim()) throw new Error("Description is required");
+    if (!Number.isFinite(transaction.amount) || transaction.amount <= 0) throw new Error("Amount must be greater than zero");
+    if (!isCurrencyCode(transaction.currency)) throw new Error("Currency must be a 3-letter ISO code");
+    if (transaction.dueInDays !== undefined && transaction.dueInDays < 0) throw new Error("Due in days cannot be negative");
+  } else {
+    if (!invoice) throw new Error("Invoice template needs invoice details");
+    if (!invoice.customerName.trim()) throw new Error("Customer name is required");
+    const lineItemError = validateLineItems(invoice.lineItems);
+    if (lineItemError) throw new Error(lineItemError);
+    if (!isCurrencyCode(invoice.currency)) throw new Error("Currency must be a 3-letter ISO code");
+    if (invoice.paymentTermsDays < 0) throw new Error("Payment terms cannot be negative");
+  }
+}
+
+/**
+ * Create a recurring template. The first occurrence may lie in the past -
+ * the queue then backfills from startDate.
+ */
+export const createRecurringTemplate = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    name: v.string(),
+    kind: v.union(v.literal("transaction"), v.literal("invoice")),
+    rrule: v.string(),
+    startDate: v.number(),
+    transaction: v.optional(transactionPayloadValidator),
+    invoice: v.optional(invoicePayloadValidator),
+    orgId: v.optional(v.id("admin_orgs")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    requireCaptainOrHigher(rank);
+
+    if (!args.name.trim()) throw new Error("Name is required");
+    const scheduleError = validateRecurringSchedule(args.rrule, args.startDate);
+    if (scheduleError) throw new Error(scheduleError);
+    validatePayload(args);
+
+    const orgId = await resolveWriteOrgId(ctx, user, args.orgId);
+
+    const now = Date.now();
+
+    const templateId = await ctx.db.insert("finance_recurring_Templates", {
+      name: args.name.trim(),
+      kind: args.kind,
+      rrule: args.rrule,
+      startDate: args.startDate,
+      nextRunAt: nextRecurringRun(args.rrule, args.startDate) ?? undefined,
+      occurrenceCount: 0,
+      status: "active",
+      transaction: args.kind === "transaction" ? args.transaction : undefined,
+      invoice: args.kind === "invoice" ? args.invoice : undefined,
+      orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, templateId };
+  },
+});
+
+/**
+ * Update a template. Schedule changes apply from the next occurrence after
+ * the last one generated.
+ */
+export const updateRecurringTemplate = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    templateId: v.id("finance_recurring_Templates"),
+    name: v.optional(v.string()),
+    rrule: v.optional(v.string()),
+    startDate: v.optional(v.number()),
+    transaction: v.optional(transactionPayloadValidator),
+    invoice: v.optional(invoicePayloadValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const template = await getAuthorizedTemplate(ctx, user, args.templateId);
+
+    const updates: Record<string, unknown> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.name !== undefined) {
+      if (!args.name.trim()) throw new Error("Name is required");
+      updates.name = args.name.trim();
+    }
+
+    if (args.transaction !== undefined || args.invoice !== undefined) {
+      const payload = {
+        kind: template.kind,
+        transaction: args.transaction ?? template.transaction,
+        invoice: args.invoice ?? template.invoice,
+      };
+      validatePayload(payload);
+      if (template.kind === "transaction") updates.transaction = payload.transaction;
+      else updates.invoice = payload.invoice;
+    }
+
+    if (args.rrule !== undefined || args.startDate !== undefined) {
+      const rrule = args.rrule ?? template.rrule;
+      const startDate = args.startDate ?? template.startDate;
+      const scheduleError = validateRecurringSchedule(rrule, startDate);
+      if (scheduleError) throw new Error(scheduleError);
+
+      const nextRunAt = nextRecurringRun(rrule, startDate, template.lastOccurrenceAt) ?? undefined;
+      Object.assign(updates, { rrule, startDate, nextRunAt });
+      if (template.status !== "paused") updates.status = nextRunAt === undefined ? "completed" : "active";
+    }
+
+    await ctx.db.patch(args.templateId, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Pause or resume a template
+ */
+export const setRecurringTemplateStatus = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    templateId: v.id("finance_recurring_Templates"),
+    status: v.union(v.literal("active"), v.literal("paused")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    const template = await getAuthorizedTemplate(ctx, user, args.templateId);
+
+    if (template.status === "completed") {
+      throw new Error("Schedule has finished - edit it to extend");
+    }
+
+    const now = Date.now();
+    const updates: Record<string, unknown> = {
+      status: args.status,
+      updatedAt: now,
+    };
+
+    if (args.status === "active") {
+      // Skip whatever fell due while paused
+      const after = Math.max(template.lastOccurrenceAt ?? 0, now - 1);
+      const nextRunAt = nextRecurringRun(template.rrule, template.startDate, after) ?? undefined;
+      Object.assign(updates, {
+        nextRunAt,
+        lastError: undefined,
+        status: nextRunAt === undefined ? "completed" : "active",
+      });
+    }
+
+    await ctx.db.patch(args.templateId, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a template (generated instances are kept)
+ */
+export const deleteRecurringTemplate = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    templateId: v.id("finance_recurring_Templates"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    await getAuthorizedTemplate(ctx, user, args.templateId);
+    await ctx.db.delete(args.templateId);
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,72 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔁 FINANCE RECURRING QUERIES - SRS Layer 4                               │
+│  /convex/domains/finance/recurring/queries.ts                             │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Rank-based data scoping for recurring templates:                         │
+│  • Crew/Captain/Commodore: organization-scoped                            │
+│  • Admiral: All data (cross-org, platform-wide) + queue run log           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+
+/** Queue runs shown in the run log */
+const RECENT_RUNS_LIMIT = 24;
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List recurring templates with rank-based scoping (newest first)
+ */
+export const listRecurringTemplates = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    if (rank === "admiral") {
+      return await ctx.db.query("finance_recurring_Templates").order("desc").collect();
+    }
+
+    const orgId = user.orgId;
+    if (!orgId) return [];
+    return await ctx.db
+      .query("finance_recurring_Templates")
+      .withIndex("by_org", (q) => q.eq("orgId", orgId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Recent recurring queue runs (platform-wide, admirals only)
+ */
+export const listRecurringRuns = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    if ((user.rank || "crew") !== "admiral") {
+      throw new Error("Unauthorized: Admiral rank required");
+    }
+
+    return await ctx.db
+      .query("finance_recurring_Runs")
+      .withIndex("by_started")
+      .order("desc")
+      .take(RECENT_RUNS_LIMIT);
+  },
+});
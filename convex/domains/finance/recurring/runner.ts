@@ -0,0 +1,358 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔁 RECURRING QUEUE - Scheduled Instance Generation                       │
+│  /convex/domains/finance/recurring/runner.ts                              │
+│                                                                           │
+│  Called by the finance-recurring-queue cron (convex/crons.ts):            │
+│  - Generates due transactions/invoices from active templates              │
+│  - Flips sent invoices and pending transactions past due to OVERDUE       │
+│  - Writes one finance_recurring_Runs row per tick, after every template   │
+│    mutation has committed                                                 │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Idempotent: an instance is keyed by (template, occurrence date), so a  │
+│    retried tick never duplicates it                                       │
+│  - Instances post to the ledger as the template author                    │
+│  - Bounded work per tick; stragglers are picked up next tick              │
+│  - One mutation per template: a failing template writes nothing           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { internalAction, internalMutation, internalQuery } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import { internal } from "@/convex/_generated/api";
+import { v } from "convex/values";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import {
+  MAX_CATCH_UP_OCCURRENCES,
+  addDays,
+  calculateInvoiceTotals,
+  invoicePostingLines,
+  nextRecurringRun,
+  transactionPostingLines,
+  validateLineItems,
+} from "@/domains/finance";
+import { postSourceEntry } from "@/convex/domains/finance/ledger/posting";
+import { allocateInvoiceNumber } from "@/convex/domains/finance/invoices/numbering";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUEUE CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Templates handled per tick (each may catch up several occurrences) */
+const MAX_TEMPLATES_PER_TICK = 50;
+
+/** Invoices / transactions flipped to overdue per tick */
+const MAX_OVERDUE_PER_TICK = 200;
+
+type RecurringTemplate = Doc<"finance_recurring_Templates">;
+
+type QueueSummary = {
+  processed: number;
+  created: number;
+  invoicesOverdue: number;
+  transactionsOverdue: number;
+  errors: number;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INSTANCE GENERATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create the transaction for one occurrence (pending, posted to the ledger)
+ * @returns true when created, false when it already existed
+ */
+async function createTransactionInstance(ctx: MutationCtx, template: RecurringTemplate, occurrence: number) {
+  const payload = template.transaction;
+  if (!payload) throw new Error("Template has no transaction details");
+
+  const existing = await ctx.db
+    .query("finance_banking_Statements")
+    .withIndex("by_recurring", (q) => q.eq("recurringTemplateId", template._id).eq("recurringDate", occurrence))
+    .first();
+  if (existing) return false;
+
+  const now = Date.now();
+  const transactionId = await ctx.db.insert("finance_banking_Statements", {
+    type: payload.type,
+    amount: payload.amount,
+    currency: payload.currency,
+    description: payload.description,
+    orgId: template.orgId,
+    status: "pending",
+    date: occurrence,
+    dueDate: payload.dueInDays !== undefined ? addDays(occurrence, payload.dueInDays) : undefined,
+    source: "recurring",
+    recurringTemplateId: template._id,
+    recurringDate: occurrence,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: template.createdBy,
+  });
+
+  // 📒 Ledger: same posting as a manually entered pending transaction
+  await postSourceEntry(ctx, {
+    orgId: template.orgId,
+    userId: template.createdBy,
+    date: occurrence,
+    memo: payload.description,
+    currency: payload.currency,
+    sourceType: "transaction",
+    sourceId: transactionId,
+    sourceEvent: "pending",
+    lines: transactionPostingLines({ type: payload.type, amount: payload.amount, status: "pending" }),
+  });
+
+  return true;
+}
+
+/**
+ * Create the invoice for one occurrence (draft, or numbered and sent when autoSend)
+ * @returns true when created, false when it already existed
+ */
+async function createInvoiceInstance(ctx: MutationCtx, template: RecurringTemplate, occurrence: number) {
+  const payload = template.invoice;
+  if (!payload) throw new Error("Template has no invoice details");
+
+  const lineItemError = validateLineItems(payload.lineItems);
+  if (lineItemError) throw new Error(lineItemError);
+
+  const existing = await ctx.db
+    .query("finance_invoicing_Invoices")
+    .withIndex("by_recurring", (q) => q.eq("recurringTemplateId", template._id).eq("recurringDate", occurrence))
+    .first();
+  if (existing) return false;
+
+  const now = Date.now();
+  const totals = calculateInvoiceTotals(payload.lineItems);
+  const allocated = payload.autoSend ? await allocateInvoiceNumber(ctx, template.orgId) : null;
+
+  const invoiceId = await ctx.db.insert("finance_invoicing_Invoices", {
+    number: allocated?.number,
+    sequence: allocated?.sequence,
+    contactId: payload.contactId,
+    customerName: payload.customerName,
+    customerEmail: payload.customerEmail,
+    lineItems: payload.lineItems,
+    ...totals,
+    currency: payload.currency,
+    issueDate: occurrence,
+    dueDate: addDays(occurrence, payload.paymentTermsDays),
+    notes: payload.notes,
+    orgId: template.orgId,
+    status: allocated ? "sent" : "draft",
+    sentAt: allocated ? now : undefined,
+    recurringTemplateId: template._id,
+    recurringDate: occurrence,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: template.createdBy,
+  });
+
+  // 📒 Ledger: issued invoices recognise the receivable straight away
+  if (allocated) {
+    await postSourceEntry(ctx, {
+      orgId: template.orgId,
+      userId: template.createdBy,
+      date: occurrence,
+      memo: `Invoice ${allocated.number} - ${payload.customerName}`,
+      currency: payload.currency,
+      sourceType: "invoice",
+      sourceId: invoiceId,
+      sourceEvent: "sent",
+      lines: invoicePostingLines(totals, "sent"),
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Generate every due occurrence of a template (bounded by
+ * MAX_CATCH_UP_OCCURRENCES) and move nextRunAt forward.
+ * @returns number of instances created
+ */
+export async function runRecurringTemplate(ctx: MutationCtx, template: RecurringTemplate, now: number) {
+  let nextRunAt = template.nextRunAt;
+  let occurrenceCount = template.occurrenceCount;
+  let lastOccurrenceAt = template.lastOccurrenceAt;
+  let created = 0;
+
+  for (let i = 0; i < MAX_CATCH_UP_OCCURRENCES && nextRunAt !== undefined && nextRunAt <= now; i++) {
+    const occurrence: number = nextRunAt;
+    const isNew = template.kind === "invoice"
+      ? await createInvoiceInstance(ctx, template, occurrence)
+      : await createTransactionInstance(ctx, template, occurrence);
+    if (isNew) created++;
+
+    occurrenceCount++;
+    lastOccurrenceAt = occurrence;
+    nextRunAt = nextRecurringRun(template.rrule, template.startDate, occurrence) ?? undefined;
+  }
+
+  await ctx.db.patch(template._id, {
+    nextRunAt,
+    occurrenceCount,
+    lastOccurrenceAt,
+    lastError: undefined,
+    status: nextRunAt === undefined ? "completed" : template.status,
+    updatedAt: now,
+  });
+
+  return created;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OVERDUE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Flip sent invoices and pending transactions past their due date to overdue.
+ * Ledger postings are unchanged: overdue is still an open receivable.
+ */
+async function markOverdue(ctx: MutationCtx, now: number) {
+  const invoices = await ctx.db
+    .query("finance_invoicing_Invoices")
+    .withIndex("by_status", (q) => q.eq("status", "sent"))
+    .filter((q) => q.lt(q.field("dueDate"), now))
+    .take(MAX_OVERDUE_PER_TICK);
+
+  for (const invoice of invoices) {
+    await ctx.db.patch(invoice._id, { status: "overdue", updatedAt: now });
+  }
+
+  const transactions = await ctx.db
+    .query("finance_banking_Statements")
+    .withIndex("by_status", (q) => q.eq("status", "pending"))
+    .filter((q) => q.and(q.neq(q.field("dueDate"), undefined), q.lt(q.field("dueDate"), now)))
+    .take(MAX_OVERDUE_PER_TICK);
+
+  for (const transaction of transactions) {
+    await ctx.db.patch(transaction._id, { status: "overdue", updatedAt: now });
+  }
+
+  return { invoicesOverdue: invoices.length, transactionsOverdue: transactions.length };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUEUE STEPS (each its own transaction)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Active templates due by `now`
+ */
+export const listDueTemplates = internalQuery({
+  args: { now: v.number() },
+  handler: async (ctx, args): Promise<Id<"finance_recurring_Templates">[]> => {
+    const templates = await ctx.db
+      .query("finance_recurring_Templates")
+      // Unscheduled templates (no nextRunAt) sort first - keep them out of the batch
+      .withIndex("by_status_next", (q) => q.eq("status", "active").gt("nextRunAt", 0).lte("nextRunAt", args.now))
+      .take(MAX_TEMPLATES_PER_TICK);
+    return templates.map((template) => template._id);
+  },
+});
+
+/**
+ * Generate one template's due instances - all of them or, on error, none
+ */
+export const runTemplate = internalMutation({
+  args: { templateId: v.id("finance_recurring_Templates"), now: v.number() },
+  handler: async (ctx, args): Promise<number> => {
+    const template = await ctx.db.get(args.templateId);
+    // Paused, edited or deleted since it was listed
+    if (!template || template.status !== "active" || template.nextRunAt === undefined || template.nextRunAt > args.now) {
+      return 0;
+    }
+    return await runRecurringTemplate(ctx, template, args.now);
+  },
+});
+
+/**
+ * Pause a template whose run failed, so it stops retrying until someone
+ * fixes and resumes it
+ */
+export const pauseFailedTemplate = internalMutation({
+  args: { templateId: v.id("finance_recurring_Templates"), message: v.string(), now: v.number() },
+  handler: async (ctx, args) => {
+    if (!(await ctx.db.get(args.templateId))) return;
+    await ctx.db.patch(args.templateId, { status: "paused", lastError: args.message, updatedAt: args.now });
+  },
+});
+
+/**
+ * Overdue sweep for one tick
+ */
+export const markOverdueItems = internalMutation({
+  args: { now: v.number() },
+  handler: async (ctx, args) => await markOverdue(ctx, args.now),
+});
+
+/**
+ * Log a finished tick to finance_recurring_Runs
+ */
+export const recordRun = internalMutation({
+  args: {
+    startedAt: v.number(),
+    templatesProcessed: v.number(),
+    instancesCreated: v.number(),
+    invoicesOverdue: v.number(),
+    transactionsOverdue: v.number(),
+    errors: v.array(v.object({ templateId: v.optional(v.id("finance_recurring_Templates")), message: v.string() })),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("finance_recurring_Runs", { ...args, finishedAt: Date.now() });
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CRON HANDLER (Called by Convex cron scheduler)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process the recurring queue
+ *
+ * Called by cron every hour. Each template runs in its own mutation, so a
+ * failure rolls back everything that template wrote; the template is then
+ * paused with lastError. The run row is written last, once every template
+ * mutation has committed.
+ */
+export const processRecurringQueue = internalAction({
+  args: {},
+  handler: async (ctx): Promise<QueueSummary> => {
+    const startedAt = Date.now();
+    const runner = internal.domains.finance.recurring.runner;
+
+    const templateIds = await ctx.runQuery(runner.listDueTemplates, { now: startedAt });
+
+    let instancesCreated = 0;
+    const errors: { templateId?: Id<"finance_recurring_Templates">; message: string }[] = [];
+
+    for (const templateId of templateIds) {
+      try {
+        instancesCreated += await ctx.runMutation(runner.runTemplate, { templateId, now: startedAt });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push({ templateId, message });
+        await ctx.runMutation(runner.pauseFailedTemplate, { templateId, message, now: startedAt });
+        console.error(`❌ Recurring queue: template ${templateId} failed: ${message}`);
+      }
+    }
+
+    const overdue = await ctx.runMutation(runner.markOverdueItems, { now: startedAt });
+
+    await ctx.runMutation(runner.recordRun, {
+      startedAt,
+      templatesProcessed: templateIds.length,
+      instancesCreated,
+      ...overdue,
+      errors,
+    });
+
+    console.log(
+      `🔁 Recurring queue: ${templateIds.length} templates, ${instancesCreated} created, ` +
+      `${overdue.invoicesOverdue} invoices + ${overdue.transactionsOverdue} transactions overdue, ${errors.length} errors`
+    );
+
+    return { processed: templateIds.length, created: instancesCreated, ...overdue, errors: errors.length };
+  },
+});
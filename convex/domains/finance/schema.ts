@@ -0,0 +1,330 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  FINANCE SCHEMA - Domain Tables                                           │
+│  /convex/domains/finance/schema.ts                                        │
+│                                                                           │
+│  Banking, invoicing, ledger, currency and recurring templates.            │
+│  Spread into defineSchema by /convex/schema.ts.                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const financeTables = {
+  finance_banking_Statements: defineTable({
+    // Transaction identity (required)
+    type: v.union(
+      v.literal("invoice"),
+      v.literal("payment"),
+      v.literal("expense")
+    ),
+    amount: v.number(),
+    currency: v.string(),
+    description: v.string(),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Status (required with default)
+    status: v.union(
+      v.literal("pending"),
+      v.literal("paid"),
+      v.literal("overdue")
+    ),
+    date: v.number(),
+
+    // Import provenance (optional - set by the statement importer)
+    source: v.optional(v.union(
+      v.literal("manual"),
+      v.literal("csv"),
+      v.literal("ofx"),
+      v.literal("camt053"),
+      v.literal("recurring")
+    )),
+    externalId: v.optional(v.string()), // OFX FITID / CAMT AcctSvcrRef
+    matchedInvoiceId: v.optional(v.id("finance_invoicing_Invoices")), // Imported payment settled against
+    dueDate: v.optional(v.number()), // pending past this → overdue (recurring queue)
+
+    // Recurring provenance (one instance per template occurrence)
+    recurringTemplateId: v.optional(v.id("finance_recurring_Templates")),
+    recurringDate: v.optional(v.number()),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_org_date", ["orgId", "date"])
+    .index("by_type", ["type"])
+    .index("by_status", ["status"])
+    .index("by_date", ["date"])
+    .index("by_recurring", ["recurringTemplateId", "recurringDate"])
+    .index("by_matched_invoice", ["matchedInvoiceId"]),
+
+  /**
+   * 🧾 INVOICES - Customer invoices with line items
+   *
+   * DOCTRINE:
+   * - Totals (subtotal/taxTotal/total) are DERIVED from lineItems on every write
+   * - Numbers are allocated from finance_invoicing_Sequences when a draft is SENT
+   * - Drafts are unnumbered and deletable; issued invoices can only be voided
+   * - Sent invoices past their due date are flipped to OVERDUE by the recurring queue
+   */
+  finance_invoicing_Invoices: defineTable({
+    // Numbering (allocated on send, per org)
+    number: v.optional(v.string()), // e.g. "INV-0042"
+    sequence: v.optional(v.number()),
+
+    // Customer (required)
+    contactId: v.optional(v.id("clients_contacts_Users")),
+    customerName: v.string(),
+    customerEmail: v.optional(v.string()),
+
+    // Line items (required)
+    lineItems: v.array(v.object({
+      description: v.string(),
+      quantity: v.number(),
+      unitPrice: v.number(),
+      taxRate: v.number(), // Percentage, e.g. 20 for 20%
+    })),
+
+    // Derived totals (required)
+    subtotal: v.number(),
+    taxTotal: v.number(),
+    total: v.number(),
+    currency: v.string(),
+
+    // Dates (required)
+    issueDate: v.number(),
+    dueDate: v.number(),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Lifecycle (required with default)
+    status: v.union(
+      v.literal("draft"),
+      v.literal("sent"),
+      v.literal("overdue"),
+      v.literal("paid"),
+      v.literal("void")
+    ),
+    notes: v.optional(v.string()),
+    sentAt: v.optional(v.number()),
+    paidAt: v.optional(v.number()),
+    voidedAt: v.optional(v.number()),
+
+    // Recurring provenance (one instance per template occurrence)
+    recurringTemplateId: v.optional(v.id("finance_recurring_Templates")),
+    recurringDate: v.optional(v.number()),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_org_sequence", ["orgId", "sequence"])
+    .index("by_status", ["status"])
+    .index("by_due_date", ["dueDate"])
+    .index("by_contact", ["contactId"])
+    .index("by_recurring", ["recurringTemplateId", "recurringDate"]),
+
+  /**
+   * 🔢 INVOICE SEQUENCES - One numbering counter per organization
+   */
+  finance_invoicing_Sequences: defineTable({
+    orgId: v.id("admin_orgs"),
+    prefix: v.string(), // e.g. "INV-"
+    nextNumber: v.number(),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_org", ["orgId"]),
+
+  /**
+   * 📒 LEDGER ACCOUNTS - Chart of accounts (per org)
+   *
+   * DOCTRINE:
+   * - systemKey marks the seeded accounts that posting rules write to
+   * - Accounts with postings are archived, never deleted
+   */
+  finance_ledger_Accounts: defineTable({
+    code: v.string(), // e.g. "1100"
+    name: v.string(),
+    type: v.union(
+      v.literal("asset"),
+      v.literal("liability"),
+      v.literal("equity"),
+      v.literal("income"),
+      v.literal("expense")
+    ),
+    systemKey: v.optional(v.string()), // SystemAccountKey from @/domains/finance
+    isArchived: v.boolean(),
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_org_code", ["orgId", "code"])
+    .index("by_org_system", ["orgId", "systemKey"]),
+
+  /**
+   * 📒 JOURNAL ENTRIES - Double-entry general ledger
+   *
+   * DOCTRINE:
+   * - Debits MUST equal credits (validateJournalLines on every insert)
+   * - Entries are immutable: corrections are posted as reversals
+   * - sourceType/sourceId link automatic postings to the invoice or
+   *   bank transaction that produced them
+   */
+  finance_ledger_JournalEntries: defineTable({
+    date: v.number(),
+    memo: v.string(),
+    currency: v.string(),
+    lines: v.array(v.object({
+      accountId: v.id("finance_ledger_Accounts"),
+      debit: v.number(),
+      credit: v.number(),
+      memo: v.optional(v.string()),
+    })),
+
+    // Provenance (manual entries have no sourceId)
+    sourceType: v.union(
+      v.literal("manual"),
+      v.literal("invoice"),
+      v.literal("transaction")
+    ),
+    sourceId: v.optional(v.string()),
+    sourceEvent: v.optional(v.string()), // e.g. "sent", "paid"
+    reversesEntryId: v.optional(v.id("finance_ledger_JournalEntries")),
+    reversedAt: v.optional(v.number()),
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_org_date", ["orgId", "date"])
+    .index("by_source", ["sourceType", "sourceId"]),
+
+  /**
+   * 💱 CURRENCY SETTINGS - One row per org
+   *
+   * DOCTRINE:
+   * - Absent row = base currency derived from the org's settings.country (@/lib/currency)
+   * - Totals, rollups and reports convert INTO the base currency
+   */
+  finance_currency_Settings: defineTable({
+    baseCurrency: v.string(), // ISO 4217
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"]),
+
+  /**
+   * 💱 FX RATES - Dated exchange rates
+   *
+   * DOCTRINE:
+   * - 1 base = rate × quote, effective from date until a newer rate
+   * - One rate per org/pair/day: re-entering or re-importing overwrites it
+   */
+  finance_currency_Rates: defineTable({
+    base: v.string(),
+    quote: v.string(),
+    rate: v.number(),
+    date: v.number(), // UTC midnight
+    source: v.union(v.literal("manual"), v.literal("import")),
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_org_pair_date", ["orgId", "base", "quote", "date"]),
+
+  /**
+   * 🔁 RECURRING TEMPLATES - Transactions and invoices generated on a schedule
+   *
+   * DOCTRINE:
+   * - Schedule is an RRULE (@/lib/rrule) anchored at startDate
+   * - nextRunAt is the next occurrence still to generate; unset once completed
+   * - Instances carry recurringTemplateId + recurringDate, so a retried run
+   *   never creates the same occurrence twice
+   */
+  finance_recurring_Templates: defineTable({
+    name: v.string(),
+    kind: v.union(v.literal("transaction"), v.literal("invoice")),
+
+    // Schedule (required)
+    rrule: v.string(), // e.g. "FREQ=MONTHLY;BYMONTHDAY=1"
+    startDate: v.number(),
+    nextRunAt: v.optional(v.number()),
+    occurrenceCount: v.number(),
+    lastOccurrenceAt: v.optional(v.number()), // occurrence date of the last instance
+    lastError: v.optional(v.string()), // set when generation failed and the template was paused
+    status: v.union(
+      v.literal("active"),
+      v.literal("paused"),
+      v.literal("completed")
+    ),
+
+    // Payload (exactly one, matching kind)
+    transaction: v.optional(v.object({
+      type: v.union(v.literal("invoice"), v.literal("payment"), v.literal("expense")),
+      amount: v.number(),
+      currency: v.string(),
+      description: v.string(),
+      dueInDays: v.optional(v.number()), // pending instances go overdue after this
+    })),
+    invoice: v.optional(v.object({
+      contactId: v.optional(v.id("clients_contacts_Users")),
+      customerName: v.string(),
+      customerEmail: v.optional(v.string()),
+      lineItems: v.array(v.object({
+        description: v.string(),
+        quantity: v.number(),
+        unitPrice: v.number(),
+        taxRate: v.number(),
+      })),
+      currency: v.string(),
+      paymentTermsDays: v.number(),
+      notes: v.optional(v.string()),
+      autoSend: v.boolean(), // number + post as sent instead of leaving a draft
+    })),
+
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_status_next", ["status", "nextRunAt"]),
+
+  /**
+   * 🔁 RECURRING RUNS - One log row per recurring queue tick (system-wide)
+   */
+  finance_recurring_Runs: defineTable({
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    templatesProcessed: v.number(),
+    instancesCreated: v.number(),
+    invoicesOverdue: v.number(),
+    transactionsOverdue: v.number(),
+    errors: v.array(v.object({
+      templateId: v.optional(v.id("finance_recurring_Templates")),
+      message: v.string(),
+    })),
+  }).index("by_started", ["startedAt"]),
+};
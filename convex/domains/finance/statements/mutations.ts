@@ -0,0 +1,210 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🏦 FINANCE STATEMENT IMPORT MUTATIONS - SRS Layer 4                      │
+│  /convex/domains/finance/statements/mutations.ts                          │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Bank statement import (rows parsed + previewed client-side):            │
+│  • Captain/Commodore/Admiral only, always into the caller's org           │
+│  • One batch per call (≤ STATEMENT_IMPORT_BATCH_SIZE rows)                │
+│  • Dedupe by bank reference when the file has one, else by hash with     │
+│    per-file occurrence counts - re-running an import is a no-op           │
+│  • Imported payments sit in Unmatched Receipts until matched to the       │
+│    invoice they settle, so the cash is never booked twice                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import {
+  STATEMENT_IMPORT_BATCH_SIZE,
+  buildStatementDedupeIndex,
+  isStatementDuplicate,
+  invoicePostingLines,
+  signedStatementAmount,
+  statementMatchError,
+  transactionPostingLines,
+} from "@/domains/finance";
+import { postSourceEntry, reverseSourceEntries } from "@/convex/domains/finance/ledger/posting";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Require minimum rank for mutations (Captain or higher)
+ */
+function requireCaptainOrHigher(rank: string | undefined) {
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+}
+
+/**
+ * Import one batch of parsed statement rows.
+ * Signed amounts map to statement types: money in → payment, money out → expense.
+ */
+export const importStatementRows = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    source: v.union(
+      v.literal("csv"),
+      v.literal("ofx"),
+      v.literal("camt053")
+    ),
+    rows: v.array(v.object({
+      date: v.number(),
+      amount: v.number(),
+      currency: v.string(),
+      description: v.string(),
+      externalId: v.optional(v.string()),
+      /** Position among the file's identical lines (statementOccurrences) */
+      occurrence: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    requireCaptainOrHigher(user.rank || "crew");
+
+    if (args.rows.length === 0) {
+      return { success: true, inserted: 0, skipped: 0 };
+    }
+    if (args.rows.length > STATEMENT_IMPORT_BATCH_SIZE) {
+      throw new Error(`Import batches are limited to ${STATEMENT_IMPORT_BATCH_SIZE} rows`);
+    }
+
+    // Statements always land in the caller's own org
+    const orgId = requireActiveOrgId(user);
+
+    // Existing org rows in the batch's date window (hash and references are day-bound)
+    const dates = args.rows.map((row) => row.date);
+    const existing = await ctx.db
+      .query("finance_banking_Statements")
+      .withIndex("by_org_date", (q) =>
+        q.eq("orgId", orgId).gte("date", Math.min(...dates)).lte("date", Math.max(...dates))
+      )
+      .collect();
+
+    const booked = buildStatementDedupeIndex(existing.map((row) => ({
+      date: row.date,
+      amount: signedStatementAmount(row),
+      description: row.description,
+      externalId: row.externalId,
+    })));
+
+    const now = Date.now();
+    let inserted = 0;
+
+    for (const row of args.rows) {
+      if (isStatementDuplicate(booked, row, row.occurrence)) continue;
+      // A reference repeated later in the same batch is the same line
+      if (row.externalId) booked.externalIds.add(row.externalId);
+
+      const type = row.amount < 0 ? "expense" : "payment";
+      const transactionId = await ctx.db.insert("finance_banking_Statements", {
+        type,
+        amount: Math.abs(row.amount),
+        currency: row.currency,
+        description: row.description,
+        orgId,
+        status: "paid", // Booked on the bank statement
+        date: row.date,
+        source: args.source,
+        externalId: row.externalId,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: user._id,
+      });
+      inserted++;
+
+      // 📒 Ledger: bank lines are settled, so they post straight to Bank
+      // (money in waits in Unmatched Receipts until matched to an invoice)
+      await postSourceEntry(ctx, {
+        orgId,
+        userId: user._id,
+        date: row.date,
+        memo: row.description,
+        currency: row.currency,
+        sourceType: "transaction",
+        sourceId: transactionId,
+        sourceEvent: "paid",
+        lines: transactionPostingLines({ type, amount: Math.abs(row.amount), status: "paid", source: args.source }),
+      });
+    }
+
+    return { success: true, inserted, skipped: args.rows.length - inserted };
+  },
+});
+
+/**
+ * Match an imported payment to the invoice it settles.
+ * An outstanding invoice is marked paid (dated to the bank line); either way
+ * the line's Unmatched Receipts entry is reversed, leaving the invoice's own
+ * payment entry as the only one that books the cash.
+ */
+export const matchStatementPayment = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    transactionId: v.id("finance_banking_Statements"),
+    invoiceId: v.id("finance_invoicing_Invoices"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+    requireCaptainOrHigher(rank);
+
+    const line = await ctx.db.get(args.transactionId);
+    const invoice = await ctx.db.get(args.invoiceId);
+    if (!line) throw new Error("Transaction not found");
+    if (!invoice) throw new Error("Invoice not found");
+
+    if (rank !== "admiral" && line.orgId !== requireActiveOrgId(user)) {
+      throw new Error("Unauthorized: Transaction not in your organization");
+    }
+    if (invoice.orgId !== line.orgId) {
+      throw new Error("Unauthorized: Invoice not in this organization");
+    }
+
+    const matchError = statementMatchError(line, invoice);
+    if (matchError) throw new Error(matchError);
+
+    const settledBy = await ctx.db
+      .query("finance_banking_Statements")
+      .withIndex("by_matched_invoice", (q) => q.eq("matchedInvoiceId", invoice._id))
+      .first();
+    if (settledBy) throw new Error("Invoice is already matched to another payment");
+
+    const now = Date.now();
+    await ctx.db.patch(line._id, { matchedInvoiceId: invoice._id, updatedAt: now });
+
+    if (invoice.status !== "paid") {
+      await ctx.db.patch(invoice._id, { status: "paid", paidAt: line.date, updatedAt: now });
+      await postSourceEntry(ctx, {
+        orgId: invoice.orgId,
+        userId: user._id,
+        date: line.date,
+        memo: `Payment for invoice ${invoice.number}`,
+        currency: invoice.currency,
+        sourceType: "invoice",
+        sourceId: invoice._id,
+        sourceEvent: "paid",
+        lines: invoicePostingLines(invoice, "paid"),
+      });
+    }
+
+    // 📒 Ledger: a matched line posts nothing, so clearing its entry is enough
+    await reverseSourceEntries(ctx, "transaction", line._id, user._id, line.date);
+
+    return { success: true };
+  },
+});
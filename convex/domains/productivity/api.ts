@@ -15,19 +15,38 @@ export {
   listBookings,
   listMeetings,
 } from "./queries";
+export { listTasks } from "./tasks/queries";
+export { listEmailLinks } from "./links/queries";
+export { listEmailDrafts } from "./drafts/queries";
+export { searchEmails } from "./search/queries";
 
 // Export mutations
 export {
   createEmail,
   updateEmail,
   deleteEmail,
-  createCalendarEvent,
-  updateCalendarEvent,
-  deleteCalendarEvent,
   createBooking,
   updateBooking,
   deleteBooking,
+  promoteThread,
+  undoPromotion,
   createMeeting,
   updateMeeting,
   deleteMeeting,
 } from "./mutations";
+export {
+  createTask,
+  updateTask,
+  moveTask,
+  deleteTask,
+} from "./tasks/mutations";
+export {
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent,
+  importCalendarEvents,
+} from "./calendar/mutations";
+export {
+  linkThread,
+  unlinkThread,
+} from "./links/mutations";
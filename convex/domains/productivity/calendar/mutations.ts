@@ -0,0 +1,241 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR MUTATIONS - SRS Layer 4                                      │
+│  /convex/domains/productivity/calendar/mutations.ts                       │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Calendar events with org-scoped authorization:                           │
+│  • All ranks: create, edit, move and import events in their org           │
+│  • Admiral: any org                                                       │
+│  • Recurring events store an RRULE; skipped dates go in exdates           │
+│  • .ics re-imports update events with the same UID instead of copying     │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import { CALENDAR_IMPORT_BATCH_SIZE, exportedEventId, validateCalendarEvent } from "@/domains/calendar";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Load an event in the user's org (admirals: any org)
+ */
+async function getOrgEvent(ctx: MutationCtx, user: Doc<"admin_users">, eventId: Id<"productivity_calendar_Events">) {
+  const event = await ctx.db.get(eventId);
+  if (!event) throw new Error("Event not found");
+  if ((user.rank || "crew") !== "admiral" && event.orgId !== user.orgId) {
+    throw new Error("Unauthorized: Event not in your organization");
+  }
+  return event;
+}
+
+/**
+ * Event an imported UID refers to: one imported before, or one FUSE exported
+ */
+async function findByUid(ctx: MutationCtx, orgId: Id<"admin_orgs">, uid: string) {
+  const imported = await ctx.db
+    .query("productivity_calendar_Events")
+    .withIndex("by_org_uid", (q) => q.eq("orgId", orgId).eq("uid", uid))
+    .first();
+  if (imported) return imported;
+
+  const exportedId = exportedEventId(uid);
+  const eventId = exportedId ? ctx.db.normalizeId("productivity_calendar_Events", exportedId) : null;
+  const exported = eventId ? await ctx.db.get(eventId) : null;
+  return exported?.orgId === orgId ? exported : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// CALENDAR MUTATIONS
+// ═══════════════════════════════════════════════════════════════════════
+
+export const createCalendarEvent = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    location: v.optional(v.string()),
+    startTime: v.number(),
+    endTime: v.number(),
+    allDay: v.optional(v.boolean()),
+    rrule: v.optional(v.string()),
+    attendees: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const problem = validateCalendarEvent(args);
+    if (problem) throw new Error(problem);
+
+    const orgId = requireActiveOrgId(user);
+    const now = Date.now();
+
+    const eventId = await ctx.db.insert("productivity_calendar_Events", {
+      title: args.title.trim(),
+      description: args.description || undefined,
+      location: args.location || undefined,
+      startTime: args.startTime,
+      endTime: args.endTime,
+      allDay: args.allDay || undefined,
+      rrule: args.rrule || undefined,
+      attendees: args.attendees,
+      orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, eventId };
+  },
+});
+
+/**
+ * Edit or move an event. Pass null to clear description, location or the
+ * repeat rule (clearing the rule also clears skipped dates).
+ */
+export const updateCalendarEvent = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    eventId: v.id("productivity_calendar_Events"),
+    title: v.optional(v.string()),
+    description: v.optional(v.union(v.string(), v.null())),
+    location: v.optional(v.union(v.string(), v.null())),
+    startTime: v.optional(v.number()),
+    endTime: v.optional(v.number()),
+    allDay: v.optional(v.boolean()),
+    rrule: v.optional(v.union(v.string(), v.null())),
+    exdates: v.optional(v.array(v.number())),
+    attendees: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const event = await getOrgEvent(ctx, user, args.eventId);
+
+    const rrule = args.rrule === null ? undefined : args.rrule ?? event.rrule;
+    const problem = validateCalendarEvent({
+      title: args.title ?? event.title,
+      startTime: args.startTime ?? event.startTime,
+      endTime: args.endTime ?? event.endTime,
+      allDay: args.allDay ?? event.allDay,
+      rrule,
+    });
+    if (problem) throw new Error(problem);
+
+    const updates: Record<string, unknown> = { updatedAt: Date.now() };
+    if (args.title !== undefined) updates.title = args.title.trim();
+    if (args.description !== undefined) updates.description = args.description || undefined;
+    if (args.location !== undefined) updates.location = args.location || undefined;
+    if (args.startTime !== undefined) updates.startTime = args.startTime;
+    if (args.endTime !== undefined) updates.endTime = args.endTime;
+    if (args.allDay !== undefined) updates.allDay = args.allDay || undefined;
+    if (args.rrule !== undefined) updates.rrule = rrule || undefined;
+    if (args.exdates !== undefined) updates.exdates = args.exdates.length > 0 ? args.exdates : undefined;
+    if (!rrule) updates.exdates = undefined;
+    if (args.attendees !== undefined) updates.attendees = args.attendees;
+
+    await ctx.db.patch(args.eventId, updates);
+    return { success: true };
+  },
+});
+
+export const deleteCalendarEvent = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    eventId: v.id("productivity_calendar_Events")
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    await getOrgEvent(ctx, user, args.eventId);
+
+    await ctx.db.delete(args.eventId);
+    return { success: true };
+  },
+});
+
+/**
+ * 📥 IMPORT CALENDAR EVENTS
+ *
+ * One batch of events read from an .ics file (parseIcs). Events land in the
+ * caller's own org. An event whose UID was imported (or exported) before is
+ * updated in place, so importing the same file twice changes nothing.
+ *
+ * @returns counts of inserted, updated and skipped (invalid) events
+ */
+export const importCalendarEvents = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    events: v.array(v.object({
+      uid: v.string(),
+      title: v.string(),
+      description: v.optional(v.string()),
+      location: v.optional(v.string()),
+      startTime: v.number(),
+      endTime: v.number(),
+      allDay: v.boolean(),
+      rrule: v.optional(v.string()),
+      exdates: v.optional(v.array(v.number())),
+      attendees: v.array(v.string()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    if (args.events.length > CALENDAR_IMPORT_BATCH_SIZE) {
+      throw new Error(`Import batches are limited to ${CALENDAR_IMPORT_BATCH_SIZE} events`);
+    }
+
+    const orgId = requireActiveOrgId(user);
+    const now = Date.now();
+    let inserted = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    for (const draft of args.events) {
+      if (validateCalendarEvent(draft)) {
+        skipped++;
+        continue;
+      }
+
+      const fields = {
+        title: draft.title.trim(),
+        description: draft.description,
+        location: draft.location,
+        startTime: draft.startTime,
+        endTime: draft.endTime,
+        allDay: draft.allDay || undefined,
+        rrule: draft.rrule,
+        exdates: draft.rrule ? draft.exdates : undefined,
+        attendees: draft.attendees,
+        updatedAt: now,
+      };
+
+      const existing = await findByUid(ctx, orgId, draft.uid);
+      if (existing) {
+        await ctx.db.patch(existing._id, fields);
+        updated++;
+      } else {
+        await ctx.db.insert("productivity_calendar_Events", {
+          ...fields,
+          uid: draft.uid,
+          orgId,
+          createdAt: now,
+          createdBy: user._id,
+        });
+        inserted++;
+      }
+    }
+
+    return { success: true, inserted, updated, skipped };
+  },
+});
@@ -0,0 +1,31 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📝 EMAIL DRAFT QUERIES - SRS Layer 4                                     │
+│  /convex/domains/productivity/drafts/queries.ts                           │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Drafts are personal at every rank - scoped to the effective user         │
+│  (the impersonated user while an admiral is viewing as them)              │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+
+/**
+ * List the user's drafts and scheduled sends, newest first
+ */
+export const listEmailDrafts = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    // 🛡️ SID-5.3: Direct lookup by sovereign _id
+    const user = await getEffectiveUser(ctx, args.callerUserId);
+    const drafts = await ctx.db
+      .query("productivity_email_Drafts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
@@ -40,7 +40,7 @@ export const getEmailMessageWithAsset = internalQuery({
 
     // Check authorization (org-scoping)
     if (rank !== "admiral") {
-      const orgId = user._id as string;
+      const orgId = user.orgId;
       if (message.orgId !== orgId) {
         return null;
       }
@@ -0,0 +1,39 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔗 EMAIL LINKS MODEL - Shared Helpers                                    │
+│  /convex/domains/productivity/links/model.ts                              │
+│                                                                           │
+│  Resolves link targets for linkThread and drops the links of a contact,   │
+│  project or invoice when it is deleted in its own domain.                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc } from "@/convex/_generated/dataModel";
+
+type LinkTargetType = Doc<"productivity_email_Links">["targetType"];
+
+const LINK_TABLES = {
+  contact: "clients_contacts_Users",
+  project: "projects_tracking_Schedule",
+  invoice: "finance_invoicing_Invoices",
+} as const;
+
+/**
+ * The document a link points at, or null if it does not exist
+ */
+export async function getLinkTarget(ctx: MutationCtx, targetType: LinkTargetType, targetId: string) {
+  const id = ctx.db.normalizeId(LINK_TABLES[targetType], targetId);
+  return id ? await ctx.db.get(id) : null;
+}
+
+/**
+ * Drop every thread link to a deleted contact/project/invoice
+ */
+export async function deleteEmailLinksTo(ctx: MutationCtx, targetType: LinkTargetType, targetId: string) {
+  const links = await ctx.db
+    .query("productivity_email_Links")
+    .withIndex("by_target", (q) => q.eq("targetType", targetType).eq("targetId", targetId))
+    .collect();
+  for (const link of links) {
+    await ctx.db.delete(link._id);
+  }
+}
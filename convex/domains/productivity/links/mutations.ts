@@ -0,0 +1,105 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔗 EMAIL LINK MUTATIONS - SRS Layer 4                                    │
+│  /convex/domains/productivity/links/mutations.ts                          │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Thread links with org-scoped authorization:                              │
+│  • All ranks: link/unlink threads they can see to their org's records     │
+│  • Admiral: any org                                                       │
+│  • Target must exist and share the thread's org                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { getThreadMessages } from "@/convex/domains/productivity/promotion/model";
+import { getLinkTarget } from "@/convex/domains/productivity/links/model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * 🔗 LINK THREAD
+ *
+ * Attaches an email thread to a contact, project or invoice. Linking the
+ * same pair twice is a no-op.
+ *
+ * DOCTRINE:
+ * - Humans commit links (sender matches are only suggested)
+ *
+ * @param threadId - External thread ID (Gmail/Outlook)
+ * @param targetId - _id of the contact/project/invoice
+ */
+export const linkThread = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    threadId: v.string(), // externalThreadId
+    targetType: v.union(v.literal("contact"), v.literal("project"), v.literal("invoice")),
+    targetId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const messages = await getThreadMessages(ctx, user, args.threadId);
+    if (messages.length === 0) throw new Error("Thread not found");
+    const orgId = messages[0].orgId;
+
+    const target = await getLinkTarget(ctx, args.targetType, args.targetId);
+    if (!target) throw new Error(`${args.targetType[0].toUpperCase()}${args.targetType.slice(1)} not found`);
+    if (target.orgId !== orgId) {
+      throw new Error(`Unauthorized: ${args.targetType} not in this thread's organization`);
+    }
+
+    const existing = await ctx.db
+      .query("productivity_email_Links")
+      .withIndex("by_thread", (q) => q.eq("externalThreadId", args.threadId))
+      .filter((q) => q.and(q.eq(q.field("targetType"), args.targetType), q.eq(q.field("targetId"), args.targetId)))
+      .first();
+    if (existing) return { success: true, linkId: existing._id };
+
+    const linkId = await ctx.db.insert("productivity_email_Links", {
+      externalThreadId: args.threadId,
+      targetType: args.targetType,
+      targetId: args.targetId,
+      orgId,
+      createdAt: Date.now(),
+      createdBy: user._id,
+    });
+
+    return { success: true, linkId };
+  },
+});
+
+/**
+ * Remove a thread link (the thread and the record are untouched)
+ */
+export const unlinkThread = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    linkId: v.id("productivity_email_Links"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const link = await ctx.db.get(args.linkId);
+    if (!link) throw new Error("Link not found");
+    if ((user.rank || "crew") !== "admiral" && link.orgId !== user.orgId) {
+      throw new Error("Unauthorized: Link not in your organization");
+    }
+
+    await ctx.db.delete(link._id);
+
+    return { success: true };
+  },
+});
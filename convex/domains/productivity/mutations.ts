@@ -11,6 +11,8 @@
 │  • Update: Captain/Commodore/Admiral only (org-scoped)                    │
 │  • Delete: Captain/Commodore/Admiral only (org-scoped)                    │
 │  • Crew: Organization-scoped access (can create/update their org)         │
+│  • Promote: email thread → task/project/booking, undoable for a window    │
+│  • Calendar events: calendar/mutations.ts                                 │
 │                                                                           │
 │  SRS Commandment #4: Data scoping via Convex mutations                    │
 └───────────────────────────────────────────────────────────────────────────┘ */
@@ -19,15 +21,24 @@ import { mutation } from "@/convex/_generated/server";
 import type { MutationCtx } from "@/convex/_generated/server";
 import type { Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import {
+  clearPromotion,
+  createPromotionTarget,
+  deletePromotionTarget,
+  getLivePromotion,
+  getThreadMessages,
+} from "@/convex/domains/productivity/promotion/model";
+import { PROMOTION_UNDO_WINDOW_MS, canUndoPromotion } from "@/domains/email";
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
  */
 async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getWritingUser(ctx, callerUserId);
 }
 
 // ═══════════════════════════════════════════════════════════════════════
@@ -45,7 +56,7 @@ export const createEmail = mutation({
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUserWithRank(ctx, args.callerUserId);
-    const orgId = user.orgSlug || "";
+    const orgId = requireActiveOrgId(user);
     const now = Date.now();
 
     const emailId = await ctx.db.insert("productivity_email_Messages", {
@@ -79,7 +90,7 @@ export const updateEmail = mutation({
 
     const rank = user.rank || "crew";
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (email.orgId !== orgId) {
         throw new Error("Unauthorized: Email not in your organization");
       }
@@ -107,7 +118,7 @@ export const deleteEmail = mutation({
 
     const rank = user.rank || "crew";
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (email.orgId !== orgId) {
         throw new Error("Unauthorized: Email not in your organization");
       }
@@ -118,98 +129,6 @@ export const deleteEmail = mutation({
   },
 });
 
-// ═══════════════════════════════════════════════════════════════════════
-// CALENDAR MUTATIONS
-// ═══════════════════════════════════════════════════════════════════════
-
-export const createCalendarEvent = mutation({
-  args: {
-    callerUserId: v.id("admin_users"),
-    title: v.string(),
-    description: v.optional(v.string()),
-    startTime: v.number(),
-    endTime: v.number(),
-    attendees: v.array(v.string()),
-  },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
-    const orgId = user.orgSlug || "";
-    const now = Date.now();
-
-    const eventId = await ctx.db.insert("productivity_calendar_Events", {
-      title: args.title,
-      description: args.description,
-      startTime: args.startTime,
-      endTime: args.endTime,
-      attendees: args.attendees,
-      orgId,
-      createdAt: now,
-      updatedAt: now,
-      createdBy: user._id,
-    });
-
-    return { success: true, eventId };
-  },
-});
-
-export const updateCalendarEvent = mutation({
-  args: {
-    callerUserId: v.id("admin_users"),
-    eventId: v.id("productivity_calendar_Events"),
-    title: v.optional(v.string()),
-    description: v.optional(v.string()),
-    startTime: v.optional(v.number()),
-    endTime: v.optional(v.number()),
-    attendees: v.optional(v.array(v.string())),
-  },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
-    const event = await ctx.db.get(args.eventId);
-    if (!event) throw new Error("Event not found");
-
-    const rank = user.rank || "crew";
-    if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
-      if (event.orgId !== orgId) {
-        throw new Error("Unauthorized: Event not in your organization");
-      }
-    }
-
-    const updates: Record<string, unknown> = { updatedAt: Date.now() };
-    if (args.title !== undefined) updates.title = args.title;
-    if (args.description !== undefined) updates.description = args.description;
-    if (args.startTime !== undefined) updates.startTime = args.startTime;
-    if (args.endTime !== undefined) updates.endTime = args.endTime;
-    if (args.attendees !== undefined) updates.attendees = args.attendees;
-
-    await ctx.db.patch(args.eventId, updates);
-    return { success: true };
-  },
-});
-
-export const deleteCalendarEvent = mutation({
-  args: {
-    callerUserId: v.id("admin_users"),
-    eventId: v.id("productivity_calendar_Events")
-  },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
-    const event = await ctx.db.get(args.eventId);
-    if (!event) throw new Error("Event not found");
-
-    const rank = user.rank || "crew";
-    if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
-      if (event.orgId !== orgId) {
-        throw new Error("Unauthorized: Event not in your organization");
-      }
-    }
-
-    await ctx.db.delete(args.eventId);
-    return { success: true };
-  },
-});
-
 // ═══════════════════════════════════════════════════════════════════════
 // BOOKING MUTATIONS
 // ═══════════════════════════════════════════════════════════════════════
@@ -224,7 +143,7 @@ export const createBooking = mutation({
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUserWithRank(ctx, args.callerUserId);
-    const orgId = user.orgSlug || "";
+    const orgId = requireActiveOrgId(user);
     const now = Date.now();
 
     const bookingId = await ctx.db.insert("productivity_bookings_Form", {
@@ -258,7 +177,7 @@ export const updateBooking = mutation({
 
     const rank = user.rank || "crew";
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (booking.orgId !== orgId) {
         throw new Error("Unauthorized: Booking not in your organization");
       }
@@ -287,12 +206,13 @@ export const deleteBooking = mutation({
 
     const rank = user.rank || "crew";
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (booking.orgId !== orgId) {
         throw new Error("Unauthorized: Booking not in your organization");
       }
     }
 
+    await clearPromotion(ctx, booking.emailThreadId, booking._id);
     await ctx.db.delete(args.bookingId);
     return { success: true };
   },
@@ -333,7 +253,7 @@ export const markAwaitingMe = mutation({
 
       // Check authorization (org-scoping)
       if (rank !== "admiral") {
-        const orgId = user.orgSlug || "";
+        const orgId = requireActiveOrgId(user);
         if (message.orgId !== orgId) {
           throw new Error("Unauthorized: Message not in your organization");
         }
@@ -378,7 +298,7 @@ export const markAwaitingThem = mutation({
 
       // Check authorization (org-scoping)
       if (rank !== "admiral") {
-        const orgId = user.orgSlug || "";
+        const orgId = requireActiveOrgId(user);
         if (message.orgId !== orgId) {
           throw new Error("Unauthorized: Message not in your organization");
         }
@@ -428,7 +348,7 @@ export const resolveThread = mutation({
         .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
         .collect();
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       messages = await ctx.db
         .query("productivity_email_Index")
         .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
@@ -484,7 +404,7 @@ export const reopenThread = mutation({
         .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
         .collect();
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       messages = await ctx.db
         .query("productivity_email_Index")
         .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
@@ -535,7 +455,7 @@ export const markMessageRead = mutation({
 
     // Check authorization (org-scoping)
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (message.orgId !== orgId) {
         throw new Error("Unauthorized: Message not in your organization");
       }
@@ -552,6 +472,61 @@ export const markMessageRead = mutation({
   },
 });
 
+// ═══════════════════════════════════════════════════════════════════════
+// EMAIL PROMOTION MUTATIONS (thread → task / project / booking)
+// ═══════════════════════════════════════════════════════════════════════
+
+/**
+ * ⬆️ PROMOTE THREAD - creates a task, project or booking pre-filled from the
+ * thread's latest message and records promotedTo on all its messages
+ */
+export const promoteThread = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    threadId: v.string(), // externalThreadId
+    type: v.union(v.literal("task"), v.literal("project"), v.literal("booking")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const messages = await getThreadMessages(ctx, user, args.threadId);
+    if (messages.length === 0) throw new Error("Thread not found");
+
+    const existing = await getLivePromotion(ctx, messages);
+    if (existing) throw new Error(`Thread already promoted to a ${existing.type}`);
+
+    const now = Date.now();
+    const entityId = await createPromotionTarget(ctx, user, args.type, args.threadId, messages);
+    const promotedTo = { type: args.type, entityId, promotedAt: now, promotedBy: user._id, undoWindowEndsAt: now + PROMOTION_UNDO_WINDOW_MS };
+    for (const message of messages) await ctx.db.patch(message._id, { promotedTo, updatedAt: now });
+
+    return { success: true, type: args.type, entityId, undoWindowEndsAt: promotedTo.undoWindowEndsAt };
+  },
+});
+
+/**
+ * ↩️ UNDO PROMOTION - deletes the promoted entity and frees the thread,
+ * only for its promoter (or an admiral) while the undo window is open
+ */
+export const undoPromotion = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    threadId: v.string(), // externalThreadId
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const promotion = (await getThreadMessages(ctx, user, args.threadId)).find((m) => m.promotedTo)?.promotedTo;
+    if (!promotion) throw new Error("Thread has not been promoted");
+    if (promotion.promotedBy !== user._id && user.rank !== "admiral") {
+      throw new Error("Unauthorized: Only the person who promoted this thread can undo it");
+    }
+    if (!canUndoPromotion(promotion, Date.now())) throw new Error("Undo window has expired");
+
+    await deletePromotionTarget(ctx, promotion);
+    await clearPromotion(ctx, args.threadId, promotion.entityId);
+    return { success: true };
+  },
+});
+
 // ═══════════════════════════════════════════════════════════════════════
 // MEETING MUTATIONS
 // ═══════════════════════════════════════════════════════════════════════
@@ -567,7 +542,7 @@ export const createMeeting = mutation({
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUserWithRank(ctx, args.callerUserId);
-    const orgId = user.orgSlug || "";
+    const orgId = requireActiveOrgId(user);
     const now = Date.now();
 
     const meetingId = await ctx.db.insert("productivity_pipeline_Prospects", {
@@ -603,7 +578,7 @@ export const updateMeeting = mutation({
 
     const rank = user.rank || "crew";
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (meeting.orgId !== orgId) {
         throw new Error("Unauthorized: Meeting not in your organization");
       }
@@ -633,7 +608,7 @@ export const deleteMeeting = mutation({
 
     const rank = user.rank || "crew";
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (meeting.orgId !== orgId) {
         throw new Error("Unauthorized: Meeting not in your organization");
       }
@@ -0,0 +1,144 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ⬆️ EMAIL PROMOTION MODEL - Shared Helpers                                │
+│  /convex/domains/productivity/promotion/model.ts                          │
+│                                                                           │
+│  Creates and removes the entity an email thread is promoted into, for     │
+│  promoteThread/undoPromotion and the deletes that free a thread again.    │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Every message of the thread carries the same promotedTo                │
+│  - The entity links back through emailThreadId and inherits the           │
+│    thread's orgId                                                         │
+│  - A promotion whose entity has since been deleted no longer counts       │
+│  - Projects follow project rules: captain or higher to create, and undo   │
+│    refuses once work has been logged against them                         │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { nextPosition } from "@/convex/domains/productivity/tasks/model";
+import {
+  draftBookingFromEmail,
+  draftProjectFromEmail,
+  draftTaskFromEmail,
+  type PromotionSource,
+  type PromotionType,
+} from "@/domains/email";
+
+type Promotion = NonNullable<Doc<"productivity_email_Index">["promotedTo"]>;
+
+const PROMOTION_TABLES = {
+  task: "productivity_tasks_Tasks",
+  project: "projects_tracking_Schedule",
+  booking: "productivity_bookings_Form",
+} as const;
+
+/**
+ * Messages of an email thread the user can see (mirrors resolveThread)
+ */
+export async function getThreadMessages(ctx: MutationCtx, user: Doc<"admin_users">, threadId: string) {
+  const messages = await ctx.db
+    .query("productivity_email_Index")
+    .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", threadId))
+    .collect();
+  if ((user.rank || "crew") === "admiral") return messages;
+  return messages.filter((message) => message.orgId === user.orgId);
+}
+
+/**
+ * The thread's promotion, if the promoted entity still exists
+ */
+export async function getLivePromotion(ctx: MutationCtx, messages: Doc<"productivity_email_Index">[]) {
+  const promotion = messages.find((message) => message.promotedTo)?.promotedTo;
+  if (!promotion) return undefined;
+  const entityId = ctx.db.normalizeId(PROMOTION_TABLES[promotion.type], promotion.entityId);
+  return entityId && await ctx.db.get(entityId) ? promotion : undefined;
+}
+
+/**
+ * Create the promotion target, pre-filled from the thread's latest message
+ *
+ * @returns ID of the new task/project/booking
+ */
+export async function createPromotionTarget(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  type: PromotionType,
+  threadId: string,
+  messages: Doc<"productivity_email_Index">[]
+): Promise<string> {
+  const latest = messages.reduce((newest, message) => message.receivedAt > newest.receivedAt ? message : newest);
+  const source: PromotionSource = {
+    subject: latest.subject,
+    from: latest.from,
+    snippet: latest.snippet,
+    priority: latest.aiClassification?.priority,
+  };
+  const now = Date.now();
+  const link = { emailThreadId: threadId, orgId: latest.orgId, createdAt: now, updatedAt: now, createdBy: user._id };
+
+  if (type === "task") {
+    return await ctx.db.insert("productivity_tasks_Tasks", {
+      ...draftTaskFromEmail(source),
+      status: "todo",
+      position: await nextPosition(ctx, latest.orgId, "todo"),
+      ...link,
+    });
+  }
+  if (type === "project") {
+    if ((user.rank || "crew") === "crew") {
+      throw new Error("Unauthorized: Captain rank or higher required");
+    }
+    return await ctx.db.insert("projects_tracking_Schedule", {
+      ...draftProjectFromEmail(source),
+      status: "active",
+      ...link,
+    });
+  }
+  return await ctx.db.insert("productivity_bookings_Form", {
+    ...draftBookingFromEmail(source, now),
+    status: "pending",
+    ...link,
+  });
+}
+
+/**
+ * Delete a freshly promoted entity (undo). A project keeps its row once
+ * costs, budget lines, schedule, sites or board tasks point at it.
+ */
+export async function deletePromotionTarget(ctx: MutationCtx, promotion: Promotion) {
+  if (promotion.type === "project") {
+    const projectId = ctx.db.normalizeId("projects_tracking_Schedule", promotion.entityId);
+    if (!projectId) return;
+    const inUse = await Promise.all([
+      ctx.db.query("projects_tracking_Costs").withIndex("by_project", (q) => q.eq("projectId", projectId)).first(),
+      ctx.db.query("projects_tracking_Budgets").withIndex("by_project", (q) => q.eq("projectId", projectId)).first(),
+      ctx.db.query("projects_tracking_Tasks").withIndex("by_project", (q) => q.eq("projectId", projectId)).first(),
+      ctx.db.query("projects_tracking_Locations").withIndex("by_project", (q) => q.eq("projectId", projectId)).first(),
+      ctx.db.query("productivity_tasks_Tasks").withIndex("by_project", (q) => q.eq("projectId", projectId)).first(),
+    ]);
+    if (inUse.some(Boolean)) {
+      throw new Error("Project already has work logged against it - delete it from Projects instead");
+    }
+  }
+
+  const entityId = ctx.db.normalizeId(PROMOTION_TABLES[promotion.type], promotion.entityId);
+  if (entityId && await ctx.db.get(entityId)) await ctx.db.delete(entityId);
+}
+
+/**
+ * Forget a promotion on every message of the thread that points at the entity
+ */
+export async function clearPromotion(ctx: MutationCtx, threadId: string | undefined, entityId: string) {
+  if (!threadId) return;
+  const messages = await ctx.db
+    .query("productivity_email_Index")
+    .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", threadId))
+    .collect();
+  const now = Date.now();
+  for (const message of messages) {
+    if (message.promotedTo?.entityId === entityId) {
+      await ctx.db.patch(message._id, { promotedTo: undefined, updatedAt: now });
+    }
+  }
+}
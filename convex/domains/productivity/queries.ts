@@ -16,8 +16,9 @@
 
 import { query } from "@/convex/_generated/server";
 import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
 import type { QueryCtx } from "@/convex/_generated/server";
-import type { Id } from "@/convex/_generated/dataModel";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
 import {
   groupMessagesByThread,
   computeThreadMetadata,
@@ -26,12 +27,11 @@ import {
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
  */
 async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getEffectiveUser(ctx, callerUserId);
 }
 
 /**
@@ -46,7 +46,8 @@ export const listEmails = query({
     if (rank === "admiral") {
       return await ctx.db.query("productivity_email_Messages").collect();
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
+      if (!orgId) return [];
       return await ctx.db
         .query("productivity_email_Messages")
         .withIndex("by_org", (q) => q.eq("orgId", orgId))
@@ -67,7 +68,8 @@ export const listCalendarEvents = query({
     if (rank === "admiral") {
       return await ctx.db.query("productivity_calendar_Events").collect();
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
+      if (!orgId) return [];
       return await ctx.db
         .query("productivity_calendar_Events")
         .withIndex("by_org", (q) => q.eq("orgId", orgId))
@@ -88,7 +90,8 @@ export const listBookings = query({
     if (rank === "admiral") {
       return await ctx.db.query("productivity_bookings_Form").collect();
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
+      if (!orgId) return [];
       return await ctx.db
         .query("productivity_bookings_Form")
         .withIndex("by_org", (q) => q.eq("orgId", orgId))
@@ -109,7 +112,8 @@ export const listMeetings = query({
     if (rank === "admiral") {
       return await ctx.db.query("productivity_pipeline_Prospects").collect();
     } else {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
+      if (!orgId) return [];
       return await ctx.db
         .query("productivity_pipeline_Prospects")
         .withIndex("by_org", (q) => q.eq("orgId", orgId))
@@ -152,13 +156,14 @@ export const getThreadState = query({
         .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
         .collect();
     } else {
-      // 🛡️ SID-ORG: Use userId directly until orgs domain is implemented
-      const orgId = user._id as string;
-      messages = await ctx.db
-        .query("productivity_email_Index")
-        .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
-        .filter((q) => q.eq(q.field("orgId"), orgId))
-        .collect();
+      const orgId = user.orgId;
+      messages = orgId
+        ? await ctx.db
+          .query("productivity_email_Index")
+          .withIndex("by_external_thread_id", (q) => q.eq("externalThreadId", args.threadId))
+          .filter((q) => q.eq(q.field("orgId"), orgId))
+          .collect()
+        : [];
     }
 
     if (messages.length === 0) {
@@ -222,7 +227,7 @@ export const listThreads = query({
     const currentUserEmail = user.email;
 
     // Fetch email messages with rank-based scoping and optional folder filter
-    let allMessages;
+    let allMessages: Doc<"productivity_email_Index">[];
     if (rank === "admiral") {
       if (args.folderFilter) {
         allMessages = await ctx.db
@@ -237,9 +242,10 @@ export const listThreads = query({
           .collect();
       }
     } else {
-      // 🛡️ SID-ORG: Use userId directly until orgs domain is implemented
-      const orgId = user._id as string;
-      if (args.folderFilter) {
+      const orgId = user.orgId;
+      if (!orgId) {
+        allMessages = [];
+      } else if (args.folderFilter) {
         // Filter by both org and folder
         allMessages = await ctx.db
           .query("productivity_email_Index")
@@ -305,8 +311,8 @@ export const listMessages = query({
         .order("desc") // Most recent first
         .collect();
     } else {
-      // 🛡️ SID-ORG: Use userId directly until orgs domain is implemented
-      const orgId = user._id as string;
+      const orgId = user.orgId;
+      if (!orgId) return [];
       return await ctx.db
         .query("productivity_email_Index")
         .withIndex("by_org", (q) => q.eq("orgId", orgId))
@@ -339,9 +345,8 @@ export const getEmailMessage = query({
     }
 
     // Check authorization (org-scoping)
-    // 🛡️ SID-ORG: Use userId directly until orgs domain is implemented
     if (rank !== "admiral") {
-      const orgId = user._id as string;
+      const orgId = user.orgId;
       if (message.orgId !== orgId) {
         throw new Error("Unauthorized: Message not in your organization");
       }
@@ -381,16 +386,17 @@ export const listEmailAccounts = query({
 
     // Email accounts are always user-scoped (not org-scoped)
     // Users can only see their own connected accounts
-    if (rank === "admiral") {
+    const accounts = rank === "admiral"
       // Admiral can see all accounts (for admin purposes)
-      return await ctx.db.query("productivity_email_Accounts").collect();
-    } else {
+      ? await ctx.db.query("productivity_email_Accounts").collect()
       // Regular users see only their own accounts
-      return await ctx.db
+      : await ctx.db
         .query("productivity_email_Accounts")
         .withIndex("by_user", (q) => q.eq("userId", user._id))
         .collect();
-    }
+
+    // IMAP passwords stay server-side
+    return accounts.map((account) => ({ ...account, mailPassword: undefined }));
   },
 });
 
@@ -415,11 +421,13 @@ export const getEmailFolderCounts = query({
         .query("productivity_email_Index")
         .collect();
     } else {
-      const orgId = user._id as string;
-      allMessages = await ctx.db
-        .query("productivity_email_Index")
-        .withIndex("by_org", (q) => q.eq("orgId", orgId))
-        .collect();
+      const orgId = user.orgId;
+      allMessages = orgId
+        ? await ctx.db
+          .query("productivity_email_Index")
+          .withIndex("by_org", (q) => q.eq("orgId", orgId))
+          .collect()
+        : [];
     }
 
     // Group by thread and get latest message per thread
@@ -0,0 +1,139 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔍 EMAIL SEARCH QUERIES - SRS Layer 4                                    │
+│  /convex/domains/productivity/search/queries.ts                           │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Same scoping as listMessages:                                            │
+│  • Crew/Captain/Commodore: Organization-scoped                            │
+│  • Admiral: All messages (cross-org, platform-wide)                       │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v, type Infer } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+import { CanonicalFolder, SEARCH_RESULT_LIMIT, matchesSearchFilters } from "@/domains/email";
+
+/** EmailSearchQuery from the console (parseSearchQuery) */
+export const emailSearchQueryValidator = v.object({
+  terms: v.array(v.string()),
+  from: v.optional(v.string()),
+  to: v.optional(v.string()),
+  hasAttachment: v.optional(v.boolean()),
+  before: v.optional(v.number()),
+  after: v.optional(v.number()),
+  folder: v.optional(v.union(
+    v.literal(CanonicalFolder.INBOX),
+    v.literal(CanonicalFolder.SENT),
+    v.literal(CanonicalFolder.DRAFTS),
+    v.literal(CanonicalFolder.ARCHIVE),
+    v.literal(CanonicalFolder.SPAM),
+    v.literal(CanonicalFolder.TRASH),
+    v.literal(CanonicalFolder.OUTBOX),
+    v.literal(CanonicalFolder.SCHEDULED),
+    v.literal(CanonicalFolder.SYSTEM)
+  )),
+  state: v.optional(v.union(
+    v.literal("awaiting_me"),
+    v.literal("awaiting_them"),
+    v.literal("resolved"),
+    v.literal("none")
+  )),
+});
+
+type SearchQuery = Infer<typeof emailSearchQueryValidator>;
+type Message = Doc<"productivity_email_Index">;
+
+const SEARCH_FIELDS = {
+  search_subject: "subject",
+  search_snippet: "snippet",
+  search_sender: "from.name",
+} as const;
+
+/**
+ * Free text against one search index; operators the index can filter on
+ * are applied there, the rest by matchesSearchFilters
+ */
+async function searchField(
+  ctx: QueryCtx,
+  index: keyof typeof SEARCH_FIELDS,
+  text: string,
+  search: SearchQuery,
+  orgId: Id<"admin_orgs"> | null
+): Promise<Message[]> {
+  return await ctx.db
+    .query("productivity_email_Index")
+    .withSearchIndex(index, (q) => {
+      let filter = q.search(SEARCH_FIELDS[index], text);
+      if (orgId) filter = filter.eq("orgId", orgId);
+      if (search.folder) filter = filter.eq("canonicalFolder", search.folder);
+      if (search.hasAttachment) filter = filter.eq("hasAttachments", true);
+      if (search.state) filter = filter.eq("resolutionState", search.state);
+      return filter;
+    })
+    .take(SEARCH_RESULT_LIMIT);
+}
+
+/** Operators only - newest messages first until the limit */
+async function scanMessages(ctx: QueryCtx, search: SearchQuery, orgId: Id<"admin_orgs"> | null): Promise<Message[]> {
+  const rows = orgId
+    ? ctx.db.query("productivity_email_Index").withIndex("by_org", (q) => q.eq("orgId", orgId)).order("desc")
+    : ctx.db.query("productivity_email_Index").order("desc");
+  const matches: Message[] = [];
+  for await (const message of rows) {
+    if (!matchesSearchFilters(message, search)) continue;
+    matches.push(message);
+    if (matches.length >= SEARCH_RESULT_LIMIT) break;
+  }
+  return matches;
+}
+
+/**
+ * Search messages - returns matching message ids, best matches first
+ */
+export const searchEmails = query({
+  args: {
+    callerUserId: v.id("admin_users"),
+    search: emailSearchQueryValidator,
+  },
+  handler: async (ctx, args): Promise<Id<"productivity_email_Index">[]> => {
+    // 🛡️ SID-5.3: Direct lookup by sovereign _id
+    const user = await getEffectiveUser(ctx, args.callerUserId);
+    // null = every org (operators); undefined = no active org yet, nothing to search
+    const orgId = (user.rank || "crew") === "admiral" ? null : user.orgId;
+    if (orgId === undefined) return [];
+    const { search } = args;
+
+    if (search.terms.length === 0) {
+      return (await scanMessages(ctx, search, orgId)).map((message) => message._id);
+    }
+
+    const text = search.terms.join(" ");
+    const hits = new Map<Id<"productivity_email_Index">, Message>();
+    for (const index of Object.keys(SEARCH_FIELDS) as (keyof typeof SEARCH_FIELDS)[]) {
+      for (const message of await searchField(ctx, index, text, search, orgId)) {
+        if (!hits.has(message._id)) hits.set(message._id, message);
+      }
+    }
+
+    // Addresses are not tokenised usefully - exact sender match instead
+    const addresses = new Set(search.terms.filter((t) => t.includes("@")).flatMap((t) => [t, t.toLowerCase()]));
+    for (const address of addresses) {
+      const senders = await ctx.db
+        .query("productivity_email_Index")
+        .withIndex("by_sender_email", (q) => q.eq("from.email", address))
+        .take(SEARCH_RESULT_LIMIT);
+      for (const message of senders) {
+        if (!orgId || message.orgId === orgId) hits.set(message._id, message);
+      }
+    }
+
+    return [...hits.values()]
+      .filter((message) => matchesSearchFilters(message, search))
+      .map((message) => message._id);
+  },
+});
@@ -0,0 +1,23 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ✅ TASKS MODEL - Shared Helpers                                          │
+│  /convex/domains/productivity/tasks/model.ts                              │
+│                                                                           │
+│  Board ordering shared by the task mutations and email promotion.         │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { positionBetween } from "@/lib/ordering";
+
+/**
+ * Bottom-of-column position for a status
+ */
+export async function nextPosition(ctx: MutationCtx, orgId: Id<"admin_orgs">, status: Doc<"productivity_tasks_Tasks">["status"]) {
+  const tasks = await ctx.db
+    .query("productivity_tasks_Tasks")
+    .withIndex("by_org", (q) => q.eq("orgId", orgId))
+    .filter((q) => q.eq(q.field("status"), status))
+    .collect();
+  const last = tasks.reduce<number | undefined>((max, task) => max === undefined || task.position > max ? task.position : max, undefined);
+  return positionBetween(last, undefined);
+}
@@ -0,0 +1,215 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ✅ TASK MUTATIONS - SRS Layer 4                                          │
+│  /convex/domains/productivity/tasks/mutations.ts                          │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Task board with org-scoped authorization:                                │
+│  • All ranks: create, edit, move and delete their org's tasks             │
+│  • Admiral: any org                                                       │
+│  • Assignees and linked projects must share the task's org                │
+│  • Email → task promotion: promoteThread (productivity/mutations.ts)      │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId } from "@/convex/domains/admin/orgs/model";
+import { nextPosition } from "@/convex/domains/productivity/tasks/model";
+import { clearPromotion } from "@/convex/domains/productivity/promotion/model";
+import { validateTaskItem } from "@/domains/tasks";
+
+const statusValidator = v.union(v.literal("todo"), v.literal("in_progress"), v.literal("done"));
+const priorityValidator = v.union(
+  v.literal("urgent"),
+  v.literal("high"),
+  v.literal("normal"),
+  v.literal("low")
+);
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Load a task in the user's org (admirals: any org)
+ */
+async function getOrgTask(ctx: MutationCtx, user: Doc<"admin_users">, taskId: Id<"productivity_tasks_Tasks">) {
+  const task = await ctx.db.get(taskId);
+  if (!task) throw new Error("Task not found");
+  if ((user.rank || "crew") !== "admiral" && task.orgId !== user.orgId) {
+    throw new Error("Unauthorized: Task not in your organization");
+  }
+  return task;
+}
+
+/**
+ * Assignees must belong to the task's org
+ */
+async function assertAssigneeInOrg(ctx: MutationCtx, orgId: Id<"admin_orgs">, userId: Id<"admin_users">) {
+  const assignee = await ctx.db.get(userId);
+  if (!assignee) throw new Error("Assignee not found");
+  if (assignee.orgId !== orgId) {
+    throw new Error("Unauthorized: Assignee not in this organization");
+  }
+}
+
+/**
+ * Linked projects must belong to the task's org
+ */
+async function assertProjectInOrg(ctx: MutationCtx, orgId: Id<"admin_orgs">, projectId: Id<"projects_tracking_Schedule">) {
+  const project = await ctx.db.get(projectId);
+  if (!project) throw new Error("Project not found");
+  if (project.orgId !== orgId) {
+    throw new Error("Unauthorized: Project not in this organization");
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// TASK MUTATIONS
+// ═══════════════════════════════════════════════════════════════════════
+
+/**
+ * Create a task at the bottom of its column
+ */
+export const createTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    status: v.optional(statusValidator),
+    priority: priorityValidator,
+    assignedTo: v.optional(v.id("admin_users")),
+    dueDate: v.optional(v.number()),
+    projectId: v.optional(v.id("projects_tracking_Schedule")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const orgId = requireActiveOrgId(user);
+
+    const taskError = validateTaskItem(args);
+    if (taskError) throw new Error(taskError);
+    if (args.assignedTo) await assertAssigneeInOrg(ctx, orgId, args.assignedTo);
+    if (args.projectId) await assertProjectInOrg(ctx, orgId, args.projectId);
+
+    const status = args.status ?? "todo";
+    const now = Date.now();
+    const taskId = await ctx.db.insert("productivity_tasks_Tasks", {
+      title: args.title.trim(),
+      description: args.description?.trim() || undefined,
+      status,
+      priority: args.priority,
+      position: await nextPosition(ctx, orgId, status),
+      assignedTo: args.assignedTo,
+      dueDate: args.dueDate,
+      completedAt: status === "done" ? now : undefined,
+      projectId: args.projectId,
+      orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, taskId };
+  },
+});
+
+/**
+ * Edit task details (status and order go through moveTask)
+ */
+export const updateTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    taskId: v.id("productivity_tasks_Tasks"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    priority: v.optional(priorityValidator),
+    assignedTo: v.optional(v.union(v.id("admin_users"), v.null())), // null = unassign
+    dueDate: v.optional(v.union(v.number(), v.null())), // null = clear
+    projectId: v.optional(v.union(v.id("projects_tracking_Schedule"), v.null())), // null = unlink
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const task = await getOrgTask(ctx, user, args.taskId);
+
+    const taskError = validateTaskItem({
+      title: args.title ?? task.title,
+      dueDate: args.dueDate === undefined ? task.dueDate : args.dueDate ?? undefined,
+    });
+    if (taskError) throw new Error(taskError);
+    if (args.assignedTo) await assertAssigneeInOrg(ctx, task.orgId, args.assignedTo);
+    if (args.projectId) await assertProjectInOrg(ctx, task.orgId, args.projectId);
+
+    const updates: Partial<Doc<"productivity_tasks_Tasks">> = {
+      updatedAt: Date.now(),
+    };
+
+    if (args.title !== undefined) updates.title = args.title.trim();
+    if (args.description !== undefined) updates.description = args.description.trim() || undefined;
+    if (args.priority !== undefined) updates.priority = args.priority;
+    if (args.assignedTo !== undefined) updates.assignedTo = args.assignedTo ?? undefined;
+    if (args.dueDate !== undefined) updates.dueDate = args.dueDate ?? undefined;
+    if (args.projectId !== undefined) updates.projectId = args.projectId ?? undefined;
+
+    await ctx.db.patch(task._id, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Drag-and-drop: move a task to a status column/position.
+ * Entering "done" stamps completedAt; leaving it clears it.
+ */
+export const moveTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    taskId: v.id("productivity_tasks_Tasks"),
+    status: statusValidator,
+    position: v.optional(v.number()), // omitted = bottom of the column
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const task = await getOrgTask(ctx, user, args.taskId);
+
+    const now = Date.now();
+    const completedAt = args.status !== "done" ? undefined : task.status === "done" ? task.completedAt : now;
+
+    await ctx.db.patch(task._id, {
+      status: args.status,
+      position: args.position ?? await nextPosition(ctx, task.orgId, args.status),
+      completedAt,
+      updatedAt: now,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a task. A thread promoted into it can be promoted again.
+ */
+export const deleteTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    taskId: v.id("productivity_tasks_Tasks"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const task = await getOrgTask(ctx, user, args.taskId);
+
+    await clearPromotion(ctx, task.emailThreadId, task._id);
+    await ctx.db.delete(task._id);
+
+    return { success: true };
+  },
+});
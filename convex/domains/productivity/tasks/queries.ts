@@ -0,0 +1,49 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ✅ TASK QUERIES - SRS Layer 4                                            │
+│  /convex/domains/productivity/tasks/queries.ts                            │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Rank-based data scoping for the task board:                              │
+│  • Crew/Captain/Commodore: Organization-scoped                            │
+│  • Admiral: All tasks (cross-org, platform-wide)                          │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List tasks with rank-based scoping
+ */
+export const listTasks = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    if (rank === "admiral") {
+      return await ctx.db.query("productivity_tasks_Tasks").collect();
+    } else {
+      const orgId = user.orgId;
+      if (!orgId) return [];
+      return await ctx.db
+        .query("productivity_tasks_Tasks")
+        .withIndex("by_org", (q) => q.eq("orgId", orgId))
+        .collect();
+    }
+  },
+});
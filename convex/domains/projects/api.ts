@@ -9,7 +9,29 @@
 └───────────────────────────────────────────────────────────────────────────┘ */
 
 // Export queries
-export { listProjects, getProject } from "./queries";
+export { listProjects, getProject, getProjectCostSummary } from "./queries";
+export { listProjectCosts, listProjectBudgets } from "./tracking/queries";
+export { listProjectTasks, listTaskDependencies } from "./schedule/queries";
+export { listProjectLocations } from "./locations/queries";
 
 // Export mutations
 export { createProject, updateProject, deleteProject } from "./mutations";
+export {
+  createCost,
+  updateCost,
+  deleteCost,
+  setBudgetLine,
+  removeBudgetLine,
+} from "./tracking/mutations";
+export {
+  createTask,
+  updateTask,
+  rescheduleTask,
+  deleteTask,
+  addDependency,
+  removeDependency,
+} from "./schedule/mutations";
+export { createLocation, updateLocation, deleteLocation } from "./locations/mutations";
+
+// Export actions
+export { geocodeAddress } from "./locations/actions";
@@ -0,0 +1,67 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📍 PROJECT LOCATION ACTIONS - SRS Layer 4                                │
+│  /convex/domains/projects/locations/actions.ts                            │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All actions accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Address geocoding behind the GeocodingProvider interface:                │
+│  • GEOCODING_PROVIDER=nominatim - OpenStreetMap Nominatim                 │
+│    (GEOCODING_URL for a self-hosted instance, GEOCODING_USER_AGENT)       │
+│  • anything else (default) - offline stub, no network                     │
+│  Returns candidates only; the site is saved by createLocation /           │
+│  updateLocation once the user picks one.                                  │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { action } from "@/convex/_generated/server";
+import { v } from "convex/values";
+import { internal } from "@/convex/_generated/api";
+import {
+  createNominatimGeocoder,
+  createOfflineGeocoder,
+  type GeocodeMatch,
+  type GeocodingProvider,
+} from "@/lib/geocoding";
+
+/**
+ * Provider configured for this deployment
+ */
+export function getGeocoder(): GeocodingProvider {
+  if (process.env.GEOCODING_PROVIDER === "nominatim") {
+    return createNominatimGeocoder({
+      baseUrl: process.env.GEOCODING_URL || undefined,
+      userAgent: process.env.GEOCODING_USER_AGENT || "FUSE project locations",
+      fetch: (url, init) => globalThis.fetch(url, init),
+    });
+  }
+  return createOfflineGeocoder();
+}
+
+/**
+ * 📍 GEOCODE ADDRESS
+ *
+ * @param callerUserId - Authenticated user ID (captain or higher)
+ * @param address - Free-text address, or a "lat, long" pair
+ * @returns { provider, matches } - best matches first, empty when none
+ */
+export const geocodeAddress = action({
+  args: {
+    callerUserId: v.id("admin_users"),
+    address: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ provider: string; matches: GeocodeMatch[] }> => {
+    const allowed = await ctx.runQuery(
+      internal.domains.projects.locations.internalQueries.canGeocode,
+      { callerUserId: args.callerUserId }
+    );
+    if (!allowed) {
+      throw new Error("Unauthorized: Captain rank or higher required");
+    }
+
+    const geocoder = getGeocoder();
+    const matches = await geocoder.geocode(args.address);
+
+    return { provider: geocoder.id, matches };
+  },
+});
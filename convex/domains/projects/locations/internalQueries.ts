@@ -0,0 +1,25 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔒 PROJECT LOCATION INTERNAL QUERIES - Action Helpers                    │
+│  /convex/domains/projects/locations/internalQueries.ts                    │
+│                                                                           │
+│  Internal queries called by the geocoding action. Not exposed to          │
+│  clients. Actions can't access ctx.db directly, so they call these.       │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { internalQuery } from "@/convex/_generated/server";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+
+/**
+ * Whether the caller may geocode addresses (captain or higher - the ranks
+ * that can save a site)
+ */
+export const canGeocode = internalQuery({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getEffectiveUser(ctx, args.callerUserId);
+    return (user.rank || "crew") !== "crew";
+  },
+});
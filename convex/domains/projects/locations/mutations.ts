@@ -0,0 +1,150 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📍 PROJECT LOCATION MUTATIONS - SRS Layer 4                              │
+│  /convex/domains/projects/locations/mutations.ts                          │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Project sites with rank-based authorization:                             │
+│  • Captain/Commodore/Admiral only (org-scoped via the project)            │
+│  • Rows inherit the project's orgId                                       │
+│  • Coordinates come from geocodeAddress or are entered by hand            │
+│  • Crew: Read-only access                                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { getEditableProject } from "@/convex/domains/projects/model";
+import { validateLocation } from "@/domains/projects";
+
+const siteFields = {
+  name: v.string(),
+  address: v.string(),
+  latitude: v.optional(v.number()),
+  longitude: v.optional(v.number()),
+  geocodedBy: v.optional(v.string()),
+  contactName: v.optional(v.string()),
+  contactPhone: v.optional(v.string()),
+  contactEmail: v.optional(v.string()),
+  notes: v.optional(v.string()),
+};
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Trimmed site details; blank optional text is dropped
+ */
+function cleanSite(args: {
+  name: string;
+  address: string;
+  latitude?: number;
+  longitude?: number;
+  geocodedBy?: string;
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  notes?: string;
+}) {
+  const site = {
+    name: args.name.trim(),
+    address: args.address.trim(),
+    latitude: args.latitude,
+    longitude: args.longitude,
+    // Hand-entered coordinates have no provider
+    geocodedBy: args.latitude !== undefined ? args.geocodedBy : undefined,
+    contactName: args.contactName?.trim() || undefined,
+    contactPhone: args.contactPhone?.trim() || undefined,
+    contactEmail: args.contactEmail?.trim() || undefined,
+    notes: args.notes?.trim() || undefined,
+  };
+  const error = validateLocation(site);
+  if (error) throw new Error(error);
+  return site;
+}
+
+/**
+ * Add a site to a project
+ */
+export const createLocation = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    projectId: v.id("projects_tracking_Schedule"),
+    ...siteFields,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const project = await getEditableProject(ctx, user, args.projectId);
+
+    const site = cleanSite(args);
+
+    const now = Date.now();
+    const locationId = await ctx.db.insert("projects_tracking_Locations", {
+      projectId: project._id,
+      ...site,
+      orgId: project.orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, locationId };
+  },
+});
+
+/**
+ * Edit a site. The full set of details is sent, so clearing a field removes it.
+ */
+export const updateLocation = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    locationId: v.id("projects_tracking_Locations"),
+    ...siteFields,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const location = await ctx.db.get(args.locationId);
+    if (!location) throw new Error("Location not found");
+    await getEditableProject(ctx, user, location.projectId);
+
+    const updates: Partial<Doc<"projects_tracking_Locations">> = {
+      ...cleanSite(args),
+      updatedAt: Date.now(),
+    };
+    await ctx.db.patch(location._id, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a site
+ */
+export const deleteLocation = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    locationId: v.id("projects_tracking_Locations"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const location = await ctx.db.get(args.locationId);
+    if (!location) throw new Error("Location not found");
+    await getEditableProject(ctx, user, location.projectId);
+
+    await ctx.db.delete(location._id);
+
+    return { success: true };
+  },
+});
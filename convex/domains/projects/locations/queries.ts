@@ -0,0 +1,52 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📍 PROJECT LOCATION QUERIES - SRS Layer 4                                │
+│  /convex/domains/projects/locations/queries.ts                            │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Project sites for every project the caller can see (same scoping as      │
+│  listProjects):                                                           │
+│  • Crew: Assigned projects only                                           │
+│  • Captain/Commodore: Organization-scoped                                 │
+│  • Admiral: All projects (cross-org, platform-wide)                       │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+import { getVisibleProjects } from "@/convex/domains/projects/model";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List sites of every visible project, by name
+ */
+export const listProjectLocations = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const projects = await getVisibleProjects(ctx, user);
+
+    const locations = [];
+    for (const project of projects) {
+      const rows = await ctx.db
+        .query("projects_tracking_Locations")
+        .withIndex("by_project", (q) => q.eq("projectId", project._id))
+        .collect();
+      locations.push(...rows);
+    }
+
+    return locations.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
@@ -0,0 +1,61 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECTS MODEL - Shared Helpers                                       │
+│  /convex/domains/projects/model.ts                                        │
+│                                                                           │
+│  Project scoping shared by the tracking (costs, budgets) and schedule     │
+│  (tasks, dependencies) functions.                                         │
+│                                                                           │
+│  DOCTRINE:                                                                │
+│  - Reads follow listProjects: crew see assigned projects, captains and   │
+│    commodores their org, admirals everything                              │
+│  - Writes need captain or higher and the project's org                    │
+│  - Child rows inherit the project's orgId                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import type { MutationCtx, QueryCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+/**
+ * Projects visible to the user (mirrors listProjects)
+ */
+export async function getVisibleProjects(ctx: QueryCtx, user: Doc<"admin_users">) {
+  const rank = user.rank || "crew";
+
+  if (rank === "admiral") {
+    return await ctx.db.query("projects_tracking_Schedule").collect();
+  }
+  if (rank === "captain" || rank === "commodore") {
+    const orgId = user.orgId;
+    if (!orgId) return [];
+    return await ctx.db
+      .query("projects_tracking_Schedule")
+      .withIndex("by_org", (q) => q.eq("orgId", orgId))
+      .collect();
+  }
+  return await ctx.db
+    .query("projects_tracking_Schedule")
+    .withIndex("by_assigned", (q) => q.eq("assignedTo", user._id))
+    .collect();
+}
+
+/**
+ * Load a project the user may write to (captain or higher, same org)
+ */
+export async function getEditableProject(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  projectId: Id<"projects_tracking_Schedule">
+) {
+  const rank = user.rank || "crew";
+  if (rank === "crew") {
+    throw new Error("Unauthorized: Captain rank or higher required");
+  }
+
+  const project = await ctx.db.get(projectId);
+  if (!project) throw new Error("Project not found");
+
+  if (rank !== "admiral" && project.orgId !== user.orgId) {
+    throw new Error("Unauthorized: Project not in your organization");
+  }
+  return project;
+}
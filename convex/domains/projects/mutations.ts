@@ -9,7 +9,8 @@
 │  Project CRUD with rank-based authorization:                              │
 │  • Create: Captain/Commodore/Admiral only                                 │
 │  • Update: Captain/Commodore/Admiral only (org-scoped)                    │
-│  • Delete: Captain/Commodore/Admiral only (org-scoped)                    │
+│  • Delete: Captain/Commodore/Admiral only (org-scoped), with its costs    │
+│    and budget lines                                                       │
 │  • Crew: Read-only access (cannot create/update/delete)                   │
 │                                                                           │
 │  SRS Commandment #4: Data scoping via Convex mutations                    │
@@ -19,15 +20,18 @@ import { mutation } from "@/convex/_generated/server";
 import type { MutationCtx } from "@/convex/_generated/server";
 import type { Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { requireActiveOrgId, resolveWriteOrgId } from "@/convex/domains/admin/orgs/model";
+import { deleteEmailLinksTo } from "@/convex/domains/productivity/links/model";
+import { validateProject } from "@/domains/projects";
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
  */
 async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getWritingUser(ctx, callerUserId);
 }
 
 /**
@@ -47,7 +51,7 @@ export const createProject = mutation({
     callerUserId: v.id("admin_users"),
     name: v.string(),
     description: v.optional(v.string()),
-    orgId: v.optional(v.string()),
+    orgId: v.optional(v.id("admin_orgs")),
     assignedTo: v.optional(v.id("admin_users")),
     status: v.union(
       v.literal("active"),
@@ -63,17 +67,15 @@ export const createProject = mutation({
 
     requireCaptainOrHigher(rank);
 
-    let orgId: string;
-    if (rank === "admiral" && args.orgId) {
-      orgId = args.orgId;
-    } else {
-      orgId = user.orgSlug || "";
-    }
+    const error = validateProject(args);
+    if (error) throw new Error(error);
+
+    const orgId = await resolveWriteOrgId(ctx, user, args.orgId);
 
     const now = Date.now();
 
     const projectId = await ctx.db.insert("projects_tracking_Schedule", {
-      name: args.name,
+      name: args.name.trim(),
       description: args.description,
       orgId,
       assignedTo: args.assignedTo,
@@ -121,17 +123,24 @@ export const updateProject = mutation({
     }
 
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (project.orgId !== orgId) {
         throw new Error("Unauthorized: Project not in your organization");
       }
     }
 
+    const error = validateProject({
+      name: args.name ?? project.name,
+      startDate: args.startDate ?? project.startDate,
+      endDate: args.endDate ?? project.endDate,
+    });
+    if (error) throw new Error(error);
+
     const updates: Record<string, unknown> = {
       updatedAt: Date.now(),
     };
 
-    if (args.name !== undefined) updates.name = args.name;
+    if (args.name !== undefined) updates.name = args.name.trim();
     if (args.description !== undefined) updates.description = args.description;
     if (args.assignedTo !== undefined) updates.assignedTo = args.assignedTo;
     if (args.status !== undefined) updates.status = args.status;
@@ -164,12 +173,38 @@ export const deleteProject = mutation({
     }
 
     if (rank !== "admiral") {
-      const orgId = user.orgSlug || "";
+      const orgId = requireActiveOrgId(user);
       if (project.orgId !== orgId) {
         throw new Error("Unauthorized: Project not in your organization");
       }
     }
 
+    // Costs, budget lines, the schedule and sites only mean something on their project
+    const costs = await ctx.db
+      .query("projects_tracking_Costs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const budgetLines = await ctx.db
+      .query("projects_tracking_Budgets")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const tasks = await ctx.db
+      .query("projects_tracking_Tasks")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const dependencies = await ctx.db
+      .query("projects_tracking_TaskDependencies")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const locations = await ctx.db
+      .query("projects_tracking_Locations")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    for (const row of [...costs, ...budgetLines, ...tasks, ...dependencies, ...locations]) {
+      await ctx.db.delete(row._id);
+    }
+
+    await deleteEmailLinksTo(ctx, "project", args.projectId);
     await ctx.db.delete(args.projectId);
 
     return { success: true };
@@ -12,6 +12,9 @@
 │  • Commodore: Organization-scoped projects                                │
 │  • Admiral: All projects (cross-org, platform-wide)                       │
 │                                                                           │
+│  Cost rollups convert every cost into the org base currency at the        │
+│  rate effective on the cost date (finance_currency_Rates)                 │
+│                                                                           │
 │  SRS Commandment #4: Data scoping via Convex query filters                │
 └───────────────────────────────────────────────────────────────────────────┘ */
 
@@ -19,15 +22,17 @@ import { query } from "@/convex/_generated/server";
 import type { QueryCtx } from "@/convex/_generated/server";
 import type { Id } from "@/convex/_generated/dataModel";
 import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+import { getBaseCurrency, getOrgRates } from "@/convex/domains/finance/currency/rates";
+import { sumInCurrency } from "@/lib/currency";
 
 /**
  * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
  */
 async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
   // 🛡️ SID-5.3: Direct lookup by sovereign _id
-  const user = await ctx.db.get(callerUserId);
-  if (!user) throw new Error("User not found");
-  return user;
+  return await getEffectiveUser(ctx, callerUserId);
 }
 
 /**
@@ -44,11 +49,13 @@ export const listProjects = query({
     if (rank === "admiral") {
       projects = await ctx.db.query("projects_tracking_Schedule").collect();
     } else if (rank === "captain" || rank === "commodore") {
-      const orgId = user.orgSlug || "";
-      projects = await ctx.db
-        .query("projects_tracking_Schedule")
-        .withIndex("by_org", (q) => q.eq("orgId", orgId))
-        .collect();
+      const orgId = user.orgId;
+      projects = orgId
+        ? await ctx.db
+          .query("projects_tracking_Schedule")
+          .withIndex("by_org", (q) => q.eq("orgId", orgId))
+          .collect()
+        : [];
     } else {
       projects = await ctx.db
         .query("projects_tracking_Schedule")
@@ -75,7 +82,7 @@ export const getProject = query({
     if (rank === "admiral") {
       return project;
     } else if (rank === "captain" || rank === "commodore") {
-      const orgId = user.orgSlug || "";
+      const orgId = user.orgId;
       if (project.orgId !== orgId) {
         throw new Error("Unauthorized: Project not in your organization");
       }
@@ -88,3 +95,52 @@ export const getProject = query({
     }
   },
 });
+
+/**
+ * Roll up a project's costs in the org base currency.
+ * Costs in currencies without a stored rate are excluded and listed in missingRates.
+ */
+export const getProjectCostSummary = query({
+  args: { callerUserId: v.id("admin_users"), projectId: v.id("projects_tracking_Schedule") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const rank = user.rank || "crew";
+
+    const project = await ctx.db.get(args.projectId);
+    if (!project) return null;
+
+    if (rank === "captain" || rank === "commodore") {
+      if (project.orgId !== user.orgId) {
+        throw new Error("Unauthorized: Project not in your organization");
+      }
+    } else if (rank !== "admiral" && project.assignedTo?.toString() !== user._id.toString()) {
+      throw new Error("Unauthorized: Project not assigned to you");
+    }
+
+    const costs = await ctx.db
+      .query("projects_tracking_Costs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    const { baseCurrency } = await getBaseCurrency(ctx, project.orgId);
+    const rates = await getOrgRates(ctx, project.orgId);
+
+    const total = sumInCurrency(costs, baseCurrency, rates);
+    const rollup = (key: "category" | "status") => {
+      const groups: Record<string, number> = {};
+      for (const value of new Set(costs.map((cost) => cost[key]))) {
+        groups[value] = sumInCurrency(costs.filter((cost) => cost[key] === value), baseCurrency, rates).total;
+      }
+      return groups;
+    };
+
+    return {
+      baseCurrency,
+      total: total.total,
+      byCategory: rollup("category"),
+      byStatus: rollup("status"),
+      missingRates: total.missing,
+      costCount: costs.length,
+    };
+  },
+});
@@ -0,0 +1,331 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT SCHEDULE MUTATIONS - SRS Layer 4                              │
+│  /convex/domains/projects/schedule/mutations.ts                           │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Gantt tasks, milestones and dependencies with rank-based authorization:  │
+│  • Captain/Commodore/Admiral only (org-scoped via the project)            │
+│  • Rows inherit the project's orgId                                       │
+│  • Moving a task pushes its dependents (shiftDependents)                  │
+│  • Links are checked for duplicates and loops before they are stored      │
+│  • Crew: Read-only access                                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { getEditableProject } from "@/convex/domains/projects/model";
+import {
+  shiftDependents,
+  validateDependency,
+  validateTask,
+  type ScheduleDependency,
+  type ScheduleTask,
+} from "@/domains/projects";
+
+const dependencyTypeValidator = v.union(
+  v.literal("finish_to_start"),
+  v.literal("start_to_start")
+);
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Load a task the user may edit, with its project
+ */
+async function getEditableTask(
+  ctx: MutationCtx,
+  user: Doc<"admin_users">,
+  taskId: Id<"projects_tracking_Tasks">
+) {
+  const task = await ctx.db.get(taskId);
+  if (!task) throw new Error("Task not found");
+  const project = await getEditableProject(ctx, user, task.projectId);
+  return { task, project };
+}
+
+/**
+ * Assignees must belong to the project's organization
+ */
+async function requireAssignee(
+  ctx: MutationCtx,
+  project: Doc<"projects_tracking_Schedule">,
+  assignedTo: Id<"admin_users">
+) {
+  const assignee = await ctx.db.get(assignedTo);
+  if (!assignee || assignee.orgId !== project.orgId) {
+    throw new Error("Assignee is not a member of this project's organization");
+  }
+}
+
+/**
+ * Tasks and links of one project, in the shape the schedule rules use
+ */
+async function loadSchedule(ctx: MutationCtx, projectId: Id<"projects_tracking_Schedule">) {
+  const tasks = await ctx.db
+    .query("projects_tracking_Tasks")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+  const dependencies = await ctx.db
+    .query("projects_tracking_TaskDependencies")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+
+  return {
+    tasks,
+    dependencies,
+    scheduleTasks: tasks.map((task): ScheduleTask => ({
+      id: task._id,
+      startDate: task.startDate,
+      endDate: task.endDate,
+      isMilestone: task.isMilestone,
+    })),
+    scheduleDependencies: dependencies.map((dep): ScheduleDependency => ({
+      predecessorId: dep.predecessorId,
+      successorId: dep.successorId,
+      type: dep.type,
+    })),
+  };
+}
+
+/**
+ * Move a task (or just re-check its dependents) and write every task that changed.
+ * Returns the number of tasks moved.
+ */
+async function rescheduleFrom(
+  ctx: MutationCtx,
+  projectId: Id<"projects_tracking_Schedule">,
+  taskId: Id<"projects_tracking_Tasks">,
+  startDate: number
+) {
+  const { scheduleTasks, scheduleDependencies } = await loadSchedule(ctx, projectId);
+  const moves = shiftDependents(scheduleTasks, scheduleDependencies, taskId, startDate);
+
+  const now = Date.now();
+  for (const move of moves) {
+    await ctx.db.patch(move.id as Id<"projects_tracking_Tasks">, {
+      startDate: move.startDate,
+      endDate: move.endDate,
+      updatedAt: now,
+    });
+  }
+  return moves.length;
+}
+
+/**
+ * Add a task or milestone to a project (appended as the last Gantt row)
+ */
+export const createTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    projectId: v.id("projects_tracking_Schedule"),
+    name: v.string(),
+    startDate: v.number(),
+    endDate: v.number(),
+    isMilestone: v.boolean(),
+    assignedTo: v.optional(v.id("admin_users")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const project = await getEditableProject(ctx, user, args.projectId);
+
+    const endDate = args.isMilestone ? args.startDate : args.endDate;
+    const error = validateTask({ name: args.name, startDate: args.startDate, endDate, isMilestone: args.isMilestone });
+    if (error) throw new Error(error);
+    if (args.assignedTo) await requireAssignee(ctx, project, args.assignedTo);
+
+    const { tasks } = await loadSchedule(ctx, project._id);
+    const order = tasks.reduce((max, task) => Math.max(max, task.order), -1) + 1;
+
+    const now = Date.now();
+    const taskId = await ctx.db.insert("projects_tracking_Tasks", {
+      projectId: project._id,
+      name: args.name.trim(),
+      startDate: args.startDate,
+      endDate,
+      isMilestone: args.isMilestone,
+      assignedTo: args.assignedTo,
+      order,
+      orgId: project.orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, taskId };
+  },
+});
+
+/**
+ * Edit a task. Date changes push any dependent that would now start too early.
+ */
+export const updateTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    taskId: v.id("projects_tracking_Tasks"),
+    name: v.optional(v.string()),
+    startDate: v.optional(v.number()),
+    endDate: v.optional(v.number()),
+    isMilestone: v.optional(v.boolean()),
+    assignedTo: v.optional(v.union(v.id("admin_users"), v.null())), // null = unassign
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const { task, project } = await getEditableTask(ctx, user, args.taskId);
+
+    const isMilestone = args.isMilestone ?? task.isMilestone;
+    const startDate = args.startDate ?? task.startDate;
+    const next = {
+      name: args.name?.trim() ?? task.name,
+      startDate,
+      endDate: isMilestone ? startDate : args.endDate ?? task.endDate,
+      isMilestone,
+    };
+    const error = validateTask(next);
+    if (error) throw new Error(error);
+
+    const updates: Partial<Doc<"projects_tracking_Tasks">> = {
+      ...next,
+      updatedAt: Date.now(),
+    };
+    if (args.assignedTo !== undefined) {
+      if (args.assignedTo) await requireAssignee(ctx, project, args.assignedTo);
+      updates.assignedTo = args.assignedTo ?? undefined;
+    }
+
+    await ctx.db.patch(task._id, updates);
+
+    const shifted = await rescheduleFrom(ctx, project._id, task._id, next.startDate);
+
+    return { success: true, shifted };
+  },
+});
+
+/**
+ * Drag-to-reschedule: move a task to a new start, keeping its duration,
+ * and push its dependents
+ */
+export const rescheduleTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    taskId: v.id("projects_tracking_Tasks"),
+    startDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const { task, project } = await getEditableTask(ctx, user, args.taskId);
+
+    if (!Number.isFinite(args.startDate)) throw new Error("Start date is not a valid date");
+
+    const shifted = await rescheduleFrom(ctx, project._id, task._id, args.startDate);
+
+    return { success: true, shifted };
+  },
+});
+
+/**
+ * Delete a task and every link to or from it
+ */
+export const deleteTask = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    taskId: v.id("projects_tracking_Tasks"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const { task } = await getEditableTask(ctx, user, args.taskId);
+
+    const outgoing = await ctx.db
+      .query("projects_tracking_TaskDependencies")
+      .withIndex("by_predecessor", (q) => q.eq("predecessorId", task._id))
+      .collect();
+    const incoming = await ctx.db
+      .query("projects_tracking_TaskDependencies")
+      .withIndex("by_successor", (q) => q.eq("successorId", task._id))
+      .collect();
+    for (const dep of [...outgoing, ...incoming]) {
+      await ctx.db.delete(dep._id);
+    }
+
+    await ctx.db.delete(task._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Link two tasks of the same project. The successor is pushed if it
+ * currently starts before the link allows.
+ */
+export const addDependency = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    predecessorId: v.id("projects_tracking_Tasks"),
+    successorId: v.id("projects_tracking_Tasks"),
+    type: dependencyTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const { task: predecessor, project } = await getEditableTask(ctx, user, args.predecessorId);
+
+    const successor = await ctx.db.get(args.successorId);
+    if (!successor) throw new Error("Task not found");
+    if (successor.projectId !== project._id) {
+      throw new Error("Only tasks of the same project can be linked");
+    }
+
+    const { scheduleDependencies } = await loadSchedule(ctx, project._id);
+    const error = validateDependency(scheduleDependencies, {
+      predecessorId: predecessor._id,
+      successorId: successor._id,
+    });
+    if (error) throw new Error(error);
+
+    const dependencyId = await ctx.db.insert("projects_tracking_TaskDependencies", {
+      projectId: project._id,
+      predecessorId: predecessor._id,
+      successorId: successor._id,
+      type: args.type,
+      orgId: project.orgId,
+      createdAt: Date.now(),
+      createdBy: user._id,
+    });
+
+    const shifted = await rescheduleFrom(ctx, project._id, predecessor._id, predecessor.startDate);
+
+    return { success: true, dependencyId, shifted };
+  },
+});
+
+/**
+ * Remove a link between two tasks (their dates stay as they are)
+ */
+export const removeDependency = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    dependencyId: v.id("projects_tracking_TaskDependencies"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const dependency = await ctx.db.get(args.dependencyId);
+    if (!dependency) throw new Error("Dependency not found");
+    await getEditableProject(ctx, user, dependency.projectId);
+
+    await ctx.db.delete(dependency._id);
+
+    return { success: true };
+  },
+});
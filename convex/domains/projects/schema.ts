@@ -0,0 +1,195 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  PROJECTS SCHEMA - Domain Tables                                          │
+│  /convex/domains/projects/schema.ts                                       │
+│                                                                           │
+│  Project tracking: schedule, costs, budgets, tasks and sites.             │
+│  Spread into defineSchema by /convex/schema.ts.                           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { defineTable } from "convex/server";
+import { v } from "convex/values";
+
+export const projectsTables = {
+  projects_tracking_Schedule: defineTable({
+    // Identity (required)
+    name: v.string(),
+    description: v.optional(v.string()),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+    assignedTo: v.optional(v.id("admin_users")),
+
+    // Status (required)
+    status: v.union(
+      v.literal("active"),
+      v.literal("completed"),
+      v.literal("archived")
+    ),
+    startDate: v.optional(v.number()),
+    endDate: v.optional(v.number()),
+
+    // Email thread the project was promoted from (externalThreadId)
+    emailThreadId: v.optional(v.string()),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_assigned", ["assignedTo"])
+    .index("by_status", ["status"])
+    .index("by_date", ["startDate"]),
+
+  projects_tracking_Costs: defineTable({
+    // Link to project (required)
+    projectId: v.id("projects_tracking_Schedule"),
+
+    // Cost details (required)
+    name: v.string(),
+    amount: v.number(),
+    currency: v.string(),
+    category: v.union(
+      v.literal("labor"),
+      v.literal("materials"),
+      v.literal("equipment"),
+      v.literal("services"),
+      v.literal("other")
+    ),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Status (required)
+    status: v.union(
+      v.literal("estimated"),
+      v.literal("approved"),
+      v.literal("spent")
+    ),
+    date: v.number(),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_project", ["projectId"])
+    .index("by_org", ["orgId"])
+    .index("by_category", ["category"])
+    .index("by_status", ["status"]),
+
+  /**
+   * Budget line - the planned spend for one cost category of a project.
+   * One line per (project, category); variance compares it with the
+   * spent costs in that category.
+   */
+  projects_tracking_Budgets: defineTable({
+    // Link to project (required)
+    projectId: v.id("projects_tracking_Schedule"),
+
+    // Budget (required)
+    category: v.union(
+      v.literal("labor"),
+      v.literal("materials"),
+      v.literal("equipment"),
+      v.literal("services"),
+      v.literal("other")
+    ),
+    amount: v.number(),
+    currency: v.string(),
+    notes: v.optional(v.string()),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_project", ["projectId", "category"])
+    .index("by_org", ["orgId"]),
+
+  /**
+   * Project task - one bar (or milestone) on the project Gantt.
+   * Dates are UTC midnight; endDate is the last working day (inclusive).
+   * Milestones have startDate === endDate.
+   */
+  projects_tracking_Tasks: defineTable({
+    // Link to project (required)
+    projectId: v.id("projects_tracking_Schedule"),
+
+    // Task details (required)
+    name: v.string(),
+    startDate: v.number(),
+    endDate: v.number(),
+    isMilestone: v.boolean(),
+    assignedTo: v.optional(v.id("admin_users")),
+    order: v.number(), // Row position on the Gantt
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_project", ["projectId"])
+    .index("by_org", ["orgId"])
+    .index("by_assigned", ["assignedTo"]),
+
+  /**
+   * Task dependency - successor may not start before the predecessor
+   * finishes (finish_to_start) or starts (start_to_start).
+   */
+  projects_tracking_TaskDependencies: defineTable({
+    // Link to project (required)
+    projectId: v.id("projects_tracking_Schedule"),
+
+    // Link (required)
+    predecessorId: v.id("projects_tracking_Tasks"),
+    successorId: v.id("projects_tracking_Tasks"),
+    type: v.union(
+      v.literal("finish_to_start"),
+      v.literal("start_to_start")
+    ),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_project", ["projectId"])
+    .index("by_predecessor", ["predecessorId"])
+    .index("by_successor", ["successorId"])
+    .index("by_org", ["orgId"]),
+
+  /**
+   * Project location - a physical site the project works on.
+   * Coordinates are optional until the address is geocoded (or entered).
+   */
+  projects_tracking_Locations: defineTable({
+    // Link to project (required)
+    projectId: v.id("projects_tracking_Schedule"),
+
+    // Site (required)
+    name: v.string(),
+    address: v.string(),
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+    geocodedBy: v.optional(v.string()), // Provider id, absent when entered by hand
+
+    // Site contact (optional)
+    contactName: v.optional(v.string()),
+    contactPhone: v.optional(v.string()),
+    contactEmail: v.optional(v.string()),
+    notes: v.optional(v.string()),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_project", ["projectId"])
+    .index("by_org", ["orgId"]),
+};
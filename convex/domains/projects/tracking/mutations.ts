@@ -0,0 +1,225 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT TRACKING MUTATIONS - SRS Layer 4                              │
+│  /convex/domains/projects/tracking/mutations.ts                           │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All mutations accept callerUserId: v.id("admin_users")                 │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Cost entries and budget lines with rank-based authorization:             │
+│  • Captain/Commodore/Admiral only (org-scoped via the project)            │
+│  • Rows inherit the project's orgId                                       │
+│  • One budget line per (project, category) - setBudgetLine upserts        │
+│  • Crew: Read-only access                                                 │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mutation } from "@/convex/_generated/server";
+import type { MutationCtx } from "@/convex/_generated/server";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getWritingUser } from "@/convex/domains/admin/impersonation/model";
+import { getEditableProject } from "@/convex/domains/projects/model";
+import { validateBudgetLine, validateCost } from "@/domains/projects";
+
+const categoryValidator = v.union(
+  v.literal("labor"),
+  v.literal("materials"),
+  v.literal("equipment"),
+  v.literal("services"),
+  v.literal("other")
+);
+
+const statusValidator = v.union(
+  v.literal("estimated"),
+  v.literal("approved"),
+  v.literal("spent")
+);
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (refused while an admiral is viewing as another user)
+ */
+async function getCurrentUserWithRank(ctx: MutationCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getWritingUser(ctx, callerUserId);
+}
+
+/**
+ * Add a cost entry to a project
+ */
+export const createCost = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    projectId: v.id("projects_tracking_Schedule"),
+    name: v.string(),
+    amount: v.number(),
+    currency: v.string(),
+    category: categoryValidator,
+    status: statusValidator,
+    date: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const project = await getEditableProject(ctx, user, args.projectId);
+
+    const currency = args.currency.trim().toUpperCase();
+    const error = validateCost({ name: args.name, amount: args.amount, currency });
+    if (error) throw new Error(error);
+
+    const now = Date.now();
+    const costId = await ctx.db.insert("projects_tracking_Costs", {
+      projectId: project._id,
+      name: args.name.trim(),
+      amount: args.amount,
+      currency,
+      category: args.category,
+      orgId: project.orgId,
+      status: args.status,
+      date: args.date,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, costId };
+  },
+});
+
+/**
+ * Edit a cost entry (e.g. estimated → approved → spent)
+ */
+export const updateCost = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    costId: v.id("projects_tracking_Costs"),
+    name: v.optional(v.string()),
+    amount: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    category: v.optional(categoryValidator),
+    status: v.optional(statusValidator),
+    date: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const cost = await ctx.db.get(args.costId);
+    if (!cost) throw new Error("Cost not found");
+    await getEditableProject(ctx, user, cost.projectId);
+
+    const next = {
+      name: args.name?.trim() ?? cost.name,
+      amount: args.amount ?? cost.amount,
+      currency: args.currency?.trim().toUpperCase() ?? cost.currency,
+    };
+    const error = validateCost(next);
+    if (error) throw new Error(error);
+
+    const updates: Partial<Doc<"projects_tracking_Costs">> = {
+      ...next,
+      updatedAt: Date.now(),
+    };
+    if (args.category !== undefined) updates.category = args.category;
+    if (args.status !== undefined) updates.status = args.status;
+    if (args.date !== undefined) updates.date = args.date;
+
+    await ctx.db.patch(cost._id, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a cost entry
+ */
+export const deleteCost = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    costId: v.id("projects_tracking_Costs"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+
+    const cost = await ctx.db.get(args.costId);
+    if (!cost) throw new Error("Cost not found");
+    await getEditableProject(ctx, user, cost.projectId);
+
+    await ctx.db.delete(cost._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Set the budget for one category of a project (creates or replaces the line)
+ */
+export const setBudgetLine = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    projectId: v.id("projects_tracking_Schedule"),
+    category: categoryValidator,
+    amount: v.number(),
+    currency: v.string(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const project = await getEditableProject(ctx, user, args.projectId);
+
+    const currency = args.currency.trim().toUpperCase();
+    const error = validateBudgetLine({ amount: args.amount, currency });
+    if (error) throw new Error(error);
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("projects_tracking_Budgets")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id).eq("category", args.category))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        amount: args.amount,
+        currency,
+        notes: args.notes?.trim() || undefined,
+        updatedAt: now,
+      });
+      return { success: true, budgetId: existing._id };
+    }
+
+    const budgetId = await ctx.db.insert("projects_tracking_Budgets", {
+      projectId: project._id,
+      category: args.category,
+      amount: args.amount,
+      currency,
+      notes: args.notes?.trim() || undefined,
+      orgId: project.orgId,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: user._id,
+    });
+
+    return { success: true, budgetId };
+  },
+});
+
+/**
+ * Remove the budget line of one category
+ */
+export const removeBudgetLine = mutation({
+  args: {
+    callerUserId: v.id("admin_users"),
+    projectId: v.id("projects_tracking_Schedule"),
+    category: categoryValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const project = await getEditableProject(ctx, user, args.projectId);
+
+    const line = await ctx.db
+      .query("projects_tracking_Budgets")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id).eq("category", args.category))
+      .first();
+    if (line) await ctx.db.delete(line._id);
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,131 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT TRACKING QUERIES - SRS Layer 4                                │
+│  /convex/domains/projects/tracking/queries.ts                             │
+│                                                                           │
+│  🛡️ S.I.D. COMPLIANT - Phase 10                                           │
+│  - All queries accept callerUserId: v.id("admin_users")                   │
+│  - No ctx.auth.getUserIdentity() usage                                    │
+│                                                                           │
+│  Costs and budget-vs-actual for every project the caller can see          │
+│  (same scoping as listProjects):                                          │
+│  • Crew: Assigned projects only                                           │
+│  • Captain/Commodore: Organization-scoped                                 │
+│  • Admiral: All projects (cross-org, platform-wide)                       │
+│                                                                           │
+│  Budgets roll up in the org base currency: costs at the rate on their     │
+│  date, budget lines at today's rate (finance_currency_Rates)              │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { query } from "@/convex/_generated/server";
+import type { QueryCtx } from "@/convex/_generated/server";
+import type { Id } from "@/convex/_generated/dataModel";
+import { v } from "convex/values";
+import { getEffectiveUser } from "@/convex/domains/admin/impersonation/model";
+import { getVisibleProjects } from "@/convex/domains/projects/model";
+import { getBaseCurrency, getOrgRates } from "@/convex/domains/finance/currency/rates";
+import { convertAmount, type FxRate } from "@/lib/currency";
+import { rollupBudget } from "@/domains/projects";
+
+/**
+ * 🛡️ SID Phase 10: Sovereign user lookup by userId
+ * (the impersonated user while an admiral is viewing as them)
+ */
+async function getCurrentUserWithRank(ctx: QueryCtx, callerUserId: Id<"admin_users">) {
+  // 🛡️ SID-5.3: Direct lookup by sovereign _id
+  return await getEffectiveUser(ctx, callerUserId);
+}
+
+/**
+ * List cost entries of every visible project, newest first
+ */
+export const listProjectCosts = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const projects = await getVisibleProjects(ctx, user);
+
+    const costs = [];
+    for (const project of projects) {
+      const rows = await ctx.db
+        .query("projects_tracking_Costs")
+        .withIndex("by_project", (q) => q.eq("projectId", project._id))
+        .collect();
+      costs.push(...rows);
+    }
+
+    return costs.sort((a, b) => b.date - a.date);
+  },
+});
+
+/**
+ * Budget lines and budget-vs-actual rollup per visible project.
+ * Amounts in currencies without a stored rate are excluded and listed in missingRates.
+ */
+export const listProjectBudgets = query({
+  args: { callerUserId: v.id("admin_users") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserWithRank(ctx, args.callerUserId);
+    const projects = await getVisibleProjects(ctx, user);
+
+    // Projects of one org share its base currency and rates
+    const orgCurrency = new Map<string, { baseCurrency: string; rates: FxRate[] }>();
+    const now = Date.now();
+
+    const budgets = [];
+    for (const project of projects) {
+      let orgFx = orgCurrency.get(project.orgId);
+      if (!orgFx) {
+        const { baseCurrency } = await getBaseCurrency(ctx, project.orgId);
+        orgFx = { baseCurrency, rates: await getOrgRates(ctx, project.orgId) };
+        orgCurrency.set(project.orgId, orgFx);
+      }
+      const { baseCurrency, rates } = orgFx;
+
+      const [lines, costs] = await Promise.all([
+        ctx.db
+          .query("projects_tracking_Budgets")
+          .withIndex("by_project", (q) => q.eq("projectId", project._id))
+          .collect(),
+        ctx.db
+          .query("projects_tracking_Costs")
+          .withIndex("by_project", (q) => q.eq("projectId", project._id))
+          .collect(),
+      ]);
+
+      const missing = new Set<string>();
+      const convert = (amount: number, currency: string, date: number) => {
+        const converted = convertAmount(amount, currency, baseCurrency, rates, date);
+        if (converted === null) missing.add(currency);
+        return converted;
+      };
+
+      const rollup = rollupBudget(
+        lines.flatMap((line) => {
+          const amount = convert(line.amount, line.currency, now);
+          return amount === null ? [] : [{ category: line.category, amount }];
+        }),
+        costs.flatMap((cost) => {
+          const amount = convert(cost.amount, cost.currency, cost.date);
+          return amount === null ? [] : [{ category: cost.category, status: cost.status, amount }];
+        })
+      );
+
+      budgets.push({
+        projectId: project._id,
+        baseCurrency,
+        lines: lines.map((line) => ({
+          _id: line._id,
+          category: line.category,
+          amount: line.amount,
+          currency: line.currency,
+          notes: line.notes,
+        })),
+        ...rollup,
+        missingRates: Array.from(missing).sort(),
+        costCount: costs.length,
+      });
+    }
+
+    return budgets;
+  },
+});
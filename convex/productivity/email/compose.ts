@@ -0,0 +1,222 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ✍️ EMAIL COMPOSE - Provider-Routed Send                                  │
+│  /convex/productivity/email/compose.ts                                    │
+│                                                                           │
+│  One delivery path for drafts (draftSync.ts sends now or at the           │
+│  scheduled time). The account picks the transport:                        │
+│  - Outlook: Graph sendMail (saveToSentItems), then a sync picks up the    │
+│    Sent Items copy                                                        │
+│  - Gmail: messages.send with the raw MIME, stored straight from the       │
+│    response (labelIds include SENT)                                       │
+│  - IMAP: SMTP + APPEND to the Sent mailbox (imapSync.sendImapMessage)     │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { internalQuery, type ActionCtx } from '@/convex/_generated/server';
+import { api, internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { COMPOSE_ATTACHMENT_LIMIT_BYTES, base64ByteLength } from '@/domains/email';
+import { ensureFreshGmailToken } from './gmail';
+import { fetchGmailMessages, gmailFetch, gmailHeader } from './gmailHelpers';
+import { refreshAccessToken } from './outlookHelpers';
+import { buildMimeMessage, createMessageId, toBase64Url, type MailAddress, type MailAttachment } from './mime';
+
+const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
+const OUTLOOK_SENT_SYNC_DELAY = 5 * 1000;
+
+export const mailAddressValidator = v.object({ name: v.string(), email: v.string() });
+export const mailAttachmentValidator = v.object({
+  filename: v.string(),
+  contentType: v.string(),
+  contentBase64: v.string(),
+});
+
+export type SendResult = { success: boolean; error?: string };
+
+export type ComposedMail = {
+  to: MailAddress[];
+  cc?: MailAddress[];
+  bcc?: MailAddress[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * The sending account and, for replies, the message replied to
+ * Null when the account is not the user's
+ */
+export const getSendContext = internalQuery({
+  args: {
+    userId: v.id('admin_users'),
+    accountId: v.id('productivity_email_Accounts'),
+    replyToMessageId: v.optional(v.id('productivity_email_Index')),
+  },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account || account.userId !== args.userId) return null;
+    const replyTo = args.replyToMessageId ? await ctx.db.get(args.replyToMessageId) : null;
+    return {
+      provider: account.provider,
+      emailAddress: account.emailAddress,
+      replyTo: replyTo && replyTo.accountId === account._id
+        ? { externalMessageId: replyTo.externalMessageId, externalThreadId: replyTo.externalThreadId }
+        : null,
+    };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRANSPORTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Outlook token for the user, refreshed when it is about to expire */
+export async function outlookAccessToken(ctx: ActionCtx, userId: Id<'admin_users'>): Promise<string | null> {
+  const tokens = await ctx.runQuery(api.productivity.email.outlook.getOutlookTokens, { userId });
+  if (!tokens) return null;
+
+  const now = Date.now();
+  if (tokens.expiresAt >= now + 5 * 60 * 1000 || !tokens.refreshToken) return tokens.accessToken;
+
+  const refreshed = await refreshAccessToken(tokens.refreshToken, process.env.MICROSOFT_CLIENT_ID || '', process.env.MICROSOFT_CLIENT_SECRET || '');
+  if (!refreshed) return null;
+  await ctx.runMutation(api.productivity.email.outlook.storeOutlookTokens, {
+    userId, accessToken: refreshed.accessToken, refreshToken: refreshed.refreshToken,
+    expiresAt: now + refreshed.expiresIn * 1000, scope: '', emailAddress: tokens.emailAddress,
+  });
+  return refreshed.accessToken;
+}
+
+export const graphRecipients = (addresses: MailAddress[] | undefined) =>
+  (addresses ?? []).map((address) => ({ emailAddress: { address: address.email, name: address.name || undefined } }));
+
+/**
+ * Graph sendMail takes one body - the HTML when there is one (Exchange
+ * derives the text part itself), the plain text otherwise
+ * 403 = token granted before Mail.Send was requested; reconnecting fixes it
+ */
+async function sendViaOutlook(ctx: ActionCtx, userId: Id<'admin_users'>, mail: ComposedMail): Promise<SendResult> {
+  const accessToken = await outlookAccessToken(ctx, userId);
+  if (!accessToken) return { success: false, error: 'No Outlook access token' };
+
+  const response = await fetch(`${GRAPH_API_BASE}/me/sendMail`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      message: {
+        subject: mail.subject,
+        body: mail.html ? { contentType: 'HTML', content: mail.html } : { contentType: 'Text', content: mail.text },
+        toRecipients: graphRecipients(mail.to),
+        ccRecipients: graphRecipients(mail.cc),
+        bccRecipients: graphRecipients(mail.bcc),
+        attachments: (mail.attachments ?? []).map((attachment) => ({
+          '@odata.type': '#microsoft.graph.fileAttachment',
+          name: attachment.filename,
+          contentType: attachment.contentType || 'application/octet-stream',
+          contentBytes: attachment.contentBase64,
+        })),
+      },
+      saveToSentItems: true,
+    }),
+  });
+
+  if (response.status === 403) return { success: false, error: 'Reconnect Outlook to allow sending' };
+  if (!response.ok) {
+    console.error('Graph sendMail failed:', await response.text());
+    return { success: false, error: `Graph API error: ${response.status}` };
+  }
+
+  // Sent Items is a synced folder - the copy lands in canonicalFolder "sent".
+  // Exchange files it asynchronously, so give it a moment first
+  await ctx.scheduler.runAfter(OUTLOOK_SENT_SYNC_DELAY, api.productivity.email.outlook.syncOutlookMessages, { userId, isBackground: true });
+  return { success: true };
+}
+
+/** RFC 5322 raw upload; replies stay in the Gmail thread */
+async function sendViaGmail(
+  ctx: ActionCtx,
+  accountId: Id<'productivity_email_Accounts'>,
+  from: MailAddress,
+  mail: ComposedMail,
+  replyTo: { externalMessageId: string; externalThreadId: string } | null
+): Promise<SendResult> {
+  const accessToken = await ensureFreshGmailToken(ctx, accountId);
+  if (!accessToken) return { success: false, error: 'No Gmail access token' };
+
+  // Threading headers come from the original's Message-ID / References
+  let inReplyTo: string | undefined;
+  let references: string[] | undefined;
+  if (replyTo) {
+    const { messages } = await fetchGmailMessages(accessToken, [replyTo.externalMessageId]);
+    inReplyTo = messages[0] ? gmailHeader(messages[0], 'Message-ID') : undefined;
+    const chain = messages[0] ? gmailHeader(messages[0], 'References')?.split(/\s+/).filter(Boolean) ?? [] : [];
+    references = inReplyTo ? [...chain, inReplyTo] : undefined;
+  }
+
+  const raw = buildMimeMessage({ ...mail, from, inReplyTo, references }, createMessageId(from));
+  const response = await gmailFetch(accessToken, '/messages/send', {
+    method: 'POST',
+    body: JSON.stringify({
+      raw: toBase64Url(raw),
+      threadId: replyTo?.externalThreadId,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Gmail send failed:', await response.text());
+    return { success: false, error: `Gmail API error: ${response.status}` };
+  }
+
+  const sent = await response.json() as { id: string };
+  const { messages } = await fetchGmailMessages(accessToken, [sent.id]);
+  if (messages.length > 0) {
+    await ctx.runMutation(internal.productivity.email.gmailStore.storeGmailMessages, { accountId, messages });
+  }
+  return { success: true };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENTRY POINT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type OutgoingDraft = ComposedMail & {
+  userId: Id<'admin_users'>;
+  accountId: Id<'productivity_email_Accounts'>;
+  /** Message replied to or forwarded - keeps the thread together */
+  replyToMessageId?: Id<'productivity_email_Index'>;
+};
+
+/** Validate and hand the message to the account's transport */
+export async function deliverMail(ctx: ActionCtx, outgoing: OutgoingDraft): Promise<SendResult> {
+  const { userId, accountId, replyToMessageId, ...mail } = outgoing;
+  if (mail.to.length + (mail.cc?.length ?? 0) + (mail.bcc?.length ?? 0) === 0) {
+    return { success: false, error: 'Add at least one recipient' };
+  }
+  const attachmentBytes = (mail.attachments ?? []).reduce((sum, a) => sum + base64ByteLength(a.contentBase64), 0);
+  if (attachmentBytes > COMPOSE_ATTACHMENT_LIMIT_BYTES) {
+    return { success: false, error: 'Attachments are over the 3 MB limit' };
+  }
+
+  const context = await ctx.runQuery(internal.productivity.email.compose.getSendContext, { userId, accountId, replyToMessageId });
+  if (!context) return { success: false, error: 'Account not found' };
+
+  try {
+    if (context.provider === 'outlook') return await sendViaOutlook(ctx, userId, mail);
+    if (context.provider === 'gmail') {
+      return await sendViaGmail(ctx, accountId, { name: '', email: context.emailAddress }, mail, context.replyTo);
+    }
+
+    // IMAP keys its threads by the root Message-ID
+    const root = context.replyTo?.externalThreadId;
+    const references = root?.startsWith('<') ? [root] : undefined;
+    return await ctx.runAction(internal.productivity.email.imapSync.sendImapMessage, { accountId, ...mail, references });
+  } catch (error) {
+    console.error(`Send via ${context.provider} failed:`, error);
+    return { success: false, error: String(error) };
+  }
+}
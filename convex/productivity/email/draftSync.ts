@@ -0,0 +1,277 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📝 DRAFT SYNC - Provider Copies, Attachments, Delivery                   │
+│  /convex/productivity/email/draftSync.ts                                  │
+│                                                                           │
+│  Actions behind drafts.ts:                                                │
+│  - Mirror: Outlook draft message (Graph), Gmail drafts resource, IMAP     │
+│    APPEND to the Drafts mailbox (imapActions.saveImapDraft)               │
+│  - Attachments live in Convex storage until the draft is sent             │
+│  - Send now / at the scheduled time through compose.deliverMail           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { action, internalAction, type ActionCtx } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import { COMPOSE_ATTACHMENT_LIMIT_BYTES, base64ByteLength, formatByteSize } from '@/domains/email';
+import { deliverMail, graphRecipients, outlookAccessToken, type SendResult } from './compose';
+import { ensureFreshGmailToken } from './gmail';
+import { gmailFetch } from './gmailHelpers';
+import { buildMimeMessage, bytesToBase64, createMessageId, toBase64Url, type MailAddress } from './mime';
+
+const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
+
+const providerValidator = v.union(v.literal('gmail'), v.literal('outlook'), v.literal('imap'));
+
+type Provider = 'gmail' | 'outlook' | 'imap';
+type LoadedDraft = { draft: Doc<'productivity_email_Drafts'>; provider: Provider; emailAddress: string; replyThreadId?: string };
+type ProviderCopy = { providerDraftId: string; providerMessageId?: string };
+type CopyOwner = { userId: Id<'admin_users'>; accountId: Id<'productivity_email_Accounts'>; provider: Provider };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROVIDER COPIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function graphRequest(accessToken: string, path: string, method: string, body?: unknown): Promise<Response> {
+  return await fetch(`${GRAPH_API_BASE}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** PATCH the existing draft message; one deleted in Outlook is created again */
+async function saveOutlookCopy(ctx: ActionCtx, { draft }: LoadedDraft): Promise<ProviderCopy> {
+  const accessToken = await outlookAccessToken(ctx, draft.userId);
+  if (!accessToken) throw new Error('No Outlook access token');
+  const message = {
+    subject: draft.subject,
+    body: draft.html ? { contentType: 'HTML', content: draft.html } : { contentType: 'Text', content: draft.text },
+    toRecipients: graphRecipients(draft.to),
+    ccRecipients: graphRecipients(draft.cc),
+    bccRecipients: graphRecipients(draft.bcc),
+  };
+
+  if (draft.providerDraftId) {
+    const response = await graphRequest(accessToken, `/me/messages/${encodeURIComponent(draft.providerDraftId)}`, 'PATCH', message);
+    if (response.ok) return { providerDraftId: draft.providerDraftId, providerMessageId: draft.providerDraftId };
+    if (response.status !== 404) throw new Error(`Graph API error: ${response.status}`);
+  }
+
+  const response = await graphRequest(accessToken, '/me/messages', 'POST', message);
+  if (!response.ok) throw new Error(`Graph API error: ${response.status}`);
+  const created = await response.json() as { id: string };
+  return { providerDraftId: created.id, providerMessageId: created.id };
+}
+
+/** drafts.update replaces the message - the synced row changes id each time */
+async function saveGmailCopy(ctx: ActionCtx, loaded: LoadedDraft): Promise<ProviderCopy> {
+  const { draft } = loaded;
+  const accessToken = await ensureFreshGmailToken(ctx, draft.accountId);
+  if (!accessToken) throw new Error('No Gmail access token');
+  const from: MailAddress = { name: '', email: loaded.emailAddress };
+  const mail = { from, to: draft.to, cc: draft.cc, bcc: draft.bcc, subject: draft.subject, text: draft.text, html: draft.html };
+  const raw = buildMimeMessage(mail, createMessageId(from, `draft.${draft._id}`));
+  const body = JSON.stringify({ message: { raw: toBase64Url(raw), threadId: loaded.replyThreadId } });
+
+  let response = draft.providerDraftId
+    ? await gmailFetch(accessToken, `/drafts/${draft.providerDraftId}`, { method: 'PUT', body })
+    : null;
+  if (!response || response.status === 404) response = await gmailFetch(accessToken, '/drafts', { method: 'POST', body });
+  if (!response.ok) throw new Error(`Gmail API error: ${response.status}`);
+
+  const saved = await response.json() as { id: string; message: { id: string } };
+  return { providerDraftId: saved.id, providerMessageId: saved.message.id };
+}
+
+/** The stable Message-ID is the handle - the mailbox key changes with every upload */
+async function saveImapCopy(ctx: ActionCtx, loaded: LoadedDraft): Promise<ProviderCopy> {
+  const { draft } = loaded;
+  const from: MailAddress = { name: '', email: loaded.emailAddress };
+  const messageId = draft.providerDraftId ?? createMessageId(from, `draft.${draft._id}`);
+  const result = await ctx.runAction(internal.productivity.email.imapActions.saveImapDraft, {
+    accountId: draft.accountId, messageId, from,
+    to: draft.to, cc: draft.cc, subject: draft.subject, text: draft.text, html: draft.html,
+  });
+  if (!result.success) throw new Error(result.error ?? 'IMAP draft save failed');
+  return { providerDraftId: messageId, providerMessageId: result.key };
+}
+
+async function deleteCopy(ctx: ActionCtx, owner: CopyOwner, providerDraftId: string): Promise<void> {
+  if (owner.provider === 'outlook') {
+    const accessToken = await outlookAccessToken(ctx, owner.userId);
+    if (!accessToken) throw new Error('No Outlook access token');
+    const response = await graphRequest(accessToken, `/me/messages/${encodeURIComponent(providerDraftId)}`, 'DELETE');
+    if (!response.ok && response.status !== 404) throw new Error(`Graph API error: ${response.status}`);
+  } else if (owner.provider === 'gmail') {
+    const accessToken = await ensureFreshGmailToken(ctx, owner.accountId);
+    if (!accessToken) throw new Error('No Gmail access token');
+    const response = await gmailFetch(accessToken, `/drafts/${providerDraftId}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) throw new Error(`Gmail API error: ${response.status}`);
+  } else {
+    const result = await ctx.runAction(internal.productivity.email.imapActions.deleteImapDraft, {
+      accountId: owner.accountId, messageId: providerDraftId,
+    });
+    if (!result.success) throw new Error(result.error ?? 'IMAP draft delete failed');
+  }
+}
+
+/**
+ * Bring the provider copy in line with the saved draft: upload while it is
+ * a draft, remove it once scheduled. Failures wait for the next save
+ */
+export const mirrorDraft = internalAction({
+  args: { draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args) => {
+    await ctx.runMutation(internal.productivity.email.drafts.clearMirrorJob, args);
+    const loaded = await ctx.runQuery(internal.productivity.email.drafts.getDraft, args);
+    if (!loaded) return;
+    const { draft, provider } = loaded;
+    const owner: CopyOwner = { userId: draft.userId, accountId: draft.accountId, provider };
+
+    try {
+      if (draft.status !== 'draft' && draft.status !== 'failed') {
+        if (!draft.providerDraftId) return;
+        await deleteCopy(ctx, owner, draft.providerDraftId);
+        await ctx.runMutation(internal.productivity.email.drafts.setProviderDraft, args);
+        return;
+      }
+
+      const save = provider === 'outlook' ? saveOutlookCopy : provider === 'gmail' ? saveGmailCopy : saveImapCopy;
+      const copy = await save(ctx, loaded);
+      const kept = await ctx.runMutation(internal.productivity.email.drafts.setProviderDraft, { ...args, ...copy });
+      // Discarded or scheduled while uploading
+      if (!kept) await deleteCopy(ctx, owner, copy.providerDraftId);
+    } catch (error) {
+      console.error(`Draft mirror via ${provider} failed:`, error);
+    }
+  },
+});
+
+export const deleteProviderDraft = internalAction({
+  args: {
+    userId: v.id('admin_users'),
+    accountId: v.id('productivity_email_Accounts'),
+    provider: providerValidator,
+    providerDraftId: v.string(),
+    providerMessageId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    try {
+      await deleteCopy(ctx, args, args.providerDraftId);
+      if (args.providerMessageId) {
+        await ctx.runMutation(internal.productivity.email.drafts.removeIndexedCopy, {
+          accountId: args.accountId, externalMessageId: args.providerMessageId,
+        });
+      }
+    } catch (error) {
+      console.error(`Draft delete via ${args.provider} failed:`, error);
+    }
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ATTACHMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Store a picked file with the draft (the whole message stays under the send budget) */
+export const attachToDraft = action({
+  args: {
+    userId: v.id('admin_users'),
+    draftId: v.id('productivity_email_Drafts'),
+    filename: v.string(),
+    contentType: v.string(),
+    contentBase64: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; storageId?: Id<'_storage'>; error?: string }> => {
+    const loaded = await ctx.runQuery(internal.productivity.email.drafts.getDraft, { draftId: args.draftId });
+    if (!loaded || loaded.draft.userId !== args.userId) return { success: false, error: 'Draft not found' };
+
+    const size = base64ByteLength(args.contentBase64);
+    const attached = loaded.draft.attachments.reduce((sum, a) => sum + a.size, 0);
+    if (attached + size > COMPOSE_ATTACHMENT_LIMIT_BYTES) {
+      return { success: false, error: `Attachments are limited to ${formatByteSize(COMPOSE_ATTACHMENT_LIMIT_BYTES)} per message` };
+    }
+
+    const bytes = base64ToBytes(args.contentBase64);
+    const storageId = await ctx.storage.store(new Blob([bytes.buffer as ArrayBuffer], { type: args.contentType }));
+    const added = await ctx.runMutation(internal.productivity.email.drafts.addDraftAttachment, {
+      userId: args.userId,
+      draftId: args.draftId,
+      attachment: { storageId, filename: args.filename, contentType: args.contentType, size },
+    });
+    if (!added) {
+      await ctx.storage.delete(storageId);
+      return { success: false, error: 'This message is being sent' };
+    }
+    return { success: true, storageId };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DELIVERY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Send a claimed draft and settle its row */
+async function deliverDraft(ctx: ActionCtx, draft: Doc<'productivity_email_Drafts'>): Promise<SendResult> {
+  let result: SendResult;
+  try {
+    const attachments = await Promise.all(draft.attachments.map(async (attachment) => {
+      const blob = await ctx.storage.get(attachment.storageId);
+      if (!blob) throw new Error(`Attachment ${attachment.filename} is missing`);
+      return {
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        contentBase64: bytesToBase64(new Uint8Array(await blob.arrayBuffer())),
+      };
+    }));
+    result = await deliverMail(ctx, {
+      userId: draft.userId,
+      accountId: draft.accountId,
+      replyToMessageId: draft.replyToMessageId,
+      to: draft.to,
+      cc: draft.cc,
+      bcc: draft.bcc,
+      subject: draft.subject,
+      text: draft.text,
+      html: draft.html,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    });
+  } catch (error) {
+    result = { success: false, error: String(error) };
+  }
+
+  await ctx.runMutation(internal.productivity.email.drafts.completeDraft, {
+    draftId: draft._id,
+    error: result.success ? undefined : result.error ?? 'The message was not sent',
+  });
+  return result;
+}
+
+/** "Send" in the composer - also sends a scheduled draft straight away */
+export const sendDraft = action({
+  args: { userId: v.id('admin_users'), draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args): Promise<SendResult> => {
+    const draft = await ctx.runMutation(internal.productivity.email.drafts.claimDraft, { ...args, scheduledOnly: false });
+    if (!draft) return { success: false, error: 'This message was already sent or discarded' };
+    return await deliverDraft(ctx, draft);
+  },
+});
+
+/** Scheduled job - a draft cancelled or already sent is left alone */
+export const deliverScheduledDraft = internalAction({
+  args: { draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args) => {
+    const draft = await ctx.runMutation(internal.productivity.email.drafts.claimDraft, { ...args, scheduledOnly: true });
+    if (!draft) return;
+    const result = await deliverDraft(ctx, draft);
+    if (!result.success) console.error('Scheduled send failed:', result.error);
+  },
+});
@@ -0,0 +1,336 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📝 EMAIL DRAFTS - Auto-Save + Send Later                                 │
+│  /convex/productivity/email/drafts.ts                                     │
+│                                                                           │
+│  Rows of productivity_email_Drafts. The composer saves here; provider     │
+│  uploads and deliveries run in draftSync.ts:                              │
+│  - draft     → mirrored to the provider's drafts folder (debounced)       │
+│  - scheduled → a Convex job delivers it at scheduledFor                   │
+│  - delivered → row deleted, the provider files the message under Sent     │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { internalMutation, internalQuery, mutation, type MutationCtx } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import { DRAFT_MIRROR_DELAY_MS, canEditDraft, scheduleError } from '@/domains/email';
+import { mailAddressValidator } from './compose';
+
+const modeValidator = v.union(v.literal('new'), v.literal('reply'), v.literal('replyAll'), v.literal('forward'));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function getOwnDraft(ctx: MutationCtx, userId: Id<'admin_users'>, draftId: Id<'productivity_email_Drafts'>) {
+  const draft = await ctx.db.get(draftId);
+  if (!draft || draft.userId !== userId) throw new Error('Draft not found');
+  return draft;
+}
+
+/** One pending upload per draft - the job reads whatever is saved when it runs */
+async function queueMirror(ctx: MutationCtx, draft: Pick<Doc<'productivity_email_Drafts'>, '_id' | 'mirrorJobId'>) {
+  if (draft.mirrorJobId) return;
+  const mirrorJobId = await ctx.scheduler.runAfter(
+    DRAFT_MIRROR_DELAY_MS, internal.productivity.email.draftSync.mirrorDraft, { draftId: draft._id }
+  );
+  await ctx.db.patch(draft._id, { mirrorJobId });
+}
+
+/** Remove the provider's copy of a draft that is gone or sent */
+async function dropProviderCopy(ctx: MutationCtx, draft: Doc<'productivity_email_Drafts'>) {
+  if (!draft.providerDraftId) return;
+  const account = await ctx.db.get(draft.accountId);
+  if (!account) return;
+  await ctx.scheduler.runAfter(0, internal.productivity.email.draftSync.deleteProviderDraft, {
+    userId: draft.userId,
+    accountId: draft.accountId,
+    provider: account.provider,
+    providerDraftId: draft.providerDraftId,
+    providerMessageId: draft.providerMessageId,
+  });
+}
+
+/**
+ * Delete a draft with its jobs, attachment blobs and provider copy
+ * Also used when the account is disconnected
+ */
+export async function deleteDraft(ctx: MutationCtx, draft: Doc<'productivity_email_Drafts'>) {
+  if (draft.scheduledJobId) await ctx.scheduler.cancel(draft.scheduledJobId);
+  if (draft.mirrorJobId) await ctx.scheduler.cancel(draft.mirrorJobId);
+  for (const attachment of draft.attachments) {
+    await ctx.storage.delete(attachment.storageId);
+  }
+  await dropProviderCopy(ctx, draft);
+  await ctx.db.delete(draft._id);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPOSER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create or update a draft (composer auto-save)
+ * A scheduled draft keeps its send time - edits go out with it
+ */
+export const saveDraft = mutation({
+  args: {
+    userId: v.id('admin_users'),
+    draftId: v.optional(v.id('productivity_email_Drafts')),
+    accountId: v.id('productivity_email_Accounts'),
+    mode: modeValidator,
+    replyToMessageId: v.optional(v.id('productivity_email_Index')),
+    to: v.array(mailAddressValidator),
+    cc: v.array(mailAddressValidator),
+    bcc: v.array(mailAddressValidator),
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<'productivity_email_Drafts'>> => {
+    const { userId, draftId, ...content } = args;
+    const account = await ctx.db.get(args.accountId);
+    if (!account || account.userId !== userId) throw new Error('Account not found');
+    const now = Date.now();
+
+    if (!draftId) {
+      const id = await ctx.db.insert('productivity_email_Drafts', {
+        userId, ...content, attachments: [], status: 'draft', createdAt: now, updatedAt: now,
+      });
+      await queueMirror(ctx, { _id: id });
+      return id;
+    }
+
+    const draft = await getOwnDraft(ctx, userId, draftId);
+    if (!canEditDraft(draft.status)) throw new Error('This message is being sent');
+
+    // Moving to another account leaves the old account's copy behind
+    const movedAccount = draft.accountId !== args.accountId;
+    if (movedAccount) await dropProviderCopy(ctx, draft);
+
+    await ctx.db.patch(draft._id, {
+      ...content,
+      ...(movedAccount ? { providerDraftId: undefined, providerMessageId: undefined } : {}),
+      status: draft.status === 'failed' ? 'draft' : draft.status,
+      lastError: undefined,
+      updatedAt: now,
+    });
+    if (draft.status !== 'scheduled') await queueMirror(ctx, draft);
+    return draft._id;
+  },
+});
+
+export const discardDraft = mutation({
+  args: { userId: v.id('admin_users'), draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args) => {
+    const draft = await getOwnDraft(ctx, args.userId, args.draftId);
+    if (!canEditDraft(draft.status)) throw new Error('This message is being sent');
+    await deleteDraft(ctx, draft);
+    return { success: true };
+  },
+});
+
+export const removeDraftAttachment = mutation({
+  args: {
+    userId: v.id('admin_users'),
+    draftId: v.id('productivity_email_Drafts'),
+    storageId: v.id('_storage'),
+  },
+  handler: async (ctx, args) => {
+    const draft = await getOwnDraft(ctx, args.userId, args.draftId);
+    if (!draft.attachments.some((a) => a.storageId === args.storageId)) return { success: false };
+    await ctx.storage.delete(args.storageId);
+    await ctx.db.patch(draft._id, {
+      attachments: draft.attachments.filter((a) => a.storageId !== args.storageId),
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEND LATER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schedule (or reschedule) delivery - the draft moves to SCHEDULED and its
+ * provider copy is removed so it cannot be sent twice from the provider
+ */
+export const scheduleDraft = mutation({
+  args: {
+    userId: v.id('admin_users'),
+    draftId: v.id('productivity_email_Drafts'),
+    sendAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const draft = await getOwnDraft(ctx, args.userId, args.draftId);
+    if (!canEditDraft(draft.status)) throw new Error('This message is being sent');
+    const error = scheduleError(args.sendAt, Date.now());
+    if (error) throw new Error(error);
+    if (draft.to.length + draft.cc.length + draft.bcc.length === 0) throw new Error('Add at least one recipient');
+
+    if (draft.scheduledJobId) await ctx.scheduler.cancel(draft.scheduledJobId);
+    const scheduledJobId = await ctx.scheduler.runAt(
+      args.sendAt, internal.productivity.email.draftSync.deliverScheduledDraft, { draftId: draft._id }
+    );
+    await ctx.db.patch(draft._id, {
+      status: 'scheduled', scheduledFor: args.sendAt, scheduledJobId, lastError: undefined, updatedAt: Date.now(),
+    });
+    await queueMirror(ctx, draft);
+    return { success: true };
+  },
+});
+
+/** Back to DRAFTS - nothing is sent */
+export const cancelScheduledDraft = mutation({
+  args: { userId: v.id('admin_users'), draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args) => {
+    const draft = await getOwnDraft(ctx, args.userId, args.draftId);
+    if (draft.status !== 'scheduled') return { success: false };
+    if (draft.scheduledJobId) await ctx.scheduler.cancel(draft.scheduledJobId);
+    await ctx.db.patch(draft._id, {
+      status: 'draft', scheduledFor: undefined, scheduledJobId: undefined, updatedAt: Date.now(),
+    });
+    await queueMirror(ctx, draft);
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DELIVERY + MIRROR (draftSync.ts)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const getDraft = internalQuery({
+  args: { draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args) => {
+    const draft = await ctx.db.get(args.draftId);
+    if (!draft) return null;
+    const account = await ctx.db.get(draft.accountId);
+    if (!account) return null;
+    const replyTo = draft.replyToMessageId ? await ctx.db.get(draft.replyToMessageId) : null;
+    return {
+      draft,
+      provider: account.provider,
+      emailAddress: account.emailAddress,
+      /** Gmail files reply drafts in the original's thread */
+      replyThreadId: replyTo?.accountId === account._id ? replyTo.externalThreadId : undefined,
+    };
+  },
+});
+
+/**
+ * Lock a draft for sending. Null when it was discarded, is already being
+ * sent, or (scheduled deliveries) was cancelled or edited back to a draft
+ */
+export const claimDraft = internalMutation({
+  args: {
+    draftId: v.id('productivity_email_Drafts'),
+    userId: v.optional(v.id('admin_users')),
+    scheduledOnly: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const draft = await ctx.db.get(args.draftId);
+    if (!draft || (args.userId && draft.userId !== args.userId)) return null;
+    if (args.scheduledOnly ? draft.status !== 'scheduled' : !canEditDraft(draft.status)) return null;
+
+    // "Send now" on a scheduled draft replaces its job; the running job must not cancel itself
+    if (!args.scheduledOnly && draft.scheduledJobId) await ctx.scheduler.cancel(draft.scheduledJobId);
+    if (draft.mirrorJobId) await ctx.scheduler.cancel(draft.mirrorJobId);
+    await ctx.db.patch(draft._id, {
+      status: 'sending', scheduledJobId: undefined, mirrorJobId: undefined, lastError: undefined, updatedAt: Date.now(),
+    });
+    return draft;
+  },
+});
+
+/** Delivered → gone (Sent comes from the provider); refused → back to the user */
+export const completeDraft = internalMutation({
+  args: { draftId: v.id('productivity_email_Drafts'), error: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const draft = await ctx.db.get(args.draftId);
+    if (!draft) return;
+    if (args.error) {
+      await ctx.db.patch(draft._id, {
+        status: 'failed', lastError: args.error, scheduledFor: undefined, updatedAt: Date.now(),
+      });
+      return;
+    }
+    await deleteDraft(ctx, draft);
+  },
+});
+
+export const addDraftAttachment = internalMutation({
+  args: {
+    userId: v.id('admin_users'),
+    draftId: v.id('productivity_email_Drafts'),
+    attachment: v.object({
+      storageId: v.id('_storage'),
+      filename: v.string(),
+      contentType: v.string(),
+      size: v.number(),
+    }),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const draft = await ctx.db.get(args.draftId);
+    if (!draft || draft.userId !== args.userId || !canEditDraft(draft.status)) return false;
+    await ctx.db.patch(draft._id, { attachments: [...draft.attachments, args.attachment], updatedAt: Date.now() });
+    return true;
+  },
+});
+
+export const clearMirrorJob = internalMutation({
+  args: { draftId: v.id('productivity_email_Drafts') },
+  handler: async (ctx, args) => {
+    const draft = await ctx.db.get(args.draftId);
+    if (draft?.mirrorJobId) await ctx.db.patch(draft._id, { mirrorJobId: undefined });
+  },
+});
+
+/**
+ * Record the provider copy. False when the draft is gone or no longer a
+ * draft - the caller removes the copy it just made
+ * Gmail replaces the message on every update; the old synced row is dropped
+ */
+export const setProviderDraft = internalMutation({
+  args: {
+    draftId: v.id('productivity_email_Drafts'),
+    providerDraftId: v.optional(v.string()),
+    providerMessageId: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const draft = await ctx.db.get(args.draftId);
+    const isDraft = draft?.status === 'draft' || draft?.status === 'failed';
+    if (!draft || (args.providerDraftId && !isDraft)) return false;
+    if (draft.providerMessageId && draft.providerMessageId !== args.providerMessageId) {
+      await dropIndexedCopy(ctx, draft.accountId, draft.providerMessageId);
+    }
+    await ctx.db.patch(draft._id, { providerDraftId: args.providerDraftId, providerMessageId: args.providerMessageId });
+    return true;
+  },
+});
+
+/** Synced row of a provider draft that was just deleted */
+export const removeIndexedCopy = internalMutation({
+  args: { accountId: v.id('productivity_email_Accounts'), externalMessageId: v.string() },
+  handler: async (ctx, args) => {
+    await dropIndexedCopy(ctx, args.accountId, args.externalMessageId);
+  },
+});
+
+async function dropIndexedCopy(ctx: MutationCtx, accountId: Id<'productivity_email_Accounts'>, externalMessageId: string) {
+  const message = await ctx.db
+    .query('productivity_email_Index')
+    .withIndex('by_external_message_id', (q) => q.eq('externalMessageId', externalMessageId))
+    .filter((q) => q.eq(q.field('accountId'), accountId))
+    .first();
+  if (!message) return;
+  const cacheEntry = await ctx.db
+    .query('productivity_email_BodyCache')
+    .withIndex('by_message', (q) => q.eq('messageId', message.externalMessageId))
+    .first();
+  if (cacheEntry) {
+    await ctx.storage.delete(cacheEntry.storageId);
+    await ctx.db.delete(cacheEntry._id);
+  }
+  await ctx.db.delete(message._id);
+}
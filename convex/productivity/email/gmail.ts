@@ -0,0 +1,267 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📧 GMAIL EMAIL SYNC - Orchestrator                                       │
+│  /convex/productivity/email/gmail.ts                                      │
+│                                                                           │
+│  Entry points + Convex bindings. Gmail REST calls in gmailHelpers,        │
+│  persistence in gmailStore. Keyed by account - a user may connect         │
+│  more than one Gmail address.                                             │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { mutation, internalMutation, internalQuery, internalAction, type ActionCtx } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { requireActiveOrgId } from '@/convex/domains/admin/orgs/model';
+import {
+  fetchGmailLabels,
+  fetchGmailMessages,
+  fetchGmailProfile,
+  listGmailHistory,
+  listGmailMessageIds,
+  refreshGmailAccessToken,
+} from './gmailHelpers';
+
+const PAGE_SIZE = 100;
+/** Phase A depth - newest 5,000 messages; older mail arrives as it changes */
+const MAX_INITIAL_PAGES = 50;
+const LABEL_CACHE_TTL = 60 * 60 * 1000;
+const LOCK_TTL = 5 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOKEN STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const storeGmailTokens = mutation({
+  args: {
+    userId: v.id('admin_users'),
+    accessToken: v.string(),
+    refreshToken: v.optional(v.string()),
+    expiresAt: v.number(),
+    scope: v.string(),
+    emailAddress: v.string(),
+    providerVariant: v.optional(v.union(v.literal('gmail_personal'), v.literal('gmail_workspace'))),
+  },
+  handler: async (ctx, args): Promise<Id<'productivity_email_Accounts'>> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error('User not found');
+
+    const existing = await ctx.db
+      .query('productivity_email_Accounts')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .filter((q) => q.and(q.eq(q.field('provider'), 'gmail'), q.eq(q.field('emailAddress'), args.emailAddress)))
+      .first();
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        accessToken: args.accessToken, refreshToken: args.refreshToken ?? existing.refreshToken,
+        tokenExpiresAt: args.expiresAt, providerVariant: args.providerVariant ?? existing.providerVariant,
+        status: 'active', lastSyncError: undefined, updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert('productivity_email_Accounts', {
+      label: 'Gmail', emailAddress: args.emailAddress, ownerEmail: user.email, provider: 'gmail',
+      providerVariant: args.providerVariant, accessToken: args.accessToken, refreshToken: args.refreshToken,
+      tokenExpiresAt: args.expiresAt, syncFrequency: 5 * 60 * 1000, syncEnabled: true, status: 'active',
+      orgId: requireActiveOrgId(user), userId: user._id, createdAt: now, updatedAt: now, connectedAt: now,
+    });
+  },
+});
+
+export const getGmailAccount = internalQuery({
+  args: { accountId: v.id('productivity_email_Accounts') },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account || account.provider !== 'gmail') return null;
+    return account;
+  },
+});
+
+export const updateGmailTokens = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    accessToken: v.string(),
+    refreshToken: v.string(),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.accountId, {
+      accessToken: args.accessToken, refreshToken: args.refreshToken,
+      tokenExpiresAt: args.expiresAt, updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Access token for an account, refreshed when within 5 minutes of expiry
+ * Returns null when the account is gone or Google refuses the refresh
+ */
+export async function ensureFreshGmailToken(
+  ctx: ActionCtx,
+  accountId: Id<'productivity_email_Accounts'>
+): Promise<string | null> {
+  const account = await ctx.runQuery(internal.productivity.email.gmail.getGmailAccount, { accountId });
+  if (!account?.accessToken) return null;
+
+  const now = Date.now();
+  if (account.tokenExpiresAt && account.tokenExpiresAt >= now + 5 * 60 * 1000) return account.accessToken;
+  if (!account.refreshToken) return null;
+
+  const refreshed = await refreshGmailAccessToken(
+    account.refreshToken, process.env.GOOGLE_CLIENT_ID || '', process.env.GOOGLE_CLIENT_SECRET || ''
+  );
+  if (!refreshed) return null;
+
+  await ctx.runMutation(internal.productivity.email.gmail.updateGmailTokens, {
+    accountId, accessToken: refreshed.accessToken, refreshToken: refreshed.refreshToken,
+    expiresAt: now + refreshed.expiresIn * 1000,
+  });
+  return refreshed.accessToken;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNC LOCK + HISTORY CURSOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const acquireGmailSyncLock = internalMutation({
+  args: { accountId: v.id('productivity_email_Accounts'), isBackground: v.boolean() },
+  handler: async (ctx, args): Promise<{ acquired: boolean; reason?: string }> => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) return { acquired: false, reason: 'Account not found' };
+
+    const now = Date.now();
+    if (account.syncStartedAt && now - account.syncStartedAt < (account.syncLockTTL || LOCK_TTL)) {
+      return { acquired: false, reason: 'Sync already in progress' };
+    }
+
+    await ctx.db.patch(account._id, {
+      syncStartedAt: now, syncLockTTL: LOCK_TTL,
+      isSyncing: !args.isBackground, isBackgroundPolling: args.isBackground,
+    });
+    return { acquired: true };
+  },
+});
+
+/**
+ * Release the lock. On success the history cursor moves to `historyId`.
+ */
+export const releaseGmailSyncLock = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    success: v.boolean(),
+    error: v.optional(v.string()),
+    historyId: v.optional(v.string()),
+    newEmails: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) return;
+
+    const now = Date.now();
+    await ctx.db.patch(account._id, {
+      syncStartedAt: undefined, isSyncing: false, isBackgroundPolling: false,
+      lastSyncAt: args.success ? now : account.lastSyncAt, lastSyncError: args.error, updatedAt: now,
+      ...(args.success && args.historyId ? { gmailHistoryId: args.historyId, initialSyncComplete: true } : {}),
+      ...(args.newEmails ? { newEmailsDetectedAt: now } : {}),
+    });
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNC ENTRY POINTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const triggerGmailSync = mutation({
+  args: { userId: v.id('admin_users'), accountId: v.id('productivity_email_Accounts') },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account || account.userId !== args.userId) throw new Error('Account does not belong to user');
+    await ctx.scheduler.runAfter(0, internal.productivity.email.gmail.syncGmailMessages, { accountId: account._id });
+  },
+});
+
+/**
+ * Main sync action
+ *
+ * Phase A (no history cursor): walk messages.list newest first, then
+ * start the cursor at the historyId read BEFORE listing so nothing is missed.
+ * Phase B: replay history.list since the cursor. An expired cursor (404)
+ * falls back to Phase A in the same run.
+ */
+export const syncGmailMessages = internalAction({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    isBackground: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; messageCount?: number; error?: string; skipped?: boolean }> => {
+    const { accountId } = args;
+    const lock = await ctx.runMutation(internal.productivity.email.gmail.acquireGmailSyncLock, {
+      accountId, isBackground: args.isBackground ?? false,
+    });
+    if (!lock.acquired) return { success: true, skipped: true, error: lock.reason };
+
+    const accessToken = await ensureFreshGmailToken(ctx, accountId);
+    if (!accessToken) {
+      await ctx.runMutation(internal.productivity.email.gmail.releaseGmailSyncLock, { accountId, success: false, error: 'Token refresh failed' });
+      return { success: false, error: 'Not connected to Gmail' };
+    }
+
+    let messageCount = 0;
+    let newEmails = 0;
+    const storeBatch = async (ids: string[]): Promise<string[]> => {
+      const { messages, missing } = await fetchGmailMessages(accessToken, ids);
+      if (messages.length > 0) {
+        const stored = await ctx.runMutation(internal.productivity.email.gmailStore.storeGmailMessages, { accountId, messages });
+        messageCount += messages.length;
+        newEmails += stored.newInbox;
+      }
+      return missing;
+    };
+
+    try {
+      const account = await ctx.runQuery(internal.productivity.email.gmail.getGmailAccount, { accountId });
+      if (Date.now() - (account?.foldersCachedAt ?? 0) > LABEL_CACHE_TTL) {
+        const folders = await fetchGmailLabels(accessToken);
+        await ctx.runMutation(internal.productivity.email.gmailStore.storeGmailLabels, { accountId, folders });
+      }
+
+      const history = account?.initialSyncComplete && account.gmailHistoryId
+        ? await listGmailHistory(accessToken, account.gmailHistoryId)
+        : null;
+
+      let historyId: string;
+      if (history) {
+        console.log(`🅱️ Gmail history: ${history.changedIds.length} changed, ${history.deletedIds.length} deleted`);
+        const gone = [...history.deletedIds];
+        for (let i = 0; i < history.changedIds.length; i += PAGE_SIZE) {
+          gone.push(...await storeBatch(history.changedIds.slice(i, i + PAGE_SIZE)));
+        }
+        if (gone.length > 0) {
+          await ctx.runMutation(internal.productivity.email.gmailStore.removeGmailMessages, { accountId, externalMessageIds: gone });
+        }
+        historyId = history.historyId;
+      } else {
+        console.log('🅰️ Gmail: initial sync starting...');
+        historyId = (await fetchGmailProfile(accessToken)).historyId;
+        let pageToken: string | undefined;
+        let pages = 0;
+        do {
+          const page = await listGmailMessageIds(accessToken, PAGE_SIZE, pageToken);
+          await storeBatch(page.ids);
+          pageToken = page.nextPageToken;
+          pages++;
+        } while (pageToken && pages < MAX_INITIAL_PAGES);
+      }
+
+      await ctx.runMutation(internal.productivity.email.gmail.releaseGmailSyncLock, {
+        accountId, success: true, historyId, newEmails,
+      });
+      return { success: true, messageCount };
+    } catch (error) {
+      await ctx.runMutation(internal.productivity.email.gmail.releaseGmailSyncLock, { accountId, success: false, error: String(error) });
+      return { success: false, error: String(error) };
+    }
+  },
+});
@@ -0,0 +1,147 @@
+// Gmail user actions: trash, archive, mark read/unread
+import { v } from 'convex/values';
+import { internalAction, internalQuery, type ActionCtx } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { ensureFreshGmailToken } from './gmail';
+import { gmailFetch } from './gmailHelpers';
+
+/** batchModify accepts up to 1,000 IDs per call */
+const BATCH_MODIFY_LIMIT = 1000;
+
+export const getGmailMessage = internalQuery({
+  args: {
+    userId: v.id('admin_users'),
+    messageId: v.id('productivity_email_Index'),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return null;
+    const account = await ctx.db.get(message.accountId);
+    if (!account || account.provider !== 'gmail' || account.userId !== args.userId) return null;
+    return { _id: message._id, accountId: account._id, externalMessageId: message.externalMessageId };
+  },
+});
+
+type LabelOperation = 'trash' | 'archive';
+
+/**
+ * Run a label change against Gmail and store the label set it returns
+ * 404 = message already gone from Gmail - the next history sync removes it
+ */
+async function changeLabels(
+  ctx: ActionCtx,
+  userId: Id<'admin_users'>,
+  messageId: Id<'productivity_email_Index'>,
+  operation: LabelOperation
+): Promise<{ success: boolean; error?: string }> {
+  const message = await ctx.runQuery(internal.productivity.email.gmailActions.getGmailMessage, { userId, messageId });
+  if (!message) return { success: false, error: 'Message not found' };
+
+  const accessToken = await ensureFreshGmailToken(ctx, message.accountId);
+  if (!accessToken) return { success: false, error: 'No Gmail access token' };
+
+  try {
+    const response = operation === 'trash'
+      ? await gmailFetch(accessToken, `/messages/${message.externalMessageId}/trash`, { method: 'POST' })
+      : await gmailFetch(accessToken, `/messages/${message.externalMessageId}/modify`, {
+        method: 'POST',
+        body: JSON.stringify({ removeLabelIds: ['INBOX'] }),
+      });
+
+    if (response.status === 404) return { success: true };
+    if (!response.ok) {
+      console.error(`Gmail ${operation} failed:`, await response.text());
+      return { success: false, error: `Gmail API error: ${response.status}` };
+    }
+
+    const updated = await response.json() as { labelIds?: string[] };
+    await ctx.runMutation(internal.productivity.email.gmailStore.applyGmailLabels, {
+      messageId, labelIds: updated.labelIds ?? [],
+    });
+    return { success: true };
+  } catch (error) {
+    console.error(`Gmail ${operation} error:`, error);
+    return { success: false, error: String(error) };
+  }
+}
+
+export const trashGmailMessage = internalAction({
+  args: { userId: v.id('admin_users'), messageId: v.id('productivity_email_Index') },
+  handler: async (ctx, args): Promise<{ success: boolean; error?: string }> =>
+    changeLabels(ctx, args.userId, args.messageId, 'trash'),
+});
+
+export const archiveGmailMessage = internalAction({
+  args: { userId: v.id('admin_users'), messageId: v.id('productivity_email_Index') },
+  handler: async (ctx, args): Promise<{ success: boolean; error?: string }> =>
+    changeLabels(ctx, args.userId, args.messageId, 'archive'),
+});
+
+/**
+ * Push read/unread to Gmail for messages already updated in Convex
+ * Same result shape as batchMarkOutlookReadStatus so callers can merge them
+ */
+export const batchMarkGmailReadStatus = internalAction({
+  args: {
+    userId: v.id('admin_users'),
+    messageIds: v.array(v.id('productivity_email_Index')),
+    isRead: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; processed: number; failed: number; skipped: number; hadRateLimiting: boolean; errors?: string[] }> => {
+    const messages = await Promise.all(args.messageIds.map((messageId) =>
+      ctx.runQuery(internal.productivity.email.gmailActions.getGmailMessage, { userId: args.userId, messageId })
+    ));
+    const valid = messages.filter((m): m is NonNullable<typeof m> => m !== null);
+    const skipped = args.messageIds.length - valid.length;
+
+    const byAccount = new Map<string, typeof valid>();
+    for (const message of valid) {
+      byAccount.set(message.accountId, [...(byAccount.get(message.accountId) ?? []), message]);
+    }
+
+    let processed = 0;
+    let failed = 0;
+    const errors: string[] = [];
+    const labels = args.isRead ? { removeLabelIds: ['UNREAD'] } : { addLabelIds: ['UNREAD'] };
+
+    for (const group of byAccount.values()) {
+      const accessToken = await ensureFreshGmailToken(ctx, group[0].accountId);
+      if (!accessToken) {
+        failed += group.length;
+        errors.push('Token refresh failed');
+        continue;
+      }
+
+      for (let i = 0; i < group.length; i += BATCH_MODIFY_LIMIT) {
+        const chunk = group.slice(i, i + BATCH_MODIFY_LIMIT);
+        try {
+          const response = await gmailFetch(accessToken, '/messages/batchModify', {
+            method: 'POST',
+            body: JSON.stringify({ ids: chunk.map((m) => m.externalMessageId), ...labels }),
+          });
+          if (response.ok) {
+            processed += chunk.length;
+          } else {
+            failed += chunk.length;
+            errors.push(`${response.status}: batchModify`);
+          }
+        } catch (error) {
+          failed += chunk.length;
+          errors.push(String(error));
+        }
+      }
+    }
+
+    console.log(`📦 Gmail read sync: ${processed} ok, ${failed} failed, ${skipped} skipped`);
+    return {
+      success: failed === 0,
+      processed,
+      failed,
+      skipped,
+      // gmailFetch already backed off on 429 - nothing left for the caller to reconcile
+      hadRateLimiting: false,
+      errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+    };
+  },
+});
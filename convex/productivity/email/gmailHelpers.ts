@@ -0,0 +1,317 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔧 GMAIL HELPERS - Pure Functions (No Convex)                            │
+│  /convex/productivity/email/gmailHelpers.ts                               │
+│                                                                           │
+│  Token refresh, Gmail REST calls, header parsing - no Convex bindings     │
+│  Importable from actions and mutations without circular deps              │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { CanonicalFolder, GmailFolderMap, mapGmailFolder } from '@/domains/email';
+
+const GMAIL_API = 'https://gmail.googleapis.com/gmail/v1/users/me';
+
+export const GMAIL_SCOPES = [
+  'https://www.googleapis.com/auth/gmail.modify',
+  'openid',
+  'email',
+].join(' ');
+
+/** Headers requested with format=metadata - enough to build an index row */
+const METADATA_HEADERS = ['From', 'To', 'Cc', 'Subject', 'Date', 'Content-Type', 'Message-ID', 'References'];
+
+/** messages.get is one request per message - keep parallelism polite */
+const FETCH_CONCURRENCY = 10;
+const MAX_RETRIES = 3;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type GmailMessage = {
+  id: string;
+  threadId: string;
+  labelIds?: string[];
+  snippet?: string;
+  internalDate?: string;
+  payload?: {
+    mimeType?: string;
+    headers?: Array<{ name: string; value: string }>;
+  };
+};
+
+export type GmailLabelFolder = {
+  externalFolderId: string;
+  displayName: string;
+  canonicalFolder: string;
+  parentFolderId?: string;
+  childFolderCount: number;
+};
+
+export type GmailHistoryChanges = {
+  changedIds: string[];
+  deletedIds: string[];
+  historyId: string;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOKEN REFRESH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Refresh access token using Google OAuth
+ * Google only returns a new refresh token when it rotates one - keep the old otherwise
+ */
+export async function refreshGmailAccessToken(
+  refreshToken: string,
+  clientId: string,
+  clientSecret: string
+): Promise<{ accessToken: string; refreshToken: string; expiresIn: number } | null> {
+  try {
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        refresh_token: refreshToken,
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Gmail token refresh failed:', await response.text());
+      return null;
+    }
+
+    const data = await response.json() as { access_token: string; refresh_token?: string; expires_in: number };
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || refreshToken,
+      expiresIn: data.expires_in,
+    };
+  } catch (error) {
+    console.error('Gmail token refresh error:', error);
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REST TRANSPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Call the Gmail API, retrying 429 and 5xx with backoff (Retry-After when given)
+ */
+export async function gmailFetch(accessToken: string, path: string, init?: RequestInit, attempt = 1): Promise<Response> {
+  const response = await fetch(`${GMAIL_API}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+
+  if ((response.status === 429 || response.status >= 500) && attempt <= MAX_RETRIES) {
+    const retryAfter = response.headers.get('Retry-After');
+    const delay = retryAfter ? parseInt(retryAfter) * 1000 : Math.pow(2, attempt) * 500;
+    console.log(`⏳ Gmail ${response.status}, retry ${attempt}/${MAX_RETRIES} in ${delay}ms`);
+    await new Promise(r => setTimeout(r, delay));
+    return gmailFetch(accessToken, path, init, attempt + 1);
+  }
+
+  return response;
+}
+
+async function gmailJson<T>(accessToken: string, path: string, init?: RequestInit): Promise<T> {
+  const response = await gmailFetch(accessToken, path, init);
+  if (!response.ok) {
+    throw new Error(`Gmail API ${response.status} on ${path.split('?')[0]}`);
+  }
+  return await response.json() as T;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROFILE + LABELS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function fetchGmailProfile(accessToken: string): Promise<{ emailAddress: string; historyId: string }> {
+  return gmailJson(accessToken, '/profile');
+}
+
+/**
+ * Fetch labels as folder rows
+ *
+ * Stored: system labels that are folders (INBOX, SENT, DRAFT, SPAM, TRASH...)
+ * and user labels. State labels (UNREAD, STARRED) and categories are not folders.
+ * Nested user labels ("Clients/Acme") hang off their parent label.
+ */
+export async function fetchGmailLabels(accessToken: string): Promise<GmailLabelFolder[]> {
+  const data = await gmailJson<{ labels?: Array<{ id: string; name: string; type: 'system' | 'user' }> }>(
+    accessToken, '/labels'
+  );
+  const labels = (data.labels ?? []).filter((label) =>
+    label.type === 'user' || (label.id in GmailFolderMap && GmailFolderMap[label.id] !== CanonicalFolder.SYSTEM)
+  );
+
+  const idByName = new Map(labels.map((label) => [label.name, label.id]));
+  const parentOf = (name: string) => {
+    const slash = name.lastIndexOf('/');
+    return slash > 0 ? idByName.get(name.slice(0, slash)) : undefined;
+  };
+
+  return labels.map((label) => ({
+    externalFolderId: label.id,
+    displayName: label.type === 'user' ? label.name.slice(label.name.lastIndexOf('/') + 1) : label.name,
+    canonicalFolder: mapGmailFolder([label.id]),
+    parentFolderId: label.type === 'user' ? parentOf(label.name) : undefined,
+    childFolderCount: labels.filter((child) => child.type === 'user' && parentOf(child.name) === label.id).length,
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One page of message IDs, newest first (spam and trash included so they map)
+ */
+export async function listGmailMessageIds(
+  accessToken: string,
+  pageSize: number,
+  pageToken?: string
+): Promise<{ ids: string[]; nextPageToken?: string }> {
+  const params = new URLSearchParams({ maxResults: String(pageSize), includeSpamTrash: 'true' });
+  if (pageToken) params.set('pageToken', pageToken);
+  const data = await gmailJson<{ messages?: Array<{ id: string }>; nextPageToken?: string }>(
+    accessToken, `/messages?${params}`
+  );
+  return { ids: (data.messages ?? []).map((m) => m.id), nextPageToken: data.nextPageToken };
+}
+
+/**
+ * Message IDs matching a Gmail search (`q`), best matches first
+ */
+export async function searchGmailMessageIds(accessToken: string, q: string, maxResults: number): Promise<string[]> {
+  const params = new URLSearchParams({ q, maxResults: String(maxResults), includeSpamTrash: 'true' });
+  const data = await gmailJson<{ messages?: Array<{ id: string }> }>(accessToken, `/messages?${params}`);
+  return (data.messages ?? []).map((m) => m.id);
+}
+
+/**
+ * Fetch metadata for a set of messages
+ * Messages gone since they were listed come back in `missing`
+ */
+export async function fetchGmailMessages(
+  accessToken: string,
+  ids: string[]
+): Promise<{ messages: GmailMessage[]; missing: string[] }> {
+  const params = new URLSearchParams({ format: 'metadata' });
+  for (const header of METADATA_HEADERS) params.append('metadataHeaders', header);
+
+  const messages: GmailMessage[] = [];
+  const missing: string[] = [];
+
+  for (let i = 0; i < ids.length; i += FETCH_CONCURRENCY) {
+    await Promise.all(ids.slice(i, i + FETCH_CONCURRENCY).map(async (id) => {
+      const response = await gmailFetch(accessToken, `/messages/${id}?${params}`);
+      if (response.status === 404) {
+        missing.push(id);
+        return;
+      }
+      if (!response.ok) throw new Error(`Gmail API ${response.status} fetching message`);
+      messages.push(await response.json() as GmailMessage);
+    }));
+  }
+
+  return { messages, missing };
+}
+
+/**
+ * Everything that changed since `startHistoryId`
+ *
+ * Returns null when Google no longer has that history (404) - the caller
+ * must fall back to a full sync.
+ */
+export async function listGmailHistory(accessToken: string, startHistoryId: string): Promise<GmailHistoryChanges | null> {
+  type HistoryRecord = {
+    messagesAdded?: Array<{ message: { id: string } }>;
+    messagesDeleted?: Array<{ message: { id: string } }>;
+    labelsAdded?: Array<{ message: { id: string } }>;
+    labelsRemoved?: Array<{ message: { id: string } }>;
+  };
+
+  const changed = new Set<string>();
+  const deleted = new Set<string>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ startHistoryId, maxResults: '500' });
+    for (const type of ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved']) params.append('historyTypes', type);
+    if (pageToken) params.set('pageToken', pageToken);
+
+    const response = await gmailFetch(accessToken, `/history?${params}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Gmail history failed: ${response.status}`);
+
+    const data = await response.json() as { history?: HistoryRecord[]; historyId: string; nextPageToken?: string };
+    for (const record of data.history ?? []) {
+      for (const entry of [...(record.messagesAdded ?? []), ...(record.labelsAdded ?? []), ...(record.labelsRemoved ?? [])]) {
+        changed.add(entry.message.id);
+      }
+      for (const entry of record.messagesDeleted ?? []) deleted.add(entry.message.id);
+    }
+    historyId = data.historyId;
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return {
+    changedIds: [...changed].filter((id) => !deleted.has(id)),
+    deletedIds: [...deleted],
+    historyId,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HEADER PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function gmailHeader(message: GmailMessage, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return message.payload?.headers?.find((h) => h.name.toLowerCase() === lower)?.value;
+}
+
+/**
+ * Parse an address header ('"Doe, Jane" <jane@x.com>, bob@y.com')
+ * Commas inside quotes or angle brackets do not split
+ */
+export function parseAddressList(value: string | undefined): Array<{ name: string; email: string }> {
+  if (!value) return [];
+
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '<' && !inQuotes) inAngle = true;
+    else if (char === '>' && !inQuotes) inAngle = false;
+    if (char === ',' && !inQuotes && !inAngle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^(.*)<([^>]+)>$/);
+      if (!match) return { name: '', email: part.toLowerCase() };
+      return { name: match[1].trim().replace(/^"|"$/g, ''), email: match[2].trim().toLowerCase() };
+    });
+}
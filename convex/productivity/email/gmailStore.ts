@@ -0,0 +1,241 @@
+/**
+ * Gmail Persistence Layer
+ *
+ * Label and message storage mutations.
+ * Called by the Gmail sync orchestrator and actions, never contains Gmail API calls.
+ */
+
+import { v } from 'convex/values';
+import { internalMutation, type MutationCtx } from '@/convex/_generated/server';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import { CanonicalFolder, mapGmailMessage } from '@/domains/email';
+import { gmailHeader, parseAddressList, type GmailMessage } from './gmailHelpers';
+
+/** The system label that places a message in each canonical folder */
+const FOLDER_LABELS: Partial<Record<string, string>> = {
+  [CanonicalFolder.INBOX]: 'INBOX',
+  [CanonicalFolder.SENT]: 'SENT',
+  [CanonicalFolder.DRAFTS]: 'DRAFT',
+  [CanonicalFolder.SPAM]: 'SPAM',
+  [CanonicalFolder.TRASH]: 'TRASH',
+  [CanonicalFolder.SCHEDULED]: 'SCHEDULED',
+};
+
+/**
+ * Canonical fields for a label set
+ * Archived mail (no folder label) files under its first user label, if any
+ */
+function labelFields(labelIds: string[], labelNames: Map<string, string>) {
+  const mapping = mapGmailMessage(labelIds);
+  const providerFolderId = FOLDER_LABELS[mapping.canonicalFolder] ?? mapping.providerLabels[0];
+  return {
+    isRead: !labelIds.includes('UNREAD'),
+    canonicalFolder: mapping.canonicalFolder as string,
+    canonicalStates: mapping.canonicalStates as string[],
+    providerFolderId,
+    providerFolderName: providerFolderId ? labelNames.get(providerFolderId) ?? providerFolderId : undefined,
+    providerLabels: mapping.providerLabels.length > 0 ? mapping.providerLabels : undefined,
+    providerCategories: mapping.providerCategories.length > 0 ? mapping.providerCategories : undefined,
+  };
+}
+
+async function getLabelNames(ctx: MutationCtx, accountId: Id<'productivity_email_Accounts'>) {
+  const folders = await ctx.db
+    .query('productivity_email_Folders')
+    .withIndex('by_account', (q) => q.eq('accountId', accountId))
+    .collect();
+  return new Map(folders.map((f) => [f.externalFolderId, f.displayName]));
+}
+
+async function findMessage(ctx: MutationCtx, accountId: Id<'productivity_email_Accounts'>, externalMessageId: string) {
+  return await ctx.db
+    .query('productivity_email_Index')
+    .withIndex('by_external_message_id', (q) => q.eq('externalMessageId', externalMessageId))
+    .filter((q) => q.eq(q.field('accountId'), accountId))
+    .first();
+}
+
+async function deleteMessage(ctx: MutationCtx, message: Doc<'productivity_email_Index'>) {
+  const cacheEntry = await ctx.db
+    .query('productivity_email_BodyCache')
+    .withIndex('by_message', (q) => q.eq('messageId', message.externalMessageId))
+    .first();
+  if (cacheEntry) {
+    await ctx.storage.delete(cacheEntry.storageId);
+    await ctx.db.delete(cacheEntry._id);
+  }
+  await ctx.db.delete(message._id);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGE STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const storeGmailMessages = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    messages: v.array(v.any()),
+  },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) throw new Error('Gmail account not found');
+
+    const labelNames = await getLabelNames(ctx, account._id);
+    const now = Date.now();
+    let messagesStored = 0;
+    let messagesUpdated = 0;
+    let newInbox = 0;
+
+    for (const message of args.messages as GmailMessage[]) {
+      const fields = labelFields(message.labelIds ?? [], labelNames);
+      const existing = await findMessage(ctx, account._id, message.id);
+
+      // Labels are the only mutable part of a Gmail message
+      if (existing) {
+        const changed = existing.isRead !== fields.isRead
+          || existing.canonicalFolder !== fields.canonicalFolder
+          || (existing.canonicalStates ?? []).join() !== fields.canonicalStates.join()
+          || (existing.providerLabels ?? []).join() !== (fields.providerLabels ?? []).join();
+        if (changed) {
+          await ctx.db.patch(existing._id, { ...fields, updatedAt: now });
+          messagesUpdated++;
+        }
+        continue;
+      }
+
+      const from = parseAddressList(gmailHeader(message, 'From'))[0] ?? { name: '', email: '' };
+      const cc = parseAddressList(gmailHeader(message, 'Cc'));
+      const isFromMe = from.email === account.emailAddress.toLowerCase();
+      let resolutionState: 'awaiting_me' | 'awaiting_them' | 'resolved' | 'none' = 'none';
+      if (!fields.isRead && !isFromMe) resolutionState = 'awaiting_me';
+      else if (isFromMe) resolutionState = 'awaiting_them';
+
+      await ctx.db.insert('productivity_email_Index', {
+        externalMessageId: message.id,
+        externalThreadId: message.threadId,
+        subject: gmailHeader(message, 'Subject') || '(No subject)',
+        snippet: message.snippet || '',
+        from,
+        to: parseAddressList(gmailHeader(message, 'To')),
+        cc: cc.length > 0 ? cc : undefined,
+        receivedAt: Number(message.internalDate) || now,
+        // Metadata format has no parts - multipart/mixed is how attachments travel
+        hasAttachments: /multipart\/mixed/i.test(gmailHeader(message, 'Content-Type') ?? message.payload?.mimeType ?? ''),
+        accountId: account._id,
+        ownerEmail: account.emailAddress,
+        resolutionState,
+        ...fields,
+        assetsProcessed: false,
+        assetCount: 0,
+        orgId: account.orgId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      messagesStored++;
+      if (fields.canonicalFolder === CanonicalFolder.INBOX && !fields.isRead) newInbox++;
+    }
+
+    if (messagesStored > 0 || messagesUpdated > 0) {
+      console.log(`Gmail: stored ${messagesStored}, relabelled ${messagesUpdated}`);
+    }
+    return { messagesStored, messagesUpdated, newInbox };
+  },
+});
+
+export const removeGmailMessages = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    externalMessageIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    let deleted = 0;
+    for (const externalMessageId of args.externalMessageIds) {
+      const existing = await findMessage(ctx, args.accountId, externalMessageId);
+      if (!existing) continue;
+      await deleteMessage(ctx, existing);
+      deleted++;
+    }
+    if (deleted > 0) console.log(`Gmail: removed ${deleted} deleted messages`);
+    return { deleted };
+  },
+});
+
+/**
+ * Apply the label set Gmail returned from modify/trash to our row
+ */
+export const applyGmailLabels = internalMutation({
+  args: {
+    messageId: v.id('productivity_email_Index'),
+    labelIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return { success: false };
+    const labelNames = await getLabelNames(ctx, message.accountId);
+    await ctx.db.patch(message._id, { ...labelFields(args.labelIds, labelNames), updatedAt: Date.now() });
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LABEL STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const storeGmailLabels = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    folders: v.array(v.object({
+      externalFolderId: v.string(),
+      displayName: v.string(),
+      canonicalFolder: v.string(),
+      parentFolderId: v.optional(v.string()),
+      childFolderCount: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) throw new Error('Gmail account not found');
+
+    const now = Date.now();
+    const local = await ctx.db
+      .query('productivity_email_Folders')
+      .withIndex('by_account', (q) => q.eq('accountId', account._id))
+      .collect();
+    const localById = new Map(local.map((f) => [f.externalFolderId, f]));
+    let created = 0;
+    let updated = 0;
+
+    for (const folder of args.folders) {
+      const existing = localById.get(folder.externalFolderId);
+      if (existing) {
+        await ctx.db.patch(existing._id, { ...folder, updatedAt: now });
+        updated++;
+      } else {
+        await ctx.db.insert('productivity_email_Folders', {
+          ...folder,
+          accountId: account._id,
+          provider: 'gmail',
+          ownerEmail: account.emailAddress,
+          createdAt: now,
+          updatedAt: now,
+        });
+        created++;
+      }
+    }
+
+    // RECONCILIATION: Gmail is the source of truth - labels gone there go here
+    const incoming = new Set(args.folders.map((f) => f.externalFolderId));
+    let deleted = 0;
+    for (const folder of local) {
+      if (!incoming.has(folder.externalFolderId)) {
+        await ctx.db.delete(folder._id);
+        deleted++;
+      }
+    }
+
+    await ctx.db.patch(account._id, { foldersCachedAt: now });
+    console.log(`Gmail labels: ${created} created, ${updated} updated, ${deleted} reconciled`);
+    return { created, updated, deleted };
+  },
+});
@@ -0,0 +1,162 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📧 IMAP ACCOUNTS - Credentials + Sync Lock                               │
+│  /convex/productivity/email/imap.ts                                       │
+│                                                                           │
+│  Socket work runs in the Node actions (imapSync, imapActions); this file  │
+│  holds the Convex side. Keyed by account - passwords arrive sealed        │
+│  (imapSecrets) and never leave the internal functions.                    │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { internalMutation, internalQuery } from '@/convex/_generated/server';
+import type { Id } from '@/convex/_generated/dataModel';
+import { requireActiveOrgId } from '@/convex/domains/admin/orgs/model';
+
+const LOCK_TTL = 5 * 60 * 1000;
+
+/** Marks a mailPassword sealed by imapSecrets ("v1:<iv>:<ciphertext + tag>") */
+export const SEALED_PASSWORD_PREFIX = 'v1:';
+
+const securityValidator = v.union(v.literal('tls'), v.literal('starttls'), v.literal('none'));
+
+export const mailServerValidator = v.object({
+  imap: v.object({ host: v.string(), port: v.number(), security: securityValidator }),
+  smtp: v.object({ host: v.string(), port: v.number(), security: securityValidator }),
+  username: v.string(),
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCOUNT STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create or update an IMAP account - only called once the login was verified
+ * The password comes in sealed; this runtime never sees it in clear
+ */
+export const storeImapAccount = internalMutation({
+  args: {
+    userId: v.id('admin_users'),
+    emailAddress: v.string(),
+    label: v.optional(v.string()),
+    mailServer: mailServerValidator,
+    sealedPassword: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<'productivity_email_Accounts'>> => {
+    if (!args.sealedPassword.startsWith(SEALED_PASSWORD_PREFIX)) throw new Error('IMAP password must be sealed');
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error('User not found');
+
+    const emailAddress = args.emailAddress.trim().toLowerCase();
+    const existing = await ctx.db
+      .query('productivity_email_Accounts')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .filter((q) => q.and(q.eq(q.field('provider'), 'imap'), q.eq(q.field('emailAddress'), emailAddress)))
+      .first();
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        label: args.label || existing.label, mailServer: args.mailServer, mailPassword: args.sealedPassword,
+        status: 'active', lastSyncError: undefined, updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert('productivity_email_Accounts', {
+      label: args.label || 'IMAP', emailAddress, ownerEmail: user.email, provider: 'imap',
+      mailServer: args.mailServer, mailPassword: args.sealedPassword,
+      syncFrequency: 5 * 60 * 1000, syncEnabled: true, status: 'active',
+      orgId: requireActiveOrgId(user), userId: user._id, createdAt: now, updatedAt: now, connectedAt: now,
+    });
+  },
+});
+
+export const getImapAccount = internalQuery({
+  args: { accountId: v.id('productivity_email_Accounts') },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account || account.provider !== 'imap' || !account.mailServer || !account.mailPassword) return null;
+    return {
+      _id: account._id,
+      userId: account.userId,
+      emailAddress: account.emailAddress,
+      label: account.label,
+      mailServer: account.mailServer,
+      sealedPassword: account.mailPassword,
+    };
+  },
+});
+
+/** IMAP accounts whose password predates sealing (imapSecrets:sealStoredPasswords) */
+export const listUnsealedPasswords = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const accounts = await ctx.db
+      .query('productivity_email_Accounts')
+      .filter((q) => q.eq(q.field('provider'), 'imap'))
+      .collect();
+    return accounts.flatMap((account) =>
+      account.mailPassword && !account.mailPassword.startsWith(SEALED_PASSWORD_PREFIX)
+        ? [{ _id: account._id, mailPassword: account.mailPassword }]
+        : []
+    );
+  },
+});
+
+/** Swap in the sealed password - skipped if the user reconnected meanwhile */
+export const replaceMailPassword = internalMutation({
+  args: { accountId: v.id('productivity_email_Accounts'), expected: v.string(), mailPassword: v.string() },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (account?.mailPassword !== args.expected) return;
+    await ctx.db.patch(account._id, { mailPassword: args.mailPassword });
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNC LOCK
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const acquireImapSyncLock = internalMutation({
+  args: { accountId: v.id('productivity_email_Accounts'), isBackground: v.boolean() },
+  handler: async (ctx, args): Promise<{ acquired: boolean; reason?: string }> => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) return { acquired: false, reason: 'Account not found' };
+
+    const now = Date.now();
+    if (account.syncStartedAt && now - account.syncStartedAt < (account.syncLockTTL || LOCK_TTL)) {
+      return { acquired: false, reason: 'Sync already in progress' };
+    }
+
+    await ctx.db.patch(account._id, {
+      syncStartedAt: now, syncLockTTL: LOCK_TTL,
+      isSyncing: !args.isBackground, isBackgroundPolling: args.isBackground,
+    });
+    return { acquired: true };
+  },
+});
+
+/**
+ * Release the lock. Per-mailbox cursors (UIDVALIDITY/UIDNEXT) are saved as
+ * each mailbox finishes, so a failed run only repeats the unfinished ones.
+ */
+export const releaseImapSyncLock = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    success: v.boolean(),
+    error: v.optional(v.string()),
+    newEmails: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) return;
+
+    const now = Date.now();
+    await ctx.db.patch(account._id, {
+      syncStartedAt: undefined, isSyncing: false, isBackgroundPolling: false,
+      lastSyncAt: args.success ? now : account.lastSyncAt, lastSyncError: args.error, updatedAt: now,
+      ...(args.success ? { initialSyncComplete: true } : {}),
+      ...(args.newEmails ? { newEmailsDetectedAt: now } : {}),
+    });
+  },
+});
@@ -0,0 +1,206 @@
+'use node';
+// IMAP user actions: trash, archive, mark read/unread, drafts (Node runtime - sockets)
+import { v } from 'convex/values';
+import { internalAction, type ActionCtx } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { CanonicalFolder } from '@/domains/email';
+import { ImapSession } from './imapClient';
+import { findSpecialMailbox, imapMessageKey, quoteImapString } from './imapProtocol';
+import { mailAddressValidator } from './compose';
+import { buildMimeMessage } from './mime';
+import { openPassword } from './imapSecrets';
+
+type ImapTarget = NonNullable<Awaited<ReturnType<typeof loadMessage>>>;
+
+async function loadMessage(ctx: ActionCtx, userId: Id<'admin_users'>, messageId: Id<'productivity_email_Index'>) {
+  return await ctx.runQuery(internal.productivity.email.imapStore.getImapMessage, { userId, messageId });
+}
+
+/** Open a session for the message's account, run `work`, always log out */
+async function withSession<T>(ctx: ActionCtx, accountId: Id<'productivity_email_Accounts'>, work: (session: ImapSession) => Promise<T>): Promise<T> {
+  const account = await ctx.runQuery(internal.productivity.email.imap.getImapAccount, { accountId });
+  if (!account) throw new Error('IMAP account not found');
+  const session = await ImapSession.connect(account.mailServer.imap, {
+    username: account.mailServer.username, password: openPassword(account.sealedPassword),
+  });
+  try {
+    return await work(session);
+  } finally {
+    await session.logout();
+  }
+}
+
+/**
+ * Move a message to the account's Trash/Archive mailbox
+ * With UIDPLUS the row takes its new UID straight away; otherwise the next
+ * sync replaces it
+ */
+async function moveTo(
+  ctx: ActionCtx,
+  userId: Id<'admin_users'>,
+  messageId: Id<'productivity_email_Index'>,
+  folder: CanonicalFolder.TRASH | CanonicalFolder.ARCHIVE
+): Promise<{ success: boolean; error?: string }> {
+  const message = await loadMessage(ctx, userId, messageId);
+  if (!message) return { success: false, error: 'Message not found' };
+
+  try {
+    const moved = await withSession(ctx, message.accountId, async (session) => {
+      const destination = findSpecialMailbox(await session.list(), folder);
+      if (!destination) return null;
+      if (destination === message.mailbox) return { destination, key: undefined };
+
+      const status = await session.open(message.mailbox, false);
+      // UIDVALIDITY changed under us - the UID points at nothing; the next sync rebuilds the mailbox
+      if (status.uidValidity !== message.uidValidity) return { destination, key: undefined };
+      const result = await session.move([message.uid], destination);
+      const newUid = result.uids.get(message.uid);
+      return { destination, key: newUid && result.uidValidity ? imapMessageKey(destination, result.uidValidity, newUid) : undefined };
+    });
+
+    if (!moved) return { success: false, error: `No ${folder} mailbox on this server` };
+    await ctx.runMutation(internal.productivity.email.imapStore.applyImapMove, {
+      messageId, mailbox: moved.destination, externalMessageId: moved.key,
+    });
+    return { success: true };
+  } catch (error) {
+    console.error(`IMAP ${folder} failed:`, error);
+    return { success: false, error: String(error) };
+  }
+}
+
+export const trashImapMessage = internalAction({
+  args: { userId: v.id('admin_users'), messageId: v.id('productivity_email_Index') },
+  handler: async (ctx, args): Promise<{ success: boolean; error?: string }> =>
+    moveTo(ctx, args.userId, args.messageId, CanonicalFolder.TRASH),
+});
+
+export const archiveImapMessage = internalAction({
+  args: { userId: v.id('admin_users'), messageId: v.id('productivity_email_Index') },
+  handler: async (ctx, args): Promise<{ success: boolean; error?: string }> =>
+    moveTo(ctx, args.userId, args.messageId, CanonicalFolder.ARCHIVE),
+});
+
+/**
+ * Push read/unread (\Seen) for messages already updated in Convex
+ * Same result shape as batchMarkOutlookReadStatus so callers can merge them
+ */
+export const batchMarkImapReadStatus = internalAction({
+  args: {
+    userId: v.id('admin_users'),
+    messageIds: v.array(v.id('productivity_email_Index')),
+    isRead: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; processed: number; failed: number; skipped: number; hadRateLimiting: boolean; errors?: string[] }> => {
+    const messages = await Promise.all(args.messageIds.map((messageId) => loadMessage(ctx, args.userId, messageId)));
+    const valid = messages.filter((m): m is ImapTarget => m !== null);
+    let skipped = args.messageIds.length - valid.length;
+
+    // One session per account, one STORE per mailbox
+    const byAccount = new Map<string, ImapTarget[]>();
+    for (const message of valid) byAccount.set(message.accountId, [...(byAccount.get(message.accountId) ?? []), message]);
+
+    let processed = 0;
+    let failed = 0;
+    const errors: string[] = [];
+    for (const group of byAccount.values()) {
+      let stored = 0;
+      try {
+        await withSession(ctx, group[0].accountId, async (session) => {
+          const byMailbox = new Map<string, ImapTarget[]>();
+          for (const message of group) byMailbox.set(message.mailbox, [...(byMailbox.get(message.mailbox) ?? []), message]);
+
+          for (const [mailbox, targets] of byMailbox) {
+            const status = await session.open(mailbox, false);
+            const current = targets.filter((t) => t.uidValidity === status.uidValidity);
+            skipped += targets.length - current.length;
+            if (current.length === 0) continue;
+            await session.storeFlags(current.map((t) => t.uid), args.isRead ? '+' : '-', ['\\Seen']);
+            stored += current.length;
+          }
+        });
+      } catch (error) {
+        failed += group.length - stored;
+        errors.push(String(error));
+      }
+      processed += stored;
+    }
+
+    console.log(`📦 IMAP read sync: ${processed} ok, ${failed} failed, ${skipped} skipped`);
+    return {
+      success: failed === 0,
+      processed,
+      failed,
+      skipped,
+      hadRateLimiting: false,
+      errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+    };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DRAFTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** UIDs of a draft's copies - found by its stable Message-ID, so no UIDPLUS needed */
+async function findDraftCopies(session: ImapSession, mailbox: string, messageId: string) {
+  const status = await session.open(mailbox, false);
+  const uids = await session.search(`HEADER Message-ID ${quoteImapString(messageId)}`);
+  return { uidValidity: status.uidValidity, uids };
+}
+
+/**
+ * Replace the draft's copy in the Drafts mailbox (expunge the old one, APPEND)
+ * Returns the new copy's message key for hiding the synced row
+ */
+export const saveImapDraft = internalAction({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    messageId: v.string(),
+    from: mailAddressValidator,
+    to: v.array(mailAddressValidator),
+    cc: v.array(mailAddressValidator),
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; key?: string; error?: string }> => {
+    const { accountId, messageId, ...mail } = args;
+    try {
+      return await withSession(ctx, accountId, async (session) => {
+        const drafts = findSpecialMailbox(await session.list(), CanonicalFolder.DRAFTS);
+        if (!drafts) return { success: false, error: 'No drafts mailbox on this server' };
+
+        const previous = await findDraftCopies(session, drafts, messageId);
+        if (previous.uids.length > 0) await session.expunge(previous.uids);
+        await session.append(drafts, buildMimeMessage(mail, messageId), ['\\Draft', '\\Seen']);
+
+        const stored = await findDraftCopies(session, drafts, messageId);
+        const uid = stored.uids[stored.uids.length - 1];
+        return { success: true, key: uid ? imapMessageKey(drafts, stored.uidValidity, uid) : undefined };
+      });
+    } catch (error) {
+      console.error('IMAP draft save failed:', error);
+      return { success: false, error: String(error) };
+    }
+  },
+});
+
+export const deleteImapDraft = internalAction({
+  args: { accountId: v.id('productivity_email_Accounts'), messageId: v.string() },
+  handler: async (ctx, args): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await withSession(ctx, args.accountId, async (session) => {
+        const drafts = findSpecialMailbox(await session.list(), CanonicalFolder.DRAFTS);
+        if (!drafts) return;
+        const copies = await findDraftCopies(session, drafts, args.messageId);
+        if (copies.uids.length > 0) await session.expunge(copies.uids);
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('IMAP draft delete failed:', error);
+      return { success: false, error: String(error) };
+    }
+  },
+});
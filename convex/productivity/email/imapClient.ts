@@ -0,0 +1,284 @@
+'use node';
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔌 IMAP CLIENT - Socket Session (Node runtime)                           │
+│  /convex/productivity/email/imapClient.ts                                 │
+│                                                                           │
+│  Minimal IMAP4rev1 client: one command in flight, tagged responses,       │
+│  literals, STARTTLS. Parsing lives in imapProtocol - this file only       │
+│  moves bytes. Always logout() in a finally block.                         │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import {
+  parseFetchItems,
+  parseImapValues,
+  parseListResponse,
+  parseResponseCode,
+  quoteImapString,
+  type ImapMailbox,
+  type ImapValue,
+} from './imapProtocol';
+
+export type MailSecurity = 'tls' | 'starttls' | 'none';
+export type MailServer = { host: string; port: number; security: MailSecurity };
+export type MailCredentials = { username: string; password: string };
+
+export type MailboxStatus = { exists: number; uidValidity: number; uidNext?: number };
+
+const SOCKET_TIMEOUT = 30 * 1000;
+
+/** Server said NO/BAD - `text` is the server's own explanation */
+export class ImapCommandError extends Error {
+  constructor(readonly command: string, readonly status: string, readonly text: string) {
+    super(`IMAP ${command} ${status}: ${text}`);
+    this.name = 'ImapCommandError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SOCKETS (shared with smtpClient)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function openMailSocket(server: MailServer): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = server.security === 'tls'
+      ? tls.connect({ host: server.host, port: server.port, servername: server.host })
+      : net.connect({ host: server.host, port: server.port });
+    socket.setTimeout(SOCKET_TIMEOUT, () => socket.destroy(new Error(`${server.host}:${server.port} timed out`)));
+    socket.once(server.security === 'tls' ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+export function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => {
+      secure.off('error', reject);
+      resolve(secure);
+    });
+    secure.setTimeout(SOCKET_TIMEOUT, () => secure.destroy(new Error(`${host} timed out`)));
+    secure.once('error', reject);
+  });
+}
+
+/** "1,3:5" → [1, 3, 4, 5] (COPYUID sets) */
+function expandUidSet(set: string): number[] {
+  return set.split(',').flatMap((range) => {
+    const [start, end] = range.split(':').map(Number);
+    if (!end) return [start];
+    return Array.from({ length: Math.abs(end - start) + 1 }, (_, i) => Math.min(start, end) + i);
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SESSION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export class ImapSession {
+  private buffer = '';
+  private scanFrom = 0;
+  private responses: string[] = [];
+  private wake: (() => void) | null = null;
+  private failure: Error | null = null;
+  private tagCounter = 0;
+  private capabilities = new Set<string>();
+
+  private constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  /** Connect, STARTTLS when asked, LOGIN. Throws ImapCommandError on bad credentials. */
+  static async connect(server: MailServer, credentials: MailCredentials): Promise<ImapSession> {
+    const session = new ImapSession(await openMailSocket(server));
+    try {
+      const greeting = await session.nextResponse();
+      if (/^\* BYE/i.test(greeting)) throw new Error(`IMAP server refused connection: ${greeting}`);
+
+      if (server.security === 'starttls') {
+        await session.command('STARTTLS');
+        session.detach();
+        session.socket = await upgradeToTls(session.socket, server.host);
+        session.attach(session.socket);
+      }
+
+      await session.command(`LOGIN ${quoteImapString(credentials.username)} ${quoteImapString(credentials.password)}`);
+      const { untagged } = await session.command('CAPABILITY');
+      const line = untagged.find((u) => /^CAPABILITY /i.test(u)) ?? '';
+      session.capabilities = new Set(line.toUpperCase().split(' ').slice(1));
+      return session;
+    } catch (error) {
+      session.socket.destroy();
+      throw error;
+    }
+  }
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('latin1');
+    // A response ends at CRLF unless the line ends in a literal announcement {n}
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n', this.scanFrom);
+      if (end < 0) return;
+      const literal = this.buffer.slice(this.scanFrom, end).match(/\{(\d+)\+?\}$/);
+      if (literal) {
+        const next = end + 2 + Number(literal[1]);
+        if (this.buffer.length < next) return;
+        this.scanFrom = next;
+        continue;
+      }
+      this.responses.push(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end + 2);
+      this.scanFrom = 0;
+      this.wake?.();
+    }
+  };
+
+  private readonly onEnd = (error?: Error) => {
+    this.failure = error instanceof Error ? error : new Error('IMAP connection closed');
+    this.wake?.();
+  };
+
+  private attach(socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onEnd);
+    socket.on('close', this.onEnd);
+  }
+
+  private detach() {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onEnd);
+    this.socket.off('close', this.onEnd);
+  }
+
+  private async nextResponse(): Promise<string> {
+    while (this.responses.length === 0) {
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve) => { this.wake = resolve; });
+      this.wake = null;
+    }
+    return this.responses.shift() as string;
+  }
+
+  /**
+   * Send one command and collect its untagged responses (without the "* ")
+   * `literal` is sent after the server's "+" continuation
+   */
+  async command(command: string, literal?: string): Promise<{ untagged: string[]; text: string }> {
+    const tag = `F${++this.tagCounter}`;
+    const line = literal === undefined ? command : `${command} {${Buffer.byteLength(literal)}}`;
+    this.socket.write(`${tag} ${line}\r\n`);
+
+    const untagged: string[] = [];
+    for (;;) {
+      const response = await this.nextResponse();
+      if (response.startsWith('+')) {
+        if (literal !== undefined) this.socket.write(`${literal}\r\n`);
+      } else if (response.startsWith('* ')) {
+        untagged.push(response.slice(2));
+      } else if (response.startsWith(`${tag} `)) {
+        const [status, ...rest] = response.slice(tag.length + 1).split(' ');
+        const text = rest.join(' ');
+        if (status.toUpperCase() !== 'OK') {
+          throw new ImapCommandError(command.split(' ')[0], status.toUpperCase(), text);
+        }
+        return { untagged, text };
+      }
+    }
+  }
+
+  hasCapability(name: string): boolean {
+    return this.capabilities.has(name.toUpperCase());
+  }
+
+  async list(): Promise<ImapMailbox[]> {
+    const { untagged } = await this.command('LIST "" "*"');
+    return untagged
+      .map((response) => parseListResponse(parseImapValues(response)))
+      .filter((mailbox): mailbox is ImapMailbox => mailbox !== null);
+  }
+
+  /** SELECT (read-write) or EXAMINE (read-only) a mailbox */
+  async open(mailbox: string, readOnly: boolean): Promise<MailboxStatus> {
+    const { untagged } = await this.command(`${readOnly ? 'EXAMINE' : 'SELECT'} ${quoteImapString(mailbox)}`);
+    const status: MailboxStatus = { exists: 0, uidValidity: 0 };
+    for (const response of untagged) {
+      const exists = response.match(/^(\d+) EXISTS/i);
+      if (exists) status.exists = Number(exists[1]);
+      const code = parseResponseCode(response);
+      if (code?.code === 'UIDVALIDITY') status.uidValidity = Number(code.value);
+      if (code?.code === 'UIDNEXT') status.uidNext = Number(code.value);
+    }
+    return status;
+  }
+
+  /** FETCH by UID range ("5:*") or, with byUid=false, by sequence range */
+  async fetch(range: string, items: string, byUid = true): Promise<Array<Record<string, ImapValue>>> {
+    const { untagged } = await this.command(`${byUid ? 'UID ' : ''}FETCH ${range} (${items})`);
+    return untagged
+      .map((response) => parseFetchItems(parseImapValues(response)))
+      .filter((fetched): fetched is Record<string, ImapValue> => fetched !== null);
+  }
+
+  /** UID SEARCH in the open mailbox */
+  async search(criteria: string): Promise<number[]> {
+    const { untagged } = await this.command(`UID SEARCH ${criteria}`);
+    return untagged
+      .filter((response) => /^SEARCH\b/i.test(response))
+      .flatMap((response) => response.split(' ').slice(1).map(Number))
+      .filter((uid) => uid > 0);
+  }
+
+  async storeFlags(uids: number[], operation: '+' | '-', flags: string[]): Promise<void> {
+    await this.command(`UID STORE ${uids.join(',')} ${operation}FLAGS.SILENT (${flags.join(' ')})`);
+  }
+
+  /**
+   * Move messages to another mailbox (MOVE, else COPY + \Deleted + expunge)
+   * Returns source → destination UIDs when the server reports COPYUID (UIDPLUS)
+   */
+  async move(uids: number[], destination: string): Promise<{ uidValidity?: number; uids: Map<number, number> }> {
+    const set = uids.join(',');
+    let responses: string[];
+    if (this.hasCapability('MOVE')) {
+      const { untagged, text } = await this.command(`UID MOVE ${set} ${quoteImapString(destination)}`);
+      responses = [...untagged, text];
+    } else {
+      const { text } = await this.command(`UID COPY ${set} ${quoteImapString(destination)}`);
+      responses = [text];
+      await this.expunge(uids);
+    }
+
+    const copyUid = responses.map(parseResponseCode).find((code) => code?.code === 'COPYUID');
+    const mapped = new Map<number, number>();
+    if (!copyUid) return { uids: mapped };
+    const [validity, sources, destinations] = copyUid.value.split(' ');
+    const from = expandUidSet(sources);
+    const to = expandUidSet(destinations);
+    from.forEach((uid, i) => { if (to[i]) mapped.set(uid, to[i]); });
+    return { uidValidity: Number(validity), uids: mapped };
+  }
+
+  async append(mailbox: string, message: string, flags: string[]): Promise<void> {
+    await this.command(`APPEND ${quoteImapString(mailbox)} (${flags.join(' ')})`, message);
+  }
+
+  /** Permanently remove messages from the open mailbox */
+  async expunge(uids: number[]): Promise<void> {
+    await this.storeFlags(uids, '+', ['\\Deleted']);
+    await this.command(this.hasCapability('UIDPLUS') ? `UID EXPUNGE ${uids.join(',')}` : 'EXPUNGE');
+  }
+
+  async logout(): Promise<void> {
+    try {
+      if (!this.failure) await this.command('LOGOUT');
+    } catch {
+      // Server may hang up before the tagged OK - nothing to recover
+    } finally {
+      this.detach();
+      this.socket.destroy();
+    }
+  }
+}
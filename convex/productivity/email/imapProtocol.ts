@@ -0,0 +1,347 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔧 IMAP PROTOCOL - Pure Functions (No Convex, No Sockets)                │
+│  /convex/productivity/email/imapProtocol.ts                               │
+│                                                                           │
+│  Response tokenizer, FETCH/LIST parsing and header decoding.              │
+│  Responses arrive as latin1 strings so one char = one byte - text is      │
+│  decoded to its real charset only once it is pulled out.                  │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { mapImapSpecialUse, type CanonicalFolder } from '@/domains/email';
+
+/** Atom / quoted string / literal = string, NIL = null, parenthesised list = array */
+export type ImapValue = string | null | ImapValue[];
+
+export type ImapAddress = { name: string; email: string };
+
+export type ImapTextPart = {
+  /** BODY[] section ("1", "1.2") */
+  section: string;
+  encoding: string;
+  charset: string;
+  isHtml: boolean;
+};
+
+/** One message as parsed from FETCH - what imapStore persists */
+export type ImapMessage = {
+  uid: number;
+  flags: string[];
+  receivedAt: number;
+  subject: string;
+  from: ImapAddress;
+  to: ImapAddress[];
+  cc: ImapAddress[];
+  messageId?: string;
+  /** First Message-ID of References / In-Reply-To - the thread key */
+  threadRoot?: string;
+  hasAttachments: boolean;
+  snippet: string;
+};
+
+export type ImapMailbox = { name: string; delimiter: string | null; attributes: string[] };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOKENIZER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse a complete response (literals inline as `{n}\r\n<n bytes>`)
+ * Atoms keep [section] suffixes whole: `BODY[HEADER.FIELDS (REFERENCES)]`
+ */
+export function parseImapValues(text: string): ImapValue[] {
+  let pos = 0;
+
+  const readList = (nested: boolean): ImapValue[] => {
+    const values: ImapValue[] = [];
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === ' ' || char === '\r' || char === '\n') {
+        pos++;
+      } else if (char === ')') {
+        pos++;
+        if (nested) return values;
+      } else if (char === '(') {
+        pos++;
+        values.push(readList(true));
+      } else if (char === '"') {
+        let value = '';
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+          if (text[pos] === '\\') pos++;
+          value += text[pos++];
+        }
+        pos++;
+        values.push(value);
+      } else if (char === '{' && /^\{\d+\+?\}\r\n/.test(text.slice(pos, pos + 16))) {
+        const close = text.indexOf('}', pos);
+        const length = parseInt(text.slice(pos + 1, close));
+        values.push(text.slice(close + 3, close + 3 + length));
+        pos = close + 3 + length;
+      } else {
+        let atom = '';
+        let depth = 0;
+        while (pos < text.length) {
+          const c = text[pos];
+          if (depth === 0 && (c === ' ' || c === '(' || c === ')' || c === '\r' || c === '\n')) break;
+          if (c === '[') depth++;
+          if (c === ']') depth--;
+          atom += c;
+          pos++;
+        }
+        values.push(atom.toUpperCase() === 'NIL' ? null : atom);
+      }
+    }
+    return values;
+  };
+
+  return readList(false);
+}
+
+export function quoteImapString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** `[UIDVALIDITY 123]` → { code: 'UIDVALIDITY', value: '123' } */
+export function parseResponseCode(text: string): { code: string; value: string } | null {
+  const match = text.match(/\[([A-Z0-9-]+)(?: ([^\]]*))?\]/i);
+  return match ? { code: match[1].toUpperCase(), value: match[2] ?? '' } : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TEXT DECODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** latin1 (byte) string → text in `charset`, utf-8 when the label is unknown */
+export function bytesToText(binary: string, charset = 'utf-8'): string {
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function base64ToBinary(value: string): string {
+  let clean = value.replace(/[^A-Za-z0-9+/]/g, '');
+  // Partial fetches can cut a quantum - a lone trailing char carries no byte
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  return atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '='));
+}
+
+/** Content-Transfer-Encoding → raw bytes (latin1 string) */
+export function decodeTransferEncoding(body: string, encoding: string): string {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return base64ToBinary(body);
+    case 'quoted-printable':
+      return body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+/**
+ * RFC 2047 encoded words ("=?utf-8?B?...?=")
+ * Whitespace between adjacent encoded words is not part of the text
+ */
+export function decodeMimeWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, mode: string, text: string) => {
+      const binary = mode.toUpperCase() === 'B'
+        ? base64ToBinary(text)
+        : decodeTransferEncoding(text.replace(/_/g, ' '), 'quoted-printable');
+      return bytesToText(binary, charset.split('*')[0]);
+    });
+}
+
+/** Header value from ENVELOPE: raw 8-bit is utf-8, then encoded words */
+export function decodeHeader(value: ImapValue): string {
+  return typeof value === 'string' ? decodeMimeWords(bytesToText(value)).trim() : '';
+}
+
+/** Modified UTF-7 mailbox names (RFC 3501 §5.1.3): "Entw&APw-rfe" → "Entwürfe" */
+export function decodeMailboxName(name: string): string {
+  return name.replace(/&([^-]*)-/g, (_, encoded: string) => {
+    if (encoded === '') return '&';
+    const binary = base64ToBinary(encoded.replace(/,/g, '/'));
+    let text = '';
+    for (let i = 0; i + 1 < binary.length; i += 2) {
+      text += String.fromCharCode((binary.charCodeAt(i) << 8) | binary.charCodeAt(i + 1));
+    }
+    return text;
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIST
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** `LIST (\HasNoChildren \Sent) "/" "Sent"` (tokens after the `*`) */
+export function parseListResponse(values: ImapValue[]): ImapMailbox | null {
+  const [keyword, attributes, delimiter, name] = values;
+  if (typeof keyword !== 'string' || keyword.toUpperCase() !== 'LIST' || typeof name !== 'string') return null;
+  return {
+    name,
+    delimiter: typeof delimiter === 'string' ? delimiter : null,
+    attributes: Array.isArray(attributes) ? attributes.filter((a): a is string => typeof a === 'string') : [],
+  };
+}
+
+/** Selectable mailbox - \Noselect entries only exist to hold children */
+export function isSelectable(mailbox: ImapMailbox): boolean {
+  return !mailbox.attributes.some((a) => a.toLowerCase() === '\\noselect' || a.toLowerCase() === '\\nonexistent');
+}
+
+/**
+ * The mailbox playing a role (Trash, Archive, Sent...) - special-use
+ * attribute first, then a well-known top-level name
+ */
+export function findSpecialMailbox(mailboxes: ImapMailbox[], folder: CanonicalFolder): string | undefined {
+  const selectable = mailboxes.filter(isSelectable);
+  const byAttribute = selectable.find((m) => mapImapSpecialUse('', m.attributes) === folder);
+  const byName = selectable.find((m) => mapImapSpecialUse(decodeMailboxName(m.name), []) === folder);
+  return (byAttribute ?? byName)?.name;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FETCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** `FETCH (UID 5 FLAGS (\Seen) ...)` → { UID: '5', FLAGS: ['\\Seen'], ... } */
+export function parseFetchItems(values: ImapValue[]): Record<string, ImapValue> | null {
+  const [, keyword, items] = values;
+  if (typeof keyword !== 'string' || keyword.toUpperCase() !== 'FETCH' || !Array.isArray(items)) return null;
+  const result: Record<string, ImapValue> = {};
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    const key = items[i];
+    if (typeof key === 'string') result[key.toUpperCase()] = items[i + 1];
+  }
+  return result;
+}
+
+function toAddresses(value: ImapValue): ImapAddress[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!Array.isArray(entry)) return [];
+    const [name, , mailbox, host] = entry;
+    // Group syntax (host NIL) carries no address
+    if (typeof mailbox !== 'string' || typeof host !== 'string') return [];
+    return [{ name: decodeHeader(name), email: `${mailbox}@${host}`.toLowerCase() }];
+  });
+}
+
+function firstMessageId(value: string | undefined): string | undefined {
+  return value?.match(/<[^>]+>/)?.[0];
+}
+
+/** INTERNALDATE "17-Jul-1996 02:44:25 -0700" */
+function parseInternalDate(value: ImapValue): number {
+  if (typeof value !== 'string') return Date.now();
+  const parsed = Date.parse(value.replace(/^(\s?\d+)-(\w+)-/, '$1 $2 '));
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+}
+
+function isMixedMultipart(structure: ImapValue): boolean {
+  if (!Array.isArray(structure) || !Array.isArray(structure[0])) return false;
+  const subtype = structure.find((part) => !Array.isArray(part));
+  return typeof subtype === 'string' && subtype.toUpperCase() === 'MIXED';
+}
+
+/**
+ * First text/plain part of a BODYSTRUCTURE, else the first text/html
+ * A non-multipart message is section "1"
+ */
+export function findTextPart(structure: ImapValue, prefix = ''): ImapTextPart | null {
+  const search = (node: ImapValue, path: string, subtype: string): ImapTextPart | null => {
+    if (!Array.isArray(node)) return null;
+    if (Array.isArray(node[0])) {
+      const children = node.filter(Array.isArray);
+      for (let i = 0; i < children.length; i++) {
+        const found = search(children[i], path ? `${path}.${i + 1}` : String(i + 1), subtype);
+        if (found) return found;
+      }
+      return null;
+    }
+    const [type, sub, params, , , encoding] = node;
+    if (String(type).toUpperCase() !== 'TEXT' || String(sub).toUpperCase() !== subtype) return null;
+    let charset = 'utf-8';
+    if (Array.isArray(params)) {
+      const index = params.findIndex((p) => typeof p === 'string' && p.toUpperCase() === 'CHARSET');
+      if (index >= 0 && typeof params[index + 1] === 'string') charset = params[index + 1] as string;
+    }
+    return { section: path || '1', encoding: typeof encoding === 'string' ? encoding : '7bit', charset, isHtml: subtype === 'HTML' };
+  };
+  return search(structure, prefix, 'PLAIN') ?? search(structure, prefix, 'HTML');
+}
+
+/** Decoded, tag-free preview text from the first bytes of a text part */
+export function snippetFromPart(body: string, part: ImapTextPart, length = 200): string {
+  let text = bytesToText(decodeTransferEncoding(body, part.encoding), part.charset);
+  if (part.isHtml) {
+    text = text
+      .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>');
+  }
+  return text.replace(/\s+/g, ' ').trim().slice(0, length);
+}
+
+/**
+ * Build a message from parsed FETCH items
+ * Expects UID FLAGS INTERNALDATE ENVELOPE BODYSTRUCTURE and the References header
+ */
+export function toImapMessage(items: Record<string, ImapValue>, snippet = ''): ImapMessage | null {
+  const uid = Number(items.UID);
+  const envelope = items.ENVELOPE;
+  if (!uid || !Array.isArray(envelope)) return null;
+
+  // ENVELOPE: date subject from sender reply-to to cc bcc in-reply-to message-id
+  const [, subject, from, , , to, cc, , inReplyTo, messageId] = envelope;
+  const referencesKey = Object.keys(items).find((key) => key.startsWith('BODY[HEADER.FIELDS'));
+  const references = referencesKey && typeof items[referencesKey] === 'string'
+    ? (items[referencesKey] as string).replace(/^references:/i, '').trim()
+    : undefined;
+
+  return {
+    uid,
+    flags: Array.isArray(items.FLAGS) ? items.FLAGS.filter((f): f is string => typeof f === 'string') : [],
+    receivedAt: parseInternalDate(items.INTERNALDATE),
+    subject: decodeHeader(subject),
+    from: toAddresses(from)[0] ?? { name: '', email: '' },
+    to: toAddresses(to),
+    cc: toAddresses(cc),
+    messageId: typeof messageId === 'string' ? firstMessageId(messageId) : undefined,
+    threadRoot: firstMessageId(references) ?? (typeof inReplyTo === 'string' ? firstMessageId(inReplyTo) : undefined),
+    hasAttachments: isMixedMultipart(items.BODYSTRUCTURE),
+    snippet,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGE IDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * externalMessageId for an IMAP message: "<mailbox>:<uidvalidity>:<uid>"
+ * A UID is only unique within one mailbox at one UIDVALIDITY
+ */
+export function imapMessageKey(mailbox: string, uidValidity: number, uid: number): string {
+  return `${mailbox}:${uidValidity}:${uid}`;
+}
+
+/** Inverse of imapMessageKey - mailbox names may themselves contain ':' */
+export function parseImapMessageKey(key: string): { mailbox: string; uidValidity: number; uid: number } | null {
+  const uidAt = key.lastIndexOf(':');
+  const validityAt = key.lastIndexOf(':', uidAt - 1);
+  if (validityAt <= 0) return null;
+  const uidValidity = Number(key.slice(validityAt + 1, uidAt));
+  const uid = Number(key.slice(uidAt + 1));
+  if (!uidValidity || !uid) return null;
+  return { mailbox: key.slice(0, validityAt), uidValidity, uid };
+}
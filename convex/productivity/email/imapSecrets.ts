@@ -0,0 +1,67 @@
+'use node';
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔐 IMAP SECRETS - Password Sealing (Node runtime)                        │
+│  /convex/productivity/email/imapSecrets.ts                                │
+│                                                                           │
+│  IMAP/SMTP passwords are stored AES-256-GCM sealed under                  │
+│  MAIL_CREDENTIALS_KEY (32 random bytes, base64 - set it with              │
+│  `npx convex env set`; `openssl rand -base64 32` makes one).              │
+│  Sealed in connectImapAccount, opened only by the sync/send actions       │
+│  (imapSync) and the user actions (imapActions) - never by a query.        │
+│                                                                           │
+│  Accounts connected before sealing existed, run once:                     │
+│    npx convex run productivity/email/imapSecrets:sealStoredPasswords      │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { internalAction } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import { SEALED_PASSWORD_PREFIX } from './imap';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function credentialsKey(): Buffer {
+  const key = Buffer.from(process.env.MAIL_CREDENTIALS_KEY ?? '', 'base64');
+  if (key.length !== 32) throw new Error('MAIL_CREDENTIALS_KEY must be 32 bytes, base64 encoded');
+  return key;
+}
+
+/** Encrypt a password for productivity_email_Accounts.mailPassword */
+export function sealPassword(password: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', credentialsKey(), iv);
+  const sealed = Buffer.concat([cipher.update(password, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  return `${SEALED_PASSWORD_PREFIX}${iv.toString('base64')}:${sealed.toString('base64')}`;
+}
+
+/** Decrypt a stored password - throws when it was not sealed under this key */
+export function openPassword(stored: string): string {
+  if (!stored.startsWith(SEALED_PASSWORD_PREFIX)) throw new Error('IMAP password is not sealed - run imapSecrets:sealStoredPasswords');
+  const [iv, sealed] = stored.slice(SEALED_PASSWORD_PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+  if (iv?.length !== IV_BYTES || !sealed || sealed.length < TAG_BYTES) throw new Error('IMAP password is malformed');
+
+  const decipher = createDecipheriv('aes-256-gcm', credentialsKey(), iv);
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()]).toString('utf8');
+}
+
+/**
+ * One-off: seal passwords stored in plain text before sealing existed
+ * Idempotent - sealed rows are skipped
+ */
+export const sealStoredPasswords = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ sealed: number }> => {
+    const accounts = await ctx.runQuery(internal.productivity.email.imap.listUnsealedPasswords, {});
+    for (const account of accounts) {
+      await ctx.runMutation(internal.productivity.email.imap.replaceMailPassword, {
+        accountId: account._id,
+        expected: account.mailPassword,
+        mailPassword: sealPassword(account.mailPassword),
+      });
+    }
+    console.log(`🔐 IMAP SECRETS: ${accounts.length} password(s) sealed`);
+    return { sealed: accounts.length };
+  },
+});
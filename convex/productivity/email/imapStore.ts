@@ -0,0 +1,284 @@
+/**
+ * IMAP Persistence Layer
+ *
+ * Mailbox, cursor and message storage mutations.
+ * Called by the IMAP sync and message actions, never opens a socket.
+ */
+
+import { v } from 'convex/values';
+import { internalMutation, internalQuery, type MutationCtx } from '@/convex/_generated/server';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import { CanonicalFolder, mapImapMessage } from '@/domains/email';
+import { imapMessageKey, parseImapMessageKey, type ImapMessage } from './imapProtocol';
+
+async function getMailboxFolder(ctx: MutationCtx, accountId: Id<'productivity_email_Accounts'>, mailbox: string) {
+  return await ctx.db
+    .query('productivity_email_Folders')
+    .withIndex('by_account', (q) => q.eq('accountId', accountId))
+    .filter((q) => q.eq(q.field('externalFolderId'), mailbox))
+    .first();
+}
+
+async function deleteMessage(ctx: MutationCtx, message: Doc<'productivity_email_Index'>) {
+  const cacheEntry = await ctx.db
+    .query('productivity_email_BodyCache')
+    .withIndex('by_message', (q) => q.eq('messageId', message.externalMessageId))
+    .first();
+  if (cacheEntry) {
+    await ctx.storage.delete(cacheEntry.storageId);
+    await ctx.db.delete(cacheEntry._id);
+  }
+  await ctx.db.delete(message._id);
+}
+
+function flagFields(folder: string, flags: string[]) {
+  const mapping = mapImapMessage(folder as CanonicalFolder, flags);
+  return {
+    isRead: mapping.isRead,
+    canonicalFolder: mapping.canonicalFolder as string,
+    canonicalStates: mapping.canonicalStates as string[],
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAILBOXES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Upsert mailboxes from LIST and drop the ones gone from the server
+ * Returns each mailbox's stored cursor so the sync knows where to resume
+ */
+export const storeImapFolders = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    folders: v.array(v.object({
+      externalFolderId: v.string(),
+      displayName: v.string(),
+      canonicalFolder: v.string(),
+      parentFolderId: v.optional(v.string()),
+      childFolderCount: v.number(),
+    })),
+  },
+  handler: async (ctx, args): Promise<Record<string, { uidValidity?: number; uidNext?: number }>> => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) throw new Error('IMAP account not found');
+
+    const now = Date.now();
+    const local = await ctx.db
+      .query('productivity_email_Folders')
+      .withIndex('by_account', (q) => q.eq('accountId', account._id))
+      .collect();
+    const localById = new Map(local.map((f) => [f.externalFolderId, f]));
+    const cursors: Record<string, { uidValidity?: number; uidNext?: number }> = {};
+
+    for (const folder of args.folders) {
+      const existing = localById.get(folder.externalFolderId);
+      if (existing) {
+        await ctx.db.patch(existing._id, { ...folder, updatedAt: now });
+        cursors[folder.externalFolderId] = { uidValidity: existing.imapUidValidity, uidNext: existing.imapUidNext };
+      } else {
+        await ctx.db.insert('productivity_email_Folders', {
+          ...folder,
+          accountId: account._id,
+          provider: 'imap',
+          ownerEmail: account.emailAddress,
+          createdAt: now,
+          updatedAt: now,
+        });
+        cursors[folder.externalFolderId] = {};
+      }
+    }
+
+    // RECONCILIATION: the server is the source of truth
+    const incoming = new Set(args.folders.map((f) => f.externalFolderId));
+    for (const folder of local) {
+      if (!incoming.has(folder.externalFolderId)) await ctx.db.delete(folder._id);
+    }
+
+    await ctx.db.patch(account._id, { foldersCachedAt: now });
+    return cursors;
+  },
+});
+
+/** Save a mailbox's cursor once its messages are stored */
+export const updateImapFolderCursor = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    mailbox: v.string(),
+    uidValidity: v.number(),
+    uidNext: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const folder = await getMailboxFolder(ctx, args.accountId, args.mailbox);
+    if (!folder) return;
+    await ctx.db.patch(folder._id, { imapUidValidity: args.uidValidity, imapUidNext: args.uidNext, updatedAt: Date.now() });
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const storeImapMessages = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    mailbox: v.string(),
+    uidValidity: v.number(),
+    messages: v.array(v.any()),
+  },
+  handler: async (ctx, args) => {
+    const account = await ctx.db.get(args.accountId);
+    if (!account) throw new Error('IMAP account not found');
+    const folder = await getMailboxFolder(ctx, account._id, args.mailbox);
+    if (!folder) throw new Error(`Mailbox ${args.mailbox} not stored`);
+
+    const now = Date.now();
+    let messagesStored = 0;
+    let newInbox = 0;
+
+    for (const message of args.messages as ImapMessage[]) {
+      const externalMessageId = imapMessageKey(args.mailbox, args.uidValidity, message.uid);
+      const fields = flagFields(folder.canonicalFolder, message.flags);
+      const existing = await ctx.db
+        .query('productivity_email_Index')
+        .withIndex('by_external_message_id', (q) => q.eq('externalMessageId', externalMessageId))
+        .filter((q) => q.eq(q.field('accountId'), account._id))
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, { ...fields, updatedAt: now });
+        continue;
+      }
+
+      const isFromMe = message.from.email === account.emailAddress.toLowerCase();
+      let resolutionState: 'awaiting_me' | 'awaiting_them' | 'resolved' | 'none' = 'none';
+      if (!fields.isRead && !isFromMe) resolutionState = 'awaiting_me';
+      else if (isFromMe) resolutionState = 'awaiting_them';
+
+      await ctx.db.insert('productivity_email_Index', {
+        externalMessageId,
+        // Replies share the first Message-ID of their References chain
+        externalThreadId: message.threadRoot ?? message.messageId ?? externalMessageId,
+        subject: message.subject || '(No subject)',
+        snippet: message.snippet,
+        from: message.from,
+        to: message.to,
+        cc: message.cc.length > 0 ? message.cc : undefined,
+        receivedAt: message.receivedAt,
+        hasAttachments: message.hasAttachments,
+        accountId: account._id,
+        ownerEmail: account.emailAddress,
+        resolutionState,
+        ...fields,
+        providerFolderId: args.mailbox,
+        providerFolderName: folder.displayName,
+        assetsProcessed: false,
+        assetCount: 0,
+        orgId: account.orgId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      messagesStored++;
+      if (fields.canonicalFolder === CanonicalFolder.INBOX && !fields.isRead) newInbox++;
+    }
+
+    if (messagesStored > 0) console.log(`IMAP ${args.mailbox}: stored ${messagesStored}`);
+    return { messagesStored, newInbox };
+  },
+});
+
+/**
+ * Bring stored rows of a mailbox in line with the server's UID FLAGS list
+ *
+ * Rows at or above `minUid` that the server no longer lists were expunged.
+ * Rows keyed to another UIDVALIDITY (or moved here locally without a new
+ * UID) are stale and dropped - the UIDNEXT fetch brings the real ones back.
+ */
+export const reconcileImapMailbox = internalMutation({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    mailbox: v.string(),
+    uidValidity: v.number(),
+    minUid: v.number(),
+    flags: v.array(v.object({ uid: v.number(), flags: v.array(v.string()) })),
+  },
+  handler: async (ctx, args) => {
+    const folder = await getMailboxFolder(ctx, args.accountId, args.mailbox);
+    if (!folder) return { updated: 0, removed: 0 };
+
+    const serverFlags = new Map(args.flags.map((entry) => [entry.uid, entry.flags]));
+    const rows = await ctx.db
+      .query('productivity_email_Index')
+      .withIndex('by_account', (q) => q.eq('accountId', args.accountId))
+      .filter((q) => q.eq(q.field('providerFolderId'), args.mailbox))
+      .collect();
+
+    const now = Date.now();
+    let updated = 0;
+    let removed = 0;
+    for (const row of rows) {
+      const key = parseImapMessageKey(row.externalMessageId);
+      const current = key?.mailbox === args.mailbox && key.uidValidity === args.uidValidity;
+      const flags = key ? serverFlags.get(key.uid) : undefined;
+
+      if (!current || (!flags && key.uid >= args.minUid)) {
+        await deleteMessage(ctx, row);
+        removed++;
+      } else if (flags) {
+        const fields = flagFields(folder.canonicalFolder, flags);
+        if (row.isRead !== fields.isRead || (row.canonicalStates ?? []).join() !== fields.canonicalStates.join()) {
+          await ctx.db.patch(row._id, { ...fields, updatedAt: now });
+          updated++;
+        }
+      }
+    }
+
+    if (updated > 0 || removed > 0) console.log(`IMAP ${args.mailbox}: ${updated} flag changes, ${removed} removed`);
+    return { updated, removed };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGE ACTIONS SUPPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** IMAP message with its parsed key - null when it is not the user's IMAP mail */
+export const getImapMessage = internalQuery({
+  args: {
+    userId: v.id('admin_users'),
+    messageId: v.id('productivity_email_Index'),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return null;
+    const account = await ctx.db.get(message.accountId);
+    if (!account || account.provider !== 'imap' || account.userId !== args.userId) return null;
+    const key = parseImapMessageKey(message.externalMessageId);
+    return key ? { _id: message._id, accountId: account._id, ...key } : null;
+  },
+});
+
+/**
+ * Point a row at the mailbox it was moved to
+ * With COPYUID the new key is known; without it the row waits for the next sync
+ */
+export const applyImapMove = internalMutation({
+  args: {
+    messageId: v.id('productivity_email_Index'),
+    mailbox: v.string(),
+    externalMessageId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return;
+    const folder = await getMailboxFolder(ctx, message.accountId, args.mailbox);
+    await ctx.db.patch(message._id, {
+      providerFolderId: args.mailbox,
+      providerFolderName: folder?.displayName ?? args.mailbox,
+      canonicalFolder: folder?.canonicalFolder ?? message.canonicalFolder,
+      ...(args.externalMessageId ? { externalMessageId: args.externalMessageId } : {}),
+      updatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,380 @@
+'use node';
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📧 IMAP SYNC - Connect, Sync, Server Search, SMTP Send (Node runtime)    │
+│  /convex/productivity/email/imapSync.ts                                   │
+│                                                                           │
+│  Per mailbox: UIDVALIDITY unchanged → UID FETCH from the stored UIDNEXT   │
+│  plus a FLAGS pass over the recent window; UIDVALIDITY changed → the old  │
+│  UIDs mean nothing, re-fetch the newest INITIAL_DEPTH messages.           │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { action, internalAction, type ActionCtx } from '@/convex/_generated/server';
+import { internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { CanonicalFolder, mapImapFolder } from '@/domains/email';
+import { mailAddressValidator, mailAttachmentValidator } from './compose';
+import { mailServerValidator } from './imap';
+import { ImapCommandError, ImapSession, type MailCredentials, type MailServer } from './imapClient';
+import {
+  decodeMailboxName,
+  findSpecialMailbox,
+  findTextPart,
+  imapMessageKey,
+  isSelectable,
+  snippetFromPart,
+  toImapMessage,
+  type ImapMailbox,
+  type ImapMessage,
+  type ImapTextPart,
+  type ImapValue,
+} from './imapProtocol';
+import { buildMimeMessage, createMessageId, type MailAddress } from './mime';
+import { openPassword, sealPassword } from './imapSecrets';
+import { sendSmtpMessage } from './smtpClient';
+
+/** Newest messages per mailbox on first sync (or after UIDVALIDITY changes) */
+const INITIAL_DEPTH = 500;
+/** Recent messages whose flags/expunges are re-checked each sync */
+const RECONCILE_DEPTH = 2000;
+const STORE_BATCH = 100;
+/** Matches imported per server-side search */
+const SERVER_SEARCH_DEPTH = 50;
+const SNIPPET_BYTES = 1024;
+const FETCH_ITEMS = 'UID FLAGS INTERNALDATE ENVELOPE BODYSTRUCTURE BODY.PEEK[HEADER.FIELDS (REFERENCES)]';
+
+type ImapAccount = {
+  _id: Id<'productivity_email_Accounts'>;
+  emailAddress: string;
+  label: string;
+  mailServer: { imap: MailServer; smtp: MailServer; username: string };
+  sealedPassword: string;
+};
+
+async function loadAccount(ctx: ActionCtx, accountId: Id<'productivity_email_Accounts'>): Promise<ImapAccount | null> {
+  return await ctx.runQuery(internal.productivity.email.imap.getImapAccount, { accountId });
+}
+
+/** Opened at connect time, inside each action's try - the clear password lives only in this call */
+function credentialsOf(account: ImapAccount): MailCredentials {
+  return { username: account.mailServer.username, password: openPassword(account.sealedPassword) };
+}
+
+/** Login failures read better as the server's own words */
+function describeError(error: unknown): string {
+  return error instanceof ImapCommandError ? error.text || error.message : String(error);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONNECT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Verify the IMAP login, then store the account and start the first sync
+ * Nothing is stored when the server refuses - the form shows the reason
+ */
+export const connectImapAccount = action({
+  args: {
+    userId: v.id('admin_users'),
+    emailAddress: v.string(),
+    label: v.optional(v.string()),
+    mailServer: mailServerValidator,
+    password: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; accountId?: Id<'productivity_email_Accounts'>; error?: string }> => {
+    try {
+      const session = await ImapSession.connect(args.mailServer.imap, { username: args.mailServer.username, password: args.password });
+      await session.logout();
+    } catch (error) {
+      console.error('IMAP connect failed:', describeError(error));
+      return { success: false, error: describeError(error) };
+    }
+
+    const { password, ...account } = args;
+    const accountId = await ctx.runMutation(internal.productivity.email.imap.storeImapAccount, {
+      ...account, sealedPassword: sealPassword(password),
+    });
+    await ctx.scheduler.runAfter(0, internal.productivity.email.imapSync.syncImapMessages, { accountId });
+    return { success: true, accountId };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNC
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toFolderRows(mailboxes: ImapMailbox[]) {
+  const names = new Set(mailboxes.map((m) => m.name));
+  const parentOf = (mailbox: ImapMailbox) => {
+    if (!mailbox.delimiter) return undefined;
+    const cut = mailbox.name.lastIndexOf(mailbox.delimiter);
+    return cut > 0 && names.has(mailbox.name.slice(0, cut)) ? mailbox.name.slice(0, cut) : undefined;
+  };
+
+  return mailboxes
+    .map((mailbox) => {
+      const decoded = decodeMailboxName(mailbox.name);
+      return {
+        externalFolderId: mailbox.name,
+        displayName: mailbox.delimiter ? decoded.split(mailbox.delimiter).pop() || decoded : decoded,
+        canonicalFolder: mapImapFolder(decoded, mailbox.attributes, mailbox.delimiter) as string,
+        parentFolderId: parentOf(mailbox),
+        childFolderCount: mailboxes.filter((child) => parentOf(child) === mailbox.name).length,
+      };
+    })
+    // Virtual \All / \Flagged duplicate every message
+    .filter((folder) => folder.canonicalFolder !== CanonicalFolder.SYSTEM);
+}
+
+/** Preview text - one FETCH per distinct text section */
+async function fetchSnippets(session: ImapSession, parts: Map<number, ImapTextPart>): Promise<Map<number, string>> {
+  const bySection = new Map<string, number[]>();
+  for (const [uid, part] of parts) bySection.set(part.section, [...(bySection.get(part.section) ?? []), uid]);
+
+  const snippets = new Map<number, string>();
+  for (const [section, uids] of bySection) {
+    const fetched = await session.fetch(uids.join(','), `UID BODY.PEEK[${section}]<0.${SNIPPET_BYTES}>`);
+    for (const items of fetched) {
+      const uid = Number(items.UID);
+      const key = Object.keys(items).find((k) => k.startsWith(`BODY[${section}]`));
+      const part = parts.get(uid);
+      if (part && key && typeof items[key] === 'string') snippets.set(uid, snippetFromPart(items[key] as string, part));
+    }
+  }
+  return snippets;
+}
+
+/**
+ * Parse FETCH_ITEMS responses, add snippets and store them in batches
+ * UIDs below `floor` are skipped
+ */
+async function storeFetched(
+  ctx: ActionCtx,
+  session: ImapSession,
+  accountId: Id<'productivity_email_Accounts'>,
+  mailbox: string,
+  uidValidity: number,
+  fetched: Array<Record<string, ImapValue>>,
+  floor = 0
+): Promise<{ parsed: ImapMessage[]; newInbox: number }> {
+  const parts = new Map<number, ImapTextPart>();
+  const parsed: ImapMessage[] = [];
+  for (const items of fetched) {
+    const message = toImapMessage(items);
+    if (!message || message.uid < floor) continue;
+    parsed.push(message);
+    const part = findTextPart(items.BODYSTRUCTURE);
+    if (part) parts.set(message.uid, part);
+  }
+
+  const snippets = parts.size > 0 ? await fetchSnippets(session, parts) : new Map<number, string>();
+  let newInbox = 0;
+  for (let i = 0; i < parsed.length; i += STORE_BATCH) {
+    const messages = parsed.slice(i, i + STORE_BATCH).map((m) => ({ ...m, snippet: snippets.get(m.uid) ?? '' }));
+    const stored = await ctx.runMutation(internal.productivity.email.imapStore.storeImapMessages, {
+      accountId, mailbox, uidValidity, messages,
+    });
+    newInbox += stored.newInbox;
+  }
+  return { parsed, newInbox };
+}
+
+/**
+ * Sync one mailbox, returning the number of new unread inbox messages
+ * The cursor is saved last, so a failure re-fetches from the old UIDNEXT
+ */
+async function syncMailbox(
+  ctx: ActionCtx,
+  session: ImapSession,
+  accountId: Id<'productivity_email_Accounts'>,
+  mailbox: string,
+  cursor: { uidValidity?: number; uidNext?: number }
+): Promise<number> {
+  const status = await session.open(mailbox, true);
+  const fresh = !cursor.uidValidity || cursor.uidValidity !== status.uidValidity || !cursor.uidNext;
+
+  let fetched: Array<Record<string, ImapValue>> = [];
+  if (status.exists > 0 && fresh) {
+    fetched = await session.fetch(`${Math.max(1, status.exists - INITIAL_DEPTH + 1)}:*`, FETCH_ITEMS, false);
+  } else if (status.exists > 0 && (!status.uidNext || status.uidNext > (cursor.uidNext ?? 0))) {
+    fetched = await session.fetch(`${cursor.uidNext}:*`, FETCH_ITEMS);
+  }
+
+  // "n:*" returns the last message even when every UID is below n
+  const floor = fresh ? 0 : cursor.uidNext ?? 0;
+  const { parsed, newInbox } = await storeFetched(ctx, session, accountId, mailbox, status.uidValidity, fetched, floor);
+
+  // Flags + expunges for the recent window (also drops rows of an old UIDVALIDITY)
+  const window = status.exists > 0
+    ? await session.fetch(`${Math.max(1, status.exists - RECONCILE_DEPTH + 1)}:*`, 'UID FLAGS', false)
+    : [];
+  const flags = window.map((items) => ({
+    uid: Number(items.UID),
+    flags: Array.isArray(items.FLAGS) ? items.FLAGS.filter((f): f is string => typeof f === 'string') : [],
+  })).filter((entry) => entry.uid > 0);
+  await ctx.runMutation(internal.productivity.email.imapStore.reconcileImapMailbox, {
+    accountId, mailbox, uidValidity: status.uidValidity, flags,
+    minUid: flags.length > 0 ? Math.min(...flags.map((f) => f.uid)) : 0,
+  });
+
+  const highest = parsed.reduce((max, m) => Math.max(max, m.uid), (cursor.uidNext ?? 1) - 1);
+  await ctx.runMutation(internal.productivity.email.imapStore.updateImapFolderCursor, {
+    accountId, mailbox, uidValidity: status.uidValidity, uidNext: status.uidNext ?? highest + 1,
+  });
+  return newInbox;
+}
+
+export const syncImapMessages = internalAction({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    isBackground: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; messageCount?: number; error?: string; skipped?: boolean }> => {
+    const { accountId } = args;
+    const account = await loadAccount(ctx, accountId);
+    if (!account) return { success: false, error: 'IMAP account not found' };
+
+    const lock = await ctx.runMutation(internal.productivity.email.imap.acquireImapSyncLock, {
+      accountId, isBackground: args.isBackground ?? false,
+    });
+    if (!lock.acquired) return { success: true, skipped: true, error: lock.reason };
+
+    let session: ImapSession | null = null;
+    try {
+      session = await ImapSession.connect(account.mailServer.imap, credentialsOf(account));
+      const mailboxes = await session.list();
+      const folders = toFolderRows(mailboxes);
+      const cursors = await ctx.runMutation(internal.productivity.email.imapStore.storeImapFolders, { accountId, folders });
+
+      // INBOX first so new mail shows up before the long tail of folders
+      const selectable = new Set(mailboxes.filter(isSelectable).map((m) => m.name));
+      const order = folders
+        .map((f) => f.externalFolderId)
+        .filter((name) => selectable.has(name))
+        .sort((a, b) => Number(b.toUpperCase() === 'INBOX') - Number(a.toUpperCase() === 'INBOX'));
+
+      let newEmails = 0;
+      for (const mailbox of order) {
+        newEmails += await syncMailbox(ctx, session, accountId, mailbox, cursors[mailbox] ?? {});
+      }
+
+      await ctx.runMutation(internal.productivity.email.imap.releaseImapSyncLock, { accountId, success: true, newEmails });
+      return { success: true, messageCount: newEmails };
+    } catch (error) {
+      console.error('IMAP sync failed:', describeError(error));
+      await ctx.runMutation(internal.productivity.email.imap.releaseImapSyncLock, {
+        accountId, success: false, error: describeError(error),
+      });
+      return { success: false, error: describeError(error) };
+    } finally {
+      await session?.logout();
+    }
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEARCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * UID SEARCH the account's mailboxes (or those of one canonical folder) and
+ * store matches not synced yet - older than INITIAL_DEPTH, usually
+ */
+export const searchImapServer = internalAction({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    criteria: v.string(),
+    folder: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ imported: number }> => {
+    const { accountId } = args;
+    const account = await loadAccount(ctx, accountId);
+    if (!account) throw new Error('IMAP account not found');
+
+    let session: ImapSession | null = null;
+    try {
+      session = await ImapSession.connect(account.mailServer.imap, credentialsOf(account));
+      const mailboxes = await session.list();
+      const selectable = new Set(mailboxes.filter(isSelectable).map((m) => m.name));
+      const targets = toFolderRows(mailboxes)
+        .filter((f) => selectable.has(f.externalFolderId) && (!args.folder || f.canonicalFolder === args.folder))
+        .map((f) => f.externalFolderId);
+
+      let imported = 0;
+      for (const mailbox of targets) {
+        if (imported >= SERVER_SEARCH_DEPTH) break;
+        const status = await session.open(mailbox, true);
+        if (status.exists === 0) continue;
+
+        const uids = (await session.search(args.criteria)).sort((a, b) => b - a).slice(0, SERVER_SEARCH_DEPTH);
+        const known = new Set(await ctx.runQuery(internal.productivity.email.search.knownExternalIds, {
+          accountId, externalMessageIds: uids.map((uid) => imapMessageKey(mailbox, status.uidValidity, uid)),
+        }));
+        const missing = uids
+          .filter((uid) => !known.has(imapMessageKey(mailbox, status.uidValidity, uid)))
+          .slice(0, SERVER_SEARCH_DEPTH - imported);
+        if (missing.length === 0) continue;
+
+        const fetched = await session.fetch(missing.join(','), FETCH_ITEMS);
+        imported += (await storeFetched(ctx, session, accountId, mailbox, status.uidValidity, fetched)).parsed.length;
+      }
+      return { imported };
+    } finally {
+      await session?.logout();
+    }
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEND
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Send through the account's SMTP server, then file a copy in its Sent
+ * mailbox (IMAP servers do not do that for SMTP submissions)
+ */
+export const sendImapMessage = internalAction({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    to: v.array(mailAddressValidator),
+    cc: v.optional(v.array(mailAddressValidator)),
+    bcc: v.optional(v.array(mailAddressValidator)),
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+    inReplyTo: v.optional(v.string()),
+    references: v.optional(v.array(v.string())),
+    attachments: v.optional(v.array(mailAttachmentValidator)),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; messageId?: string; error?: string }> => {
+    const account = await loadAccount(ctx, args.accountId);
+    if (!account) return { success: false, error: 'IMAP account not found' };
+
+    const from: MailAddress = { name: '', email: account.emailAddress };
+    const { accountId, ...mail } = args;
+    const messageId = createMessageId(from);
+    const raw = buildMimeMessage({ ...mail, from }, messageId);
+    const recipients = [...args.to, ...(args.cc ?? []), ...(args.bcc ?? [])].map((r) => r.email);
+
+    try {
+      await sendSmtpMessage(account.mailServer.smtp, credentialsOf(account), account.emailAddress, recipients, raw);
+    } catch (error) {
+      console.error('SMTP send failed:', describeError(error));
+      return { success: false, error: describeError(error) };
+    }
+
+    // The mail is out - a failed Sent copy is logged, not reported as a failed send
+    let session: ImapSession | null = null;
+    try {
+      session = await ImapSession.connect(account.mailServer.imap, credentialsOf(account));
+      const sent = findSpecialMailbox(await session.list(), CanonicalFolder.SENT);
+      if (sent) await session.append(sent, raw, ['\\Seen']);
+      await ctx.scheduler.runAfter(0, internal.productivity.email.imapSync.syncImapMessages, { accountId, isBackground: true });
+    } catch (error) {
+      console.error('IMAP Sent copy failed:', describeError(error));
+    } finally {
+      await session?.logout();
+    }
+    return { success: true, messageId };
+  },
+});
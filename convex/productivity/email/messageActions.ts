@@ -0,0 +1,106 @@
+// Provider-routed user actions: the email console calls these, each message
+// goes to the action for its account's provider (Outlook, Gmail or IMAP)
+import { v } from 'convex/values';
+import { action, internalQuery } from '@/convex/_generated/server';
+import { api, internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+
+type ActionResult = { success: boolean; error?: string };
+type ReadStatusResult = {
+  success: boolean;
+  processed: number;
+  failed: number;
+  skipped: number;
+  hadRateLimiting: boolean;
+  errors?: string[];
+};
+
+export const getMessageProviders = internalQuery({
+  args: { messageIds: v.array(v.id('productivity_email_Index')) },
+  handler: async (ctx, args) => {
+    const providers: Record<string, 'gmail' | 'outlook' | 'imap'> = {};
+    for (const messageId of args.messageIds) {
+      const message = await ctx.db.get(messageId);
+      const account = message ? await ctx.db.get(message.accountId) : null;
+      if (account) providers[messageId] = account.provider;
+    }
+    return providers;
+  },
+});
+
+export const trashMessage = action({
+  args: { userId: v.id('admin_users'), messageId: v.id('productivity_email_Index') },
+  handler: async (ctx, args): Promise<ActionResult> => {
+    const providers = await ctx.runQuery(internal.productivity.email.messageActions.getMessageProviders, { messageIds: [args.messageId] });
+    if (providers[args.messageId] === 'gmail') {
+      return await ctx.runAction(internal.productivity.email.gmailActions.trashGmailMessage, args);
+    }
+    if (providers[args.messageId] === 'imap') {
+      return await ctx.runAction(internal.productivity.email.imapActions.trashImapMessage, args);
+    }
+    return await ctx.runAction(api.productivity.email.outlookActions.deleteOutlookMessage, args);
+  },
+});
+
+export const archiveMessage = action({
+  args: { userId: v.id('admin_users'), messageId: v.id('productivity_email_Index') },
+  handler: async (ctx, args): Promise<ActionResult> => {
+    const providers = await ctx.runQuery(internal.productivity.email.messageActions.getMessageProviders, { messageIds: [args.messageId] });
+    if (providers[args.messageId] === 'gmail') {
+      return await ctx.runAction(internal.productivity.email.gmailActions.archiveGmailMessage, args);
+    }
+    if (providers[args.messageId] === 'imap') {
+      return await ctx.runAction(internal.productivity.email.imapActions.archiveImapMessage, args);
+    }
+    return await ctx.runAction(api.productivity.email.outlookActions.archiveOutlookMessage, args);
+  },
+});
+
+/**
+ * Push read/unread to each provider - results are summed
+ */
+export const batchMarkReadStatus = action({
+  args: {
+    userId: v.id('admin_users'),
+    messageIds: v.array(v.id('productivity_email_Index')),
+    isRead: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<ReadStatusResult> => {
+    const providers = await ctx.runQuery(internal.productivity.email.messageActions.getMessageProviders, { messageIds: args.messageIds });
+    const gmailIds: Id<'productivity_email_Index'>[] = [];
+    const imapIds: Id<'productivity_email_Index'>[] = [];
+    const outlookIds: Id<'productivity_email_Index'>[] = [];
+    for (const messageId of args.messageIds) {
+      if (providers[messageId] === 'gmail') gmailIds.push(messageId);
+      else if (providers[messageId] === 'imap') imapIds.push(messageId);
+      else outlookIds.push(messageId);
+    }
+
+    const results: ReadStatusResult[] = [];
+    if (outlookIds.length > 0) {
+      results.push(await ctx.runAction(api.productivity.email.outlookActions.batchMarkOutlookReadStatus, {
+        userId: args.userId, messageIds: outlookIds, isRead: args.isRead,
+      }));
+    }
+    if (gmailIds.length > 0) {
+      results.push(await ctx.runAction(internal.productivity.email.gmailActions.batchMarkGmailReadStatus, {
+        userId: args.userId, messageIds: gmailIds, isRead: args.isRead,
+      }));
+    }
+    if (imapIds.length > 0) {
+      results.push(await ctx.runAction(internal.productivity.email.imapActions.batchMarkImapReadStatus, {
+        userId: args.userId, messageIds: imapIds, isRead: args.isRead,
+      }));
+    }
+
+    const errors = results.flatMap((r) => r.errors ?? []);
+    return {
+      success: results.every((r) => r.success),
+      processed: results.reduce((sum, r) => sum + r.processed, 0),
+      failed: results.reduce((sum, r) => sum + r.failed, 0),
+      skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+      hadRateLimiting: results.some((r) => r.hadRateLimiting),
+      errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+    };
+  },
+});
@@ -0,0 +1,127 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  ✉️ MIME BUILDER - Pure Functions (No Convex)                             │
+│  /convex/productivity/email/mime.ts                                       │
+│                                                                           │
+│  RFC 5322 message assembly for outgoing mail. Output is a plain string    │
+│  of 7-bit lines - safe for SMTP DATA, IMAP APPEND and raw-upload APIs.    │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+export type MailAddress = { name: string; email: string };
+
+export type MailAttachment = { filename: string; contentType: string; contentBase64: string };
+
+export type OutgoingMail = {
+  from: MailAddress;
+  to: MailAddress[];
+  cc?: MailAddress[];
+  bcc?: MailAddress[];
+  subject: string;
+  text: string;
+  html?: string;
+  /** Message-ID being replied to ("<id@host>") */
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: MailAttachment[];
+};
+
+/** Runs in the V8 runtime too - no Buffer */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function utf8ToBase64(value: string): string {
+  return bytesToBase64(new TextEncoder().encode(value));
+}
+
+/** base64url without padding (Gmail raw uploads) */
+export function toBase64Url(raw: string): string {
+  return btoa(raw).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Base64 body wrapped at 76 columns (RFC 2045) */
+function base64Lines(value: string): string {
+  return utf8ToBase64(value).replace(/.{1,76}/g, '$&\r\n');
+}
+
+/** RFC 2047 encoded word when the value is not plain ASCII */
+export function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${utf8ToBase64(value)}?=`;
+}
+
+export function formatAddress(address: MailAddress): string {
+  if (!address.name) return address.email;
+  const name = encodeHeaderValue(address.name);
+  return name === address.name ? `"${name.replace(/"/g, '\\"')}" <${address.email}>` : `${name} <${address.email}>`;
+}
+
+/** "<uuid@domain-of-sender>" - a fixed local part keeps the id stable across re-uploads */
+export function createMessageId(from: MailAddress, localPart: string = crypto.randomUUID()): string {
+  const domain = from.email.split('@')[1] || 'localhost';
+  return `<${localPart}@${domain}>`;
+}
+
+/**
+ * Assemble a message. Bcc is deliberately left out of the headers -
+ * recipients travel in the envelope only.
+ */
+export function buildMimeMessage(mail: OutgoingMail, messageId: string, date = new Date()): string {
+  const headers = [
+    `From: ${formatAddress(mail.from)}`,
+    `To: ${mail.to.map(formatAddress).join(', ')}`,
+    ...(mail.cc?.length ? [`Cc: ${mail.cc.map(formatAddress).join(', ')}`] : []),
+    `Subject: ${encodeHeaderValue(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    ...(mail.inReplyTo ? [`In-Reply-To: ${mail.inReplyTo}`] : []),
+    ...(mail.references?.length ? [`References: ${mail.references.join(' ')}`] : []),
+    'MIME-Version: 1.0',
+  ];
+
+  const body = bodyPart(mail);
+  if (!mail.attachments?.length) return [...headers, ...body].join('\r\n');
+
+  const boundary = `=_fuse_${crypto.randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...body,
+    ...mail.attachments.flatMap((attachment) => [`--${boundary}`, ...attachmentPart(attachment)]),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/** Text body, or text + HTML as multipart/alternative */
+function bodyPart(mail: OutgoingMail): string[] {
+  const textPart = ['Content-Type: text/plain; charset=UTF-8', 'Content-Transfer-Encoding: base64', '', base64Lines(mail.text)];
+  if (!mail.html) return textPart;
+
+  const boundary = `=_fuse_${crypto.randomUUID()}`;
+  return [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(mail.html),
+    `--${boundary}--`,
+  ];
+}
+
+function attachmentPart(attachment: MailAttachment): string[] {
+  const filename = encodeHeaderValue(attachment.filename).replace(/"/g, '');
+  return [
+    `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${filename}"`,
+    '',
+    attachment.contentBase64.replace(/\s/g, '').replace(/.{1,76}/g, '$&\r\n'),
+  ];
+}
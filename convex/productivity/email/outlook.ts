@@ -8,6 +8,7 @@
 import { v } from 'convex/values';
 import { mutation, query, action } from '@/convex/_generated/server';
 import { api } from '@/convex/_generated/api';
+import { requireActiveOrgId } from '@/convex/domains/admin/orgs/model';
 import {
   CanonicalFolder,
   OUTLOOK_FOLDER_MAP,
@@ -63,7 +64,7 @@ export const storeOutlookTokens = mutation({
         label: 'Outlook', emailAddress: microsoftEmail, ownerEmail: user.email, provider: 'outlook',
         providerVariant: args.providerVariant, accessToken: args.accessToken, refreshToken: args.refreshToken,
         tokenExpiresAt: args.expiresAt, syncFrequency: 5 * 60 * 1000, syncEnabled: true, status: 'active',
-        orgId: user.orgSlug || user._id, userId: user._id, createdAt: now, updatedAt: now, connectedAt: now,
+        orgId: requireActiveOrgId(user), userId: user._id, createdAt: now, updatedAt: now, connectedAt: now,
       });
     }
   },
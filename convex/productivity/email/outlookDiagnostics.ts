@@ -7,151 +7,7 @@
 
 import { v } from 'convex/values';
 import { mutation, query } from '@/convex/_generated/server';
-import { Id } from '@/convex/_generated/dataModel';
-
-// ═══════════════════════════════════════════════════════════════════════════
-// ACCOUNT DISCONNECT (Destructive cascade)
-// ═══════════════════════════════════════════════════════════════════════════
-
-export const disconnectOutlookAccount = mutation({
-  args: {
-    userId: v.id('admin_users'),
-    accountId: v.id('productivity_email_Accounts'),
-  },
-  handler: async (ctx, args) => {
-    const user = await ctx.db.get(args.userId);
-    if (!user) throw new Error('User not found');
-
-    const account = await ctx.db.get(args.accountId);
-    if (!account) throw new Error('Account not found');
-
-    if (account.userId !== user._id) throw new Error('Account does not belong to user');
-
-    // 1. Delete body cache entries
-    const cacheEntries = await ctx.db
-      .query('productivity_email_BodyCache')
-      .withIndex('by_account', (q) => q.eq('accountId', args.accountId))
-      .collect();
-
-    let cacheBodiesDeleted = 0;
-    for (const entry of cacheEntries) {
-      await ctx.storage.delete(entry.storageId);
-      await ctx.db.delete(entry._id);
-      cacheBodiesDeleted++;
-    }
-
-    // 2. Get all messages
-    const messages = await ctx.db
-      .query('productivity_email_Index')
-      .withIndex('by_account', (q) => q.eq('accountId', args.accountId))
-      .collect();
-
-    // 3. Delete AssetReferences
-    const assetIdsToCheck = new Set<string>();
-    let assetRefsDeleted = 0;
-
-    for (const msg of messages) {
-      const refs = await ctx.db
-        .query('productivity_email_AssetReferences')
-        .withIndex('by_message', (q) => q.eq('messageId', msg._id))
-        .collect();
-
-      for (const ref of refs) {
-        assetIdsToCheck.add(ref.assetId);
-        await ctx.db.delete(ref._id);
-        assetRefsDeleted++;
-      }
-    }
-
-    // 4. Clean up orphaned Assets
-    let assetsDeleted = 0;
-    let storageBlobsDeleted = 0;
-
-    for (const assetIdStr of assetIdsToCheck) {
-      const assetId = assetIdStr as Id<'productivity_email_Assets'>;
-      const asset = await ctx.db.get(assetId);
-      if (!asset) continue;
-
-      const remainingRefs = await ctx.db
-        .query('productivity_email_AssetReferences')
-        .withIndex('by_asset', (q) => q.eq('assetId', assetId))
-        .first();
-
-      if (!remainingRefs) {
-        if (asset.storageId) {
-          await ctx.storage.delete(asset.storageId);
-          storageBlobsDeleted++;
-        }
-        await ctx.db.delete(asset._id);
-        assetsDeleted++;
-      }
-    }
-
-    // 5. Delete all messages
-    let messagesDeleted = 0;
-    for (const msg of messages) {
-      await ctx.db.delete(msg._id);
-      messagesDeleted++;
-    }
-
-    // 6. Delete all folders
-    const folders = await ctx.db
-      .query('productivity_email_Folders')
-      .withIndex('by_account', (q) => q.eq('accountId', args.accountId))
-      .collect();
-
-    let foldersDeleted = 0;
-    for (const folder of folders) {
-      await ctx.db.delete(folder._id);
-      foldersDeleted++;
-    }
-
-    // 7. Delete webhook subscriptions
-    const webhooks = await ctx.db
-      .query('productivity_email_WebhookSubscriptions')
-      .withIndex('by_account', (q) => q.eq('accountId', args.accountId))
-      .collect();
-
-    let webhooksDeleted = 0;
-    for (const webhook of webhooks) {
-      await ctx.db.delete(webhook._id);
-      webhooksDeleted++;
-    }
-
-    // 8. GC sweep for orphaned assets
-    const allAssets = await ctx.db.query('productivity_email_Assets').collect();
-
-    for (const asset of allAssets) {
-      const hasRefs = await ctx.db
-        .query('productivity_email_AssetReferences')
-        .withIndex('by_asset', (q) => q.eq('assetId', asset._id))
-        .first();
-
-      if (!hasRefs) {
-        if (asset.storageId) {
-          await ctx.storage.delete(asset.storageId);
-        }
-        await ctx.db.delete(asset._id);
-      }
-    }
-
-    // 9. Delete the account
-    await ctx.db.delete(args.accountId);
-
-    console.log(`Disconnected ${account.emailAddress}: ${messagesDeleted} msgs, ${foldersDeleted} folders`);
-
-    return {
-      success: true,
-      messagesDeleted,
-      assetRefsDeleted,
-      assetsDeleted,
-      storageBlobsDeleted,
-      foldersDeleted,
-      cacheBodiesDeleted,
-      webhooksDeleted,
-    };
-  },
-});
+import type { Doc } from '@/convex/_generated/dataModel';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // DEBUG QUERIES
@@ -480,15 +336,17 @@ export const testMessageQuery = query({
     if (!user) return { error: 'User not found' };
 
     const rank = user.rank || 'crew';
-    const orgId = user._id as string;
+    const orgId = user.orgId;
 
     // Simulate the listMessages query
-    let messages;
+    let messages: Doc<'productivity_email_Index'>[];
     if (rank === 'admiral') {
       messages = await ctx.db
         .query('productivity_email_Index')
         .order('desc')
         .take(10);
+    } else if (!orgId) {
+      messages = [];
     } else {
       messages = await ctx.db
         .query('productivity_email_Index')
@@ -29,7 +29,7 @@ export const getMessageReadStatus = query({
  *
  * Called after rate limiting detected. Ensures Microsoft mirrors Convex.
  * Reads current Convex state for each message, pushes to Microsoft.
- * Uses same batch mechanism as batchMarkOutlookReadStatus.
+ * Routes through messageActions.batchMarkReadStatus, so Gmail messages go to Gmail.
  */
 export const reconcileReadStatus = action({
   args: {
@@ -64,7 +64,7 @@ export const reconcileReadStatus = action({
 
     // Re-push READ messages
     if (readMessages.length > 0) {
-      const readResult = await ctx.runAction(api.productivity.email.outlookActions.batchMarkOutlookReadStatus, {
+      const readResult = await ctx.runAction(api.productivity.email.messageActions.batchMarkReadStatus, {
         userId: args.userId,
         messageIds: readMessages.map(m => m._id) as Id<'productivity_email_Index'>[],
         isRead: true,
@@ -75,7 +75,7 @@ export const reconcileReadStatus = action({
 
     // Re-push UNREAD messages
     if (unreadMessages.length > 0) {
-      const unreadResult = await ctx.runAction(api.productivity.email.outlookActions.batchMarkOutlookReadStatus, {
+      const unreadResult = await ctx.runAction(api.productivity.email.messageActions.batchMarkReadStatus, {
         userId: args.userId,
         messageIds: unreadMessages.map(m => m._id) as Id<'productivity_email_Index'>[],
         isRead: false,
@@ -279,7 +279,7 @@ export const storeOutlookMessages = mutation({
         assetsProcessed: !!bodyAssetId,
         assetsProcessedAt: bodyAssetId ? now : undefined,
         assetCount,
-        orgId: user._id as string,
+        orgId: account.orgId,
         createdAt: now,
         updatedAt: now,
       });
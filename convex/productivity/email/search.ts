@@ -0,0 +1,176 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔍 EMAIL SEARCH - Provider Fallback                                      │
+│  /convex/productivity/email/search.ts                                     │
+│                                                                           │
+│  The console searches the synced index (domains/productivity/search).     │
+│  With includeServer the provider is asked too - Gmail `q`, Graph          │
+│  `$search`, IMAP UID SEARCH - and hits not synced yet are imported        │
+│  through that provider's store before the index is searched again.        │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import { v } from 'convex/values';
+import { action, internalQuery, type ActionCtx } from '@/convex/_generated/server';
+import { api, internal } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { emailSearchQueryValidator } from '@/convex/domains/productivity/search/queries';
+import { isEmptySearch, toGmailQuery, toImapSearch, toOutlookSearch, type EmailSearchQuery } from '@/domains/email';
+import { outlookAccessToken } from './compose';
+import { ensureFreshGmailToken } from './gmail';
+import { fetchGmailMessages, searchGmailMessageIds } from './gmailHelpers';
+import { MESSAGE_FIELDS } from './outlookCanonical';
+
+const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
+
+/** Provider matches imported per account per search */
+const SERVER_SEARCH_DEPTH = 50;
+
+type SearchAccount = {
+  _id: Id<'productivity_email_Accounts'>;
+  provider: 'gmail' | 'outlook' | 'imap';
+  emailAddress: string;
+  folderMap: Record<string, { displayName: string }>;
+};
+
+export type SearchResult = {
+  messageIds: Id<'productivity_email_Index'>[];
+  /** Messages imported from the provider */
+  imported: number;
+  error?: string;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** The user's accounts; Outlook ones carry the folder map its store needs */
+export const getSearchAccounts = internalQuery({
+  args: { userId: v.id('admin_users') },
+  handler: async (ctx, args): Promise<SearchAccount[]> => {
+    const accounts = await ctx.db
+      .query('productivity_email_Accounts')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .collect();
+
+    return await Promise.all(accounts.map(async (account) => {
+      const folderMap: Record<string, { displayName: string }> = {};
+      if (account.provider === 'outlook') {
+        const folders = await ctx.db
+          .query('productivity_email_Folders')
+          .withIndex('by_account', (q) => q.eq('accountId', account._id))
+          .collect();
+        for (const folder of folders) folderMap[folder.externalFolderId] = { displayName: folder.displayName };
+      }
+      return { _id: account._id, provider: account.provider, emailAddress: account.emailAddress, folderMap };
+    }));
+  },
+});
+
+/** Which of these provider ids are already in the index */
+export const knownExternalIds = internalQuery({
+  args: {
+    accountId: v.id('productivity_email_Accounts'),
+    externalMessageIds: v.array(v.string()),
+  },
+  handler: async (ctx, args): Promise<string[]> => {
+    const known: string[] = [];
+    for (const externalMessageId of args.externalMessageIds) {
+      const existing = await ctx.db
+        .query('productivity_email_Index')
+        .withIndex('by_external_message_id', (q) => q.eq('externalMessageId', externalMessageId))
+        .filter((q) => q.eq(q.field('accountId'), args.accountId))
+        .first();
+      if (existing) known.push(externalMessageId);
+    }
+    return known;
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROVIDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function unknownIds(ctx: ActionCtx, accountId: Id<'productivity_email_Accounts'>, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const known = new Set(await ctx.runQuery(internal.productivity.email.search.knownExternalIds, { accountId, externalMessageIds: ids }));
+  return ids.filter((id) => !known.has(id));
+}
+
+async function searchGmail(ctx: ActionCtx, account: SearchAccount, search: EmailSearchQuery): Promise<number> {
+  const accessToken = await ensureFreshGmailToken(ctx, account._id);
+  if (!accessToken) throw new Error('Not connected to Gmail');
+
+  const ids = await searchGmailMessageIds(accessToken, toGmailQuery(search), SERVER_SEARCH_DEPTH);
+  const { messages } = await fetchGmailMessages(accessToken, await unknownIds(ctx, account._id, ids));
+  if (messages.length === 0) return 0;
+  await ctx.runMutation(internal.productivity.email.gmailStore.storeGmailMessages, { accountId: account._id, messages });
+  return messages.length;
+}
+
+/** Searches every folder - `folder:` is applied when the index is searched afterwards */
+async function searchOutlook(ctx: ActionCtx, userId: Id<'admin_users'>, account: SearchAccount, search: EmailSearchQuery): Promise<number> {
+  const accessToken = await outlookAccessToken(ctx, userId);
+  if (!accessToken) throw new Error('No Outlook access token');
+
+  const params = new URLSearchParams({ $search: toOutlookSearch(search), $select: MESSAGE_FIELDS, $top: String(SERVER_SEARCH_DEPTH) });
+  const response = await fetch(`${GRAPH_API_BASE}/me/messages?${params}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) throw new Error(`Graph API error: ${response.status}`);
+
+  const { value = [] } = await response.json() as { value?: Array<{ id: string }> };
+  const missing = new Set(await unknownIds(ctx, account._id, value.map((message) => message.id)));
+  const messages = value.filter((message) => missing.has(message.id));
+  if (messages.length === 0) return 0;
+  await ctx.runMutation(api.productivity.email.outlookStore.storeOutlookMessages, {
+    userId, messages, bodyStorageMap: {}, folderMap: account.folderMap,
+  });
+  return messages.length;
+}
+
+async function searchImap(ctx: ActionCtx, account: SearchAccount, search: EmailSearchQuery): Promise<number> {
+  const criteria = toImapSearch(search);
+  if (!criteria) return 0;
+  const { imported } = await ctx.runAction(internal.productivity.email.imapSync.searchImapServer, {
+    accountId: account._id, criteria, folder: search.folder,
+  });
+  return imported;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEARCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Search the index, asking the providers first when `includeServer` is set
+ * A provider that fails is reported in `error`; the others still import
+ */
+export const searchMessages = action({
+  args: {
+    userId: v.id('admin_users'),
+    search: emailSearchQueryValidator,
+    includeServer: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<SearchResult> => {
+    const { userId, search } = args;
+    let imported = 0;
+    const errors: string[] = [];
+
+    // Folder and state only exist locally - nothing to ask the provider
+    if (args.includeServer && !isEmptySearch({ ...search, folder: undefined, state: undefined })) {
+      const accounts = await ctx.runQuery(internal.productivity.email.search.getSearchAccounts, { userId });
+      for (const account of accounts) {
+        try {
+          if (account.provider === 'gmail') imported += await searchGmail(ctx, account, search);
+          else if (account.provider === 'outlook') imported += await searchOutlook(ctx, userId, account, search);
+          else imported += await searchImap(ctx, account, search);
+        } catch (error) {
+          console.error(`Server search failed for ${account.emailAddress}:`, error);
+          errors.push(`${account.emailAddress}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    const messageIds = await ctx.runQuery(api.domains.productivity.api.searchEmails, { callerUserId: userId, search });
+    return { messageIds, imported, error: errors.length > 0 ? errors.join('; ') : undefined };
+  },
+});
@@ -0,0 +1,147 @@
+'use node';
+/**─────────────────────────────────────────────────────────────────────────┐
+│  📤 SMTP CLIENT - Submission (Node runtime)                               │
+│  /convex/productivity/email/smtpClient.ts                                 │
+│                                                                           │
+│  EHLO → STARTTLS → AUTH (PLAIN, else LOGIN) → MAIL/RCPT/DATA → QUIT.      │
+│  The message itself is built by mime.ts.                                  │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+import os from 'node:os';
+import type net from 'node:net';
+import { openMailSocket, upgradeToTls, type MailCredentials, type MailServer } from './imapClient';
+
+type SmtpReply = { code: number; lines: string[] };
+
+/** Server rejected a step - `code` is the SMTP reply code */
+export class SmtpError extends Error {
+  constructor(readonly step: string, readonly code: number, readonly text: string) {
+    super(`SMTP ${step} failed (${code}): ${text}`);
+    this.name = 'SmtpError';
+  }
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private wake: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach();
+  }
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      this.lines.push(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end + 2);
+    }
+    this.wake?.();
+  };
+
+  private readonly onEnd = (error?: Error) => {
+    this.failure = error instanceof Error ? error : new Error('SMTP connection closed');
+    this.wake?.();
+  };
+
+  private attach() {
+    this.socket.on('data', this.onData);
+    this.socket.on('error', this.onEnd);
+    this.socket.on('close', this.onEnd);
+  }
+
+  async startTls(host: string) {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onEnd);
+    this.socket.off('close', this.onEnd);
+    this.socket = await upgradeToTls(this.socket, host);
+    this.attach();
+  }
+
+  /** One reply - "250-..." lines continue, "250 ..." ends it */
+  async read(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      while (this.lines.length === 0) {
+        if (this.failure) throw this.failure;
+        await new Promise<void>((resolve) => { this.wake = resolve; });
+        this.wake = null;
+      }
+      const line = this.lines.shift() as string;
+      lines.push(line.slice(4));
+      if (line[3] !== '-') return { code: Number(line.slice(0, 3)), lines };
+    }
+  }
+
+  /** Send a line and require one of `expected` reply codes */
+  async send(step: string, line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(step, expected);
+  }
+
+  async expect(step: string, expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) throw new SmtpError(step, reply.code, reply.lines.join(' '));
+    return reply;
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+async function authenticate(connection: SmtpConnection, extensions: string[], credentials: MailCredentials) {
+  const auth = extensions.find((line) => /^AUTH[ =]/i.test(line))?.toUpperCase().split(/[ =]/).slice(1) ?? [];
+  // Servers that advertise no AUTH (local relays, test containers) accept mail as-is
+  if (auth.length === 0) return;
+
+  const encode = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+  if (auth.includes('PLAIN')) {
+    await connection.send('AUTH', `AUTH PLAIN ${encode(`\0${credentials.username}\0${credentials.password}`)}`, [235]);
+  } else {
+    await connection.send('AUTH', 'AUTH LOGIN', [334]);
+    await connection.send('AUTH', encode(credentials.username), [334]);
+    await connection.send('AUTH', encode(credentials.password), [235]);
+  }
+}
+
+/**
+ * Deliver one message
+ * @param envelopeFrom - MAIL FROM address
+ * @param recipients - every To/Cc/Bcc address
+ * @param message - complete RFC 5322 message from buildMimeMessage
+ */
+export async function sendSmtpMessage(
+  server: MailServer,
+  credentials: MailCredentials,
+  envelopeFrom: string,
+  recipients: string[],
+  message: string
+): Promise<void> {
+  const connection = new SmtpConnection(await openMailSocket(server));
+  try {
+    await connection.expect('connect', [220]);
+    let ehlo = await connection.send('EHLO', `EHLO ${os.hostname() || 'localhost'}`, [250]);
+
+    if (server.security === 'starttls') {
+      await connection.send('STARTTLS', 'STARTTLS', [220]);
+      await connection.startTls(server.host);
+      ehlo = await connection.send('EHLO', `EHLO ${os.hostname() || 'localhost'}`, [250]);
+    }
+
+    await authenticate(connection, ehlo.lines, credentials);
+    await connection.send('MAIL FROM', `MAIL FROM:<${envelopeFrom}>`, [250]);
+    for (const recipient of recipients) {
+      await connection.send('RCPT TO', `RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.send('DATA', 'DATA', [354]);
+    // Dot-stuffing: a line starting with "." gets a second one
+    const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await connection.send('DATA', `${body}${body.endsWith('\r\n') ? '' : '\r\n'}.`, [250]);
+    await connection.send('QUIT', 'QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -15,8 +15,9 @@
 └──────────────────────────────────────────────────────────────────────────────┘ */
 
 import { v } from 'convex/values';
-import { mutation, query, internalMutation, internalQuery } from '@/convex/_generated/server';
-import { api } from '@/convex/_generated/api';
+import { mutation, query, internalMutation, internalQuery, type MutationCtx } from '@/convex/_generated/server';
+import { api, internal } from '@/convex/_generated/api';
+import type { Doc } from '@/convex/_generated/dataModel';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SYNC CONFIGURATION (Server-controlled, not user-exposed)
@@ -54,6 +55,37 @@ const IDLE_THRESHOLDS = {
   heavy: 24 * 60 * 60 * 1000,   // 24 hours → 8x interval
 } as const;
 
+/**
+ * Schedule the provider-specific sync action for an account
+ * Outlook syncs per user, Gmail and IMAP per account
+ */
+async function scheduleProviderSync(
+  ctx: MutationCtx,
+  account: Doc<'productivity_email_Accounts'>,
+  isBackground: boolean
+): Promise<boolean> {
+  if (account.provider === 'outlook') {
+    await ctx.scheduler.runAfter(0, api.productivity.email.outlook.syncOutlookMessages, {
+      userId: account.userId,
+      syncMode: 'full',
+      isBackground,
+    });
+    return true;
+  }
+  if (account.provider === 'gmail') {
+    await ctx.scheduler.runAfter(0, internal.productivity.email.gmail.syncGmailMessages, {
+      accountId: account._id,
+      isBackground,
+    });
+    return true;
+  }
+  await ctx.scheduler.runAfter(0, internal.productivity.email.imapSync.syncImapMessages, {
+    accountId: account._id,
+    isBackground,
+  });
+  return true;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // INTERNAL QUERIES (Called by cron and actions)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -245,11 +277,7 @@ export const requestImmediateSync = mutation({
       // Schedule immediate sync - all intents sync all folders
       // Manual = show spinner, other intents = invisible
       const isManual = args.intent === 'manual';
-      await ctx.scheduler.runAfter(0, api.productivity.email.outlook.syncOutlookMessages, {
-        userId: user._id,
-        syncMode: 'full',
-        isBackground: !isManual, // manual = visible, focus/reconnect/inbox_open = invisible
-      });
+      if (!await scheduleProviderSync(ctx, account, !isManual)) continue;
 
       // Update nextSyncAt to prevent duplicate triggers
       await ctx.db.patch(account._id, {
@@ -351,17 +379,7 @@ export const processEmailSyncQueue = internalMutation({
 
       // Trigger provider-specific sync action
       // Background sync is invisible - sync all folders for correctness
-      if (account.provider === 'outlook') {
-        await ctx.scheduler.runAfter(0, api.productivity.email.outlook.syncOutlookMessages, {
-          userId: account.userId,
-          syncMode: 'full',
-          isBackground: true, // Cron = invisible, no spinner
-        });
-        triggered++;
-      } else if (account.provider === 'gmail') {
-        // TODO: Implement Gmail sync
-        console.log(`⏭️ Gmail sync not yet implemented for ${account.emailAddress}`);
-      }
+      if (await scheduleProviderSync(ctx, account, true)) triggered++; // Cron = invisible, no spinner
     }
 
     console.log(`📧 Sync queue: Triggered ${triggered} syncs`);
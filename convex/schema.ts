@@ -1,5 +1,9 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { adminTables } from "./domains/admin/schema";
+import { clientsTables } from "./domains/clients/schema";
+import { financeTables } from "./domains/finance/schema";
+import { projectsTables } from "./domains/projects/schema";
 
 export default defineSchema({
   // ═══════════════════════════════════════════════════════════════════════════
@@ -54,7 +58,8 @@ export default defineSchema({
     brandLogoUrl: v.optional(v.union(v.string(), v.id("_storage"))),
     entityName: v.string(), // Default: "" (empty string)
     socialName: v.string(), // Default: "" (empty string)
-    orgSlug: v.string(), // Default: "" (empty string)
+    orgSlug: v.string(), // Default: "" - display/legacy only, scoping uses orgId
+    orgId: v.optional(v.id("admin_orgs")), // Active org (set by completeSetup / org membership)
     phoneNumber: v.optional(v.string()),
     businessCountry: v.string(), // Default: "" (empty string)
 
@@ -149,7 +154,10 @@ export default defineSchema({
     // All Clerk→Convex lookups now go through the sovereign registry table.
     // See: _clerk-virus/S.I.D.—SOVEREIGN-IDENTITY-DOCTRINE.md (SID-14.1)
     .index("by_rank", ["rank"])
-    .index("by_subscription_status", ["subscriptionStatus"]),
+    .index("by_subscription_status", ["subscriptionStatus"])
+    .index("by_org", ["orgSlug"])
+    .index("by_org_id", ["orgId"])
+    .index("by_email", ["email"]),
 
   // Vanish Protocol: Immutable audit trail for user deletions
   admin_users_DeleteLog: defineTable({
@@ -223,6 +231,8 @@ export default defineSchema({
     .index("by_deleted_at", ["deletedAt"])
     .index("by_status", ["status"]),
 
+  ...adminTables,
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SETTINGS DOMAIN
   // ═══════════════════════════════════════════════════════════════════════════
@@ -259,158 +269,9 @@ export default defineSchema({
     updatedAt: v.number(),
   }).index("by_user", ["userId"]),
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // CLIENTS DOMAIN
-  // ═══════════════════════════════════════════════════════════════════════════
-
-  clients_contacts_Users: defineTable({
-    // Identity (required)
-    firstName: v.string(),
-    lastName: v.string(),
-    email: v.string(),
-
-    // Profile (optional)
-    company: v.optional(v.string()),
-    jobTitle: v.optional(v.string()),
-    phoneNumber: v.optional(v.string()),
-
-    // SRS rank-scoping (required)
-    /**
-     * @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented.
-     * Currently stores external org identifier (e.g., from Clerk Organizations).
-     * See: _clerk-virus/S.I.D.—SOVEREIGN-IDENTITY-DOCTRINE.md
-     */
-    orgId: v.string(),
-    assignedTo: v.optional(v.id("admin_users")),
-
-    // Status (required with default)
-    status: v.union(
-      v.literal("active"),
-      v.literal("inactive"),
-      v.literal("prospect"),
-      v.literal("archived")
-    ),
-    notes: v.optional(v.string()),
-
-    // Timestamps (required)
-    createdAt: v.number(),
-    updatedAt: v.number(),
-    createdBy: v.id("admin_users"),
-  }).index("by_org", ["orgId"])
-    .index("by_assigned", ["assignedTo"])
-    .index("by_email", ["email"])
-    .index("by_status", ["status"]),
-
-  // ═══════════════════════════════════════════════════════════════════════════
-  // FINANCE DOMAIN
-  // ═══════════════════════════════════════════════════════════════════════════
-
-  finance_banking_Statements: defineTable({
-    // Transaction identity (required)
-    type: v.union(
-      v.literal("invoice"),
-      v.literal("payment"),
-      v.literal("expense")
-    ),
-    amount: v.number(),
-    currency: v.string(),
-    description: v.string(),
-
-    // SRS rank-scoping (required)
-    /**
-     * @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented.
-     */
-    orgId: v.string(),
-
-    // Status (required with default)
-    status: v.union(
-      v.literal("pending"),
-      v.literal("paid"),
-      v.literal("overdue")
-    ),
-    date: v.number(),
-
-    // Timestamps (required)
-    createdAt: v.number(),
-    updatedAt: v.number(),
-    createdBy: v.id("admin_users"),
-  }).index("by_org", ["orgId"])
-    .index("by_type", ["type"])
-    .index("by_status", ["status"])
-    .index("by_date", ["date"]),
-
-  // ═══════════════════════════════════════════════════════════════════════════
-  // PROJECTS DOMAIN
-  // ═══════════════════════════════════════════════════════════════════════════
-
-  projects_tracking_Schedule: defineTable({
-    // Identity (required)
-    name: v.string(),
-    description: v.optional(v.string()),
-
-    // SRS rank-scoping (required)
-    /**
-     * @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented.
-     */
-    orgId: v.string(),
-    assignedTo: v.optional(v.id("admin_users")),
-
-    // Status (required)
-    status: v.union(
-      v.literal("active"),
-      v.literal("completed"),
-      v.literal("archived")
-    ),
-    startDate: v.optional(v.number()),
-    endDate: v.optional(v.number()),
-
-    // Timestamps (required)
-    createdAt: v.number(),
-    updatedAt: v.number(),
-    createdBy: v.id("admin_users"),
-  }).index("by_org", ["orgId"])
-    .index("by_assigned", ["assignedTo"])
-    .index("by_status", ["status"])
-    .index("by_date", ["startDate"]),
-
-  projects_tracking_Costs: defineTable({
-    // Link to project (required)
-    projectId: v.id("projects_tracking_Schedule"),
-
-    // Cost details (required)
-    name: v.string(),
-    amount: v.number(),
-    currency: v.string(),
-    category: v.union(
-      v.literal("labor"),
-      v.literal("materials"),
-      v.literal("equipment"),
-      v.literal("services"),
-      v.literal("other")
-    ),
-
-    // SRS rank-scoping (required)
-    /**
-     * @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented.
-     */
-    orgId: v.string(),
-
-    // Status (required)
-    status: v.union(
-      v.literal("estimated"),
-      v.literal("approved"),
-      v.literal("spent")
-    ),
-    date: v.number(),
-
-    // Timestamps (required)
-    createdAt: v.number(),
-    updatedAt: v.number(),
-    createdBy: v.id("admin_users"),
-  }).index("by_project", ["projectId"])
-    .index("by_org", ["orgId"])
-    .index("by_category", ["category"])
-    .index("by_status", ["status"]),
+  ...clientsTables,
+  ...financeTables,
+  ...projectsTables,
 
   // ═══════════════════════════════════════════════════════════════════════════
   // PRODUCTIVITY DOMAIN
@@ -421,8 +282,7 @@ export default defineSchema({
     body: v.string(),
     from: v.string(),
     to: v.array(v.string()),
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    orgId: v.id("admin_orgs"),
     status: v.union(
       v.literal("draft"),
       v.literal("sent"),
@@ -608,8 +468,7 @@ export default defineSchema({
     assetCount: v.number(),
 
     // SRS rank-scoping (required)
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    orgId: v.id("admin_orgs"),
 
     // Timestamps (required)
     createdAt: v.number(),
@@ -623,7 +482,20 @@ export default defineSchema({
     .index("by_received_at", ["receivedAt"])
     .index("by_sender_email", ["from.email"])
     .index("by_resolvedBy", ["resolvedBy"])
-    .index("by_promotedBy", ["promotedTo.promotedBy"]),
+    .index("by_promotedBy", ["promotedTo.promotedBy"])
+    // Console search: free text per field, operators as filter fields
+    .searchIndex("search_subject", {
+      searchField: "subject",
+      filterFields: ["orgId", "canonicalFolder", "hasAttachments", "resolutionState"],
+    })
+    .searchIndex("search_snippet", {
+      searchField: "snippet",
+      filterFields: ["orgId", "canonicalFolder", "hasAttachments", "resolutionState"],
+    })
+    .searchIndex("search_sender", {
+      searchField: "from.name",
+      filterFields: ["orgId", "canonicalFolder", "hasAttachments", "resolutionState"],
+    }),
 
   /**
    * 📬 EMAIL ACCOUNTS
@@ -648,7 +520,7 @@ export default defineSchema({
     provider: v.union(
       v.literal("gmail"),
       v.literal("outlook"),
-      v.literal("imap") // Future: generic IMAP support
+      v.literal("imap") // Generic IMAP/SMTP with password login
     ),
     /**
      * Provider variant - distinguishes API behavior differences within same provider.
@@ -725,6 +597,23 @@ export default defineSchema({
     gmailHistoryId: v.optional(v.string()),
     /** Outlook: deltaToken for incremental sync */
     outlookDeltaToken: v.optional(v.string()),
+    /** IMAP: server settings (OAuth providers leave this unset) */
+    mailServer: v.optional(v.object({
+      imap: v.object({
+        host: v.string(),
+        port: v.number(),
+        security: v.union(v.literal("tls"), v.literal("starttls"), v.literal("none")),
+      }),
+      smtp: v.object({
+        host: v.string(),
+        port: v.number(),
+        security: v.union(v.literal("tls"), v.literal("starttls"), v.literal("none")),
+      }),
+      /** Login name - often, but not always, the email address */
+      username: v.string(),
+    })),
+    /** IMAP: password or app password, AES-GCM sealed under MAIL_CREDENTIALS_KEY (imapSecrets) - listEmailAccounts strips it */
+    mailPassword: v.optional(v.string()),
 
     // Account status (required)
     status: v.union(
@@ -735,8 +624,7 @@ export default defineSchema({
     ),
 
     // SRS rank-scoping (required)
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    orgId: v.id("admin_orgs"),
     /** Which user owns this account */
     userId: v.id("admin_users"),
 
@@ -781,7 +669,7 @@ export default defineSchema({
     /** Which email account this folder belongs to */
     accountId: v.id("productivity_email_Accounts"),
     /** Provider type (for provider-specific handling) */
-    provider: v.union(v.literal("gmail"), v.literal("outlook")),
+    provider: v.union(v.literal("gmail"), v.literal("outlook"), v.literal("imap")),
     /** Email address of the connected account (for dashboard visibility) */
     ownerEmail: v.optional(v.string()),
 
@@ -790,6 +678,10 @@ export default defineSchema({
     deltaToken: v.optional(v.string()),
     /** When delta token was last updated */
     deltaTokenUpdatedAt: v.optional(v.number()),
+    /** IMAP: UIDVALIDITY the stored messages belong to - a change means re-fetch */
+    imapUidValidity: v.optional(v.number()),
+    /** IMAP: UIDNEXT at the last sync - anything at or above it is new */
+    imapUidNext: v.optional(v.number()),
 
     // Timestamps (required)
     createdAt: v.number(),
@@ -849,8 +741,7 @@ export default defineSchema({
     lastMessageAt: v.number(), // Most recent message timestamp
 
     // SRS rank-scoping (required)
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    orgId: v.id("admin_orgs"),
     /** Which user's inbox this sender appears in */
     userId: v.id("admin_users"),
 
@@ -958,44 +849,192 @@ export default defineSchema({
     .index("by_asset", ["assetId"])
     .index("by_reference_type", ["referenceType"]),
 
+  /**
+   * 🔗 EMAIL LINKS
+   *
+   * Many-to-many relationship: threads ↔ contacts / projects / invoices.
+   * The "Link" action of the email doctrine - the thread stays an email,
+   * unlike a promotion.
+   *
+   * DOCTRINE:
+   * - targetId is the linked document's _id, typed by targetType
+   * - Link and target share the thread's org
+   * - One row per thread/target pair; deleting the target drops its links
+   */
+  productivity_email_Links: defineTable({
+    // Relationship (required)
+    externalThreadId: v.string(),
+    targetType: v.union(
+      v.literal("contact"),  // clients_contacts_Users
+      v.literal("project"),  // projects_tracking_Schedule
+      v.literal("invoice")   // finance_invoicing_Invoices
+    ),
+    targetId: v.string(),
+
+    // SRS rank-scoping (required)
+    orgId: v.id("admin_orgs"),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_thread", ["externalThreadId"])
+    .index("by_target", ["targetType", "targetId"]),
+
+  /**
+   * 📝 EMAIL DRAFTS
+   *
+   * Composer drafts and the send-later queue (one row per unsent message).
+   * Status decides the canonical folder: draft/failed → drafts,
+   * scheduled → scheduled, sending → outbox.
+   *
+   * DOCTRINE:
+   * - Personal: scoped by userId, never by org or rank
+   * - Drafts are mirrored to the provider's drafts folder (recipients + body);
+   *   the synced copy is hidden behind this row via providerMessageId
+   * - A scheduled row holds its Convex job; edits keep it, cancelling drops it
+   * - Delivered rows are deleted - the message reaches "sent" through the provider
+   */
+  productivity_email_Drafts: defineTable({
+    // Ownership (required)
+    userId: v.id("admin_users"),
+    accountId: v.id("productivity_email_Accounts"),
+
+    // Message (required)
+    mode: v.union(
+      v.literal("new"),
+      v.literal("reply"),
+      v.literal("replyAll"),
+      v.literal("forward")
+    ),
+    /** Message replied to or forwarded (threading on send) */
+    replyToMessageId: v.optional(v.id("productivity_email_Index")),
+    to: v.array(v.object({ name: v.string(), email: v.string() })),
+    cc: v.array(v.object({ name: v.string(), email: v.string() })),
+    bcc: v.array(v.object({ name: v.string(), email: v.string() })),
+    subject: v.string(),
+    text: v.string(),
+    /** Rich body - absent in plain-text mode */
+    html: v.optional(v.string()),
+    attachments: v.array(v.object({
+      storageId: v.id("_storage"),
+      filename: v.string(),
+      contentType: v.string(),
+      size: v.number(),
+    })),
+
+    // Lifecycle (required)
+    status: v.union(
+      v.literal("draft"),
+      v.literal("scheduled"),
+      v.literal("sending"),
+      v.literal("failed")
+    ),
+    scheduledFor: v.optional(v.number()),
+    scheduledJobId: v.optional(v.id("_scheduled_functions")),
+    lastError: v.optional(v.string()),
+
+    // Provider mirror (optional)
+    /** Gmail draft id / Outlook message id / IMAP message key */
+    providerDraftId: v.optional(v.string()),
+    /** externalMessageId of the mirrored copy in productivity_email_Index */
+    providerMessageId: v.optional(v.string()),
+    /** Pending mirror upload (debounces bursts of saves) */
+    mirrorJobId: v.optional(v.id("_scheduled_functions")),
+
+    // Timestamps (required)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"])
+    .index("by_account", ["accountId"]),
+
   productivity_calendar_Events: defineTable({
     title: v.string(),
     description: v.optional(v.string()),
+    location: v.optional(v.string()),
     startTime: v.number(),
-    endTime: v.number(),
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    endTime: v.number(), // Exclusive; all-day events run UTC midnight → UTC midnight
+    allDay: v.optional(v.boolean()),
+    rrule: v.optional(v.string()), // RFC 5545 RRULE without the "RRULE:" prefix
+    exdates: v.optional(v.array(v.number())), // Skipped occurrence starts
+    uid: v.optional(v.string()), // iCalendar UID of imported events (re-import updates)
+    orgId: v.id("admin_orgs"),
     attendees: v.array(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
     createdBy: v.id("admin_users"),
   }).index("by_org", ["orgId"])
-    .index("by_start_time", ["startTime"]),
+    .index("by_start_time", ["startTime"])
+    .index("by_org_uid", ["orgId", "uid"]),
 
   productivity_bookings_Form: defineTable({
     clientName: v.string(),
     serviceType: v.string(),
     scheduledTime: v.number(),
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    orgId: v.id("admin_orgs"),
     status: v.union(
       v.literal("pending"),
       v.literal("confirmed"),
       v.literal("cancelled")
     ),
+    notes: v.optional(v.string()),
+    emailThreadId: v.optional(v.string()), // Thread the booking was promoted from
     createdAt: v.number(),
     updatedAt: v.number(),
     createdBy: v.id("admin_users"),
   }).index("by_org", ["orgId"])
     .index("by_status", ["status"]),
 
+  /**
+   * ✅ TASKS
+   *
+   * Org to-do items behind the Tasks board. A task can be promoted from an
+   * email thread (emailThreadId, with promotedTo written back on the
+   * thread's messages) and linked to a project.
+   *
+   * DOCTRINE:
+   * - Board order is `position` within a status column (fractional indexing)
+   * - dueDate is UTC midnight of the due day
+   * - Crew work their org's tasks like everyone else
+   */
+  productivity_tasks_Tasks: defineTable({
+    title: v.string(),
+    description: v.optional(v.string()),
+    status: v.union(
+      v.literal("todo"),
+      v.literal("in_progress"),
+      v.literal("done")
+    ),
+    priority: v.union(
+      v.literal("urgent"),
+      v.literal("high"),
+      v.literal("normal"),
+      v.literal("low")
+    ),
+    position: v.number(),
+    assignedTo: v.optional(v.id("admin_users")),
+    dueDate: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+
+    // Links (optional)
+    emailThreadId: v.optional(v.string()), // externalThreadId of the source thread
+    projectId: v.optional(v.id("projects_tracking_Schedule")),
+
+    orgId: v.id("admin_orgs"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.id("admin_users"),
+  }).index("by_org", ["orgId"])
+    .index("by_assigned", ["assignedTo"])
+    .index("by_project", ["projectId"])
+    .index("by_email_thread", ["emailThreadId"]),
+
   productivity_pipeline_Prospects: defineTable({
     title: v.string(),
     participants: v.array(v.string()),
     scheduledTime: v.number(),
     duration: v.number(),
-    /** @todo SID-ORG: Convert to v.id("admin_orgs") when orgs domain is implemented. */
-    orgId: v.string(),
+    orgId: v.id("admin_orgs"),
     notes: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
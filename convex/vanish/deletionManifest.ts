@@ -92,6 +92,12 @@ export const DELETION_MANIFEST: DeletionManifest = {
     settings_account_Genome: {
       fields: { userId: 'delete' },
     },
+    admin_orgs_Members: {
+      fields: { userId: 'delete' },
+    },
+    admin_orgs_Invites: {
+      fields: { invitedBy: 'delete' },
+    },
 
     // Clients Domain
     clients_contacts_Users: {
@@ -100,11 +106,20 @@ export const DELETION_MANIFEST: DeletionManifest = {
         createdBy: 'delete',
       },
     },
+    clients_pipeline_Deals: {
+      fields: { createdBy: 'delete' },
+    },
 
     // Finance Domain
     finance_banking_Statements: {
       fields: { createdBy: 'delete' },
     },
+    finance_invoicing_Invoices: {
+      fields: { createdBy: 'delete' },
+    },
+    finance_recurring_Templates: {
+      fields: { createdBy: 'delete' },
+    },
 
     // Projects Domain
     projects_tracking_Schedule: {
@@ -148,10 +163,26 @@ export const DELETION_MANIFEST: DeletionManifest = {
     productivity_email_WebhookSubscriptions: {
       fields: { userId: 'delete' },
     },
+    productivity_email_Drafts: {
+      fields: { userId: 'delete' },
+    },
   },
 
   preserve: [
     'admin_users_DeleteLog',    // Immutable audit trail
+    'admin_users_Impersonations', // Audit trail of admiral "view as user" sessions
+    'admin_orgs',               // Shared by every member, outlives any one of them
+    'clients_pipeline_Stages',  // Org pipeline config, referenced by deals
+    'projects_tracking_Budgets', // Org project plan, outlives whoever set it
+    'projects_tracking_Tasks',  // Org project schedule, outlives its assignee
+    'projects_tracking_TaskDependencies', // Links between preserved tasks
+    'projects_tracking_Locations', // Org project sites
+    'productivity_tasks_Tasks', // Org task board, outlives its assignee
+    'productivity_email_Links', // Org record of which threads concern which contacts/projects/invoices
+    'finance_ledger_Accounts',  // Referenced by posted journal lines
+    'finance_ledger_JournalEntries', // Immutable double-entry ledger
+    'finance_currency_Settings', // Org-wide setting, not personal data
+    'finance_currency_Rates',   // Values historical entries in other currencies
     // 'billingHistory' // Example: Financial compliance records
   ],
 
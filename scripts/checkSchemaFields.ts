@@ -5,10 +5,9 @@
  */
 
 import fs from 'fs';
-import path from 'path';
 import { isCorrectlyOptional, getUpgradeInfo } from './schemaPatterns';
+import { schemaFiles } from './schemaFiles';
 
-const SCHEMA_PATH = path.join(process.cwd(), 'convex/schema.ts');
 const isNukeMode = process.argv.includes('--nuke');
 
 interface FieldInfo {
@@ -30,8 +29,8 @@ interface TableInfo {
   startLine: number;
 }
 
-function parseSchema(): TableInfo[] {
-  const content = fs.readFileSync(SCHEMA_PATH, 'utf-8');
+function parseSchema(schemaPath: string): TableInfo[] {
+  const content = fs.readFileSync(schemaPath, 'utf-8');
   const lines = content.split('\n');
   const tables: TableInfo[] = [];
 
@@ -662,7 +661,7 @@ function printStringToFKResults(result: StringToFKResult) {
 // ═══════════════════════════════════════════════════════════════════════════
 
 // Run all phases
-const tables = parseSchema();
+const tables = schemaFiles().flatMap(parseSchema);
 
 // Phase 1: Field classification
 const fieldResult = analyzeFields(tables);
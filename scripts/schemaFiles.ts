@@ -0,0 +1,19 @@
+/**
+ * SCHEMA FILES - Shared by the schema scanners
+ *
+ * convex/schema.ts plus the per-domain modules it spreads in
+ * (convex/domains/<domain>/schema.ts).
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const SCHEMA_PATH = path.join(process.cwd(), 'convex/schema.ts');
+const DOMAINS_PATH = path.join(process.cwd(), 'convex/domains');
+
+export function schemaFiles(): string[] {
+  const domainSchemas = fs.readdirSync(DOMAINS_PATH)
+    .map(domain => path.join(DOMAINS_PATH, domain, 'schema.ts'))
+    .filter(file => fs.existsSync(file));
+  return [SCHEMA_PATH, ...domainSchemas];
+}
@@ -23,23 +23,19 @@ import * as ts from 'typescript';
 import * as fs from 'fs';
 import * as path from 'path';
 import { DELETION_MANIFEST } from '@/convex/vanish/deletionManifest';
+import { schemaFiles } from './schemaFiles';
 
 /**
  * Parsed table information from schema
  */
 interface TableInfo {
   name: string;
-  userFields: UserFieldInfo[];
-  storageFields: StorageFieldInfo[];
+  userFields: FieldInfo[];
+  storageFields: FieldInfo[];
   indexes: IndexInfo[];
 }
 
-interface UserFieldInfo {
-  fieldName: string;
-  isOptional: boolean;
-}
-
-interface StorageFieldInfo {
+interface FieldInfo {
   fieldName: string;
   isOptional: boolean;
 }
@@ -67,12 +63,7 @@ interface VerificationResult {
  */
 function parseSchema(schemaPath: string): TableInfo[] {
   const sourceCode = fs.readFileSync(schemaPath, 'utf-8');
-  const sourceFile = ts.createSourceFile(
-    'schema.ts',
-    sourceCode,
-    ts.ScriptTarget.Latest,
-    true
-  );
+  const sourceFile = ts.createSourceFile(path.basename(schemaPath), sourceCode, ts.ScriptTarget.Latest, true);
 
   const tables: TableInfo[] = [];
 
@@ -112,8 +103,8 @@ function parseTableDefinition(
   tableName: string,
   callExpr: ts.CallExpression
 ): TableInfo {
-  const userFields: UserFieldInfo[] = [];
-  const storageFields: StorageFieldInfo[] = [];
+  const userFields: FieldInfo[] = [];
+  const storageFields: FieldInfo[] = [];
   const indexes: IndexInfo[] = [];
 
   // Parse table schema (first argument to defineTable)
@@ -125,20 +116,11 @@ function parseTableDefinition(
           const fieldName = prop.name.text;
           const fieldInfo = parseFieldType(prop.initializer);
 
-          if (fieldInfo.isUserReference) {
-            userFields.push({
-              fieldName,
-              isOptional: fieldInfo.isOptional
-            });
-          }
+          const field = { fieldName, isOptional: fieldInfo.isOptional };
+          if (fieldInfo.isUserReference) userFields.push(field);
 
           // Check if field name suggests it stores file references
-          if (isStorageFieldName(fieldName)) {
-            storageFields.push({
-              fieldName,
-              isOptional: fieldInfo.isOptional
-            });
-          }
+          if (isStorageFieldName(fieldName)) storageFields.push(field);
         }
       });
     }
@@ -153,9 +135,7 @@ function parseTableDefinition(
       currentExpr.expression.name.text === 'index'
     ) {
       const indexInfo = parseIndexDefinition(currentExpr);
-      if (indexInfo) {
-        indexes.push(indexInfo);
-      }
+      if (indexInfo) indexes.push(indexInfo);
       currentExpr = currentExpr.expression.expression;
     } else {
       break;
@@ -194,34 +174,19 @@ function parseFieldType(
   let isOptional = false;
 
   function checkExpression(expr: ts.Expression): void {
+    if (!ts.isCallExpression(expr) || !ts.isPropertyAccessExpression(expr.expression)) return;
+    const method = expr.expression.name.text;
+    const [firstArg] = expr.arguments;
+
     // Check for v.id("users")
-    if (ts.isCallExpression(expr)) {
-      if (
-        ts.isPropertyAccessExpression(expr.expression) &&
-        ts.isIdentifier(expr.expression.name) &&
-        expr.expression.name.text === 'id'
-      ) {
-        // Check if argument is "users"
-        if (
-          expr.arguments.length > 0 &&
-          ts.isStringLiteral(expr.arguments[0]) &&
-          expr.arguments[0].text === 'users'
-        ) {
-          isUserReference = true;
-        }
-      }
+    if (method === 'id' && firstArg && ts.isStringLiteral(firstArg) && firstArg.text === 'users') {
+      isUserReference = true;
+    }
 
-      // Check for v.optional(...)
-      if (
-        ts.isPropertyAccessExpression(expr.expression) &&
-        ts.isIdentifier(expr.expression.name) &&
-        expr.expression.name.text === 'optional'
-      ) {
-        isOptional = true;
-        if (expr.arguments.length > 0) {
-          checkExpression(expr.arguments[0]);
-        }
-      }
+    // Check for v.optional(...)
+    if (method === 'optional') {
+      isOptional = true;
+      if (firstArg) checkExpression(firstArg);
     }
   }
 
@@ -246,9 +211,7 @@ function parseIndexDefinition(callExpr: ts.CallExpression): IndexInfo | null {
   // Parse fields array
   if (ts.isArrayLiteralExpression(fieldsArg)) {
     fieldsArg.elements.forEach((elem) => {
-      if (ts.isStringLiteral(elem)) {
-        fields.push(elem.text);
-      }
+      if (ts.isStringLiteral(elem)) fields.push(elem.text);
     });
   }
 
@@ -286,10 +249,7 @@ function verifyCoverage(tables: TableInfo[]): VerificationResult {
 
     // Check for multi-ref tables
     if (table.userFields.length > 1) {
-      result.multiRefTables.push({
-        table: table.name,
-        fields: table.userFields.map((f) => f.fieldName)
-      });
+      result.multiRefTables.push({ table: table.name, fields: table.userFields.map((f) => f.fieldName) });
     }
 
     // Check each user field has a strategy
@@ -298,27 +258,17 @@ function verifyCoverage(tables: TableInfo[]): VerificationResult {
       if (config) {
         const strategy = config.fields[userField.fieldName];
         if (!strategy) {
-          result.missingStrategies.push({
-            table: table.name,
-            field: userField.fieldName
-          });
+          result.missingStrategies.push({ table: table.name, field: userField.fieldName });
           result.success = false;
         }
       }
 
       // Check for corresponding index
       const indexName = DELETION_MANIFEST.cascade[table.name]?.indexName ?? 'by_user';
-      const hasIndex = table.indexes.some(
-        (idx) =>
-          idx.name === indexName &&
-          idx.fields.includes(userField.fieldName)
-      );
+      const hasIndex = table.indexes.some((idx) => idx.name === indexName && idx.fields.includes(userField.fieldName));
 
       if (!hasIndex && table.userFields.length > 0) {
-        result.missingIndexes.push({
-          table: table.name,
-          field: userField.fieldName
-        });
+        result.missingIndexes.push({ table: table.name, field: userField.fieldName });
         result.success = false;
       }
     }
@@ -328,10 +278,7 @@ function verifyCoverage(tables: TableInfo[]): VerificationResult {
       const registeredFields = DELETION_MANIFEST.storageFields[table.name] ?? [];
 
       if (!registeredFields.includes(storageField.fieldName)) {
-        result.missingStorageFields.push({
-          table: table.name,
-          field: storageField.fieldName
-        });
+        result.missingStorageFields.push({ table: table.name, field: storageField.fieldName });
         result.success = false;
       }
     }
@@ -340,6 +287,19 @@ function verifyCoverage(tables: TableInfo[]): VerificationResult {
   return result;
 }
 
+/**
+ * Print one failed check: heading, what is wrong, then how to fix it
+ */
+function printSection(heading: string, problem: string, items: string[], fixes: string[]): void {
+  if (items.length === 0) return;
+  console.log(heading);
+  console.log(`   ${problem}\n`);
+  items.forEach((item) => console.log(`   • ${item}`));
+  console.log('');
+  fixes.forEach((fix) => console.log(`   ${fix}`));
+  console.log('');
+}
+
 /**
  * Format and display verification results
  */
@@ -354,50 +314,38 @@ function displayResults(result: VerificationResult): void {
 
   console.error('\n✗ Vanish: Deletion manifest incomplete\n');
 
-  if (result.unregisteredTables.length > 0) {
-    console.log('❌ UNREGISTERED TABLES:');
-    console.log('   The following tables have userId fields but are not in DELETION_MANIFEST:\n');
-    result.unregisteredTables.forEach((table) => {
-      console.log(`   • ${table}`);
-    });
-    console.log('\n   ➜ Add to convex/deletionManifest.ts cascade or preserve array\n');
-  }
-
-  if (result.missingStrategies.length > 0) {
-    console.log('❌ MISSING FIELD STRATEGIES:');
-    console.log('   The following fields need explicit deletion strategies:\n');
-    result.missingStrategies.forEach(({ table, field }) => {
-      console.log(`   • ${table}.${field}`);
-    });
-    console.log('\n   ➜ Add strategy to DELETION_MANIFEST.cascade[table].fields[field]\n');
-  }
-
-  if (result.missingIndexes.length > 0) {
-    console.log('❌ MISSING INDEXES:');
-    console.log('   The following fields need .index() definitions for cascade queries:\n');
-    result.missingIndexes.forEach(({ table, field }) => {
-      console.log(`   • ${table}.${field} → .index('by_user', ['${field}'])`);
-    });
-    console.log('\n   ➜ Add .index() to table definition in schema.ts\n');
-  }
-
-  if (result.missingStorageFields.length > 0) {
-    console.log('❌ MISSING STORAGE FIELDS:');
-    console.log('   The following storage/file fields are not registered for cleanup:\n');
-    result.missingStorageFields.forEach(({ table, field }) => {
-      console.log(`   • ${table}.${field}`);
-    });
-    console.log('\n   ➜ Add to DELETION_MANIFEST.storageFields in deletionManifest.ts');
-    console.log('   ➜ Format: storageFields: { tableName: [\'field1\', \'field2\'] }\n');
-    console.log('   ⚠️  WITHOUT THIS: Orphaned files will remain in Convex storage after user deletion!\n');
-  }
-
+  printSection(
+    '❌ UNREGISTERED TABLES:',
+    'The following tables have userId fields but are not in DELETION_MANIFEST:',
+    result.unregisteredTables,
+    ['➜ Add to convex/deletionManifest.ts cascade or preserve array']
+  );
+  printSection(
+    '❌ MISSING FIELD STRATEGIES:',
+    'The following fields need explicit deletion strategies:',
+    result.missingStrategies.map(({ table, field }) => `${table}.${field}`),
+    ['➜ Add strategy to DELETION_MANIFEST.cascade[table].fields[field]']
+  );
+  printSection(
+    '❌ MISSING INDEXES:',
+    'The following fields need .index() definitions for cascade queries:',
+    result.missingIndexes.map(({ table, field }) => `${table}.${field} → .index('by_user', ['${field}'])`),
+    ['➜ Add .index() to table definition in schema.ts']
+  );
+  printSection(
+    '❌ MISSING STORAGE FIELDS:',
+    'The following storage/file fields are not registered for cleanup:',
+    result.missingStorageFields.map(({ table, field }) => `${table}.${field}`),
+    [
+      '➜ Add to DELETION_MANIFEST.storageFields in deletionManifest.ts',
+      '➜ Format: storageFields: { tableName: [\'field1\', \'field2\'] }',
+      '⚠️  WITHOUT THIS: Orphaned files will remain in Convex storage after user deletion!',
+    ]
+  );
   if (result.multiRefTables.length > 0) {
     console.log('⚠️  MULTI-REFERENCE TABLES:');
     console.log('   These tables have multiple user fields - ensure each has a strategy:\n');
-    result.multiRefTables.forEach((t) => {
-      console.log(`   • ${t.table}: ${t.fields.join(', ')}`);
-    });
+    result.multiRefTables.forEach((t) => console.log(`   • ${t.table}: ${t.fields.join(', ')}`));
     console.log('');
   }
 
@@ -419,7 +367,7 @@ export function runVerification(): void {
       process.exit(1);
     }
 
-    const tables = parseSchema(schemaPath);
+    const tables = schemaFiles().flatMap(parseSchema);
 
     const result = verifyCoverage(tables);
     displayResults(result);
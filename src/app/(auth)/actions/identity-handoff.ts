@@ -153,6 +153,7 @@ export async function performIdentityHandoff(): Promise<IdentityHandoffResult> {
       subscriptionStatus: convexUser.subscriptionStatus ?? 'trial',
       businessCountry: convexUser.businessCountry ?? 'AU',
       entityName: convexUser.entityName,
+      orgId: convexUser.orgId,
       socialName: convexUser.socialName,
       phoneNumber: convexUser.phoneNumber,
       avatarUrl: avatarUrlString,
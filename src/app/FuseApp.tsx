@@ -39,6 +39,9 @@ const Router = dynamic(() => import('./domains/Router'), { ssr: false });
 // Shadow King - Sovereign Setup Enforcement (shell-level)
 import ShadowKing from '@/features/setup/shadow-king';
 
+// Impersonation Banner - admiral "view as user" (shell-level)
+import ImpersonationBanner from '@/features/shell/impersonation-banner';
+
 // WARP Orchestrator
 import { runWarpPreload, attachTTLRevalidation } from '@/fuse/warp/orchestrator';
 
@@ -129,6 +132,7 @@ export default function FuseApp() {
               <div data-user-rank={user?.rank || undefined} className="ly-app-container">
                 <Sidebar />
                 <div className="ly-app-right-container">
+                  <ImpersonationBanner />
                   <Topbar />
                   <div className="ly-app-main-container">
                     <main className={USE_CURVES ? 'ly-app-content-with-arch' : 'ly-app-content-without-arch'}>
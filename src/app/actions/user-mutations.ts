@@ -29,6 +29,7 @@ import type { Id } from '@/convex/_generated/dataModel';
 import { readSessionCookie, mintSession, SESSION_COOKIE } from '@/fuse/hydration/session/cookie';
 import { cookies } from 'next/headers';
 import type { AvatarOption } from '@/fuse/constants/coreThemeConfig';
+import type { ImpersonationState, UserRank } from '@/rank/types';
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
@@ -80,6 +81,8 @@ export async function updateBusinessCountryAction(businessCountry: string) {
       setupStatus: freshUser.setupStatus as string,
       businessCountry: freshUser.businessCountry as string,
       entityName: freshUser.entityName as string,
+      orgId: freshUser.orgId as string | undefined,
+      impersonation: session.impersonation,
       socialName: freshUser.socialName as string,
       themeMode: freshUser.themeDark ? 'dark' : 'light',
       mirorAvatarProfile: freshUser.mirorAvatarProfile as AvatarOption | undefined,
@@ -144,6 +147,8 @@ export async function completeSetupAction(data: {
       setupStatus: freshUser.setupStatus as string,
       businessCountry: freshUser.businessCountry as string,
       entityName: freshUser.entityName as string,
+      orgId: freshUser.orgId as string | undefined,
+      impersonation: session.impersonation,
       socialName: freshUser.socialName as string,
       themeMode: freshUser.themeDark ? 'dark' : 'light',
       mirorAvatarProfile: freshUser.mirorAvatarProfile as AvatarOption | undefined,
@@ -236,6 +241,8 @@ export async function updateProfileAction(data: {
       setupStatus: freshUser.setupStatus as string,
       businessCountry: freshUser.businessCountry as string,
       entityName: freshUser.entityName as string,
+      orgId: freshUser.orgId as string | undefined,
+      impersonation: session.impersonation,
       socialName: freshUser.socialName as string,
       phoneNumber: freshUser.phoneNumber as string,
       themeMode: freshUser.themeDark ? 'dark' : 'light',
@@ -307,6 +314,8 @@ export async function updateGenomeAction(data: {
       setupStatus: session.setupStatus,
       businessCountry: session.businessCountry,
       entityName: session.entityName,
+      orgId: session.orgId,
+      impersonation: session.impersonation,
       socialName: session.socialName,
       phoneNumber: session.phoneNumber,
       themeName: session.themeName,
@@ -385,6 +394,8 @@ export async function refreshSessionAfterUpload() {
       setupStatus: freshUser.setupStatus as string,
       businessCountry: freshUser.businessCountry as string,
       entityName: freshUser.entityName as string,
+      orgId: freshUser.orgId as string | undefined,
+      impersonation: session.impersonation,
       socialName: freshUser.socialName as string,
       themeMode: freshUser.themeDark ? 'dark' : 'light',
       mirorAvatarProfile: freshUser.mirorAvatarProfile as AvatarOption | undefined,
@@ -403,6 +414,127 @@ export async function refreshSessionAfterUpload() {
   }
 }
 
+/**
+ * Switch the active org (commodore portfolio) and auto-update session cookie
+ * 🛡️ SID-5.3: Uses session._id (sovereign) for all Convex calls
+ * Caller reloads WARP domains afterwards - every slice belongs to the old org
+ */
+export async function switchActiveOrgAction(orgId: string) {
+  try {
+    // 🛡️ SID-9.1: Identity originates from readSessionCookie()
+    const session = await readSessionCookie();
+    if (!session?._id) throw new Error('Unauthorized');
+
+    // 🛡️ SID-5.3: Pass sovereign userId to Convex mutation
+    await convex.mutation(api.domains.admin.orgs.api.switchActiveOrg, {
+      callerUserId: session._id as Id<"admin_users">,
+      orgId: orgId as Id<"admin_orgs">,
+    });
+
+    // Re-mint from fresh user data so the cookie carries the new orgId
+    const refreshed = await refreshSessionAfterUpload();
+    if (!refreshed.success) throw new Error(refreshed.error);
+
+    return { success: true, orgId };
+  } catch (error) {
+    console.error('switchActiveOrgAction error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Accept an org invite; when it moves the caller into the org, re-mint the session cookie
+ * 🛡️ SID-5.3: Uses session._id (sovereign) for all Convex calls
+ */
+export async function acceptOrgInviteAction(inviteId: string) {
+  try {
+    // 🛡️ SID-9.1: Identity originates from readSessionCookie()
+    const session = await readSessionCookie();
+    if (!session?._id) throw new Error('Unauthorized');
+
+    const result = await convex.mutation(api.domains.admin.orgs.api.acceptOrgInvite, {
+      callerUserId: session._id as Id<"admin_users">,
+      inviteId: inviteId as Id<"admin_orgs_Invites">,
+    });
+    if (result.switched) {
+      const refreshed = await refreshSessionAfterUpload();
+      if (!refreshed.success) throw new Error(refreshed.error);
+    }
+    return { success: true, orgId: String(result.orgId), switched: result.switched };
+  } catch (error) {
+    console.error('acceptOrgInviteAction error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Admiral "view as user": open an audited impersonation session and stamp it on the cookie
+ * 🛡️ SID-5.3: Uses session._id (sovereign) for all Convex calls - _id never changes
+ * Convex resolves the target inside domain functions; the cookie only drives the shell
+ */
+export async function startImpersonationAction(targetUserId: string, reason?: string) {
+  try {
+    // 🛡️ SID-9.1: Identity originates from readSessionCookie()
+    const session = await readSessionCookie();
+    if (!session?._id) throw new Error('Unauthorized');
+
+    // 🛡️ SID-5.3: Pass sovereign userId to Convex mutation (Admiral-only enforced in Convex)
+    const result = await convex.mutation(api.domains.admin.impersonation.api.startImpersonation, {
+      callerUserId: session._id as Id<"admin_users">,
+      targetUserId: targetUserId as Id<"admin_users">,
+      reason,
+    });
+
+    const impersonation: ImpersonationState = {
+      sessionId: String(result.sessionId),
+      targetUserId: String(result.target._id),
+      targetName: result.target.name,
+      targetRank: result.target.rank as UserRank,
+      targetOrgId: result.target.orgId ?? '',
+      startedAt: result.startedAt,
+      expiresAt: result.expiresAt,
+    };
+
+    // Re-mint the same session with the impersonation stamped on (mintSession resets iat)
+    const token = await mintSession({ ...session, impersonation });
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE, token, COOKIE_OPTIONS);
+
+    return { success: true, impersonation };
+  } catch (error) {
+    console.error('startImpersonationAction error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * End the admiral's impersonation session and clear it from the cookie
+ * 🛡️ SID-5.3: Uses session._id (sovereign) for all Convex calls
+ */
+export async function stopImpersonationAction() {
+  try {
+    // 🛡️ SID-9.1: Identity originates from readSessionCookie()
+    const session = await readSessionCookie();
+    if (!session?._id) throw new Error('Unauthorized');
+
+    // 🛡️ SID-5.3: Pass sovereign userId to Convex mutation
+    await convex.mutation(api.domains.admin.impersonation.api.stopImpersonation, {
+      callerUserId: session._id as Id<"admin_users">,
+    });
+
+    const token = await mintSession({ ...session, impersonation: undefined });
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE, token, COOKIE_OPTIONS);
+
+    return { success: true };
+  } catch (error) {
+    console.error('stopImpersonationAction error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 /**
  * Update Miror AI settings and auto-update session cookie
  * 🛡️ SID-5.3: Uses session._id (sovereign) for all Convex calls
@@ -446,6 +578,8 @@ export async function updateMirorAction(data: {
       setupStatus: freshUser.setupStatus as string,
       businessCountry: freshUser.businessCountry as string,
       entityName: freshUser.entityName as string,
+      orgId: freshUser.orgId as string | undefined,
+      impersonation: session.impersonation,
       socialName: freshUser.socialName as string,
       phoneNumber: freshUser.phoneNumber as string,
       themeMode: freshUser.themeDark ? 'dark' : 'light',
@@ -0,0 +1,69 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🔐 GMAIL OAUTH - Authorization Endpoint                               │
+│  /src/app/api/auth/gmail/authorize/route.ts                           │
+│                                                                        │
+│  Google OAuth 2.0 flow                                                │
+│  Scopes: gmail.modify, openid, email                                  │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readSessionCookie } from '@/fuse/hydration/session/cookie';
+
+/**
+ * GET /api/auth/gmail/authorize
+ *
+ * Redirects user to Google OAuth consent screen
+ *
+ * Flow:
+ * 1. User clicks "Connect Gmail" button
+ * 2. This endpoint redirects to Google login
+ * 3. User authorizes app
+ * 4. Google redirects to /api/auth/gmail/callback
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const returnUrl = searchParams.get('returnUrl') || '/productivity/email';
+
+  // Get user from session cookie
+  const session = await readSessionCookie();
+
+  if (!session || !session._id) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  // Google OAuth configuration
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/gmail/callback`;
+  const scope = [
+    'https://www.googleapis.com/auth/gmail.modify', // Read + label changes (archive, trash, read state)
+    'openid',
+    'email', // id_token carries the Gmail address + Workspace domain
+  ].join(' ');
+
+  if (!clientId) {
+    return NextResponse.json(
+      { error: 'Google OAuth not configured' },
+      { status: 500 }
+    );
+  }
+
+  // Encode state with userId + returnUrl
+  const state = JSON.stringify({
+    userId: session._id,
+    returnUrl,
+  });
+
+  // Build Google authorization URL
+  const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
+  authUrl.searchParams.set('client_id', clientId);
+  authUrl.searchParams.set('response_type', 'code');
+  authUrl.searchParams.set('redirect_uri', redirectUri);
+  authUrl.searchParams.set('scope', scope);
+  authUrl.searchParams.set('access_type', 'offline'); // Required for refresh tokens
+  authUrl.searchParams.set('prompt', 'consent'); // Google only re-issues a refresh token on consent
+  authUrl.searchParams.set('include_granted_scopes', 'true');
+  authUrl.searchParams.set('state', Buffer.from(state).toString('base64')); // Pass userId + returnUrl via state
+
+  // Redirect to Google login
+  return NextResponse.redirect(authUrl.toString());
+}
@@ -0,0 +1,180 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🔐 GMAIL OAUTH - Callback Endpoint                                    │
+│  /src/app/api/auth/gmail/callback/route.ts                            │
+│                                                                        │
+│  Receives auth code from Google, exchanges for tokens                 │
+│  Stores tokens in Convex, triggers initial sync                       │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { api } from '@/convex/_generated/api';
+import { fetchMutation } from 'convex/nextjs';
+import type { Id } from '@/convex/_generated/dataModel';
+import { readSessionCookie } from '@/fuse/hydration/session/cookie';
+
+/**
+ * GET /api/auth/gmail/callback?code=xxx&state=xxx
+ *
+ * Google redirects here after user authorizes app
+ *
+ * Flow:
+ * 1. Extract authorization code from query params
+ * 2. Exchange code for access token + refresh token
+ * 3. Store tokens in Convex
+ * 4. Trigger initial email sync
+ * 5. Redirect back to email console
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const error = searchParams.get('error');
+  const stateParam = searchParams.get('state') || '';
+
+  // Decode state parameter (contains userId + returnUrl from authorize endpoint)
+  let stateUserId: string;
+  let returnUrl = '/productivity/email';
+
+  try {
+    const decoded = JSON.parse(Buffer.from(stateParam, 'base64').toString());
+    stateUserId = decoded.userId as string;
+    returnUrl = decoded.returnUrl || returnUrl;
+  } catch (e) {
+    console.error('Failed to decode state parameter:', e);
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/productivity/email?gmail_error=invalid_state`
+    );
+  }
+
+  // 🔐 SESSION VALIDATION - same invariant as the Outlook callback:
+  // the current session is the SOLE AUTHORITY for userId, state.userId only validates
+  const session = await readSessionCookie();
+
+  if (!session?._id) {
+    console.error('🚨 OAuth callback: No authenticated session');
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}${returnUrl}?gmail_error=not_authenticated`
+    );
+  }
+
+  if (stateUserId !== session._id) {
+    console.error(
+      `🚨 OAuth userId mismatch: state=${stateUserId}, session=${session._id}. ` +
+      `User likely logged out/switched during OAuth flow.`
+    );
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}${returnUrl}?gmail_error=session_mismatch`
+    );
+  }
+
+  const userId = session._id as Id<'admin_users'>;
+
+  // Handle OAuth error
+  if (error) {
+    console.error('Gmail OAuth error:', error);
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}${returnUrl}?gmail_error=${error}`
+    );
+  }
+
+  // Validate authorization code
+  if (!code) {
+    return NextResponse.json({ error: 'Missing authorization code' }, { status: 400 });
+  }
+
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/gmail/callback`;
+
+  if (!clientId || !clientSecret) {
+    return NextResponse.json(
+      { error: 'Google OAuth not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    // Exchange authorization code for tokens
+    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        code,
+        redirect_uri: redirectUri,
+        grant_type: 'authorization_code',
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      const errorData = await tokenResponse.text();
+      console.error('Token exchange failed:', errorData);
+      throw new Error('Failed to exchange authorization code');
+    }
+
+    const tokens = await tokenResponse.json();
+    const expiresAt = Date.now() + tokens.expires_in * 1000;
+
+    // Gmail address + variant from id_token claims
+    // Workspace accounts carry their hosted domain in `hd`; consumer gmail.com accounts have none
+    let gmailEmail: string | undefined;
+    let providerVariant: 'gmail_personal' | 'gmail_workspace' = 'gmail_personal';
+
+    if (tokens.id_token) {
+      try {
+        // Decode JWT payload (middle segment) - no verification needed, it came straight from Google
+        const payload = JSON.parse(
+          Buffer.from(tokens.id_token.split('.')[1], 'base64').toString()
+        );
+        gmailEmail = payload.email;
+        providerVariant = payload.hd ? 'gmail_workspace' : 'gmail_personal';
+        console.log(`🔐 Google account detected: ${gmailEmail} → ${providerVariant}`);
+      } catch (e) {
+        console.error('Failed to decode id_token:', e);
+      }
+    }
+
+    // Fall back to the Gmail profile for the address
+    if (!gmailEmail) {
+      const profileResponse = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/profile', {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (profileResponse.ok) {
+        const profile = await profileResponse.json();
+        gmailEmail = profile.emailAddress;
+      }
+    }
+
+    if (!gmailEmail) {
+      throw new Error('Could not determine Gmail address');
+    }
+
+    // Store tokens in Convex
+    const accountId = await fetchMutation(api.productivity.email.gmail.storeGmailTokens, {
+      userId, // From authenticated session (validated against state)
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt,
+      scope: tokens.scope,
+      emailAddress: gmailEmail,
+      providerVariant,
+    });
+
+    // Trigger initial email sync (background job)
+    // No webhook step - Gmail push needs Pub/Sub; history polling keeps it current
+    await fetchMutation(api.productivity.email.gmail.triggerGmailSync, {
+      userId,
+      accountId,
+    });
+
+    // Redirect back to email console with success indicator
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}${returnUrl}?gmail_connected=true`
+    );
+  } catch (error) {
+    console.error('Gmail OAuth callback error:', error);
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}${returnUrl}?gmail_error=token_exchange_failed`
+    );
+  }
+}
@@ -3,7 +3,7 @@
 │  /src/app/api/auth/outlook/authorize/route.ts                         │
 │                                                                        │
 │  Microsoft Graph OAuth 2.0 flow                                       │
-│  Scopes: Mail.Read, Mail.ReadWrite, offline_access                    │
+│  Scopes: Mail.Read, Mail.ReadWrite, Mail.Send, offline_access         │
 └────────────────────────────────────────────────────────────────────────┘ */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -37,6 +37,7 @@ export async function GET(request: NextRequest) {
   const scope = [
     'https://graph.microsoft.com/Mail.Read',
     'https://graph.microsoft.com/Mail.ReadWrite',
+    'https://graph.microsoft.com/Mail.Send', // Composer (sendMail)
     'https://graph.microsoft.com/User.Read',
     'offline_access', // Required for refresh tokens
   ].join(' ');
@@ -116,6 +116,7 @@ export async function GET(request: NextRequest) {
           scope: [
             'https://graph.microsoft.com/Mail.Read',
             'https://graph.microsoft.com/Mail.ReadWrite',
+            'https://graph.microsoft.com/Mail.Send',
             'https://graph.microsoft.com/User.Read',
             'offline_access',
           ].join(' '),
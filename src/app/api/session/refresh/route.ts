@@ -53,6 +53,8 @@ export async function POST() {
       setupStatus: freshUser.setupStatus as string,
       businessCountry: freshUser.businessCountry as string,
       entityName: freshUser.entityName as string,
+      orgId: freshUser.orgId as string | undefined,
+      impersonation: session.impersonation,
       socialName: freshUser.socialName as string,
       phoneNumber: freshUser.phoneNumber as string,
       themeMode: freshUser.themeDark ? 'dark' : 'light',
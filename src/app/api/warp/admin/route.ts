@@ -9,7 +9,7 @@
 │  Server-side endpoint for Admin domain preloading                      │
 │  Called by PRISM when user opens Admin dropdown                        │
 │                                                                        │
-│  Data: users, deletionLogs                                             │
+│  Data: users, deletionLogs, impersonationLogs                          │
 │  Access: Admiral only (rank check in Convex query)                     │
 └────────────────────────────────────────────────────────────────────────┘ */
 
@@ -28,33 +28,38 @@ export async function GET() {
     if (!session || !session._id) {
       return Response.json({
         users: [],
-        deletionLogs: []
+        deletionLogs: [],
+        impersonationLogs: []
       });
     }
 
     // 🛡️ SID-5.3: Sovereign userId for Convex queries
     const callerUserId = session._id as Id<"admin_users">;
     // ⚡ Fetch admin data using sovereign queries (Admiral-only enforced in Convex)
-    const [users, deletionLogs] = await Promise.all([
+    const [users, deletionLogs, impersonationLogs] = await Promise.all([
       convex.query(api.domains.admin.users.api.getAllUsers, { callerUserId }),
       convex.query(api.domains.admin.users.api.getAllDeletionLogs, { callerUserId }),
+      convex.query(api.domains.admin.impersonation.api.getImpersonationLog, { callerUserId }),
     ]);
 
     console.log('🚀 WARP API: Admin data fetched', {
       users: users?.length || 0,
       deletionLogs: deletionLogs?.length || 0,
+      impersonationLogs: impersonationLogs?.length || 0,
     });
 
     return Response.json({
       users: users || [],
-      deletionLogs: deletionLogs || []
+      deletionLogs: deletionLogs || [],
+      impersonationLogs: impersonationLogs || []
     });
   } catch (error) {
     console.error('❌ WARP API: Failed to fetch admin data:', error);
     // Return empty arrays on error (likely not Admiral rank)
     return Response.json({
       users: [],
-      deletionLogs: []
+      deletionLogs: [],
+      impersonationLogs: []
     });
   }
 }
@@ -2,19 +2,26 @@
 │  🚀 TRUE WARP - Clients Data Preload API                             │
 │  /src/app/api/warp/clients/route.ts                                   │
 │                                                                        │
-│  🛡️ S.I.D. COMPLIANT - Phase 9                                        │
+│  🛡️ S.I.D. COMPLIANT - Phase 11                                       │
 │  - SID-9.1: Identity from readSessionCookie(), NOT auth()              │
+│  - SID-5.3: Convex queries use callerUserId (sovereign)                │
 │                                                                        │
 │  Server-side endpoint for Clients domain preloading                   │
 │  Called by PRISM when user opens Clients dropdown                     │
 │                                                                        │
-│  Data: contacts, teams, sessions, reports                             │
-│  Access: All ranks (scoped by rank)                                   │
-│                                                                        │
-│  PLUMBING: Add Convex queries here when Clients has real data.        │
+│  Data: contacts, assignable members, pipeline stages + deals          │
+│        (teams, sessions, reports have no backing table yet and are    │
+│        returned empty so the ClientsData shape stays whole)           │
+│  Access: All ranks (scoped by rank in Convex queries)                 │
 └────────────────────────────────────────────────────────────────────────┘ */
 
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
 import { readSessionCookie } from '@/fuse/hydration/session/cookie';
+import type { Id } from '@/convex/_generated/dataModel';
+import { EMPTY_CLIENTS_DATA, type ClientsData } from '@/store/domains/clients';
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
 export async function GET() {
   try {
@@ -22,32 +29,38 @@ export async function GET() {
     const session = await readSessionCookie();
 
     if (!session || !session._id) {
-      return Response.json({
-        contacts: [],
-        teams: [],
-        sessions: [],
-        reports: []
-      });
+      return Response.json(EMPTY_CLIENTS_DATA);
     }
-    // 🔮 FUTURE: Add Convex queries when Clients domain has data
-    // Use ConvexHttpClient with session._id for sovereign queries
 
-    console.log('🚀 WARP API: Clients data ready (plumbing)');
+    // 🛡️ SID-5.3: Sovereign userId for Convex queries
+    const callerUserId = session._id as Id<"admin_users">;
+    // ⚡ Fetch clients data using sovereign queries (rank scoping enforced in Convex)
+    const [contacts, members, pipelineStages, deals] = await Promise.all([
+      convex.query(api.domains.clients.api.listClients, { callerUserId }),
+      convex.query(api.domains.clients.api.listAssignableMembers, { callerUserId }),
+      convex.query(api.domains.clients.api.listPipelineStages, { callerUserId }),
+      convex.query(api.domains.clients.api.listDeals, { callerUserId }),
+    ]);
 
-    return Response.json({
-      contacts: [],
-      teams: [],
-      sessions: [],
-      reports: []
+    console.log('🚀 WARP API: Clients data fetched', {
+      contacts: contacts?.length || 0,
+      members: members?.length || 0,
+      pipelineStages: pipelineStages?.length || 0,
+      deals: deals?.length || 0,
     });
+
+    const data: ClientsData = {
+      ...EMPTY_CLIENTS_DATA,
+      contacts: contacts || [],
+      members: members || [],
+      pipelineStages: pipelineStages || [],
+      deals: deals || [],
+    };
+
+    return Response.json(data);
   } catch (error) {
     console.error('❌ WARP API: Failed to fetch clients data:', error);
     // Return empty data - WARP preloads should fail silently
-    return Response.json({
-      contacts: [],
-      teams: [],
-      sessions: [],
-      reports: []
-    });
+    return Response.json(EMPTY_CLIENTS_DATA);
   }
 }
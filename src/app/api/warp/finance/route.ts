@@ -2,19 +2,26 @@
 │  🚀 TRUE WARP - Finance Data Preload API                             │
 │  /src/app/api/warp/finance/route.ts                                   │
 │                                                                        │
-│  🛡️ S.I.D. COMPLIANT - Phase 9                                        │
+│  🛡️ S.I.D. COMPLIANT - Phase 11                                       │
 │  - SID-9.1: Identity from readSessionCookie(), NOT auth()              │
+│  - SID-5.3: Convex queries use callerUserId (sovereign)                │
 │                                                                        │
 │  Server-side endpoint for Finance domain preloading                   │
 │  Called by PRISM when user opens Finance dropdown                     │
 │                                                                        │
-│  Data: accounts, transactions, invoices, customers, etc.              │
-│  Access: Captain+ (org-scoped)                                        │
-│                                                                        │
-│  PLUMBING: Add Convex queries here when Finance has real data.        │
+│  Data: transactions, invoices, chart of accounts, journal entries     │
+│        (collections without a backing table yet are returned empty    │
+│        so the FinanceData shape stays whole)                          │
+│  Access: Org-scoped (rank scoping enforced in Convex queries)         │
 └────────────────────────────────────────────────────────────────────────┘ */
 
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
 import { readSessionCookie } from '@/fuse/hydration/session/cookie';
+import type { Id } from '@/convex/_generated/dataModel';
+import { EMPTY_FINANCE_DATA, type FinanceData } from '@/store/domains/finance';
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
 export async function GET() {
   try {
@@ -22,65 +29,47 @@ export async function GET() {
     const session = await readSessionCookie();
 
     if (!session || !session._id) {
-      return Response.json({
-        businessProfile: null,
-        categories: [],
-        accounts: [],
-        transactions: [],
-        patterns: [],
-        customers: [],
-        quotes: [],
-        invoices: [],
-        suppliers: [],
-        purchases: [],
-        bills: [],
-        chartOfAccounts: [],
-        fixedAssets: [],
-        employees: [],
-        payrollRuns: []
-      });
+      return Response.json(EMPTY_FINANCE_DATA);
     }
-    // 🔮 FUTURE: Add Convex queries when Finance domain has data
-    // Use ConvexHttpClient with session._id for sovereign queries
 
-    console.log('🚀 WARP API: Finance data ready (plumbing)');
+    // 🛡️ SID-5.3: Sovereign userId for Convex queries
+    const callerUserId = session._id as Id<"admin_users">;
+    // ⚡ Fetch finance data using sovereign queries (org scoping enforced in Convex)
+    const [transactions, invoices, chartOfAccounts, journalEntries, currencySettings, fxRates, recurringTemplates] = await Promise.all([
+      convex.query(api.domains.finance.api.listTransactions, { callerUserId }),
+      convex.query(api.domains.finance.api.listInvoices, { callerUserId }),
+      convex.query(api.domains.finance.api.listLedgerAccounts, { callerUserId }),
+      convex.query(api.domains.finance.api.listJournalEntries, { callerUserId }),
+      convex.query(api.domains.finance.api.getCurrencySettings, { callerUserId }),
+      convex.query(api.domains.finance.api.listFxRates, { callerUserId }),
+      convex.query(api.domains.finance.api.listRecurringTemplates, { callerUserId }),
+    ]);
 
-    return Response.json({
-      businessProfile: null,
-      categories: [],
-      accounts: [],
-      transactions: [],
-      patterns: [],
-      customers: [],
-      quotes: [],
-      invoices: [],
-      suppliers: [],
-      purchases: [],
-      bills: [],
-      chartOfAccounts: [],
-      fixedAssets: [],
-      employees: [],
-      payrollRuns: []
+    console.log('🚀 WARP API: Finance data fetched', {
+      transactions: transactions?.length || 0,
+      invoices: invoices?.length || 0,
+      chartOfAccounts: chartOfAccounts?.length || 0,
+      journalEntries: journalEntries?.length || 0,
+      baseCurrency: currencySettings?.baseCurrency,
+      fxRates: fxRates?.length || 0,
+      recurringTemplates: recurringTemplates?.length || 0,
     });
+
+    const data: FinanceData = {
+      ...EMPTY_FINANCE_DATA,
+      transactions: transactions || [],
+      invoices: invoices || [],
+      chartOfAccounts: chartOfAccounts || [],
+      journalEntries: journalEntries || [],
+      currencySettings: currencySettings || null,
+      fxRates: fxRates || [],
+      recurringTemplates: recurringTemplates || [],
+    };
+
+    return Response.json(data);
   } catch (error) {
     console.error('❌ WARP API: Failed to fetch finance data:', error);
     // Return empty data - WARP preloads should fail silently
-    return Response.json({
-      businessProfile: null,
-      categories: [],
-      accounts: [],
-      transactions: [],
-      patterns: [],
-      customers: [],
-      quotes: [],
-      invoices: [],
-      suppliers: [],
-      purchases: [],
-      bills: [],
-      chartOfAccounts: [],
-      fixedAssets: [],
-      employees: [],
-      payrollRuns: []
-    });
+    return Response.json(EMPTY_FINANCE_DATA);
   }
 }
@@ -9,7 +9,7 @@
 │  Server-side endpoint for Productivity domain preloading              │
 │  Called by PRISM when user opens Productivity dropdown                │
 │                                                                        │
-│  Data: emails, calendar, bookings, meetings                           │
+│  Data: emails, calendar, bookings, meetings, tasks, email links       │
 │  Access: All ranks (rank-scoped in Convex query)                      │
 └────────────────────────────────────────────────────────────────────────┘ */
 
@@ -31,13 +31,16 @@ export async function GET() {
         calendar: [],
         bookings: [],
         meetings: [],
+        tasks: [],
+        emailLinks: [],
+        emailDrafts: [],
       });
     }
 
     // 🛡️ SID-5.3: Sovereign userId for Convex queries
     const callerUserId = session._id as Id<"admin_users">;
     // ⚡ Fetch productivity data using sovereign queries (rank-scoped in Convex)
-    const [emailAccounts, emailThreads, emailMessages, emailFolders, calendar, bookings, meetings] = await Promise.all([
+    const [emailAccounts, emailThreads, emailMessages, emailFolders, calendar, bookings, meetings, tasks, emailLinks, emailDrafts] = await Promise.all([
       convex.query(api.domains.productivity.queries.listEmailAccounts, { callerUserId }), // Email accounts
       convex.query(api.domains.productivity.queries.listThreads, { callerUserId }), // Thread metadata
       convex.query(api.domains.productivity.queries.listMessages, { callerUserId }), // All messages
@@ -45,6 +48,9 @@ export async function GET() {
       convex.query(api.domains.productivity.queries.listCalendarEvents, { callerUserId }),
       convex.query(api.domains.productivity.queries.listBookings, { callerUserId }),
       convex.query(api.domains.productivity.queries.listMeetings, { callerUserId }),
+      convex.query(api.domains.productivity.api.listTasks, { callerUserId }),
+      convex.query(api.domains.productivity.api.listEmailLinks, { callerUserId }),
+      convex.query(api.domains.productivity.api.listEmailDrafts, { callerUserId }),
     ]);
 
     console.log('🚀 WARP API: Productivity data fetched', {
@@ -55,6 +61,9 @@ export async function GET() {
       calendar: calendar?.length || 0,
       bookings: bookings?.length || 0,
       meetings: meetings?.length || 0,
+      tasks: tasks?.length || 0,
+      emailLinks: emailLinks?.length || 0,
+      emailDrafts: emailDrafts?.length || 0,
     });
 
     return Response.json({
@@ -67,6 +76,9 @@ export async function GET() {
       calendar: calendar || [],
       bookings: bookings || [],
       meetings: meetings || [],
+      tasks: tasks || [],
+      emailLinks: emailLinks || [],
+      emailDrafts: emailDrafts || [],
     });
   } catch (error) {
     console.error('❌ WARP API: Failed to fetch productivity data:', error);
@@ -78,6 +90,9 @@ export async function GET() {
       calendar: [],
       bookings: [],
       meetings: [],
+      tasks: [],
+      emailLinks: [],
+      emailDrafts: [],
     });
   }
 }
@@ -2,19 +2,25 @@
 │  🚀 TRUE WARP - Projects Data Preload API                            │
 │  /src/app/api/warp/projects/route.ts                                  │
 │                                                                        │
-│  🛡️ S.I.D. COMPLIANT - Phase 9                                        │
+│  🛡️ S.I.D. COMPLIANT - Phase 11                                       │
 │  - SID-9.1: Identity from readSessionCookie(), NOT auth()              │
+│  - SID-5.3: Convex queries use callerUserId (sovereign)                │
 │                                                                        │
 │  Server-side endpoint for Projects domain preloading                  │
 │  Called by PRISM when user opens Projects dropdown                    │
 │                                                                        │
-│  Data: charts (Gantt), locations, tracking                            │
-│  Access: Captain+ (org-scoped)                                        │
-│                                                                        │
-│  PLUMBING: Add Convex queries here when Projects has real data.       │
+│  Data: projects, cost entries, budget-vs-actual (tracking),           │
+│        Gantt tasks and dependencies, project sites (locations)        │
+│  Access: All ranks (scoped by rank in Convex queries)                 │
 └────────────────────────────────────────────────────────────────────────┘ */
 
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
 import { readSessionCookie } from '@/fuse/hydration/session/cookie';
+import type { Id } from '@/convex/_generated/dataModel';
+import { EMPTY_PROJECTS_DATA, type ProjectsData } from '@/store/domains/projects';
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
 export async function GET() {
   try {
@@ -22,29 +28,43 @@ export async function GET() {
     const session = await readSessionCookie();
 
     if (!session || !session._id) {
-      return Response.json({
-        charts: [],
-        locations: [],
-        tracking: []
-      });
+      return Response.json(EMPTY_PROJECTS_DATA);
     }
-    // 🔮 FUTURE: Add Convex queries when Projects domain has data
-    // Use ConvexHttpClient with session._id for sovereign queries
 
-    console.log('🚀 WARP API: Projects data ready (plumbing)');
+    // 🛡️ SID-5.3: Sovereign userId for Convex queries
+    const callerUserId = session._id as Id<"admin_users">;
+    // ⚡ Fetch projects data using sovereign queries (rank scoping enforced in Convex)
+    const [projects, costs, tracking, tasks, dependencies, locations] = await Promise.all([
+      convex.query(api.domains.projects.api.listProjects, { callerUserId }),
+      convex.query(api.domains.projects.api.listProjectCosts, { callerUserId }),
+      convex.query(api.domains.projects.api.listProjectBudgets, { callerUserId }),
+      convex.query(api.domains.projects.api.listProjectTasks, { callerUserId }),
+      convex.query(api.domains.projects.api.listTaskDependencies, { callerUserId }),
+      convex.query(api.domains.projects.api.listProjectLocations, { callerUserId }),
+    ]);
 
-    return Response.json({
-      charts: [],
-      locations: [],
-      tracking: []
+    console.log('🚀 WARP API: Projects data fetched', {
+      projects: projects?.length || 0,
+      costs: costs?.length || 0,
+      tracking: tracking?.length || 0,
+      tasks: tasks?.length || 0,
+      dependencies: dependencies?.length || 0,
+      locations: locations?.length || 0,
     });
+
+    const data: ProjectsData = {
+      projects: projects || [],
+      costs: costs || [],
+      tracking: tracking || [],
+      tasks: tasks || [],
+      dependencies: dependencies || [],
+      locations: locations || [],
+    };
+
+    return Response.json(data);
   } catch (error) {
     console.error('❌ WARP API: Failed to fetch projects data:', error);
     // Return empty data - WARP preloads should fail silently
-    return Response.json({
-      charts: [],
-      locations: [],
-      tracking: []
-    });
+    return Response.json(EMPTY_PROJECTS_DATA);
   }
 }
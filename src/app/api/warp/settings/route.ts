@@ -9,7 +9,7 @@
 │  Server-side endpoint for Settings domain preloading                  │
 │  Called by PRISM when user opens Settings dropdown                    │
 │                                                                        │
-│  Data: userSettings, genome                                           │
+│  Data: userSettings, genome, organization, portfolio, invitations     │
 │  Access: All ranks (SELF-scoped in Convex query)                      │
 └────────────────────────────────────────────────────────────────────────┘ */
 
@@ -30,6 +30,9 @@ export async function GET() {
         userProfile: null,
         preferences: [],
         notifications: [],
+        organization: null,
+        portfolio: [],
+        invitations: [],
         genome: null
       });
     }
@@ -37,20 +40,29 @@ export async function GET() {
     // 🛡️ SID-5.3: Sovereign userId for Convex queries
     const callerUserId = session._id as Id<"admin_users">;
     // ⚡ Fetch settings data using sovereign queries (self-scoped in Convex)
-    const [userSettings, genome] = await Promise.all([
+    const [userSettings, genome, organization, portfolio, invitations] = await Promise.all([
       convex.query(api.domains.settings.queries.getUserSettings, { callerUserId }),
       convex.query(api.domains.settings.queries.getUserGenome, { callerUserId }),
+      convex.query(api.domains.admin.orgs.api.getMyOrg, { callerUserId }),
+      convex.query(api.domains.admin.orgs.api.listMyOrgs, { callerUserId }),
+      convex.query(api.domains.admin.orgs.api.listMyInvites, { callerUserId }),
     ]);
 
     console.log('🚀 WARP API: Settings data fetched', {
       hasUserProfile: !!userSettings?.userProfile,
       genomeCompletion: genome?.completionPercent || 0,
+      organization: organization?.name ?? 'none',
+      portfolio: portfolio.length,
+      invitations: invitations.length,
     });
 
     return Response.json({
       userProfile: userSettings?.userProfile || null,
       preferences: userSettings?.preferences || [],
       notifications: userSettings?.notifications || [],
+      organization: organization || null,
+      portfolio: portfolio || [],
+      invitations: invitations || [],
       genome: genome || null
     });
   } catch (error) {
@@ -59,6 +71,9 @@ export async function GET() {
       userProfile: null,
       preferences: [],
       notifications: [],
+      organization: null,
+      portfolio: [],
+      invitations: [],
       genome: null
     });
   }
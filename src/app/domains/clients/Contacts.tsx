@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  👥 CONTACTS - Sovereign Domain                                        │
+│  /src/app/domains/clients/Contacts.tsx                                 │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { ContactsPageFeature } from '@/features/clients/contacts-page';
+import { Page } from '@/vr';
 
 export default function Contacts() {
-  useSetPageHeader('Contacts', 'Coming soon');
+  useSetPageHeader('Contacts', 'Leads, prospects and clients for your organisation');
+  usePageTiming('/clients/contacts');
+
   return (
     <Page.constrained>
-      <T.body>Contacts coming soon</T.body>
+      <ContactsPageFeature />
     </Page.constrained>
   );
 }
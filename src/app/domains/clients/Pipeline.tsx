@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💼 PIPELINE - Sovereign Domain                                        │
+│  /src/app/domains/clients/Pipeline.tsx                                 │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { PipelineBoardFeature } from '@/features/clients/pipeline-board';
+import { Page } from '@/vr';
 
 export default function Pipeline() {
-  useSetPageHeader('Pipeline', 'Coming soon');
+  useSetPageHeader('Pipeline', 'Deals by stage, with value and weighted forecast');
+  usePageTiming('/clients/pipeline');
+
   return (
     <Page.constrained>
-      <T.body>Pipeline coming soon</T.body>
+      <PipelineBoardFeature />
     </Page.constrained>
   );
 }
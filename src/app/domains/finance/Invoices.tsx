@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🧾 INVOICES - Sovereign Domain                                        │
+│  /src/app/domains/finance/Invoices.tsx                                 │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { InvoicesPageFeature } from '@/features/finance/invoices-page';
+import { Page } from '@/vr';
 
 export default function Invoices() {
-  useSetPageHeader('Invoices', 'Coming soon');
+  useSetPageHeader('Invoices', 'Draft, send and track customer invoices');
+  usePageTiming('/finance/invoices');
+
   return (
     <Page.constrained>
-      <T.body>Invoices coming soon</T.body>
+      <InvoicesPageFeature />
     </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📈 FINANCE OVERVIEW - Sovereign Domain                                │
+│  /src/app/domains/finance/Overview.tsx                                 │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { OverviewPageFeature } from '@/features/finance/overview-page';
+import { Page } from '@/vr';
 
 export default function Overview() {
-  useSetPageHeader('Financial Overview', 'Coming soon');
+  useSetPageHeader('Financial Overview', 'This month at a glance');
+  usePageTiming('/finance/overview');
+
   return (
     <Page.constrained>
-      <T.body>Financial Overview coming soon</T.body>
+      <OverviewPageFeature />
     </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📊 FINANCE REPORTS - Sovereign Domain                                 │
+│  /src/app/domains/finance/Reports.tsx                                  │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { ReportsPageFeature } from '@/features/finance/reports-page';
+import { Page } from '@/vr';
 
 export default function FinanceReports() {
-  useSetPageHeader('Reports', 'Coming soon');
+  useSetPageHeader('Reports', 'Financial statements, trial balance and general ledger');
+  usePageTiming('/finance/reports');
+
   return (
     <Page.constrained>
-      <T.body>Finance Reports coming soon</T.body>
+      <ReportsPageFeature />
     </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💳 TRANSACTIONS - Sovereign Domain                                    │
+│  /src/app/domains/finance/Transactions.tsx                             │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { TransactionsPageFeature } from '@/features/finance/transactions-page';
+import { Page } from '@/vr';
 
 export default function Transactions() {
-  useSetPageHeader('Transactions', 'Coming soon');
+  useSetPageHeader('Transactions', 'Bank activity and imported statements');
+  usePageTiming('/finance/transactions');
+
   return (
     <Page.constrained>
-      <T.body>Transactions coming soon</T.body>
+      <TransactionsPageFeature />
     </Page.constrained>
   );
 }
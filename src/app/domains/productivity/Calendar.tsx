@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR - Sovereign Domain                                        │
+│  /src/app/domains/productivity/Calendar.tsx                            │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { CalendarViewFeature } from '@/features/productivity/calendar-view';
+import { Page } from '@/vr';
 
 export default function Calendar() {
-  useSetPageHeader('Calendar', 'Coming soon');
+  useSetPageHeader('Calendar', 'Month, week, day and agenda - drag to create and move');
+  usePageTiming('/productivity/calendar');
+
   return (
-    <Page.full>
-      <T.body>Calendar coming soon</T.body>
-    </Page.full>
+    <Page.constrained>
+      <CalendarViewFeature />
+    </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  ✅ TASKS - Sovereign Domain                                           │
+│  /src/app/domains/productivity/Tasks.tsx                               │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { TaskBoardFeature } from '@/features/productivity/task-board';
+import { Page } from '@/vr';
 
 export default function Tasks() {
-  useSetPageHeader('Tasks', 'Coming soon');
+  useSetPageHeader('Tasks', 'Board, list and tasks promoted from email');
+  usePageTiming('/productivity/tasks');
+
   return (
-    <Page.full>
-      <T.body>Tasks coming soon</T.body>
-    </Page.full>
+    <Page.constrained>
+      <TaskBoardFeature />
+    </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🗓️ CHARTS - Sovereign Domain                                          │
+│  /src/app/domains/projects/Charts.tsx                                  │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { GanttChartFeature } from '@/features/projects/gantt-chart';
+import { Page } from '@/vr';
 
 export default function Charts() {
-  useSetPageHeader('Charts', 'Coming soon');
+  useSetPageHeader('Charts', 'Project schedule, dependencies and critical path');
+  usePageTiming('/projects/charts');
+
   return (
     <Page.constrained>
-      <T.body>Charts coming soon</T.body>
+      <GanttChartFeature />
     </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📍 LOCATIONS - Sovereign Domain                                       │
+│  /src/app/domains/projects/Locations.tsx                               │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { ProjectLocationsFeature } from '@/features/projects/project-locations';
+import { Page } from '@/vr';
 
 export default function Locations() {
-  useSetPageHeader('Locations', 'Coming soon');
+  useSetPageHeader('Locations', 'Project sites, site contacts and map');
+  usePageTiming('/projects/locations');
+
   return (
     <Page.constrained>
-      <T.body>Locations coming soon</T.body>
+      <ProjectLocationsFeature />
     </Page.constrained>
   );
 }
@@ -1,13 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📋 TRACKING - Sovereign Domain                                        │
+│  /src/app/domains/projects/Tracking.tsx                                │
+│                                                                        │
+│  VR Doctrine: Domain Layer (Clean)                                    │
+│  - Feature imports only                                               │
+│  - ZERO FUSE                                                          │
+│  - ZERO callbacks                                                     │
+│  - ZERO state                                                         │
+│  - Pure declaration                                                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
 'use client';
 
 import { useSetPageHeader } from '@/hooks/useSetPageHeader';
-import { Page, T } from '@/vr';
+import { usePageTiming } from '@/fuse/hooks/usePageTiming';
+import { ProjectWorkspaceFeature } from '@/features/projects/project-workspace';
+import { Page } from '@/vr';
 
 export default function Tracking() {
-  useSetPageHeader('Project Tracking', 'Coming soon');
+  useSetPageHeader('Project Tracking', 'Budgets, costs and variance per project');
+  usePageTiming('/projects/tracking');
+
   return (
     <Page.constrained>
-      <T.body>Project Tracking coming soon</T.body>
+      <ProjectWorkspaceFeature />
     </Page.constrained>
   );
 }
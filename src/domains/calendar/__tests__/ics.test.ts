@@ -0,0 +1,180 @@
+/**
+ * iCalendar Import / Export Unit Tests
+ *
+ * Reading VEVENTs (times, zones, repeats, moved instances) and writing
+ * files that read back the same.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { eventUid, eventsToIcs, exportedEventId, parseIcs, type ExportableCalendarEvent } from '@/domains/calendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Wrap VEVENT bodies in a VCALENDAR with CRLF line endings */
+const calendar = (...events: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.map((event) => `BEGIN:VEVENT\n${event}\nEND:VEVENT`), 'END:VCALENDAR']
+    .join('\n')
+    .replace(/\n/g, '\r\n');
+
+describe('parseIcs', () => {
+  test('reads a timed event with escaped and folded text', () => {
+    const { events, errors } = parseIcs(calendar([
+      'UID:abc@example.com',
+      'DTSTART:20250310T090000Z',
+      'DTEND:20250310T100000Z',
+      'SUMMARY:Planning\\, Q2',
+      'DESCRIPTION:Agenda:\\nBudget\\; hiring',
+      '  and roadmap',
+      'LOCATION:Room 4',
+      'ATTENDEE;CN="Ann, Lee":mailto:Ann@Example.com',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+    ].join('\n')));
+
+    expect(errors).toEqual([]);
+    expect(events).toEqual([{
+      uid: 'abc@example.com',
+      title: 'Planning, Q2',
+      description: 'Agenda:\nBudget; hiring and roadmap',
+      location: 'Room 4',
+      startTime: Date.UTC(2025, 2, 10, 9),
+      endTime: Date.UTC(2025, 2, 10, 10),
+      allDay: false,
+      exdates: undefined,
+      attendees: ['ann@example.com'],
+    }]);
+  });
+
+  test('an all-day event without DTEND lasts one day', () => {
+    const [event] = parseIcs(calendar('UID:d\nDTSTART;VALUE=DATE:20250301\nSUMMARY:Holiday')).events;
+    expect(event).toMatchObject({ startTime: Date.UTC(2025, 2, 1), endTime: Date.UTC(2025, 2, 2), allDay: true });
+  });
+
+  test('DURATION sets the end when there is no DTEND', () => {
+    const [event] = parseIcs(calendar('UID:d\nDTSTART:20250310T090000Z\nDURATION:PT1H30M\nSUMMARY:Call')).events;
+    expect(event.endTime - event.startTime).toBe(1.5 * HOUR_MS);
+  });
+
+  test('converts TZID times to UTC on either side of a DST change', () => {
+    const { events } = parseIcs(calendar(
+      'UID:a\nDTSTART;TZID=America/New_York:20250307T090000\nSUMMARY:Before',
+      'UID:b\nDTSTART;TZID=America/New_York:20250310T090000\nSUMMARY:After',
+    ));
+    expect(events.map((event) => event.startTime)).toEqual([Date.UTC(2025, 2, 7, 14), Date.UTC(2025, 2, 10, 13)]);
+  });
+
+  test('keeps repeat rules and their exceptions', () => {
+    const [event] = parseIcs(calendar([
+      'UID:r',
+      'DTSTART:20250106T090000Z',
+      'DTEND:20250106T093000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+      'EXDATE:20250113T090000Z,20250120T090000Z',
+      'SUMMARY:Standup',
+    ].join('\n'))).events;
+    expect(event.rrule).toBe('FREQ=WEEKLY;BYDAY=MO;COUNT=4');
+    expect(event.exdates).toEqual([Date.UTC(2025, 0, 13, 9), Date.UTC(2025, 0, 20, 9)]);
+  });
+
+  test('imports an unsupported rule once and says so', () => {
+    const { events, errors } = parseIcs(calendar('UID:h\nDTSTART:20250106T090000Z\nRRULE:FREQ=HOURLY\nSUMMARY:Ping'));
+    expect(events[0].rrule).toBeUndefined();
+    expect(errors).toEqual(['Ping: imported once - Unsupported FREQ HOURLY']);
+  });
+
+  test('a moved instance becomes its own event and leaves the series', () => {
+    const { events } = parseIcs(calendar(
+      'UID:s\nDTSTART:20250106T090000Z\nRRULE:FREQ=WEEKLY;COUNT=3\nSUMMARY:Review',
+      'UID:s\nRECURRENCE-ID:20250113T090000Z\nDTSTART:20250114T150000Z\nSUMMARY:Review (moved)',
+    ));
+    expect(events.map((event) => event.uid)).toEqual(['s', 's/20250113T090000Z']);
+    expect(events[0].exdates).toEqual([Date.UTC(2025, 0, 13, 9)]);
+    expect(events[1].startTime).toBe(Date.UTC(2025, 0, 14, 15));
+    expect(events[1].rrule).toBeUndefined();
+  });
+
+  test('skips cancelled events and reports unreadable ones', () => {
+    const { events, errors } = parseIcs(calendar(
+      'UID:c\nDTSTART:20250106T090000Z\nSTATUS:CANCELLED\nSUMMARY:Gone',
+      'UID:x\nDTSTART:next tuesday\nSUMMARY:Broken',
+      'UID:y\nDTSTART:20250106T090000Z\nDTEND:20250105T090000Z\nSUMMARY:Backwards',
+    ));
+    expect(events).toEqual([]);
+    expect(errors).toEqual([
+      'Broken: missing or unreadable start date',
+      'Backwards: End must be after the start',
+    ]);
+  });
+
+  test('explains a file without events', () => {
+    expect(parseIcs('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n')).toEqual({ events: [], errors: ['No events found in file'] });
+  });
+});
+
+describe('eventsToIcs', () => {
+  const now = Date.UTC(2025, 5, 1, 12);
+  const meeting: ExportableCalendarEvent = {
+    _id: 'k57abc',
+    title: 'Budget; review, Q3',
+    description: 'Line one\nLine two',
+    location: 'HQ',
+    startTime: Date.UTC(2025, 5, 2, 9),
+    endTime: Date.UTC(2025, 5, 2, 10),
+    rrule: 'FREQ=WEEKLY;COUNT=5',
+    exdates: [Date.UTC(2025, 5, 9, 9)],
+    attendees: ['ann@example.com', 'not an address'],
+  };
+
+  test('writes UTC times, escaped text and a FUSE UID', () => {
+    const ics = eventsToIcs([meeting], now);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:k57abc@fuse\r\n');
+    expect(ics).toContain('DTSTAMP:20250601T120000Z\r\n');
+    expect(ics).toContain('DTSTART:20250602T090000Z\r\n');
+    expect(ics).toContain('SUMMARY:Budget\\; review\\, Q3\r\n');
+    expect(ics).toContain('DESCRIPTION:Line one\\nLine two\r\n');
+    expect(ics).toContain('EXDATE:20250609T090000Z\r\n');
+    expect(ics).not.toContain('not an address');
+  });
+
+  test('all-day events use DATE values', () => {
+    const ics = eventsToIcs([{
+      _id: 'd', title: 'Off', startTime: Date.UTC(2025, 5, 2), endTime: Date.UTC(2025, 5, 3), allDay: true, attendees: [],
+    }], now);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250602\r\nDTEND;VALUE=DATE:20250603\r\n');
+  });
+
+  test('folds long lines at 75 octets without splitting characters', () => {
+    const title = 'Café ☕ '.repeat(20).trim();
+    const ics = eventsToIcs([{ ...meeting, title }], now);
+    const encoder = new TextEncoder();
+    for (const line of ics.split('\r\n')) expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    expect(parseIcs(ics).events[0].title).toBe(title);
+  });
+
+  test('reads back the same events', () => {
+    const imported = { ...meeting, _id: 'k58', uid: 'abc@example.com' };
+    const { events, errors } = parseIcs(eventsToIcs([meeting, imported], now));
+    expect(errors).toEqual([]);
+    expect(events).toEqual([meeting, imported].map((event) => ({
+      uid: eventUid(event),
+      title: event.title,
+      description: event.description,
+      location: event.location,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      allDay: false,
+      rrule: event.rrule,
+      exdates: event.exdates,
+      attendees: ['ann@example.com'],
+    })));
+  });
+});
+
+describe('UIDs', () => {
+  test('exported UIDs lead back to the event; imported ones do not', () => {
+    expect(exportedEventId(eventUid({ _id: 'k57abc' }))).toBe('k57abc');
+    expect(exportedEventId(eventUid({ _id: 'k57abc', uid: 'abc@example.com' }))).toBeNull();
+  });
+});
@@ -0,0 +1,341 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR RULES - Pure Functions                                        │
+│  /src/domains/calendar/events.ts                                           │
+│                                                                            │
+│  Event validation, recurrence expansion and the month/week/day grid.       │
+│  Shared by the Convex calendar functions and the Calendar page.            │
+│                                                                            │
+│  Timed events are instants; all-day events run from UTC midnight to the    │
+│  UTC midnight after their last day (like every date in FUSE). The grid     │
+│  works in "wall-clock" time: the viewer's local time written as UTC, so    │
+│  UTC getters read local hours and a weekly 09:00 stays at 09:00 across     │
+│  DST. Recurrence comes from @/lib/rrule.                                   │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { occurrencesBetween, parseRRule } from '@/lib/rrule';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type CalendarView = 'month' | 'week' | 'day' | 'agenda';
+
+export type RepeatPreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface CalendarEventInput {
+  title: string;
+  startTime: number;
+  endTime: number;
+  allDay?: boolean;
+  rrule?: string;
+}
+
+/** The stored fields the grid needs */
+export interface SchedulableEvent {
+  _id: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+  allDay?: boolean;
+  rrule?: string;
+  exdates?: number[];
+  location?: string;
+}
+
+/** One appearance of an event in the grid */
+export interface CalendarOccurrence {
+  eventId: string;
+  title: string;
+  location?: string;
+  allDay: boolean;
+  recurring: boolean;
+  /** Wall-clock bounds (read with UTC getters) */
+  start: number;
+  end: number;
+  /** Real start of this occurrence - the value EXDATE skips */
+  instant: number;
+}
+
+/** A timed occurrence placed side by side with the ones it overlaps */
+export interface PlacedOccurrence {
+  occurrence: CalendarOccurrence;
+  column: number;
+  columns: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const MINUTE_MS = 60 * 1000;
+
+export const CALENDAR_VIEWS: { id: CalendarView; label: string }[] = [
+  { id: 'month', label: 'Month' },
+  { id: 'week', label: 'Week' },
+  { id: 'day', label: 'Day' },
+  { id: 'agenda', label: 'Agenda' },
+];
+
+/** Repeat options offered by the editor; "custom" takes a raw RRULE */
+export const REPEAT_PRESETS: { value: RepeatPreset; label: string; rrule: string }[] = [
+  { value: 'none', label: 'Does not repeat', rrule: '' },
+  { value: 'daily', label: 'Daily', rrule: 'FREQ=DAILY' },
+  { value: 'weekdays', label: 'Every weekday', rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { value: 'weekly', label: 'Weekly', rrule: 'FREQ=WEEKLY' },
+  { value: 'monthly', label: 'Monthly', rrule: 'FREQ=MONTHLY' },
+  { value: 'yearly', label: 'Yearly', rrule: 'FREQ=YEARLY' },
+  { value: 'custom', label: 'Custom (RRULE)', rrule: '' },
+];
+
+export const CALENDAR_TITLE_MAX = 200;
+
+/** Drag-to-create and drag-to-move snap to this many minutes */
+export const SLOT_MINUTES = 15;
+
+/** Days the agenda lists from its anchor */
+export const AGENDA_DAYS = 30;
+
+/** Events per importCalendarEvents call */
+export const CALENDAR_IMPORT_BATCH_SIZE = 100;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First problem with an event, or null when it can be saved */
+export function validateCalendarEvent(event: CalendarEventInput): string | null {
+  if (!event.title.trim()) return 'Event needs a title';
+  if (event.title.trim().length > CALENDAR_TITLE_MAX) return `Title must be ${CALENDAR_TITLE_MAX} characters or fewer`;
+  if (!Number.isFinite(event.startTime) || !Number.isFinite(event.endTime)) return 'Start and end must be valid dates';
+  if (event.endTime < event.startTime) return 'End must be after the start';
+  if (event.allDay && event.endTime === event.startTime) return 'All-day events last at least one day';
+  if (event.rrule) {
+    const parsed = parseRRule(event.rrule);
+    if ('error' in parsed) return `Repeat rule: ${parsed.error}`;
+  }
+  return null;
+}
+
+/** Preset matching a stored rule ("custom" for anything hand-written) */
+export function repeatPresetFor(rrule: string | undefined): RepeatPreset {
+  if (!rrule) return 'none';
+  return REPEAT_PRESETS.find((preset) => preset.rrule && preset.rrule === rrule)?.value ?? 'custom';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WALL-CLOCK TIME
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Instant → the viewer's local time written as UTC */
+export function toWallClock(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+}
+
+/** Wall-clock value → the instant it names in the viewer's time zone */
+export function fromWallClock(wall: number): number {
+  const date = new Date(wall);
+  return new Date(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+  ).getTime();
+}
+
+/** Stored bounds of an event in wall-clock time (all-day dates are already UTC) */
+export function eventWallClock(event: { startTime: number; endTime: number; allDay?: boolean }): { start: number; end: number } {
+  return event.allDay
+    ? { start: event.startTime, end: event.endTime }
+    : { start: toWallClock(event.startTime), end: toWallClock(event.endTime) };
+}
+
+/** Wall-clock bounds → stored startTime/endTime */
+export function storedTimes(start: number, end: number, allDay: boolean): { startTime: number; endTime: number } {
+  return allDay
+    ? { startTime: startOfDay(start), endTime: startOfDay(end) }
+    : { startTime: fromWallClock(start), endTime: fromWallClock(end) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GRID
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Midnight of the day containing `wall` */
+export function startOfDay(wall: number): number {
+  return Math.floor(wall / DAY_MS) * DAY_MS;
+}
+
+/** Monday of the week containing `wall` */
+export function startOfWeek(wall: number): number {
+  const day = startOfDay(wall);
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/** Round to the nearest drag slot */
+export function snapToSlot(wall: number): number {
+  const slot = SLOT_MINUTES * MINUTE_MS;
+  return Math.round(wall / slot) * slot;
+}
+
+/** [from, to) shown by a view around `anchor` - month views fill six whole weeks */
+export function viewRange(view: CalendarView, anchor: number): { from: number; to: number } {
+  const day = startOfDay(anchor);
+  switch (view) {
+    case 'day':
+      return { from: day, to: day + DAY_MS };
+    case 'week': {
+      const monday = startOfWeek(day);
+      return { from: monday, to: monday + 7 * DAY_MS };
+    }
+    case 'month': {
+      const date = new Date(day);
+      const from = startOfWeek(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+      return { from, to: from + 42 * DAY_MS };
+    }
+    case 'agenda':
+      return { from: day, to: day + AGENDA_DAYS * DAY_MS };
+  }
+}
+
+/** Anchor one page earlier (-1) or later (+1) */
+export function shiftAnchor(view: CalendarView, anchor: number, step: number): number {
+  const day = startOfDay(anchor);
+  switch (view) {
+    case 'day':
+      return day + step * DAY_MS;
+    case 'week':
+      return day + step * 7 * DAY_MS;
+    case 'month': {
+      const date = new Date(day);
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + step, 1);
+    }
+    case 'agenda':
+      return day + step * AGENDA_DAYS * DAY_MS;
+  }
+}
+
+const formatWall = (wall: number, options: Intl.DateTimeFormatOptions) =>
+  new Date(wall).toLocaleDateString('en-GB', { ...options, timeZone: 'UTC' });
+
+/** Toolbar title, e.g. "October 2026" or "19 – 25 Oct 2026" */
+export function rangeLabel(view: CalendarView, anchor: number): string {
+  const { from, to } = viewRange(view, anchor);
+  const last = to - DAY_MS;
+  switch (view) {
+    case 'month':
+      return formatWall(anchor, { month: 'long', year: 'numeric' });
+    case 'day':
+      return formatWall(from, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+    case 'week':
+    case 'agenda':
+      return `${formatWall(from, { day: 'numeric', month: 'short' })} – ${formatWall(last, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+  }
+}
+
+/** "09:30" for a wall-clock time */
+export function formatWallTime(wall: number): string {
+  const date = new Date(wall);
+  return `${String(date.getUTCHours()).padStart(2, '0')}:${String(date.getUTCMinutes()).padStart(2, '0')}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECURRENCE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const overlaps = (start: number, end: number, from: number, to: number) =>
+  end > start ? start < to && end > from : start >= from && start < to;
+
+/**
+ * Every occurrence overlapping the wall-clock range [from, to), sorted with
+ * all-day events first. A rule that no longer parses shows the first date only.
+ */
+export function expandEvents(events: SchedulableEvent[], from: number, to: number): CalendarOccurrence[] {
+  const found: CalendarOccurrence[] = [];
+
+  for (const event of events) {
+    const allDay = Boolean(event.allDay);
+    const { start, end } = eventWallClock(event);
+    const duration = Math.max(end - start, 0);
+    const base = { eventId: event._id, title: event.title, location: event.location, allDay };
+    const parsed = event.rrule ? parseRRule(event.rrule) : null;
+
+    if (!parsed || 'error' in parsed) {
+      if (overlaps(start, end, from, to)) {
+        found.push({ ...base, recurring: false, start, end: start + duration, instant: event.startTime });
+      }
+      continue;
+    }
+
+    // UNTIL is an instant; expansion runs on the wall clock
+    const rule = parsed.rule.until !== undefined && !allDay
+      ? { ...parsed.rule, until: toWallClock(parsed.rule.until) }
+      : parsed.rule;
+    const skipped = new Set(event.exdates ?? []);
+
+    for (const occurrence of occurrencesBetween(rule, start, from - duration, to - 1)) {
+      const instant = allDay ? occurrence : fromWallClock(occurrence);
+      if (skipped.has(instant) || !overlaps(occurrence, occurrence + duration, from, to)) continue;
+      found.push({ ...base, recurring: true, start: occurrence, end: occurrence + duration, instant });
+    }
+  }
+
+  return found.sort((a, b) => Number(b.allDay) - Number(a.allDay) || a.start - b.start || a.title.localeCompare(b.title));
+}
+
+/** Occurrences touching the day starting at `day` */
+export function occurrencesOnDay(occurrences: CalendarOccurrence[], day: number): CalendarOccurrence[] {
+  return occurrences.filter((occurrence) => overlaps(occurrence.start, occurrence.end, day, day + DAY_MS));
+}
+
+/**
+ * Side-by-side columns for one day's timed occurrences: each overlapping
+ * cluster is split into as many columns as it needs at its busiest.
+ */
+export function layoutDay(occurrences: CalendarOccurrence[]): PlacedOccurrence[] {
+  const timed = occurrences.filter((occurrence) => !occurrence.allDay).sort((a, b) => a.start - b.start || b.end - a.end);
+  const placed: PlacedOccurrence[] = [];
+  let cluster: PlacedOccurrence[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const closeCluster = () => {
+    for (const item of cluster) item.columns = columnEnds.length;
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const occurrence of timed) {
+    // Zero-length events still take a sliver of the grid
+    const end = Math.max(occurrence.end, occurrence.start + SLOT_MINUTES * MINUTE_MS);
+    if (occurrence.start >= clusterEnd) closeCluster();
+
+    let column = columnEnds.findIndex((columnEnd) => columnEnd <= occurrence.start);
+    if (column === -1) column = columnEnds.push(end) - 1;
+    else columnEnds[column] = end;
+
+    const item = { occurrence, column, columns: 1 };
+    cluster.push(item);
+    placed.push(item);
+    clusterEnd = Math.max(clusterEnd, end);
+  }
+  closeCluster();
+
+  return placed;
+}
+
+/**
+ * New stored times after dragging an occurrence by `delta` wall-clock ms.
+ * Recurring events move as a series, skipped dates included.
+ */
+export function shiftEvent(
+  event: { startTime: number; endTime: number; allDay?: boolean; exdates?: number[] },
+  delta: number
+): { startTime: number; endTime: number; exdates?: number[] } {
+  const { start, end } = eventWallClock(event);
+  const allDay = Boolean(event.allDay);
+  const shift = (instant: number) => (allDay ? instant + delta : fromWallClock(toWallClock(instant) + delta));
+  return {
+    ...storedTimes(start + delta, end + delta, allDay),
+    exdates: event.exdates?.map(shift),
+  };
+}
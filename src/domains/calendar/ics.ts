@@ -0,0 +1,343 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR ICS - iCalendar (RFC 5545) Import + Export                    │
+│  /src/domains/calendar/ics.ts                                              │
+│                                                                            │
+│  Reads the VEVENTs of a .ics file: SUMMARY, DESCRIPTION, LOCATION,         │
+│  DTSTART/DTEND/DURATION (UTC, TZID, floating or all-day), RRULE, EXDATE    │
+│  and ATTENDEE. Moved instances (RECURRENCE-ID) become their own events     │
+│  and are skipped in the series. Alarms and other components are ignored.  │
+│  Export writes UTC times, which every calendar app accepts.                │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { parseRRule } from '@/lib/rrule';
+import { DAY_MS, validateCalendarEvent } from './events';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One event read from a file, ready for importCalendarEvents */
+export interface CalendarEventDraft {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  startTime: number;
+  endTime: number;
+  allDay: boolean;
+  rrule?: string;
+  exdates?: number[];
+  attendees: string[];
+}
+
+export interface IcsParseResult {
+  events: CalendarEventDraft[];
+  /** Events that were skipped, or imported with a caveat */
+  errors: string[];
+}
+
+export interface ExportableCalendarEvent {
+  _id: string;
+  uid?: string;
+  title: string;
+  description?: string;
+  location?: string;
+  startTime: number;
+  endTime: number;
+  allDay?: boolean;
+  rrule?: string;
+  exdates?: number[];
+  attendees: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** RFC 5545 §3.1: lines longer than 75 octets are folded */
+const FOLD_OCTETS = 75;
+
+/** Fallback UID suffix for events created in FUSE */
+const UID_DOMAIN = 'fuse';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// READ
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Undo text escaping (\n, \,, \;, \\) */
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_match, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/** Parse one content line: NAME[;PARAM=value]*:value */
+function parseProperty(line: string): IcsProperty | null {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon === -1) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    if (eq !== -1) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/"/g, '');
+  }
+
+  return { name: rawName.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** Offset of a named time zone from UTC at `time`, or null when the zone is unknown */
+function zoneOffset(timeZone: string, time: number): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(time));
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - time;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * DATE or DATE-TIME value → epoch ms.
+ * UTC ("Z") is exact, TZID is converted, floating times use the importer's zone.
+ */
+function parseIcsDate(value: string, params: Record<string, string>): { time: number; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '0', utc] = match;
+  const y = Number(year);
+  const m = Number(month) - 1;
+  const d = Number(day);
+
+  if (hour === undefined || params.VALUE?.toUpperCase() === 'DATE') {
+    return { time: Date.UTC(y, m, d), allDay: true };
+  }
+
+  const wall = Date.UTC(y, m, d, Number(hour), Number(minute), Number(second));
+  if (utc) return { time: wall, allDay: false };
+
+  // Check the offset twice so times next to a DST change land right
+  const tzid = params.TZID?.replace(/^\//, '');
+  const first = tzid ? zoneOffset(tzid, wall) : null;
+  if (first !== null && tzid) {
+    const second = zoneOffset(tzid, wall - first) ?? first;
+    return { time: wall - second, allDay: false };
+  }
+  return { time: new Date(y, m, d, Number(hour), Number(minute), Number(second)).getTime(), allDay: false };
+}
+
+/** DURATION (e.g. PT1H30M, P1D, P2W) → ms */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim().toUpperCase());
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = ((Number(weeks) * 7 + Number(days)) * 24 * 3600 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+interface ParsedVEvent {
+  draft: CalendarEventDraft;
+  /** RECURRENCE-ID of a moved instance */
+  recurrenceId?: number;
+  sourceUid: string;
+}
+
+function toDraft(properties: IcsProperty[]): ParsedVEvent | string | null {
+  const first = (name: string) => properties.find((property) => property.name === name);
+  const text = (name: string) => {
+    const property = first(name);
+    return property ? unescapeText(property.value).trim() : '';
+  };
+
+  if (text('STATUS').toUpperCase() === 'CANCELLED') return null;
+
+  const title = text('SUMMARY') || 'Untitled event';
+  const dtstart = first('DTSTART');
+  const start = dtstart ? parseIcsDate(dtstart.value, dtstart.params) : null;
+  if (!start) return `${title}: missing or unreadable start date`;
+
+  // DTEND, else DURATION, else one day (all-day) or no length (timed)
+  const dtend = first('DTEND');
+  const duration = first('DURATION');
+  const end = dtend ? parseIcsDate(dtend.value, dtend.params) : null;
+  const length = duration ? parseDuration(duration.value) : null;
+  const endTime = end ? end.time : length !== null ? start.time + length : start.time + (start.allDay ? DAY_MS : 0);
+
+  const exdates = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) => property.value.split(',').map((value) => parseIcsDate(value, property.params)))
+    .filter((date): date is NonNullable<typeof date> => date !== null)
+    .map((date) => date.time);
+
+  const attendees = properties
+    .filter((property) => property.name === 'ATTENDEE')
+    .map((property) => property.value.replace(/^mailto:/i, '').trim().toLowerCase())
+    .filter(Boolean);
+
+  const sourceUid = text('UID') || `${dtstart!.value}-${title}@import`;
+  const recurrence = first('RECURRENCE-ID');
+  const recurrenceId = recurrence ? parseIcsDate(recurrence.value, recurrence.params)?.time : undefined;
+
+  const draft: CalendarEventDraft = {
+    uid: recurrence ? `${sourceUid}/${recurrence.value}` : sourceUid,
+    title,
+    description: text('DESCRIPTION') || undefined,
+    location: text('LOCATION') || undefined,
+    startTime: start.time,
+    endTime,
+    allDay: start.allDay,
+    exdates: exdates.length > 0 ? exdates : undefined,
+    attendees,
+  };
+
+  const problem = validateCalendarEvent(draft);
+  if (problem) return `${title}: ${problem}`;
+
+  return { draft, recurrenceId, sourceUid };
+}
+
+/**
+ * Parse a .ics file holding one or more VEVENTs.
+ * Repeat rules FUSE can't expand are dropped (the first date is kept) and reported.
+ */
+export function parseIcs(text: string): IcsParseResult {
+  // Unfold: a line starting with space/tab continues the previous one
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const parsed: ParsedVEvent[] = [];
+  const errors: string[] = [];
+  const rules = new Map<ParsedVEvent, IcsProperty>();
+
+  // Component stack - only properties directly inside a VEVENT count (not its VALARMs)
+  const stack: string[] = [];
+  let event: IcsProperty[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === 'VEVENT') event = [];
+    } else if (property.name === 'END') {
+      if (stack.pop() === 'VEVENT') {
+        const result = toDraft(event);
+        if (typeof result === 'string') errors.push(result);
+        else if (result) {
+          parsed.push(result);
+          const rule = event.find((candidate) => candidate.name === 'RRULE');
+          if (rule) rules.set(result, rule);
+        }
+      }
+    } else if (stack[stack.length - 1] === 'VEVENT') {
+      event.push(property);
+    }
+  }
+
+  for (const [item, rule] of rules) {
+    const result = parseRRule(rule.value);
+    if ('error' in result) errors.push(`${item.draft.title}: imported once - ${result.error}`);
+    else item.draft.rrule = rule.value.trim().replace(/^RRULE:/i, '');
+  }
+
+  // A moved instance replaces its date in the series
+  for (const item of parsed) {
+    if (item.recurrenceId === undefined) continue;
+    const series = parsed.find((candidate) => candidate.recurrenceId === undefined && candidate.sourceUid === item.sourceUid);
+    if (series?.draft.rrule) series.draft.exdates = [...(series.draft.exdates ?? []), item.recurrenceId];
+  }
+
+  const events = parsed.map((item) => item.draft);
+  if (events.length === 0 && errors.length === 0) errors.push('No events found in file');
+  return { events, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WRITE
+// ═══════════════════════════════════════════════════════════════════════════
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+}
+
+/** Fold at 75 octets without splitting a multi-byte character */
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= FOLD_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? FOLD_OCTETS : FOLD_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+const utcStamp = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const dateStamp = (time: number) => utcStamp(time).slice(0, 8);
+
+/** Stable UID: the imported one, else derived from the event _id */
+export function eventUid(event: { _id: string; uid?: string }): string {
+  return event.uid ?? `${event._id}@${UID_DOMAIN}`;
+}
+
+/** _id of an event exported by FUSE, read back from its UID */
+export function exportedEventId(uid: string): string | null {
+  const suffix = `@${UID_DOMAIN}`;
+  return uid.endsWith(suffix) ? uid.slice(0, -suffix.length) : null;
+}
+
+/** One VCALENDAR holding a VEVENT per event */
+export function eventsToIcs(events: ExportableCalendarEvent[], now: number): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FUSE//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  for (const event of events) {
+    const when = (time: number) => (event.allDay ? `;VALUE=DATE:${dateStamp(time)}` : `:${utcStamp(time)}`);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${eventUid(event)}`,
+      `DTSTAMP:${utcStamp(now)}`,
+      `DTSTART${when(event.startTime)}`,
+      `DTEND${when(event.endTime)}`,
+      `SUMMARY:${escapeText(event.title)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.exdates?.length) {
+      lines.push(`EXDATE${event.allDay ? ';VALUE=DATE:' : ':'}${event.exdates.map(event.allDay ? dateStamp : utcStamp).join(',')}`);
+    }
+    for (const attendee of event.attendees) {
+      if (attendee.includes('@')) lines.push(`ATTENDEE:mailto:${attendee}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
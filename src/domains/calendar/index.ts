@@ -0,0 +1,56 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR DOMAIN - Export Hub                                           │
+│  /src/domains/calendar/index.ts                                            │
+│                                                                            │
+│  Central export for provider-agnostic calendar rules.                      │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// Events, recurrence and grid
+export {
+  DAY_MS,
+  MINUTE_MS,
+  CALENDAR_VIEWS,
+  REPEAT_PRESETS,
+  CALENDAR_TITLE_MAX,
+  SLOT_MINUTES,
+  AGENDA_DAYS,
+  CALENDAR_IMPORT_BATCH_SIZE,
+  validateCalendarEvent,
+  repeatPresetFor,
+  toWallClock,
+  fromWallClock,
+  eventWallClock,
+  storedTimes,
+  startOfDay,
+  startOfWeek,
+  snapToSlot,
+  viewRange,
+  shiftAnchor,
+  rangeLabel,
+  formatWallTime,
+  expandEvents,
+  occurrencesOnDay,
+  layoutDay,
+  shiftEvent,
+} from './events';
+export type {
+  CalendarView,
+  RepeatPreset,
+  CalendarEventInput,
+  SchedulableEvent,
+  CalendarOccurrence,
+  PlacedOccurrence,
+} from './events';
+
+// iCalendar import / export
+export {
+  parseIcs,
+  eventsToIcs,
+  eventUid,
+  exportedEventId,
+} from './ics';
+export type {
+  CalendarEventDraft,
+  IcsParseResult,
+  ExportableCalendarEvent,
+} from './ics';
@@ -0,0 +1,90 @@
+/**
+ * Contact CSV Unit Tests
+ *
+ * Header guessing across CRM exports, quoted fields, row validation and
+ * an export that maps back onto itself.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { readCsv } from '@/lib/csv';
+import { contactsToCsv, guessContactMapping, parseContactCsv, type ExportableContact } from '@/domains/clients';
+
+describe('guessContactMapping', () => {
+  test('reads Google Contacts headers', () => {
+    expect(guessContactMapping([
+      'Name', 'Given Name', 'Family Name', 'E-mail 1 - Value', 'Organization 1 - Name', 'Organization 1 - Title', 'Phone 1 - Value',
+    ])).toEqual({ firstName: 1, lastName: 2, email: 3, company: 4, jobTitle: 5, phoneNumber: 6 });
+  });
+
+  test('keeps a combined name only when first and last are missing', () => {
+    expect(guessContactMapping(['Full Name', 'Email Address', 'Lifecycle Stage', 'Notes']))
+      .toEqual({ fullName: 0, email: 1, status: 2, notes: 3 });
+  });
+
+  test('uses each column once', () => {
+    // "Mobile Phone" and "Phone" both look like phones; only the first match is taken
+    const mapping = guessContactMapping(['Email', 'Phone', 'Mobile Phone']);
+    expect(mapping).toEqual({ email: 0, phoneNumber: 1 });
+  });
+});
+
+describe('parseContactCsv', () => {
+  test('keeps commas, quotes and line breaks inside quoted fields', () => {
+    const table = readCsv([
+      'Full Name,Email,Company,Notes',
+      '"Ada King Lovelace",ada@example.com,"Engines, ""AE"" Ltd","Line one',
+      'Line two"',
+    ].join('\r\n'));
+    const { contacts, errors } = parseContactCsv(table, guessContactMapping(table.headers));
+    expect(errors).toEqual([]);
+    expect(contacts).toEqual([{
+      firstName: 'Ada King',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      company: 'Engines, "AE" Ltd',
+      jobTitle: undefined,
+      phoneNumber: undefined,
+      notes: 'Line one\r\nLine two',
+      status: undefined,
+    }]);
+  });
+
+  test('reports rows without a valid email by their line in the file', () => {
+    const table = readCsv('First Name,Email,Status\nAda, ADA@Example.com ,Active\nBob,,lead\nCy,cy@,Lead');
+    const { contacts, errors } = parseContactCsv(table, guessContactMapping(table.headers));
+    expect(contacts).toMatchObject([{ firstName: 'Ada', lastName: '', email: 'ada@example.com', status: 'active' }]);
+    expect(errors).toEqual(['Row 3: missing email', 'Row 4: "cy@" is not a valid email']);
+  });
+
+  test('needs an email column', () => {
+    expect(parseContactCsv(readCsv('Name\nAda'), { fullName: 0 }).errors).toEqual(['Map a column to Email to import contacts']);
+  });
+
+  test('unknown statuses are left for the importer to default', () => {
+    const table = readCsv('Email,Status\nada@example.com,VIP');
+    expect(parseContactCsv(table, { email: 0, status: 1 }).contacts[0].status).toBeUndefined();
+  });
+});
+
+describe('contactsToCsv', () => {
+  test('quotes awkward values and reads back through the guessed mapping', () => {
+    const contact: ExportableContact = {
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      company: 'Engines, "AE"',
+      status: 'prospect',
+      notes: 'Two\nlines',
+    };
+    const csv = contactsToCsv([contact]);
+    expect(csv.split('\r\n')[0]).toBe('First Name,Last Name,Email,Company,Job Title,Phone,Status,Notes');
+    expect(csv).toContain('"Engines, ""AE"""');
+
+    const table = readCsv(csv);
+    expect(parseContactCsv(table, guessContactMapping(table.headers)).contacts).toEqual([{
+      ...contact,
+      jobTitle: undefined,
+      phoneNumber: undefined,
+    }]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Contact Merge Unit Tests
+ *
+ * Which imported fields conflict with an existing contact, the default
+ * winners, and the patch a merge writes.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { conflictingFields, defaultMergeChoices, mergePatch, type ContactDraft } from '@/domains/clients';
+
+const existing = {
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  company: 'Analytical Engines',
+  jobTitle: '',
+  phoneNumber: undefined,
+  notes: 'Prefers email',
+};
+
+const incoming: ContactDraft = {
+  firstName: ' Ada ',
+  lastName: 'King',
+  email: 'ada@example.com',
+  company: 'Difference Engines',
+  jobTitle: 'Mathematician',
+  phoneNumber: '+44 20 7946 0000',
+  notes: '',
+};
+
+describe('conflictingFields', () => {
+  test('lists fields the file changes, ignoring whitespace and blanks', () => {
+    expect(conflictingFields(existing, incoming)).toEqual(['lastName', 'company', 'jobTitle', 'phoneNumber']);
+  });
+
+  test('an identical import has nothing to merge', () => {
+    expect(conflictingFields(existing, { ...existing, email: 'ada@example.com' })).toEqual([]);
+  });
+});
+
+describe('defaultMergeChoices', () => {
+  test('keeps what the record has and fills its blanks from the file', () => {
+    expect(defaultMergeChoices(existing, incoming)).toEqual({
+      lastName: 'existing',
+      company: 'existing',
+      jobTitle: 'incoming',
+      phoneNumber: 'incoming',
+    });
+  });
+});
+
+describe('mergePatch', () => {
+  test('writes only the fields the file won', () => {
+    expect(mergePatch(incoming, defaultMergeChoices(existing, incoming))).toEqual({
+      jobTitle: 'Mathematician',
+      phoneNumber: '+44 20 7946 0000',
+    });
+  });
+
+  test('an overridden conflict takes the incoming value', () => {
+    expect(mergePatch(incoming, { lastName: 'incoming', company: 'existing' })).toEqual({ lastName: 'King' });
+  });
+
+  test('never clears a field the file leaves out', () => {
+    expect(mergePatch({ ...incoming, notes: undefined }, { notes: 'incoming' })).toEqual({});
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Contact vCard Unit Tests
+ *
+ * Reading 3.0 / 4.0 cards (folding, escaping, preferred values) and
+ * exporting cards that read back the same.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { contactsToVCard, parseVCards, type ExportableContact } from '@/domains/clients';
+
+const card = (...lines: string[]) => ['BEGIN:VCARD', 'VERSION:3.0', ...lines, 'END:VCARD'].join('\r\n');
+
+describe('parseVCards', () => {
+  test('reads a folded, escaped card', () => {
+    const { contacts, errors } = parseVCards(card(
+      'N:Lovelace;Ada;King;;',
+      'FN:Ada Lovelace',
+      'item1.EMAIL;TYPE=INTERNET:ADA@Example.com',
+      'ORG:Analytical Engines\\, Ltd;Research',
+      'TITLE:Chief',
+      '  Mathematician',
+      'NOTE:Met at the RS\\nLikes\\; notes \\\\ symbols',
+    ));
+    expect(errors).toEqual([]);
+    expect(contacts).toEqual([{
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      company: 'Analytical Engines, Ltd',
+      jobTitle: 'Chief Mathematician',
+      phoneNumber: undefined,
+      notes: 'Met at the RS\nLikes; notes \\ symbols',
+    }]);
+  });
+
+  test('takes the preferred email and phone (3.0 TYPE=pref, 4.0 PREF)', () => {
+    const [v3] = parseVCards(card(
+      'FN:Sam Lee',
+      'EMAIL:work@example.com',
+      'EMAIL;TYPE=INTERNET,PREF:home@example.com',
+      'TEL;CELL:+44 7700 900000',
+    )).contacts;
+    expect(v3).toMatchObject({ email: 'home@example.com', phoneNumber: '+44 7700 900000' });
+
+    const [v4] = parseVCards(card(
+      'FN:Sam Lee',
+      'EMAIL;PREF=2:second@example.com',
+      'EMAIL;PREF=1:first@example.com',
+      'TEL;VALUE=uri;PREF=1:tel:+1-555-0100',
+    )).contacts;
+    expect(v4).toMatchObject({ email: 'first@example.com', phoneNumber: '+1-555-0100' });
+  });
+
+  test('falls back to FN for the name and accepts mailto: emails', () => {
+    const [contact] = parseVCards(card('FN:Grace Brewster Hopper', 'EMAIL:mailto:grace@navy.mil')).contacts;
+    expect(contact).toMatchObject({ firstName: 'Grace Brewster', lastName: 'Hopper', email: 'grace@navy.mil' });
+  });
+
+  test('reads several cards and reports the ones without a usable email', () => {
+    const { contacts, errors } = parseVCards([
+      card('FN:One', 'EMAIL:one@example.com'),
+      card('FN:Two'),
+      card('FN:Three', 'EMAIL:not-an-email'),
+    ].join('\n'));
+    expect(contacts.map((contact) => contact.email)).toEqual(['one@example.com']);
+    expect(errors).toEqual(['Two: missing email', 'Three: "not-an-email" is not a valid email']);
+  });
+
+  test('explains a file without cards', () => {
+    expect(parseVCards('hello')).toEqual({ contacts: [], errors: ['No vCards found in file'] });
+  });
+});
+
+describe('contactsToVCard', () => {
+  const contact: ExportableContact = {
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.com',
+    company: 'Engines, Ltd; R&D',
+    jobTitle: 'Mathematician',
+    phoneNumber: '+44 20 7946 0000',
+    status: 'active',
+    notes: `First line\nSecond line ${'with a long tail '.repeat(6)}`.trim(),
+  };
+
+  test('escapes text and folds long lines', () => {
+    const vcf = contactsToVCard([contact]);
+    expect(vcf).toContain('N:Lovelace;Ada;;;\r\n');
+    expect(vcf).toContain('ORG:Engines\\, Ltd\\; R&D\r\n');
+    for (const line of vcf.split('\r\n')) expect(line.length).toBeLessThanOrEqual(75);
+  });
+
+  test('reads back the same contact', () => {
+    // vCard has no status; everything else survives the round trip
+    const { firstName, lastName, email, company, jobTitle, phoneNumber, notes } = contact;
+    expect(parseVCards(contactsToVCard([contact])).contacts)
+      .toEqual([{ firstName, lastName, email, company, jobTitle, phoneNumber, notes }]);
+  });
+});
@@ -0,0 +1,91 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  👥 CONTACT RULES - Pure Functions                                         │
+│  /src/domains/clients/contacts.ts                                          │
+│                                                                            │
+│  Shared by Convex mutations (authoritative) and the contacts page          │
+│  (filters, labels, inline validation). No database access, no UI.          │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ContactStatus = 'lead' | 'prospect' | 'active' | 'inactive' | 'archived';
+
+/** A contact read from an import file, before it is matched against the org */
+export interface ContactDraft {
+  firstName: string;
+  lastName: string;
+  /** Normalized (trimmed, lower-cased) */
+  email: string;
+  company?: string;
+  jobTitle?: string;
+  phoneNumber?: string;
+  notes?: string;
+  status?: ContactStatus;
+}
+
+export interface ContactParseResult {
+  contacts: ContactDraft[];
+  /** Human-readable problems with skipped records */
+  errors: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Lifecycle order: cold lead → qualified prospect → client → lapsed → archived */
+export const CONTACT_STATUSES: { value: ContactStatus; label: string }[] = [
+  { value: 'lead', label: 'Lead' },
+  { value: 'prospect', label: 'Prospect' },
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'archived', label: 'Archived' },
+];
+
+export const DEFAULT_CONTACT_STATUS: ContactStatus = 'lead';
+
+/** Max rows per importContacts call (keeps each mutation well inside Convex limits) */
+export const CONTACT_IMPORT_BATCH_SIZE = 100;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RULES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Trimmed, lower-cased email - the dedupe key for contacts */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+/** "First Last", falling back to the email when both names are blank */
+export function contactDisplayName(contact: { firstName: string; lastName: string; email: string }): string {
+  return `${contact.firstName} ${contact.lastName}`.trim() || contact.email;
+}
+
+/**
+ * Validate contact identity before it is persisted.
+ * @returns Error message, or null when valid
+ */
+export function validateContact(contact: { firstName: string; lastName: string; email: string }): string | null {
+  if (!contact.firstName.trim() && !contact.lastName.trim()) return 'Contact needs a first or last name';
+  if (!isValidEmail(contact.email)) return 'Enter a valid email address';
+  return null;
+}
+
+/** Match a free-text status ("Active", "LEAD") to a ContactStatus */
+export function parseContactStatus(raw: string): ContactStatus | undefined {
+  const value = raw.trim().toLowerCase();
+  return CONTACT_STATUSES.find((status) => status.value === value || status.label.toLowerCase() === value)?.value;
+}
+
+/** Split "Ada King Lovelace" into first "Ada King" / last "Lovelace" */
+export function splitFullName(fullName: string): { firstName: string; lastName: string } {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { firstName: parts[0] ?? '', lastName: '' };
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] };
+}
@@ -0,0 +1,181 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📇 CONTACT CSV - Import Mapping + Export                                  │
+│  /src/domains/clients/csv.ts                                               │
+│                                                                            │
+│  Every CRM exports different headers, so CSV import is two steps:          │
+│  1. guessContactMapping() - suggest columns from common header names       │
+│  2. parseContactCsv() - apply the user-confirmed mapping                   │
+│  contactsToCsv() writes headers that guessContactMapping() reads back.     │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { csvRow, type CsvTable } from '@/lib/csv';
+import {
+  CONTACT_STATUSES,
+  isValidEmail,
+  normalizeEmail,
+  parseContactStatus,
+  splitFullName,
+  type ContactDraft,
+  type ContactParseResult,
+  type ContactStatus,
+} from './contacts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ContactImportField =
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'company'
+  | 'jobTitle'
+  | 'phoneNumber'
+  | 'status'
+  | 'notes';
+
+/** Column index per contact field; undefined = not in the file */
+export type ContactColumnMapping = Partial<Record<ContactImportField, number>>;
+
+/** Exportable contact - the stored record or anything shaped like it */
+export interface ExportableContact {
+  firstName: string;
+  lastName: string;
+  email: string;
+  company?: string;
+  jobTitle?: string;
+  phoneNumber?: string;
+  status: ContactStatus;
+  notes?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Mapping form order; fullName is only used when first/last are unmapped */
+export const CONTACT_IMPORT_FIELDS: { value: ContactImportField; label: string }[] = [
+  { value: 'firstName', label: 'First name' },
+  { value: 'lastName', label: 'Last name' },
+  { value: 'fullName', label: 'Full name' },
+  { value: 'email', label: 'Email' },
+  { value: 'company', label: 'Company' },
+  { value: 'jobTitle', label: 'Job title' },
+  { value: 'phoneNumber', label: 'Phone' },
+  { value: 'status', label: 'Status' },
+  { value: 'notes', label: 'Notes' },
+];
+
+/** Header patterns (Google, Outlook, HubSpot and our own export) */
+const HEADER_PATTERNS: Record<ContactImportField, RegExp[]> = {
+  firstName: [/^first ?name$/i, /^given ?name$/i, /^first$/i],
+  lastName: [/^last ?name$/i, /^family ?name$/i, /^surname$/i, /^last$/i],
+  fullName: [/^(full ?)?name$/i, /^display ?name$/i, /^contact$/i],
+  email: [/^e-?mail( address)?$/i, /^e-?mail 1 - value$/i, /e-?mail/i],
+  company: [/^company( name)?$/i, /^organi[sz]ation( 1 - name| name)?$/i, /company/i],
+  jobTitle: [/^(job )?title$/i, /^organi[sz]ation 1 - title$/i, /^position$/i, /^role$/i],
+  phoneNumber: [/^phone( number)?$/i, /^mobile( phone)?$/i, /^phone 1 - value$/i, /phone|mobile|tel/i],
+  status: [/^status$/i, /^lifecycle stage$/i],
+  notes: [/^notes?$/i, /^description$/i, /^comments?$/i],
+};
+
+const EXPORT_HEADERS = ['First Name', 'Last Name', 'Email', 'Company', 'Job Title', 'Phone', 'Status', 'Notes'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IMPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Suggest a mapping from common CRM header names.
+ * Each column is used at most once; the user confirms in the import preview.
+ */
+export function guessContactMapping(headers: string[]): ContactColumnMapping {
+  const mapping: ContactColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const { value: field } of CONTACT_IMPORT_FIELDS) {
+    for (const pattern of HEADER_PATTERNS[field]) {
+      const index = headers.findIndex((header, i) => !used.has(i) && pattern.test(header.trim()));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  // A split name wins over a combined one
+  if (mapping.firstName !== undefined || mapping.lastName !== undefined) delete mapping.fullName;
+  return mapping;
+}
+
+/**
+ * Apply a column mapping to CSV records.
+ * Records without a valid email are reported and skipped.
+ */
+export function parseContactCsv(table: CsvTable, mapping: ContactColumnMapping): ContactParseResult {
+  const contacts: ContactDraft[] = [];
+  const errors: string[] = [];
+
+  const cell = (record: string[], field: ContactImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (record[index] ?? '').trim();
+  };
+  const optional = (value: string) => value || undefined;
+
+  if (mapping.email === undefined) {
+    return { contacts, errors: ['Map a column to Email to import contacts'] };
+  }
+
+  table.records.forEach((record, index) => {
+    const line = index + 2; // 1-based, after the header row
+    const email = cell(record, 'email');
+    if (!isValidEmail(email)) {
+      errors.push(`Row ${line}: ${email ? `"${email}" is not a valid email` : 'missing email'}`);
+      return;
+    }
+
+    let firstName = cell(record, 'firstName');
+    let lastName = cell(record, 'lastName');
+    if (!firstName && !lastName) ({ firstName, lastName } = splitFullName(cell(record, 'fullName')));
+
+    const rawStatus = cell(record, 'status');
+    contacts.push({
+      firstName,
+      lastName,
+      email: normalizeEmail(email),
+      company: optional(cell(record, 'company')),
+      jobTitle: optional(cell(record, 'jobTitle')),
+      phoneNumber: optional(cell(record, 'phoneNumber')),
+      notes: optional(cell(record, 'notes')),
+      status: rawStatus ? parseContactStatus(rawStatus) : undefined,
+    });
+  });
+
+  return { contacts, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One row per contact, status as its display label */
+export function contactsToCsv(contacts: ExportableContact[]): string {
+  const statusLabel = (status: ContactStatus) =>
+    CONTACT_STATUSES.find((option) => option.value === status)?.label ?? status;
+
+  return [
+    csvRow(EXPORT_HEADERS),
+    ...contacts.map((contact) => csvRow([
+      contact.firstName,
+      contact.lastName,
+      contact.email,
+      contact.company ?? '',
+      contact.jobTitle ?? '',
+      contact.phoneNumber ?? '',
+      statusLabel(contact.status),
+      contact.notes ?? '',
+    ])),
+  ].join('\r\n');
+}
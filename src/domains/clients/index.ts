@@ -0,0 +1,62 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  👥 CLIENTS DOMAIN - Export Hub                                            │
+│  /src/domains/clients/index.ts                                             │
+│                                                                            │
+│  Central export for provider-agnostic client rules.                        │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// Contacts
+export {
+  CONTACT_STATUSES,
+  DEFAULT_CONTACT_STATUS,
+  CONTACT_IMPORT_BATCH_SIZE,
+  normalizeEmail,
+  isValidEmail,
+  contactDisplayName,
+  validateContact,
+  parseContactStatus,
+  splitFullName,
+} from './contacts';
+export type { ContactStatus, ContactDraft, ContactParseResult } from './contacts';
+
+// Import / export
+export {
+  CONTACT_IMPORT_FIELDS,
+  guessContactMapping,
+  parseContactCsv,
+  contactsToCsv,
+} from './csv';
+export type { ContactImportField, ContactColumnMapping, ExportableContact } from './csv';
+export { parseVCards, contactsToVCard } from './vcard';
+
+// Duplicate merging
+export {
+  MERGE_FIELDS,
+  conflictingFields,
+  defaultMergeChoices,
+  mergePatch,
+} from './merge';
+export type { MergeField, MergeWinner, MergeChoices } from './merge';
+
+// Pipeline
+export {
+  DEFAULT_PIPELINE_STAGES,
+  STAGE_KINDS,
+  WIN_REASONS,
+  LOSS_REASONS,
+  isClosedStage,
+  formatCloseReason,
+  validateStage,
+  validateDeal,
+  positionBetween,
+  weightedValue,
+  forecastByStage,
+  pipelineForecast,
+} from './pipeline';
+export type {
+  StageKind,
+  PipelineStageInput,
+  ForecastDeal,
+  CurrencyTotals,
+  StageForecast,
+} from './pipeline';
@@ -0,0 +1,70 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🔀 CONTACT MERGE - Duplicate Resolution                                   │
+│  /src/domains/clients/merge.ts                                             │
+│                                                                            │
+│  An imported contact whose email already exists in the org is merged       │
+│  into the existing record, one field at a time. Email is the match key     │
+│  and never changes; status and assignment stay with the existing record.   │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import type { ContactDraft } from './contacts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type MergeField = 'firstName' | 'lastName' | 'company' | 'jobTitle' | 'phoneNumber' | 'notes';
+
+export type MergeWinner = 'existing' | 'incoming';
+
+export type MergeChoices = Partial<Record<MergeField, MergeWinner>>;
+
+type MergeableContact = Partial<Record<MergeField, string>>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const MERGE_FIELDS: { value: MergeField; label: string }[] = [
+  { value: 'firstName', label: 'First name' },
+  { value: 'lastName', label: 'Last name' },
+  { value: 'company', label: 'Company' },
+  { value: 'jobTitle', label: 'Job title' },
+  { value: 'phoneNumber', label: 'Phone' },
+  { value: 'notes', label: 'Notes' },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RULES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Fields where the file brings a value that differs from the record */
+export function conflictingFields(existing: MergeableContact, incoming: ContactDraft): MergeField[] {
+  return MERGE_FIELDS
+    .map((field) => field.value)
+    .filter((field) => {
+      const value = incoming[field]?.trim() ?? '';
+      return value !== '' && value !== (existing[field]?.trim() ?? '');
+    });
+}
+
+/**
+ * Default winners: fill blanks from the file, keep everything the
+ * record already has. The merge UI starts here.
+ */
+export function defaultMergeChoices(existing: MergeableContact, incoming: ContactDraft): MergeChoices {
+  const choices: MergeChoices = {};
+  for (const field of conflictingFields(existing, incoming)) {
+    choices[field] = existing[field]?.trim() ? 'existing' : 'incoming';
+  }
+  return choices;
+}
+
+/** Patch for the existing record - only the fields the file won */
+export function mergePatch(incoming: ContactDraft, choices: MergeChoices): MergeableContact {
+  const patch: MergeableContact = {};
+  for (const { value: field } of MERGE_FIELDS) {
+    if (choices[field] === 'incoming' && incoming[field] !== undefined) patch[field] = incoming[field];
+  }
+  return patch;
+}
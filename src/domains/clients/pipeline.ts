@@ -0,0 +1,139 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  💼 PIPELINE RULES - Pure Functions                                        │
+│  /src/domains/clients/pipeline.ts                                          │
+│                                                                            │
+│  Stages, deal validation, board ordering and forecasting. Shared by the    │
+│  Convex pipeline mutations and the pipeline board. No database, no UI.     │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type StageKind = 'open' | 'won' | 'lost';
+
+export interface PipelineStageInput {
+  name: string;
+  kind: StageKind;
+  probability: number;
+}
+
+export interface ForecastDeal {
+  stageId: string;
+  value: number;
+  currency: string;
+  probability: number;
+}
+
+/** Per-currency totals - deals are never converted */
+export interface CurrencyTotals {
+  currency: string;
+  value: number;
+  weighted: number;
+}
+
+export interface StageForecast {
+  stageId: string;
+  count: number;
+  totals: CurrencyTotals[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** New orgs start with a conventional B2B pipeline */
+export const DEFAULT_PIPELINE_STAGES: PipelineStageInput[] = [
+  { name: 'Lead', kind: 'open', probability: 10 },
+  { name: 'Qualified', kind: 'open', probability: 25 },
+  { name: 'Proposal', kind: 'open', probability: 50 },
+  { name: 'Negotiation', kind: 'open', probability: 75 },
+  { name: 'Won', kind: 'won', probability: 100 },
+  { name: 'Lost', kind: 'lost', probability: 0 },
+];
+
+export const STAGE_KINDS: { value: StageKind; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+];
+
+export const WIN_REASONS = ['Price', 'Product fit', 'Relationship', 'Timing', 'Referral', 'Other'];
+
+export const LOSS_REASONS = ['Price', 'Competitor', 'No budget', 'No decision', 'Timing', 'Unresponsive', 'Other'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RULES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function isClosedStage(kind: StageKind): boolean {
+  return kind !== 'open';
+}
+
+/** Close reason as stored on the deal: "Price" or "Price - note" */
+export function formatCloseReason(reason: string, note: string): string {
+  return note.trim() ? `${reason} - ${note.trim()}` : reason;
+}
+
+/**
+ * Validate a stage before it is saved.
+ * @returns Error message, or null when valid
+ */
+export function validateStage(stage: PipelineStageInput): string | null {
+  if (!stage.name.trim()) return 'Stage needs a name';
+  if (!Number.isFinite(stage.probability) || stage.probability < 0 || stage.probability > 100) {
+    return 'Probability must be between 0 and 100';
+  }
+  return null;
+}
+
+/**
+ * Validate deal fields before they are saved.
+ * @returns Error message, or null when valid
+ */
+export function validateDeal(deal: { title: string; value: number; currency: string; probability: number }): string | null {
+  if (!deal.title.trim()) return 'Deal needs a title';
+  if (!Number.isFinite(deal.value) || deal.value < 0) return 'Value must be zero or more';
+  if (!/^[A-Z]{3}$/.test(deal.currency)) return 'Currency must be a 3-letter code';
+  if (!Number.isFinite(deal.probability) || deal.probability < 0 || deal.probability > 100) {
+    return 'Probability must be between 0 and 100';
+  }
+  return null;
+}
+
+/** Board position between two neighbours (shared with the task board) */
+export { positionBetween } from '@/lib/ordering';
+
+/** Expected value of a deal: value × win probability */
+export function weightedValue(deal: { value: number; probability: number }): number {
+  return Math.round(deal.value * deal.probability) / 100;
+}
+
+function addTotals(totals: CurrencyTotals[], deal: ForecastDeal) {
+  const existing = totals.find((total) => total.currency === deal.currency);
+  const weighted = weightedValue(deal);
+  if (existing) {
+    existing.value += deal.value;
+    existing.weighted += weighted;
+  } else {
+    totals.push({ currency: deal.currency, value: deal.value, weighted });
+  }
+}
+
+/** Count and per-currency value/weighted totals for every stage */
+export function forecastByStage(deals: ForecastDeal[], stageIds: string[]): StageForecast[] {
+  return stageIds.map((stageId) => {
+    const totals: CurrencyTotals[] = [];
+    const inStage = deals.filter((deal) => deal.stageId === stageId);
+    inStage.forEach((deal) => addTotals(totals, deal));
+    return { stageId, count: inStage.length, totals };
+  });
+}
+
+/** Open-pipeline forecast across all open stages */
+export function pipelineForecast(deals: ForecastDeal[], openStageIds: string[]): CurrencyTotals[] {
+  const open = new Set(openStageIds);
+  const totals: CurrencyTotals[] = [];
+  deals.filter((deal) => open.has(deal.stageId)).forEach((deal) => addTotals(totals, deal));
+  return totals;
+}
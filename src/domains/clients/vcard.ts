@@ -0,0 +1,179 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📇 CONTACT VCARD - vCard 3.0 / 4.0 Import + Export                        │
+│  /src/domains/clients/vcard.ts                                             │
+│                                                                            │
+│  Reads the properties a contact record can hold (N, FN, EMAIL, ORG,        │
+│  TITLE, TEL, NOTE) from one or many cards per file. Other properties       │
+│  are ignored. Export writes vCard 3.0 - the version every address book     │
+│  still accepts.                                                            │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import {
+  isValidEmail,
+  normalizeEmail,
+  splitFullName,
+  type ContactDraft,
+  type ContactParseResult,
+} from './contacts';
+import type { ExportableContact } from './csv';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+/** RFC 6350 §3.2 recommends folding at 75 octets */
+const FOLD_WIDTH = 75;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// READ
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Undo text escaping (\n, \,, \;, \\) */
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_match, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/** Split a structured value (N, ORG) on unescaped semicolons */
+function splitComponents(value: string): string[] {
+  return value.split(/(?<!\\);/).map(unescapeText);
+}
+
+/**
+ * Parse one content line: [group.]NAME[;PARAM=a,b]*:value
+ * vCard 3 bare params (TEL;CELL) become TYPE values.
+ */
+function parseProperty(line: string): VCardProperty | null {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon === -1) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const name = rawName.replace(/^[^.]+\./, '').toUpperCase();
+  const params: Record<string, string[]> = {};
+
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    const key = eq === -1 ? 'TYPE' : raw.slice(0, eq).toUpperCase();
+    const values = (eq === -1 ? raw : raw.slice(eq + 1)).replace(/"/g, '').split(',');
+    params[key] = [...(params[key] ?? []), ...values.map((value) => value.toLowerCase())];
+  }
+
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+/** Preferred instance: TYPE=pref (3.0) or lowest PREF (4.0), else the first */
+function preferred(properties: VCardProperty[]): VCardProperty | undefined {
+  const rank = (property: VCardProperty) => {
+    if (property.params.TYPE?.includes('pref')) return 0;
+    const pref = Number(property.params.PREF?.[0]);
+    return Number.isFinite(pref) ? pref : 101;
+  };
+  return [...properties].sort((a, b) => rank(a) - rank(b))[0];
+}
+
+function toDraft(properties: VCardProperty[]): ContactDraft | string {
+  const all = (name: string) => properties.filter((property) => property.name === name);
+  const text = (name: string) => {
+    const property = all(name)[0];
+    return property ? unescapeText(property.value).trim() : '';
+  };
+
+  const email = unescapeText(preferred(all('EMAIL'))?.value ?? '').replace(/^mailto:/i, '').trim();
+  const fullName = text('FN');
+  if (!isValidEmail(email)) {
+    return `${fullName || 'Card'}: ${email ? `"${email}" is not a valid email` : 'missing email'}`;
+  }
+
+  // N = Family;Given;Additional;Prefix;Suffix - FN is the fallback
+  const n = all('N')[0];
+  const [family = '', given = ''] = n ? splitComponents(n.value) : [];
+  const name = given.trim() || family.trim()
+    ? { firstName: given.trim(), lastName: family.trim() }
+    : splitFullName(fullName);
+
+  const org = all('ORG')[0];
+  const phone = preferred(all('TEL'));
+
+  return {
+    ...name,
+    email: normalizeEmail(email),
+    company: (org ? splitComponents(org.value)[0].trim() : '') || undefined,
+    jobTitle: text('TITLE') || undefined,
+    phoneNumber: phone ? unescapeText(phone.value).replace(/^tel:/i, '').trim() || undefined : undefined,
+    notes: text('NOTE') || undefined,
+  };
+}
+
+/**
+ * Parse a .vcf file holding one or more vCard 3.0 / 4.0 cards.
+ * Cards without a valid email are reported and skipped.
+ */
+export function parseVCards(text: string): ContactParseResult {
+  // Unfold: a line starting with space/tab continues the previous one
+  const lines = text.replace(/^﻿/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const contacts: ContactDraft[] = [];
+  const errors: string[] = [];
+
+  let card: VCardProperty[] | null = null;
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      card = [];
+    } else if (upper === 'END:VCARD') {
+      if (card) {
+        const draft = toDraft(card);
+        if (typeof draft === 'string') errors.push(draft);
+        else contacts.push(draft);
+      }
+      card = null;
+    } else if (card && line.trim()) {
+      const property = parseProperty(line);
+      if (property) card.push(property);
+    }
+  }
+
+  if (contacts.length === 0 && errors.length === 0) errors.push('No vCards found in file');
+  return { contacts, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WRITE
+// ═══════════════════════════════════════════════════════════════════════════
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+}
+
+/** Fold long content lines (continuation lines start with a space) */
+function fold(line: string): string {
+  if (line.length <= FOLD_WIDTH) return line;
+  const chunks = [line.slice(0, FOLD_WIDTH)];
+  for (let i = FOLD_WIDTH; i < line.length; i += FOLD_WIDTH - 1) {
+    chunks.push(` ${line.slice(i, i + FOLD_WIDTH - 1)}`);
+  }
+  return chunks.join('\r\n');
+}
+
+/** One vCard 3.0 per contact, concatenated into a single .vcf */
+export function contactsToVCard(contacts: ExportableContact[]): string {
+  return contacts.map((contact) => {
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `N:${escapeText(contact.lastName)};${escapeText(contact.firstName)};;;`,
+      `FN:${escapeText(`${contact.firstName} ${contact.lastName}`.trim() || contact.email)}`,
+      `EMAIL;TYPE=INTERNET:${contact.email}`,
+    ];
+    if (contact.company) lines.push(`ORG:${escapeText(contact.company)}`);
+    if (contact.jobTitle) lines.push(`TITLE:${escapeText(contact.jobTitle)}`);
+    if (contact.phoneNumber) lines.push(`TEL;TYPE=VOICE:${escapeText(contact.phoneNumber)}`);
+    if (contact.notes) lines.push(`NOTE:${escapeText(contact.notes)}`);
+    lines.push('END:VCARD');
+    return lines.map(fold).join('\r\n');
+  }).join('\r\n') + '\r\n';
+}
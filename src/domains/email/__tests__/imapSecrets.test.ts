@@ -0,0 +1,44 @@
+/**
+ * IMAP Password Sealing Unit Tests
+ *
+ * Passwords round-trip under MAIL_CREDENTIALS_KEY, never store in clear,
+ * and refuse to open when tampered with, unsealed or under another key.
+ */
+
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import { openPassword, sealPassword } from '@/convex/productivity/email/imapSecrets';
+
+const key = (byte: number) => Buffer.alloc(32, byte).toString('base64');
+
+describe('IMAP password sealing', () => {
+  beforeEach(() => vi.stubEnv('MAIL_CREDENTIALS_KEY', key(7)));
+  afterEach(() => vi.unstubAllEnvs());
+
+  test('round-trips without the password appearing in the stored value', () => {
+    const sealed = sealPassword('hunter2 – pässwörd');
+    expect(sealed).toMatch(/^v1:[^:]+:[^:]+$/);
+    expect(sealed).not.toContain('hunter2');
+    expect(openPassword(sealed)).toBe('hunter2 – pässwörd');
+  });
+
+  test('a fresh IV every time', () => {
+    expect(sealPassword('same')).not.toBe(sealPassword('same'));
+  });
+
+  test('refuses tampered, malformed and plain-text values', () => {
+    const [prefix, iv, body] = sealPassword('secret').split(':');
+    const flipped = Buffer.from(body, 'base64');
+    flipped[0] ^= 1;
+    expect(() => openPassword(`${prefix}:${iv}:${flipped.toString('base64')}`)).toThrow();
+    expect(() => openPassword('v1:abc')).toThrow('IMAP password is malformed');
+    expect(() => openPassword('secret')).toThrow('IMAP password is not sealed');
+  });
+
+  test('needs the key it was sealed with', () => {
+    const sealed = sealPassword('secret');
+    vi.stubEnv('MAIL_CREDENTIALS_KEY', key(8));
+    expect(() => openPassword(sealed)).toThrow();
+    vi.stubEnv('MAIL_CREDENTIALS_KEY', '');
+    expect(() => sealPassword('secret')).toThrow('MAIL_CREDENTIALS_KEY must be 32 bytes, base64 encoded');
+  });
+});
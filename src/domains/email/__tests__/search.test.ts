@@ -0,0 +1,127 @@
+/**
+ * Email Search Unit Tests
+ *
+ * The search bar language (terms, operators, invalid tokens) and the
+ * operator filters applied to indexed messages.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  CanonicalFolder,
+  isEmptySearch,
+  matchesSearchFilters,
+  parseSearchQuery,
+  type SearchableMessage,
+} from '@/domains/email';
+
+/** Local midnight, as parseSearchQuery produces for dates */
+const localDay = (year: number, month: number, day: number) => new Date(year, month - 1, day).getTime();
+
+describe('parseSearchQuery', () => {
+  test('free text keeps quoted phrases together', () => {
+    expect(parseSearchQuery('invoice "March rent"  overdue')).toEqual({
+      query: { terms: ['invoice', 'March rent', 'overdue'] },
+      invalid: [],
+    });
+  });
+
+  test('reads every operator', () => {
+    const { query, invalid } = parseSearchQuery(
+      'from:"Jane Doe" to:ops@example.com has:attachment before:2024-03-01 after:2024/2/1 folder:sent state:awaiting_me report'
+    );
+    expect(invalid).toEqual([]);
+    expect(query).toEqual({
+      terms: ['report'],
+      from: 'Jane Doe',
+      to: 'ops@example.com',
+      hasAttachment: true,
+      before: localDay(2024, 3, 1),
+      after: localDay(2024, 2, 1),
+      folder: CanonicalFolder.SENT,
+      state: 'awaiting_me',
+    });
+  });
+
+  test('operator names are case-insensitive and have aliases', () => {
+    expect(parseSearchQuery('FROM:jane IN:Deleted is:with_them HAS:attachments').query).toEqual({
+      terms: [],
+      from: 'jane',
+      folder: CanonicalFolder.TRASH,
+      state: 'awaiting_them',
+      hasAttachment: true,
+    });
+    expect(parseSearchQuery('folder:junk').query.folder).toBe(CanonicalFolder.SPAM);
+    expect(parseSearchQuery('state:done').query.state).toBe('resolved');
+  });
+
+  test('reports operators it cannot read and keeps the rest', () => {
+    const { query, invalid } = parseSearchQuery('from: has:pdf before:2024-02-30 after:yesterday folder:work state:urgent budget');
+    expect(invalid).toEqual(['from:', 'has:pdf', 'before:2024-02-30', 'after:yesterday', 'folder:work', 'state:urgent']);
+    expect(query).toEqual({ terms: ['budget'] });
+  });
+
+  test('unknown prefixes are ordinary words', () => {
+    expect(parseSearchQuery('subject:hello').query.terms).toEqual(['subject:hello']);
+  });
+});
+
+describe('isEmptySearch', () => {
+  test('is true only when nothing was asked for', () => {
+    expect(isEmptySearch(parseSearchQuery('   ').query)).toBe(true);
+    expect(isEmptySearch(parseSearchQuery('folder:nowhere').query)).toBe(true);
+    expect(isEmptySearch(parseSearchQuery('has:attachment').query)).toBe(false);
+    expect(isEmptySearch(parseSearchQuery('after:2024-01-01').query)).toBe(false);
+  });
+});
+
+describe('matchesSearchFilters', () => {
+  const message: SearchableMessage = {
+    subject: 'Quarterly report',
+    from: { name: 'Jane Doe', email: 'jane@acme.com' },
+    to: [{ email: 'ops@example.com' }],
+    cc: [{ name: 'Sam Lee', email: 'sam@example.com' }],
+    receivedAt: localDay(2024, 3, 1) + 9 * 60 * 60 * 1000,
+    hasAttachments: true,
+    resolutionState: 'awaiting_me',
+  };
+  const matches = (search: string, target: SearchableMessage = message) =>
+    matchesSearchFilters(target, parseSearchQuery(search).query);
+
+  test('free text is left to the index', () => {
+    expect(matches('nothing like the subject')).toBe(true);
+  });
+
+  test('from matches part of the sender name or address, ignoring case', () => {
+    expect(matches('from:JANE')).toBe(true);
+    expect(matches('from:acme.com')).toBe(true);
+    expect(matches('from:sam')).toBe(false);
+  });
+
+  test('to also searches Cc', () => {
+    expect(matches('to:ops@')).toBe(true);
+    expect(matches('to:"sam lee"')).toBe(true);
+    expect(matches('to:jane')).toBe(false);
+  });
+
+  test('before excludes its own day; after includes it', () => {
+    expect(matches('after:2024-03-01')).toBe(true);
+    expect(matches('before:2024-03-01')).toBe(false);
+    expect(matches('before:2024-03-02 after:2024-03-01')).toBe(true);
+    expect(matches('after:2024-03-02')).toBe(false);
+  });
+
+  test('attachments, folder and state', () => {
+    expect(matches('has:attachment')).toBe(true);
+    expect(matches('has:attachment', { ...message, hasAttachments: false })).toBe(false);
+    expect(matches('folder:inbox')).toBe(true);
+    expect(matches('folder:archive')).toBe(false);
+    expect(matches('folder:archive', { ...message, canonicalFolder: CanonicalFolder.ARCHIVE })).toBe(true);
+    expect(matches('state:with_me')).toBe(true);
+    expect(matches('state:resolved')).toBe(false);
+  });
+
+  test('every operator has to match', () => {
+    expect(matches('from:jane has:attachment folder:inbox')).toBe(true);
+    expect(matches('from:jane has:attachment folder:sent')).toBe(false);
+  });
+});
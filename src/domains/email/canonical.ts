@@ -87,6 +87,9 @@ export enum MailProvider {
 
   /** Yahoo Mail */
   YAHOO = 'yahoo',
+
+  /** Any IMAP/SMTP server (password login) */
+  IMAP = 'imap',
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
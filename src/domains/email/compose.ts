@@ -0,0 +1,265 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  ✍️ EMAIL COMPOSE RULES - Pure Functions                                   │
+│  /src/domains/email/compose.ts                                             │
+│                                                                            │
+│  Reply / Reply All / Forward drafting, quoting, recipient parsing and      │
+│  contact autocomplete. Shared by the composer and the Convex send action  │
+│  (attachment budget).                                                      │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ComposeMode = 'new' | 'reply' | 'replyAll' | 'forward';
+
+export interface ComposeAddress {
+  name: string;
+  email: string;
+}
+
+/** The message being replied to or forwarded */
+export interface ComposeSource {
+  subject: string;
+  from: { name?: string; email: string };
+  to: { name?: string; email: string }[];
+  cc?: { name?: string; email: string }[];
+  receivedAt: number;
+}
+
+export interface RecipientContact {
+  firstName: string;
+  lastName: string;
+  email: string;
+  company?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Total attachment budget per message. Graph sendMail caps the whole JSON
+ * request at 4 MB and base64 inflates files by a third.
+ */
+export const COMPOSE_ATTACHMENT_LIMIT_BYTES = 3 * 1024 * 1024;
+
+const REPLY_PREFIX = /^\s*(re|aw|sv)\s*:/i;
+const FORWARD_PREFIX = /^\s*(fwd?|wg|tr)\s*:/i;
+const ADDRESS_PATTERN = /^[^\s@<>",]+@[^\s@<>",]+$/;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DRAFTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const sameAddress = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+const toAddress = (participant: { name?: string; email: string }): ComposeAddress =>
+  ({ name: participant.name ?? '', email: participant.email });
+
+/** "Re: …" / "Fwd: …" without stacking prefixes */
+export function composeSubject(mode: ComposeMode, subject: string): string {
+  const base = subject.trim();
+  if (mode === 'reply' || mode === 'replyAll') return REPLY_PREFIX.test(base) ? base : `Re: ${base}`;
+  if (mode === 'forward') return FORWARD_PREFIX.test(base) ? base : `Fwd: ${base}`;
+  return base;
+}
+
+/**
+ * Reply goes to the sender; Reply All adds everyone else on To/Cc.
+ * The sending account is never a recipient. Replying to your own message
+ * goes back to its original recipients.
+ */
+export function replyRecipients(
+  mode: ComposeMode,
+  source: ComposeSource,
+  ownEmail: string
+): { to: ComposeAddress[]; cc: ComposeAddress[] } {
+  if (mode !== 'reply' && mode !== 'replyAll') return { to: [], cc: [] };
+
+  const fromMe = sameAddress(source.from.email, ownEmail);
+  const to = (fromMe ? source.to.map(toAddress) : [toAddress(source.from)])
+    .filter((a) => !sameAddress(a.email, ownEmail));
+  if (mode === 'reply') return { to, cc: [] };
+
+  const seen = new Set([ownEmail.toLowerCase(), ...to.map((a) => a.email.toLowerCase())]);
+  const cc: ComposeAddress[] = [];
+  for (const participant of [...(fromMe ? [] : source.to), ...(source.cc ?? [])]) {
+    const key = participant.email.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    cc.push(toAddress(participant));
+  }
+  return { to, cc };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUOTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Plain text to paragraphs for the rich editor */
+export function textToHtml(text: string): string {
+  return text.split(/\r?\n/).map((line) => `<div>${line ? escapeHtml(line) : '<br>'}</div>`).join('');
+}
+
+/** Text alternative of an HTML body (block elements become line breaks) */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n• ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const senderOf = (source: ComposeSource) =>
+  source.from.name ? `${source.from.name} <${source.from.email}>` : source.from.email;
+
+/** Header lines above the quoted original */
+export function quoteHeader(mode: ComposeMode, source: ComposeSource): string[] {
+  const date = new Date(source.receivedAt).toLocaleString();
+  if (mode !== 'forward') return [`On ${date}, ${senderOf(source)} wrote:`];
+  return [
+    '---------- Forwarded message ----------',
+    `From: ${senderOf(source)}`,
+    `Date: ${date}`,
+    `Subject: ${source.subject}`,
+    `To: ${source.to.map((r) => r.email).join(', ')}`,
+  ];
+}
+
+/** Quoted original for the rich editor - replies are indented, forwards inline */
+export function quoteHtml(mode: ComposeMode, source: ComposeSource, bodyHtml: string): string {
+  const header = quoteHeader(mode, source).map(escapeHtml).join('<br>');
+  if (mode === 'forward') return `<br><div>${header}</div><br>${bodyHtml}`;
+  return `<br><div>${header}</div><blockquote>${bodyHtml}</blockquote>`;
+}
+
+/** Quoted original for plain-text mode ("> " per line on replies) */
+export function quoteText(mode: ComposeMode, source: ComposeSource, bodyText: string): string {
+  const header = quoteHeader(mode, source).join('\n');
+  if (mode === 'forward') return `\n\n${header}\n\n${bodyText}`;
+  return `\n\n${header}\n${bodyText.split('\n').map((line) => `> ${line}`).join('\n')}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECIPIENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Split on , and ; that are not inside quotes or angle brackets */
+function splitEntries(input: string): { entries: string[]; lastSeparator: number } {
+  const entries: string[] = [];
+  let start = 0;
+  let lastSeparator = -1;
+  let quoted = false;
+  let bracketed = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '"') quoted = !quoted;
+    else if (char === '<' && !quoted) bracketed = true;
+    else if (char === '>' && !quoted) bracketed = false;
+    else if ((char === ',' || char === ';') && !quoted && !bracketed) {
+      entries.push(input.slice(start, i));
+      start = i + 1;
+      lastSeparator = i;
+    }
+  }
+  entries.push(input.slice(start));
+  return { entries: entries.map((entry) => entry.trim()), lastSeparator };
+}
+
+/** "Name <a@b.c>, d@e.f" → addresses, plus the entries that are not addresses */
+export function parseAddresses(input: string): { addresses: ComposeAddress[]; invalid: string[] } {
+  const addresses: ComposeAddress[] = [];
+  const invalid: string[] = [];
+  for (const entry of splitEntries(input).entries.filter(Boolean)) {
+    const named = entry.match(/^"?([^"<]*?)"?\s*<([^>]+)>$/);
+    const email = (named ? named[2] : entry).trim();
+    if (!ADDRESS_PATTERN.test(email)) {
+      invalid.push(entry);
+      continue;
+    }
+    if (addresses.some((a) => sameAddress(a.email, email))) continue;
+    addresses.push({ name: named ? named[1].trim() : '', email });
+  }
+  return { addresses, invalid };
+}
+
+/** Names with separators are quoted so the line parses back */
+export function formatAddresses(addresses: ComposeAddress[]): string {
+  return addresses.map((a) => {
+    if (!a.name) return a.email;
+    const name = /[,;<>"]/.test(a.name) ? `"${a.name.replace(/"/g, '')}"` : a.name;
+    return `${name} <${a.email}>`;
+  }).join(', ');
+}
+
+/** The entry being typed - everything after the last separator */
+export function pendingEntry(input: string): string {
+  const { entries } = splitEntries(input);
+  return entries[entries.length - 1];
+}
+
+/** Replace the entry being typed with a picked address */
+export function completeEntry(input: string, address: ComposeAddress): string {
+  const { lastSeparator } = splitEntries(input);
+  const head = lastSeparator === -1 ? '' : `${input.slice(0, lastSeparator + 1).trimEnd()} `;
+  return `${head}${formatAddresses([address])}, `;
+}
+
+/**
+ * Contacts matching the entry being typed (name, email or company),
+ * skipping addresses already on the field. Prefix matches first.
+ */
+export function suggestRecipients<C extends RecipientContact>(
+  query: string,
+  contacts: C[],
+  exclude: string[],
+  limit = 6
+): C[] {
+  const needle = query.trim().toLowerCase();
+  if (needle.length < 2) return [];
+  const excluded = new Set(exclude.map((email) => email.toLowerCase()));
+
+  const scored: { contact: C; score: number }[] = [];
+  for (const contact of contacts) {
+    if (!contact.email || excluded.has(contact.email.toLowerCase())) continue;
+    const fields = [`${contact.firstName} ${contact.lastName}`, contact.lastName, contact.email, contact.company ?? '']
+      .map((field) => field.toLowerCase());
+    if (fields.some((field) => field.startsWith(needle))) scored.push({ contact, score: 0 });
+    else if (fields.some((field) => field.includes(needle))) scored.push({ contact, score: 1 });
+  }
+  return scored.sort((a, b) => a.score - b.score).slice(0, limit).map((entry) => entry.contact);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ATTACHMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Decoded size of a base64 string */
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
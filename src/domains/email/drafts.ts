@@ -0,0 +1,100 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📝 EMAIL DRAFT RULES - Pure Functions                                     │
+│  /src/domains/email/drafts.ts                                              │
+│                                                                            │
+│  Auto-saved drafts and send-later. A draft's status decides its canonical  │
+│  folder; the send time rules are shared by the composer and the Convex     │
+│  scheduler.                                                                │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { CanonicalFolder } from './canonical';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * draft     - being written (mirrored to the provider's drafts folder)
+ * scheduled - waiting for its send time
+ * sending   - claimed by a send; locked against edits
+ * failed    - the send was refused; back with the user to fix
+ */
+export type DraftStatus = 'draft' | 'scheduled' | 'sending' | 'failed';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Composer idle time before an edit is saved */
+export const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+/** Provider copies trail the saved draft - one upload per burst of edits */
+export const DRAFT_MIRROR_DELAY_MS = 10 * 1000;
+
+/** Send times closer than this are "send now" */
+export const SCHEDULE_MIN_LEAD_MS = 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FOLDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function draftFolder(status: DraftStatus): CanonicalFolder {
+  if (status === 'scheduled') return CanonicalFolder.SCHEDULED;
+  if (status === 'sending') return CanonicalFolder.OUTBOX;
+  return CanonicalFolder.DRAFTS;
+}
+
+export function canEditDraft(status: DraftStatus): boolean {
+  return status !== 'sending';
+}
+
+/** List preview of the body */
+export function draftSnippet(text: string, length = 120): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEND LATER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Why a send time cannot be scheduled, or null when it can */
+export function scheduleError(sendAt: number, now: number): string | null {
+  if (!Number.isFinite(sendAt)) return 'Pick a send time';
+  if (sendAt < now + SCHEDULE_MIN_LEAD_MS) return 'Pick a time at least a minute from now';
+  return null;
+}
+
+const atHour = (base: Date, daysAhead: number, hour: number) => {
+  const date = new Date(base);
+  date.setDate(date.getDate() + daysAhead);
+  date.setHours(hour, 0, 0, 0);
+  return date.getTime();
+};
+
+/** Quick picks in local time: tomorrow morning/afternoon, next Monday morning */
+export function sendLaterOptions(now: number): { label: string; sendAt: number }[] {
+  const today = new Date(now);
+  const daysToMonday = ((8 - today.getDay()) % 7) || 7;
+  return [
+    { label: 'Tomorrow morning', sendAt: atHour(today, 1, 8) },
+    { label: 'Tomorrow afternoon', sendAt: atHour(today, 1, 13) },
+    { label: 'Monday morning', sendAt: atHour(today, daysToMonday, 8) },
+  ];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Timestamp → <input type="datetime-local"> value (local time) */
+export function toDateTimeInput(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** <input type="datetime-local"> value → timestamp, null when incomplete */
+export function fromDateTimeInput(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return new Date(year, month - 1, day, hour, minute).getTime();
+}
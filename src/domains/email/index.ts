@@ -2,7 +2,8 @@
 │  📧 EMAIL DOMAIN - Export Hub                                              │
 │  /src/domains/email/index.ts                                               │
 │                                                                            │
-│  Central export for canonical email taxonomy and provider mappings.        │
+│  Central export for canonical email taxonomy, provider mappings and        │
+│  thread promotion, link, compose, draft and search rules.                  │
 └────────────────────────────────────────────────────────────────────────────*/
 
 // Canonical taxonomy
@@ -22,3 +23,82 @@ export {
 
 // Provider mappings
 export * from './mappings';
+
+// Promotion
+export {
+  PROMOTION_TARGETS,
+  PROMOTION_UNDO_WINDOW_MS,
+  PROMOTION_TITLE_MAX,
+  senderLabel,
+  promotionTitle,
+  promotionNotes,
+  draftTaskFromEmail,
+  draftProjectFromEmail,
+  draftBookingFromEmail,
+  canUndoPromotion,
+  undoSecondsLeft,
+} from './promotion';
+export type {
+  PromotionType,
+  PromotionPriority,
+  PromotionSource,
+  TaskDraft,
+  ProjectDraft,
+  BookingDraft,
+} from './promotion';
+
+// Links
+export { LINK_TARGETS, suggestContactLinks } from './links';
+export type { LinkTargetType, LinkableContact } from './links';
+
+// Compose
+export {
+  COMPOSE_ATTACHMENT_LIMIT_BYTES,
+  composeSubject,
+  replyRecipients,
+  escapeHtml,
+  textToHtml,
+  htmlToText,
+  quoteHeader,
+  quoteHtml,
+  quoteText,
+  parseAddresses,
+  formatAddresses,
+  pendingEntry,
+  completeEntry,
+  suggestRecipients,
+  base64ByteLength,
+  formatByteSize,
+} from './compose';
+export type { ComposeMode, ComposeAddress, ComposeSource, RecipientContact } from './compose';
+
+// Drafts & send later
+export {
+  DRAFT_AUTOSAVE_DELAY_MS,
+  DRAFT_MIRROR_DELAY_MS,
+  SCHEDULE_MIN_LEAD_MS,
+  draftFolder,
+  canEditDraft,
+  draftSnippet,
+  scheduleError,
+  sendLaterOptions,
+  toDateTimeInput,
+  fromDateTimeInput,
+} from './drafts';
+export type { DraftStatus } from './drafts';
+
+// Search
+export {
+  SEARCH_OPERATORS,
+  SEARCH_RESULT_LIMIT,
+  SEARCH_DEBOUNCE_MS,
+  parseSearchQuery,
+  isEmptySearch,
+  matchesSearchFilters,
+  highlightSegments,
+  highlightTerms,
+  toGmailQuery,
+  toOutlookSearch,
+  toImapSearch,
+} from './search';
+export type { EmailSearchQuery, SearchResolution, SearchableMessage } from './search';
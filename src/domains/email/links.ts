@@ -0,0 +1,58 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🔗 EMAIL LINK RULES - Pure Functions                                      │
+│  /src/domains/email/links.ts                                               │
+│                                                                            │
+│  Link is one of the email doctrine's Big 3: a thread is attached to the   │
+│  contacts, projects and invoices it is about, without becoming one.       │
+│  Shared by the Convex link functions, the Intelligence Rail and the       │
+│  "Emails" tabs on contacts and projects.                                  │
+│                                                                            │
+│  Suggestions are only suggestions: a human commits every link.            │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type LinkTargetType = 'contact' | 'project' | 'invoice';
+
+export interface LinkableContact {
+  _id: string;
+  email: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const LINK_TARGETS: { value: LinkTargetType; label: string }[] = [
+  { value: 'contact', label: 'Contact' },
+  { value: 'project', label: 'Project' },
+  { value: 'invoice', label: 'Invoice' },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUGGESTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const sameAddress = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Contacts whose email matches a thread participant and that are not
+ * linked yet, in participant order (the sender first).
+ */
+export function suggestContactLinks<C extends LinkableContact>(
+  participantEmails: string[],
+  contacts: C[],
+  linkedContactIds: string[]
+): C[] {
+  const suggestions: C[] = [];
+  for (const email of participantEmails) {
+    for (const contact of contacts) {
+      if (!sameAddress(contact.email, email)) continue;
+      if (linkedContactIds.includes(contact._id) || suggestions.includes(contact)) continue;
+      suggestions.push(contact);
+    }
+  }
+  return suggestions;
+}
@@ -0,0 +1,144 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📧 IMAP → CANONICAL MAPPING                                               │
+│  /src/domains/email/mappings/imap.ts                                       │
+│                                                                            │
+│  Maps IMAP mailboxes and flags to canonical taxonomy. Servers that         │
+│  advertise RFC 6154 special-use attributes are mapped by attribute,        │
+│  everything else by well-known mailbox names.                              │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { CanonicalFolder, CanonicalState } from '@/domains/email/canonical';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SPECIAL-USE ATTRIBUTES (RFC 6154)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const ImapSpecialUse = {
+  SENT: '\\Sent',
+  DRAFTS: '\\Drafts',
+  TRASH: '\\Trash',
+  JUNK: '\\Junk',
+  ARCHIVE: '\\Archive',
+  /** Virtual mailboxes - every message also lives in a real one */
+  ALL: '\\All',
+  FLAGGED: '\\Flagged',
+  NOSELECT: '\\Noselect',
+} as const;
+
+export { ImapSpecialUse };
+
+const SPECIAL_USE_MAP: Record<string, CanonicalFolder> = {
+  '\\sent': CanonicalFolder.SENT,
+  '\\drafts': CanonicalFolder.DRAFTS,
+  '\\trash': CanonicalFolder.TRASH,
+  '\\junk': CanonicalFolder.SPAM,
+  '\\archive': CanonicalFolder.ARCHIVE,
+  '\\all': CanonicalFolder.SYSTEM,
+  '\\flagged': CanonicalFolder.SYSTEM,
+};
+
+// Fallback for servers without special-use (case-insensitive, last path segment)
+const IMAP_NAME_MAP: Record<string, CanonicalFolder> = {
+  'sent': CanonicalFolder.SENT,
+  'sent items': CanonicalFolder.SENT,
+  'sent messages': CanonicalFolder.SENT,
+  'sent mail': CanonicalFolder.SENT,
+  'draft': CanonicalFolder.DRAFTS,
+  'drafts': CanonicalFolder.DRAFTS,
+  'trash': CanonicalFolder.TRASH,
+  'deleted items': CanonicalFolder.TRASH,
+  'deleted messages': CanonicalFolder.TRASH,
+  'junk': CanonicalFolder.SPAM,
+  'junk e-mail': CanonicalFolder.SPAM,
+  'spam': CanonicalFolder.SPAM,
+  'bulk': CanonicalFolder.SPAM,
+  'archive': CanonicalFolder.ARCHIVE,
+  'archives': CanonicalFolder.ARCHIVE,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FOLDER MAPPING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * The role of a well-known mailbox (Sent, Trash, Junk...), null for INBOX
+ * and custom mailboxes. Special-use attributes win over names.
+ *
+ * @param name - Decoded mailbox name
+ * @param attributes - LIST attributes ("\\HasNoChildren", "\\Sent")
+ * @returns Canonical folder, or null when the mailbox has no special role
+ */
+export function mapImapSpecialUse(name: string, attributes: string[]): CanonicalFolder | null {
+  for (const attribute of attributes) {
+    const mapped = SPECIAL_USE_MAP[attribute.toLowerCase()];
+    if (mapped) return mapped;
+  }
+  return IMAP_NAME_MAP[name.toLowerCase().trim()] ?? null;
+}
+
+/**
+ * Maps an IMAP mailbox to a canonical folder.
+ *
+ * INBOX is case-insensitive per RFC 3501. Folders below INBOX stay in
+ * INBOX (same as Outlook child folders); any other custom mailbox is
+ * filed mail and maps to ARCHIVE. Virtual \All / \Flagged map to SYSTEM.
+ *
+ * @param name - Decoded mailbox name ("INBOX/Clients")
+ * @param attributes - LIST attributes
+ * @param delimiter - Hierarchy delimiter from LIST (null = flat)
+ * @returns Canonical folder
+ */
+export function mapImapFolder(name: string, attributes: string[], delimiter: string | null): CanonicalFolder {
+  const segments = delimiter ? name.split(delimiter) : [name];
+  if (segments[0].toUpperCase() === 'INBOX') return CanonicalFolder.INBOX;
+  return mapImapSpecialUse(segments[segments.length - 1], attributes) ?? CanonicalFolder.ARCHIVE;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATE EXTRACTION
+// IMAP system flags → Canonical states
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Extracts canonical states from IMAP message flags.
+ *
+ * @param flags - FLAGS from FETCH ("\\Seen", "\\Flagged", keywords)
+ * @returns Array of canonical states
+ */
+export function extractImapStates(flags: string[]): CanonicalState[] {
+  const lower = new Set(flags.map((flag) => flag.toLowerCase()));
+  const states: CanonicalState[] = [];
+
+  if (!lower.has('\\seen')) states.push(CanonicalState.UNREAD);
+  if (lower.has('\\flagged')) states.push(CanonicalState.STARRED);
+  if (lower.has('$important')) states.push(CanonicalState.IMPORTANT);
+
+  return states;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FULL MESSAGE MAPPING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ImapCanonicalMapping {
+  canonicalFolder: CanonicalFolder;
+  canonicalStates: CanonicalState[];
+  isRead: boolean;
+}
+
+/**
+ * Maps an IMAP message to canonical taxonomy.
+ * The folder comes from the mailbox the message was fetched from.
+ *
+ * @param mailboxFolder - Canonical folder of the containing mailbox
+ * @param flags - FLAGS from FETCH
+ * @returns Complete canonical mapping
+ */
+export function mapImapMessage(mailboxFolder: CanonicalFolder, flags: string[]): ImapCanonicalMapping {
+  const canonicalStates = extractImapStates(flags);
+  return {
+    canonicalFolder: mailboxFolder,
+    canonicalStates,
+    isRead: !canonicalStates.includes(CanonicalState.UNREAD),
+  };
+}
@@ -35,3 +35,13 @@ export {
   type YahooMessageInput,
   type YahooCanonicalMapping,
 } from './yahoo';
+
+// IMAP
+export {
+  mapImapFolder,
+  mapImapSpecialUse,
+  extractImapStates,
+  mapImapMessage,
+  ImapSpecialUse,
+  type ImapCanonicalMapping,
+} from './imap';
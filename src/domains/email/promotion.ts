@@ -0,0 +1,129 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  ⬆️ EMAIL PROMOTION RULES - Pure Functions                                 │
+│  /src/domains/email/promotion.ts                                           │
+│                                                                            │
+│  Promote is one of the email doctrine's Big 3: a thread becomes a task,    │
+│  a project or a booking, pre-filled from its latest message. Shared by     │
+│  the Convex promoteThread/undoPromotion mutations and the Intelligence     │
+│  Rail.                                                                     │
+│                                                                            │
+│  A promotion can be undone until promotedTo.undoWindowEndsAt; after that   │
+│  the entity is ordinary and is deleted where it lives.                     │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type PromotionType = 'task' | 'project' | 'booking';
+
+/** Same scale as the AI classification priority */
+export type PromotionPriority = 'urgent' | 'high' | 'normal' | 'low';
+
+/** What a promotion needs from the thread's latest message */
+export interface PromotionSource {
+  subject: string;
+  from: { name?: string; email: string };
+  snippet?: string;
+  priority?: PromotionPriority;
+}
+
+export interface TaskDraft {
+  title: string;
+  description: string;
+  priority: PromotionPriority;
+}
+
+export interface ProjectDraft {
+  name: string;
+  description: string;
+}
+
+export interface BookingDraft {
+  clientName: string;
+  serviceType: string;
+  scheduledTime: number;
+  notes: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const PROMOTION_TARGETS: { value: PromotionType; label: string }[] = [
+  { value: 'task', label: 'Task' },
+  { value: 'project', label: 'Project' },
+  { value: 'booking', label: 'Booking' },
+];
+
+/** How long "Undo" stays available after promoting a thread */
+export const PROMOTION_UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+/** Longest title a promotion writes (task titles, project names) */
+export const PROMOTION_TITLE_MAX = 200;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DRAFTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** "Ann Lee <ann@acme.com>", or just the address */
+export function senderLabel(from: PromotionSource['from']): string {
+  return from.name ? `${from.name} <${from.email}>` : from.email;
+}
+
+/** Subject without reply/forward prefixes, falling back to the sender */
+export function promotionTitle(source: PromotionSource): string {
+  const subject = source.subject.trim().replace(/^((re|fwd?):\s*)+/i, '');
+  const title = subject || `Email from ${senderLabel(source.from)}`;
+  return title.length > PROMOTION_TITLE_MAX ? `${title.slice(0, PROMOTION_TITLE_MAX - 1)}…` : title;
+}
+
+/** Sender and snippet, as notes on the promoted entity */
+export function promotionNotes(source: PromotionSource): string {
+  return [`From ${senderLabel(source.from)}`, source.snippet?.trim()].filter(Boolean).join('\n\n');
+}
+
+export function draftTaskFromEmail(source: PromotionSource): TaskDraft {
+  return {
+    title: promotionTitle(source),
+    description: promotionNotes(source),
+    priority: source.priority ?? 'normal',
+  };
+}
+
+export function draftProjectFromEmail(source: PromotionSource): ProjectDraft {
+  return {
+    name: promotionTitle(source),
+    description: promotionNotes(source),
+  };
+}
+
+/**
+ * Pending booking for the sender. The time is a placeholder - 09:00 UTC
+ * the day after `now` - to be confirmed with the client.
+ */
+export function draftBookingFromEmail(source: PromotionSource, now: number): BookingDraft {
+  const today = new Date(now);
+  return {
+    clientName: source.from.name || source.from.email,
+    serviceType: promotionTitle(source),
+    scheduledTime: Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + 1) + 9 * HOUR_MS,
+    notes: promotionNotes(source),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UNDO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** A promotion can be undone until its window closes */
+export function canUndoPromotion(promotion: { undoWindowEndsAt: number } | undefined, now: number): boolean {
+  return promotion !== undefined && now < promotion.undoWindowEndsAt;
+}
+
+/** Whole seconds of the undo window left (0 once closed) */
+export function undoSecondsLeft(promotion: { undoWindowEndsAt: number }, now: number): number {
+  return Math.max(0, Math.ceil((promotion.undoWindowEndsAt - now) / 1000));
+}
@@ -0,0 +1,261 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🔍 EMAIL SEARCH RULES - Pure Functions                                    │
+│  /src/domains/email/search.ts                                              │
+│                                                                            │
+│  The console's search language, parsed once in the browser and sent to     │
+│  Convex as structured fields (dates are local midnights). Free text hits   │
+│  the search indexes; operators filter. Also builds the provider queries    │
+│  for the server-side fallback and splits text for highlighting.            │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { CanonicalFolder, LEGACY_RESOLUTION_MAP, ResolutionState } from './canonical';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** resolutionState as stored on productivity_email_Index */
+export type SearchResolution = 'awaiting_me' | 'awaiting_them' | 'resolved' | 'none';
+
+export interface EmailSearchQuery {
+  /** Free-text words and "quoted phrases" */
+  terms: string[];
+  /** Part of the sender's name or address */
+  from?: string;
+  /** Part of a To/Cc name or address */
+  to?: string;
+  hasAttachment?: boolean;
+  /** Received before this time (start of the given day) */
+  before?: number;
+  /** Received on or after this time (start of the given day) */
+  after?: number;
+  folder?: CanonicalFolder;
+  state?: SearchResolution;
+}
+
+export interface SearchableMessage {
+  subject: string;
+  snippet?: string;
+  from: { name?: string; email: string };
+  to: { name?: string; email: string }[];
+  cc?: { name?: string; email: string }[];
+  receivedAt: number;
+  hasAttachments?: boolean;
+  canonicalFolder?: string;
+  resolutionState: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Operators the search bar understands (shown as its hint) */
+export const SEARCH_OPERATORS = [
+  'from:', 'to:', 'has:attachment', 'before:', 'after:', 'folder:', 'state:awaiting_me',
+] as const;
+
+/** Matches taken from each search index */
+export const SEARCH_RESULT_LIMIT = 100;
+
+/** Pause in typing before the index is searched */
+export const SEARCH_DEBOUNCE_MS = 300;
+
+const FOLDER_ALIASES: Record<string, CanonicalFolder> = {
+  deleted: CanonicalFolder.TRASH,
+  junk: CanonicalFolder.SPAM,
+  draft: CanonicalFolder.DRAFTS,
+};
+
+const STATE_FROM_RESOLUTION: Record<ResolutionState, SearchResolution> = {
+  [ResolutionState.WITH_ME]: 'awaiting_me',
+  [ResolutionState.WITH_THEM]: 'awaiting_them',
+  [ResolutionState.DONE]: 'resolved',
+  [ResolutionState.NONE]: 'none',
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Whitespace-separated tokens; quotes keep spaces (from:"Jane Doe") */
+function tokenize(input: string): string[] {
+  return (input.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? []).map((token) => token.replace(/"/g, ''));
+}
+
+/** "2024-03-01" or "2024/03/01" → local midnight */
+function parseDay(value: string): number | null {
+  const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date.getTime() : null;
+}
+
+function parseFolder(value: string): CanonicalFolder | null {
+  const folder = FOLDER_ALIASES[value] ?? value;
+  return Object.values(CanonicalFolder).includes(folder as CanonicalFolder) ? folder as CanonicalFolder : null;
+}
+
+function parseState(value: string): SearchResolution | null {
+  if (value in LEGACY_RESOLUTION_MAP) return value as SearchResolution;
+  return STATE_FROM_RESOLUTION[value as ResolutionState] ?? null;
+}
+
+/**
+ * Parse the search bar. Operators that are misspelt or have a bad value
+ * come back in `invalid` so the bar can say which
+ */
+export function parseSearchQuery(input: string): { query: EmailSearchQuery; invalid: string[] } {
+  const query: EmailSearchQuery = { terms: [] };
+  const invalid: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const operator = token.match(/^(from|to|has|before|after|folder|in|state|is):(.*)$/i);
+    if (!operator) {
+      if (token) query.terms.push(token);
+      continue;
+    }
+    const key = operator[1].toLowerCase();
+    const value = operator[2].trim();
+    const lower = value.toLowerCase();
+    if (!value) {
+      invalid.push(token);
+    } else if (key === 'from') {
+      query.from = value;
+    } else if (key === 'to') {
+      query.to = value;
+    } else if (key === 'has' && /^attachments?$/.test(lower)) {
+      query.hasAttachment = true;
+    } else if (key === 'before' || key === 'after') {
+      const day = parseDay(value);
+      if (day === null) invalid.push(token);
+      else query[key] = day;
+    } else if (key === 'folder' || key === 'in') {
+      const folder = parseFolder(lower);
+      if (folder) query.folder = folder;
+      else invalid.push(token);
+    } else if (key === 'state' || key === 'is') {
+      const state = parseState(lower);
+      if (state) query.state = state;
+      else invalid.push(token);
+    } else {
+      invalid.push(token);
+    }
+  }
+  return { query, invalid };
+}
+
+export function isEmptySearch(query: EmailSearchQuery): boolean {
+  return query.terms.length === 0 && !query.from && !query.to && !query.hasAttachment
+    && query.before === undefined && query.after === undefined && !query.folder && !query.state;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MATCHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const contains = (value: string | undefined, needle: string) =>
+  (value ?? '').toLowerCase().includes(needle.toLowerCase());
+
+const matchesParticipant = (participant: { name?: string; email: string }, needle: string) =>
+  contains(participant.name, needle) || contains(participant.email, needle);
+
+/** Operator checks (free text is left to the search index) */
+export function matchesSearchFilters(message: SearchableMessage, query: EmailSearchQuery): boolean {
+  const { from, to } = query;
+  if (from && !matchesParticipant(message.from, from)) return false;
+  if (to && ![...message.to, ...(message.cc ?? [])].some((p) => matchesParticipant(p, to))) return false;
+  if (query.hasAttachment && !message.hasAttachments) return false;
+  if (query.before !== undefined && message.receivedAt >= query.before) return false;
+  if (query.after !== undefined && message.receivedAt < query.after) return false;
+  if (query.folder && (message.canonicalFolder ?? CanonicalFolder.INBOX) !== query.folder) return false;
+  if (query.state && message.resolutionState !== query.state) return false;
+  return true;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HIGHLIGHTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Split text into plain and matched runs (case-insensitive, longest term first) */
+export function highlightSegments(text: string, terms: string[]): { text: string; match: boolean }[] {
+  const words = terms.filter(Boolean).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  if (!text || words.length === 0) return [{ text, match: false }];
+
+  // The capture group puts every match at an odd index
+  return text.split(new RegExp(`(${words.join('|')})`, 'gi'))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text);
+}
+
+/** Words to highlight in a result row */
+export function highlightTerms(query: EmailSearchQuery): string[] {
+  return [...query.terms, query.from, query.to].filter((term): term is string => Boolean(term));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROVIDER QUERIES (server-side fallback)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const quoteIfSpaced = (value: string) => (/\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+const GMAIL_FOLDERS: Partial<Record<CanonicalFolder, string>> = {
+  [CanonicalFolder.INBOX]: 'in:inbox',
+  [CanonicalFolder.SENT]: 'in:sent',
+  [CanonicalFolder.DRAFTS]: 'in:drafts',
+  [CanonicalFolder.SPAM]: 'in:spam',
+  [CanonicalFolder.TRASH]: 'in:trash',
+  [CanonicalFolder.ARCHIVE]: '-in:inbox -in:sent -in:drafts -in:spam -in:trash',
+};
+
+/** Gmail `q` (dates as epoch seconds - Gmail reads them exactly) */
+export function toGmailQuery(query: EmailSearchQuery): string {
+  const parts = query.terms.map(quoteIfSpaced);
+  if (query.from) parts.push(`from:${quoteIfSpaced(query.from)}`);
+  if (query.to) parts.push(`to:${quoteIfSpaced(query.to)}`);
+  if (query.hasAttachment) parts.push('has:attachment');
+  if (query.before !== undefined) parts.push(`before:${Math.floor(query.before / 1000)}`);
+  if (query.after !== undefined) parts.push(`after:${Math.floor(query.after / 1000) - 1}`);
+  const folder = query.folder && GMAIL_FOLDERS[query.folder];
+  if (folder) parts.push(folder);
+  return parts.join(' ');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Providers compare whole UTC days; local midnights are widened to the day that contains them
+const isoDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/** Graph `$search` (KQL). Day granularity; results are filtered again locally */
+export function toOutlookSearch(query: EmailSearchQuery): string {
+  const parts = query.terms.map(quoteIfSpaced);
+  if (query.from) parts.push(`from:${quoteIfSpaced(query.from)}`);
+  if (query.to) parts.push(`to:${quoteIfSpaced(query.to)}`);
+  if (query.hasAttachment) parts.push('hasattachments:true');
+  if (query.before !== undefined) parts.push(`received<${isoDay(query.before + DAY_MS)}`);
+  if (query.after !== undefined) parts.push(`received>=${isoDay(query.after)}`);
+  return `"${parts.join(' ').replace(/"/g, '\\"')}"`;
+}
+
+const IMAP_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const imapDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getUTCDate()}-${IMAP_MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+};
+const imapString = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+/**
+ * IMAP SEARCH keys (TEXT covers headers and body). Non-ASCII values need a
+ * literal, so they are left to the local filter. Null when nothing is left
+ */
+export function toImapSearch(query: EmailSearchQuery): string | null {
+  const ascii = (value: string) => /^[\x20-\x7e]+$/.test(value);
+  const keys = query.terms.filter(ascii).map((term) => `TEXT ${imapString(term)}`);
+  if (query.from && ascii(query.from)) keys.push(`FROM ${imapString(query.from)}`);
+  if (query.to && ascii(query.to)) keys.push(`TO ${imapString(query.to)}`);
+  if (query.before !== undefined) keys.push(`BEFORE ${imapDay(query.before + DAY_MS)}`);
+  if (query.after !== undefined) keys.push(`SINCE ${imapDay(query.after)}`);
+  return keys.length > 0 ? keys.join(' ') : null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Invoice Lifecycle Unit Tests
+ *
+ * Status transitions, totals rounding with tax, and the ledger entries an
+ * invoice posts and reverses when voided.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  INVOICE_TRANSITIONS,
+  calculateInvoiceTotals,
+  calculateTrialBalance,
+  canTransitionInvoice,
+  invoicePostingLines,
+  type InvoiceStatus,
+  type JournalLine,
+} from '@/domains/finance';
+import { postSourceEntry, reverseSourceEntries } from '@/convex/domains/finance/ledger/posting';
+import type { Id } from '@/convex/_generated/dataModel';
+import { fakeConvexCtx } from '@/lib/__tests__/fakeConvexCtx';
+
+const line = (quantity: number, unitPrice: number, taxRate: number) => ({ description: 'Work', quantity, unitPrice, taxRate });
+
+describe('canTransitionInvoice', () => {
+  test.each([
+    ['draft', 'sent'],
+    ['draft', 'paid'],
+    ['draft', 'void'],
+    ['sent', 'overdue'],
+    ['sent', 'paid'],
+    ['overdue', 'paid'],
+    ['overdue', 'void'],
+  ] as const)('%s → %s is allowed', (from, to) => {
+    expect(canTransitionInvoice(from, to)).toBe(true);
+  });
+
+  test.each([
+    ['paid', 'draft'],
+    ['paid', 'void'],
+    ['void', 'sent'],
+    ['sent', 'draft'],
+    ['overdue', 'sent'],
+  ] as const)('%s → %s is refused', (from, to) => {
+    expect(canTransitionInvoice(from, to)).toBe(false);
+  });
+
+  test('paid and void are terminal', () => {
+    const terminal: InvoiceStatus[] = ['paid', 'void'];
+    for (const status of terminal) expect(INVOICE_TRANSITIONS[status]).toEqual([]);
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  test('rounds each line and its tax to the penny', () => {
+    expect(calculateInvoiceTotals([line(3, 0.335, 20), line(1, 19.99, 17.5)]))
+      .toEqual({ subtotal: 21, taxTotal: 3.7, total: 24.7 });
+  });
+
+  test('tax is rounded per line, so printed lines add up to the total', () => {
+    // 20% of 0.26 would be 0.05; two lines of 0.13 each carry 0.03
+    expect(calculateInvoiceTotals([line(1, 0.125, 20), line(1, 0.125, 20)]))
+      .toEqual({ subtotal: 0.26, taxTotal: 0.06, total: 0.32 });
+  });
+
+  test('untaxed and empty invoices', () => {
+    expect(calculateInvoiceTotals([line(2, 50, 0)])).toEqual({ subtotal: 100, taxTotal: 0, total: 100 });
+    expect(calculateInvoiceTotals([])).toEqual({ subtotal: 0, taxTotal: 0, total: 0 });
+  });
+});
+
+describe('invoice ledger entries', () => {
+  const userId = 'admin_users:1' as Id<'admin_users'>;
+  const orgId = 'admin_orgs:1' as Id<'admin_orgs'>;
+  const invoice = { _id: 'inv1', ...calculateInvoiceTotals([line(1, 100, 20)]) };
+  const posting = { orgId, userId, currency: 'GBP', sourceType: 'invoice' as const, sourceId: invoice._id, memo: 'INV-0001' };
+
+  async function sentAndPaid() {
+    const fake = fakeConvexCtx();
+    await postSourceEntry(fake.ctx, { ...posting, date: 1, sourceEvent: 'sent', lines: invoicePostingLines(invoice, 'sent') });
+    await postSourceEntry(fake.ctx, { ...posting, date: 2, sourceEvent: 'paid', lines: invoicePostingLines(invoice, 'paid') });
+    return fake;
+  }
+
+  const balances = (fake: ReturnType<typeof fakeConvexCtx>) => calculateTrialBalance(
+    fake.rows('finance_ledger_Accounts') as never,
+    fake.rows('finance_ledger_JournalEntries') as unknown as { date: number; lines: JournalLine[] }[]
+  );
+
+  test('posting the same event twice books it once', async () => {
+    const fake = await sentAndPaid();
+    await postSourceEntry(fake.ctx, { ...posting, date: 3, sourceEvent: 'paid', lines: invoicePostingLines(invoice, 'paid') });
+    expect(fake.rows('finance_ledger_JournalEntries')).toHaveLength(2);
+  });
+
+  test('void reverses every earlier entry and leaves no balance', async () => {
+    const fake = await sentAndPaid();
+    expect(balances(fake).rows.map((row) => [row.code, row.debit, row.credit]))
+      .toEqual([['1000', 120, 0], ['2200', 0, 20], ['4000', 0, 100]]);
+
+    await reverseSourceEntries(fake.ctx, 'invoice', invoice._id, userId, 3);
+
+    const entries = fake.rows('finance_ledger_JournalEntries');
+    expect(entries).toHaveLength(4);
+    expect(entries.slice(0, 2).every((entry) => entry.reversedAt !== undefined)).toBe(true);
+    expect(entries.slice(2).map((entry) => entry.memo)).toEqual(['Reversal: INV-0001', 'Reversal: INV-0001']);
+    expect(balances(fake).rows).toEqual([]);
+  });
+
+  test('voiding again posts nothing more', async () => {
+    const fake = await sentAndPaid();
+    await reverseSourceEntries(fake.ctx, 'invoice', invoice._id, userId, 3);
+    await reverseSourceEntries(fake.ctx, 'invoice', invoice._id, userId, 4);
+    expect(fake.rows('finance_ledger_JournalEntries')).toHaveLength(4);
+  });
+});
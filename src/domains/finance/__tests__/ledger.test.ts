@@ -0,0 +1,160 @@
+/**
+ * General Ledger Unit Tests
+ *
+ * Posting rules, journal validation and the trial balance.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  calculateJournalTotals,
+  calculateTrialBalance,
+  invoicePostingLines,
+  reverseJournalLines,
+  transactionPostingLines,
+  validateJournalLines,
+  type JournalLine,
+  type PostingLine,
+} from '@/domains/finance';
+
+/** Net debit per system account across several postings */
+function net(...postings: PostingLine[][]): Record<string, number> {
+  const balances: Record<string, number> = {};
+  for (const line of postings.flat()) {
+    balances[line.accountId] = Math.round(((balances[line.accountId] ?? 0) + line.debit - line.credit) * 100) / 100;
+  }
+  return Object.fromEntries(Object.entries(balances).filter(([, balance]) => balance !== 0));
+}
+
+describe('validateJournalLines', () => {
+  test('accepts a balanced entry', () => {
+    expect(validateJournalLines([{ debit: 10, credit: 0 }, { debit: 0, credit: 10 }])).toBeNull();
+  });
+
+  test('needs two lines', () => {
+    expect(validateJournalLines([{ debit: 10, credit: 0 }])).toMatch(/two lines/);
+  });
+
+  test('rejects lines with both or neither side, and negatives', () => {
+    expect(validateJournalLines([{ debit: 5, credit: 5 }, { debit: 0, credit: 0 }])).toMatch(/Line 1/);
+    expect(validateJournalLines([{ debit: -5, credit: 0 }, { debit: 0, credit: -5 }])).toMatch(/zero or positive/);
+  });
+
+  test('rejects unbalanced entries, comparing rounded totals', () => {
+    expect(validateJournalLines([{ debit: 10, credit: 0 }, { debit: 0, credit: 9.99 }])).toMatch(/must equal/);
+    expect(validateJournalLines([
+      { debit: 0.1, credit: 0 }, { debit: 0.2, credit: 0 }, { debit: 0, credit: 0.3 },
+    ])).toBeNull();
+  });
+});
+
+describe('reverseJournalLines', () => {
+  test('swaps sides so the pair nets to zero', () => {
+    const lines: JournalLine[] = [
+      { accountId: 'a', debit: 12, credit: 0 },
+      { accountId: 'b', debit: 0, credit: 12 },
+    ];
+    const reversed = reverseJournalLines(lines);
+    expect(reversed).toEqual([
+      { accountId: 'a', debit: 0, credit: 12 },
+      { accountId: 'b', debit: 12, credit: 0 },
+    ]);
+    expect(calculateJournalTotals([...lines, ...reversed])).toEqual({ debit: 24, credit: 24, balanced: true });
+  });
+});
+
+describe('invoicePostingLines', () => {
+  const invoice = { subtotal: 100, taxTotal: 20, total: 120 };
+
+  test('sent: receivable for the total, revenue and tax separately', () => {
+    expect(net(invoicePostingLines(invoice, 'sent'))).toEqual({ receivables: 120, revenue: -100, tax_payable: -20 });
+  });
+
+  test('sent then paid leaves cash, revenue and tax - no receivable', () => {
+    expect(net(invoicePostingLines(invoice, 'sent'), invoicePostingLines(invoice, 'paid')))
+      .toEqual({ bank: 120, revenue: -100, tax_payable: -20 });
+  });
+
+  test('omits the tax line on untaxed invoices', () => {
+    expect(invoicePostingLines({ subtotal: 50, taxTotal: 0, total: 50 }, 'sent')).toHaveLength(2);
+  });
+});
+
+describe('transactionPostingLines', () => {
+  test('every posting balances', () => {
+    for (const type of ['invoice', 'payment', 'expense'] as const) {
+      for (const status of ['pending', 'paid', 'overdue'] as const) {
+        const lines = transactionPostingLines({ type, amount: 75.5, status });
+        if (lines.length > 0) expect(validateJournalLines(lines)).toBeNull();
+      }
+    }
+  });
+
+  test('a paid invoice goes straight to bank', () => {
+    expect(net(transactionPostingLines({ type: 'invoice', amount: 200, status: 'paid' })))
+      .toEqual({ bank: 200, revenue: -200 });
+  });
+
+  test('an invoice followed by its payment counts revenue once', () => {
+    expect(net(
+      transactionPostingLines({ type: 'invoice', amount: 200, status: 'pending' }),
+      transactionPostingLines({ type: 'payment', amount: 200, status: 'paid' }),
+    )).toEqual({ bank: 200, revenue: -200 });
+  });
+
+  test('a pending payment posts nothing', () => {
+    expect(transactionPostingLines({ type: 'payment', amount: 200, status: 'pending' })).toEqual([]);
+  });
+
+  test('an imported payment waits in Unmatched Receipts, not Receivables', () => {
+    expect(net(transactionPostingLines({ type: 'payment', amount: 120, status: 'paid', source: 'ofx' })))
+      .toEqual({ bank: 120, suspense: -120 });
+  });
+
+  test('an invoice paid from a matched statement line books the cash once', () => {
+    const invoice = { subtotal: 100, taxTotal: 20, total: 120 };
+    const invoiceEntries = [invoicePostingLines(invoice, 'sent'), invoicePostingLines(invoice, 'paid')];
+    const statementLine = { type: 'payment' as const, amount: 120, status: 'paid' as const, source: 'csv' as const };
+
+    // Before matching the duplicate cash is visible as an Unmatched Receipts balance
+    expect(net(...invoiceEntries, transactionPostingLines(statementLine)))
+      .toEqual({ bank: 240, suspense: -120, revenue: -100, tax_payable: -20 });
+    expect(net(...invoiceEntries, transactionPostingLines({ ...statementLine, matchedInvoiceId: 'inv1' })))
+      .toEqual({ bank: 120, revenue: -100, tax_payable: -20 });
+  });
+
+  test('expenses credit payables until paid; amounts are unsigned', () => {
+    expect(net(transactionPostingLines({ type: 'expense', amount: -30, status: 'pending' })))
+      .toEqual({ expenses: 30, payables: -30 });
+    expect(net(transactionPostingLines({ type: 'expense', amount: 30, status: 'paid' })))
+      .toEqual({ expenses: 30, bank: -30 });
+  });
+});
+
+describe('calculateTrialBalance', () => {
+  const accounts = [
+    { _id: 'bank', code: '1000', name: 'Bank', type: 'asset' as const },
+    { _id: 'rev', code: '4000', name: 'Revenue', type: 'income' as const },
+    { _id: 'exp', code: '6000', name: 'Expenses', type: 'expense' as const },
+    { _id: 'idle', code: '900', name: 'Idle', type: 'asset' as const },
+  ];
+  const entries = [
+    { date: 1, lines: [{ accountId: 'bank', debit: 100, credit: 0 }, { accountId: 'rev', debit: 0, credit: 100 }] },
+    { date: 2, lines: [{ accountId: 'exp', debit: 40, credit: 0 }, { accountId: 'bank', debit: 0, credit: 40 }] },
+  ];
+
+  test('nets each account onto one side, sorted by code, and balances', () => {
+    const balance = calculateTrialBalance(accounts, entries);
+    expect(balance.rows.map((row) => [row.code, row.debit, row.credit])).toEqual([
+      ['1000', 60, 0],
+      ['4000', 0, 100],
+      ['6000', 40, 0],
+    ]);
+    expect(balance.totals).toEqual({ debit: 100, credit: 100, balanced: true });
+  });
+
+  test('ignores entries after asOf', () => {
+    const balance = calculateTrialBalance(accounts, entries, 1);
+    expect(balance.rows.map((row) => row.code)).toEqual(['1000', '4000']);
+    expect(balance.totals.debit).toBe(100);
+  });
+});
@@ -0,0 +1,9 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  💱 FINANCE FORMATTING - Pure Functions                                    │
+│  /src/domains/finance/format.ts                                            │
+│                                                                            │
+│  Money and date presentation shared by finance features.                   │
+│  The helpers live in @/lib/format so other domains can use them too.       │
+└────────────────────────────────────────────────────────────────────────────*/
+
+export { formatMoney, formatDate, toDateInput, fromDateInput, addDays } from '@/lib/format';
@@ -0,0 +1,98 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  💱 FX RATE IMPORT                                                         │
+│  /src/domains/finance/fx.ts                                                │
+│                                                                            │
+│  Reads exchange-rate files into dated base→quote rates. Two CSV layouts:   │
+│  - Long: one rate per row (date, base?, quote, rate)                       │
+│  - Wide: date + one column per currency (ECB eurofxref-hist.csv style)     │
+│  Conversion itself lives in @/lib/currency (shared with projects).         │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import type { FxRate } from '@/lib/currency';
+import { isCurrencyCode } from '@/lib/currency';
+import { readCsv, parseCsvDate } from './statements';
+
+export const FX_IMPORT_BATCH_SIZE = 200;
+
+export interface FxParseResult {
+  rates: FxRate[];
+  /** Human-readable problems, e.g. "Line 4: invalid rate" */
+  errors: string[];
+}
+
+/** Rates carry more precision than money, so don't reuse parseAmount */
+function parseRate(raw: string): number | null {
+  const value = raw.trim().replace(/\s/g, '');
+  const normalized = /^\d+,\d+$/.test(value) ? value.replace(',', '.') : value.replace(/,/g, '');
+  const rate = Number(normalized);
+  return normalized && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+function parseRateDate(raw: string): number | null {
+  return parseCsvDate(raw, 'YYYY-MM-DD') ?? parseCsvDate(raw, 'DD/MM/YYYY');
+}
+
+/**
+ * Parse an exchange-rate CSV.
+ * @param defaultBase - base currency for files without a base column (ECB files are EUR-based)
+ */
+export function parseFxRatesCsv(text: string, defaultBase: string): FxParseResult {
+  const { headers, records } = readCsv(text);
+  const result: FxParseResult = { rates: [], errors: [] };
+  const find = (pattern: RegExp) => headers.findIndex((header) => pattern.test(header));
+
+  const dateColumn = find(/date/i);
+  if (dateColumn === -1) {
+    result.errors.push('No date column found');
+    return result;
+  }
+
+  const rateColumn = find(/^(rate|fx ?rate|exchange ?rate)$/i);
+
+  if (rateColumn !== -1) {
+    const baseColumn = find(/^(base|from)/i);
+    const quoteColumn = find(/^(quote|to|currency|target)/i);
+    if (quoteColumn === -1) {
+      result.errors.push('No quote currency column found');
+      return result;
+    }
+
+    records.forEach((record, index) => {
+      const line = index + 2;
+      const date = parseRateDate(record[dateColumn] ?? '');
+      const base = (baseColumn === -1 ? defaultBase : record[baseColumn] ?? '').trim().toUpperCase();
+      const quote = (record[quoteColumn] ?? '').trim().toUpperCase();
+      const rate = parseRate(record[rateColumn] ?? '');
+
+      if (date === null) return result.errors.push(`Line ${line}: invalid date`);
+      if (!isCurrencyCode(base) || !isCurrencyCode(quote)) return result.errors.push(`Line ${line}: invalid currency code`);
+      if (rate === null) return result.errors.push(`Line ${line}: invalid rate`);
+      if (base !== quote) result.rates.push({ base, quote, rate, date });
+    });
+    return result;
+  }
+
+  // Wide layout: every other header is a currency code
+  const currencyColumns = headers
+    .map((header, index) => ({ code: header.trim().toUpperCase(), index }))
+    .filter((column) => column.index !== dateColumn && isCurrencyCode(column.code) && column.code !== defaultBase);
+
+  if (currencyColumns.length === 0) {
+    result.errors.push('No rate or currency columns found');
+    return result;
+  }
+
+  records.forEach((record, index) => {
+    const date = parseRateDate(record[dateColumn] ?? '');
+    if (date === null) {
+      result.errors.push(`Line ${index + 2}: invalid date`);
+      return;
+    }
+    for (const column of currencyColumns) {
+      // ECB files use "N/A" for currencies not quoted that day
+      const rate = parseRate(record[column.index] ?? '');
+      if (rate !== null) result.rates.push({ base: defaultBase, quote: column.code, rate, date });
+    }
+  });
+  return result;
+}
@@ -0,0 +1,116 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  💰 FINANCE DOMAIN - Export Hub                                            │
+│  /src/domains/finance/index.ts                                             │
+│                                                                            │
+│  Central export for provider-agnostic finance rules.                       │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// Invoicing
+export {
+  DEFAULT_INVOICE_PREFIX,
+  DEFAULT_INVOICE_CURRENCY,
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  INVOICE_NUMBER_WIDTH,
+  INVOICE_TRANSITIONS,
+  roundMoney,
+  calculateInvoiceTotals,
+  validateLineItems,
+  formatInvoiceNumber,
+  canTransitionInvoice,
+  isInvoiceOverdue,
+  isInvoiceOutstanding,
+} from './invoices';
+export type { InvoiceStatus, InvoiceLineItem, InvoiceTotals } from './invoices';
+
+// Recurring templates
+export {
+  RECURRING_PRESETS,
+  MAX_CATCH_UP_OCCURRENCES,
+  validateRecurringSchedule,
+  nextRecurringRun,
+  previewRecurringRuns,
+  describeRecurringSchedule,
+} from './recurring';
+export type { RecurringKind, RecurringStatus, RecurringPreset } from './recurring';
+
+// Formatting
+export { formatMoney, formatDate, toDateInput, fromDateInput, addDays } from './format';
+
+// Bank statement import
+export {
+  STATEMENT_IMPORT_BATCH_SIZE,
+  statementRowHash,
+  signedStatementAmount,
+  isStatementImport,
+  buildStatementDedupeIndex,
+  statementOccurrences,
+  isStatementDuplicate,
+  statementMatchError,
+  detectStatementFormat,
+  readCsv,
+  guessCsvMapping,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseCamt053Statement,
+} from './statements';
+export type {
+  StatementFormat,
+  StatementSource,
+  ParsedStatementRow,
+  StatementParseResult,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvTable,
+} from './statements';
+
+// General ledger (double-entry)
+export {
+  NORMAL_BALANCE,
+  LEDGER_ACCOUNT_TYPES,
+  DEFAULT_CHART_OF_ACCOUNTS,
+  calculateJournalTotals,
+  validateJournalLines,
+  reverseJournalLines,
+  invoicePostingLines,
+  transactionPostingLines,
+  calculateTrialBalance,
+} from './ledger';
+export type {
+  LedgerAccountType,
+  SystemAccountKey,
+  DefaultLedgerAccount,
+  JournalLine,
+  PostingLine,
+  JournalTotals,
+  InvoicePostingEvent,
+  TrialBalanceRow,
+  TrialBalance,
+} from './ledger';
+
+// Financial reports
+export {
+  REPORT_TITLES,
+  DAY_MS,
+  comparisonRange,
+  presetRange,
+  buildFinancialReport,
+  lineChange,
+  reportValue,
+  reportToCsv,
+  reportFileName,
+  reportToPdf,
+} from './reports';
+export type {
+  ReportKind,
+  ComparisonMode,
+  RangePreset,
+  ReportRange,
+  LedgerSnapshot,
+  ReportLine,
+  ReportColumn,
+  FinancialReport,
+} from './reports';
+
+// Exchange rates
+export { FX_IMPORT_BATCH_SIZE, parseFxRatesCsv } from './fx';
+export type { FxParseResult } from './fx';
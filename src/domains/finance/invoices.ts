@@ -0,0 +1,127 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🧾 INVOICE RULES - Pure Functions                                         │
+│  /src/domains/finance/invoices.ts                                          │
+│                                                                            │
+│  Shared by Convex mutations (authoritative) and the invoice editor         │
+│  (live preview). No database access, no UI.                                │
+│                                                                            │
+│  Rule: Totals are DERIVED from line items, never typed in by hand.         │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type InvoiceStatus = 'draft' | 'sent' | 'overdue' | 'paid' | 'void';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  /** Percentage, e.g. 20 for 20% */
+  taxRate: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_INVOICE_PREFIX = 'INV-';
+
+export const DEFAULT_INVOICE_CURRENCY = 'USD';
+
+/** Net payment terms applied to new invoices */
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+/** Zero-padded width of the sequential part of an invoice number */
+export const INVOICE_NUMBER_WIDTH = 4;
+
+/**
+ * Allowed lifecycle moves. Paid and void are terminal.
+ * Draft → paid is allowed for invoices settled on the spot.
+ */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'paid', 'void'],
+  sent: ['overdue', 'paid', 'void'],
+  overdue: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CALCULATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Round to 2 decimal places (minor currency units) */
+export function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Derive subtotal, tax and grand total from line items.
+ * Tax is rounded per line so printed lines always add up to the total.
+ */
+export function calculateInvoiceTotals(lineItems: InvoiceLineItem[]): InvoiceTotals {
+  let subtotal = 0;
+  let taxTotal = 0;
+
+  for (const item of lineItems) {
+    const net = roundMoney(item.quantity * item.unitPrice);
+    subtotal += net;
+    taxTotal += roundMoney(net * (item.taxRate / 100));
+  }
+
+  subtotal = roundMoney(subtotal);
+  taxTotal = roundMoney(taxTotal);
+
+  return { subtotal, taxTotal, total: roundMoney(subtotal + taxTotal) };
+}
+
+/**
+ * Validate line items before they are persisted.
+ * @returns Error message, or null when valid
+ */
+export function validateLineItems(lineItems: InvoiceLineItem[]): string | null {
+  if (lineItems.length === 0) return 'Invoice needs at least one line item';
+
+  for (const item of lineItems) {
+    if (!item.description.trim()) return 'Every line item needs a description';
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) return 'Quantity must be greater than zero';
+    if (!Number.isFinite(item.unitPrice) || item.unitPrice < 0) return 'Unit price cannot be negative';
+    if (!Number.isFinite(item.taxRate) || item.taxRate < 0 || item.taxRate > 100) return 'Tax rate must be between 0 and 100';
+  }
+
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NUMBERING & LIFECYCLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Format a sequence number, e.g. (42, "INV-") → "INV-0042" */
+export function formatInvoiceNumber(sequence: number, prefix: string = DEFAULT_INVOICE_PREFIX): string {
+  return `${prefix}${String(sequence).padStart(INVOICE_NUMBER_WIDTH, '0')}`;
+}
+
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Overdue once stored as such by the recurring queue, or sent and past due
+ * between queue runs
+ */
+export function isInvoiceOverdue(invoice: { status: InvoiceStatus; dueDate: number }, now: number = Date.now()): boolean {
+  return invoice.status === 'overdue' || (invoice.status === 'sent' && invoice.dueDate < now);
+}
+
+/** Issued and not yet settled (sent or overdue) */
+export function isInvoiceOutstanding(invoice: { status: InvoiceStatus }): boolean {
+  return invoice.status === 'sent' || invoice.status === 'overdue';
+}
@@ -0,0 +1,255 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📒 GENERAL LEDGER - Double-Entry Rules                                    │
+│  /src/domains/finance/ledger.ts                                            │
+│                                                                            │
+│  Pure functions shared by Convex mutations and finance features:           │
+│  - Default chart of accounts (system accounts used by posting rules)       │
+│  - Journal validation (debits must equal credits)                          │
+│  - Posting rules: invoices, payments and expenses → journal lines          │
+│  - Trial balance                                                           │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { roundMoney } from './invoices';
+import { isStatementImport, type StatementSource } from './statements/shared';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCOUNTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+/**
+ * System accounts are created with the default chart and referenced by the
+ * posting rules, so automatic entries never depend on user-chosen codes.
+ */
+export type SystemAccountKey =
+  | 'bank'
+  | 'receivables'
+  | 'payables'
+  | 'tax_payable'
+  | 'suspense'
+  | 'equity'
+  | 'revenue'
+  | 'expenses';
+
+/** Side on which an account type normally carries its balance */
+export const NORMAL_BALANCE: Record<LedgerAccountType, 'debit' | 'credit'> = {
+  asset: 'debit',
+  expense: 'debit',
+  liability: 'credit',
+  equity: 'credit',
+  income: 'credit',
+};
+
+export const LEDGER_ACCOUNT_TYPES: { value: LedgerAccountType; label: string }[] = [
+  { value: 'asset', label: 'Asset' },
+  { value: 'liability', label: 'Liability' },
+  { value: 'equity', label: 'Equity' },
+  { value: 'income', label: 'Income' },
+  { value: 'expense', label: 'Expense' },
+];
+
+export interface DefaultLedgerAccount {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  systemKey: SystemAccountKey;
+}
+
+/** Seeded for every org on first ledger use */
+export const DEFAULT_CHART_OF_ACCOUNTS: DefaultLedgerAccount[] = [
+  { code: '1000', name: 'Bank', type: 'asset', systemKey: 'bank' },
+  { code: '1100', name: 'Accounts Receivable', type: 'asset', systemKey: 'receivables' },
+  { code: '2000', name: 'Accounts Payable', type: 'liability', systemKey: 'payables' },
+  { code: '2200', name: 'Sales Tax Payable', type: 'liability', systemKey: 'tax_payable' },
+  { code: '2900', name: 'Unmatched Receipts', type: 'liability', systemKey: 'suspense' },
+  { code: '3000', name: "Owner's Equity", type: 'equity', systemKey: 'equity' },
+  { code: '4000', name: 'Sales Revenue', type: 'income', systemKey: 'revenue' },
+  { code: '6000', name: 'General Expenses', type: 'expense', systemKey: 'expenses' },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOURNAL LINES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One side of a journal entry - exactly one of debit/credit is non-zero */
+export interface JournalLine<TAccount = string> {
+  accountId: TAccount;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+/** Posting-rule output: lines addressed by system account */
+export type PostingLine = JournalLine<SystemAccountKey>;
+
+export interface JournalTotals {
+  debit: number;
+  credit: number;
+  balanced: boolean;
+}
+
+export function calculateJournalTotals(lines: Pick<JournalLine<unknown>, 'debit' | 'credit'>[]): JournalTotals {
+  const debit = roundMoney(lines.reduce((sum, line) => sum + line.debit, 0));
+  const credit = roundMoney(lines.reduce((sum, line) => sum + line.credit, 0));
+  return { debit, credit, balanced: debit === credit };
+}
+
+/**
+ * Validate journal lines before posting.
+ * @returns Error message, or null when the entry can be posted
+ */
+export function validateJournalLines(lines: Pick<JournalLine<unknown>, 'debit' | 'credit'>[]): string | null {
+  if (lines.length < 2) {
+    return 'A journal entry needs at least two lines';
+  }
+
+  for (const [index, line] of lines.entries()) {
+    const label = `Line ${index + 1}`;
+    if (!Number.isFinite(line.debit) || !Number.isFinite(line.credit) || line.debit < 0 || line.credit < 0) {
+      return `${label}: amounts must be zero or positive`;
+    }
+    if ((line.debit > 0) === (line.credit > 0)) {
+      return `${label}: enter either a debit or a credit`;
+    }
+  }
+
+  const totals = calculateJournalTotals(lines);
+  if (!totals.balanced) {
+    return `Debits (${totals.debit.toFixed(2)}) must equal credits (${totals.credit.toFixed(2)})`;
+  }
+  return null;
+}
+
+/** Swap debits and credits - used to reverse a posted entry */
+export function reverseJournalLines<TAccount>(lines: JournalLine<TAccount>[]): JournalLine<TAccount>[] {
+  return lines.map((line) => ({ ...line, debit: line.credit, credit: line.debit }));
+}
+
+function debit(account: SystemAccountKey, amount: number, memo?: string): PostingLine {
+  return { accountId: account, debit: roundMoney(amount), credit: 0, memo };
+}
+
+function credit(account: SystemAccountKey, amount: number, memo?: string): PostingLine {
+  return { accountId: account, debit: 0, credit: roundMoney(amount), memo };
+}
+
+/** Drop zero lines (e.g. no tax on an invoice) */
+function compact(lines: PostingLine[]): PostingLine[] {
+  return lines.filter((line) => line.debit > 0 || line.credit > 0);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POSTING RULES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type InvoicePostingEvent = 'sent' | 'paid';
+
+/**
+ * Invoice posting:
+ * - sent: Dr Receivables (total) / Cr Revenue (subtotal) + Cr Tax Payable (tax)
+ * - paid: Dr Bank / Cr Receivables (total)
+ */
+export function invoicePostingLines(
+  invoice: { subtotal: number; taxTotal: number; total: number },
+  event: InvoicePostingEvent
+): PostingLine[] {
+  if (event === 'sent') {
+    return compact([
+      debit('receivables', invoice.total),
+      credit('revenue', invoice.subtotal),
+      credit('tax_payable', invoice.taxTotal),
+    ]);
+  }
+  return compact([
+    debit('bank', invoice.total),
+    credit('receivables', invoice.total),
+  ]);
+}
+
+/**
+ * Bank transaction posting (finance_banking_Statements):
+ * - invoice: Dr Receivables (Bank once paid) / Cr Revenue
+ * - payment: Dr Bank / Cr Receivables once paid - a pending payment posts
+ *   nothing, the receivable is already booked by its invoice
+ * - imported payment: Dr Bank / Cr Unmatched Receipts until matched to an
+ *   invoice, then nothing - the invoice's own payment entry books the cash
+ * - expense: Dr Expenses / Cr Bank (Payables while pending)
+ */
+export function transactionPostingLines(transaction: {
+  type: 'invoice' | 'payment' | 'expense';
+  amount: number;
+  status: 'pending' | 'paid' | 'overdue';
+  source?: StatementSource;
+  matchedInvoiceId?: string;
+}): PostingLine[] {
+  const amount = Math.abs(transaction.amount);
+  const settled = transaction.status === 'paid';
+
+  switch (transaction.type) {
+    case 'invoice':
+      return compact([debit(settled ? 'bank' : 'receivables', amount), credit('revenue', amount)]);
+    case 'payment':
+      if (!settled) return [];
+      if (isStatementImport(transaction.source)) {
+        return transaction.matchedInvoiceId ? [] : compact([debit('bank', amount), credit('suspense', amount)]);
+      }
+      return compact([debit('bank', amount), credit('receivables', amount)]);
+    case 'expense':
+      return compact([debit('expenses', amount), credit(settled ? 'bank' : 'payables', amount)]);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRIAL BALANCE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface TrialBalanceRow {
+  accountId: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  /** Net balance shown on its natural side (only one of debit/credit is non-zero) */
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totals: JournalTotals;
+}
+
+/**
+ * Sum posted lines per account up to (and including) `asOf`.
+ * Accounts with no movement are omitted.
+ */
+export function calculateTrialBalance(
+  accounts: { _id: string; code: string; name: string; type: LedgerAccountType }[],
+  entries: { date: number; lines: JournalLine[] }[],
+  asOf: number = Number.POSITIVE_INFINITY
+): TrialBalance {
+  const net = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.date > asOf) continue;
+    for (const line of entry.lines) {
+      net.set(line.accountId, (net.get(line.accountId) ?? 0) + line.debit - line.credit);
+    }
+  }
+
+  const rows = accounts
+    .filter((account) => roundMoney(net.get(account._id) ?? 0) !== 0)
+    .map((account): TrialBalanceRow => {
+      const balance = roundMoney(net.get(account._id) ?? 0);
+      return {
+        accountId: account._id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: balance > 0 ? balance : 0,
+        credit: balance < 0 ? -balance : 0,
+      };
+    })
+    .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+
+  return { rows, totals: calculateJournalTotals(rows) };
+}
@@ -0,0 +1,83 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🔁 RECURRING TEMPLATES - Pure Functions                                   │
+│  /src/domains/finance/recurring.ts                                         │
+│                                                                            │
+│  Shared by the recurring queue (authoritative) and the template editor     │
+│  (schedule preview). Schedules are RRULEs from @/lib/rrule.                │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { describeRRule, nextOccurrence, occurrencesBetween, parseRRule, type ExpandOptions } from '@/lib/rrule';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RecurringKind = 'transaction' | 'invoice';
+
+export type RecurringStatus = 'active' | 'paused' | 'completed';
+
+export type RecurringPreset = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Schedule presets offered by the editor; "custom" takes a raw RRULE */
+export const RECURRING_PRESETS: { value: RecurringPreset; label: string; rrule: string }[] = [
+  { value: 'daily', label: 'Daily', rrule: 'FREQ=DAILY' },
+  { value: 'weekly', label: 'Weekly', rrule: 'FREQ=WEEKLY' },
+  { value: 'monthly', label: 'Monthly', rrule: 'FREQ=MONTHLY' },
+  { value: 'yearly', label: 'Yearly', rrule: 'FREQ=YEARLY' },
+  { value: 'custom', label: 'Custom (RRULE)', rrule: '' },
+];
+
+/**
+ * Occurrences one template may generate per queue run. A template that fell
+ * further behind (queue outage, long pause) catches up over the next runs.
+ */
+export const MAX_CATCH_UP_OCCURRENCES = 12;
+
+/**
+ * Billing on the 31st means the last day of shorter months, not skipping
+ * them (RFC 5545 would skip) - monthly and yearly rules clamp to month end.
+ */
+const SCHEDULE_OPTIONS: ExpandOptions = { clampMonthEnd: true };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEDULE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate a template schedule before it is persisted.
+ * @returns Error message, or null when valid
+ */
+export function validateRecurringSchedule(rrule: string, startDate: number): string | null {
+  const parsed = parseRRule(rrule);
+  if ('error' in parsed) return parsed.error;
+  if (nextOccurrence(parsed.rule, startDate, undefined, SCHEDULE_OPTIONS) === null) return 'Schedule never produces an occurrence';
+  return null;
+}
+
+/**
+ * Next occurrence still to generate, strictly after `after` (or the first
+ * occurrence when nothing has run yet).
+ * @returns epoch ms, or null when the schedule is finished or invalid
+ */
+export function nextRecurringRun(rrule: string, startDate: number, after?: number): number | null {
+  const parsed = parseRRule(rrule);
+  if ('error' in parsed) return null;
+  return nextOccurrence(parsed.rule, startDate, after, SCHEDULE_OPTIONS);
+}
+
+/** Upcoming occurrences for the editor preview */
+export function previewRecurringRuns(rrule: string, startDate: number, count = 5): number[] {
+  const parsed = parseRRule(rrule);
+  if ('error' in parsed) return [];
+  return occurrencesBetween(parsed.rule, startDate, startDate, Number.MAX_SAFE_INTEGER, count, SCHEDULE_OPTIONS);
+}
+
+/** Plain-English schedule, falling back to the raw rule when it does not parse */
+export function describeRecurringSchedule(rrule: string): string {
+  const parsed = parseRRule(rrule);
+  return 'error' in parsed ? rrule : describeRRule(parsed.rule);
+}
@@ -0,0 +1,172 @@
+/**
+ * Report Engine Unit Tests
+ *
+ * Date ranges, the three statements over a small ledger, comparison
+ * columns and FX conversion.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildFinancialReport,
+  comparisonRange,
+  lineChange,
+  presetRange,
+  reportValue,
+  type LedgerSnapshot,
+  type ReportLine,
+  type ReportRange,
+} from '@/domains/finance/reports';
+
+const endOfDay = (year: number, month: number, day: number) => Date.UTC(year, month, day + 1) - 1;
+const MARCH: ReportRange = { from: Date.UTC(2025, 2, 1), to: endOfDay(2025, 2, 31) };
+
+const entry = (date: number, debitId: string, creditId: string, amount: number, currency = 'GBP') => ({
+  date,
+  currency,
+  lines: [
+    { accountId: debitId, debit: amount, credit: 0 },
+    { accountId: creditId, debit: 0, credit: amount },
+  ],
+});
+
+const ledger: LedgerSnapshot = {
+  accounts: [
+    { _id: 'bank', code: '1000', name: 'Bank', type: 'asset', systemKey: 'bank' },
+    { _id: 'receivables', code: '1100', name: 'Receivables', type: 'asset', systemKey: 'receivables' },
+    { _id: 'equipment', code: '1500', name: 'Equipment', type: 'asset' },
+    { _id: 'capital', code: '3000', name: 'Capital', type: 'equity' },
+    { _id: 'revenue', code: '4000', name: 'Revenue', type: 'income' },
+    { _id: 'expenses', code: '6000', name: 'Expenses', type: 'expense' },
+  ],
+  entries: [
+    entry(Date.UTC(2025, 0, 15), 'bank', 'capital', 1000),
+    entry(Date.UTC(2025, 1, 10), 'receivables', 'revenue', 500),
+    entry(Date.UTC(2025, 2, 5), 'bank', 'receivables', 500),
+    entry(Date.UTC(2025, 2, 10), 'expenses', 'bank', 200),
+    entry(Date.UTC(2025, 2, 20), 'equipment', 'bank', 300),
+    entry(Date.UTC(2025, 2, 25), 'bank', 'revenue', 100, 'USD'),
+  ],
+};
+
+const keys = (lines: ReportLine[]) => lines.map((line) => line.key);
+
+describe('comparisonRange', () => {
+  test('MoM of a full month is the full previous month', () => {
+    expect(comparisonRange(MARCH, 'mom')).toEqual({ from: Date.UTC(2025, 1, 1), to: endOfDay(2025, 1, 28) });
+  });
+
+  test('YoY keeps month ends on month ends across leap years', () => {
+    const february = { from: Date.UTC(2025, 1, 1), to: endOfDay(2025, 1, 28) };
+    expect(comparisonRange(february, 'yoy')).toEqual({ from: Date.UTC(2024, 1, 1), to: endOfDay(2024, 1, 29) });
+  });
+
+  test('mid-month dates keep their day, clamped to the shorter month', () => {
+    const range = { from: Date.UTC(2025, 2, 31), to: endOfDay(2025, 3, 15) };
+    expect(comparisonRange(range, 'mom')).toEqual({ from: Date.UTC(2025, 1, 28), to: endOfDay(2025, 2, 15) });
+  });
+});
+
+describe('presetRange', () => {
+  const now = Date.UTC(2025, 4, 20, 15);
+
+  test.each([
+    ['this_month', Date.UTC(2025, 4, 1), endOfDay(2025, 4, 20)],
+    ['last_month', Date.UTC(2025, 3, 1), endOfDay(2025, 3, 30)],
+    ['this_quarter', Date.UTC(2025, 3, 1), endOfDay(2025, 4, 20)],
+    ['year_to_date', Date.UTC(2025, 0, 1), endOfDay(2025, 4, 20)],
+    ['last_year', Date.UTC(2024, 0, 1), endOfDay(2024, 11, 31)],
+  ] as const)('%s', (preset, from, to) => {
+    expect(presetRange(preset, now)).toEqual({ from, to });
+  });
+});
+
+describe('profit and loss', () => {
+  test('counts income and expenses booked in the range', () => {
+    const report = buildFinancialReport('profit_loss', ledger, { range: MARCH, currency: 'GBP' });
+    expect(report.columns).toEqual([{ label: '01/03/2025 – 31/03/2025', range: MARCH }]);
+    expect(keys(report.lines)).toEqual([
+      'income', 'total_income', 'expenses', 'account:expenses', 'total_expenses', 'net_profit',
+    ]);
+    expect(reportValue(report, 'net_profit')).toBe(-200);
+  });
+
+  test('a comparison column keeps accounts that are non-zero in either period', () => {
+    const report = buildFinancialReport('profit_loss', ledger, { range: MARCH, currency: 'GBP', comparison: 'mom' });
+    expect(report.columns).toHaveLength(2);
+    expect(report.lines.find((line) => line.key === 'account:revenue')?.values).toEqual([0, 500]);
+    expect(reportValue(report, 'net_profit', 1)).toBe(500);
+  });
+});
+
+describe('balance sheet', () => {
+  test('closes income and expenses into retained earnings so it balances', () => {
+    const report = buildFinancialReport('balance_sheet', ledger, { range: MARCH, currency: 'GBP' });
+    expect(report.columns[0].label).toBe('As of 31/03/2025');
+    expect(keys(report.lines)).not.toContain('account:receivables');
+    expect(reportValue(report, 'account:bank')).toBe(1000);
+    expect(reportValue(report, 'retained_earnings')).toBe(300);
+    expect(reportValue(report, 'total_assets')).toBe(1300);
+    expect(reportValue(report, 'total_liabilities_equity')).toBe(1300);
+  });
+});
+
+describe('cash flow', () => {
+  test('attributes bank movements to their counter-accounts by activity', () => {
+    const report = buildFinancialReport('cash_flow', ledger, { range: MARCH, currency: 'GBP' });
+    expect(reportValue(report, 'account:receivables')).toBe(500);
+    expect(reportValue(report, 'account:expenses')).toBe(-200);
+    expect(reportValue(report, 'net_operating')).toBe(300);
+    expect(reportValue(report, 'account:equipment')).toBe(-300);
+    expect(reportValue(report, 'net_investing')).toBe(-300);
+    expect(reportValue(report, 'net_financing')).toBe(0);
+    expect(reportValue(report, 'net_change')).toBe(0);
+    expect(reportValue(report, 'opening_cash')).toBe(1000);
+    expect(reportValue(report, 'closing_cash')).toBe(1000);
+  });
+
+  test('capital paid in is a financing flow', () => {
+    const january = { from: Date.UTC(2025, 0, 1), to: endOfDay(2025, 0, 31) };
+    const report = buildFinancialReport('cash_flow', ledger, { range: january, currency: 'GBP' });
+    expect(reportValue(report, 'net_financing')).toBe(1000);
+    expect(reportValue(report, 'opening_cash')).toBe(0);
+  });
+});
+
+describe('currency conversion', () => {
+  test('without rates only entries in the report currency count', () => {
+    const report = buildFinancialReport('profit_loss', ledger, { range: MARCH, currency: 'GBP' });
+    expect(reportValue(report, 'total_income')).toBe(0);
+    expect(report.missingRates).toEqual([]);
+  });
+
+  test('with rates other currencies are converted at the entry-date rate', () => {
+    const rates = [
+      { base: 'USD', quote: 'GBP', rate: 0.8, date: Date.UTC(2025, 2, 1) },
+      { base: 'USD', quote: 'GBP', rate: 0.5, date: Date.UTC(2025, 2, 26) },
+    ];
+    const report = buildFinancialReport('profit_loss', ledger, { range: MARCH, currency: 'GBP', rates });
+    expect(reportValue(report, 'account:revenue')).toBe(80);
+    expect(report.missingRates).toEqual([]);
+  });
+
+  test('reports currencies it had no rate for', () => {
+    const report = buildFinancialReport('profit_loss', ledger, { range: MARCH, currency: 'GBP', rates: [] });
+    expect(reportValue(report, 'total_income')).toBe(0);
+    expect(report.missingRates).toEqual(['USD']);
+  });
+});
+
+describe('lineChange', () => {
+  const line = (values: number[], kind: ReportLine['kind'] = 'account'): ReportLine => ({ key: 'x', label: 'X', kind, values });
+
+  test('is null for headings and single-column reports', () => {
+    expect(lineChange(line([1, 2], 'heading'))).toBeNull();
+    expect(lineChange(line([1]))).toBeNull();
+  });
+
+  test('measures the percentage against the size of the previous value', () => {
+    expect(lineChange(line([120, 100]))).toEqual({ amount: 20, percent: 20 });
+    expect(lineChange(line([-50, -100]))).toEqual({ amount: 50, percent: 50 });
+    expect(lineChange(line([10, 0]))).toEqual({ amount: 10, percent: null });
+  });
+});
@@ -0,0 +1,345 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📊 REPORT ENGINE - P&L, Balance Sheet, Cash Flow                          │
+│  /src/domains/finance/reports/engine.ts                                    │
+│                                                                            │
+│  Pure functions over the org's general ledger (accounts + journal).        │
+│  Every report line carries one value per period so comparisons             │
+│  (MoM / YoY) are just extra columns; accounts appear when non-zero in      │
+│  ANY compared period. Given FX rates, entries in other currencies are      │
+│  converted at the rate on their entry date (historical rate).              │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { roundMoney } from '@/domains/finance/invoices';
+import type { JournalLine, LedgerAccountType } from '@/domains/finance/ledger';
+import { findRate, type FxRate } from '@/lib/currency';
+import { comparisonRange, type ComparisonMode, type ReportRange } from './ranges';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ReportKind = 'profit_loss' | 'balance_sheet' | 'cash_flow';
+
+export interface LedgerSnapshot {
+  accounts: { _id: string; code: string; name: string; type: LedgerAccountType; systemKey?: string }[];
+  entries: { date: number; currency: string; lines: JournalLine[] }[];
+}
+
+export interface ReportLine {
+  key: string;
+  label: string;
+  kind: 'heading' | 'account' | 'subtotal' | 'total';
+  /** One value per report column (current period first) */
+  values: number[];
+}
+
+export interface ReportColumn {
+  label: string;
+  range: ReportRange;
+}
+
+export interface FinancialReport {
+  kind: ReportKind;
+  title: string;
+  currency: string;
+  columns: ReportColumn[];
+  lines: ReportLine[];
+  /** Currencies whose entries were left out for lack of an FX rate */
+  missingRates: string[];
+}
+
+export const REPORT_TITLES: Record<ReportKind, string> = {
+  profit_loss: 'Profit & Loss',
+  balance_sheet: 'Balance Sheet',
+  cash_flow: 'Cash Flow',
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LEDGER AGGREGATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+type Account = LedgerSnapshot['accounts'][number];
+
+/** Net debit-minus-credit per account for entries with from <= date <= to */
+function netMovements(snapshot: LedgerSnapshot, currency: string, from: number, to: number): Map<string, number> {
+  const net = new Map<string, number>();
+  for (const entry of snapshot.entries) {
+    if (entry.currency !== currency || entry.date < from || entry.date > to) continue;
+    for (const line of entry.lines) {
+      net.set(line.accountId, (net.get(line.accountId) ?? 0) + line.debit - line.credit);
+    }
+  }
+  return net;
+}
+
+/** Natural-side balance: debit-normal accounts positive when debit > credit */
+function natural(account: Account, debitMinusCredit: number): number {
+  return account.type === 'asset' || account.type === 'expense' ? debitMinusCredit : -debitMinusCredit;
+}
+
+function byCode(a: Account, b: Account): number {
+  return a.code.localeCompare(b.code, undefined, { numeric: true });
+}
+
+function sum(lines: ReportLine[], columns: number): number[] {
+  return Array.from({ length: columns }, (_, column) =>
+    roundMoney(lines.reduce((total, line) => total + line.values[column], 0)));
+}
+
+function isNonZero(values: number[]): boolean {
+  return values.some((value) => roundMoney(value) !== 0);
+}
+
+/** One line per account of the given type, non-zero in at least one column */
+function accountLines(accounts: Account[], type: LedgerAccountType, periods: Map<string, number>[]): ReportLine[] {
+  return accounts
+    .filter((account) => account.type === type)
+    .sort(byCode)
+    .map((account): ReportLine => ({
+      key: `account:${account._id}`,
+      label: `${account.code} ${account.name}`,
+      kind: 'account',
+      values: periods.map((period) => roundMoney(natural(account, period.get(account._id) ?? 0))),
+    }))
+    .filter((line) => isNonZero(line.values));
+}
+
+function heading(key: string, label: string, columns: number): ReportLine {
+  return { key, label, kind: 'heading', values: Array(columns).fill(0) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATEMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Income and expenses booked within each range */
+function profitAndLossLines(snapshot: LedgerSnapshot, currency: string, ranges: ReportRange[]): ReportLine[] {
+  const periods = ranges.map((range) => netMovements(snapshot, currency, range.from, range.to));
+  const columns = ranges.length;
+
+  const income = accountLines(snapshot.accounts, 'income', periods);
+  const expenses = accountLines(snapshot.accounts, 'expense', periods);
+  const totalIncome = sum(income, columns);
+  const totalExpenses = sum(expenses, columns);
+
+  return [
+    heading('income', 'Income', columns),
+    ...income,
+    { key: 'total_income', label: 'Total income', kind: 'subtotal', values: totalIncome },
+    heading('expenses', 'Expenses', columns),
+    ...expenses,
+    { key: 'total_expenses', label: 'Total expenses', kind: 'subtotal', values: totalExpenses },
+    {
+      key: 'net_profit',
+      label: 'Net profit',
+      kind: 'total',
+      values: totalIncome.map((value, column) => roundMoney(value - totalExpenses[column])),
+    },
+  ];
+}
+
+/**
+ * Balances at the end of each range. Income/expense accounts are closed
+ * into a computed "Retained earnings" line so the statement balances.
+ */
+function balanceSheetLines(snapshot: LedgerSnapshot, currency: string, ranges: ReportRange[]): ReportLine[] {
+  const periods = ranges.map((range) => netMovements(snapshot, currency, Number.NEGATIVE_INFINITY, range.to));
+  const columns = ranges.length;
+
+  const assets = accountLines(snapshot.accounts, 'asset', periods);
+  const liabilities = accountLines(snapshot.accounts, 'liability', periods);
+  const equity = accountLines(snapshot.accounts, 'equity', periods);
+
+  const earnings = periods.map((period) => roundMoney(snapshot.accounts.reduce((total, account) => {
+    if (account.type !== 'income' && account.type !== 'expense') return total;
+    return total - (period.get(account._id) ?? 0);
+  }, 0)));
+  if (isNonZero(earnings)) {
+    equity.push({ key: 'retained_earnings', label: 'Retained earnings', kind: 'account', values: earnings });
+  }
+
+  const totalLiabilities = sum(liabilities, columns);
+  const totalEquity = sum(equity, columns);
+
+  return [
+    heading('assets', 'Assets', columns),
+    ...assets,
+    { key: 'total_assets', label: 'Total assets', kind: 'total', values: sum(assets, columns) },
+    heading('liabilities', 'Liabilities', columns),
+    ...liabilities,
+    { key: 'total_liabilities', label: 'Total liabilities', kind: 'subtotal', values: totalLiabilities },
+    heading('equity', 'Equity', columns),
+    ...equity,
+    { key: 'total_equity', label: 'Total equity', kind: 'subtotal', values: totalEquity },
+    {
+      key: 'total_liabilities_equity',
+      label: 'Total liabilities & equity',
+      kind: 'total',
+      values: totalLiabilities.map((value, column) => roundMoney(value + totalEquity[column])),
+    },
+  ];
+}
+
+type CashActivity = 'operating' | 'investing' | 'financing';
+
+const OPERATING_SYSTEM_KEYS = new Set(['receivables', 'payables', 'tax_payable', 'suspense']);
+
+function cashActivity(account: Account): CashActivity {
+  if (account.type === 'income' || account.type === 'expense') return 'operating';
+  if (account.systemKey && OPERATING_SYSTEM_KEYS.has(account.systemKey)) return 'operating';
+  return account.type === 'asset' ? 'investing' : 'financing';
+}
+
+/**
+ * Direct-method cash flow: every journal entry touching a bank account is
+ * attributed to its counter-accounts (each counter line's credit-minus-debit
+ * is exactly the cash it moved, because the entry balances).
+ */
+function cashFlowLines(snapshot: LedgerSnapshot, currency: string, ranges: ReportRange[]): ReportLine[] {
+  const columns = ranges.length;
+  const cashIds = new Set(snapshot.accounts.filter((account) => account.systemKey === 'bank').map((account) => account._id));
+
+  const flows = ranges.map((range) => {
+    const byAccount = new Map<string, number>();
+    for (const entry of snapshot.entries) {
+      if (entry.currency !== currency || entry.date < range.from || entry.date > range.to) continue;
+      if (!entry.lines.some((line) => cashIds.has(line.accountId))) continue;
+      for (const line of entry.lines) {
+        if (cashIds.has(line.accountId)) continue;
+        byAccount.set(line.accountId, (byAccount.get(line.accountId) ?? 0) + line.credit - line.debit);
+      }
+    }
+    return byAccount;
+  });
+
+  const cashBalance = (until: number) => {
+    const net = netMovements(snapshot, currency, Number.NEGATIVE_INFINITY, until);
+    return roundMoney(Array.from(cashIds).reduce((total, id) => total + (net.get(id) ?? 0), 0));
+  };
+
+  const section = (activity: CashActivity, label: string, totalLabel: string): { lines: ReportLine[]; total: number[] } => {
+    const lines = snapshot.accounts
+      .filter((account) => !cashIds.has(account._id) && cashActivity(account) === activity)
+      .sort(byCode)
+      .map((account): ReportLine => ({
+        key: `account:${account._id}`,
+        label: `${account.code} ${account.name}`,
+        kind: 'account',
+        values: flows.map((flow) => roundMoney(flow.get(account._id) ?? 0)),
+      }))
+      .filter((line) => isNonZero(line.values));
+    const total = sum(lines, columns);
+    return {
+      lines: [
+        heading(activity, label, columns),
+        ...lines,
+        { key: `net_${activity}`, label: totalLabel, kind: 'subtotal', values: total },
+      ],
+      total,
+    };
+  };
+
+  const operating = section('operating', 'Operating activities', 'Net cash from operating activities');
+  const investing = section('investing', 'Investing activities', 'Net cash from investing activities');
+  const financing = section('financing', 'Financing activities', 'Net cash from financing activities');
+
+  return [
+    ...operating.lines,
+    ...investing.lines,
+    ...financing.lines,
+    {
+      key: 'net_change',
+      label: 'Net change in cash',
+      kind: 'total',
+      values: operating.total.map((value, column) => roundMoney(value + investing.total[column] + financing.total[column])),
+    },
+    { key: 'opening_cash', label: 'Opening cash', kind: 'subtotal', values: ranges.map((range) => cashBalance(range.from - 1)) },
+    { key: 'closing_cash', label: 'Closing cash', kind: 'total', values: ranges.map((range) => cashBalance(range.to)) },
+  ];
+}
+
+/**
+ * Restate every entry in the report currency. Scaling a balanced entry by one
+ * rate keeps it balanced, so statements still tie out after conversion.
+ */
+function convertSnapshot(snapshot: LedgerSnapshot, currency: string, rates: FxRate[]): { snapshot: LedgerSnapshot; missing: string[] } {
+  const missing = new Set<string>();
+  const entries: LedgerSnapshot['entries'] = [];
+
+  for (const entry of snapshot.entries) {
+    if (entry.currency === currency) {
+      entries.push(entry);
+      continue;
+    }
+    const rate = findRate(rates, entry.currency, currency, entry.date);
+    if (rate === null) {
+      missing.add(entry.currency);
+      continue;
+    }
+    entries.push({
+      date: entry.date,
+      currency,
+      lines: entry.lines.map((line) => ({ ...line, debit: line.debit * rate, credit: line.credit * rate })),
+    });
+  }
+
+  return { snapshot: { accounts: snapshot.accounts, entries }, missing: Array.from(missing).sort() };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENTRY POINT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** "01/03/2025 – 31/03/2025" (balance sheet: "As of 31/03/2025") */
+function columnLabel(kind: ReportKind, range: ReportRange): string {
+  const day = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+  };
+  return kind === 'balance_sheet' ? `As of ${day(range.to)}` : `${day(range.from)} – ${day(range.to)}`;
+}
+
+/**
+ * Build a financial statement in one currency.
+ * Without rates only entries booked in that currency count; with rates every
+ * entry is converted. A comparison mode adds a MoM / YoY column.
+ */
+export function buildFinancialReport(
+  kind: ReportKind,
+  snapshot: LedgerSnapshot,
+  options: { range: ReportRange; currency: string; comparison?: ComparisonMode; rates?: FxRate[] }
+): FinancialReport {
+  const ranges = [options.range];
+  if (options.comparison && options.comparison !== 'none') {
+    ranges.push(comparisonRange(options.range, options.comparison));
+  }
+
+  const converted = options.rates
+    ? convertSnapshot(snapshot, options.currency, options.rates)
+    : { snapshot, missing: [] };
+
+  const build = kind === 'profit_loss' ? profitAndLossLines : kind === 'balance_sheet' ? balanceSheetLines : cashFlowLines;
+
+  return {
+    kind,
+    title: REPORT_TITLES[kind],
+    currency: options.currency,
+    columns: ranges.map((range) => ({ label: columnLabel(kind, range), range })),
+    lines: build(converted.snapshot, options.currency, ranges),
+    missingRates: converted.missing,
+  };
+}
+
+/** Change between current and comparison column (null when not comparing) */
+export function lineChange(line: ReportLine): { amount: number; percent: number | null } | null {
+  if (line.values.length < 2 || line.kind === 'heading') return null;
+  const [current, previous] = line.values;
+  const amount = roundMoney(current - previous);
+  return { amount, percent: previous === 0 ? null : Math.round((amount / Math.abs(previous)) * 1000) / 10 };
+}
+
+/** Look up a line's current value by key (0 when absent) */
+export function reportValue(report: FinancialReport, key: string, column = 0): number {
+  return report.lines.find((line) => line.key === key)?.values[column] ?? 0;
+}
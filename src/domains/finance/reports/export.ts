@@ -0,0 +1,48 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📊 REPORT EXPORT - CSV                                                    │
+│  /src/domains/finance/reports/export.ts                                    │
+│                                                                            │
+│  Spreadsheet-friendly export: plain numbers (no currency symbols or        │
+│  thousands separators), one column per period plus change columns.         │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { csvRow } from '@/lib/csv';
+import { lineChange, type FinancialReport } from './engine';
+
+/** Header row shared by CSV and PDF output */
+export function reportHeaders(report: FinancialReport): string[] {
+  const headers = ['', ...report.columns.map((column) => column.label)];
+  if (report.columns.length > 1) headers.push('Change', 'Change %');
+  return headers;
+}
+
+/** Body cells for one line (headings are label-only) */
+export function reportCells(report: FinancialReport, lineIndex: number, formatAmount: (value: number) => string): string[] {
+  const line = report.lines[lineIndex];
+  if (line.kind === 'heading') return [line.label];
+
+  const cells = [line.kind === 'account' ? `  ${line.label}` : line.label, ...line.values.map(formatAmount)];
+  const change = lineChange(line);
+  if (change) {
+    cells.push(formatAmount(change.amount), change.percent === null ? '' : `${change.percent.toFixed(1)}%`);
+  }
+  return cells;
+}
+
+/** "Profit & Loss, USD" banner + table; amounts as fixed 2-decimal numbers */
+export function reportToCsv(report: FinancialReport): string {
+  const rows = [
+    csvRow([report.title]),
+    csvRow(['Currency', report.currency]),
+    '',
+    csvRow(reportHeaders(report)),
+    ...report.lines.map((_, index) => csvRow(reportCells(report, index, (value) => value.toFixed(2)))),
+  ];
+  return rows.join('\r\n');
+}
+
+/** File name stem, e.g. "profit-loss-2025-03-31" */
+export function reportFileName(report: FinancialReport): string {
+  const end = new Date(report.columns[0].range.to).toISOString().slice(0, 10);
+  return `${report.kind.replace('_', '-')}-${report.currency.toLowerCase()}-${end}`;
+}
@@ -0,0 +1,26 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📊 FINANCIAL REPORTS - Export Hub                                         │
+│  /src/domains/finance/reports/index.ts                                     │
+│                                                                            │
+│  Report engine (P&L, balance sheet, cash flow), ranges + CSV/PDF export.   │
+└────────────────────────────────────────────────────────────────────────────*/
+
+export { DAY_MS, comparisonRange, presetRange } from './ranges';
+export type { ComparisonMode, RangePreset, ReportRange } from './ranges';
+
+export {
+  REPORT_TITLES,
+  buildFinancialReport,
+  lineChange,
+  reportValue,
+} from './engine';
+export type {
+  ReportKind,
+  LedgerSnapshot,
+  ReportLine,
+  ReportColumn,
+  FinancialReport,
+} from './engine';
+
+export { reportToCsv, reportFileName } from './export';
+export { reportToPdf } from './pdf';
@@ -0,0 +1,170 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📊 REPORT EXPORT - PDF                                                    │
+│  /src/domains/finance/reports/pdf.ts                                       │
+│                                                                            │
+│  Minimal PDF 1.4 writer (no dependencies): A4 pages, built-in Helvetica    │
+│  with WinAnsi encoding, label column + right-aligned amount columns.       │
+│  Paginates automatically; good enough to print or email a statement.      │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { reportCells, reportHeaders } from './export';
+import type { FinancialReport } from './engine';
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 9;
+
+/** Helvetica advance widths (1/1000 em) for ASCII 32-126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Unicode → WinAnsi for characters outside Latin-1 that reports use */
+const WIN_ANSI: Record<string, number> = { '€': 0x80, '…': 0x85, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95 };
+
+function toWinAnsi(text: string): string {
+  return Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI[char] !== undefined) return String.fromCharCode(WIN_ANSI[char]);
+    return code < 256 && char.length === 1 ? char : '?';
+  }).join('');
+}
+
+function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (width * size) / 1000;
+}
+
+function escapePdfText(text: string): string {
+  return toWinAnsi(text).replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/** Trim a label to fit its column */
+function fit(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let trimmed = text;
+  while (trimmed.length > 1 && textWidth(`${trimmed}…`, size) > width) trimmed = trimmed.slice(0, -1);
+  return `${trimmed}…`;
+}
+
+function formatAmount(value: number): string {
+  const fixed = Math.abs(value).toFixed(2);
+  const [whole, decimals] = fixed.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${value < 0 ? '-' : ''}${grouped}.${decimals}`;
+}
+
+interface TextOp {
+  x: number;
+  y: number;
+  text: string;
+  bold?: boolean;
+  size?: number;
+}
+
+/**
+ * Render a financial report as a PDF document.
+ * @returns PDF bytes, ready for a Blob with type application/pdf
+ */
+export function reportToPdf(report: FinancialReport, subtitle?: string): Uint8Array<ArrayBuffer> {
+  const headers = reportHeaders(report);
+  const amountColumns = headers.length - 1;
+  const amountWidth = amountColumns > 3 ? 82 : 100;
+  const labelWidth = PAGE_WIDTH - 2 * MARGIN - amountColumns * amountWidth;
+  const columnRight = (column: number) => MARGIN + labelWidth + column * amountWidth;
+
+  const pages: { ops: TextOp[]; rules: number[] }[] = [];
+  let page: { ops: TextOp[]; rules: number[] } = { ops: [], rules: [] };
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = { ops: [], rules: [] };
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const row = (cells: string[], bold: boolean) => {
+    if (y < MARGIN + ROW_HEIGHT) {
+      newPage();
+      row(headers, true);
+      page.rules.push(y + ROW_HEIGHT - 4);
+    }
+    cells.forEach((cell, index) => {
+      if (!cell) return;
+      if (index === 0) {
+        page.ops.push({ x: MARGIN, y, text: fit(cell, labelWidth - 8, FONT_SIZE), bold });
+      } else {
+        page.ops.push({ x: columnRight(index) - textWidth(cell, FONT_SIZE), y, text: cell, bold });
+      }
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  newPage();
+  page.ops.push({ x: MARGIN, y, text: report.title, bold: true, size: 16 });
+  y -= 20;
+  page.ops.push({ x: MARGIN, y, text: subtitle ? `${subtitle} · ${report.currency}` : report.currency, size: 10 });
+  y -= 28;
+  row(headers, true);
+  page.rules.push(y + ROW_HEIGHT - 4);
+
+  report.lines.forEach((line, index) => {
+    if (line.kind === 'heading' && index > 0) y -= 6;
+    const cells = reportCells(report, index, formatAmount);
+    row(cells, line.kind !== 'account');
+    if (line.kind === 'total') page.rules.push(y + ROW_HEIGHT - 4);
+  });
+
+  // ── Serialize ──────────────────────────────────────────────────────────
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalog = add('');
+  const pagesRoot = add('');
+  const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = pages.map((current, pageIndex) => {
+    const footer = `Page ${pageIndex + 1} of ${pages.length}`;
+    const text = [...current.ops, { x: PAGE_WIDTH - MARGIN - textWidth(footer, 8), y: MARGIN / 2, text: footer, size: 8 }]
+      .map((op) => `BT /${op.bold ? 'F2' : 'F1'} ${op.size ?? FONT_SIZE} Tf ${op.x.toFixed(2)} ${op.y.toFixed(2)} Td (${escapePdfText(op.text)}) Tj ET`)
+      .join('\n');
+    const rules = current.rules
+      .map((ruleY) => `${MARGIN} ${ruleY.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${ruleY.toFixed(2)} l S`)
+      .join('\n');
+    const stream = `0.5 w 0.6 G\n${rules}\n0 g\n${text}`;
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesRoot} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`);
+  });
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesRoot} 0 R >>`;
+  objects[pagesRoot - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0) & 0xff);
+}
@@ -0,0 +1,66 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📅 REPORT RANGES - Periods & Comparisons                                  │
+│  /src/domains/finance/reports/ranges.ts                                    │
+│                                                                            │
+│  Report periods are inclusive UTC day ranges. Comparison periods shift     │
+│  by whole months, keeping month ends on month ends.                        │
+└────────────────────────────────────────────────────────────────────────────*/
+
+export type ComparisonMode = 'none' | 'mom' | 'yoy';
+export type RangePreset = 'this_month' | 'last_month' | 'this_quarter' | 'year_to_date' | 'last_year';
+
+/** Inclusive range in epoch ms (from = start of day, to = end of day) */
+export interface ReportRange {
+  from: number;
+  to: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfUtcDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Shift a day by whole months, clamping the day (31 Mar - 1 month = 28/29 Feb) */
+function shiftDay(day: number, months: number, snapToMonthEnd: boolean): number {
+  const date = new Date(day);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth());
+  const isMonthEnd = date.getUTCDate() === daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  const dayOfMonth = snapToMonthEnd && isMonthEnd ? lastDay : Math.min(date.getUTCDate(), lastDay);
+  return Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), dayOfMonth);
+}
+
+/** Comparison period: previous month (MoM) or same period last year (YoY) */
+export function comparisonRange(range: ReportRange, mode: Exclude<ComparisonMode, 'none'>): ReportRange {
+  const months = mode === 'mom' ? -1 : -12;
+  return {
+    from: shiftDay(startOfUtcDay(range.from), months, false),
+    to: shiftDay(startOfUtcDay(range.to), months, true) + DAY_MS - 1,
+  };
+}
+
+/** Common reporting periods relative to `now` */
+export function presetRange(preset: RangePreset, now: number = Date.now()): ReportRange {
+  const today = new Date(now);
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+  const endOfToday = startOfUtcDay(now) + DAY_MS - 1;
+
+  switch (preset) {
+    case 'this_month':
+      return { from: Date.UTC(year, month, 1), to: endOfToday };
+    case 'last_month':
+      return { from: Date.UTC(year, month - 1, 1), to: Date.UTC(year, month, 1) - 1 };
+    case 'this_quarter':
+      return { from: Date.UTC(year, month - (month % 3), 1), to: endOfToday };
+    case 'year_to_date':
+      return { from: Date.UTC(year, 0, 1), to: endOfToday };
+    case 'last_year':
+      return { from: Date.UTC(year - 1, 0, 1), to: Date.UTC(year, 0, 1) - 1 };
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Bank Statement Import Unit Tests
+ *
+ * Parsers (CSV, OFX/QFX, CAMT.053), amount/date parsing and the
+ * duplicate rules shared by the import preview and importStatementRows.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildStatementDedupeIndex,
+  detectStatementFormat,
+  guessCsvMapping,
+  isStatementDuplicate,
+  parseAmount,
+  parseCamt053Statement,
+  parseCsvDate,
+  parseCsvStatement,
+  parseOfxStatement,
+  readCsv,
+  statementMatchError,
+  statementOccurrences,
+  statementRowHash,
+} from '@/domains/finance/statements';
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe('parseAmount', () => {
+  test.each([
+    ['1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1,234', 1234],
+    ['(12.00)', -12],
+    ['-12', -12],
+    ['£12.00', 12],
+    ['12.00 DR', -12],
+    ['12.00 CR', 12],
+    ['+7.5', 7.5],
+  ])('%s → %d', (raw, expected) => {
+    expect(parseAmount(raw)).toBe(expected);
+  });
+
+  test('returns null for empty or non-numeric cells', () => {
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount('n/a')).toBeNull();
+  });
+});
+
+describe('parseCsvDate', () => {
+  test('reads day-first and month-first dates', () => {
+    expect(parseCsvDate('03/04/2024', 'DD/MM/YYYY')).toBe(day('2024-04-03'));
+    expect(parseCsvDate('03/04/2024', 'MM/DD/YYYY')).toBe(day('2024-03-04'));
+    expect(parseCsvDate('3.4.24', 'DD/MM/YYYY')).toBe(day('2024-04-03'));
+  });
+
+  test('always accepts ISO dates', () => {
+    expect(parseCsvDate('2024-02-29', 'DD/MM/YYYY')).toBe(day('2024-02-29'));
+  });
+
+  test('rejects impossible dates', () => {
+    expect(parseCsvDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(parseCsvDate('2023-02-29', 'YYYY-MM-DD')).toBeNull();
+  });
+});
+
+describe('parseCsvStatement', () => {
+  test('maps a signed amount column and reports bad lines', () => {
+    const table = readCsv('Date,Description,Amount\n01/03/2024,"Coffee, large",-3.50\nnot a date,Rent,-900\n02/03/2024,Refund,\n');
+    const mapping = guessCsvMapping(table.headers, 'gbp');
+    const result = parseCsvStatement(table, mapping);
+
+    expect(result.rows).toEqual([
+      { date: day('2024-03-01'), amount: -3.5, currency: 'GBP', description: 'Coffee, large' },
+    ]);
+    expect(result.errors).toEqual([
+      'Line 3: unrecognised date "not a date"',
+      'Line 4: missing amount',
+    ]);
+  });
+
+  test('combines debit and credit columns', () => {
+    const table = readCsv('Date,Details,Paid out,Paid in,Currency\n01/03/2024,Card,12.00,,EUR\n02/03/2024,Salary,,2500.00,\n');
+    const mapping = guessCsvMapping(table.headers, 'GBP');
+    expect(mapping.amount).toBeUndefined();
+
+    const { rows } = parseCsvStatement(table, mapping);
+    expect(rows.map((row) => [row.amount, row.currency])).toEqual([[-12, 'EUR'], [2500, 'GBP']]);
+  });
+});
+
+describe('parseOfxStatement', () => {
+  const sgml = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>usd
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240305120000[-5:EST]<TRNAMT>-42.10<FITID>A1<NAME>GROCER<MEMO>Store 12</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240306<TRNAMT>100.00<FITID>A2<NAME>REFUND<MEMO>REFUND</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<TRNAMT>-1.00<FITID>A3<NAME>FEE</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+  test('reads SGML transactions with their FITID', () => {
+    const result = parseOfxStatement(sgml, 'GBP');
+    expect(result.rows).toEqual([
+      { date: day('2024-03-05'), amount: -42.1, currency: 'USD', description: 'GROCER Store 12', externalId: 'A1' },
+      { date: day('2024-03-06'), amount: 100, currency: 'USD', description: 'REFUND', externalId: 'A2' },
+    ]);
+    expect(result.errors).toEqual(['Transaction 3 (A3): missing date or amount']);
+  });
+
+  test('reads closed XML tags (OFX 2.x)', () => {
+    const xml = '<OFX><STMTTRN><DTPOSTED>20240101</DTPOSTED><TRNAMT>5</TRNAMT><FITID>X</FITID><NAME>Interest</NAME></STMTTRN></OFX>';
+    expect(parseOfxStatement(xml, 'eur').rows).toEqual([
+      { date: day('2024-01-01'), amount: 5, currency: 'EUR', description: 'Interest', externalId: 'X' },
+    ]);
+  });
+
+  test('decodes XML entities in NAME and MEMO', () => {
+    const xml = '<OFX><STMTTRN><DTPOSTED>20240101</DTPOSTED><TRNAMT>-9.5</TRNAMT><FITID>E1</FITID>'
+      + '<NAME>Marks &amp; Spencer</NAME><MEMO>&lt;Card 4821&gt; caf&#233; &amp;lt;</MEMO></STMTTRN></OFX>';
+    expect(parseOfxStatement(xml, 'GBP').rows[0].description).toBe('Marks & Spencer <Card 4821> café &lt;');
+  });
+
+  test('explains a file without transactions', () => {
+    expect(parseOfxStatement('<OFX></OFX>', 'GBP').errors).toHaveLength(1);
+  });
+});
+
+describe('parseCamt053Statement', () => {
+  const xml = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry><Amt Ccy="EUR">250.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><BookgDt><Dt>2024-03-01</Dt></BookgDt>
+  <AcctSvcrRef>REF-1</AcctSvcrRef><NtryDtls><TxDtls><AmtDtls><InstdAmt><Amt Ccy="USD">270.00</Amt></InstdAmt></AmtDtls>
+  <RmtInf><Ustrd>Invoice 42</Ustrd><Ustrd>Acme &amp; Co</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+<camt:Ntry><camt:Amt Ccy="EUR">10</camt:Amt><camt:CdtDbtInd>CRDT</camt:CdtDbtInd><camt:ValDt><camt:DtTm>2024-03-02T10:00:00</camt:DtTm></camt:ValDt>
+  <camt:AddtlNtryInf>Interest</camt:AddtlNtryInf></camt:Ntry>
+<Ntry><Amt Ccy="EUR">1</Amt><CdtDbtInd>DBIT</CdtDbtInd><AcctSvcrRef>REF-3</AcctSvcrRef></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+  test('signs entries by CdtDbtInd and keeps the entry-level currency', () => {
+    const result = parseCamt053Statement(xml, 'GBP');
+    expect(result.rows).toEqual([
+      { date: day('2024-03-01'), amount: -250, currency: 'EUR', description: 'Invoice 42 Acme & Co', externalId: 'REF-1' },
+      { date: day('2024-03-02'), amount: 10, currency: 'EUR', description: 'Interest', externalId: undefined },
+    ]);
+    expect(result.errors).toEqual(['Entry 3 (REF-3): missing booking date or amount']);
+  });
+});
+
+describe('detectStatementFormat', () => {
+  test('uses the extension, then the content', () => {
+    expect(detectStatementFormat('march.QFX', '')).toBe('ofx');
+    expect(detectStatementFormat('march.csv', '<OFX>')).toBe('csv');
+    expect(detectStatementFormat('export', 'OFXHEADER:100')).toBe('ofx');
+    expect(detectStatementFormat('export.xml', '<Document><BkToCstmrStmt>')).toBe('camt053');
+  });
+});
+
+describe('duplicate detection', () => {
+  const coffee = { date: day('2024-03-01'), amount: -3.5, description: 'Coffee' };
+
+  test('hash ignores time of day, whitespace and case', () => {
+    expect(statementRowHash({ ...coffee, date: coffee.date + 3600_000, description: '  COFFEE ' }))
+      .toBe(statementRowHash(coffee));
+  });
+
+  test('numbers identical lines within a file', () => {
+    expect(statementOccurrences([coffee, { ...coffee, amount: -4 }, coffee])).toEqual([1, 1, 2]);
+  });
+
+  test('keeps two identical payments on the same day', () => {
+    const booked = buildStatementDedupeIndex([]);
+    const occurrences = statementOccurrences([coffee, coffee]);
+    expect(occurrences.map((n) => isStatementDuplicate(booked, coffee, n))).toEqual([false, false]);
+  });
+
+  test('re-importing a file skips every line, and only the missing copy is new', () => {
+    const occurrences = statementOccurrences([coffee, coffee]);
+    const bothBooked = buildStatementDedupeIndex([coffee, coffee]);
+    const oneBooked = buildStatementDedupeIndex([coffee]);
+    expect(occurrences.map((n) => isStatementDuplicate(bothBooked, coffee, n))).toEqual([true, true]);
+    expect(occurrences.map((n) => isStatementDuplicate(oneBooked, coffee, n))).toEqual([true, false]);
+  });
+
+  test('bank references decide when present', () => {
+    const booked = buildStatementDedupeIndex([{ ...coffee, externalId: 'F1' }]);
+    expect(isStatementDuplicate(booked, { ...coffee, externalId: 'F1' }, 1)).toBe(true);
+    // Same day, amount and text but a different FITID is another payment
+    expect(isStatementDuplicate(booked, { ...coffee, externalId: 'F2' }, 1)).toBe(false);
+  });
+
+  test('referenced lines match lines booked from a reference-less CSV', () => {
+    const booked = buildStatementDedupeIndex([coffee]);
+    expect(isStatementDuplicate(booked, { ...coffee, externalId: 'F1' }, 1)).toBe(true);
+    expect(isStatementDuplicate(booked, { ...coffee, externalId: 'F2' }, 2)).toBe(false);
+  });
+});
+
+describe('statementMatchError', () => {
+  const line = { type: 'payment', status: 'paid', amount: 120, currency: 'GBP', source: 'ofx' as const };
+  const invoice = { status: 'sent' as const, total: 120, currency: 'GBP' };
+
+  test('an imported payment matches an issued invoice for the same total', () => {
+    expect(statementMatchError(line, invoice)).toBeNull();
+    expect(statementMatchError(line, { ...invoice, status: 'paid' })).toBeNull();
+  });
+
+  test('refuses lines that are not unmatched imported payments', () => {
+    expect(statementMatchError({ ...line, source: 'manual' }, invoice)).toMatch(/imported payments/);
+    expect(statementMatchError({ ...line, type: 'expense' }, invoice)).toMatch(/imported payments/);
+    expect(statementMatchError({ ...line, matchedInvoiceId: 'inv1' }, invoice)).toMatch(/already matched/);
+  });
+
+  test('refuses drafts, void invoices, other currencies and other amounts', () => {
+    expect(statementMatchError(line, { ...invoice, status: 'draft' })).toMatch(/issued/);
+    expect(statementMatchError(line, { ...invoice, status: 'void' })).toMatch(/issued/);
+    expect(statementMatchError(line, { ...invoice, currency: 'EUR' })).toBe('Payment is in GBP but the invoice is in EUR');
+    expect(statementMatchError(line, { ...invoice, total: 120.01 })).toMatch(/differs/);
+  });
+});
@@ -0,0 +1,77 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🏦 CAMT.053 STATEMENT PARSER                                              │
+│  /src/domains/finance/statements/camt.ts                                   │
+│                                                                            │
+│  ISO 20022 Bank-to-Customer Statement. One <Ntry> per booked line.         │
+│  Regex-based (no DOMParser) so it stays a pure, environment-free function. │
+│  Namespace prefixes (<camt:Ntry>) are tolerated.                           │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import {
+  decodeXml,
+  normalizeDescription,
+  parseAmount,
+  utcDate,
+  type StatementParseResult,
+} from './shared';
+
+/** Inner XML of every <Tag>…</Tag> (any namespace prefix) */
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function firstText(xml: string, tag: string): string | undefined {
+  const value = elements(xml, tag)[0];
+  return value === undefined ? undefined : decodeXml(value.replace(/<[^>]+>/g, '').trim());
+}
+
+function parseIsoDay(raw: string | undefined): number | null {
+  const match = raw ? /^(\d{4})-(\d{2})-(\d{2})/.exec(raw) : null;
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+export function parseCamt053Statement(xml: string, fallbackCurrency: string): StatementParseResult {
+  const result: StatementParseResult = { rows: [], errors: [] };
+  const entries = elements(xml, 'Ntry');
+
+  if (entries.length === 0) {
+    result.errors.push('No <Ntry> entries found - is this a CAMT.053 statement?');
+    return result;
+  }
+
+  entries.forEach((entry, index) => {
+    // Entry-level <Amt Ccy="EUR"> precedes any <AmtDtls> in the schema order
+    const amountMatch = /<(?:\w+:)?Amt(\s[^>]*)?>([^<]+)</.exec(entry);
+    const amountCurrency = /Ccy="([A-Z]{3})"/.exec(amountMatch?.[1] ?? '')?.[1];
+    const magnitude = amountMatch ? parseAmount(amountMatch[2]) : null;
+    const isDebit = firstText(entry, 'CdtDbtInd') === 'DBIT';
+
+    const bookingDate = elements(entry, 'BookgDt')[0] ?? elements(entry, 'ValDt')[0] ?? '';
+    const date = parseIsoDay(firstText(bookingDate, 'Dt') ?? firstText(bookingDate, 'DtTm'));
+    const reference = firstText(entry, 'AcctSvcrRef') ?? firstText(entry, 'EndToEndId');
+
+    if (date === null || magnitude === null) {
+      result.errors.push(`Entry ${index + 1}${reference ? ` (${reference})` : ''}: missing booking date or amount`);
+      return;
+    }
+
+    // Prefer remittance text, then the entry narrative, then the counterparty
+    const remittance = elements(entry, 'Ustrd').map((line) => decodeXml(line.trim())).join(' ');
+    const description = remittance
+      || firstText(entry, 'AddtlNtryInf')
+      || firstText(entry, 'AddtlTxInf')
+      || firstText(entry, 'Nm')
+      || '';
+
+    result.rows.push({
+      date,
+      amount: isDebit ? -Math.abs(magnitude) : Math.abs(magnitude),
+      currency: (amountCurrency || fallbackCurrency).toUpperCase(),
+      description: normalizeDescription(description) || '(no description)',
+      externalId: reference,
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,128 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🏦 CSV STATEMENT PARSER                                                   │
+│  /src/domains/finance/statements/csv.ts                                    │
+│                                                                            │
+│  Banks disagree on everything, so CSV import is two steps:                 │
+│  1. readCsv() - split into header + records (quote/delimiter aware)        │
+│  2. parseCsvStatement() - apply a user-confirmed column mapping            │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import {
+  normalizeDescription,
+  parseAmount,
+  utcDate,
+  type StatementParseResult,
+} from './shared';
+import type { CsvTable } from '@/lib/csv';
+
+export { readCsv, type CsvTable } from '@/lib/csv';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/**
+ * Column indexes into the CSV header. Provide either `amount` (signed) or
+ * `debit` + `credit` (two unsigned columns).
+ */
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  /** Optional per-row currency column; falls back to defaultCurrency */
+  currency?: number;
+  dateFormat: CsvDateFormat;
+  defaultCurrency: string;
+}
+
+/**
+ * Suggest a mapping from common bank header names.
+ * The user confirms or corrects it in the import preview.
+ */
+export function guessCsvMapping(headers: string[], defaultCurrency: string): CsvColumnMapping {
+  const find = (...patterns: RegExp[]) => {
+    const index = headers.findIndex((header) => patterns.some((pattern) => pattern.test(header)));
+    return index === -1 ? undefined : index;
+  };
+
+  const debit = find(/debit/i, /paid out/i, /withdrawal/i, /money out/i);
+  const credit = find(/credit/i, /paid in/i, /deposit/i, /money in/i);
+  const amount = find(/^amount$/i, /amount/i, /value/i);
+  const splitColumns = debit !== undefined && credit !== undefined;
+
+  return {
+    date: find(/date/i, /posted/i) ?? 0,
+    description: find(/description/i, /details/i, /narrative/i, /memo/i, /payee/i, /reference/i) ?? 1,
+    amount: splitColumns ? undefined : amount ?? 2,
+    debit: splitColumns ? debit : undefined,
+    credit: splitColumns ? credit : undefined,
+    currency: find(/currency/i, /^ccy$/i),
+    dateFormat: 'DD/MM/YYYY',
+    defaultCurrency,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Parse a date cell in the mapped format (ISO dates are always accepted) */
+export function parseCsvDate(raw: string, format: CsvDateFormat): number | null {
+  const value = raw.trim();
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (iso) return utcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const parts = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/.exec(value);
+  if (!parts || format === 'YYYY-MM-DD') return null;
+
+  const year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+  return format === 'DD/MM/YYYY'
+    ? utcDate(year, Number(parts[2]), Number(parts[1]))
+    : utcDate(year, Number(parts[1]), Number(parts[2]));
+}
+
+/**
+ * Apply a column mapping to CSV records.
+ * Unparseable lines are reported in `errors` (1-based, header = line 1).
+ */
+export function parseCsvStatement(table: CsvTable, mapping: CsvColumnMapping): StatementParseResult {
+  const result: StatementParseResult = { rows: [], errors: [] };
+
+  table.records.forEach((record, index) => {
+    const line = index + 2;
+    const date = parseCsvDate(record[mapping.date] ?? '', mapping.dateFormat);
+
+    let amount: number | null;
+    if (mapping.amount !== undefined) {
+      amount = parseAmount(record[mapping.amount] ?? '');
+    } else {
+      const debit = parseAmount(record[mapping.debit ?? -1] ?? '') ?? 0;
+      const credit = parseAmount(record[mapping.credit ?? -1] ?? '') ?? 0;
+      amount = debit || credit ? Math.abs(credit) - Math.abs(debit) : null;
+    }
+
+    if (date === null) {
+      result.errors.push(`Line ${line}: unrecognised date "${record[mapping.date] ?? ''}"`);
+      return;
+    }
+    if (amount === null) {
+      result.errors.push(`Line ${line}: missing amount`);
+      return;
+    }
+
+    const currency = mapping.currency !== undefined ? record[mapping.currency] : undefined;
+    result.rows.push({
+      date,
+      amount,
+      currency: (currency || mapping.defaultCurrency).toUpperCase(),
+      description: normalizeDescription(record[mapping.description] ?? '') || '(no description)',
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,50 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🏦 STATEMENT IMPORT - Export Hub                                          │
+│  /src/domains/finance/statements/index.ts                                  │
+│                                                                            │
+│  Format detection + parsers for bank statement files.                      │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import type { StatementFormat } from './shared';
+
+export {
+  STATEMENT_IMPORT_BATCH_SIZE,
+  parseAmount,
+  normalizeDescription,
+  statementRowHash,
+  signedStatementAmount,
+  isStatementImport,
+  buildStatementDedupeIndex,
+  statementOccurrences,
+  isStatementDuplicate,
+  statementMatchError,
+} from './shared';
+export type {
+  StatementFormat,
+  StatementSource,
+  ParsedStatementRow,
+  StatementParseResult,
+  StatementDedupeRow,
+  StatementDedupeIndex,
+} from './shared';
+
+export { readCsv, guessCsvMapping, parseCsvDate, parseCsvStatement } from './csv';
+export type { CsvColumnMapping, CsvDateFormat, CsvTable } from './csv';
+
+export { parseOfxStatement } from './ofx';
+export { parseCamt053Statement } from './camt';
+
+/**
+ * Detect statement format from file name, then content.
+ * QFX is treated as OFX.
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt/.test(head)) return 'camt053';
+  return 'csv';
+}
@@ -0,0 +1,63 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🏦 OFX / QFX STATEMENT PARSER                                             │
+│  /src/domains/finance/statements/ofx.ts                                    │
+│                                                                            │
+│  Handles OFX 1.x (SGML, unclosed leaf tags) and OFX 2.x (XML).             │
+│  QFX is OFX with an Intuit header - same parser.                           │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import {
+  decodeXml,
+  normalizeDescription,
+  parseAmount,
+  utcDate,
+  type StatementParseResult,
+} from './shared';
+
+/** Read a leaf value: works for both <TAG>value and <TAG>value</TAG> */
+function readTag(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+/** OFX dates: YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]] - only the day matters */
+function parseOfxDate(raw: string | undefined): number | null {
+  const match = raw ? /^(\d{4})(\d{2})(\d{2})/.exec(raw) : null;
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+export function parseOfxStatement(text: string, fallbackCurrency: string): StatementParseResult {
+  const result: StatementParseResult = { rows: [], errors: [] };
+  const currency = (readTag(text, 'CURDEF') || fallbackCurrency).toUpperCase();
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+
+  if (blocks.length === 0) {
+    result.errors.push('No <STMTTRN> transactions found - is this an OFX/QFX statement?');
+    return result;
+  }
+
+  blocks.forEach((block, index) => {
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseAmount(readTag(block, 'TRNAMT') ?? '');
+    const fitId = readTag(block, 'FITID');
+
+    if (date === null || amount === null) {
+      result.errors.push(`Transaction ${index + 1}${fitId ? ` (${fitId})` : ''}: missing date or amount`);
+      return;
+    }
+
+    const name = readTag(block, 'NAME') ?? '';
+    const memo = readTag(block, 'MEMO') ?? '';
+    const description = memo && memo !== name ? `${name} ${memo}` : name || memo;
+
+    result.rows.push({
+      date,
+      amount,
+      currency,
+      description: normalizeDescription(description) || '(no description)',
+      externalId: fitId,
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,237 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  🏦 STATEMENT IMPORT - Shared Types & Helpers                              │
+│  /src/domains/finance/statements/shared.ts                                 │
+│                                                                            │
+│  Every parser (CSV, OFX/QFX, CAMT.053) produces ParsedStatementRow.        │
+│  Amounts are SIGNED: money in > 0, money out < 0.                          │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { roundMoney, type InvoiceStatus } from '@/domains/finance/invoices';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053';
+
+/** Provenance stored on finance_banking_Statements rows */
+export type StatementSource = StatementFormat | 'manual' | 'recurring';
+
+export interface ParsedStatementRow {
+  /** Booking date, epoch ms (UTC midnight) */
+  date: number;
+  /** Signed amount: credit > 0, debit < 0 */
+  amount: number;
+  currency: string;
+  description: string;
+  /** Bank-side reference (OFX FITID, CAMT AcctSvcrRef) when present */
+  externalId?: string;
+}
+
+export interface StatementParseResult {
+  rows: ParsedStatementRow[];
+  /** Human-readable problems with individual lines (row skipped) */
+  errors: string[];
+}
+
+/** Largest batch accepted by importStatementRows */
+export const STATEMENT_IMPORT_BATCH_SIZE = 100;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSING HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse a bank-formatted amount.
+ * Handles "1,234.56", "1.234,56", "(12.00)", "-12", "£12.00", "12.00 CR/DR".
+ * @returns Signed number, or null when unparseable
+ */
+export function parseAmount(raw: string): number | null {
+  let value = raw.trim();
+  if (!value) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(value)) {
+    sign = -1;
+    value = value.slice(1, -1);
+  }
+  if (/\bDR$/i.test(value)) sign = -1;
+  value = value.replace(/\b(CR|DR)$/i, '').replace(/[^\d,.\-+]/g, '');
+  if (value.startsWith('-')) {
+    sign = -sign;
+    value = value.slice(1);
+  }
+  value = value.replace(/^\+/, '');
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Decimal comma ("1.234,56") unless it's a thousands separator ("1,234")
+    const decimals = value.length - lastComma - 1;
+    value = decimals === 3 && lastDot === -1
+      ? value.replace(/,/g, '')
+      : value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? roundMoney(sign * parsed) : null;
+}
+
+/** Build a UTC-midnight timestamp, rejecting impossible dates (e.g. 31/02) */
+export function utcDate(year: number, month: number, day: number): number | null {
+  const timestamp = Date.UTC(year, month - 1, day);
+  const check = new Date(timestamp);
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  return timestamp;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Decode XML entities and character references in one pass (OFX 2.x, CAMT) */
+export function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return XML_ENTITIES[name.toLowerCase()];
+    const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+/** Collapse whitespace so the same description always hashes the same */
+export function normalizeDescription(description: string): string {
+  return description.replace(/\s+/g, ' ').trim();
+}
+
+/** Rows read from a bank file, as opposed to typed in or generated */
+export function isStatementImport(source: StatementSource | undefined): boolean {
+  return source === 'csv' || source === 'ofx' || source === 'camt053';
+}
+
+/**
+ * Stored statements keep an unsigned amount plus a type; expenses are money out.
+ * Returns the signed amount used for hashing and totals.
+ */
+export function signedStatementAmount(row: { type: string; amount: number }): number {
+  return row.type === 'expense' ? -Math.abs(row.amount) : row.amount;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEDUPE HASH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * cyrb53 - fast 53-bit string hash (non-cryptographic, collision-resistant
+ * enough for per-org statement dedupe).
+ */
+function cyrb53(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Dedupe key for a statement line: booking day + signed amount + description.
+ * Time of day and whitespace/case differences are ignored.
+ */
+export function statementRowHash(row: { date: number; amount: number; description: string }): string {
+  const day = new Date(row.date).toISOString().slice(0, 10);
+  const amount = roundMoney(row.amount).toFixed(2);
+  const description = normalizeDescription(row.description).toLowerCase();
+  return cyrb53(`${day}|${amount}|${description}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DUPLICATE DETECTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** A booked statement line as the dedupe sees it (signed amount) */
+export interface StatementDedupeRow {
+  date: number;
+  amount: number;
+  description: string;
+  externalId?: string;
+}
+
+/** Booked lines an import is checked against - build once per import/batch */
+export interface StatementDedupeIndex {
+  externalIds: Set<string>;
+  /** Booked lines per hash */
+  hashCounts: Map<string, number>;
+  /** Booked lines per hash that carry no bank reference */
+  unreferencedCounts: Map<string, number>;
+}
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+export function buildStatementDedupeIndex(existing: StatementDedupeRow[]): StatementDedupeIndex {
+  const index: StatementDedupeIndex = { externalIds: new Set(), hashCounts: new Map(), unreferencedCounts: new Map() };
+  for (const row of existing) {
+    const hash = statementRowHash(row);
+    increment(index.hashCounts, hash);
+    if (row.externalId) index.externalIds.add(row.externalId);
+    else increment(index.unreferencedCounts, hash);
+  }
+  return index;
+}
+
+/**
+ * 1-based position of each row among the file's rows with the same hash.
+ * Two identical card payments on one day are occurrences 1 and 2 - the
+ * second is only a duplicate once two such lines are booked.
+ */
+export function statementOccurrences(rows: StatementDedupeRow[]): number[] {
+  const counts = new Map<string, number>();
+  return rows.map((row) => {
+    const hash = statementRowHash(row);
+    increment(counts, hash);
+    return counts.get(hash) ?? 1;
+  });
+}
+
+/**
+ * Whether a file row is already booked.
+ * - With a bank reference: a booked line with the same reference, or (for
+ *   lines booked from a reference-less CSV) enough same-hash lines without one
+ * - Without: at least `occurrence` booked lines with the same hash
+ */
+export function isStatementDuplicate(index: StatementDedupeIndex, row: StatementDedupeRow, occurrence: number): boolean {
+  const hash = statementRowHash(row);
+  if (row.externalId) {
+    return index.externalIds.has(row.externalId) || (index.unreferencedCounts.get(hash) ?? 0) >= occurrence;
+  }
+  return (index.hashCounts.get(hash) ?? 0) >= occurrence;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INVOICE MATCHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Why an imported payment cannot settle an invoice, or null when it can.
+ * Only issued invoices match, for their exact total in the same currency.
+ */
+export function statementMatchError(
+  line: { type: string; status: string; amount: number; currency: string; source?: StatementSource; matchedInvoiceId?: string },
+  invoice: { status: InvoiceStatus; total: number; currency: string }
+): string | null {
+  if (line.type !== 'payment' || line.status !== 'paid' || !isStatementImport(line.source)) {
+    return 'Only imported payments can be matched to an invoice';
+  }
+  if (line.matchedInvoiceId) return 'This payment is already matched to an invoice';
+  if (invoice.status === 'draft' || invoice.status === 'void') return 'Only issued invoices can be matched';
+  if (line.currency !== invoice.currency) {
+    return `Payment is in ${line.currency} but the invoice is in ${invoice.currency}`;
+  }
+  if (roundMoney(line.amount) !== roundMoney(invoice.total)) return 'Payment amount differs from the invoice total';
+  return null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Project Schedule Unit Tests
+ *
+ * Rescheduling that pushes dependents, and the critical path behind the
+ * project Gantt.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  criticalPath,
+  shiftDependents,
+  type DependencyType,
+  type ScheduleDependency,
+  type ScheduleTask,
+} from '@/domains/projects';
+
+const day = (n: number) => Date.UTC(2025, 0, n);
+
+const task = (id: string, start: number, end: number, isMilestone = false): ScheduleTask => ({
+  id,
+  startDate: day(start),
+  endDate: day(end),
+  isMilestone,
+});
+
+const link = (predecessorId: string, successorId: string, type: DependencyType = 'finish_to_start'): ScheduleDependency => ({
+  predecessorId,
+  successorId,
+  type,
+});
+
+const move = (id: string, start: number, end: number) => ({ id, startDate: day(start), endDate: day(end) });
+
+describe('shiftDependents', () => {
+  test('keeps the duration and pushes a finish-to-start successor', () => {
+    const tasks = [task('a', 1, 2), task('b', 3, 4)];
+    expect(shiftDependents(tasks, [link('a', 'b')], 'a', day(5))).toEqual([move('a', 5, 6), move('b', 7, 8)]);
+  });
+
+  test('uses up slack before moving a dependent', () => {
+    const tasks = [task('a', 1, 2), task('b', 6, 7)];
+    expect(shiftDependents(tasks, [link('a', 'b')], 'a', day(3))).toEqual([move('a', 3, 4)]);
+    expect(shiftDependents(tasks, [link('a', 'b')], 'a', day(5))).toEqual([move('a', 5, 6), move('b', 7, 8)]);
+  });
+
+  test('a start-to-start successor only has to start with its predecessor', () => {
+    const tasks = [task('a', 1, 4), task('b', 1, 2)];
+    expect(shiftDependents(tasks, [link('a', 'b', 'start_to_start')], 'a', day(3)))
+      .toEqual([move('a', 3, 6), move('b', 3, 4)]);
+  });
+
+  test('pushes transitively along a chain', () => {
+    const tasks = [task('a', 1, 1), task('b', 2, 2), task('c', 3, 4)];
+    expect(shiftDependents(tasks, [link('a', 'b'), link('b', 'c')], 'a', day(2)))
+      .toEqual([move('a', 2, 2), move('b', 3, 3), move('c', 4, 5)]);
+  });
+
+  test('a milestone finishes where it starts', () => {
+    const tasks = [task('m', 1, 1, true), task('b', 1, 2)];
+    expect(shiftDependents(tasks, [link('m', 'b')], 'm', day(4))).toEqual([move('m', 4, 4), move('b', 4, 5)]);
+  });
+
+  test('moving a task earlier leaves its dependents where they are', () => {
+    const tasks = [task('a', 3, 4), task('b', 5, 6)];
+    expect(shiftDependents(tasks, [link('a', 'b')], 'a', day(1))).toEqual([move('a', 1, 2)]);
+  });
+
+  test('returns nothing for an unknown task or an unchanged start', () => {
+    const tasks = [task('a', 1, 2)];
+    expect(shiftDependents(tasks, [], 'missing', day(5))).toEqual([]);
+    expect(shiftDependents(tasks, [], 'a', day(1))).toEqual([]);
+  });
+
+  test('does not modify the tasks it is given', () => {
+    const tasks = [task('a', 1, 2), task('b', 3, 4)];
+    shiftDependents(tasks, [link('a', 'b')], 'a', day(5));
+    expect(tasks).toEqual([task('a', 1, 2), task('b', 3, 4)]);
+  });
+});
+
+describe('criticalPath', () => {
+  test('is empty without tasks', () => {
+    expect(criticalPath([], [])).toEqual(new Set());
+  });
+
+  test('a chain to the project finish is critical; a task with float is not', () => {
+    const tasks = [task('a', 1, 2), task('b', 3, 4), task('c', 1, 1)];
+    expect(criticalPath(tasks, [link('a', 'b')])).toEqual(new Set(['a', 'b']));
+  });
+
+  test('slack between linked tasks takes the predecessor off the path', () => {
+    const tasks = [task('a', 1, 2), task('b', 5, 6)];
+    expect(criticalPath(tasks, [link('a', 'b')])).toEqual(new Set(['b']));
+  });
+
+  test('a start-to-start successor that finishes early has float', () => {
+    const tasks = [task('a', 1, 4), task('b', 1, 2)];
+    expect(criticalPath(tasks, [link('a', 'b', 'start_to_start')])).toEqual(new Set(['a']));
+  });
+
+  test('a closing milestone and the work before it are critical', () => {
+    const tasks = [task('a', 1, 2), task('m', 3, 3, true), task('c', 1, 1)];
+    expect(criticalPath(tasks, [link('a', 'm')])).toEqual(new Set(['a', 'm']));
+  });
+
+  test('pushing a side task past the finish moves the path onto it', () => {
+    const tasks = [task('a', 1, 2), task('b', 3, 4), task('c', 1, 1)];
+    const pushed = tasks.map((t) => (t.id === 'c' ? task('c', 6, 6) : t));
+    expect(criticalPath(pushed, [link('a', 'b')])).toEqual(new Set(['c']));
+  });
+});
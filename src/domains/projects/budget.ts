@@ -0,0 +1,161 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT BUDGET RULES - Pure Functions                                  │
+│  /src/domains/projects/budget.ts                                           │
+│                                                                            │
+│  Cost categories, cost/budget validation and the budget-vs-actual          │
+│  rollup. Shared by the Convex tracking functions and the project           │
+│  workspace. Amounts arrive already converted to one currency.              │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { isCurrencyCode } from '@/lib/currency';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type CostCategory = 'labor' | 'materials' | 'equipment' | 'services' | 'other';
+export type CostStatus = 'estimated' | 'approved' | 'spent';
+
+export interface CostInput {
+  name: string;
+  amount: number;
+  currency: string;
+}
+
+/** Per-category figures, all in the rollup currency */
+export interface CategoryVariance {
+  category: CostCategory;
+  budget: number;
+  estimated: number;
+  approved: number;
+  spent: number;
+  /** budget - spent (negative = over budget) */
+  variance: number;
+}
+
+export type BudgetAlertKind = 'spent_over_approved' | 'spent_over_budget';
+
+export interface BudgetAlert {
+  kind: BudgetAlertKind;
+  /** null = the project as a whole */
+  category: CostCategory | null;
+  spent: number;
+  limit: number;
+}
+
+export interface BudgetRollup {
+  categories: CategoryVariance[];
+  totals: Omit<CategoryVariance, 'category'>;
+  alerts: BudgetAlert[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const COST_CATEGORIES: { value: CostCategory; label: string }[] = [
+  { value: 'labor', label: 'Labour' },
+  { value: 'materials', label: 'Materials' },
+  { value: 'equipment', label: 'Equipment' },
+  { value: 'services', label: 'Services' },
+  { value: 'other', label: 'Other' },
+];
+
+export const COST_STATUSES: { value: CostStatus; label: string }[] = [
+  { value: 'estimated', label: 'Estimated' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'spent', label: 'Spent' },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First problem with a cost entry, or null when it can be saved */
+export function validateCost(cost: CostInput): string | null {
+  if (!cost.name.trim()) return 'Cost needs a name';
+  if (!Number.isFinite(cost.amount) || cost.amount < 0) return 'Amount must be zero or more';
+  if (!isCurrencyCode(cost.currency)) return `"${cost.currency}" is not a currency code`;
+  return null;
+}
+
+/** First problem with a budget line, or null when it can be saved */
+export function validateBudgetLine(line: { amount: number; currency: string }): string | null {
+  if (!Number.isFinite(line.amount) || line.amount < 0) return 'Budget must be zero or more';
+  if (!isCurrencyCode(line.currency)) return `"${line.currency}" is not a currency code`;
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROLLUP
+// ═══════════════════════════════════════════════════════════════════════════
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Budget vs actual per category, plus project totals and alerts.
+ * Categories with neither a budget nor costs are left out.
+ *
+ * Alerts fire when spent exceeds approved (money went out that nobody
+ * signed off) and when spent exceeds the budget line.
+ */
+export function rollupBudget(
+  budgets: { category: CostCategory; amount: number }[],
+  costs: { category: CostCategory; status: CostStatus; amount: number }[]
+): BudgetRollup {
+  const categories: CategoryVariance[] = [];
+  const alerts: BudgetAlert[] = [];
+
+  for (const { value: category } of COST_CATEGORIES) {
+    const lines = budgets.filter((line) => line.category === category);
+    const inCategory = costs.filter((cost) => cost.category === category);
+    if (lines.length === 0 && inCategory.length === 0) continue;
+
+    const sumStatus = (status: CostStatus) =>
+      round(inCategory.filter((cost) => cost.status === status).reduce((sum, cost) => sum + cost.amount, 0));
+    const budget = round(lines.reduce((sum, line) => sum + line.amount, 0));
+    const row: CategoryVariance = {
+      category,
+      budget,
+      estimated: sumStatus('estimated'),
+      approved: sumStatus('approved'),
+      spent: sumStatus('spent'),
+      variance: 0,
+    };
+    row.variance = round(row.budget - row.spent);
+    categories.push(row);
+
+    if (row.spent > row.approved) {
+      alerts.push({ kind: 'spent_over_approved', category, spent: row.spent, limit: row.approved });
+    }
+    if (lines.length > 0 && row.spent > row.budget) {
+      alerts.push({ kind: 'spent_over_budget', category, spent: row.spent, limit: row.budget });
+    }
+  }
+
+  const total = (key: 'budget' | 'estimated' | 'approved' | 'spent') =>
+    round(categories.reduce((sum, row) => sum + row[key], 0));
+  const totals = {
+    budget: total('budget'),
+    estimated: total('estimated'),
+    approved: total('approved'),
+    spent: total('spent'),
+    variance: 0,
+  };
+  totals.variance = round(totals.budget - totals.spent);
+
+  if (budgets.length > 0 && totals.spent > totals.budget) {
+    alerts.push({ kind: 'spent_over_budget', category: null, spent: totals.spent, limit: totals.budget });
+  }
+
+  return { categories, totals, alerts };
+}
+
+/** "Materials: spent £1,200.00 against £900.00 approved" */
+export function describeBudgetAlert(alert: BudgetAlert, format: (amount: number) => string): string {
+  const scope = alert.category
+    ? COST_CATEGORIES.find((c) => c.value === alert.category)?.label ?? alert.category
+    : 'Project';
+  const against = alert.kind === 'spent_over_approved' ? 'approved' : 'budgeted';
+  return `${scope}: spent ${format(alert.spent)} against ${format(alert.limit)} ${against}`;
+}
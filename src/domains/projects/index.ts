@@ -0,0 +1,53 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECTS DOMAIN - Export Hub                                           │
+│  /src/domains/projects/index.ts                                            │
+│                                                                            │
+│  Central export for provider-agnostic project rules.                       │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// Projects
+export { PROJECT_STATUSES, validateProject } from './projects';
+export type { ProjectStatus, ProjectInput } from './projects';
+
+// Budgets
+export {
+  COST_CATEGORIES,
+  COST_STATUSES,
+  validateCost,
+  validateBudgetLine,
+  rollupBudget,
+  describeBudgetAlert,
+} from './budget';
+export type {
+  CostCategory,
+  CostStatus,
+  CostInput,
+  CategoryVariance,
+  BudgetAlertKind,
+  BudgetAlert,
+  BudgetRollup,
+} from './budget';
+
+// Schedule (Gantt)
+export {
+  DAY_MS,
+  DEPENDENCY_TYPES,
+  validateTask,
+  validateDependency,
+  taskFinish,
+  dependencyStart,
+  shiftDependents,
+  criticalPath,
+  isDrivingDependency,
+} from './schedule';
+export type {
+  DependencyType,
+  TaskInput,
+  ScheduleTask,
+  ScheduleDependency,
+  TaskMove,
+} from './schedule';
+
+// Locations
+export { validateLocation } from './locations';
+export type { LocationInput } from './locations';
@@ -0,0 +1,42 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT LOCATION RULES - Pure Functions                                │
+│  /src/domains/projects/locations.ts                                        │
+│                                                                            │
+│  Validation for project sites. Shared by the Convex location functions     │
+│  and the location drawer. Geocoding itself lives in @/lib/geocoding.       │
+└────────────────────────────────────────────────────────────────────────────*/
+
+import { isValidCoordinates } from '@/lib/geocoding';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface LocationInput {
+  name: string;
+  address: string;
+  latitude?: number;
+  longitude?: number;
+  contactEmail?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First problem with a site, or null when it can be saved */
+export function validateLocation(location: LocationInput): string | null {
+  if (!location.name.trim()) return 'Site needs a name';
+  if (!location.address.trim()) return 'Site needs an address';
+
+  const hasLatitude = location.latitude !== undefined;
+  const hasLongitude = location.longitude !== undefined;
+  if (hasLatitude !== hasLongitude) return 'Enter both latitude and longitude, or neither';
+  if (hasLatitude && !isValidCoordinates(location.latitude as number, location.longitude as number)) {
+    return 'Coordinates are out of range';
+  }
+
+  const email = location.contactEmail?.trim();
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return `"${email}" is not an email address`;
+  return null;
+}
@@ -0,0 +1,42 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT RULES - Pure Functions                                         │
+│  /src/domains/projects/projects.ts                                         │
+│                                                                            │
+│  Project statuses and validation. Shared by the Convex project             │
+│  mutations and the project workspace. No database, no UI.                  │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ProjectStatus = 'active' | 'completed' | 'archived';
+
+export interface ProjectInput {
+  name: string;
+  startDate?: number;
+  endDate?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const PROJECT_STATUSES: { value: ProjectStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'archived', label: 'Archived' },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First problem with a project, or null when it can be saved */
+export function validateProject(project: ProjectInput): string | null {
+  if (!project.name.trim()) return 'Project needs a name';
+  if (project.startDate !== undefined && project.endDate !== undefined && project.endDate < project.startDate) {
+    return 'End date is before the start date';
+  }
+  return null;
+}
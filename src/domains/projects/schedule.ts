@@ -0,0 +1,231 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT SCHEDULE RULES - Pure Functions                                │
+│  /src/domains/projects/schedule.ts                                         │
+│                                                                            │
+│  Tasks, milestones and dependencies behind the project Gantt: task and     │
+│  link validation, rescheduling that pushes dependents, and the critical    │
+│  path. Shared by the Convex schedule functions and the Gantt chart.        │
+│                                                                            │
+│  Dates are UTC midnight. A task occupies startDate..endDate inclusive,     │
+│  so it finishes at the start of the day after endDate. A milestone is a    │
+│  point in time and finishes where it starts.                               │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type DependencyType = 'finish_to_start' | 'start_to_start';
+
+export interface TaskInput {
+  name: string;
+  startDate: number;
+  endDate: number;
+  isMilestone: boolean;
+}
+
+/** The scheduling view of a task - everything the rules need */
+export interface ScheduleTask {
+  id: string;
+  startDate: number;
+  endDate: number;
+  isMilestone: boolean;
+}
+
+export interface ScheduleDependency {
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+}
+
+/** A task that has to move, with its new dates */
+export interface TaskMove {
+  id: string;
+  startDate: number;
+  endDate: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEPENDENCY_TYPES: { value: DependencyType; label: string }[] = [
+  { value: 'finish_to_start', label: 'Finish → start' },
+  { value: 'start_to_start', label: 'Start → start' },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First problem with a task, or null when it can be saved */
+export function validateTask(task: TaskInput): string | null {
+  if (!task.name.trim()) return 'Task needs a name';
+  if (!Number.isFinite(task.startDate) || !Number.isFinite(task.endDate)) return 'Task needs a start and end date';
+  if (task.isMilestone && task.endDate !== task.startDate) return 'A milestone starts and ends on the same day';
+  if (task.endDate < task.startDate) return 'End date is before the start date';
+  return null;
+}
+
+/**
+ * First problem with a new link, or null when it can be added.
+ * Rejects self links, a second link between the same two tasks and
+ * anything that would close a loop.
+ */
+export function validateDependency(
+  dependencies: ScheduleDependency[],
+  link: Pick<ScheduleDependency, 'predecessorId' | 'successorId'>
+): string | null {
+  if (link.predecessorId === link.successorId) return 'A task cannot depend on itself';
+
+  const linked = dependencies.some((dep) =>
+    (dep.predecessorId === link.predecessorId && dep.successorId === link.successorId) ||
+    (dep.predecessorId === link.successorId && dep.successorId === link.predecessorId)
+  );
+  if (linked) return 'These tasks are already linked';
+
+  // A loop exists if the predecessor is already downstream of the successor
+  const seen = new Set<string>();
+  const stack = [link.successorId];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === link.predecessorId) return 'This link would create a loop';
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const dep of dependencies) {
+      if (dep.predecessorId === id) stack.push(dep.successorId);
+    }
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEDULING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** When the task is done (start of the day after endDate; milestones: startDate) */
+export function taskFinish(task: Pick<ScheduleTask, 'startDate' | 'endDate' | 'isMilestone'>): number {
+  return task.isMilestone ? task.startDate : task.endDate + DAY_MS;
+}
+
+/** Earliest start a link allows its successor */
+export function dependencyStart(predecessor: ScheduleTask, type: DependencyType): number {
+  return type === 'finish_to_start' ? taskFinish(predecessor) : predecessor.startDate;
+}
+
+/**
+ * Move a task to a new start (keeping its duration) and push every
+ * dependent that would now start too early, transitively.
+ *
+ * Dependents only move later, and only as far as their links require -
+ * slack they already had is used up first. Moving a task earlier leaves
+ * its dependents where they are.
+ *
+ * Returns every task that changes, the moved task included.
+ */
+export function shiftDependents(
+  tasks: ScheduleTask[],
+  dependencies: ScheduleDependency[],
+  movedId: string,
+  newStart: number
+): TaskMove[] {
+  const byId = new Map(tasks.map((task) => [task.id, { ...task }]));
+  const moved = byId.get(movedId);
+  if (!moved) return [];
+
+  const changed = new Set<string>();
+  const moveTo = (task: ScheduleTask, startDate: number) => {
+    task.endDate += startDate - task.startDate;
+    task.startDate = startDate;
+    changed.add(task.id);
+  };
+
+  if (newStart !== moved.startDate) moveTo(moved, newStart);
+
+  // Links form a DAG (validateDependency), so this settles
+  const queue = [movedId];
+  while (queue.length > 0) {
+    const predecessor = byId.get(queue.shift() as string);
+    if (!predecessor) continue;
+    for (const dep of dependencies) {
+      if (dep.predecessorId !== predecessor.id) continue;
+      const successor = byId.get(dep.successorId);
+      if (!successor) continue;
+      const earliest = dependencyStart(predecessor, dep.type);
+      if (successor.startDate < earliest) {
+        moveTo(successor, earliest);
+        queue.push(successor.id);
+      }
+    }
+  }
+
+  return [...changed].map((id) => {
+    const task = byId.get(id) as ScheduleTask;
+    return { id, startDate: task.startDate, endDate: task.endDate };
+  });
+}
+
+/** Tasks ordered so every predecessor comes before its successors */
+function topologicalOrder(tasks: ScheduleTask[], dependencies: ScheduleDependency[]): ScheduleTask[] {
+  const incoming = new Map(tasks.map((task) => [task.id, 0]));
+  for (const dep of dependencies) {
+    if (incoming.has(dep.successorId) && incoming.has(dep.predecessorId)) {
+      incoming.set(dep.successorId, (incoming.get(dep.successorId) ?? 0) + 1);
+    }
+  }
+
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const ready = tasks.filter((task) => incoming.get(task.id) === 0);
+  const ordered: ScheduleTask[] = [];
+  while (ready.length > 0) {
+    const task = ready.shift() as ScheduleTask;
+    ordered.push(task);
+    for (const dep of dependencies) {
+      if (dep.predecessorId !== task.id || !byId.has(dep.successorId)) continue;
+      const left = (incoming.get(dep.successorId) ?? 0) - 1;
+      incoming.set(dep.successorId, left);
+      if (left === 0) ready.push(byId.get(dep.successorId) as ScheduleTask);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Ids of the tasks on the critical path - the ones that cannot slip a day
+ * without moving the project finish.
+ *
+ * Backward pass over the tasks as currently scheduled: each task's latest
+ * start is bounded by the project finish and by what its successors'
+ * latest starts allow. Zero (or negative) float means critical.
+ */
+export function criticalPath(tasks: ScheduleTask[], dependencies: ScheduleDependency[]): Set<string> {
+  const critical = new Set<string>();
+  if (tasks.length === 0) return critical;
+
+  const projectFinish = Math.max(...tasks.map(taskFinish));
+  const duration = (task: ScheduleTask) => taskFinish(task) - task.startDate;
+  const latestStart = new Map<string, number>();
+
+  for (const task of topologicalOrder(tasks, dependencies).reverse()) {
+    let latestFinish = projectFinish;
+    for (const dep of dependencies) {
+      if (dep.predecessorId !== task.id) continue;
+      const successorStart = latestStart.get(dep.successorId);
+      if (successorStart === undefined) continue;
+      const bound = dep.type === 'finish_to_start' ? successorStart : successorStart + duration(task);
+      latestFinish = Math.min(latestFinish, bound);
+    }
+    const start = latestFinish - duration(task);
+    latestStart.set(task.id, start);
+    if (start <= task.startDate) critical.add(task.id);
+  }
+
+  return critical;
+}
+
+/** A link is driving when its successor starts exactly when the link allows */
+export function isDrivingDependency(predecessor: ScheduleTask, successor: ScheduleTask, type: DependencyType): boolean {
+  return successor.startDate === dependencyStart(predecessor, type);
+}
@@ -0,0 +1,21 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  ✅ TASKS DOMAIN - Export Hub                                              │
+│  /src/domains/tasks/index.ts                                               │
+│                                                                            │
+│  Central export for provider-agnostic task rules.                          │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// Tasks
+export {
+  TASK_STATUSES,
+  TASK_PRIORITIES,
+  TASK_TITLE_MAX,
+  validateTaskItem,
+  startOfUtcDay,
+  isOverdue,
+} from './tasks';
+export type {
+  TaskStatus,
+  TaskPriority,
+  TaskItemInput,
+} from './tasks';
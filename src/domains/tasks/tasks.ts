@@ -0,0 +1,70 @@
+/**──────────────────────────────────────────────────────────────────────────┐
+│  ✅ TASK RULES - Pure Functions                                            │
+│  /src/domains/tasks/tasks.ts                                               │
+│                                                                            │
+│  Task statuses, priorities and validation. Shared by the Convex task       │
+│  functions and the Tasks board. Email promotion drafts live in             │
+│  @/domains/email (promotion.ts).                                           │
+│                                                                            │
+│  Due dates are UTC midnight of the due day.                                │
+└────────────────────────────────────────────────────────────────────────────*/
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type TaskStatus = 'todo' | 'in_progress' | 'done';
+
+/** Same scale as the email AI classification, so a promoted task keeps it */
+export type TaskPriority = 'urgent' | 'high' | 'normal' | 'low';
+
+export interface TaskItemInput {
+  title: string;
+  dueDate?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const TASK_STATUSES: { value: TaskStatus; label: string }[] = [
+  { value: 'todo', label: 'To do' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'done', label: 'Done' },
+];
+
+export const TASK_PRIORITIES: { value: TaskPriority; label: string }[] = [
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'high', label: 'High' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'low', label: 'Low' },
+];
+
+export const TASK_TITLE_MAX = 200;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First problem with a task, or null when it can be saved */
+export function validateTaskItem(task: TaskItemInput): string | null {
+  if (!task.title.trim()) return 'Task needs a title';
+  if (task.title.trim().length > TASK_TITLE_MAX) return `Title must be ${TASK_TITLE_MAX} characters or fewer`;
+  if (task.dueDate !== undefined && !Number.isFinite(task.dueDate)) return 'Due date is not a valid date';
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DUE DATES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** UTC midnight of the day containing `time` */
+export function startOfUtcDay(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/** Open task whose due day has passed */
+export function isOverdue(task: { status: TaskStatus; dueDate?: number }, now: number): boolean {
+  return task.status !== 'done' && task.dueDate !== undefined && task.dueDate < startOfUtcDay(now);
+}
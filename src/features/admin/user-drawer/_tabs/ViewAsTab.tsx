@@ -0,0 +1,128 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🕶️ VIEW AS TAB                                                        │
+│  /src/features/admin/user-drawer/_tabs/ViewAsTab.tsx                  │
+│                                                                       │
+│  Admiral impersonation of this user:                                  │
+│  - Start a "view as" session (optional reason, audited)               │
+│  - Sessions held on this user (who, when, how it ended)               │
+│  - Self and other admirals cannot be impersonated                     │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import '../user-drawer.css';
+import { useState } from 'react';
+import { Button, Card, Input, Label, Stack, T } from '@/vr';
+import { useFuse } from '@/store/fuse';
+import { useAdminData } from '@/hooks/useAdminData';
+import { startImpersonationAction } from '@/app/actions/user-mutations';
+
+interface ViewAsTabProps {
+  userId: string;
+}
+
+const END_LABELS: Record<string, string> = {
+  stopped: 'Stopped',
+  replaced: 'Replaced',
+  expired: 'Expired',
+};
+
+// Format date helper
+function formatDate(timestamp: number | undefined): string {
+  if (!timestamp) return '—';
+  return new Date(timestamp).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function ViewAsTab({ userId }: ViewAsTabProps) {
+  const currentUserId = useFuse((s) => s.user?.id);
+  const { data } = useAdminData();
+  const user = data.users?.find(u => String(u._id) === userId);
+
+  const [reason, setReason] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return <T.body>User not found</T.body>;
+
+  const isSelf = String(currentUserId) === userId;
+  const isAdmiral = user.rank === 'admiral';
+  const sessions = (data.impersonationLogs ?? []).filter(s => String(s.targetUserId) === userId);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    const result = await startImpersonationAction(userId, reason.trim() || undefined);
+    if (!result.success) {
+      setError(result.error ?? 'Could not start impersonation');
+      setIsStarting(false);
+      return;
+    }
+    // Full navigation so the shell re-hydrates as the target user
+    window.location.href = '/';
+  };
+
+  return (
+    <Stack>
+      <Card.standard
+        title="View as this user"
+        subtitle="See FUSE exactly as they do. Deletes and voids are blocked, and the session is logged."
+      >
+        <Stack>
+          <Input.text
+            value={reason}
+            onChange={setReason}
+            placeholder="Reason (e.g. support ticket #123)"
+            disabled={isSelf || isAdmiral}
+          />
+          <div className="ft-viewastab-actions">
+            <Button.primary onClick={handleStart} disabled={isStarting || isSelf || isAdmiral}>
+              {isStarting ? 'Starting...' : 'View as this user'}
+            </Button.primary>
+            {isSelf && <T.caption color="secondary">You cannot view as yourself</T.caption>}
+            {!isSelf && isAdmiral && <T.caption color="secondary">Admirals cannot be impersonated</T.caption>}
+          </div>
+          {error && <Label.error message={error} />}
+        </Stack>
+      </Card.standard>
+
+      <Card.standard
+        title="Impersonation History"
+        subtitle="Every session held on this account"
+      >
+        {sessions.length === 0 ? (
+          <T.caption color="secondary">No one has viewed as this user.</T.caption>
+        ) : (
+          <div className="ft-viewastab-sessions">
+            {sessions.map((session) => {
+              const endReason = session.endReason as string | undefined;
+              return (
+                <div key={String(session._id)} className="ft-viewastab-session">
+                  <div className="ft-viewastab-session__identity">
+                    <T.body size="sm" weight="semibold">{String(session.actorName)}</T.body>
+                    {typeof session.reason === 'string' && session.reason && (
+                      <T.caption color="secondary">{session.reason}</T.caption>
+                    )}
+                  </div>
+                  <div className="ft-viewastab-session__times">
+                    <T.caption>{formatDate(session.startedAt as number)}</T.caption>
+                    <T.caption color="secondary">
+                      {endReason
+                        ? `${END_LABELS[endReason] ?? endReason} · ${formatDate(session.endedAt as number | undefined)}`
+                        : 'Active'}
+                    </T.caption>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card.standard>
+    </Stack>
+  );
+}
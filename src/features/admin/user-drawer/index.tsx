@@ -16,6 +16,7 @@ import { useAdminData } from '@/hooks/useAdminData';
 import { ProfileTab } from './_tabs/ProfileTab';
 import { EmailTab } from './_tabs/EmailTab';
 import { ActivityTab } from './_tabs/ActivityTab';
+import { ViewAsTab } from './_tabs/ViewAsTab';
 import './user-drawer.css';
 
 interface UserDetailsFeatureProps {
@@ -41,6 +42,7 @@ export function UserDetailsFeature({ userId }: UserDetailsFeatureProps) {
         { id: 'profile', label: 'Profile', content: <ProfileTab userId={userId} isActive={activeTab === 'profile'} /> },
         { id: 'email', label: 'Email', content: <EmailTab userId={userId} /> },
         { id: 'activity', label: 'Activity', content: <ActivityTab userId={userId} /> },
+        { id: 'view-as', label: 'View as', content: <ViewAsTab userId={userId} /> },
       ]}
     />
   );
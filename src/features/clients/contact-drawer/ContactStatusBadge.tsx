@@ -0,0 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏷️ CONTACT STATUS BADGE                                              │
+│  /src/features/clients/contact-drawer/ContactStatusBadge.tsx          │
+│                                                                       │
+│  Maps contact lifecycle status to Badge.status.                       │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { Badge } from '@/vr';
+import type { StatusVariant } from '@/vr/badge';
+import type { ContactStatus } from '@/domains/clients';
+
+const STATUS_BADGES: Record<ContactStatus, { variant: StatusVariant; label: string }> = {
+  lead: { variant: 'info', label: 'Lead' },
+  prospect: { variant: 'pending', label: 'Prospect' },
+  active: { variant: 'success', label: 'Active' },
+  inactive: { variant: 'inactive', label: 'Inactive' },
+  archived: { variant: 'disabled', label: 'Archived' },
+};
+
+interface ContactStatusBadgeProps {
+  status: ContactStatus;
+}
+
+export function ContactStatusBadge({ status }: ContactStatusBadgeProps) {
+  const badge = STATUS_BADGES[status];
+  return <Badge.status variant={badge.variant}>{badge.label}</Badge.status>;
+}
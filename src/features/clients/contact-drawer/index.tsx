@@ -0,0 +1,273 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  👤 CONTACT DRAWER FEATURE                                            │
+│  /src/features/clients/contact-drawer/index.tsx                       │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (contact + members read) + Convex mutations (writes)    │
+│  - New contact: plain form, created in one go                         │
+│  - Existing contact: Field.live auto-saves each field                 │
+│  - Status and assignee selects save on change                         │
+│  - Emails tab: threads linked to the contact from Email               │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './contact-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { ClientMember } from '@/store/types';
+import { Button, Field, Input, Label, Stack, T, Tabs } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import {
+  CONTACT_STATUSES,
+  DEFAULT_CONTACT_STATUS,
+  contactDisplayName,
+  validateContact,
+  type ContactStatus,
+} from '@/domains/clients';
+import { LinkedEmailsFeature } from '@/features/productivity/linked-emails';
+import { ContactStatusBadge } from './ContactStatusBadge';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL (create only - existing contacts save field by field)
+// ─────────────────────────────────────────────────────────────────────
+interface ContactForm {
+  firstName: string;
+  lastName: string;
+  email: string;
+  company: string;
+  jobTitle: string;
+  phoneNumber: string;
+  status: ContactStatus;
+  assignedTo: string;
+  notes: string;
+}
+
+const EMPTY_FORM: ContactForm = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  company: '',
+  jobTitle: '',
+  phoneNumber: '',
+  status: DEFAULT_CONTACT_STATUS,
+  assignedTo: '',
+  notes: '',
+};
+
+type ContactTab = 'details' | 'emails';
+
+const CONTACT_TABS: { id: ContactTab; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'emails', label: 'Emails' },
+];
+
+type EditableField = 'firstName' | 'lastName' | 'email' | 'company' | 'jobTitle' | 'phoneNumber' | 'notes';
+
+function memberOptions(members: ClientMember[]) {
+  return [
+    { value: '', label: 'Unassigned' },
+    ...members.map((member) => ({
+      value: member._id,
+      label: `${member.firstName} ${member.lastName}`.trim() || member.email,
+    })),
+  ];
+}
+
+interface ContactDrawerFeatureProps {
+  contactId?: string;
+}
+
+export function ContactDrawerFeature({ contactId }: ContactDrawerFeatureProps) {
+  const { data } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createClient = useMutation(api.domains.clients.api.createClient);
+  const updateClient = useMutation(api.domains.clients.api.updateClient);
+
+  const contact = contactId ? data.contacts.find((c) => c._id === contactId) : undefined;
+  const canEdit = user?.rank !== 'crew';
+  const assigneeOptions = memberOptions(data.members);
+
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+  const [tab, setTab] = useState<ContactTab>('details');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof ContactForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleCreate = async () => {
+    if (!user?.id) return;
+    const contactError = validateContact(form);
+    if (contactError) {
+      setError(contactError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createClient({
+        callerUserId: user.id as Id<'admin_users'>,
+        firstName: form.firstName,
+        lastName: form.lastName,
+        email: form.email,
+        company: form.company || undefined,
+        jobTitle: form.jobTitle || undefined,
+        phoneNumber: form.phoneNumber || undefined,
+        status: form.status,
+        assignedTo: form.assignedTo ? form.assignedTo as Id<'admin_users'> : undefined,
+        notes: form.notes || undefined,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // CREATE
+  // ─────────────────────────────────────────────────────────────────────
+  if (!contactId) {
+    return (
+      <Stack className="ft-contact-drawer">
+        <div className="ft-contact-drawer__grid">
+          <label className="ft-contact-drawer__field">
+            <T.caption>First name</T.caption>
+            <Input.text value={form.firstName} onChange={setField('firstName')} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Last name</T.caption>
+            <Input.text value={form.lastName} onChange={setField('lastName')} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Email</T.caption>
+            <Input.text type="email" value={form.email} onChange={setField('email')} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Phone</T.caption>
+            <Input.text type="tel" value={form.phoneNumber} onChange={setField('phoneNumber')} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Company</T.caption>
+            <Input.text value={form.company} onChange={setField('company')} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Job title</T.caption>
+            <Input.text value={form.jobTitle} onChange={setField('jobTitle')} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Status</T.caption>
+            <Input.select value={form.status} onChange={setField('status')} options={CONTACT_STATUSES} />
+          </label>
+          <label className="ft-contact-drawer__field">
+            <T.caption>Assigned to</T.caption>
+            <Input.select value={form.assignedTo} onChange={setField('assignedTo')} options={assigneeOptions} />
+          </label>
+        </div>
+        <label className="ft-contact-drawer__field">
+          <T.caption>Notes</T.caption>
+          <Input.textarea value={form.notes} onChange={setField('notes')} />
+        </label>
+
+        {error && <Label.error message={error} />}
+
+        <div className="ft-contact-drawer__actions">
+          <Button.primary onClick={handleCreate} disabled={isSaving || !canEdit}>
+            {isSaving ? 'Creating...' : 'Create contact'}
+          </Button.primary>
+        </div>
+      </Stack>
+    );
+  }
+
+  if (!contact) {
+    return <T.body color="secondary">Contact not found</T.body>;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // EDIT (each change saves on its own)
+  // ─────────────────────────────────────────────────────────────────────
+  const save = async (updates: Partial<Record<EditableField, string>> & { status?: ContactStatus; assignedTo?: string | null }) => {
+    if (!user?.id) return;
+    const { assignedTo, ...rest } = updates;
+    await updateClient({
+      callerUserId: user.id as Id<'admin_users'>,
+      clientId: contact._id as Id<'clients_contacts_Users'>,
+      ...rest,
+      ...(assignedTo !== undefined && { assignedTo: assignedTo as Id<'admin_users'> | null }),
+    });
+  };
+
+  const saveField = (field: EditableField) => (value: string) => save({ [field]: value.trim() });
+
+  const handleSelect = async (updates: { status?: ContactStatus; assignedTo?: string | null }) => {
+    setError(null);
+    try {
+      await save(updates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <Stack className="ft-contact-drawer">
+      <div className="ft-contact-drawer__status">
+        <ContactStatusBadge status={contact.status} />
+        <T.caption color="secondary">{contactDisplayName(contact)}</T.caption>
+      </div>
+
+      <Tabs.simple tabs={CONTACT_TABS} activeTab={tab} onTabChange={(id) => setTab(id as ContactTab)} />
+
+      {tab === 'emails' ? (
+        <LinkedEmailsFeature targetType="contact" targetId={contact._id} />
+      ) : (
+        <Stack.lg>
+          <Stack.row.equal>
+            <Field.live label="First name" value={contact.firstName} onSave={saveField('firstName')} placeholder="Not set" disabled={!canEdit} />
+            <Field.live label="Last name" value={contact.lastName} onSave={saveField('lastName')} placeholder="Not set" disabled={!canEdit} />
+          </Stack.row.equal>
+          <Stack.row.equal>
+            <Field.live label="Email" type="email" value={contact.email} onSave={saveField('email')} disabled={!canEdit} />
+            <Field.live label="Phone" type="tel" value={contact.phoneNumber ?? ''} onSave={saveField('phoneNumber')} placeholder="Not set" disabled={!canEdit} />
+          </Stack.row.equal>
+          <Stack.row.equal>
+            <Field.live label="Company" value={contact.company ?? ''} onSave={saveField('company')} placeholder="Not set" disabled={!canEdit} />
+            <Field.live label="Job title" value={contact.jobTitle ?? ''} onSave={saveField('jobTitle')} placeholder="Not set" disabled={!canEdit} />
+          </Stack.row.equal>
+          <div className="ft-contact-drawer__grid">
+            <label className="ft-contact-drawer__field">
+              <T.caption>Status</T.caption>
+              <Input.select
+                value={contact.status}
+                onChange={(value) => handleSelect({ status: value as ContactStatus })}
+                options={CONTACT_STATUSES}
+                disabled={!canEdit}
+              />
+            </label>
+            <label className="ft-contact-drawer__field">
+              <T.caption>Assigned to</T.caption>
+              <Input.select
+                value={contact.assignedTo ?? ''}
+                onChange={(value) => handleSelect({ assignedTo: value || null })}
+                options={assigneeOptions}
+                disabled={!canEdit}
+              />
+            </label>
+          </div>
+          <Field.live label="Notes" value={contact.notes ?? ''} onSave={saveField('notes')} placeholder="No notes" multiline disabled={!canEdit} />
+        </Stack.lg>
+      )}
+
+      {error && <Label.error message={error} />}
+    </Stack>
+  );
+}
@@ -0,0 +1,62 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🔀 DUPLICATE MERGE                                                   │
+│  /src/features/clients/contact-import/DuplicateMerge.tsx              │
+│                                                                       │
+│  One imported contact that matches an existing email: merge or skip,  │
+│  and pick the winning value for each field the file disagrees on.     │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { Input, T } from '@/vr';
+import type { ClientContact } from '@/store/types';
+import {
+  MERGE_FIELDS,
+  contactDisplayName,
+  type ContactDraft,
+  type MergeChoices,
+  type MergeField,
+  type MergeWinner,
+} from '@/domains/clients';
+
+interface DuplicateMergeProps {
+  existing: ClientContact;
+  incoming: ContactDraft;
+  conflicts: MergeField[];
+  choices: MergeChoices;
+  merge: boolean;
+  onChoose: (field: MergeField, winner: MergeWinner) => void;
+  onToggleMerge: (merge: boolean) => void;
+}
+
+export function DuplicateMerge({ existing, incoming, conflicts, choices, merge, onChoose, onToggleMerge }: DuplicateMergeProps) {
+  return (
+    <div className="ft-contact-import__duplicate">
+      <div className="ft-contact-import__duplicate-header">
+        <T.body size="sm">{`${contactDisplayName(existing)} · ${existing.email}`}</T.body>
+        <Input.select
+          value={merge ? 'merge' : 'skip'}
+          onChange={(value) => onToggleMerge(value === 'merge')}
+          options={[
+            { value: 'merge', label: 'Merge' },
+            { value: 'skip', label: 'Skip' },
+          ]}
+        />
+      </div>
+
+      {merge && conflicts.map((field) => (
+        <label key={field} className="ft-contact-import__merge-field">
+          <T.caption>{MERGE_FIELDS.find((option) => option.value === field)?.label}</T.caption>
+          <Input.select
+            value={choices[field] ?? 'existing'}
+            onChange={(value) => onChoose(field, value as MergeWinner)}
+            options={[
+              { value: 'existing', label: `Keep: ${existing[field] || '(empty)'}` },
+              { value: 'incoming', label: `Use file: ${incoming[field] ?? ''}` },
+            ]}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
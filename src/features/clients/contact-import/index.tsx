@@ -0,0 +1,368 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📇 CONTACT IMPORT FEATURE                                            │
+│  /src/features/clients/contact-import/index.tsx                       │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Reads a CSV or vCard (3.0 / 4.0) file in the browser               │
+│  - CSV: column mapping guessed from headers, user-correctable         │
+│  - Preview flags emails already in the org and repeats in the file    │
+│  - Duplicates merge per field (or skip); commits via importContacts   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './contact-import.css';
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { ClientContact } from '@/store/types';
+import { readCsv, type CsvTable } from '@/lib/csv';
+import { Badge, Button, Input, Label, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import {
+  CONTACT_IMPORT_BATCH_SIZE,
+  CONTACT_IMPORT_FIELDS,
+  CONTACT_STATUSES,
+  DEFAULT_CONTACT_STATUS,
+  conflictingFields,
+  contactDisplayName,
+  defaultMergeChoices,
+  guessContactMapping,
+  mergePatch,
+  parseContactCsv,
+  parseVCards,
+  type ContactColumnMapping,
+  type ContactDraft,
+  type ContactImportField,
+  type ContactParseResult,
+  type ContactStatus,
+  type MergeChoices,
+  type MergeField,
+} from '@/domains/clients';
+import { DuplicateMerge } from './DuplicateMerge';
+
+type ContactFileFormat = 'csv' | 'vcard';
+
+const FORMAT_LABELS: Record<ContactFileFormat, string> = {
+  csv: 'CSV',
+  vcard: 'vCard',
+};
+
+type RowState = 'new' | 'duplicate' | 'repeated';
+
+const ROW_BADGES: Record<RowState, { variant: 'success' | 'warning' | 'inactive'; label: string }> = {
+  new: { variant: 'success', label: 'New' },
+  duplicate: { variant: 'warning', label: 'Duplicate' },
+  repeated: { variant: 'inactive', label: 'Repeated in file' },
+};
+
+type PreviewRow = {
+  id: string;
+  name: string;
+  email: string;
+  company: string;
+  state: RowState;
+};
+
+interface Duplicate {
+  existing: ClientContact;
+  incoming: ContactDraft;
+  conflicts: MergeField[];
+}
+
+interface MergeDecision {
+  merge: boolean;
+  choices: MergeChoices;
+}
+
+interface ImportSummary {
+  inserted: number;
+  merged: number;
+  skipped: number;
+}
+
+interface LoadedFile {
+  name: string;
+  format: ContactFileFormat;
+  content: string;
+}
+
+function detectContactFormat(fileName: string, content: string): ContactFileFormat {
+  if (/\.(vcf|vcard)$/i.test(fileName)) return 'vcard';
+  return /^\s*BEGIN:VCARD/i.test(content.replace(/^﻿/, '')) ? 'vcard' : 'csv';
+}
+
+export function ContactImportFeature() {
+  const { data, computed } = useClientData();
+  const user = useFuse((state) => state.user);
+  const importContacts = useMutation(api.domains.clients.api.importContacts);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ContactColumnMapping>({});
+  const [status, setStatus] = useState<ContactStatus>(DEFAULT_CONTACT_STATUS);
+  const [decisions, setDecisions] = useState<Record<string, MergeDecision>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Imports land in the caller's org - admirals see every org, so narrow to theirs
+  const { orgId } = computed;
+  const orgContacts = useMemo(
+    () => orgId === undefined ? data.contacts : data.contacts.filter((contact) => contact.orgId === orgId),
+    [data.contacts, orgId]
+  );
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    const content = await selected.text();
+    const format = detectContactFormat(selected.name, content);
+    setFile({ name: selected.name, format, content });
+    setDecisions({});
+    setSummary(null);
+    setError(null);
+
+    if (format === 'csv') {
+      const table = readCsv(content);
+      setCsvTable(table);
+      setMapping(guessContactMapping(table.headers));
+    } else {
+      setCsvTable(null);
+      setMapping({});
+    }
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // PARSE + CLASSIFY (re-runs whenever the mapping changes)
+  // ─────────────────────────────────────────────────────────────────────
+  const parsed = useMemo((): ContactParseResult | null => {
+    if (!file) return null;
+    if (file.format === 'vcard') return parseVCards(file.content);
+    return csvTable ? parseContactCsv(csvTable, mapping) : null;
+  }, [file, csvTable, mapping]);
+
+  const { preview, newContacts, duplicates } = useMemo(() => {
+    const byEmail = new Map(orgContacts.map((contact) => [contact.email, contact]));
+    const seen = new Set<string>();
+    const rows: PreviewRow[] = [];
+    const fresh: ContactDraft[] = [];
+    const matched: Duplicate[] = [];
+
+    (parsed?.contacts ?? []).forEach((incoming, index) => {
+      const existing = byEmail.get(incoming.email);
+      const state: RowState = seen.has(incoming.email) ? 'repeated' : existing ? 'duplicate' : 'new';
+      seen.add(incoming.email);
+
+      if (state === 'new') fresh.push(incoming);
+      if (state === 'duplicate' && existing) {
+        matched.push({ existing, incoming, conflicts: conflictingFields(existing, incoming) });
+      }
+      rows.push({
+        id: `${index}`,
+        name: contactDisplayName(incoming),
+        email: incoming.email,
+        company: incoming.company ?? '',
+        state,
+      });
+    });
+
+    return { preview: rows, newContacts: fresh, duplicates: matched };
+  }, [parsed, orgContacts]);
+
+  const decisionFor = (duplicate: Duplicate): MergeDecision =>
+    decisions[duplicate.incoming.email] ?? {
+      merge: true,
+      choices: defaultMergeChoices(duplicate.existing, duplicate.incoming),
+    };
+
+  const updateDecision = (duplicate: Duplicate, update: Partial<MergeDecision>) => {
+    setDecisions((current) => ({
+      ...current,
+      [duplicate.incoming.email]: { ...decisionFor(duplicate), ...update },
+    }));
+  };
+
+  const merges = duplicates
+    .map((duplicate) => {
+      const decision = decisionFor(duplicate);
+      return decision.merge
+        ? { clientId: duplicate.existing._id, ...mergePatch(duplicate.incoming, decision.choices) }
+        : null;
+    })
+    .filter((merge): merge is NonNullable<typeof merge> => merge !== null && Object.keys(merge).length > 1);
+
+  const conflicted = duplicates.filter((duplicate) => duplicate.conflicts.length > 0);
+  const pendingCount = newContacts.length + merges.length;
+
+  const handleImport = async () => {
+    if (!file || !user?.id || pendingCount === 0) return;
+    setIsImporting(true);
+    setError(null);
+    setProgress(0);
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const totals: ImportSummary = { inserted: 0, merged: 0, skipped: 0 };
+    const record = (result: ImportSummary, count: number) => {
+      totals.inserted += result.inserted;
+      totals.merged += result.merged;
+      totals.skipped += result.skipped;
+      setProgress((current) => current + count);
+    };
+
+    try {
+      for (let start = 0; start < newContacts.length; start += CONTACT_IMPORT_BATCH_SIZE) {
+        const batch = newContacts.slice(start, start + CONTACT_IMPORT_BATCH_SIZE);
+        record(await importContacts({ callerUserId, status, rows: batch, merges: [] }), batch.length);
+      }
+      for (let start = 0; start < merges.length; start += CONTACT_IMPORT_BATCH_SIZE) {
+        const batch = merges.slice(start, start + CONTACT_IMPORT_BATCH_SIZE).map((merge) => ({
+          ...merge,
+          clientId: merge.clientId as Id<'clients_contacts_Users'>,
+        }));
+        record(await importContacts({ callerUserId, rows: [], merges: batch }), batch.length);
+      }
+      setSummary(totals);
+      setFile(null);
+      setCsvTable(null);
+      setMapping({});
+      setDecisions({});
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setSummary(totals.inserted + totals.merged > 0 ? totals : null);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnOptions = [
+    { value: '', label: '—' },
+    ...(csvTable?.headers ?? []).map((header, index) => ({
+      value: String(index),
+      label: header || `Column ${index + 1}`,
+    })),
+  ];
+
+  const setColumn = (field: ContactImportField) => (value: string) => {
+    setMapping((current) => ({ ...current, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const columns: SortableColumn<PreviewRow>[] = [
+    { key: 'name', header: 'Name', sortable: true, width: '30%' },
+    { key: 'email', header: 'Email', sortable: true, width: '30%' },
+    { key: 'company', header: 'Company', sortable: true, width: '22%' },
+    { key: 'state', header: 'Status', sortable: true, width: '18%', render: (_value, row) => (
+      <Badge.status variant={ROW_BADGES[row.state].variant}>{ROW_BADGES[row.state].label}</Badge.status>
+    ) },
+  ];
+
+  return (
+    <Stack className="ft-contact-import">
+      <div className="ft-contact-import__grid">
+        <label className="ft-contact-import__field">
+          <T.caption>Contacts file</T.caption>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.vcf,.vcard"
+            className="vr-input-text"
+            onChange={handleFile}
+            disabled={isImporting}
+          />
+        </label>
+        <label className="ft-contact-import__field">
+          <T.caption>Import new contacts as</T.caption>
+          <Input.select
+            value={status}
+            onChange={(value) => setStatus(value as ContactStatus)}
+            options={CONTACT_STATUSES}
+            disabled={isImporting}
+          />
+        </label>
+      </div>
+
+      {file && (
+        <T.caption color="secondary">{`${file.name} · ${FORMAT_LABELS[file.format]}`}</T.caption>
+      )}
+
+      {csvTable && (
+        <div className="ft-contact-import__grid">
+          {CONTACT_IMPORT_FIELDS.map((field) => (
+            <label key={field.value} className="ft-contact-import__field">
+              <T.caption>{`${field.label} column`}</T.caption>
+              <Input.select
+                value={mapping[field.value] === undefined ? '' : String(mapping[field.value])}
+                onChange={setColumn(field.value)}
+                options={columnOptions}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {parsed && parsed.errors.length > 0 && (
+        <ul className="ft-contact-import__errors">
+          {parsed.errors.slice(0, 10).map((message) => (
+            <li key={message}><T.caption color="muted">{message}</T.caption></li>
+          ))}
+          {parsed.errors.length > 10 && (
+            <li><T.caption color="muted">{`…and ${parsed.errors.length - 10} more`}</T.caption></li>
+          )}
+        </ul>
+      )}
+
+      {preview.length > 0 && (
+        <>
+          <T.body size="sm" color="secondary">
+            {`${preview.length} contacts · ${newContacts.length} new · ${duplicates.length} already on file`}
+          </T.body>
+          <Table.sortable columns={columns} data={preview} defaultSortKey="name" defaultSortDirection="asc" striped bordered />
+        </>
+      )}
+
+      {conflicted.length > 0 && (
+        <Stack className="ft-contact-import__merges">
+          <T.h4>Merge duplicates</T.h4>
+          <T.caption color="secondary">Pick which value wins for each field that differs. Email, status and assignment are kept.</T.caption>
+          {conflicted.map((duplicate) => {
+            const decision = decisionFor(duplicate);
+            return (
+              <DuplicateMerge
+                key={duplicate.incoming.email}
+                existing={duplicate.existing}
+                incoming={duplicate.incoming}
+                conflicts={duplicate.conflicts}
+                choices={decision.choices}
+                merge={decision.merge}
+                onToggleMerge={(merge) => updateDecision(duplicate, { merge })}
+                onChoose={(field, winner) => updateDecision(duplicate, {
+                  choices: { ...decision.choices, [field]: winner },
+                })}
+              />
+            );
+          })}
+        </Stack>
+      )}
+
+      {summary && (
+        <T.body size="sm" color="success">
+          {`Imported ${summary.inserted} contacts, merged ${summary.merged}${summary.skipped ? ` (${summary.skipped} skipped)` : ''}`}
+        </T.body>
+      )}
+      {error && <Label.error message={error} />}
+
+      <div className="ft-contact-import__actions">
+        <Button.primary onClick={handleImport} disabled={isImporting || pendingCount === 0}>
+          {isImporting ? `Importing ${progress}/${pendingCount}...` : `Import ${newContacts.length} new, merge ${merges.length}`}
+        </Button.primary>
+      </div>
+    </Stack>
+  );
+}
@@ -0,0 +1,188 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  👥 CONTACTS PAGE FEATURE                                             │
+│  /src/features/clients/contacts-page/index.tsx                        │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useClientData - kept live by ClientsProvider)          │
+│  - Imports VRs (Card.metric, Table.sortable, Search.bar)              │
+│  - Status filter + search; opens the contact drawer for create/edit   │
+│  - Import (CSV / vCard) drawer; exports the filtered list             │
+│  - The sponge that absorbs FUSE wiring from Domain                    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './contacts-page.css';
+import { useMemo, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Button, Card, Input, Modal, Search, Stack, Table } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useTableSearch } from '@/vr/table';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import { downloadFile } from '@/lib/utils';
+import {
+  CONTACT_STATUSES,
+  contactDisplayName,
+  contactsToCsv,
+  contactsToVCard,
+  type ContactStatus,
+} from '@/domains/clients';
+import { ContactDrawerFeature } from '@/features/clients/contact-drawer';
+import { ContactImportFeature } from '@/features/clients/contact-import';
+import { ContactStatusBadge } from '@/features/clients/contact-drawer/ContactStatusBadge';
+
+type StatusFilter = 'all' | ContactStatus;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  ...CONTACT_STATUSES,
+];
+
+type ContactRow = {
+  id: string;
+  name: string;
+  email: string;
+  company: string;
+  status: ContactStatus;
+  assignee: string;
+  updatedAt: number;
+};
+
+export function ContactsPageFeature() {
+  const { data, computed } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const deleteClient = useMutation(api.domains.clients.api.deleteClient);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [pendingDelete, setPendingDelete] = useState<ContactRow | null>(null);
+  const canEdit = user?.rank !== 'crew';
+
+  const openContact = (row?: ContactRow) => {
+    openDrawer({
+      content: <ContactDrawerFeature contactId={row?.id} />,
+      title: row ? row.name : 'New contact',
+      subtitle: row?.company || row?.email,
+    });
+  };
+
+  const openImport = () => {
+    openDrawer({
+      content: <ContactImportFeature />,
+      title: 'Import contacts',
+      subtitle: 'CSV or vCard - duplicates are matched by email',
+    });
+  };
+
+  const handleConfirmDelete = async () => {
+    const row = pendingDelete;
+    setPendingDelete(null);
+    if (!row || !user?.id) return;
+    await deleteClient({
+      callerUserId: user.id as Id<'admin_users'>,
+      clientId: row.id as Id<'clients_contacts_Users'>,
+    });
+  };
+
+  const columns: SortableColumn<ContactRow>[] = [
+    { key: 'name', header: 'Name', sortable: true, width: '20%' },
+    { key: 'email', header: 'Email', sortable: true, width: '22%' },
+    { key: 'company', header: 'Company', sortable: true, width: '18%' },
+    { key: 'status', header: 'Status', sortable: true, width: '12%', render: (_value, row) => <ContactStatusBadge status={row.status} /> },
+    { key: 'assignee', header: 'Assigned to', sortable: true, width: '16%' },
+    { key: 'actions', header: 'Actions', sortable: false, variant: 'crud', onEdit: openContact, onDelete: setPendingDelete, disableDelete: () => !canEdit, deleteTooltip: () => canEdit ? 'Delete contact' : 'Captain rank or higher required', tooltipSize: 'sm' },
+  ];
+
+  const tableData = useMemo(() => {
+    const memberNames = new Map(data.members.map((member) => [
+      member._id,
+      `${member.firstName} ${member.lastName}`.trim() || member.email,
+    ]));
+    return data.contacts
+      .filter((contact) => statusFilter === 'all' || contact.status === statusFilter)
+      .map((contact): ContactRow => ({
+        id: contact._id,
+        name: contactDisplayName(contact),
+        email: contact.email,
+        company: contact.company ?? '',
+        status: contact.status,
+        assignee: contact.assignedTo ? memberNames.get(contact.assignedTo) ?? 'Unknown' : '—',
+        updatedAt: contact.updatedAt,
+      }));
+  }, [data.contacts, data.members, statusFilter]);
+
+  // 🔍 Auto-search: filters all columns except actions
+  const { searchTerm, setSearchTerm, filteredData, totalCount, resultsCount, isFiltered } = useTableSearch({
+    data: tableData,
+    columns,
+  });
+
+  // Export what the table shows: status filter + search applied
+  const exportContacts = (format: 'csv' | 'vcard') => {
+    const visible = new Set(filteredData.map((row) => row.id));
+    const contacts = data.contacts.filter((contact) => visible.has(contact._id));
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') downloadFile(contactsToCsv(contacts), `contacts-${stamp}.csv`, 'text/csv');
+    else downloadFile(contactsToVCard(contacts), `contacts-${stamp}.vcf`, 'text/vcard');
+  };
+
+  return (
+    <Stack>
+      <div className="ft-contacts-page__metrics">
+        <Card.metric title="Contacts" value={computed.totalContacts} />
+        <Card.metric title="Leads" value={computed.contactsByStatus.lead} />
+        <Card.metric title="Prospects" value={computed.contactsByStatus.prospect} />
+        <Card.metric title="Active" value={computed.contactsByStatus.active} />
+      </div>
+
+      <Table.toolbar
+        search={
+          <Search.bar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder="Search contacts..."
+            resultsCount={resultsCount}
+            totalCount={totalCount}
+          />
+        }
+        actions={
+          <div className="ft-contacts-page__actions">
+            <Input.select
+              value={statusFilter}
+              onChange={(value) => setStatusFilter(value as StatusFilter)}
+              options={STATUS_FILTERS}
+            />
+            <Button.secondary onClick={() => exportContacts('csv')} disabled={filteredData.length === 0}>Export CSV</Button.secondary>
+            <Button.secondary onClick={() => exportContacts('vcard')} disabled={filteredData.length === 0}>Export vCard</Button.secondary>
+            {canEdit && <Button.secondary onClick={openImport}>Import</Button.secondary>}
+            {canEdit && <Button.primary onClick={() => openContact()}>New contact</Button.primary>}
+          </div>
+        }
+      />
+
+      <Table.sortable
+        columns={columns}
+        data={filteredData}
+        defaultSortKey="name"
+        defaultSortDirection="asc"
+        striped
+        bordered
+        isFiltered={isFiltered}
+      />
+
+      <Modal.confirmation
+        isOpen={pendingDelete !== null}
+        title="Delete contact?"
+        message={`${pendingDelete?.name ?? 'This contact'} will be permanently removed.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </Stack>
+  );
+}
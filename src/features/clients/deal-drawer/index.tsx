@@ -0,0 +1,323 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💼 DEAL DRAWER FEATURE                                               │
+│  /src/features/clients/deal-drawer/index.tsx                          │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (deal, stages, contacts read) + Convex mutations        │
+│  - One form for create and edit, saved with a single button          │
+│  - Changing stage goes through moveDeal (bottom of the new column)    │
+│  - Entering won/lost asks for a reason                                │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './deal-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { PipelineDeal, PipelineStage } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { currencyForCountry } from '@/lib/currency';
+import { formatDate, fromDateInput, toDateInput } from '@/lib/format';
+import {
+  LOSS_REASONS,
+  WIN_REASONS,
+  contactDisplayName,
+  formatCloseReason,
+  positionBetween,
+  validateDeal,
+} from '@/domains/clients';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface DealForm {
+  title: string;
+  stageId: string;
+  value: string;
+  currency: string;
+  probability: string;
+  expectedCloseDate: string;
+  contactId: string;
+  notes: string;
+  reason: string;
+  reasonNote: string;
+  closeReason: string;
+}
+
+function formFromDeal(deal: PipelineDeal): DealForm {
+  return {
+    title: deal.title,
+    stageId: deal.stageId,
+    value: String(deal.value),
+    currency: deal.currency,
+    probability: String(deal.probability),
+    expectedCloseDate: deal.expectedCloseDate ? toDateInput(deal.expectedCloseDate) : '',
+    contactId: deal.contactId ?? '',
+    notes: deal.notes ?? '',
+    reason: '',
+    reasonNote: '',
+    closeReason: deal.closeReason ?? '',
+  };
+}
+
+function emptyForm(stage: PipelineStage | undefined, currency: string): DealForm {
+  return {
+    title: '',
+    stageId: stage?._id ?? '',
+    value: '',
+    currency,
+    probability: stage ? String(stage.probability) : '',
+    expectedCloseDate: '',
+    contactId: '',
+    notes: '',
+    reason: '',
+    reasonNote: '',
+    closeReason: '',
+  };
+}
+
+interface DealDrawerFeatureProps {
+  dealId?: string;
+  /** Column the "+ Add deal" button was pressed in */
+  stageId?: string;
+}
+
+export function DealDrawerFeature({ dealId, stageId }: DealDrawerFeatureProps) {
+  const { data, computed } = useClientData();
+  const user = useFuse((state) => state.user);
+  const orgCountry = useFuse((state) => state.settings.organization?.country);
+  const { closeDrawer } = useSideDrawer();
+  const createDeal = useMutation(api.domains.clients.api.createDeal);
+  const updateDeal = useMutation(api.domains.clients.api.updateDeal);
+  const moveDeal = useMutation(api.domains.clients.api.moveDeal);
+  const deleteDeal = useMutation(api.domains.clients.api.deleteDeal);
+
+  const stages = computed.orgPipelineStages;
+  const deal = dealId ? computed.orgDeals.find((d) => d._id === dealId) : undefined;
+  const canEdit = user?.rank !== 'crew';
+
+  const [form, setForm] = useState<DealForm>(() =>
+    deal
+      ? formFromDeal(deal)
+      : emptyForm(stages.find((s) => s._id === stageId) ?? stages[0], currencyForCountry(orgCountry))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (dealId && !deal) {
+    return <T.body color="secondary">Deal not found</T.body>;
+  }
+
+  const stage = stages.find((s) => s._id === form.stageId);
+  const fromStage = deal ? stages.find((s) => s._id === deal.stageId) : undefined;
+  // A new outcome (create into won/lost, or open → won, won → lost) needs a fresh reason
+  const needsReason = stage !== undefined && stage.kind !== 'open' && stage.kind !== fromStage?.kind;
+  const reasons = stage?.kind === 'won' ? WIN_REASONS : LOSS_REASONS;
+  const reason = reasons.includes(form.reason) ? form.reason : reasons[0];
+
+  const contactOptions = [
+    { value: '', label: 'No contact' },
+    ...data.contacts
+      .filter((contact) => contact.orgId === computed.orgId || contact._id === deal?.contactId)
+      .map((contact) => ({ value: contact._id, label: contactDisplayName(contact) })),
+  ];
+
+  const setField = (field: keyof DealForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  /** New stage → new default probability (same as dragging the card) */
+  const handleStageChange = (value: string) => {
+    const next = stages.find((s) => s._id === value);
+    setForm((current) => ({
+      ...current,
+      stageId: value,
+      probability: next && value !== current.stageId ? String(next.probability) : current.probability,
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || !stage) return;
+    const value = Number(form.value);
+    const probability = Number(form.probability);
+    const currency = form.currency.trim().toUpperCase();
+    const dealError = validateDeal({ title: form.title, value, currency, probability });
+    if (dealError) {
+      setError(dealError);
+      return;
+    }
+    const expectedCloseDate = form.expectedCloseDate ? fromDateInput(form.expectedCloseDate) : null;
+    if (form.expectedCloseDate && expectedCloseDate === null) {
+      setError('Expected close date is not a valid date');
+      return;
+    }
+
+    const closeReason = needsReason ? formatCloseReason(reason, form.reasonNote) : undefined;
+    const callerUserId = user.id as Id<'admin_users'>;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!deal) {
+        await createDeal({
+          callerUserId,
+          title: form.title,
+          stageId: stage._id as Id<'clients_pipeline_Stages'>,
+          value,
+          currency,
+          probability,
+          expectedCloseDate: expectedCloseDate ?? undefined,
+          contactId: form.contactId ? form.contactId as Id<'clients_contacts_Users'> : undefined,
+          notes: form.notes.trim() || undefined,
+          closeReason,
+        });
+      } else {
+        // Move first: it resets probability, which the update below then overrides
+        if (stage._id !== deal.stageId) {
+          const column = computed.orgDeals.filter((d) => d.stageId === stage._id);
+          await moveDeal({
+            callerUserId,
+            dealId: deal._id as Id<'clients_pipeline_Deals'>,
+            stageId: stage._id as Id<'clients_pipeline_Stages'>,
+            position: positionBetween(column[column.length - 1]?.position),
+            closeReason,
+          });
+        }
+        const editedReason = !needsReason && stage.kind !== 'open' && form.closeReason.trim() !== (deal.closeReason ?? '');
+        await updateDeal({
+          callerUserId,
+          dealId: deal._id as Id<'clients_pipeline_Deals'>,
+          title: form.title,
+          value,
+          currency,
+          probability,
+          expectedCloseDate,
+          contactId: form.contactId ? form.contactId as Id<'clients_contacts_Users'> : null,
+          notes: form.notes.trim(),
+          ...(editedReason && { closeReason: form.closeReason }),
+        });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !deal) return;
+    setConfirmDelete(false);
+    try {
+      await deleteDeal({
+        callerUserId: user.id as Id<'admin_users'>,
+        dealId: deal._id as Id<'clients_pipeline_Deals'>,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete deal');
+    }
+  };
+
+  return (
+    <Stack className="ft-deal-drawer">
+      {deal?.closedAt && (
+        <T.caption color="secondary">{`Closed ${formatDate(deal.closedAt)}`}</T.caption>
+      )}
+
+      <label className="ft-deal-drawer__field">
+        <T.caption>Title</T.caption>
+        <Input.text value={form.title} onChange={setField('title')} disabled={!canEdit} />
+      </label>
+
+      <div className="ft-deal-drawer__grid">
+        <label className="ft-deal-drawer__field">
+          <T.caption>Stage</T.caption>
+          <Input.select
+            value={form.stageId}
+            onChange={handleStageChange}
+            options={stages.map((s) => ({ value: s._id, label: s.name }))}
+            disabled={!canEdit}
+          />
+        </label>
+        <label className="ft-deal-drawer__field">
+          <T.caption>Contact</T.caption>
+          <Input.select value={form.contactId} onChange={setField('contactId')} options={contactOptions} disabled={!canEdit} />
+        </label>
+        <label className="ft-deal-drawer__field">
+          <T.caption>Value</T.caption>
+          <Input.text type="number" value={form.value} onChange={setField('value')} disabled={!canEdit} />
+        </label>
+        <label className="ft-deal-drawer__field">
+          <T.caption>Currency</T.caption>
+          <Input.text value={form.currency} onChange={setField('currency')} disabled={!canEdit} />
+        </label>
+        <label className="ft-deal-drawer__field">
+          <T.caption>Probability (%)</T.caption>
+          <Input.text type="number" value={form.probability} onChange={setField('probability')} disabled={!canEdit} />
+        </label>
+        <label className="ft-deal-drawer__field">
+          <T.caption>Expected close</T.caption>
+          <input type="date" className="vr-input-text" value={form.expectedCloseDate} onChange={(e) => setField('expectedCloseDate')(e.target.value)} disabled={!canEdit} />
+        </label>
+      </div>
+
+      {needsReason && (
+        <div className="ft-deal-drawer__grid">
+          <label className="ft-deal-drawer__field">
+            <T.caption>{stage.kind === 'won' ? 'Win reason' : 'Loss reason'}</T.caption>
+            <Input.select
+              value={reason}
+              onChange={setField('reason')}
+              options={reasons.map((value) => ({ value, label: value }))}
+              disabled={!canEdit}
+            />
+          </label>
+          <label className="ft-deal-drawer__field">
+            <T.caption>Reason note</T.caption>
+            <Input.text value={form.reasonNote} onChange={setField('reasonNote')} disabled={!canEdit} />
+          </label>
+        </div>
+      )}
+
+      {!needsReason && stage?.kind !== 'open' && deal?.closeReason !== undefined && (
+        <label className="ft-deal-drawer__field">
+          <T.caption>{stage?.kind === 'won' ? 'Win reason' : 'Loss reason'}</T.caption>
+          <Input.text value={form.closeReason} onChange={setField('closeReason')} disabled={!canEdit} />
+        </label>
+      )}
+
+      <label className="ft-deal-drawer__field">
+        <T.caption>Notes</T.caption>
+        <Input.textarea value={form.notes} onChange={setField('notes')} disabled={!canEdit} />
+      </label>
+
+      {error && <Label.error message={error} />}
+
+      {canEdit && (
+        <div className="ft-deal-drawer__actions">
+          {deal && <Button.danger onClick={() => setConfirmDelete(true)}>Delete</Button.danger>}
+          <Button.primary onClick={handleSave} disabled={isSaving || !stage}>
+            {isSaving ? 'Saving...' : deal ? 'Save deal' : 'Create deal'}
+          </Button.primary>
+        </div>
+      )}
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title="Delete deal?"
+        message={`${deal?.title ?? 'This deal'} will be removed from the pipeline.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,57 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏁 CLOSE REASON MODAL                                                │
+│  /src/features/clients/pipeline-board/CloseReasonModal.tsx            │
+│                                                                       │
+│  Asks why a deal was won or lost before it enters a closed stage.     │
+│  Reason + optional note are stored as one closeReason string.         │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useState } from 'react';
+import { Input, Modal, Stack, T } from '@/vr';
+import { LOSS_REASONS, WIN_REASONS, formatCloseReason } from '@/domains/clients';
+
+interface CloseReasonModalProps {
+  outcome: 'won' | 'lost' | null;
+  dealTitle: string;
+  onConfirm: (closeReason: string) => void;
+  onCancel: () => void;
+}
+
+export function CloseReasonModal({ outcome, dealTitle, onConfirm, onCancel }: CloseReasonModalProps) {
+  const reasons = outcome === 'won' ? WIN_REASONS : LOSS_REASONS;
+  const [reason, setReason] = useState(reasons[0]);
+  const [note, setNote] = useState('');
+  const selected = reasons.includes(reason) ? reason : reasons[0];
+
+  const close = () => {
+    setReason(reasons[0]);
+    setNote('');
+  };
+
+  return (
+    <Modal.dialogue
+      title={outcome === 'won' ? 'Why was this deal won?' : 'Why was this deal lost?'}
+      isOpen={outcome !== null}
+      onClose={() => {
+        close();
+        onCancel();
+      }}
+      actions={[
+        { label: 'Cancel', variant: 'secondary', onClick: () => { close(); onCancel(); } },
+        { label: outcome === 'won' ? 'Mark won' : 'Mark lost', variant: 'primary', onClick: () => { close(); onConfirm(formatCloseReason(selected, note)); } },
+      ]}
+    >
+      <Stack>
+        <T.body size="sm" color="secondary">{dealTitle}</T.body>
+        <Input.select
+          value={selected}
+          onChange={setReason}
+          options={reasons.map((value) => ({ value, label: value }))}
+        />
+        <Input.textarea value={note} onChange={setNote} placeholder="Add a note (optional)" />
+      </Stack>
+    </Modal.dialogue>
+  );
+}
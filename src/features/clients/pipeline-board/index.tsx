@@ -0,0 +1,230 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💼 PIPELINE BOARD FEATURE                                            │
+│  /src/features/clients/pipeline-board/index.tsx                       │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useClientData - kept live by ClientsProvider)          │
+│  - Kanban: one column per stage, drag cards between/within columns    │
+│  - Dropping into won/lost asks for a reason (CloseReasonModal)        │
+│  - Forecast metrics: open value and weighted value per currency       │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './pipeline-board.css';
+import { useState, type DragEvent } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Button, Card, Label, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { PipelineDeal, PipelineStage } from '@/store/types';
+import { formatDate, formatMoney } from '@/lib/format';
+import {
+  contactDisplayName,
+  forecastByStage,
+  positionBetween,
+  type CurrencyTotals,
+} from '@/domains/clients';
+import { DealDrawerFeature } from '@/features/clients/deal-drawer';
+import { PipelineStagesFeature } from '@/features/clients/pipeline-stages';
+import { CloseReasonModal } from './CloseReasonModal';
+
+interface PendingMove {
+  deal: PipelineDeal;
+  stage: PipelineStage;
+  position: number;
+}
+
+/** "£12,000.00 · $3,500.00" - deals are never converted between currencies */
+function formatTotals(totals: CurrencyTotals[], pick: (total: CurrencyTotals) => number): string {
+  return totals.length === 0 ? '—' : totals.map((total) => formatMoney(pick(total), total.currency)).join(' · ');
+}
+
+export function PipelineBoardFeature() {
+  const { data, computed } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const moveDeal = useMutation(api.domains.clients.api.moveDeal);
+  const seedPipelineStages = useMutation(api.domains.clients.api.seedPipelineStages);
+
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = user?.rank !== 'crew';
+  const stages = computed.orgPipelineStages;
+  const deals = computed.orgDeals;
+  const contactNames = new Map(data.contacts.map((contact) => [contact._id, contactDisplayName(contact)]));
+  const stageForecasts = new Map(
+    forecastByStage(deals, stages.map((stage) => stage._id)).map((forecast) => [forecast.stageId, forecast])
+  );
+
+  const openDeal = (deal?: PipelineDeal, stageId?: string) => {
+    openDrawer({
+      content: <DealDrawerFeature dealId={deal?._id} stageId={stageId} />,
+      title: deal ? deal.title : 'New deal',
+      subtitle: deal?.contactId ? contactNames.get(deal.contactId) : undefined,
+    });
+  };
+
+  const openStages = () => {
+    openDrawer({
+      content: <PipelineStagesFeature />,
+      title: 'Pipeline stages',
+      subtitle: 'Columns, default probabilities and outcomes',
+    });
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // DRAG & DROP
+  // ─────────────────────────────────────────────────────────────────────
+  const commitMove = async (move: PendingMove, closeReason?: string) => {
+    if (!user?.id) return;
+    setError(null);
+    try {
+      await moveDeal({
+        callerUserId: user.id as Id<'admin_users'>,
+        dealId: move.deal._id as Id<'clients_pipeline_Deals'>,
+        stageId: move.stage._id as Id<'clients_pipeline_Stages'>,
+        position: move.position,
+        closeReason,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not move deal');
+    }
+  };
+
+  /** Drop onto a stage, before `beforeDeal` (or at the bottom) */
+  const handleDrop = (event: DragEvent, stage: PipelineStage, beforeDeal?: PipelineDeal) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropStageId(null);
+
+    const deal = deals.find((candidate) => candidate._id === event.dataTransfer.getData('text/plain'));
+    setDraggingId(null);
+    if (!deal || deal._id === beforeDeal?._id) return;
+
+    const column = deals.filter((candidate) => candidate.stageId === stage._id && candidate._id !== deal._id);
+    const index = beforeDeal ? column.findIndex((candidate) => candidate._id === beforeDeal._id) : column.length;
+    const position = positionBetween(column[index - 1]?.position, column[index]?.position);
+    const move = { deal, stage, position };
+
+    const fromKind = stages.find((candidate) => candidate._id === deal.stageId)?.kind;
+    if (stage.kind !== 'open' && stage.kind !== fromKind) {
+      setPendingMove(move);
+      return;
+    }
+    void commitMove(move);
+  };
+
+  const allowDrop = (event: DragEvent, stageId: string) => {
+    if (!draggingId) return;
+    event.preventDefault();
+    setDropStageId(stageId);
+  };
+
+  if (stages.length === 0) {
+    return (
+      <Stack className="ft-pipeline-board__empty">
+        <T.body color="secondary">No pipeline stages yet.</T.body>
+        {canEdit && (
+          <Button.primary onClick={() => user?.id && seedPipelineStages({ callerUserId: user.id as Id<'admin_users'> })}>
+            Set up default pipeline
+          </Button.primary>
+        )}
+      </Stack>
+    );
+  }
+
+  return (
+    <Stack>
+      <div className="ft-pipeline-board__metrics">
+        <Card.metric title="Open deals" value={computed.openDeals} />
+        <Card.metric title="Open pipeline" value={formatTotals(computed.pipelineForecast, (total) => total.value)} />
+        <Card.metric title="Weighted forecast" value={formatTotals(computed.pipelineForecast, (total) => total.weighted)} />
+      </div>
+
+      <div className="ft-pipeline-board__toolbar">
+        {canEdit && <Button.secondary onClick={openStages}>Stages</Button.secondary>}
+        {canEdit && <Button.primary onClick={() => openDeal()}>New deal</Button.primary>}
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      <div className="ft-pipeline-board__columns">
+        {stages.map((stage) => {
+          const forecast = stageForecasts.get(stage._id);
+          const column = deals.filter((deal) => deal.stageId === stage._id);
+          return (
+            <section
+              key={stage._id}
+              className={`ft-pipeline-board__column ft-pipeline-board__column--${stage.kind}${dropStageId === stage._id ? ' ft-pipeline-board__column--over' : ''}`}
+              onDragOver={(event) => allowDrop(event, stage._id)}
+              onDragLeave={() => setDropStageId(null)}
+              onDrop={(event) => handleDrop(event, stage)}
+            >
+              <header className="ft-pipeline-board__column-header">
+                <div className="ft-pipeline-board__column-title">
+                  <T.h4>{stage.name}</T.h4>
+                  <T.caption color="secondary">{String(forecast?.count ?? 0)}</T.caption>
+                </div>
+                <T.caption color="secondary">{formatTotals(forecast?.totals ?? [], (total) => total.value)}</T.caption>
+              </header>
+
+              <div className="ft-pipeline-board__cards">
+                {column.map((deal) => (
+                  <article
+                    key={deal._id}
+                    className={`ft-pipeline-board__card${draggingId === deal._id ? ' ft-pipeline-board__card--dragging' : ''}`}
+                    draggable={canEdit}
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData('text/plain', deal._id);
+                      event.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(deal._id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropStageId(null);
+                    }}
+                    onDragOver={(event) => allowDrop(event, stage._id)}
+                    onDrop={(event) => handleDrop(event, stage, deal)}
+                    onClick={() => openDeal(deal)}
+                  >
+                    <T.body size="sm" weight="semibold">{deal.title}</T.body>
+                    {deal.contactId && (
+                      <T.caption color="secondary">{contactNames.get(deal.contactId) ?? 'Unknown contact'}</T.caption>
+                    )}
+                    <div className="ft-pipeline-board__card-meta">
+                      <T.caption>{formatMoney(deal.value, deal.currency)}</T.caption>
+                      <T.caption color="secondary">
+                        {stage.kind === 'open' ? `${deal.probability}% · ${formatDate(deal.expectedCloseDate)}` : deal.closeReason ?? ''}
+                      </T.caption>
+                    </div>
+                  </article>
+                ))}
+                {canEdit && stage.kind === 'open' && (
+                  <Button.ghost fullWidth onClick={() => openDeal(undefined, stage._id)}>+ Add deal</Button.ghost>
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+
+      <CloseReasonModal
+        outcome={pendingMove && pendingMove.stage.kind !== 'open' ? pendingMove.stage.kind : null}
+        dealTitle={pendingMove?.deal.title ?? ''}
+        onCancel={() => setPendingMove(null)}
+        onConfirm={(closeReason) => {
+          const move = pendingMove;
+          setPendingMove(null);
+          if (move) void commitMove(move, closeReason);
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,143 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🧱 PIPELINE STAGES FEATURE                                           │
+│  /src/features/clients/pipeline-stages/index.tsx                      │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (org stages read) + Convex mutations (writes)           │
+│  - Existing stages: Field.live / select save on change                │
+│  - Up/down buttons save the whole column order                        │
+│  - Server keeps at least one won and one lost stage                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './pipeline-stages.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { PipelineStage } from '@/store/types';
+import { Button, Field, Input, Label, Stack, T } from '@/vr';
+import { STAGE_KINDS, validateStage, type StageKind } from '@/domains/clients';
+
+export function PipelineStagesFeature() {
+  const { computed } = useClientData();
+  const user = useFuse((state) => state.user);
+  const createPipelineStage = useMutation(api.domains.clients.api.createPipelineStage);
+  const updatePipelineStage = useMutation(api.domains.clients.api.updatePipelineStage);
+  const reorderPipelineStages = useMutation(api.domains.clients.api.reorderPipelineStages);
+  const deletePipelineStage = useMutation(api.domains.clients.api.deletePipelineStage);
+
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<StageKind>('open');
+  const [probability, setProbability] = useState('50');
+  const [error, setError] = useState<string | null>(null);
+
+  const stages = computed.orgPipelineStages;
+  const dealCounts = new Map<string, number>();
+  computed.orgDeals.forEach((deal) => dealCounts.set(deal.stageId, (dealCounts.get(deal.stageId) ?? 0) + 1));
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const update = (stage: PipelineStage, updates: { name?: string; kind?: StageKind; probability?: number }) =>
+    run(() => updatePipelineStage({
+      callerUserId: user!.id as Id<'admin_users'>,
+      stageId: stage._id as Id<'clients_pipeline_Stages'>,
+      ...updates,
+    }));
+
+  const move = (index: number, offset: number) => {
+    const ids = stages.map((stage) => stage._id as Id<'clients_pipeline_Stages'>);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    return run(() => reorderPipelineStages({ callerUserId: user!.id as Id<'admin_users'>, stageIds: ids }));
+  };
+
+  const handleAdd = async () => {
+    if (!user?.id) return;
+    const stage = { name: name.trim(), kind, probability: Number(probability) };
+    const stageError = validateStage(stage);
+    if (stageError) {
+      setError(stageError);
+      return;
+    }
+    await run(async () => {
+      await createPipelineStage({ callerUserId: user.id as Id<'admin_users'>, ...stage });
+      setName('');
+    });
+  };
+
+  if (!user?.id) return null;
+
+  return (
+    <Stack className="ft-pipeline-stages">
+      <div className="ft-pipeline-stages__list">
+        {stages.map((stage, index) => {
+          const count = dealCounts.get(stage._id) ?? 0;
+          return (
+            <div key={stage._id} className="ft-pipeline-stages__row">
+              <Field.live
+                label="Name"
+                value={stage.name}
+                onSave={(value) => update(stage, { name: value.trim() })}
+              />
+              <Input.select
+                value={stage.kind}
+                onChange={(value) => update(stage, { kind: value as StageKind })}
+                options={STAGE_KINDS}
+                disabled={count > 0}
+              />
+              <Field.live
+                label="Probability (%)"
+                type="number"
+                value={String(stage.probability)}
+                onSave={(value) => update(stage, { probability: Number(value) })}
+              />
+              <div className="ft-pipeline-stages__row-actions">
+                <Button.ghost onClick={() => move(index, -1)} disabled={index === 0}>↑</Button.ghost>
+                <Button.ghost onClick={() => move(index, 1)} disabled={index === stages.length - 1}>↓</Button.ghost>
+                <Button.ghost
+                  onClick={() => run(() => deletePipelineStage({
+                    callerUserId: user.id as Id<'admin_users'>,
+                    stageId: stage._id as Id<'clients_pipeline_Stages'>,
+                  }))}
+                  disabled={count > 0}
+                >
+                  Delete
+                </Button.ghost>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <T.caption color="secondary">Stages with deals cannot change outcome or be deleted.</T.caption>
+
+      <div className="ft-pipeline-stages__add">
+        <label className="ft-pipeline-stages__field">
+          <T.caption>New stage</T.caption>
+          <Input.text value={name} onChange={setName} placeholder="Stage name" />
+        </label>
+        <label className="ft-pipeline-stages__field">
+          <T.caption>Outcome</T.caption>
+          <Input.select value={kind} onChange={(value) => setKind(value as StageKind)} options={STAGE_KINDS} />
+        </label>
+        <label className="ft-pipeline-stages__field">
+          <T.caption>Probability (%)</T.caption>
+          <Input.text type="number" value={probability} onChange={setProbability} />
+        </label>
+        <Button.primary onClick={handleAdd} disabled={!name.trim()}>Add stage</Button.primary>
+      </div>
+
+      {error && <Label.error message={error} />}
+    </Stack>
+  );
+}
@@ -0,0 +1,136 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📒 CHART OF ACCOUNTS FEATURE                                         │
+│  /src/features/finance/chart-of-accounts/index.tsx                    │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (chartOfAccounts) + Convex ledger mutations             │
+│  - Seeds the default chart, adds accounts, archives/restores them     │
+│  - System accounts (used by posting rules) cannot be archived         │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './chart-of-accounts.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import { Badge, Button, Input, Label, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { LEDGER_ACCOUNT_TYPES, type LedgerAccountType } from '@/domains/finance';
+
+type AccountRow = {
+  id: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  isSystem: boolean;
+  isArchived: boolean;
+};
+
+const TYPE_LABELS = Object.fromEntries(LEDGER_ACCOUNT_TYPES.map((type) => [type.value, type.label])) as Record<LedgerAccountType, string>;
+
+export function ChartOfAccountsFeature() {
+  const { data } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const seedChartOfAccounts = useMutation(api.domains.finance.api.seedChartOfAccounts);
+  const createLedgerAccount = useMutation(api.domains.finance.api.createLedgerAccount);
+  const updateLedgerAccount = useMutation(api.domains.finance.api.updateLedgerAccount);
+
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [type, setType] = useState<LedgerAccountType>('expense');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const callerUserId = user?.id as Id<'admin_users'> | undefined;
+
+  const run = async (operation: () => Promise<unknown>) => {
+    if (!callerUserId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!code.trim() || !name.trim()) return setError('Account code and name are required');
+    void run(async () => {
+      await createLedgerAccount({ callerUserId: callerUserId!, code: code.trim(), name: name.trim(), type });
+      setCode('');
+      setName('');
+    });
+  };
+
+  const toggleArchived = (row: AccountRow) => {
+    void run(() => updateLedgerAccount({
+      callerUserId: callerUserId!,
+      accountId: row.id as Id<'finance_ledger_Accounts'>,
+      isArchived: !row.isArchived,
+    }));
+  };
+
+  const columns: SortableColumn<AccountRow>[] = [
+    { key: 'code', header: 'Code', sortable: true, width: '14%' },
+    { key: 'name', header: 'Account', sortable: true, width: '38%' },
+    { key: 'type', header: 'Type', sortable: true, width: '16%', render: (_value, row) => TYPE_LABELS[row.type] },
+    { key: 'isArchived', header: 'Status', sortable: true, width: '14%', render: (_value, row) => (
+      <Badge.status variant={row.isArchived ? 'disabled' : 'active'}>{row.isArchived ? 'Archived' : 'Active'}</Badge.status>
+    ) },
+    { key: 'actions', header: '', sortable: false, width: '18%', cellAlign: 'right', render: (_value, row) => (
+      row.isSystem
+        ? <T.caption color="muted">System</T.caption>
+        : <Button.link onClick={() => toggleArchived(row)} disabled={isSaving}>{row.isArchived ? 'Restore' : 'Archive'}</Button.link>
+    ) },
+  ];
+
+  const rows = data.chartOfAccounts.map((account): AccountRow => ({
+    id: account._id,
+    code: account.code,
+    name: account.name,
+    type: account.type,
+    isSystem: Boolean(account.systemKey),
+    isArchived: account.isArchived,
+  }));
+
+  return (
+    <Stack className="ft-chart-of-accounts">
+      {rows.length === 0 ? (
+        <div className="ft-chart-of-accounts__empty">
+          <T.body size="sm" color="secondary">No accounts yet. Start from the default chart and add your own.</T.body>
+          <Button.primary onClick={() => run(() => seedChartOfAccounts({ callerUserId: callerUserId! }))} disabled={isSaving}>
+            Create default chart
+          </Button.primary>
+        </div>
+      ) : (
+        <Table.sortable columns={columns} data={rows} defaultSortKey="code" defaultSortDirection="asc" striped bordered />
+      )}
+
+      {/* New account */}
+      <div className="ft-chart-of-accounts__form">
+        <label className="ft-chart-of-accounts__field">
+          <T.caption>Code</T.caption>
+          <Input.text value={code} onChange={setCode} placeholder="6100" />
+        </label>
+        <label className="ft-chart-of-accounts__field">
+          <T.caption>Name</T.caption>
+          <Input.text value={name} onChange={setName} placeholder="Software subscriptions" />
+        </label>
+        <label className="ft-chart-of-accounts__field">
+          <T.caption>Type</T.caption>
+          <Input.select value={type} onChange={(value) => setType(value as LedgerAccountType)} options={LEDGER_ACCOUNT_TYPES} />
+        </label>
+        <Button.secondary onClick={handleAdd} disabled={isSaving}>Add account</Button.secondary>
+      </div>
+
+      {error && <Label.error message={error} />}
+    </Stack>
+  );
+}
@@ -0,0 +1,231 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💱 CURRENCY SETTINGS FEATURE                                         │
+│  /src/features/finance/currency-settings/index.tsx                    │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (currencySettings + fxRates) + Convex currency mutations │
+│  - Org base currency (defaults from the organization's country)       │
+│  - Dated FX rates: manual entry, CSV import (long or ECB layout)       │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './currency-settings.css';
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Badge, Button, Input, Label, Modal, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import { isCurrencyCode, type FxRate } from '@/lib/currency';
+import {
+  FX_IMPORT_BATCH_SIZE,
+  formatDate,
+  fromDateInput,
+  parseFxRatesCsv,
+  toDateInput,
+  type FxParseResult,
+} from '@/domains/finance';
+
+type RateRow = {
+  id: string;
+  date: number;
+  pair: string;
+  rate: number;
+  source: 'manual' | 'import';
+};
+
+export function CurrencySettingsFeature() {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const setBaseCurrency = useMutation(api.domains.finance.api.setBaseCurrency);
+  const saveFxRate = useMutation(api.domains.finance.api.saveFxRate);
+  const importFxRates = useMutation(api.domains.finance.api.importFxRates);
+  const deleteFxRate = useMutation(api.domains.finance.api.deleteFxRate);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { baseCurrency } = computed;
+  const isDefault = data.currencySettings?.isDefault ?? true;
+  const canEdit = user?.rank !== 'crew';
+  const callerUserId = user?.id as Id<'admin_users'> | undefined;
+
+  const [baseDraft, setBaseDraft] = useState<string | null>(null);
+  const [rateDate, setRateDate] = useState(() => toDateInput(Date.now()));
+  const [quote, setQuote] = useState('');
+  const [rate, setRate] = useState('');
+  const [fileBase, setFileBase] = useState('EUR');
+  const [parsed, setParsed] = useState<FxParseResult | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<RateRow | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (operation: () => Promise<unknown>) => {
+    if (!callerUserId) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveBase = () => {
+    const code = (baseDraft ?? baseCurrency).trim().toUpperCase();
+    if (!isCurrencyCode(code)) return setError('Base currency must be a 3-letter ISO code');
+    void run(async () => {
+      await setBaseCurrency({ callerUserId: callerUserId!, baseCurrency: code });
+      setBaseDraft(null);
+      setMessage(`Base currency set to ${code}`);
+    });
+  };
+
+  const handleAddRate = () => {
+    const date = fromDateInput(rateDate);
+    const value = Number(rate);
+    if (date === null) return setError('Choose a valid date');
+    if (!isCurrencyCode(quote)) return setError('Currency must be a 3-letter ISO code');
+    if (!Number.isFinite(value) || value <= 0) return setError('Rate must be a positive number');
+    void run(async () => {
+      await saveFxRate({ callerUserId: callerUserId!, base: baseCurrency, quote, rate: value, date });
+      setRate('');
+      setMessage(`Saved 1 ${baseCurrency} = ${value} ${quote}`);
+    });
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setParsed(parseFxRatesCsv(await selected.text(), fileBase));
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleImport = () => {
+    if (!parsed || parsed.rates.length === 0) return;
+    void run(async () => {
+      let created = 0;
+      let updated = 0;
+      for (let start = 0; start < parsed.rates.length; start += FX_IMPORT_BATCH_SIZE) {
+        const batch: FxRate[] = parsed.rates.slice(start, start + FX_IMPORT_BATCH_SIZE);
+        const result = await importFxRates({ callerUserId: callerUserId!, rates: batch });
+        created += result.created;
+        updated += result.updated;
+      }
+      setParsed(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      setMessage(`Imported ${created} rates${updated ? ` (${updated} updated)` : ''}`);
+    });
+  };
+
+  const handleConfirmDelete = () => {
+    const row = pendingDelete;
+    setPendingDelete(null);
+    if (!row) return;
+    void run(() => deleteFxRate({ callerUserId: callerUserId!, rateId: row.id as Id<'finance_currency_Rates'> }));
+  };
+
+  const rows = data.fxRates.map((fx): RateRow => ({
+    id: fx._id,
+    date: fx.date,
+    pair: `${fx.base}/${fx.quote}`,
+    rate: fx.rate,
+    source: fx.source,
+  }));
+
+  const columns: SortableColumn<RateRow>[] = [
+    { key: 'date', header: 'Effective', sortable: true, width: '20%', render: (_value, row) => formatDate(row.date) },
+    { key: 'pair', header: 'Pair', sortable: true, width: '20%' },
+    { key: 'rate', header: 'Rate', sortable: true, width: '20%', cellAlign: 'right', render: (_value, row) => row.rate.toString() },
+    { key: 'source', header: 'Source', sortable: true, width: '20%', render: (_value, row) => (
+      <Badge.status variant={row.source === 'manual' ? 'info' : 'inactive'}>{row.source === 'manual' ? 'Manual' : 'Imported'}</Badge.status>
+    ) },
+    { key: 'actions', header: '', sortable: false, width: '20%', cellAlign: 'right', render: (_value, row) => (
+      canEdit ? <Button.link onClick={() => setPendingDelete(row)}>Delete</Button.link> : null
+    ) },
+  ];
+
+  return (
+    <Stack className="ft-currency-settings">
+      {/* Base currency */}
+      <div className="ft-currency-settings__row">
+        <label className="ft-currency-settings__field">
+          <T.caption>Base currency</T.caption>
+          <Input.text
+            value={baseDraft ?? baseCurrency}
+            onChange={(value) => setBaseDraft(value.toUpperCase())}
+            disabled={!canEdit || isSaving}
+          />
+        </label>
+        {canEdit && (
+          <Button.secondary onClick={handleSaveBase} disabled={isSaving || baseDraft === null}>Save</Button.secondary>
+        )}
+        <T.caption color="secondary">
+          {isDefault ? "Derived from your organization's country until saved." : 'Totals, project costs and reports are converted into this currency.'}
+        </T.caption>
+      </div>
+
+      {/* Manual rate */}
+      {canEdit && (
+        <div className="ft-currency-settings__row">
+          <label className="ft-currency-settings__field">
+            <T.caption>Effective date</T.caption>
+            <input type="date" className="vr-input-text" value={rateDate} onChange={(e) => setRateDate(e.target.value)} />
+          </label>
+          <label className="ft-currency-settings__field">
+            <T.caption>{`1 ${baseCurrency} =`}</T.caption>
+            <Input.text value={rate} onChange={setRate} placeholder="1.0850" />
+          </label>
+          <label className="ft-currency-settings__field">
+            <T.caption>Currency</T.caption>
+            <Input.text value={quote} onChange={(value) => setQuote(value.toUpperCase())} placeholder="EUR" />
+          </label>
+          <Button.secondary onClick={handleAddRate} disabled={isSaving}>Add rate</Button.secondary>
+        </div>
+      )}
+
+      {/* File import */}
+      {canEdit && (
+        <div className="ft-currency-settings__row">
+          <label className="ft-currency-settings__field">
+            <T.caption>Rates file (CSV)</T.caption>
+            <input ref={fileInputRef} type="file" accept=".csv,.txt" className="vr-input-text" onChange={handleFile} disabled={isSaving} />
+          </label>
+          <label className="ft-currency-settings__field">
+            <T.caption>Base when the file has none</T.caption>
+            <Input.text value={fileBase} onChange={(value) => setFileBase(value.toUpperCase())} />
+          </label>
+          <Button.primary onClick={handleImport} disabled={isSaving || !parsed || parsed.rates.length === 0}>
+            {parsed ? `Import ${parsed.rates.length} rates` : 'Import'}
+          </Button.primary>
+        </div>
+      )}
+      {parsed && parsed.errors.length > 0 && (
+        <T.body size="sm" color="warning">
+          {`${parsed.errors.length} lines skipped: ${parsed.errors.slice(0, 3).join('; ')}${parsed.errors.length > 3 ? '…' : ''}`}
+        </T.body>
+      )}
+
+      {message && <T.body size="sm" color="success">{message}</T.body>}
+      {error && <Label.error message={error} />}
+
+      <Table.sortable columns={columns} data={rows} defaultSortKey="date" striped bordered />
+
+      <Modal.confirmation
+        isOpen={pendingDelete !== null}
+        title="Delete exchange rate?"
+        message={`${pendingDelete?.pair ?? 'This rate'} on ${pendingDelete ? formatDate(pendingDelete.date) : ''} will no longer be used for conversion.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,29 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏷️ INVOICE STATUS BADGE                                              │
+│  /src/features/finance/invoice-drawer/InvoiceStatusBadge.tsx          │
+│                                                                       │
+│  Maps invoice lifecycle (sent past due shows as overdue) to Badge.    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { Badge } from '@/vr';
+import type { StatusVariant } from '@/vr/badge';
+import { isInvoiceOverdue, type InvoiceStatus } from '@/domains/finance';
+
+const STATUS_BADGES: Record<InvoiceStatus, { variant: StatusVariant; label: string }> = {
+  draft: { variant: 'inactive', label: 'Draft' },
+  sent: { variant: 'pending', label: 'Sent' },
+  overdue: { variant: 'error', label: 'Overdue' },
+  paid: { variant: 'success', label: 'Paid' },
+  void: { variant: 'disabled', label: 'Void' },
+};
+
+interface InvoiceStatusBadgeProps {
+  invoice: { status: InvoiceStatus; dueDate: number };
+}
+
+export function InvoiceStatusBadge({ invoice }: InvoiceStatusBadgeProps) {
+  const badge = STATUS_BADGES[isInvoiceOverdue(invoice) ? 'overdue' : invoice.status];
+  return <Badge.status variant={badge.variant}>{badge.label}</Badge.status>;
+}
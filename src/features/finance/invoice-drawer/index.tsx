@@ -0,0 +1,321 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🧾 INVOICE DRAWER FEATURE                                            │
+│  /src/features/finance/invoice-drawer/index.tsx                       │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (invoice read) + Convex mutations (writes)              │
+│  - Draft: editable customer, dates and line items with live totals    │
+│  - Issued: read-only document with lifecycle actions                  │
+│  - Make recurring: prefills the recurring templates drawer            │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './invoice-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import type { FinanceInvoice } from '@/store/types';
+import { Button, Input, Modal, Stack, T, Label } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import {
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  calculateInvoiceTotals,
+  validateLineItems,
+  formatMoney,
+  toDateInput,
+  fromDateInput,
+  addDays,
+  isInvoiceOutstanding,
+  type InvoiceLineItem,
+} from '@/domains/finance';
+import { RecurringTemplatesFeature } from '@/features/finance/recurring-templates';
+import { InvoiceStatusBadge } from './InvoiceStatusBadge';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL (inputs hold strings; parsed on save)
+// ─────────────────────────────────────────────────────────────────────
+interface LineDraft {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxRate: string;
+}
+
+interface InvoiceForm {
+  customerName: string;
+  customerEmail: string;
+  currency: string;
+  issueDate: string;
+  dueDate: string;
+  notes: string;
+}
+
+const EMPTY_LINE: LineDraft = { description: '', quantity: '1', unitPrice: '0', taxRate: '0' };
+
+function toForm(invoice: FinanceInvoice | undefined, currency: string): InvoiceForm {
+  const issueDate = invoice?.issueDate ?? Date.now();
+  return {
+    customerName: invoice?.customerName ?? '',
+    customerEmail: invoice?.customerEmail ?? '',
+    currency: invoice?.currency ?? currency,
+    issueDate: toDateInput(issueDate),
+    dueDate: toDateInput(invoice?.dueDate ?? addDays(issueDate, DEFAULT_PAYMENT_TERMS_DAYS)),
+    notes: invoice?.notes ?? '',
+  };
+}
+
+function toLineDrafts(invoice: FinanceInvoice | undefined): LineDraft[] {
+  if (!invoice) return [{ ...EMPTY_LINE }];
+  return invoice.lineItems.map((item) => ({
+    description: item.description,
+    quantity: String(item.quantity),
+    unitPrice: String(item.unitPrice),
+    taxRate: String(item.taxRate),
+  }));
+}
+
+function parseLines(lines: LineDraft[]): InvoiceLineItem[] {
+  return lines.map((line) => ({
+    description: line.description,
+    quantity: Number(line.quantity),
+    unitPrice: Number(line.unitPrice),
+    taxRate: Number(line.taxRate),
+  }));
+}
+
+type PendingAction = 'delete' | 'void' | null;
+
+interface InvoiceDrawerFeatureProps {
+  /** Existing invoice to open; omit to create a new draft */
+  invoiceId?: string;
+}
+
+export function InvoiceDrawerFeature({ invoiceId }: InvoiceDrawerFeatureProps) {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer, closeDrawer } = useSideDrawer();
+
+  const invoice = invoiceId ? data.invoices.find((inv) => inv._id === invoiceId) : undefined;
+  const defaultCurrency = data.invoices[0]?.currency ?? computed.baseCurrency;
+  const isEditable = !invoice || invoice.status === 'draft';
+
+  const [form, setForm] = useState<InvoiceForm>(() => toForm(invoice, defaultCurrency));
+  const [lines, setLines] = useState<LineDraft[]>(() => toLineDrafts(invoice));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  const createInvoice = useMutation(api.domains.finance.api.createInvoice);
+  const updateInvoice = useMutation(api.domains.finance.api.updateInvoice);
+  const updateInvoiceStatus = useMutation(api.domains.finance.api.updateInvoiceStatus);
+  const deleteInvoice = useMutation(api.domains.finance.api.deleteInvoice);
+
+  const callerUserId = user?.id as Id<'admin_users'> | undefined;
+  const parsedLines = parseLines(lines);
+  const totals = isEditable ? calculateInvoiceTotals(parsedLines) : invoice!;
+
+  const setField = (field: keyof InvoiceForm) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const setLine = (index: number, field: keyof LineDraft, value: string) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const run = async (operation: () => Promise<unknown>, closeAfter = false) => {
+    if (!callerUserId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await operation();
+      if (closeAfter) closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const issueDate = fromDateInput(form.issueDate);
+    const dueDate = fromDateInput(form.dueDate);
+    const lineError = validateLineItems(parsedLines);
+
+    if (!form.customerName.trim()) return setError('Customer name is required');
+    if (issueDate === null || dueDate === null) return setError('Issue and due dates are required');
+    if (lineError) return setError(lineError);
+
+    const fields = {
+      customerName: form.customerName.trim(),
+      customerEmail: form.customerEmail.trim() || undefined,
+      currency: form.currency.trim().toUpperCase(),
+      issueDate,
+      dueDate,
+      lineItems: parsedLines,
+      notes: form.notes.trim() || undefined,
+    };
+
+    void run(
+      () => invoice
+        ? updateInvoice({ callerUserId: callerUserId!, invoiceId: invoice._id as Id<'finance_invoicing_Invoices'>, ...fields })
+        : createInvoice({ callerUserId: callerUserId!, ...fields }),
+      !invoice
+    );
+  };
+
+  const handleStatus = (status: 'sent' | 'paid' | 'void') => {
+    if (!invoice) return;
+    void run(() => updateInvoiceStatus({
+      callerUserId: callerUserId!,
+      invoiceId: invoice._id as Id<'finance_invoicing_Invoices'>,
+      status,
+    }));
+  };
+
+  const openRecurring = () => {
+    if (!invoice) return;
+    openDrawer({
+      content: <RecurringTemplatesFeature kind="invoice" fromInvoiceId={invoice._id} />,
+      title: 'Make recurring',
+      subtitle: invoice.customerName,
+    });
+  };
+
+  const handleConfirm = () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (!invoice) return;
+    if (action === 'void') handleStatus('void');
+    if (action === 'delete') {
+      void run(() => deleteInvoice({
+        callerUserId: callerUserId!,
+        invoiceId: invoice._id as Id<'finance_invoicing_Invoices'>,
+      }), true);
+    }
+  };
+
+  return (
+    <Stack className="ft-invoice-drawer">
+      {invoice && (
+        <div className="ft-invoice-drawer__status">
+          <InvoiceStatusBadge invoice={invoice} />
+          <T.caption color="secondary">{invoice.number ?? 'Unnumbered draft'}</T.caption>
+        </div>
+      )}
+
+      {/* Customer & terms */}
+      <div className="ft-invoice-drawer__grid">
+        <label className="ft-invoice-drawer__field">
+          <T.caption>Customer</T.caption>
+          <Input.text value={form.customerName} onChange={setField('customerName')} placeholder="Company or person" disabled={!isEditable} />
+        </label>
+        <label className="ft-invoice-drawer__field">
+          <T.caption>Email</T.caption>
+          <Input.text value={form.customerEmail} onChange={setField('customerEmail')} type="email" placeholder="billing@example.com" disabled={!isEditable} />
+        </label>
+        <label className="ft-invoice-drawer__field">
+          <T.caption>Issue date</T.caption>
+          <input type="date" className="vr-input-text" value={form.issueDate} onChange={(e) => setField('issueDate')(e.target.value)} disabled={!isEditable} />
+        </label>
+        <label className="ft-invoice-drawer__field">
+          <T.caption>Due date</T.caption>
+          <input type="date" className="vr-input-text" value={form.dueDate} onChange={(e) => setField('dueDate')(e.target.value)} disabled={!isEditable} />
+        </label>
+        <label className="ft-invoice-drawer__field">
+          <T.caption>Currency</T.caption>
+          <Input.text value={form.currency} onChange={setField('currency')} placeholder="USD" disabled={!isEditable} />
+        </label>
+      </div>
+
+      {/* Line items */}
+      <div className="ft-invoice-drawer__lines">
+        <div className="ft-invoice-drawer__line ft-invoice-drawer__line--header">
+          <T.caption>Description</T.caption>
+          <T.caption>Qty</T.caption>
+          <T.caption>Unit price</T.caption>
+          <T.caption>Tax %</T.caption>
+          <T.caption>Amount</T.caption>
+        </div>
+        {lines.map((line, index) => (
+          <div key={index} className="ft-invoice-drawer__line">
+            <Input.text value={line.description} onChange={(value) => setLine(index, 'description', value)} placeholder="Item or service" disabled={!isEditable} />
+            <Input.text value={line.quantity} onChange={(value) => setLine(index, 'quantity', value)} type="number" disabled={!isEditable} />
+            <Input.text value={line.unitPrice} onChange={(value) => setLine(index, 'unitPrice', value)} type="number" disabled={!isEditable} />
+            <Input.text value={line.taxRate} onChange={(value) => setLine(index, 'taxRate', value)} type="number" disabled={!isEditable} />
+            <div className="ft-invoice-drawer__amount">
+              <T.body size="sm">{formatMoney((parsedLines[index].quantity * parsedLines[index].unitPrice) || 0, form.currency)}</T.body>
+              {isEditable && lines.length > 1 && (
+                <Button.ghost onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))} aria-label="Remove line">
+                  ✕
+                </Button.ghost>
+              )}
+            </div>
+          </div>
+        ))}
+        {isEditable && (
+          <Button.link onClick={() => setLines((prev) => [...prev, { ...EMPTY_LINE }])}>+ Add line</Button.link>
+        )}
+      </div>
+
+      {/* Totals */}
+      <div className="ft-invoice-drawer__totals">
+        <T.body size="sm" color="secondary">Subtotal</T.body>
+        <T.body size="sm">{formatMoney(totals.subtotal, form.currency)}</T.body>
+        <T.body size="sm" color="secondary">Tax</T.body>
+        <T.body size="sm">{formatMoney(totals.taxTotal, form.currency)}</T.body>
+        <T.body weight="bold">Total</T.body>
+        <T.body weight="bold">{formatMoney(totals.total, form.currency)}</T.body>
+      </div>
+
+      <label className="ft-invoice-drawer__field">
+        <T.caption>Notes</T.caption>
+        <Input.textarea value={form.notes} onChange={setField('notes')} rows={3} placeholder="Payment instructions, thank-you note..." disabled={!isEditable} />
+      </label>
+
+      {error && <Label.error message={error} />}
+
+      {/* Lifecycle actions */}
+      <div className="ft-invoice-drawer__actions">
+        {isEditable && (
+          <Button.primary onClick={handleSave} disabled={isSaving}>
+            {invoice ? 'Save draft' : 'Create draft'}
+          </Button.primary>
+        )}
+        {invoice?.status === 'draft' && (
+          <>
+            <Button.secondary onClick={() => handleStatus('sent')} disabled={isSaving}>Mark as sent</Button.secondary>
+            <Button.danger onClick={() => setPendingAction('delete')} disabled={isSaving}>Delete draft</Button.danger>
+          </>
+        )}
+        {invoice && isInvoiceOutstanding(invoice) && (
+          <>
+            <Button.green onClick={() => handleStatus('paid')} disabled={isSaving}>Mark as paid</Button.green>
+            <Button.danger onClick={() => setPendingAction('void')} disabled={isSaving}>Void invoice</Button.danger>
+          </>
+        )}
+        {invoice && invoice.status !== 'void' && (
+          <Button.secondary onClick={openRecurring} disabled={isSaving}>Make recurring</Button.secondary>
+        )}
+        {invoice?.status === 'void' && (
+          <T.caption color="muted">This invoice is closed - no further actions</T.caption>
+        )}
+      </div>
+
+      <Modal.confirmation
+        isOpen={pendingAction !== null}
+        title={pendingAction === 'void' ? 'Void invoice?' : 'Delete draft?'}
+        message={pendingAction === 'void'
+          ? `${invoice?.number ?? 'This invoice'} will be kept for your records but can no longer be paid.`
+          : 'This draft will be permanently removed.'}
+        variant="danger"
+        confirmLabel={pendingAction === 'void' ? 'Void' : 'Delete'}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingAction(null)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,172 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🧾 INVOICES PAGE FEATURE                                             │
+│  /src/features/finance/invoices-page/index.tsx                        │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useFinancialData - kept live by FinanceProvider)       │
+│  - Imports VRs (Card.metric, Table.sortable, Search.bar)              │
+│  - Opens the invoice drawer for create/edit, and recurring templates  │
+│  - The sponge that absorbs FUSE wiring from Domain                    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './invoices-page.css';
+import { useMemo, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Button, Card, Input, Modal, Search, Stack, Table } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useTableSearch } from '@/vr/table';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import { formatDate, formatMoney, isInvoiceOverdue, type InvoiceStatus } from '@/domains/finance';
+import { InvoiceDrawerFeature } from '@/features/finance/invoice-drawer';
+import { InvoiceStatusBadge } from '@/features/finance/invoice-drawer/InvoiceStatusBadge';
+import { RecurringTemplatesFeature } from '@/features/finance/recurring-templates';
+
+type StatusFilter = 'all' | InvoiceStatus;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'void', label: 'Void' },
+];
+
+type InvoiceRow = {
+  id: string;
+  number: string;
+  customerName: string;
+  issueDate: number;
+  dueDate: number;
+  total: number;
+  currency: string;
+  status: InvoiceStatus;
+};
+
+export function InvoicesPageFeature() {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const deleteInvoice = useMutation(api.domains.finance.api.deleteInvoice);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [pendingDelete, setPendingDelete] = useState<InvoiceRow | null>(null);
+
+  const openInvoice = (row?: InvoiceRow) => {
+    openDrawer({
+      content: <InvoiceDrawerFeature invoiceId={row?.id} />,
+      title: row ? (row.number || 'Draft invoice') : 'New invoice',
+      subtitle: row?.customerName,
+    });
+  };
+
+  const openRecurring = () => {
+    openDrawer({
+      content: <RecurringTemplatesFeature kind="invoice" />,
+      title: 'Recurring invoices',
+      subtitle: 'Generated automatically on schedule',
+    });
+  };
+
+  const handleConfirmDelete = async () => {
+    const row = pendingDelete;
+    setPendingDelete(null);
+    if (!row || !user?.id) return;
+    await deleteInvoice({
+      callerUserId: user.id as Id<'admin_users'>,
+      invoiceId: row.id as Id<'finance_invoicing_Invoices'>,
+    });
+  };
+
+  const columns: SortableColumn<InvoiceRow>[] = [
+    { key: 'number', header: 'Number', sortable: true, width: '12%' },
+    { key: 'customerName', header: 'Customer', sortable: true, width: '26%' },
+    { key: 'issueDate', header: 'Issued', sortable: true, width: '12%', render: (_value, row) => formatDate(row.issueDate) },
+    { key: 'dueDate', header: 'Due', sortable: true, width: '12%', render: (_value, row) => formatDate(row.dueDate) },
+    { key: 'total', header: 'Total', sortable: true, width: '14%', cellAlign: 'right', render: (_value, row) => formatMoney(row.total, row.currency) },
+    { key: 'status', header: 'Status', sortable: true, width: '12%', render: (_value, row) => <InvoiceStatusBadge invoice={row} /> },
+    { key: 'actions', header: 'Actions', sortable: false, variant: 'crud', onEdit: openInvoice, onDelete: setPendingDelete, disableDelete: (row) => row.status !== 'draft', deleteTooltip: (row) => row.status === 'draft' ? 'Delete draft' : 'Issued invoices are voided, not deleted', tooltipSize: 'sm' },
+  ];
+
+  const tableData = useMemo(() => data.invoices
+    .filter((invoice) => {
+      if (statusFilter === 'all') return true;
+      if (statusFilter === 'overdue') return isInvoiceOverdue(invoice);
+      return invoice.status === statusFilter;
+    })
+    .map((invoice): InvoiceRow => ({
+      id: invoice._id,
+      number: invoice.number ?? 'Draft',
+      customerName: invoice.customerName,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      total: invoice.total,
+      currency: invoice.currency,
+      status: invoice.status,
+    })), [data.invoices, statusFilter]);
+
+  // 🔍 Auto-search: filters all columns except actions
+  const { searchTerm, setSearchTerm, filteredData, totalCount, resultsCount, isFiltered } = useTableSearch({
+    data: tableData,
+    columns,
+  });
+
+  return (
+    <Stack>
+      <div className="ft-invoices-page__metrics">
+        <Card.metric title="Drafts" value={computed.draftInvoices} />
+        <Card.metric title="Outstanding" value={computed.outstandingInvoices} />
+        <Card.metric title="Overdue" value={computed.overdueInvoices} />
+        <Card.metric title="Paid" value={computed.paidInvoices} />
+      </div>
+
+      <Table.toolbar
+        search={
+          <Search.bar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder="Search invoices..."
+            resultsCount={resultsCount}
+            totalCount={totalCount}
+          />
+        }
+        actions={
+          <div className="ft-invoices-page__actions">
+            <Input.select
+              value={statusFilter}
+              onChange={(value) => setStatusFilter(value as StatusFilter)}
+              options={STATUS_FILTERS}
+            />
+            <Button.secondary onClick={openRecurring}>Recurring</Button.secondary>
+            <Button.primary onClick={() => openInvoice()}>New invoice</Button.primary>
+          </div>
+        }
+      />
+
+      <Table.sortable
+        columns={columns}
+        data={filteredData}
+        defaultSortKey="issueDate"
+        striped
+        bordered
+        isFiltered={isFiltered}
+      />
+
+      <Modal.confirmation
+        isOpen={pendingDelete !== null}
+        title="Delete draft?"
+        message={`The draft for ${pendingDelete?.customerName ?? 'this customer'} will be permanently removed.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,173 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📒 JOURNAL ENTRY DRAWER FEATURE                                      │
+│  /src/features/finance/journal-entry-drawer/index.tsx                 │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (chart of accounts) + Convex mutation (createJournal…)  │
+│  - Manual entry: account / debit / credit lines with live totals      │
+│  - Post is disabled until debits equal credits                        │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './journal-entry-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import { Button, Input, Label, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import {
+  calculateJournalTotals,
+  formatMoney,
+  fromDateInput,
+  toDateInput,
+  validateJournalLines,
+} from '@/domains/finance';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL (inputs hold strings; parsed on post)
+// ─────────────────────────────────────────────────────────────────────
+interface LineDraft {
+  accountId: string;
+  debit: string;
+  credit: string;
+}
+
+const EMPTY_LINE: LineDraft = { accountId: '', debit: '', credit: '' };
+
+function parseLines(lines: LineDraft[]) {
+  return lines.map((line) => ({
+    accountId: line.accountId,
+    debit: Number(line.debit) || 0,
+    credit: Number(line.credit) || 0,
+  }));
+}
+
+interface JournalEntryDrawerFeatureProps {
+  /** Currency to pre-fill (defaults to the most recent entry's) */
+  currency?: string;
+}
+
+export function JournalEntryDrawerFeature({ currency }: JournalEntryDrawerFeatureProps) {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createJournalEntry = useMutation(api.domains.finance.api.createJournalEntry);
+
+  const [date, setDate] = useState(() => toDateInput(Date.now()));
+  const [memo, setMemo] = useState('');
+  const [entryCurrency, setEntryCurrency] = useState(currency ?? computed.baseCurrency);
+  const [lines, setLines] = useState<LineDraft[]>([{ ...EMPTY_LINE }, { ...EMPTY_LINE }]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const accountOptions = [
+    { value: '', label: 'Select account…' },
+    ...data.chartOfAccounts
+      .filter((account) => !account.isArchived)
+      .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+      .map((account) => ({ value: account._id, label: `${account.code} · ${account.name}` })),
+  ];
+
+  const parsedLines = parseLines(lines);
+  const totals = calculateJournalTotals(parsedLines);
+
+  const setLine = (index: number, field: keyof LineDraft, value: string) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handlePost = async () => {
+    const entryDate = fromDateInput(date);
+    const lineError = validateJournalLines(parsedLines);
+
+    if (!user?.id) return;
+    if (entryDate === null) return setError('Entry date is required');
+    if (!memo.trim()) return setError('A memo is required');
+    if (parsedLines.some((line) => !line.accountId)) return setError('Choose an account for every line');
+    if (lineError) return setError(lineError);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createJournalEntry({
+        callerUserId: user.id as Id<'admin_users'>,
+        date: entryDate,
+        memo: memo.trim(),
+        currency: entryCurrency.trim().toUpperCase(),
+        lines: parsedLines.map((line) => ({ ...line, accountId: line.accountId as Id<'finance_ledger_Accounts'> })),
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack className="ft-journal-entry-drawer">
+      <div className="ft-journal-entry-drawer__grid">
+        <label className="ft-journal-entry-drawer__field">
+          <T.caption>Date</T.caption>
+          <input type="date" className="vr-input-text" value={date} onChange={(e) => setDate(e.target.value)} />
+        </label>
+        <label className="ft-journal-entry-drawer__field">
+          <T.caption>Currency</T.caption>
+          <Input.text value={entryCurrency} onChange={setEntryCurrency} placeholder="USD" />
+        </label>
+      </div>
+
+      <label className="ft-journal-entry-drawer__field">
+        <T.caption>Memo</T.caption>
+        <Input.text value={memo} onChange={setMemo} placeholder="e.g. Owner capital contribution" />
+      </label>
+
+      {/* Lines */}
+      <div className="ft-journal-entry-drawer__lines">
+        <div className="ft-journal-entry-drawer__line ft-journal-entry-drawer__line--header">
+          <T.caption>Account</T.caption>
+          <T.caption>Debit</T.caption>
+          <T.caption>Credit</T.caption>
+        </div>
+        {lines.map((line, index) => (
+          <div key={index} className="ft-journal-entry-drawer__line">
+            <Input.select value={line.accountId} onChange={(value) => setLine(index, 'accountId', value)} options={accountOptions} />
+            <Input.text value={line.debit} onChange={(value) => setLine(index, 'debit', value)} type="number" placeholder="0.00" />
+            <div className="ft-journal-entry-drawer__credit">
+              <Input.text value={line.credit} onChange={(value) => setLine(index, 'credit', value)} type="number" placeholder="0.00" />
+              {lines.length > 2 && (
+                <Button.ghost onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))} aria-label="Remove line">
+                  ✕
+                </Button.ghost>
+              )}
+            </div>
+          </div>
+        ))}
+        <Button.link onClick={() => setLines((prev) => [...prev, { ...EMPTY_LINE }])}>+ Add line</Button.link>
+      </div>
+
+      {/* Totals */}
+      <div className="ft-journal-entry-drawer__totals">
+        <T.body size="sm" color="secondary">Debits</T.body>
+        <T.body size="sm">{formatMoney(totals.debit, entryCurrency)}</T.body>
+        <T.body size="sm" color="secondary">Credits</T.body>
+        <T.body size="sm">{formatMoney(totals.credit, entryCurrency)}</T.body>
+        <T.body weight="bold">Difference</T.body>
+        <T.body weight="bold" color={totals.balanced ? 'success' : 'error'}>
+          {formatMoney(Math.abs(totals.debit - totals.credit), entryCurrency)}
+        </T.body>
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      <div className="ft-journal-entry-drawer__actions">
+        <Button.primary onClick={handlePost} disabled={isSaving || !totals.balanced || totals.debit === 0}>
+          Post entry
+        </Button.primary>
+      </div>
+    </Stack>
+  );
+}
@@ -0,0 +1,139 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📈 FINANCE OVERVIEW PAGE FEATURE                                     │
+│  /src/features/finance/overview-page/index.tsx                        │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (ledger + invoices + FX rates)                          │
+│  - This month vs last month: income, expenses, net profit, cash       │
+│  - Year-to-date P&L summary against the same period last year         │
+│  - Everything is converted into the org base currency                 │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './overview-page.css';
+import { useMemo } from 'react';
+import { Card, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { sumInCurrency } from '@/lib/currency';
+import type { FinanceInvoice } from '@/store/types';
+import {
+  buildFinancialReport,
+  formatMoney,
+  isInvoiceOutstanding,
+  isInvoiceOverdue,
+  lineChange,
+  presetRange,
+  reportValue,
+  type FinancialReport,
+  type ReportLine,
+} from '@/domains/finance';
+
+type SummaryRow = ReportLine & Record<string, unknown>;
+
+/** Card.metric trend props for a report line compared month-over-month */
+function metricTrend(report: FinancialReport, key: string, higherIsBetter = true) {
+  const line = report.lines.find((candidate) => candidate.key === key);
+  const change = line && lineChange(line);
+  if (!change || change.percent === null) return { context: 'No data last month' };
+  const improved = higherIsBetter ? change.amount >= 0 : change.amount <= 0;
+  return {
+    trend: Math.abs(change.percent),
+    trendDirection: change.amount === 0 ? 'flat' as const : improved ? 'up' as const : 'down' as const,
+    context: 'vs last month',
+  };
+}
+
+export function OverviewPageFeature() {
+  const { data, computed } = useFinancialData();
+
+  const currency = computed.baseCurrency;
+  const rates = data.fxRates;
+
+  const snapshot = useMemo(
+    () => ({ accounts: data.chartOfAccounts, entries: data.journalEntries }),
+    [data.chartOfAccounts, data.journalEntries]
+  );
+
+  const month = useMemo(
+    () => buildFinancialReport('profit_loss', snapshot, { range: presetRange('this_month'), currency, comparison: 'mom', rates }),
+    [snapshot, currency, rates]
+  );
+  const cash = useMemo(
+    () => buildFinancialReport('cash_flow', snapshot, { range: presetRange('this_month'), currency, rates }),
+    [snapshot, currency, rates]
+  );
+  const yearToDate = useMemo(
+    () => buildFinancialReport('profit_loss', snapshot, { range: presetRange('year_to_date'), currency, comparison: 'yoy', rates }),
+    [snapshot, currency, rates]
+  );
+
+  // Open invoices are valued at today's rate
+  const receivables = useMemo(() => {
+    const now = Date.now();
+    const value = (invoices: FinanceInvoice[]) =>
+      sumInCurrency(invoices.map((invoice) => ({ amount: invoice.total, currency: invoice.currency, date: now })), currency, rates);
+    return {
+      outstanding: value(data.invoices.filter((invoice) => isInvoiceOutstanding(invoice))),
+      overdue: value(data.invoices.filter((invoice) => isInvoiceOverdue(invoice))),
+    };
+  }, [data.invoices, currency, rates]);
+
+  const missingRates = Array.from(new Set([
+    ...month.missingRates,
+    ...yearToDate.missingRates,
+    ...receivables.outstanding.missing,
+  ])).sort();
+
+  const summaryRows = yearToDate.lines
+    .filter((line) => line.kind === 'subtotal' || line.kind === 'total')
+    .map((line) => ({ ...line }) as SummaryRow);
+
+  const summaryColumns: SortableColumn<SummaryRow>[] = [
+    { key: 'label', header: '', sortable: false, width: '40%' },
+    ...yearToDate.columns.map((column, index): SortableColumn<SummaryRow> => ({
+      key: `period-${index}`,
+      header: column.label,
+      sortable: false,
+      width: '20%',
+      cellAlign: 'right',
+      render: (_value, row) => formatMoney(row.values[index], currency),
+    })),
+    { key: 'change', header: 'Change', sortable: false, width: '20%', cellAlign: 'right', render: (_value, row) => {
+      const change = lineChange(row);
+      if (!change) return '';
+      return change.percent === null ? formatMoney(change.amount, currency) : `${formatMoney(change.amount, currency)} (${change.percent.toFixed(1)}%)`;
+    } },
+  ];
+
+  return (
+    <Stack>
+      <div className="ft-overview-page__metrics">
+        <Card.metric title="Income this month" value={formatMoney(reportValue(month, 'total_income'), currency)} {...metricTrend(month, 'total_income')} />
+        <Card.metric title="Expenses this month" value={formatMoney(reportValue(month, 'total_expenses'), currency)} {...metricTrend(month, 'total_expenses', false)} />
+        <Card.metric title="Net profit this month" value={formatMoney(reportValue(month, 'net_profit'), currency)} {...metricTrend(month, 'net_profit')} />
+        <Card.metric title="Cash balance" value={formatMoney(reportValue(cash, 'closing_cash'), currency)} context={currency} />
+      </div>
+
+      <div className="ft-overview-page__metrics">
+        <Card.metric title="Outstanding invoices" value={formatMoney(receivables.outstanding.total, currency)} context={`${computed.outstandingInvoices} open`} />
+        <Card.metric title="Overdue invoices" value={formatMoney(receivables.overdue.total, currency)} context={`${computed.overdueInvoices} past due`} />
+        <Card.metric title="Draft invoices" value={computed.draftInvoices} />
+        <Card.metric title="Paid invoices" value={computed.paidInvoices} />
+      </div>
+
+      {missingRates.length > 0 && (
+        <T.body size="sm" color="warning">
+          {`No exchange rate to ${currency} for ${missingRates.join(', ')} — those amounts are left out. Add rates under Reports → Currencies.`}
+        </T.body>
+      )}
+
+      <div className="ft-overview-page__section-header">
+        <T.h3>Year to date</T.h3>
+        <T.caption color="secondary">Compared with the same period last year</T.caption>
+      </div>
+      <Table.sortable columns={summaryColumns} data={summaryRows} defaultSortKey={null} striped bordered />
+    </Stack>
+  );
+}
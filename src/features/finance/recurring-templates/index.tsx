@@ -0,0 +1,341 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🔁 RECURRING TEMPLATES FEATURE                                       │
+│  /src/features/finance/recurring-templates/index.tsx                  │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (recurringTemplates) + Convex recurring mutations       │
+│  - Lists templates of one kind with pause / resume / delete           │
+│  - New template: schedule preset or custom RRULE with a preview       │
+│  - Invoice templates are created from an existing invoice             │
+│  - Instances are generated hourly by the finance-recurring-queue cron │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './recurring-templates.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Badge, Button, Input, Label, Modal, Stack, T, Table } from '@/vr';
+import type { StatusVariant } from '@/vr/badge';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import type { FinanceRecurringTemplate } from '@/store/types';
+import { isCurrencyCode } from '@/lib/currency';
+import {
+  DAY_MS,
+  RECURRING_PRESETS,
+  calculateInvoiceTotals,
+  describeRecurringSchedule,
+  formatDate,
+  formatMoney,
+  fromDateInput,
+  previewRecurringRuns,
+  toDateInput,
+  validateRecurringSchedule,
+  type RecurringKind,
+  type RecurringPreset,
+  type RecurringStatus,
+} from '@/domains/finance';
+
+const STATUS_BADGES: Record<RecurringStatus, { variant: StatusVariant; label: string }> = {
+  active: { variant: 'active', label: 'Active' },
+  paused: { variant: 'warning', label: 'Paused' },
+  completed: { variant: 'inactive', label: 'Finished' },
+};
+
+const TRANSACTION_TYPES: { value: 'payment' | 'expense' | 'invoice'; label: string }[] = [
+  { value: 'expense', label: 'Expense' },
+  { value: 'payment', label: 'Payment' },
+  { value: 'invoice', label: 'Invoice' },
+];
+
+type TemplateRow = {
+  id: string;
+  name: string;
+  schedule: string;
+  amount: string;
+  nextRunAt: number;
+  status: RecurringStatus;
+  lastError: string;
+};
+
+/** Display amount of a template payload */
+function templateAmount(template: FinanceRecurringTemplate): string {
+  if (template.transaction) return formatMoney(template.transaction.amount, template.transaction.currency);
+  if (!template.invoice) return '';
+  return formatMoney(calculateInvoiceTotals(template.invoice.lineItems).total, template.invoice.currency);
+}
+
+interface RecurringTemplatesFeatureProps {
+  kind: RecurringKind;
+  /** Prefill a new invoice template from this invoice */
+  fromInvoiceId?: string;
+}
+
+export function RecurringTemplatesFeature({ kind, fromInvoiceId }: RecurringTemplatesFeatureProps) {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const createTemplate = useMutation(api.domains.finance.api.createRecurringTemplate);
+  const setTemplateStatus = useMutation(api.domains.finance.api.setRecurringTemplateStatus);
+  const deleteTemplate = useMutation(api.domains.finance.api.deleteRecurringTemplate);
+
+  const canEdit = user?.rank !== 'crew';
+  const callerUserId = user?.id as Id<'admin_users'> | undefined;
+  const sourceInvoice = fromInvoiceId ? data.invoices.find((invoice) => invoice._id === fromInvoiceId) : undefined;
+
+  const [name, setName] = useState(() => (sourceInvoice ? `${sourceInvoice.customerName} (monthly)` : ''));
+  const [preset, setPreset] = useState<RecurringPreset>('monthly');
+  const [customRule, setCustomRule] = useState('FREQ=MONTHLY;BYMONTHDAY=1');
+  const [startDate, setStartDate] = useState(() => toDateInput(Date.now()));
+  // Transaction payload
+  const [type, setType] = useState<'payment' | 'expense' | 'invoice'>('expense');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(computed.baseCurrency);
+  const [description, setDescription] = useState('');
+  const [dueInDays, setDueInDays] = useState('');
+  // Invoice payload
+  const [paymentTermsDays, setPaymentTermsDays] = useState(() => String(
+    sourceInvoice ? Math.max(0, Math.round((sourceInvoice.dueDate - sourceInvoice.issueDate) / DAY_MS)) : 30
+  ));
+  const [autoSend, setAutoSend] = useState(true);
+
+  const [pendingDelete, setPendingDelete] = useState<TemplateRow | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rrule = preset === 'custom' ? customRule.trim() : RECURRING_PRESETS.find((option) => option.value === preset)!.rrule;
+  const start = fromDateInput(startDate);
+  const scheduleError = start === null ? 'Choose a valid start date' : validateRecurringSchedule(rrule, start);
+  const preview = start !== null && !scheduleError ? previewRecurringRuns(rrule, start, 3) : [];
+
+  const run = async (operation: () => Promise<unknown>, successMessage?: string) => {
+    if (!callerUserId) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await operation();
+      if (successMessage) setMessage(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return setError('Give the template a name');
+    if (scheduleError || start === null) return setError(scheduleError ?? 'Choose a valid start date');
+
+    if (kind === 'transaction') {
+      const value = Number(amount);
+      const code = currency.trim().toUpperCase();
+      if (!description.trim()) return setError('Description is required');
+      if (!Number.isFinite(value) || value <= 0) return setError('Amount must be greater than zero');
+      if (!isCurrencyCode(code)) return setError('Currency must be a 3-letter ISO code');
+      const due = dueInDays.trim() ? Number(dueInDays) : undefined;
+      if (due !== undefined && (!Number.isInteger(due) || due < 0)) return setError('Due in days must be a whole number');
+
+      void run(async () => {
+        await createTemplate({
+          callerUserId: callerUserId!,
+          name: name.trim(),
+          kind,
+          rrule,
+          startDate: start,
+          transaction: { type, amount: value, currency: code, description: description.trim(), dueInDays: due },
+        });
+        setName('');
+        setAmount('');
+        setDescription('');
+      }, `Template created - first run ${formatDate(preview[0])}`);
+      return;
+    }
+
+    if (!sourceInvoice) return;
+    const terms = Number(paymentTermsDays);
+    if (!Number.isInteger(terms) || terms < 0) return setError('Payment terms must be a whole number of days');
+
+    void run(() => createTemplate({
+      callerUserId: callerUserId!,
+      name: name.trim(),
+      kind,
+      rrule,
+      startDate: start,
+      invoice: {
+        contactId: sourceInvoice.contactId as Id<'clients_contacts_Users'> | undefined,
+        customerName: sourceInvoice.customerName,
+        customerEmail: sourceInvoice.customerEmail,
+        lineItems: sourceInvoice.lineItems,
+        currency: sourceInvoice.currency,
+        paymentTermsDays: terms,
+        notes: sourceInvoice.notes,
+        autoSend,
+      },
+    }), `Template created - first invoice ${formatDate(preview[0])}`);
+  };
+
+  const handleToggle = (row: TemplateRow) => {
+    void run(() => setTemplateStatus({
+      callerUserId: callerUserId!,
+      templateId: row.id as Id<'finance_recurring_Templates'>,
+      status: row.status === 'active' ? 'paused' : 'active',
+    }));
+  };
+
+  const handleConfirmDelete = () => {
+    const row = pendingDelete;
+    setPendingDelete(null);
+    if (!row) return;
+    void run(() => deleteTemplate({ callerUserId: callerUserId!, templateId: row.id as Id<'finance_recurring_Templates'> }));
+  };
+
+  const rows = data.recurringTemplates
+    .filter((template) => template.kind === kind)
+    .map((template): TemplateRow => ({
+      id: template._id,
+      name: template.name,
+      schedule: describeRecurringSchedule(template.rrule),
+      amount: templateAmount(template),
+      nextRunAt: template.nextRunAt ?? 0,
+      status: template.status,
+      lastError: template.lastError ?? '',
+    }));
+
+  const columns: SortableColumn<TemplateRow>[] = [
+    { key: 'name', header: 'Name', sortable: true, width: '22%', render: (_value, row) => (
+      row.lastError ? <span title={row.lastError}>{`${row.name} ⚠`}</span> : row.name
+    ) },
+    { key: 'schedule', header: 'Schedule', sortable: false, width: '26%' },
+    { key: 'amount', header: 'Amount', sortable: false, width: '14%', cellAlign: 'right' },
+    { key: 'nextRunAt', header: 'Next run', sortable: true, width: '12%', render: (_value, row) => formatDate(row.nextRunAt) },
+    { key: 'status', header: 'Status', sortable: true, width: '10%', render: (_value, row) => (
+      <Badge.status variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge.status>
+    ) },
+    { key: 'actions', header: '', sortable: false, width: '16%', cellAlign: 'right', render: (_value, row) => (
+      canEdit ? (
+        <div className="ft-recurring-templates__row-actions">
+          {row.status !== 'completed' && (
+            <Button.link onClick={() => handleToggle(row)}>{row.status === 'active' ? 'Pause' : 'Resume'}</Button.link>
+          )}
+          <Button.link onClick={() => setPendingDelete(row)}>Delete</Button.link>
+        </div>
+      ) : null
+    ) },
+  ];
+
+  const failed = rows.filter((row) => row.lastError);
+
+  return (
+    <Stack className="ft-recurring-templates">
+      <Table.sortable columns={columns} data={rows} defaultSortKey="nextRunAt" defaultSortDirection="asc" striped bordered />
+      {failed.length > 0 && (
+        <T.body size="sm" color="warning">
+          {`Paused after an error: ${failed.map((row) => `${row.name} (${row.lastError})`).join('; ')}`}
+        </T.body>
+      )}
+
+      {canEdit && (kind === 'transaction' || sourceInvoice) && (
+        <>
+          <div className="ft-recurring-templates__section-header">
+            <T.h3>New template</T.h3>
+            {sourceInvoice && (
+              <T.caption color="secondary">
+                {`${sourceInvoice.customerName} · ${formatMoney(sourceInvoice.total, sourceInvoice.currency)} per invoice`}
+              </T.caption>
+            )}
+          </div>
+
+          <div className="ft-recurring-templates__grid">
+            <label className="ft-recurring-templates__field">
+              <T.caption>Name</T.caption>
+              <Input.text value={name} onChange={setName} placeholder={kind === 'transaction' ? 'Office rent' : 'Monthly retainer'} />
+            </label>
+            <label className="ft-recurring-templates__field">
+              <T.caption>First occurrence</T.caption>
+              <input type="date" className="vr-input-text" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </label>
+            <label className="ft-recurring-templates__field">
+              <T.caption>Repeats</T.caption>
+              <Input.select
+                value={preset}
+                onChange={(value) => setPreset(value as RecurringPreset)}
+                options={RECURRING_PRESETS.map(({ value, label }) => ({ value, label }))}
+              />
+            </label>
+            {preset === 'custom' ? (
+              <label className="ft-recurring-templates__field">
+                <T.caption>RRULE</T.caption>
+                <Input.text value={customRule} onChange={setCustomRule} placeholder="FREQ=MONTHLY;BYDAY=-1FR" />
+              </label>
+            ) : <span />}
+
+            {kind === 'transaction' ? (
+              <>
+                <label className="ft-recurring-templates__field">
+                  <T.caption>Type</T.caption>
+                  <Input.select value={type} onChange={(value) => setType(value as typeof type)} options={TRANSACTION_TYPES} />
+                </label>
+                <label className="ft-recurring-templates__field">
+                  <T.caption>Amount</T.caption>
+                  <Input.text value={amount} onChange={setAmount} type="number" placeholder="0.00" />
+                </label>
+                <label className="ft-recurring-templates__field">
+                  <T.caption>Currency</T.caption>
+                  <Input.text value={currency} onChange={(value) => setCurrency(value.toUpperCase())} />
+                </label>
+                <label className="ft-recurring-templates__field">
+                  <T.caption>Overdue after (days, optional)</T.caption>
+                  <Input.text value={dueInDays} onChange={setDueInDays} type="number" placeholder="e.g. 14" />
+                </label>
+                <label className="ft-recurring-templates__field ft-recurring-templates__field--wide">
+                  <T.caption>Description</T.caption>
+                  <Input.text value={description} onChange={setDescription} placeholder="Shown on every generated transaction" />
+                </label>
+              </>
+            ) : (
+              <>
+                <label className="ft-recurring-templates__field">
+                  <T.caption>Payment terms (days)</T.caption>
+                  <Input.text value={paymentTermsDays} onChange={setPaymentTermsDays} type="number" />
+                </label>
+                <div className="ft-recurring-templates__field">
+                  <T.caption>Issue automatically</T.caption>
+                  <Input.toggle enabled={autoSend} onChange={setAutoSend} label={autoSend ? 'Numbered and marked sent' : 'Left as a draft'} size="sm" />
+                </div>
+              </>
+            )}
+          </div>
+
+          <T.body size="sm" color={scheduleError ? 'error' : 'secondary'}>
+            {scheduleError ?? `${describeRecurringSchedule(rrule)} - next: ${preview.map((date) => formatDate(date)).join(', ')}`}
+          </T.body>
+
+          <div className="ft-recurring-templates__actions">
+            <Button.primary onClick={handleCreate} disabled={isSaving || Boolean(scheduleError)}>Create template</Button.primary>
+          </div>
+        </>
+      )}
+      {kind === 'invoice' && !sourceInvoice && canEdit && (
+        <T.caption color="secondary">To repeat an invoice, open it and choose Make recurring.</T.caption>
+      )}
+
+      {message && <T.body size="sm" color="success">{message}</T.body>}
+      {error && <Label.error message={error} />}
+
+      <Modal.confirmation
+        isOpen={pendingDelete !== null}
+        title="Delete recurring template?"
+        message={`"${pendingDelete?.name ?? 'This template'}" stops generating. Items it already created are kept.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </Stack>
+  );
+}
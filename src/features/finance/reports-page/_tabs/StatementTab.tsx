@@ -0,0 +1,196 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📊 STATEMENT TAB                                                     │
+│  /src/features/finance/reports-page/_tabs/StatementTab.tsx            │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (chartOfAccounts + journalEntries + fxRates)            │
+│  - P&L / balance sheet / cash flow for a period, converted into the   │
+│    chosen currency (base currency by default)                         │
+│  - MoM / YoY comparison columns; CSV and PDF download                 │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import '../reports-page.css';
+import { useMemo, useState } from 'react';
+import { Button, Input, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { downloadFile } from '@/lib/utils';
+import {
+  DAY_MS,
+  buildFinancialReport,
+  formatDate,
+  formatMoney,
+  fromDateInput,
+  lineChange,
+  presetRange,
+  reportFileName,
+  reportToCsv,
+  reportToPdf,
+  toDateInput,
+  type ComparisonMode,
+  type RangePreset,
+  type ReportKind,
+  type ReportLine,
+} from '@/domains/finance';
+
+type PeriodOption = RangePreset | 'custom';
+
+const PERIOD_OPTIONS: { value: PeriodOption; label: string }[] = [
+  { value: 'this_month', label: 'This month' },
+  { value: 'last_month', label: 'Last month' },
+  { value: 'this_quarter', label: 'This quarter' },
+  { value: 'year_to_date', label: 'Year to date' },
+  { value: 'last_year', label: 'Last year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const COMPARISON_OPTIONS: { value: ComparisonMode; label: string }[] = [
+  { value: 'none', label: 'No comparison' },
+  { value: 'mom', label: 'Previous month' },
+  { value: 'yoy', label: 'Same period last year' },
+];
+
+type StatementRow = ReportLine & Record<string, unknown>;
+
+interface StatementTabProps {
+  kind: ReportKind;
+}
+
+export function StatementTab({ kind }: StatementTabProps) {
+  const { data, computed } = useFinancialData();
+  const { baseCurrency } = computed;
+
+  // Base currency first, then anything the ledger is booked in
+  const currencies = useMemo(() => {
+    const others = new Set(data.journalEntries.map((entry) => entry.currency));
+    others.delete(baseCurrency);
+    return [baseCurrency, ...Array.from(others).sort()];
+  }, [baseCurrency, data.journalEntries]);
+
+  const [period, setPeriod] = useState<PeriodOption>('this_month');
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(presetRange('this_month').from));
+  const [customTo, setCustomTo] = useState(() => toDateInput(Date.now()));
+  const [comparison, setComparison] = useState<ComparisonMode>('none');
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0];
+
+  const range = useMemo(() => {
+    if (period !== 'custom') return presetRange(period);
+    const from = fromDateInput(customFrom);
+    const to = fromDateInput(customTo);
+    if (from === null || to === null || to < from) return null;
+    return { from, to: to + DAY_MS - 1 };
+  }, [period, customFrom, customTo]);
+
+  const report = useMemo(() => range && buildFinancialReport(
+    kind,
+    { accounts: data.chartOfAccounts, entries: data.journalEntries },
+    { range, currency, comparison, rates: data.fxRates }
+  ), [kind, range, currency, comparison, data.chartOfAccounts, data.journalEntries, data.fxRates]);
+
+  const subtitle = range ? `${formatDate(range.from)} – ${formatDate(range.to)}` : undefined;
+
+  const columns = useMemo((): SortableColumn<StatementRow>[] => {
+    if (!report) return [];
+    const amount = (value: number | undefined, row: StatementRow) =>
+      row.kind === 'heading' || value === undefined ? '' : formatMoney(value, report.currency);
+
+    const result: SortableColumn<StatementRow>[] = [
+      { key: 'label', header: '', sortable: false, render: (_value, row) => (
+        row.kind === 'account'
+          ? <span className="ft-reports-page__indent">{row.label}</span>
+          : <T.body weight="bold">{row.label}</T.body>
+      ) },
+      ...report.columns.map((column, index): SortableColumn<StatementRow> => ({
+        key: `period-${index}`,
+        header: column.label,
+        sortable: false,
+        width: '16%',
+        cellAlign: 'right',
+        render: (_value, row) => amount(row.values[index], row),
+      })),
+    ];
+
+    if (report.columns.length > 1) {
+      result.push(
+        { key: 'change', header: 'Change', sortable: false, width: '14%', cellAlign: 'right', render: (_value, row) => amount(lineChange(row)?.amount, row) },
+        { key: 'changePercent', header: 'Change %', sortable: false, width: '10%', cellAlign: 'right', render: (_value, row) => {
+          const percent = lineChange(row)?.percent;
+          return percent === null || percent === undefined ? '' : `${percent.toFixed(1)}%`;
+        } },
+      );
+    }
+    return result;
+  }, [report]);
+
+  const rows = useMemo(() => (report?.lines ?? []).map((line) => ({ ...line }) as StatementRow), [report]);
+
+  return (
+    <Stack>
+      <div className="ft-reports-page__toolbar">
+        <label className="ft-reports-page__field">
+          <T.caption>Period</T.caption>
+          <Input.select value={period} onChange={(value) => setPeriod(value as PeriodOption)} options={PERIOD_OPTIONS} />
+        </label>
+        {period === 'custom' && (
+          <>
+            <label className="ft-reports-page__field">
+              <T.caption>From</T.caption>
+              <input type="date" className="vr-input-text" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} />
+            </label>
+            <label className="ft-reports-page__field">
+              <T.caption>To</T.caption>
+              <input type="date" className="vr-input-text" value={customTo} onChange={(e) => setCustomTo(e.target.value)} />
+            </label>
+          </>
+        )}
+        <label className="ft-reports-page__field">
+          <T.caption>Compare with</T.caption>
+          <Input.select value={comparison} onChange={(value) => setComparison(value as ComparisonMode)} options={COMPARISON_OPTIONS} />
+        </label>
+        <label className="ft-reports-page__field">
+          <T.caption>Currency</T.caption>
+          <Input.select
+            value={currency}
+            onChange={setSelectedCurrency}
+            options={currencies.map((code) => ({ value: code, label: code === baseCurrency ? `${code} (base)` : code }))}
+          />
+        </label>
+        <div className="ft-reports-page__actions">
+          <Button.secondary
+            onClick={() => report && downloadFile(reportToCsv(report), `${reportFileName(report)}.csv`, 'text/csv')}
+            disabled={!report}
+          >
+            Export CSV
+          </Button.secondary>
+          <Button.secondary
+            onClick={() => report && downloadFile(reportToPdf(report, subtitle), `${reportFileName(report)}.pdf`, 'application/pdf')}
+            disabled={!report}
+          >
+            Export PDF
+          </Button.secondary>
+        </div>
+      </div>
+
+      {report ? (
+        <>
+          <div className="ft-reports-page__section-header">
+            <T.h3>{report.title}</T.h3>
+            {subtitle && <T.caption color="secondary">{subtitle}</T.caption>}
+          </div>
+          {report.missingRates.length > 0 && (
+            <T.body size="sm" color="warning">
+              {`No exchange rate to ${report.currency} for ${report.missingRates.join(', ')} — those entries are left out.`}
+            </T.body>
+          )}
+          <Table.sortable columns={columns} data={rows} defaultSortKey={null} striped bordered />
+        </>
+      ) : (
+        <T.body size="sm" color="error">Choose a valid date range (the end date must not be before the start).</T.body>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,202 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📒 TRIAL BALANCE TAB                                                 │
+│  /src/features/finance/reports-page/_tabs/TrialBalanceTab.tsx         │
+│                                                                       │
+│  - Trial balance per currency as of a chosen date                     │
+│  - Journal with reversal; opens chart-of-accounts / entry drawers     │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import '../reports-page.css';
+import { useMemo, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Badge, Button, Card, Input, Modal, Stack, T, Table } from '@/vr';
+import type { StatusVariant } from '@/vr/badge';
+import { useSideDrawer } from '@/vr/modal';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import type { FinanceJournalEntry } from '@/store/types';
+import {
+  DAY_MS,
+  LEDGER_ACCOUNT_TYPES,
+  calculateJournalTotals,
+  calculateTrialBalance,
+  formatDate,
+  formatMoney,
+  fromDateInput,
+  toDateInput,
+  type TrialBalanceRow,
+} from '@/domains/finance';
+import { ChartOfAccountsFeature } from '@/features/finance/chart-of-accounts';
+import { JournalEntryDrawerFeature } from '@/features/finance/journal-entry-drawer';
+
+const TYPE_LABELS = Object.fromEntries(LEDGER_ACCOUNT_TYPES.map((type) => [type.value, type.label]));
+
+const SOURCE_LABELS: Record<FinanceJournalEntry['sourceType'], string> = {
+  manual: 'Manual',
+  invoice: 'Invoice',
+  transaction: 'Bank',
+};
+
+type EntryState = 'posted' | 'reversed' | 'reversal';
+
+const ENTRY_BADGES: Record<EntryState, { variant: StatusVariant; label: string }> = {
+  posted: { variant: 'success', label: 'Posted' },
+  reversed: { variant: 'disabled', label: 'Reversed' },
+  reversal: { variant: 'info', label: 'Reversal' },
+};
+
+type EntryRow = {
+  id: string;
+  date: number;
+  memo: string;
+  source: string;
+  amount: number;
+  currency: string;
+  state: EntryState;
+};
+
+export function TrialBalanceTab() {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const reverseJournalEntry = useMutation(api.domains.finance.api.reverseJournalEntry);
+
+  const currencies = useMemo(() => {
+    const seen = new Set(data.journalEntries.map((entry) => entry.currency));
+    return seen.size > 0 ? Array.from(seen).sort() : [computed.baseCurrency];
+  }, [computed.baseCurrency, data.journalEntries]);
+
+  const [asOf, setAsOf] = useState(() => toDateInput(Date.now()));
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [pendingReverse, setPendingReverse] = useState<EntryRow | null>(null);
+
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0];
+  const canEdit = user?.rank !== 'crew';
+
+  // Trial balance includes everything booked up to the end of the as-of day
+  const trialBalance = useMemo(() => {
+    const day = fromDateInput(asOf);
+    const cutoff = day === null ? undefined : day + DAY_MS - 1;
+    const entries = data.journalEntries.filter((entry) => entry.currency === currency);
+    return calculateTrialBalance(data.chartOfAccounts, entries, cutoff);
+  }, [asOf, currency, data.chartOfAccounts, data.journalEntries]);
+
+  const balanceColumns: SortableColumn<TrialBalanceRow>[] = [
+    { key: 'code', header: 'Code', sortable: true, width: '12%' },
+    { key: 'name', header: 'Account', sortable: true, width: '40%' },
+    { key: 'type', header: 'Type', sortable: true, width: '16%', render: (_value, row) => TYPE_LABELS[row.type] },
+    { key: 'debit', header: 'Debit', sortable: true, width: '16%', cellAlign: 'right', render: (_value, row) => row.debit ? formatMoney(row.debit, currency) : '' },
+    { key: 'credit', header: 'Credit', sortable: true, width: '16%', cellAlign: 'right', render: (_value, row) => row.credit ? formatMoney(row.credit, currency) : '' },
+  ];
+
+  const entryRows = useMemo(() => data.journalEntries
+    .filter((entry) => entry.currency === currency)
+    .map((entry): EntryRow => ({
+      id: entry._id,
+      date: entry.date,
+      memo: entry.memo,
+      source: SOURCE_LABELS[entry.sourceType],
+      amount: calculateJournalTotals(entry.lines).debit,
+      currency: entry.currency,
+      state: entry.reversesEntryId ? 'reversal' : entry.reversedAt ? 'reversed' : 'posted',
+    })), [currency, data.journalEntries]);
+
+  const entryColumns: SortableColumn<EntryRow>[] = [
+    { key: 'date', header: 'Date', sortable: true, width: '12%', render: (_value, row) => formatDate(row.date) },
+    { key: 'memo', header: 'Memo', sortable: true, width: '40%' },
+    { key: 'source', header: 'Source', sortable: true, width: '10%' },
+    { key: 'amount', header: 'Amount', sortable: true, width: '14%', cellAlign: 'right', render: (_value, row) => formatMoney(row.amount, row.currency) },
+    { key: 'state', header: 'Status', sortable: true, width: '12%', render: (_value, row) => (
+      <Badge.status variant={ENTRY_BADGES[row.state].variant}>{ENTRY_BADGES[row.state].label}</Badge.status>
+    ) },
+    { key: 'actions', header: '', sortable: false, width: '12%', cellAlign: 'right', render: (_value, row) => (
+      canEdit && row.state === 'posted'
+        ? <Button.link onClick={() => setPendingReverse(row)}>Reverse</Button.link>
+        : null
+    ) },
+  ];
+
+  const handleConfirmReverse = async () => {
+    const row = pendingReverse;
+    setPendingReverse(null);
+    if (!row || !user?.id) return;
+    await reverseJournalEntry({
+      callerUserId: user.id as Id<'admin_users'>,
+      entryId: row.id as Id<'finance_ledger_JournalEntries'>,
+    });
+  };
+
+  return (
+    <Stack>
+      <div className="ft-reports-page__metrics">
+        <Card.metric title="Accounts" value={data.chartOfAccounts.filter((account) => !account.isArchived).length} />
+        <Card.metric title="Journal entries" value={entryRows.length} />
+        <Card.metric title="Total debits" value={formatMoney(trialBalance.totals.debit, currency)} />
+        <Card.metric title="Total credits" value={formatMoney(trialBalance.totals.credit, currency)} />
+      </div>
+
+      <div className="ft-reports-page__toolbar">
+        <label className="ft-reports-page__field">
+          <T.caption>As of</T.caption>
+          <input type="date" className="vr-input-text" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+        </label>
+        <label className="ft-reports-page__field">
+          <T.caption>Currency</T.caption>
+          <Input.select
+            value={currency}
+            onChange={setSelectedCurrency}
+            options={currencies.map((code) => ({ value: code, label: code }))}
+          />
+        </label>
+        <div className="ft-reports-page__actions">
+          <Button.secondary onClick={() => openDrawer({ content: <ChartOfAccountsFeature />, title: 'Chart of accounts' })}>
+            Chart of accounts
+          </Button.secondary>
+          {canEdit && (
+            <Button.primary
+              onClick={() => openDrawer({ content: <JournalEntryDrawerFeature currency={currency} />, title: 'New journal entry' })}
+              disabled={data.chartOfAccounts.length === 0}
+            >
+              New journal entry
+            </Button.primary>
+          )}
+        </div>
+      </div>
+
+      {/* Trial balance */}
+      <div className="ft-reports-page__section-header">
+        <T.h3>Trial balance</T.h3>
+        <Badge.status variant={trialBalance.totals.balanced ? 'success' : 'error'}>
+          {trialBalance.totals.balanced ? 'Balanced' : 'Out of balance'}
+        </Badge.status>
+      </div>
+      <Table.sortable columns={balanceColumns} data={trialBalance.rows} defaultSortKey="code" defaultSortDirection="asc" striped bordered />
+      <div className="ft-reports-page__totals">
+        <T.body weight="bold">Totals</T.body>
+        <T.body weight="bold">{formatMoney(trialBalance.totals.debit, currency)}</T.body>
+        <T.body weight="bold">{formatMoney(trialBalance.totals.credit, currency)}</T.body>
+      </div>
+
+      {/* Journal */}
+      <div className="ft-reports-page__section-header">
+        <T.h3>Journal</T.h3>
+      </div>
+      <Table.sortable columns={entryColumns} data={entryRows} defaultSortKey="date" striped bordered />
+
+      <Modal.confirmation
+        isOpen={pendingReverse !== null}
+        title="Reverse journal entry?"
+        message={`A reversing entry will be posted for "${pendingReverse?.memo ?? 'this entry'}". The original stays in the journal.`}
+        variant="danger"
+        confirmLabel="Reverse"
+        onConfirm={handleConfirmReverse}
+        onCancel={() => setPendingReverse(null)}
+      />
+    </Stack>
+  );
+}
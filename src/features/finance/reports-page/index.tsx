@@ -0,0 +1,33 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📊 FINANCE REPORTS PAGE FEATURE                                      │
+│  /src/features/finance/reports-page/index.tsx                         │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Imports VRs (Stack, Tabs.panels)                                   │
+│  - Wraps tab content (TrialBalance + one StatementTab per report)     │
+│  - Currencies tab: base currency + FX rates used by conversions       │
+│  - Tabs read FUSE (chartOfAccounts + journalEntries) themselves       │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { Stack, Tabs } from '@/vr';
+import { CurrencySettingsFeature } from '@/features/finance/currency-settings';
+import { StatementTab } from './_tabs/StatementTab';
+import { TrialBalanceTab } from './_tabs/TrialBalanceTab';
+
+export function ReportsPageFeature() {
+  return (
+    <Stack>
+      <Tabs.panels
+        tabs={[
+          { id: 'profit-loss', label: 'Profit & Loss', content: <StatementTab kind="profit_loss" /> },
+          { id: 'balance-sheet', label: 'Balance Sheet', content: <StatementTab kind="balance_sheet" /> },
+          { id: 'cash-flow', label: 'Cash Flow', content: <StatementTab kind="cash_flow" /> },
+          { id: 'trial-balance', label: 'Trial Balance', content: <TrialBalanceTab /> },
+          { id: 'currencies', label: 'Currencies', content: <CurrencySettingsFeature /> },
+        ]}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,319 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏦 STATEMENT IMPORT FEATURE                                          │
+│  /src/features/finance/statement-import/index.tsx                     │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Reads a CSV / OFX / QFX / CAMT.053 file in the browser             │
+│  - CSV: column mapping (signed amount or debit/credit split)          │
+│  - Preview flags duplicates against FUSE transactions + the file      │
+│  - Commits new rows in batches via importStatementRows                │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './statement-import.css';
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import { Badge, Button, Input, Label, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import {
+  STATEMENT_IMPORT_BATCH_SIZE,
+  detectStatementFormat,
+  formatDate,
+  formatMoney,
+  guessCsvMapping,
+  parseCamt053Statement,
+  parseCsvStatement,
+  parseOfxStatement,
+  readCsv,
+  signedStatementAmount,
+  buildStatementDedupeIndex,
+  statementOccurrences,
+  isStatementDuplicate,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type CsvTable,
+  type ParsedStatementRow,
+  type StatementFormat,
+  type StatementParseResult,
+} from '@/domains/finance';
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  camt053: 'CAMT.053',
+};
+
+const DATE_FORMATS: { value: CsvDateFormat; label: string }[] = [
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+];
+
+type AmountMode = 'signed' | 'split';
+
+type PreviewRow = ParsedStatementRow & {
+  id: string;
+  /** Position among the file's identical lines (sent so batches dedupe alike) */
+  occurrence: number;
+  duplicate: boolean;
+};
+
+interface ImportSummary {
+  inserted: number;
+  skipped: number;
+}
+
+interface LoadedFile {
+  name: string;
+  format: StatementFormat;
+  content: string;
+}
+
+export function StatementImportFeature() {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const importStatementRows = useMutation(api.domains.finance.api.importStatementRows);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [defaultCurrency, setDefaultCurrency] = useState(computed.baseCurrency);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    const content = await selected.text();
+    const format = detectStatementFormat(selected.name, content);
+    setFile({ name: selected.name, format, content });
+    setSummary(null);
+    setError(null);
+
+    if (format === 'csv') {
+      const table = readCsv(content);
+      setCsvTable(table);
+      setMapping(guessCsvMapping(table.headers, defaultCurrency));
+    } else {
+      setCsvTable(null);
+      setMapping(null);
+    }
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // PARSE (re-runs whenever the mapping or fallback currency changes)
+  // ─────────────────────────────────────────────────────────────────────
+  const parsed = useMemo((): StatementParseResult | null => {
+    if (!file) return null;
+    if (file.format === 'ofx') return parseOfxStatement(file.content, defaultCurrency);
+    if (file.format === 'camt053') return parseCamt053Statement(file.content, defaultCurrency);
+    if (!csvTable || !mapping) return null;
+    return parseCsvStatement(csvTable, { ...mapping, defaultCurrency });
+  }, [file, csvTable, mapping, defaultCurrency]);
+
+  // Same rules the server dedupes on - the preview matches what will be skipped
+  const preview = useMemo((): PreviewRow[] => {
+    if (!parsed) return [];
+    const booked = buildStatementDedupeIndex(data.transactions.map((transaction) => ({
+      date: transaction.date,
+      amount: signedStatementAmount(transaction),
+      description: transaction.description,
+      externalId: transaction.externalId,
+    })));
+    const occurrences = statementOccurrences(parsed.rows);
+    return parsed.rows.map((row, index) => ({
+      ...row,
+      id: `${index}`,
+      occurrence: occurrences[index],
+      duplicate: isStatementDuplicate(booked, row, occurrences[index]),
+    }));
+  }, [parsed, data.transactions]);
+
+  const newRows = preview.filter((row) => !row.duplicate);
+
+  const handleImport = async () => {
+    if (!file || !user?.id || newRows.length === 0) return;
+    setIsImporting(true);
+    setError(null);
+    setProgress(0);
+
+    const totals: ImportSummary = { inserted: 0, skipped: 0 };
+    try {
+      for (let start = 0; start < newRows.length; start += STATEMENT_IMPORT_BATCH_SIZE) {
+        const batch = newRows.slice(start, start + STATEMENT_IMPORT_BATCH_SIZE);
+        const result = await importStatementRows({
+          callerUserId: user.id as Id<'admin_users'>,
+          source: file.format,
+          rows: batch.map(({ date, amount, currency, description, externalId, occurrence }) => ({
+            date, amount, currency, description, externalId, occurrence,
+          })),
+        });
+        totals.inserted += result.inserted;
+        totals.skipped += result.skipped;
+        setProgress(start + batch.length);
+      }
+      setSummary(totals);
+      setFile(null);
+      setCsvTable(null);
+      setMapping(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setSummary(totals.inserted > 0 ? totals : null);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnOptions = (csvTable?.headers ?? []).map((header, index) => ({
+    value: String(index),
+    label: header || `Column ${index + 1}`,
+  }));
+  const optionalColumnOptions = [{ value: '', label: '—' }, ...columnOptions];
+  const amountMode: AmountMode = mapping?.amount !== undefined ? 'signed' : 'split';
+
+  const setColumn = (field: 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'currency') => (value: string) => {
+    setMapping((current) => current && {
+      ...current,
+      [field]: value === '' ? undefined : Number(value),
+    });
+  };
+
+  const setAmountMode = (mode: AmountMode) => {
+    if (!csvTable) return;
+    const guess = guessCsvMapping(csvTable.headers, defaultCurrency);
+    setMapping((current) => current && (mode === 'signed'
+      ? { ...current, amount: guess.amount ?? 0, debit: undefined, credit: undefined }
+      : { ...current, amount: undefined, debit: guess.debit ?? 0, credit: guess.credit ?? 0 }));
+  };
+
+  const columns: SortableColumn<PreviewRow>[] = [
+    { key: 'date', header: 'Date', sortable: true, width: '18%', render: (_value, row) => formatDate(row.date) },
+    { key: 'description', header: 'Description', sortable: true, width: '44%' },
+    { key: 'amount', header: 'Amount', sortable: true, width: '20%', cellAlign: 'right', render: (_value, row) => formatMoney(row.amount, row.currency) },
+    { key: 'duplicate', header: 'Status', sortable: true, width: '18%', render: (_value, row) => (
+      <Badge.status variant={row.duplicate ? 'inactive' : 'success'}>{row.duplicate ? 'Duplicate' : 'New'}</Badge.status>
+    ) },
+  ];
+
+  return (
+    <Stack className="ft-statement-import">
+      <div className="ft-statement-import__grid">
+        <label className="ft-statement-import__field">
+          <T.caption>Statement file</T.caption>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.ofx,.qfx,.xml"
+            className="vr-input-text"
+            onChange={handleFile}
+            disabled={isImporting}
+          />
+        </label>
+        <label className="ft-statement-import__field">
+          <T.caption>Default currency</T.caption>
+          <Input.text value={defaultCurrency} onChange={(value) => setDefaultCurrency(value.toUpperCase())} disabled={isImporting} />
+        </label>
+      </div>
+
+      {file && (
+        <T.caption color="secondary">{`${file.name} · ${FORMAT_LABELS[file.format]}`}</T.caption>
+      )}
+
+      {csvTable && mapping && (
+        <div className="ft-statement-import__grid">
+          <label className="ft-statement-import__field">
+            <T.caption>Date column</T.caption>
+            <Input.select value={String(mapping.date)} onChange={setColumn('date')} options={columnOptions} />
+          </label>
+          <label className="ft-statement-import__field">
+            <T.caption>Date format</T.caption>
+            <Input.select
+              value={mapping.dateFormat}
+              onChange={(value) => setMapping({ ...mapping, dateFormat: value as CsvDateFormat })}
+              options={DATE_FORMATS}
+            />
+          </label>
+          <label className="ft-statement-import__field">
+            <T.caption>Description column</T.caption>
+            <Input.select value={String(mapping.description)} onChange={setColumn('description')} options={columnOptions} />
+          </label>
+          <label className="ft-statement-import__field">
+            <T.caption>Currency column</T.caption>
+            <Input.select value={mapping.currency === undefined ? '' : String(mapping.currency)} onChange={setColumn('currency')} options={optionalColumnOptions} />
+          </label>
+          <label className="ft-statement-import__field">
+            <T.caption>Amounts</T.caption>
+            <Input.select
+              value={amountMode}
+              onChange={(value) => setAmountMode(value as AmountMode)}
+              options={[
+                { value: 'signed', label: 'One signed column' },
+                { value: 'split', label: 'Separate debit / credit' },
+              ]}
+            />
+          </label>
+          {amountMode === 'signed' ? (
+            <label className="ft-statement-import__field">
+              <T.caption>Amount column</T.caption>
+              <Input.select value={String(mapping.amount)} onChange={setColumn('amount')} options={columnOptions} />
+            </label>
+          ) : (
+            <div className="ft-statement-import__split">
+              <label className="ft-statement-import__field">
+                <T.caption>Debit column</T.caption>
+                <Input.select value={String(mapping.debit)} onChange={setColumn('debit')} options={columnOptions} />
+              </label>
+              <label className="ft-statement-import__field">
+                <T.caption>Credit column</T.caption>
+                <Input.select value={String(mapping.credit)} onChange={setColumn('credit')} options={columnOptions} />
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+
+      {parsed && parsed.errors.length > 0 && (
+        <ul className="ft-statement-import__errors">
+          {parsed.errors.slice(0, 10).map((message) => (
+            <li key={message}><T.caption color="muted">{message}</T.caption></li>
+          ))}
+          {parsed.errors.length > 10 && (
+            <li><T.caption color="muted">{`…and ${parsed.errors.length - 10} more`}</T.caption></li>
+          )}
+        </ul>
+      )}
+
+      {preview.length > 0 && (
+        <>
+          <T.body size="sm" color="secondary">
+            {`${preview.length} rows · ${newRows.length} new · ${preview.length - newRows.length} duplicates`}
+          </T.body>
+          <Table.sortable columns={columns} data={preview} defaultSortKey="date" striped bordered />
+        </>
+      )}
+
+      {summary && (
+        <T.body size="sm" color="success">
+          {`Imported ${summary.inserted} rows${summary.skipped ? ` (${summary.skipped} already on file)` : ''}`}
+        </T.body>
+      )}
+      {error && <Label.error message={error} />}
+
+      <div className="ft-statement-import__actions">
+        <Button.primary onClick={handleImport} disabled={isImporting || newRows.length === 0}>
+          {isImporting ? `Importing ${progress}/${newRows.length}...` : `Import ${newRows.length} rows`}
+        </Button.primary>
+      </div>
+    </Stack>
+  );
+}
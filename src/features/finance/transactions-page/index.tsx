@@ -0,0 +1,244 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💳 TRANSACTIONS PAGE FEATURE                                         │
+│  /src/features/finance/transactions-page/index.tsx                    │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useFinancialData - kept live by FinanceProvider)       │
+│  - Imports VRs (Card.metric, Table.sortable, Search.bar)              │
+│  - Opens the statement import and recurring templates drawers         │
+│  - Matches imported payments to the invoices they settle              │
+│  - The sponge that absorbs FUSE wiring from Domain                    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './transactions-page.css';
+import { useMemo, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Badge, Button, Card, Input, Modal, Search, Stack, T, Table } from '@/vr';
+import type { StatusVariant } from '@/vr/badge';
+import { useSideDrawer } from '@/vr/modal';
+import { useTableSearch } from '@/vr/table';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useFuse } from '@/store/fuse';
+import type { FinanceTransaction } from '@/store/types';
+import { formatDate, formatMoney, isStatementImport, signedStatementAmount, statementMatchError } from '@/domains/finance';
+import { StatementImportFeature } from '@/features/finance/statement-import';
+import { RecurringTemplatesFeature } from '@/features/finance/recurring-templates';
+
+type TypeFilter = 'all' | FinanceTransaction['type'];
+
+const TYPE_FILTERS: { value: TypeFilter; label: string }[] = [
+  { value: 'all', label: 'All types' },
+  { value: 'payment', label: 'Payments' },
+  { value: 'expense', label: 'Expenses' },
+  { value: 'invoice', label: 'Invoices' },
+];
+
+const STATUS_BADGES: Record<FinanceTransaction['status'], { variant: StatusVariant; label: string }> = {
+  pending: { variant: 'pending', label: 'Pending' },
+  paid: { variant: 'success', label: 'Paid' },
+  overdue: { variant: 'error', label: 'Overdue' },
+};
+
+const SOURCE_LABELS: Record<NonNullable<FinanceTransaction['source']>, string> = {
+  manual: 'Manual',
+  csv: 'CSV',
+  ofx: 'OFX',
+  camt053: 'CAMT.053',
+  recurring: 'Recurring',
+};
+
+type TransactionRow = {
+  id: string;
+  date: number;
+  description: string;
+  type: FinanceTransaction['type'];
+  amount: number;
+  currency: string;
+  status: FinanceTransaction['status'];
+  source: string;
+  transaction: FinanceTransaction;
+};
+
+export function TransactionsPageFeature() {
+  const { data, computed } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const deleteTransaction = useMutation(api.domains.finance.api.deleteTransaction);
+  const matchStatementPayment = useMutation(api.domains.finance.api.matchStatementPayment);
+
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [pendingDelete, setPendingDelete] = useState<TransactionRow | null>(null);
+  const [matching, setMatching] = useState<TransactionRow | null>(null);
+  const [matchInvoiceId, setMatchInvoiceId] = useState('');
+
+  const canEdit = user?.rank !== 'crew';
+
+  const openImport = () => {
+    openDrawer({
+      content: <StatementImportFeature />,
+      title: 'Import bank statement',
+      subtitle: 'CSV, OFX/QFX or CAMT.053',
+    });
+  };
+
+  const openRecurring = () => {
+    openDrawer({
+      content: <RecurringTemplatesFeature kind="transaction" />,
+      title: 'Recurring transactions',
+      subtitle: 'Generated automatically on schedule',
+    });
+  };
+
+  const handleConfirmDelete = async () => {
+    const row = pendingDelete;
+    setPendingDelete(null);
+    if (!row || !user?.id) return;
+    await deleteTransaction({
+      callerUserId: user.id as Id<'admin_users'>,
+      transactionId: row.id as Id<'finance_banking_Statements'>,
+    });
+  };
+
+  // Invoices a line can settle - open ones first, each matched at most once
+  const matchedInvoiceIds = useMemo(() => new Set(data.transactions.map((transaction) => transaction.matchedInvoiceId)), [data.transactions]);
+  const matchOptions = matching
+    ? data.invoices
+      .filter((invoice) => !matchedInvoiceIds.has(invoice._id) && statementMatchError(matching.transaction, invoice) === null)
+      .sort((a, b) => Number(a.status === 'paid') - Number(b.status === 'paid'))
+      .map((invoice) => ({
+        value: invoice._id,
+        label: `${invoice.number ?? 'Draft'} · ${invoice.customerName}${invoice.status === 'paid' ? ' (already paid)' : ''}`,
+      }))
+    : [];
+
+  const canMatch = ({ transaction }: TransactionRow) => canEdit && transaction.type === 'payment'
+    && transaction.status === 'paid' && isStatementImport(transaction.source) && !transaction.matchedInvoiceId;
+
+  const openMatch = (row: TransactionRow) => {
+    setMatchInvoiceId('');
+    setMatching(row);
+  };
+
+  const handleMatch = async () => {
+    const row = matching;
+    if (!row || !matchInvoiceId || !user?.id) return;
+    setMatching(null);
+    await matchStatementPayment({
+      callerUserId: user.id as Id<'admin_users'>,
+      transactionId: row.id as Id<'finance_banking_Statements'>,
+      invoiceId: matchInvoiceId as Id<'finance_invoicing_Invoices'>,
+    });
+  };
+
+  const columns: SortableColumn<TransactionRow>[] = [
+    { key: 'date', header: 'Date', sortable: true, width: '12%', render: (_value, row) => formatDate(row.date) },
+    { key: 'description', header: 'Description', sortable: true, width: '38%' },
+    { key: 'type', header: 'Type', sortable: true, width: '10%' },
+    { key: 'source', header: 'Source', sortable: true, width: '10%' },
+    { key: 'amount', header: 'Amount', sortable: true, width: '14%', cellAlign: 'right', render: (_value, row) => formatMoney(row.amount, row.currency) },
+    { key: 'status', header: 'Status', sortable: true, width: '10%', render: (_value, row) => (
+      <Badge.status variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge.status>
+    ) },
+    { key: 'actions', header: 'Actions', sortable: false, variant: 'crud', onEdit: openMatch, disableEdit: (row) => !canMatch(row), editTooltip: (row) => row.transaction.matchedInvoiceId ? 'Matched to an invoice' : 'Match to invoice', onDelete: setPendingDelete, disableDelete: () => !canEdit, deleteTooltip: () => canEdit ? 'Delete transaction' : 'Captain rank required', tooltipSize: 'sm' },
+  ];
+
+  const tableData = useMemo(() => data.transactions
+    .filter((transaction) => typeFilter === 'all' || transaction.type === typeFilter)
+    .map((transaction): TransactionRow => ({
+      id: transaction._id,
+      date: transaction.date,
+      description: transaction.description,
+      type: transaction.type,
+      amount: signedStatementAmount(transaction),
+      currency: transaction.currency,
+      status: transaction.status,
+      source: SOURCE_LABELS[transaction.source ?? 'manual'],
+      transaction,
+    })), [data.transactions, typeFilter]);
+
+  // 🔍 Auto-search: filters all columns except actions
+  const { searchTerm, setSearchTerm, filteredData, totalCount, resultsCount, isFiltered } = useTableSearch({
+    data: tableData,
+    columns,
+  });
+
+  const importedCount = data.transactions.filter((transaction) => transaction.source && transaction.source !== 'manual').length;
+
+  return (
+    <Stack>
+      <div className="ft-transactions-page__metrics">
+        <Card.metric title="Transactions" value={computed.totalTransactions} />
+        <Card.metric title="Imported" value={importedCount} />
+        <Card.metric title="Payments" value={data.transactions.filter((transaction) => transaction.type === 'payment').length} />
+        <Card.metric title="Expenses" value={data.transactions.filter((transaction) => transaction.type === 'expense').length} />
+      </div>
+
+      <Table.toolbar
+        search={
+          <Search.bar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder="Search transactions..."
+            resultsCount={resultsCount}
+            totalCount={totalCount}
+          />
+        }
+        actions={
+          <div className="ft-transactions-page__actions">
+            <Input.select
+              value={typeFilter}
+              onChange={(value) => setTypeFilter(value as TypeFilter)}
+              options={TYPE_FILTERS}
+            />
+            <Button.secondary onClick={openRecurring}>Recurring</Button.secondary>
+            {canEdit && <Button.primary onClick={openImport}>Import statement</Button.primary>}
+          </div>
+        }
+      />
+
+      <Table.sortable
+        columns={columns}
+        data={filteredData}
+        defaultSortKey="date"
+        striped
+        bordered
+        isFiltered={isFiltered}
+      />
+
+      <Modal.dialogue
+        title="Match payment to invoice"
+        isOpen={matching !== null}
+        onClose={() => setMatching(null)}
+        actions={[
+          { label: 'Cancel', onClick: () => setMatching(null), variant: 'secondary' },
+          { label: 'Match', onClick: handleMatch, variant: 'primary' },
+        ]}
+      >
+        {matchOptions.length > 0 ? (
+          <Input.select
+            value={matchInvoiceId}
+            onChange={setMatchInvoiceId}
+            options={[{ value: '', label: 'Choose an invoice...' }, ...matchOptions]}
+          />
+        ) : (
+          <T.body>No issued invoice for {matching ? formatMoney(matching.amount, matching.currency) : ''} is waiting to be matched.</T.body>
+        )}
+      </Modal.dialogue>
+
+      <Modal.confirmation
+        isOpen={pendingDelete !== null}
+        title="Delete transaction?"
+        message={`"${pendingDelete?.description ?? 'This transaction'}" will be permanently removed.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </Stack>
+  );
+}
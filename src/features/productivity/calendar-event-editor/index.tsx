@@ -0,0 +1,340 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR EVENT EDITOR FEATURE                                     │
+│  /src/features/productivity/calendar-event-editor/index.tsx           │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (calendar events) + Convex calendar mutations           │
+│  - One form for create and edit; times are the viewer's local time    │
+│  - Repeat: preset or custom RRULE, described in plain English         │
+│  - Recurring events: skip one date or delete the whole series         │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './calendar-event-editor.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useFuse } from '@/store/fuse';
+import type { CalendarEvent } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { fromDateInput, toDateInput } from '@/lib/format';
+import { describeRRule, parseRRule } from '@/lib/rrule';
+import {
+  DAY_MS,
+  MINUTE_MS,
+  REPEAT_PRESETS,
+  eventWallClock,
+  formatWallTime,
+  repeatPresetFor,
+  storedTimes,
+  toWallClock,
+  validateCalendarEvent,
+  type RepeatPreset,
+} from '@/domains/calendar';
+
+type Timing = 'timed' | 'all_day';
+
+const TIMING_OPTIONS: { value: Timing; label: string }[] = [
+  { value: 'timed', label: 'At a time' },
+  { value: 'all_day', label: 'All day' },
+];
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface EventForm {
+  title: string;
+  timing: Timing;
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  repeat: RepeatPreset;
+  customRule: string;
+  location: string;
+  attendees: string;
+  description: string;
+}
+
+/** Wall-clock bounds shown in the form (all-day end dates are inclusive) */
+function formFromBounds(start: number, end: number, allDay: boolean): Pick<EventForm, 'timing' | 'startDate' | 'startTime' | 'endDate' | 'endTime'> {
+  return {
+    timing: allDay ? 'all_day' : 'timed',
+    startDate: toDateInput(start),
+    startTime: formatWallTime(start),
+    endDate: toDateInput(allDay ? Math.max(end - DAY_MS, start) : end),
+    endTime: formatWallTime(end),
+  };
+}
+
+function formFromEvent(event: CalendarEvent): EventForm {
+  const { start, end } = eventWallClock(event);
+  const repeat = repeatPresetFor(event.rrule);
+  return {
+    title: event.title,
+    ...formFromBounds(start, end, Boolean(event.allDay)),
+    repeat,
+    customRule: repeat === 'custom' ? event.rrule ?? '' : '',
+    location: event.location ?? '',
+    attendees: event.attendees.join(', '),
+    description: event.description ?? '',
+  };
+}
+
+/** "HH:MM" → ms after midnight, or null */
+function parseClock(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return (Number(match[1]) * 60 + Number(match[2])) * MINUTE_MS;
+}
+
+interface CalendarEventEditorFeatureProps {
+  eventId?: string;
+  /** Start of the clicked occurrence of a recurring event (the date "Skip" removes) */
+  occurrence?: number;
+  /** Wall-clock bounds for a new event (drag-to-create) */
+  start?: number;
+  end?: number;
+  allDay?: boolean;
+}
+
+export function CalendarEventEditorFeature({ eventId, occurrence, start, end, allDay }: CalendarEventEditorFeatureProps) {
+  const { data } = useProductivityData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createEvent = useMutation(api.domains.productivity.api.createCalendarEvent);
+  const updateEvent = useMutation(api.domains.productivity.api.updateCalendarEvent);
+  const deleteEvent = useMutation(api.domains.productivity.api.deleteCalendarEvent);
+
+  const event = eventId ? data.calendar.find((e) => e._id === eventId) : undefined;
+
+  const [form, setForm] = useState<EventForm>(() => {
+    if (event) return formFromEvent(event);
+    // New events start on the next hour unless a range was dragged out
+    const from = start ?? Math.ceil(toWallClock(Date.now()) / (60 * MINUTE_MS)) * 60 * MINUTE_MS;
+    return {
+      title: '',
+      ...formFromBounds(from, end ?? from + (allDay ? DAY_MS : 60 * MINUTE_MS), Boolean(allDay)),
+      repeat: 'none',
+      customRule: '',
+      location: '',
+      attendees: '',
+      description: '',
+    };
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (eventId && !event) {
+    return <T.body color="secondary">Event not found</T.body>;
+  }
+
+  const setField = (field: keyof EventForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const rrule = form.repeat === 'custom'
+    ? form.customRule.trim()
+    : REPEAT_PRESETS.find((preset) => preset.value === form.repeat)!.rrule;
+  const parsedRule = rrule ? parseRRule(rrule) : null;
+
+  /** Stored times from the form, or an error message */
+  const readTimes = (): { startTime: number; endTime: number } | string => {
+    const startDay = fromDateInput(form.startDate);
+    const endDay = fromDateInput(form.endDate);
+    if (startDay === null || endDay === null) return 'Start and end dates must be valid';
+    if (form.timing === 'all_day') return storedTimes(startDay, endDay + DAY_MS, true);
+
+    const startClock = parseClock(form.startTime);
+    const endClock = parseClock(form.endTime);
+    if (startClock === null || endClock === null) return 'Start and end times must be valid';
+    return storedTimes(startDay + startClock, endDay + endClock, false);
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const times = readTimes();
+    if (typeof times === 'string') {
+      setError(times);
+      return;
+    }
+    const isAllDay = form.timing === 'all_day';
+    const eventError = validateCalendarEvent({ title: form.title, ...times, allDay: isAllDay, rrule });
+    if (eventError) {
+      setError(eventError);
+      return;
+    }
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const attendees = form.attendees.split(/[,;\s]+/).map((a) => a.trim().toLowerCase()).filter(Boolean);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!event) {
+        await createEvent({
+          callerUserId,
+          title: form.title,
+          description: form.description,
+          location: form.location,
+          ...times,
+          allDay: isAllDay,
+          rrule: rrule || undefined,
+          attendees,
+        });
+      } else {
+        await updateEvent({
+          callerUserId,
+          eventId: event._id as Id<'productivity_calendar_Events'>,
+          title: form.title,
+          description: form.description || null,
+          location: form.location || null,
+          ...times,
+          allDay: isAllDay,
+          rrule: rrule || null,
+          attendees,
+        });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSkip = async () => {
+    if (!user?.id || !event || occurrence === undefined) return;
+    try {
+      await updateEvent({
+        callerUserId: user.id as Id<'admin_users'>,
+        eventId: event._id as Id<'productivity_calendar_Events'>,
+        exdates: [...(event.exdates ?? []), occurrence],
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not skip this date');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !event) return;
+    setConfirmDelete(false);
+    try {
+      await deleteEvent({
+        callerUserId: user.id as Id<'admin_users'>,
+        eventId: event._id as Id<'productivity_calendar_Events'>,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete event');
+    }
+  };
+
+  const isRecurring = Boolean(event?.rrule);
+
+  return (
+    <Stack className="ft-calendar-event-editor">
+      <label className="ft-calendar-event-editor__field">
+        <T.caption>Title</T.caption>
+        <Input.text value={form.title} onChange={setField('title')} placeholder="What's happening?" />
+      </label>
+
+      <label className="ft-calendar-event-editor__field">
+        <T.caption>Timing</T.caption>
+        <Input.select value={form.timing} onChange={setField('timing')} options={TIMING_OPTIONS} />
+      </label>
+
+      <div className="ft-calendar-event-editor__grid">
+        <label className="ft-calendar-event-editor__field">
+          <T.caption>Starts</T.caption>
+          <input type="date" className="vr-input-text" value={form.startDate} onChange={(e) => setField('startDate')(e.target.value)} />
+        </label>
+        {form.timing === 'timed' && (
+          <label className="ft-calendar-event-editor__field">
+            <T.caption>At</T.caption>
+            <input type="time" step={60} className="vr-input-text" value={form.startTime} onChange={(e) => setField('startTime')(e.target.value)} />
+          </label>
+        )}
+        <label className="ft-calendar-event-editor__field">
+          <T.caption>Ends</T.caption>
+          <input type="date" className="vr-input-text" value={form.endDate} onChange={(e) => setField('endDate')(e.target.value)} />
+        </label>
+        {form.timing === 'timed' && (
+          <label className="ft-calendar-event-editor__field">
+            <T.caption>At</T.caption>
+            <input type="time" step={60} className="vr-input-text" value={form.endTime} onChange={(e) => setField('endTime')(e.target.value)} />
+          </label>
+        )}
+      </div>
+
+      <label className="ft-calendar-event-editor__field">
+        <T.caption>Repeat</T.caption>
+        <Input.select
+          value={form.repeat}
+          onChange={setField('repeat')}
+          options={REPEAT_PRESETS.map(({ value, label }) => ({ value, label }))}
+        />
+      </label>
+      {form.repeat === 'custom' && (
+        <label className="ft-calendar-event-editor__field">
+          <T.caption>RRULE</T.caption>
+          <Input.text value={form.customRule} onChange={setField('customRule')} placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH" />
+        </label>
+      )}
+      {parsedRule && (
+        <T.caption color="secondary">
+          {'error' in parsedRule ? parsedRule.error : describeRRule(parsedRule.rule)}
+        </T.caption>
+      )}
+
+      <label className="ft-calendar-event-editor__field">
+        <T.caption>Location</T.caption>
+        <Input.text value={form.location} onChange={setField('location')} />
+      </label>
+
+      <label className="ft-calendar-event-editor__field">
+        <T.caption>Attendees</T.caption>
+        <Input.text value={form.attendees} onChange={setField('attendees')} placeholder="Emails, separated by commas" />
+      </label>
+
+      <label className="ft-calendar-event-editor__field">
+        <T.caption>Notes</T.caption>
+        <Input.textarea value={form.description} onChange={setField('description')} rows={4} />
+      </label>
+
+      {error && <Label.error message={error} />}
+
+      <div className="ft-calendar-event-editor__actions">
+        {event && (
+          <div className="ft-calendar-event-editor__secondary">
+            <Button.danger onClick={() => setConfirmDelete(true)}>{isRecurring ? 'Delete series' : 'Delete'}</Button.danger>
+            {isRecurring && occurrence !== undefined && (
+              <Button.ghost onClick={handleSkip}>Skip this date</Button.ghost>
+            )}
+          </div>
+        )}
+        <Button.primary onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : event ? 'Save event' : 'Add event'}
+        </Button.primary>
+      </div>
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title={isRecurring ? 'Delete every occurrence?' : 'Delete event?'}
+        message={isRecurring
+          ? `${event?.title ?? 'This event'} and all of its repeats will be deleted. Use "Skip this date" to remove just one.`
+          : `${event?.title ?? 'This event'} will be deleted.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
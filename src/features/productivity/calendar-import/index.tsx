@@ -0,0 +1,185 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR IMPORT FEATURE                                           │
+│  /src/features/productivity/calendar-import/index.tsx                 │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Reads an .ics file (Google, Outlook, Apple Calendar exports)       │
+│    in the browser                                                     │
+│  - Preview flags events already in the calendar (same UID)            │
+│  - Commits in batches via importCalendarEvents                        │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './calendar-import.css';
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useFuse } from '@/store/fuse';
+import { Badge, Button, Label, Stack, T, Table } from '@/vr';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { describeRRule, parseRRule } from '@/lib/rrule';
+import {
+  CALENDAR_IMPORT_BATCH_SIZE,
+  eventUid,
+  eventWallClock,
+  formatWallTime,
+  parseIcs,
+  type IcsParseResult,
+} from '@/domains/calendar';
+
+type PreviewRow = {
+  id: string;
+  title: string;
+  when: number;
+  whenLabel: string;
+  repeats: string;
+  isUpdate: boolean;
+};
+
+interface ImportSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+const ROW_BADGES = {
+  new: { variant: 'success', label: 'New' },
+  update: { variant: 'warning', label: 'Update' },
+} as const;
+
+const formatWallDate = (wall: number) =>
+  new Date(wall).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' });
+
+export function CalendarImportFeature() {
+  const { data } = useProductivityData();
+  const user = useFuse((state) => state.user);
+  const importEvents = useMutation(api.domains.productivity.api.importCalendarEvents);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<IcsParseResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setFileName(selected.name);
+    setParsed(parseIcs(await selected.text()));
+    setSummary(null);
+    setError(null);
+  };
+
+  const known = useMemo(() => new Set(data.calendar.map(eventUid)), [data.calendar]);
+
+  const preview = useMemo(() => (parsed?.events ?? []).map((draft, index): PreviewRow => {
+    const { start } = eventWallClock(draft);
+    const rule = draft.rrule ? parseRRule(draft.rrule) : null;
+    return {
+      id: `${index}`,
+      title: draft.title,
+      when: start,
+      whenLabel: draft.allDay ? `${formatWallDate(start)} · All day` : `${formatWallDate(start)} ${formatWallTime(start)}`,
+      repeats: rule && 'rule' in rule ? describeRRule(rule.rule) : '—',
+      isUpdate: known.has(draft.uid),
+    };
+  }), [parsed, known]);
+
+  const events = parsed?.events ?? [];
+  const updates = preview.filter((row) => row.isUpdate).length;
+
+  const handleImport = async () => {
+    if (!user?.id || events.length === 0) return;
+    setIsImporting(true);
+    setError(null);
+    setProgress(0);
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const totals: ImportSummary = { inserted: 0, updated: 0, skipped: 0 };
+    try {
+      for (let start = 0; start < events.length; start += CALENDAR_IMPORT_BATCH_SIZE) {
+        const batch = events.slice(start, start + CALENDAR_IMPORT_BATCH_SIZE);
+        const result = await importEvents({ callerUserId, events: batch });
+        totals.inserted += result.inserted;
+        totals.updated += result.updated;
+        totals.skipped += result.skipped;
+        setProgress((current) => current + batch.length);
+      }
+      setSummary(totals);
+      setParsed(null);
+      setFileName(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setSummary(totals.inserted + totals.updated > 0 ? totals : null);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columns: SortableColumn<PreviewRow>[] = [
+    { key: 'title', header: 'Event', sortable: true, width: '34%' },
+    { key: 'when', header: 'Starts', sortable: true, width: '22%', render: (_value, row) => row.whenLabel },
+    { key: 'repeats', header: 'Repeats', sortable: true, width: '28%' },
+    { key: 'isUpdate', header: 'Status', sortable: true, width: '16%', render: (_value, row) => {
+      const badge = ROW_BADGES[row.isUpdate ? 'update' : 'new'];
+      return <Badge.status variant={badge.variant}>{badge.label}</Badge.status>;
+    } },
+  ];
+
+  return (
+    <Stack className="ft-calendar-import">
+      <label className="ft-calendar-import__field">
+        <T.caption>Calendar file</T.caption>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,.ical,.ifb,.icalendar,text/calendar"
+          className="vr-input-text"
+          onChange={handleFile}
+          disabled={isImporting}
+        />
+      </label>
+
+      {fileName && <T.caption color="secondary">{fileName}</T.caption>}
+
+      {parsed && parsed.errors.length > 0 && (
+        <ul className="ft-calendar-import__errors">
+          {parsed.errors.slice(0, 10).map((message) => (
+            <li key={message}><T.caption color="muted">{message}</T.caption></li>
+          ))}
+          {parsed.errors.length > 10 && (
+            <li><T.caption color="muted">{`…and ${parsed.errors.length - 10} more`}</T.caption></li>
+          )}
+        </ul>
+      )}
+
+      {preview.length > 0 && (
+        <>
+          <T.body size="sm" color="secondary">
+            {`${preview.length} events · ${preview.length - updates} new · ${updates} already in the calendar`}
+          </T.body>
+          <Table.sortable columns={columns} data={preview} defaultSortKey="when" defaultSortDirection="asc" striped bordered />
+        </>
+      )}
+
+      {summary && (
+        <T.body size="sm" color="success">
+          {`Imported ${summary.inserted} events, updated ${summary.updated}${summary.skipped ? ` (${summary.skipped} skipped)` : ''}`}
+        </T.body>
+      )}
+      {error && <Label.error message={error} />}
+
+      <div className="ft-calendar-import__actions">
+        <Button.primary onClick={handleImport} disabled={isImporting || events.length === 0}>
+          {isImporting ? `Importing ${progress}/${events.length}...` : `Import ${events.length} events`}
+        </Button.primary>
+      </div>
+    </Stack>
+  );
+}
@@ -0,0 +1,60 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 AGENDA LIST                                                       │
+│  /src/features/productivity/calendar-view/AgendaList.tsx              │
+│                                                                       │
+│  The next 30 days as a list, grouped by day. Days with nothing on     │
+│  are left out.                                                        │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { T } from '@/vr';
+import {
+  formatWallTime,
+  occurrencesOnDay,
+  type CalendarOccurrence,
+} from '@/domains/calendar';
+
+interface AgendaListProps {
+  /** Wall-clock midnights in the range */
+  days: number[];
+  occurrences: CalendarOccurrence[];
+  today: number;
+  onOpen: (occurrence: CalendarOccurrence) => void;
+}
+
+export function AgendaList({ days, occurrences, today, onOpen }: AgendaListProps) {
+  const busyDays = days
+    .map((day) => ({ day, listed: occurrencesOnDay(occurrences, day) }))
+    .filter(({ listed }) => listed.length > 0);
+
+  if (busyDays.length === 0) {
+    return <T.body color="secondary">Nothing scheduled in these 30 days.</T.body>;
+  }
+
+  return (
+    <div className="ft-calendar-view__agenda">
+      {busyDays.map(({ day, listed }) => (
+        <section key={day} className="ft-calendar-view__agenda-day">
+          <T.h4>
+            {`${day === today ? 'Today · ' : ''}${new Date(day).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' })}`}
+          </T.h4>
+          {listed.map((occurrence) => (
+            <button
+              key={`${occurrence.eventId}-${occurrence.instant}`}
+              type="button"
+              className="ft-calendar-view__agenda-item"
+              onClick={() => onOpen(occurrence)}
+            >
+              <T.caption color="secondary" className="ft-calendar-view__agenda-time">
+                {occurrence.allDay ? 'All day' : `${formatWallTime(occurrence.start)} – ${formatWallTime(occurrence.end)}`}
+              </T.caption>
+              <T.body size="sm" weight="semibold">{occurrence.recurring ? `↻ ${occurrence.title}` : occurrence.title}</T.body>
+              {occurrence.location && <T.caption color="secondary">{occurrence.location}</T.caption>}
+            </button>
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 MONTH GRID                                                        │
+│  /src/features/productivity/calendar-view/MonthGrid.tsx               │
+│                                                                       │
+│  Six weeks, Monday first. Dragging across days creates an all-day     │
+│  event; dragging an event to another day moves it (times kept).       │
+│  Busy days show the first few events and a "+N more" link to the      │
+│  day view.                                                            │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useState, type PointerEvent } from 'react';
+import { T } from '@/vr';
+import {
+  DAY_MS,
+  formatWallTime,
+  occurrencesOnDay,
+  type CalendarOccurrence,
+} from '@/domains/calendar';
+
+/** Events listed per day before "+N more" */
+const MAX_CHIPS = 3;
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+type DragState =
+  | { kind: 'create'; anchor: number; current: number }
+  | { kind: 'move'; occurrence: CalendarOccurrence; origin: number; target: number; isSaving: boolean };
+
+interface MonthGridProps {
+  /** 42 wall-clock midnights */
+  days: number[];
+  /** Month being shown (0-11); other days are dimmed */
+  month: number;
+  occurrences: CalendarOccurrence[];
+  today: number;
+  onCreate: (start: number, end: number, allDay: boolean) => void;
+  onOpen: (occurrence: CalendarOccurrence) => void;
+  onMove: (occurrence: CalendarOccurrence, delta: number) => Promise<void>;
+  onShowDay: (day: number) => void;
+}
+
+export function MonthGrid({ days, month, occurrences, today, onCreate, onOpen, onMove, onShowDay }: MonthGridProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const beginCreate = (day: number) => (event: PointerEvent<HTMLDivElement>) => {
+    if (drag || event.button !== 0) return;
+    setDrag({ kind: 'create', anchor: day, current: day });
+  };
+
+  const beginMove = (occurrence: CalendarOccurrence, day: number) => (event: PointerEvent<HTMLButtonElement>) => {
+    event.stopPropagation();
+    if (drag || event.button !== 0) return;
+    setDrag({ kind: 'move', occurrence, origin: day, target: day, isSaving: false });
+  };
+
+  const handleEnter = (day: number) => {
+    if (drag?.kind === 'create' && drag.current !== day) setDrag({ ...drag, current: day });
+    if (drag?.kind === 'move' && !drag.isSaving && drag.target !== day) setDrag({ ...drag, target: day });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag) return;
+
+    if (drag.kind === 'create') {
+      setDrag(null);
+      onCreate(Math.min(drag.anchor, drag.current), Math.max(drag.anchor, drag.current) + DAY_MS, true);
+      return;
+    }
+
+    if (drag.isSaving) return;
+    if (drag.target === drag.origin) {
+      setDrag(null);
+      onOpen(drag.occurrence);
+      return;
+    }
+    setDrag({ ...drag, isSaving: true });
+    try {
+      await onMove(drag.occurrence, drag.target - drag.origin);
+    } finally {
+      setDrag(null);
+    }
+  };
+
+  const cancelDrag = () => {
+    if (drag?.kind !== 'move' || !drag.isSaving) setDrag(null);
+  };
+
+  const isSelected = (day: number) =>
+    drag?.kind === 'create' && day >= Math.min(drag.anchor, drag.current) && day <= Math.max(drag.anchor, drag.current);
+
+  return (
+    <div
+      className={`ft-calendar-view__month${drag ? ' ft-calendar-view__month--dragging' : ''}`}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={cancelDrag}
+    >
+      {WEEKDAY_LABELS.map((label) => (
+        <T.caption key={label} color="secondary" className="ft-calendar-view__weekday">{label}</T.caption>
+      ))}
+
+      {days.map((day) => {
+        const date = new Date(day);
+        const listed = occurrencesOnDay(occurrences, day);
+        const classes = [
+          'ft-calendar-view__cell',
+          date.getUTCMonth() !== month ? 'ft-calendar-view__cell--outside' : '',
+          day === today ? 'ft-calendar-view__cell--today' : '',
+          isSelected(day) ? 'ft-calendar-view__cell--selected' : '',
+          drag?.kind === 'move' && drag.target === day ? 'ft-calendar-view__cell--target' : '',
+        ].filter(Boolean).join(' ');
+
+        return (
+          <div
+            key={day}
+            className={classes}
+            onPointerDown={beginCreate(day)}
+            onPointerEnter={() => handleEnter(day)}
+          >
+            <button
+              type="button"
+              className="ft-calendar-view__date"
+              onPointerDown={(event) => event.stopPropagation()}
+              onClick={() => onShowDay(day)}
+            >
+              <T.caption weight={day === today ? 'medium' : 'normal'}>{String(date.getUTCDate())}</T.caption>
+            </button>
+
+            {listed.slice(0, MAX_CHIPS).map((occurrence) => (
+              <button
+                key={`${occurrence.eventId}-${occurrence.instant}`}
+                type="button"
+                className={`ft-calendar-view__chip${occurrence.allDay ? ' ft-calendar-view__chip--all-day' : ''}${drag?.kind === 'move' && drag.occurrence.eventId === occurrence.eventId && drag.occurrence.instant === occurrence.instant ? ' ft-calendar-view__chip--moving' : ''}`}
+                onPointerDown={beginMove(occurrence, day)}
+                // Pointer clicks open on release; keyboard clicks (detail 0) open here
+                onClick={(event) => event.detail === 0 && onOpen(occurrence)}
+                title={occurrence.title}
+              >
+                <T.caption className="ft-calendar-view__chip-text">
+                  {occurrence.allDay || occurrence.start < day ? occurrence.title : `${formatWallTime(occurrence.start)} ${occurrence.title}`}
+                </T.caption>
+              </button>
+            ))}
+            {listed.length > MAX_CHIPS && (
+              <button
+                type="button"
+                className="ft-calendar-view__more"
+                onPointerDown={(event) => event.stopPropagation()}
+                onClick={() => onShowDay(day)}
+              >
+                <T.caption color="secondary">{`+${listed.length - MAX_CHIPS} more`}</T.caption>
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 TIME GRID                                                         │
+│  /src/features/productivity/calendar-view/TimeGrid.tsx                │
+│                                                                       │
+│  Week and day views: an SVG strip of all-day events over a            │
+│  scrolling SVG of hours. Dragging on empty space creates an event;    │
+│  dragging an event previews the move and saves it on release.        │
+│  Everything snaps to 15 minutes.                                      │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useEffect, useRef, useState, type PointerEvent, type RefObject } from 'react';
+import {
+  DAY_MS,
+  MINUTE_MS,
+  SLOT_MINUTES,
+  formatWallTime,
+  layoutDay,
+  occurrencesOnDay,
+  snapToSlot,
+  startOfDay,
+  type CalendarOccurrence,
+} from '@/domains/calendar';
+
+// SVG user units - both SVGs share the width so their columns line up
+const VIEW_WIDTH = 1000;
+const GUTTER = 56;
+const HEADER_HEIGHT = 30;
+const ALL_DAY_ROW = 22;
+const HOUR_HEIGHT = 44;
+const EVENT_INSET = 2;
+/** Approximate width of one character of event text */
+const CHAR_WIDTH = 6.5;
+/** The hour grid opens scrolled to the start of the working day */
+const SCROLL_TO_HOUR = 8;
+
+const HOUR_MS = 60 * MINUTE_MS;
+const SLOT_MS = SLOT_MINUTES * MINUTE_MS;
+const BODY_HEIGHT = 24 * HOUR_HEIGHT;
+
+type DragState =
+  | { kind: 'create'; allDay: boolean; anchor: number; current: number }
+  | { kind: 'move'; occurrence: CalendarOccurrence; originX: number; originY: number; delta: number; isSaving: boolean };
+
+interface TimeGridProps {
+  /** Wall-clock midnights, one column each */
+  days: number[];
+  occurrences: CalendarOccurrence[];
+  /** Wall-clock now */
+  now: number;
+  onCreate: (start: number, end: number, allDay: boolean) => void;
+  onOpen: (occurrence: CalendarOccurrence) => void;
+  onMove: (occurrence: CalendarOccurrence, delta: number) => Promise<void>;
+}
+
+const sameOccurrence = (a: CalendarOccurrence, b: CalendarOccurrence) => a.eventId === b.eventId && a.instant === b.instant;
+
+/** Trim text to the room it has */
+function fitText(text: string, width: number): string {
+  const room = Math.floor((width - 8) / CHAR_WIDTH);
+  if (room <= 1) return '';
+  return text.length <= room ? text : `${text.slice(0, room - 1)}…`;
+}
+
+export function TimeGrid({ days, occurrences, now, onCreate, onOpen, onMove }: TimeGridProps) {
+  const headRef = useRef<SVGSVGElement>(null);
+  const bodyRef = useRef<SVGSVGElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const columnWidth = (VIEW_WIDTH - GUTTER) / days.length;
+  const today = startOfDay(now);
+  const columnX = (index: number) => GUTTER + index * columnWidth;
+
+  useEffect(() => {
+    const scroll = scrollRef.current;
+    const body = bodyRef.current;
+    if (!scroll || !body) return;
+    scroll.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT * (body.getBoundingClientRect().width / VIEW_WIDTH);
+  }, []);
+
+  // ─────────────────────────────────────────────────────────────────────
+  // GEOMETRY
+  // ─────────────────────────────────────────────────────────────────────
+  const pointAt = (svg: RefObject<SVGSVGElement | null>, event: PointerEvent<SVGElement>) => {
+    const rect = svg.current!.getBoundingClientRect();
+    const scale = VIEW_WIDTH / rect.width;
+    return { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale };
+  };
+  const dayAt = (x: number) => days[Math.min(Math.max(Math.floor((x - GUTTER) / columnWidth), 0), days.length - 1)];
+  const timeAt = (y: number) => Math.min(Math.max((y / HOUR_HEIGHT) * HOUR_MS, 0), DAY_MS);
+  const yOf = (offset: number) => (offset / HOUR_MS) * HOUR_HEIGHT;
+
+  // The dragged occurrence is drawn where it would land
+  const shown = occurrences.map((occurrence) =>
+    drag?.kind === 'move' && sameOccurrence(drag.occurrence, occurrence)
+      ? { ...occurrence, start: occurrence.start + drag.delta, end: occurrence.end + drag.delta }
+      : occurrence
+  );
+  const allDayByDay = days.map((day) => occurrencesOnDay(shown.filter((occurrence) => occurrence.allDay), day));
+  const allDayRows = Math.max(1, ...allDayByDay.map((list) => list.length));
+  const headHeight = HEADER_HEIGHT + allDayRows * ALL_DAY_ROW + 6;
+
+  // ─────────────────────────────────────────────────────────────────────
+  // DRAG TO CREATE / MOVE
+  // ─────────────────────────────────────────────────────────────────────
+  const beginCreate = (allDay: boolean, svg: RefObject<SVGSVGElement | null>) => (event: PointerEvent<SVGRectElement>) => {
+    if (drag) return;
+    const { x, y } = pointAt(svg, event);
+    const day = dayAt(x);
+    const anchor = allDay ? day : day + Math.floor(timeAt(y) / SLOT_MS) * SLOT_MS;
+    event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+    setDrag({ kind: 'create', allDay, anchor, current: anchor });
+  };
+
+  const beginMove = (occurrence: CalendarOccurrence, svg: RefObject<SVGSVGElement | null>) => (event: PointerEvent<SVGElement>) => {
+    event.stopPropagation();
+    if (drag) return;
+    const { x, y } = pointAt(svg, event);
+    event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+    setDrag({ kind: 'move', occurrence, originX: x, originY: y, delta: 0, isSaving: false });
+  };
+
+  const handlePointerMove = (svg: RefObject<SVGSVGElement | null>) => (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const { x, y } = pointAt(svg, event);
+
+    if (drag.kind === 'create') {
+      const current = drag.allDay ? dayAt(x) : snapToSlot(startOfDay(drag.anchor) + timeAt(y));
+      if (current !== drag.current) setDrag({ ...drag, current });
+      return;
+    }
+
+    if (drag.isSaving) return;
+    const dayShift = Math.round((x - drag.originX) / columnWidth) * DAY_MS;
+    const timeShift = drag.occurrence.allDay ? 0 : snapToSlot(((y - drag.originY) / HOUR_HEIGHT) * HOUR_MS);
+    if (dayShift + timeShift !== drag.delta) setDrag({ ...drag, delta: dayShift + timeShift });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag) return;
+
+    if (drag.kind === 'create') {
+      setDrag(null);
+      const start = Math.min(drag.anchor, drag.current);
+      const end = Math.max(drag.anchor, drag.current);
+      // A click (no drag) books an hour
+      if (drag.allDay) onCreate(start, end + DAY_MS, true);
+      else onCreate(start, end - start < SLOT_MS ? start + HOUR_MS : end, false);
+      return;
+    }
+
+    if (drag.isSaving) return;
+    if (drag.delta === 0) {
+      setDrag(null);
+      onOpen(drag.occurrence);
+      return;
+    }
+    // Keep the preview on screen until the new times arrive through FUSE
+    setDrag({ ...drag, isSaving: true });
+    try {
+      await onMove(drag.occurrence, drag.delta);
+    } finally {
+      setDrag(null);
+    }
+  };
+
+  const cancelDrag = () => {
+    if (drag?.kind !== 'move' || !drag.isSaving) setDrag(null);
+  };
+
+  const createRange = drag?.kind === 'create'
+    ? { from: Math.min(drag.anchor, drag.current), to: Math.max(drag.anchor, drag.current) }
+    : null;
+
+  return (
+    <div className="ft-calendar-view__time-grid">
+      <svg
+        ref={headRef}
+        className={`ft-calendar-view__svg${drag ? ' ft-calendar-view__svg--dragging' : ''}`}
+        viewBox={`0 0 ${VIEW_WIDTH} ${headHeight}`}
+        onPointerMove={handlePointerMove(headRef)}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={cancelDrag}
+      >
+        <text x={GUTTER - 6} y={HEADER_HEIGHT + ALL_DAY_ROW / 2 + 4} className="ft-calendar-view__hour" textAnchor="end">
+          {'All day'}
+        </text>
+
+        {days.map((day, index) => {
+          const date = new Date(day);
+          const selected = drag?.kind === 'create' && drag.allDay && createRange !== null &&
+            day >= createRange.from && day <= createRange.to;
+          return (
+            <g key={day}>
+              <text
+                x={columnX(index) + columnWidth / 2}
+                y={20}
+                textAnchor="middle"
+                className={`ft-calendar-view__day-label${day === today ? ' ft-calendar-view__day-label--today' : ''}`}
+              >
+                {date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', timeZone: 'UTC' })}
+              </text>
+              <rect
+                x={columnX(index)}
+                y={HEADER_HEIGHT}
+                width={columnWidth}
+                height={allDayRows * ALL_DAY_ROW}
+                className={`ft-calendar-view__slot${selected ? ' ft-calendar-view__slot--selected' : ''}`}
+                onPointerDown={beginCreate(true, headRef)}
+              />
+              {allDayByDay[index].map((occurrence, row) => (
+                <g
+                  key={`${occurrence.eventId}-${occurrence.instant}`}
+                  className={`ft-calendar-view__event${drag?.kind === 'move' && sameOccurrence(drag.occurrence, occurrence) ? ' ft-calendar-view__event--moving' : ''}`}
+                  onPointerDown={beginMove(occurrence, headRef)}
+                >
+                  <rect
+                    x={columnX(index) + EVENT_INSET}
+                    y={HEADER_HEIGHT + row * ALL_DAY_ROW + EVENT_INSET}
+                    width={columnWidth - EVENT_INSET * 2}
+                    height={ALL_DAY_ROW - EVENT_INSET * 2}
+                    rx={3}
+                  />
+                  <text x={columnX(index) + 6} y={HEADER_HEIGHT + row * ALL_DAY_ROW + 15}>
+                    {fitText(occurrence.title, columnWidth)}
+                  </text>
+                  <title>{occurrence.title}</title>
+                </g>
+              ))}
+            </g>
+          );
+        })}
+        <line x1={0} y1={headHeight - 1} x2={VIEW_WIDTH} y2={headHeight - 1} className="ft-calendar-view__rule" />
+      </svg>
+
+      <div ref={scrollRef} className="ft-calendar-view__scroll">
+        <svg
+          ref={bodyRef}
+          className={`ft-calendar-view__svg${drag ? ' ft-calendar-view__svg--dragging' : ''}`}
+          viewBox={`0 0 ${VIEW_WIDTH} ${BODY_HEIGHT}`}
+          onPointerMove={handlePointerMove(bodyRef)}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={cancelDrag}
+        >
+          {days.map((day, index) => (
+            <rect
+              key={day}
+              x={columnX(index)}
+              y={0}
+              width={columnWidth}
+              height={BODY_HEIGHT}
+              className={`ft-calendar-view__slot${day === today ? ' ft-calendar-view__slot--today' : ''}`}
+              onPointerDown={beginCreate(false, bodyRef)}
+            />
+          ))}
+
+          {Array.from({ length: 24 }, (_, hour) => (
+            <g key={hour}>
+              <line x1={GUTTER} y1={hour * HOUR_HEIGHT} x2={VIEW_WIDTH} y2={hour * HOUR_HEIGHT} className="ft-calendar-view__rule" />
+              {hour > 0 && (
+                <text x={GUTTER - 6} y={hour * HOUR_HEIGHT + 4} className="ft-calendar-view__hour" textAnchor="end">
+                  {`${String(hour).padStart(2, '0')}:00`}
+                </text>
+              )}
+            </g>
+          ))}
+          {days.map((day, index) => (
+            <line key={day} x1={columnX(index)} y1={0} x2={columnX(index)} y2={BODY_HEIGHT} className="ft-calendar-view__rule" />
+          ))}
+
+          {/* Drag-to-create preview */}
+          {createRange && drag?.kind === 'create' && !drag.allDay && (
+            <rect
+              x={columnX(days.indexOf(startOfDay(drag.anchor))) + EVENT_INSET}
+              y={yOf(createRange.from - startOfDay(drag.anchor))}
+              width={columnWidth - EVENT_INSET * 2}
+              height={Math.max(yOf(createRange.to - createRange.from), yOf(SLOT_MS))}
+              rx={4}
+              className="ft-calendar-view__preview"
+            />
+          )}
+
+          {days.map((day, index) =>
+            layoutDay(occurrencesOnDay(shown, day)).map(({ occurrence, column, columns }) => {
+              const top = yOf(Math.max(occurrence.start, day) - day);
+              const bottom = yOf(Math.min(occurrence.end, day + DAY_MS) - day);
+              const height = Math.max(bottom - top, yOf(SLOT_MS));
+              const width = columnWidth / columns - EVENT_INSET * 2;
+              const x = columnX(index) + (columnWidth / columns) * column + EVENT_INSET;
+              const isMoving = drag?.kind === 'move' && sameOccurrence(drag.occurrence, occurrence);
+              const times = `${formatWallTime(occurrence.start)} – ${formatWallTime(occurrence.end)}`;
+              return (
+                <g
+                  key={`${occurrence.eventId}-${occurrence.instant}`}
+                  className={`ft-calendar-view__event${isMoving ? ' ft-calendar-view__event--moving' : ''}`}
+                  onPointerDown={beginMove(occurrence, bodyRef)}
+                >
+                  <rect x={x} y={top + 1} width={width} height={height - 2} rx={4} />
+                  <text x={x + 4} y={top + 14}>{fitText(occurrence.title, width)}</text>
+                  {height >= 34 && (
+                    <text x={x + 4} y={top + 28} className="ft-calendar-view__event-time">{fitText(times, width)}</text>
+                  )}
+                  <title>{`${occurrence.title} · ${times}${occurrence.location ? ` · ${occurrence.location}` : ''}`}</title>
+                </g>
+              );
+            })
+          )}
+
+          {/* Now */}
+          {days.includes(today) && (
+            <line
+              x1={columnX(days.indexOf(today))}
+              y1={yOf(now - today)}
+              x2={columnX(days.indexOf(today)) + columnWidth}
+              y2={yOf(now - today)}
+              className="ft-calendar-view__now"
+            />
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+}
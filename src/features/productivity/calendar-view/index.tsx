@@ -0,0 +1,167 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📅 CALENDAR VIEW FEATURE                                             │
+│  /src/features/productivity/calendar-view/index.tsx                   │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useProductivityData - calendar events kept live by     │
+│    ProductivityProvider) + updateCalendarEvent for drag-to-move       │
+│  - Month / week / day / agenda views of the expanded occurrences      │
+│  - Drag on empty space to create, drag an event to move it            │
+│    (moving one date of a repeating event moves the series)            │
+│  - .ics import (drawer) and export (download)                         │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './calendar-view.css';
+import { useMemo, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Button, Label, Stack, T, Tabs } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useFuse } from '@/store/fuse';
+import { downloadFile } from '@/lib/utils';
+import {
+  CALENDAR_VIEWS,
+  DAY_MS,
+  eventsToIcs,
+  expandEvents,
+  rangeLabel,
+  shiftAnchor,
+  shiftEvent,
+  startOfDay,
+  toWallClock,
+  viewRange,
+  type CalendarOccurrence,
+  type CalendarView,
+} from '@/domains/calendar';
+import { CalendarEventEditorFeature } from '@/features/productivity/calendar-event-editor';
+import { CalendarImportFeature } from '@/features/productivity/calendar-import';
+import { AgendaList } from './AgendaList';
+import { MonthGrid } from './MonthGrid';
+import { TimeGrid } from './TimeGrid';
+
+export function CalendarViewFeature() {
+  const { data } = useProductivityData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const updateEvent = useMutation(api.domains.productivity.api.updateCalendarEvent);
+
+  const now = toWallClock(Date.now());
+  const today = startOfDay(now);
+
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(today);
+  const [error, setError] = useState<string | null>(null);
+
+  const { from, to } = viewRange(view, anchor);
+  const occurrences = useMemo(() => expandEvents(data.calendar, from, to), [data.calendar, from, to]);
+  const days = useMemo(
+    () => Array.from({ length: Math.round((to - from) / DAY_MS) }, (_, index) => from + index * DAY_MS),
+    [from, to]
+  );
+
+  const openEvent = (occurrence: CalendarOccurrence) => {
+    openDrawer({
+      content: (
+        <CalendarEventEditorFeature
+          eventId={occurrence.eventId}
+          occurrence={occurrence.recurring ? occurrence.instant : undefined}
+        />
+      ),
+      title: occurrence.title,
+      subtitle: occurrence.recurring ? 'Repeating event' : undefined,
+    });
+  };
+
+  const newEvent = (start?: number, end?: number, allDay?: boolean) => {
+    openDrawer({
+      content: <CalendarEventEditorFeature start={start} end={end} allDay={allDay} />,
+      title: 'New event',
+    });
+  };
+
+  const moveOccurrence = async (occurrence: CalendarOccurrence, delta: number) => {
+    const event = data.calendar.find((candidate) => candidate._id === occurrence.eventId);
+    if (!event || !user?.id) return;
+    setError(null);
+    try {
+      await updateEvent({
+        callerUserId: user.id as Id<'admin_users'>,
+        eventId: event._id as Id<'productivity_calendar_Events'>,
+        ...shiftEvent(event, delta),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not move event');
+    }
+  };
+
+  const showDay = (day: number) => {
+    setView('day');
+    setAnchor(day);
+  };
+
+  const openImport = () => {
+    openDrawer({
+      content: <CalendarImportFeature />,
+      title: 'Import calendar',
+      subtitle: '.ics from Google, Outlook or Apple Calendar - re-imports update events',
+    });
+  };
+
+  const exportCalendar = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(eventsToIcs(data.calendar, Date.now()), `calendar-${stamp}.ics`, 'text/calendar');
+  };
+
+  return (
+    <Stack>
+      <div className="ft-calendar-view__toolbar">
+        <Tabs.simple tabs={CALENDAR_VIEWS} activeTab={view} onTabChange={(id) => setView(id as CalendarView)} />
+        <div className="ft-calendar-view__actions">
+          <Button.secondary onClick={openImport}>Import .ics</Button.secondary>
+          <Button.secondary onClick={exportCalendar} disabled={data.calendar.length === 0}>Export .ics</Button.secondary>
+          <Button.primary onClick={() => newEvent()}>New event</Button.primary>
+        </div>
+      </div>
+
+      <div className="ft-calendar-view__nav">
+        <Button.ghost onClick={() => setAnchor(shiftAnchor(view, anchor, -1))} aria-label="Previous">‹</Button.ghost>
+        <Button.ghost onClick={() => setAnchor(today)}>Today</Button.ghost>
+        <Button.ghost onClick={() => setAnchor(shiftAnchor(view, anchor, 1))} aria-label="Next">›</Button.ghost>
+        <T.h4>{rangeLabel(view, anchor)}</T.h4>
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      {view === 'month' && (
+        <MonthGrid
+          days={days}
+          month={new Date(anchor).getUTCMonth()}
+          occurrences={occurrences}
+          today={today}
+          onCreate={newEvent}
+          onOpen={openEvent}
+          onMove={moveOccurrence}
+          onShowDay={showDay}
+        />
+      )}
+      {(view === 'week' || view === 'day') && (
+        <TimeGrid
+          key={view}
+          days={days}
+          occurrences={occurrences}
+          now={now}
+          onCreate={newEvent}
+          onOpen={openEvent}
+          onMove={moveOccurrence}
+        />
+      )}
+      {view === 'agenda' && (
+        <AgendaList days={days} occurrences={occurrences} today={today} onOpen={openEvent} />
+      )}
+    </Stack>
+  );
+}
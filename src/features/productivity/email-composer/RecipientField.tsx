@@ -0,0 +1,65 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  👥 RECIPIENT FIELD                                                   │
+│  /src/features/productivity/email-composer/RecipientField.tsx         │
+│                                                                       │
+│  Comma-separated To/Cc/Bcc line with contact autocomplete: the entry  │
+│  being typed is matched against the org's contacts.                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button, Input, T } from '@/vr';
+import { contactDisplayName } from '@/domains/clients';
+import {
+  completeEntry,
+  parseAddresses,
+  pendingEntry,
+  suggestRecipients,
+  type RecipientContact,
+} from '@/domains/email';
+
+interface RecipientFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  contacts: RecipientContact[];
+  autoFocus?: boolean;
+}
+
+export function RecipientField({ label, value, onChange, contacts, autoFocus }: RecipientFieldProps) {
+  const [isFocused, setIsFocused] = useState(false);
+
+  const taken = parseAddresses(value).addresses.map((address) => address.email);
+  const suggestions = isFocused ? suggestRecipients(pendingEntry(value), contacts, taken) : [];
+
+  const pick = (contact: RecipientContact) => {
+    onChange(completeEntry(value, { name: contactDisplayName(contact), email: contact.email }));
+  };
+
+  return (
+    <div className="ft-email-composer__recipient">
+      <label className="ft-email-composer__field">
+        <T.caption>{label}</T.caption>
+        <Input.text
+          value={value}
+          onChange={onChange}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Name or email, separated by commas"
+          autoFocus={autoFocus}
+        />
+      </label>
+      {suggestions.length > 0 && (
+        <div className="ft-email-composer__suggestions">
+          {suggestions.map((contact) => (
+            // mousedown keeps focus in the field so the list stays open for the next pick
+            <Button.ghost key={contact.email} onMouseDown={(event) => { event.preventDefault(); pick(contact); }}>
+              {`${contactDisplayName(contact)} · ${contact.email}${contact.company ? ` · ${contact.company}` : ''}`}
+            </Button.ghost>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🖋️ RICH TEXT EDITOR                                                   │
+│  /src/features/productivity/email-composer/RichTextEditor.tsx         │
+│                                                                       │
+│  contentEditable body with a small formatting toolbar. Uncontrolled:  │
+│  the initial HTML is written once, edits flow out through onChange.   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Button } from '@/vr';
+
+const TOOLS: { command: string; label: string }[] = [
+  { command: 'bold', label: 'Bold' },
+  { command: 'italic', label: 'Italic' },
+  { command: 'underline', label: 'Underline' },
+  { command: 'insertUnorderedList', label: 'Bullets' },
+  { command: 'insertOrderedList', label: 'Numbered' },
+];
+
+interface RichTextEditorProps {
+  initialHtml: string;
+  onChange: (html: string) => void;
+}
+
+export function RichTextEditor({ initialHtml, onChange }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const initialHtmlRef = useRef(initialHtml);
+
+  // Written once per mount - re-rendering innerHTML would reset the caret
+  useEffect(() => {
+    if (editorRef.current) editorRef.current.innerHTML = initialHtmlRef.current;
+  }, []);
+
+  const run = (command: string, value?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, value);
+    onChange(editorRef.current?.innerHTML ?? '');
+  };
+
+  const addLink = () => {
+    const url = window.prompt('Link address');
+    if (url) run('createLink', /^[a-z]+:/i.test(url) ? url : `https://${url}`);
+  };
+
+  return (
+    <div className="ft-email-composer__editor">
+      <div className="ft-email-composer__toolbar">
+        {/* mousedown keeps the selection in the editor */}
+        {TOOLS.map((tool) => (
+          <Button.ghost key={tool.command} onMouseDown={(event) => { event.preventDefault(); run(tool.command); }}>
+            {tool.label}
+          </Button.ghost>
+        ))}
+        <Button.ghost onMouseDown={(event) => { event.preventDefault(); addLink(); }}>Link</Button.ghost>
+      </div>
+      <div
+        ref={editorRef}
+        className="ft-email-composer__body"
+        contentEditable
+        suppressContentEditableWarning
+        onInput={(event) => onChange(event.currentTarget.innerHTML)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, T } from '@/vr';
+import { fromDateTimeInput, sendLaterOptions, toDateTimeInput } from '@/domains/email';
+
+interface SendLaterPickerProps {
+  onSchedule: (sendAt: number) => void;
+  disabled?: boolean;
+}
+
+/** Quick picks plus a custom date and time (local time) */
+export function SendLaterPicker({ onSchedule, disabled }: SendLaterPickerProps) {
+  const [options] = useState(() => sendLaterOptions(Date.now()));
+  const [custom, setCustom] = useState(() => toDateTimeInput(options[0].sendAt));
+  const customAt = fromDateTimeInput(custom);
+
+  return (
+    <div className="ft-email-composer__send-later">
+      <T.caption>Send later</T.caption>
+      <div className="ft-email-composer__options">
+        {options.map((option) => (
+          <Button.secondary key={option.label} onClick={() => onSchedule(option.sendAt)} disabled={disabled}>
+            {`${option.label} · ${new Date(option.sendAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`}
+          </Button.secondary>
+        ))}
+      </div>
+      <div className="ft-email-composer__options">
+        <input type="datetime-local" className="vr-input-text" value={custom} onChange={(e) => setCustom(e.target.value)} />
+        <Button.primary onClick={() => customAt !== null && onSchedule(customAt)} disabled={disabled || customAt === null}>
+          Schedule
+        </Button.primary>
+      </div>
+    </div>
+  );
+}
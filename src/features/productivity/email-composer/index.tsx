@@ -0,0 +1,341 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  ✍️ EMAIL COMPOSER FEATURE                                            │
+│  /src/features/productivity/email-composer/index.tsx                  │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - New / Reply / Reply All / Forward in the side drawer               │
+│  - Rich text with a plain-text mode; the quote comes from the cached  │
+│    body in FUSE (snippet when the body was never opened)              │
+│  - To/Cc/Bcc autocomplete from contacts, file attachments             │
+│  - Auto-saves to a draft (drafts.saveDraft); attachments are stored  │
+│    with it; Send / Send later go through draftSync                    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './email-composer.css';
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useAction, useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { EmailDraft } from '@/store/types';
+import { Button, Input, Label, Stack, T, useSideDrawer } from '@/vr';
+import {
+  COMPOSE_ATTACHMENT_LIMIT_BYTES,
+  canEditDraft,
+  composeSubject,
+  formatAddresses,
+  formatByteSize,
+  htmlToText,
+  parseAddresses,
+  quoteHtml,
+  replyRecipients,
+  textToHtml,
+  type ComposeMode,
+} from '@/domains/email';
+import type { EmailMessage } from '@/features/productivity/email-console/types';
+import { sounds } from '@/features/productivity/email-console/sounds';
+import { RecipientField } from './RecipientField';
+import { RichTextEditor } from './RichTextEditor';
+import { SendLaterPicker } from './SendLaterPicker';
+import { sanitizeHtml } from './sanitizeHtml';
+import { useDraftAutosave } from './useDraftAutosave';
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+interface EmailComposerFeatureProps {
+  mode: ComposeMode;
+  /** Message replied to or forwarded (absent for a new email) */
+  message?: EmailMessage;
+  /** Saved draft or scheduled send being reopened */
+  draft?: EmailDraft;
+}
+
+const formatLine = (addresses: { name: string; email: string }[]) =>
+  addresses.length > 0 ? `${formatAddresses(addresses)}, ` : '';
+
+export function EmailComposerFeature({ mode: requestedMode, message, draft }: EmailComposerFeatureProps) {
+  const user = useFuse((state) => state.user);
+  const cachedBody = useFuse((state) => (message ? state.emailBodyCache.emailBodies?.[message._id] : undefined));
+  const { data } = useProductivityData();
+  const { data: clients } = useClientData();
+  const { closeDrawer } = useSideDrawer();
+  const sendDraft = useAction(api.productivity.email.draftSync.sendDraft);
+  const attachToDraft = useAction(api.productivity.email.draftSync.attachToDraft);
+  const removeDraftAttachment = useMutation(api.productivity.email.drafts.removeDraftAttachment);
+  const scheduleDraft = useMutation(api.productivity.email.drafts.scheduleDraft);
+  const cancelScheduledDraft = useMutation(api.productivity.email.drafts.cancelScheduledDraft);
+  const discardDraft = useMutation(api.productivity.email.drafts.discardDraft);
+  const userId = user?.convexId as Id<'admin_users'> | undefined;
+  const mode = draft?.mode ?? requestedMode;
+
+  const accounts = (data.email?.accounts ?? []).filter((account) => account.status === 'active');
+  const [accountId, setAccountId] = useState(() =>
+    accounts.find((account) => account._id === (draft?.accountId ?? message?.accountId))?._id ?? accounts[0]?._id ?? '');
+  const ownEmail = accounts.find((account) => account._id === accountId)?.emailAddress ?? '';
+
+  // Seeded once - later FUSE updates must not overwrite what the user typed
+  const [initial] = useState(() => {
+    if (draft) {
+      return {
+        to: formatLine(draft.to),
+        cc: formatLine(draft.cc),
+        bcc: formatLine(draft.bcc),
+        subject: draft.subject,
+        html: draft.html ?? '',
+        text: draft.html === undefined ? draft.text : '',
+      };
+    }
+    const recipients = message ? replyRecipients(mode, message, ownEmail) : { to: [], cc: [] };
+    const quoted = message ? sanitizeHtml(cachedBody ?? textToHtml(message.snippet ?? '')) : '';
+    return {
+      to: formatLine(recipients.to),
+      cc: formatLine(recipients.cc),
+      bcc: '',
+      subject: message ? composeSubject(mode, message.subject) : '',
+      html: message ? `<div><br></div>${quoteHtml(mode, message, quoted)}` : '',
+      text: '',
+    };
+  });
+
+  const [to, setTo] = useState(initial.to);
+  const [cc, setCc] = useState(initial.cc);
+  const [bcc, setBcc] = useState(initial.bcc);
+  const [showCopies, setShowCopies] = useState(initial.cc !== '' || initial.bcc !== '');
+  const [subject, setSubject] = useState(initial.subject);
+  const [html, setHtml] = useState(initial.html);
+  const [text, setText] = useState(initial.text);
+  const [isPlainText, setIsPlainText] = useState(draft !== undefined && draft.html === undefined);
+  const [isBusy, setIsBusy] = useState(false);
+  const [showSendLater, setShowSendLater] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { draftId, saveStatus, save, close } = useDraftAutosave({
+    userId,
+    draftId: draft?._id,
+    mode,
+    replyToMessageId: draft?.replyToMessageId ?? message?._id,
+    content: {
+      accountId, to, cc, bcc, subject,
+      text: isPlainText ? text : htmlToText(html),
+      html: isPlainText ? undefined : html,
+    },
+  });
+
+  // Attachments, schedule and send errors live on the saved draft
+  const savedDraft = data.emailDrafts.find((d) => d._id === draftId);
+  const attachments = savedDraft?.attachments ?? [];
+  const attachedBytes = attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+
+  // Switching modes carries the content across; plain text loses formatting
+  const handlePlainTextChange = (enabled: boolean) => {
+    if (enabled) setText(htmlToText(html));
+    else setHtml(textToHtml(text));
+    setIsPlainText(enabled);
+  };
+
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    const total = files.reduce((sum, file) => sum + file.size, attachedBytes);
+    if (total > COMPOSE_ATTACHMENT_LIMIT_BYTES) {
+      setError(`Attachments are limited to ${formatByteSize(COMPOSE_ATTACHMENT_LIMIT_BYTES)} per message`);
+      return;
+    }
+    if (!userId) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const id = await save(true);
+      if (!id) return;
+      for (const file of files) {
+        const result = await attachToDraft({
+          userId,
+          draftId: id as Id<'productivity_email_Drafts'>,
+          filename: file.name,
+          contentType: file.type || 'application/octet-stream',
+          contentBase64: await readAsBase64(file),
+        });
+        if (!result.success) {
+          setError(result.error ?? `Could not attach ${file.name}`);
+          return;
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not attach the file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemoveAttachment = (storageId: string) => {
+    if (!userId || !draftId) return;
+    removeDraftAttachment({
+      userId,
+      draftId: draftId as Id<'productivity_email_Drafts'>,
+      storageId: storageId as Id<'_storage'>,
+    }).catch(() => setError('Could not remove the attachment'));
+  };
+
+  /** Why the recipient fields cannot be sent, or null */
+  const recipientError = () => {
+    const fields = [parseAddresses(to), parseAddresses(cc), parseAddresses(bcc)];
+    const invalid = fields.flatMap((field) => field.invalid);
+    if (invalid.length > 0) return `Not an email address: ${invalid.join(', ')}`;
+    if (fields.every((field) => field.addresses.length === 0)) return 'Add at least one recipient';
+    return null;
+  };
+
+  /** Save what is on screen, then hand the draft to `run`; the drawer closes when it succeeds */
+  const submit = async (run: (id: Id<'productivity_email_Drafts'>) => Promise<{ success: boolean; error?: string }>) => {
+    const invalid = recipientError();
+    if (invalid) {
+      setError(invalid);
+      return false;
+    }
+    if (!userId || !accountId) return false;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const id = await save(true);
+      if (!id) return false;
+      const result = await run(id as Id<'productivity_email_Drafts'>);
+      if (!result.success) {
+        setError(result.error ?? 'The message was not sent');
+        return false;
+      }
+      await close();
+      closeDrawer();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The message was not sent');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!userId) return;
+    if (await submit((id) => sendDraft({ userId, draftId: id }))) sounds.send();
+  };
+
+  const handleSchedule = (sendAt: number) => {
+    if (!userId) return;
+    void submit((id) => scheduleDraft({ userId, draftId: id, sendAt }));
+  };
+
+  const handleCancelSchedule = () => {
+    if (!userId || !draftId) return;
+    cancelScheduledDraft({ userId, draftId: draftId as Id<'productivity_email_Drafts'> })
+      .catch(() => setError('Could not cancel the scheduled send'));
+  };
+
+  const handleDiscard = async () => {
+    const id = await close();
+    closeDrawer();
+    if (!userId || !id) return;
+    discardDraft({ userId, draftId: id as Id<'productivity_email_Drafts'> }).catch(() => undefined);
+  };
+
+  if (accounts.length === 0) {
+    return <T.body color="secondary">Connect an email account to send mail.</T.body>;
+  }
+
+  // Another tab or the scheduler is sending it
+  if (savedDraft && !canEditDraft(savedDraft.status) && !isBusy) {
+    return <T.body color="secondary">This message is being sent.</T.body>;
+  }
+
+  return (
+    <Stack className="ft-email-composer">
+      {accounts.length > 1 && (
+        <label className="ft-email-composer__field">
+          <T.caption>From</T.caption>
+          <Input.select
+            value={accountId}
+            onChange={setAccountId}
+            options={accounts.map((account) => ({ value: account._id, label: `${account.label} · ${account.emailAddress}` }))}
+          />
+        </label>
+      )}
+
+      <RecipientField label="To" value={to} onChange={setTo} contacts={clients.contacts} autoFocus={!message || mode === 'forward'} />
+      {showCopies ? (
+        <>
+          <RecipientField label="Cc" value={cc} onChange={setCc} contacts={clients.contacts} />
+          <RecipientField label="Bcc" value={bcc} onChange={setBcc} contacts={clients.contacts} />
+        </>
+      ) : (
+        <div>
+          <Button.link onClick={() => setShowCopies(true)}>Cc / Bcc</Button.link>
+        </div>
+      )}
+
+      <label className="ft-email-composer__field">
+        <T.caption>Subject</T.caption>
+        <Input.text value={subject} onChange={setSubject} />
+      </label>
+
+      {isPlainText ? (
+        <Input.textarea value={text} onChange={setText} rows={14} />
+      ) : (
+        // Mounts afresh on each switch back, seeded with the converted text
+        <RichTextEditor initialHtml={html} onChange={setHtml} />
+      )}
+
+      {attachments.length > 0 && (
+        <ul className="ft-email-composer__attachments">
+          {attachments.map((attachment) => (
+            <li key={attachment.storageId} className="ft-email-composer__attachment">
+              <T.caption>{`${attachment.filename} · ${formatByteSize(attachment.size)}`}</T.caption>
+              <Button.link onClick={() => handleRemoveAttachment(attachment.storageId)}>Remove</Button.link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {savedDraft?.status === 'scheduled' && savedDraft.scheduledFor && (
+        <div className="ft-email-composer__options">
+          <T.caption>{`Scheduled for ${new Date(savedDraft.scheduledFor).toLocaleString()}`}</T.caption>
+          <Button.link onClick={handleCancelSchedule}>Cancel schedule</Button.link>
+        </div>
+      )}
+      {savedDraft?.status === 'failed' && savedDraft.lastError && !error && (
+        <Label.error message={`Not sent: ${savedDraft.lastError}`} />
+      )}
+      {error && <Label.error message={error} />}
+
+      {showSendLater && <SendLaterPicker onSchedule={handleSchedule} disabled={isBusy} />}
+
+      <div className="ft-email-composer__actions">
+        <div className="ft-email-composer__options">
+          <input ref={fileInputRef} type="file" multiple className="ft-email-composer__file" onChange={handleFiles} />
+          <Button.secondary onClick={() => fileInputRef.current?.click()} disabled={isBusy}>Attach</Button.secondary>
+          <Input.toggle enabled={isPlainText} onChange={handlePlainTextChange} label="Plain text" size="sm" />
+          <Button.link onClick={handleDiscard} disabled={isBusy}>Discard</Button.link>
+        </div>
+        <div className="ft-email-composer__options">
+          {saveStatus !== 'idle' && (
+            <T.caption color="secondary">
+              {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Draft saved' : 'Draft not saved'}
+            </T.caption>
+          )}
+          <Button.secondary onClick={() => setShowSendLater((open) => !open)} disabled={isBusy}>Send later</Button.secondary>
+          <Button.primary onClick={handleSend} disabled={isBusy}>Send</Button.primary>
+        </div>
+      </div>
+    </Stack>
+  );
+}
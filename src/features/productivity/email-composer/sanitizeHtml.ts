@@ -0,0 +1,26 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🧼 QUOTED HTML SANITIZER                                             │
+│  /src/features/productivity/email-composer/sanitizeHtml.ts            │
+│                                                                       │
+│  The reading pane isolates email HTML in an iframe; the composer      │
+│  edits the quote in the app DOM, so it is cleaned first. Parsed in an │
+│  inert document: nothing runs or loads while it is walked.            │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+const BLOCKED_ELEMENTS = 'script, style, link, meta, base, title, iframe, frame, object, embed, form, input, button, textarea, select, svg, math';
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'background', 'xlink:href'];
+
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.body.querySelectorAll(BLOCKED_ELEMENTS).forEach((element) => element.remove());
+
+  doc.body.querySelectorAll('*').forEach((element) => {
+    for (const attribute of [...element.attributes]) {
+      const name = attribute.name.toLowerCase();
+      const isScriptUrl = URL_ATTRIBUTES.includes(name) && /^\s*(javascript:|vbscript:|data:text\/html)/i.test(attribute.value);
+      if (name.startsWith('on') || isScriptUrl) element.removeAttribute(attribute.name);
+    }
+  });
+
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { DRAFT_AUTOSAVE_DELAY_MS, parseAddresses, type ComposeMode } from '@/domains/email';
+
+/** Composer fields as typed (recipient lines unparsed) */
+export interface DraftContent {
+  accountId: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
+
+interface UseDraftAutosaveProps {
+  userId: Id<'admin_users'> | undefined;
+  /** Draft being reopened (absent for a fresh composer) */
+  draftId?: string;
+  mode: ComposeMode;
+  replyToMessageId?: string;
+  content: DraftContent;
+}
+
+/**
+ * Saves the composer as a draft once typing pauses, and once more when it
+ * closes. Saves run one at a time so a fresh composer creates one draft.
+ * Nothing is saved until the user changes something.
+ */
+export function useDraftAutosave({ userId, draftId: initialDraftId, mode, replyToMessageId, content }: UseDraftAutosaveProps) {
+  const saveDraft = useMutation(api.productivity.email.drafts.saveDraft);
+  const [draftId, setDraftId] = useState(initialDraftId);
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>('idle');
+
+  const key = JSON.stringify(content);
+  const contentRef = useRef(content);
+  const savedKeyRef = useRef(key);
+  const draftIdRef = useRef(initialDraftId);
+  const closedRef = useRef(false);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Latest fields for the debounce timer and the save on close
+  useEffect(() => {
+    contentRef.current = content;
+  });
+
+  /** Save pending edits; `force` creates the draft even when nothing was typed. Resolves to the draft id */
+  const save = useCallback((force = false): Promise<string | undefined> => {
+    const run = async () => {
+      const current = contentRef.current;
+      const currentKey = JSON.stringify(current);
+      const unchanged = currentKey === savedKeyRef.current && (Boolean(draftIdRef.current) || !force);
+      if (closedRef.current || unchanged || !userId || !current.accountId) return draftIdRef.current;
+
+      setSaveStatus('saving');
+      try {
+        const id = await saveDraft({
+          userId,
+          draftId: draftIdRef.current as Id<'productivity_email_Drafts'> | undefined,
+          accountId: current.accountId as Id<'productivity_email_Accounts'>,
+          mode,
+          replyToMessageId: replyToMessageId as Id<'productivity_email_Index'> | undefined,
+          // Entries that are not addresses yet stay in the field only
+          to: parseAddresses(current.to).addresses,
+          cc: parseAddresses(current.cc).addresses,
+          bcc: parseAddresses(current.bcc).addresses,
+          subject: current.subject,
+          text: current.text,
+          html: current.html,
+        });
+        draftIdRef.current = id;
+        savedKeyRef.current = currentKey;
+        setDraftId(id);
+        setSaveStatus('saved');
+        return id;
+      } catch (err) {
+        setSaveStatus('failed');
+        throw err;
+      }
+    };
+    const next = queueRef.current.then(run, run);
+    queueRef.current = next.catch(() => undefined);
+    return next;
+  }, [saveDraft, userId, mode, replyToMessageId]);
+
+  /** Stop saving (sent, scheduled or discarded); resolves once in-flight saves land */
+  const close = useCallback(async (): Promise<string | undefined> => {
+    closedRef.current = true;
+    await queueRef.current;
+    return draftIdRef.current;
+  }, []);
+
+  useEffect(() => {
+    if (key === savedKeyRef.current) return;
+    const timer = setTimeout(() => {
+      save().catch(() => undefined);
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key, save]);
+
+  // Closing the drawer keeps whatever was typed since the last save
+  useEffect(() => () => {
+    save().catch(() => undefined);
+  }, [save]);
+
+  return { draftId, saveStatus, save, close };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { draftSnippet } from '@/domains/email';
+import type { EmailDraft } from '@/store/types';
+import { formatThreadDate } from './utils';
+
+interface DraftQueueProps {
+  drafts: EmailDraft[];
+  onOpen: (draft: EmailDraft) => void;
+}
+
+const recipientLine = (draft: EmailDraft) => {
+  const recipients = [...draft.to, ...draft.cc, ...draft.bcc];
+  return recipients.length > 0 ? recipients.map((r) => r.name || r.email).join(', ') : '(no recipients)';
+};
+
+/**
+ * Drafts saved by the composer and scheduled sends, above the synced list.
+ * Their provider copies are hidden from the list below
+ */
+export function DraftQueue({ drafts, onOpen }: DraftQueueProps) {
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="ft-email__draft-queue">
+      {drafts.map((draft) => (
+        <div key={draft._id} className="ft-email__thread-item" onClick={() => onOpen(draft)}>
+          <div className="ft-email__thread-content">
+            <div className="ft-email__thread-top">
+              <div className="ft-email__thread-sender">{recipientLine(draft)}</div>
+              <div className="ft-email__thread-date">
+                {draft.status === 'scheduled' && draft.scheduledFor
+                  ? new Date(draft.scheduledFor).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+                  : formatThreadDate(draft.updatedAt)}
+              </div>
+            </div>
+            <div className="ft-email__thread-subject">
+              {draft.status === 'failed' && <span className="ft-email__draft-flag">Not sent</span>}
+              {draft.subject || '(no subject)'}
+            </div>
+            <div className="ft-email__thread-snippet">{draftSnippet(draft.text)}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 'use client';
 
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useState, type ReactNode } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { T, Icon } from '@/vr';
+import { highlightSegments } from '@/domains/email';
 import { formatThreadDate } from './utils';
 import type { EmailMessage, EmailFolder } from './types';
 
@@ -29,6 +30,25 @@ interface EmailMessageListProps {
   onRefresh: () => void;
   onMouseMove: () => void;
   onVisibleIdsChange: (ids: string[]) => void;
+  /** Rows kept above the synced list (composer drafts, scheduled sends) */
+  pinned?: ReactNode;
+  pinnedCount?: number;
+  /** Replaces the folder name (search results) */
+  title?: string;
+  /** Search terms marked in sender, subject and snippet */
+  highlight?: string[];
+}
+
+/** Text with search matches marked */
+function Highlighted({ text, terms }: { text: string; terms?: string[] }) {
+  if (!terms || terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? <mark key={index} className="ft-email__match">{segment.text}</mark> : segment.text
+      )}
+    </>
+  );
 }
 
 export function EmailMessageList({
@@ -49,6 +69,10 @@ export function EmailMessageList({
   onRefresh,
   onMouseMove,
   onVisibleIdsChange,
+  pinned,
+  pinnedCount = 0,
+  title,
+  highlight,
 }: EmailMessageListProps) {
   // Own scroll container ref and virtualizer
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -100,17 +124,22 @@ export function EmailMessageList({
       {/* Folder title header */}
       <div className="ft-email__threads-header">
         <span className="ft-email__threads-title">
-          {selectedFolder === 'inbox' && 'Inbox'}
-          {selectedFolder === 'sent' && 'Sent'}
-          {selectedFolder === 'drafts' && 'Drafts'}
-          {selectedFolder === 'archive' && 'Archive'}
-          {selectedFolder === 'trash' && 'Deleted'}
-          {selectedFolder === 'spam' && 'Junk'}
-          {selectedFolder === 'custom' && (allFolders.find(f => f.externalFolderId === selectedSubfolderId)?.displayName || 'Custom')}
-          {selectedFolder !== 'custom' && selectedSubfolderId && ` / ${allFolders.find(f => f.externalFolderId === selectedSubfolderId)?.displayName || ''}`}
+          {title ?? (
+            <>
+              {selectedFolder === 'inbox' && 'Inbox'}
+              {selectedFolder === 'sent' && 'Sent'}
+              {selectedFolder === 'drafts' && 'Drafts'}
+              {selectedFolder === 'scheduled' && 'Scheduled'}
+              {selectedFolder === 'archive' && 'Archive'}
+              {selectedFolder === 'trash' && 'Deleted'}
+              {selectedFolder === 'spam' && 'Junk'}
+              {selectedFolder === 'custom' && (allFolders.find(f => f.externalFolderId === selectedSubfolderId)?.displayName || 'Custom')}
+              {selectedFolder !== 'custom' && selectedSubfolderId && ` / ${allFolders.find(f => f.externalFolderId === selectedSubfolderId)?.displayName || ''}`}
+            </>
+          )}
         </span>
         <span className="ft-email__threads-count">
-          {messages.length} item{messages.length !== 1 ? 's' : ''}
+          {messages.length + pinnedCount} item{messages.length + pinnedCount !== 1 ? 's' : ''}
           {isSyncing
             ? ' · Syncing...'
             : selectedMessageIds.size > 1 && ` · ${selectedMessageIds.size} selected`}
@@ -124,11 +153,12 @@ export function EmailMessageList({
           <Icon variant="refresh" size="xs" strokeWidth={1.5} />
         </button>
       </div>
+      {pinned}
       <div className="ft-email__threads-scroll" ref={scrollContainerRef}>
         {!isHydrated ? (
           <div className="ft-email__loading"><T.body color="secondary">Loading...</T.body></div>
         ) : messages.length === 0 ? (
-          <div className="ft-email__empty"><T.body color="secondary">No emails yet</T.body></div>
+          pinnedCount === 0 && <div className="ft-email__empty"><T.body color="secondary">{title ? 'No matches' : 'No emails yet'}</T.body></div>
         ) : (
           <div
             style={{
@@ -185,14 +215,14 @@ export function EmailMessageList({
                   <div className="ft-email__thread-content">
                     <div className="ft-email__thread-top">
                       <div className="ft-email__thread-sender">
-                        {message.from.name || message.from.email || 'Unknown'}
+                        <Highlighted text={message.from.name || message.from.email || 'Unknown'} terms={highlight} />
                       </div>
                       <div className="ft-email__thread-date">
                         {formatThreadDate(message.receivedAt)}
                       </div>
                     </div>
-                    <div className="ft-email__thread-subject">{message.subject}</div>
-                    <div className="ft-email__thread-snippet">{message.snippet || ''}</div>
+                    <div className="ft-email__thread-subject"><Highlighted text={message.subject} terms={highlight} /></div>
+                    <div className="ft-email__thread-snippet"><Highlighted text={message.snippet || ''} terms={highlight} /></div>
                   </div>
                 </div>
               );
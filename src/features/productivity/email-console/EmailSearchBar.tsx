@@ -0,0 +1,45 @@
+'use client';
+
+import { Button, Search, T } from '@/vr';
+import { SEARCH_OPERATORS } from '@/domains/email';
+import type { EmailSearchState } from './useEmailSearch';
+
+interface EmailSearchBarProps {
+  search: EmailSearchState;
+}
+
+const statusOf = ({ invalid, isSearching, result }: EmailSearchState): { text: string; error: boolean } | null => {
+  if (invalid.length > 0) return { text: `Not understood: ${invalid.join(' ')}`, error: true };
+  if (isSearching) return { text: 'Searching...', error: false };
+  if (result?.error) return { text: result.error, error: true };
+  if (result?.imported !== undefined) {
+    return { text: `${result.imported} message${result.imported !== 1 ? 's' : ''} imported from the server`, error: false };
+  }
+  return null;
+};
+
+/** Header search - free text plus the operators in SEARCH_OPERATORS */
+export function EmailSearchBar({ search }: EmailSearchBarProps) {
+  const status = statusOf(search);
+
+  return (
+    <div className="ft-email__search">
+      <Search.bar
+        value={search.input}
+        onChange={search.setInput}
+        placeholder={`Search mail · ${SEARCH_OPERATORS.join(' ')}`}
+        className="ft-email__search-bar"
+      />
+      {search.isActive && (
+        <Button.secondary onClick={search.searchServer} disabled={search.isSearching}>
+          Search server
+        </Button.secondary>
+      )}
+      {status && (
+        <T.caption className={`ft-email__search-status${status.error ? ' ft-email__search-status--error' : ''}`}>
+          {status.text}
+        </T.caption>
+      )}
+    </div>
+  );
+}
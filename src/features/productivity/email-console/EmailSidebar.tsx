@@ -9,6 +9,8 @@ interface EmailSidebarProps {
   expandedFolders: Set<string>;
   folderTree: Record<string, EmailFolder[]>;
   folderCounts: Record<string, number>;
+  /** Scheduled sends waiting in the composer's queue */
+  scheduledCount: number;
   subfolderCounts: Record<string, number>;
   contextMenuFolderId: string | null;
   getChildFolders: (parentId: string) => EmailFolder[];
@@ -26,6 +28,7 @@ export function EmailSidebar({
   expandedFolders,
   folderTree,
   folderCounts,
+  scheduledCount,
   subfolderCounts,
   contextMenuFolderId,
   getChildFolders,
@@ -85,6 +88,20 @@ export function EmailSidebar({
         )}
       </div>
 
+      {/* Scheduled (only while something is waiting) */}
+      {(scheduledCount > 0 || selectedFolder === 'scheduled') && (
+        <div
+          className={`ft-email__folder ${selectedFolder === 'scheduled' ? 'ft-email__folder--selected' : ''}`}
+          onClick={() => onFolderSelect('scheduled')}
+        >
+          <span className="ft-email__folder-icon">🕒</span>
+          <span className="ft-email__folder-label">Scheduled</span>
+          {scheduledCount > 0 && (
+            <span className="ft-email__folder-count">{scheduledCount}</span>
+          )}
+        </div>
+      )}
+
       {/* Sent */}
       <div
         className={`ft-email__folder ${selectedFolder === 'sent' ? 'ft-email__folder--selected' : ''}`}
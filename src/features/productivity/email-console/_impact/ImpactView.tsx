@@ -18,6 +18,7 @@ import { useState } from 'react';
 import { ResolutionQueue } from './ResolutionQueue';
 import { ConversationPane } from './ConversationPane';
 import { IntelligenceRail } from './IntelligenceRail';
+import { PromotionToast } from './PromotionToast';
 
 export interface ImpactViewProps {
   /** Initial thread to select */
@@ -57,6 +58,9 @@ export function ImpactView({ initialThreadId }: ImpactViewProps) {
       <div className="ft-impact-view__intelligence">
         <IntelligenceRail threadId={selectedThreadId} />
       </div>
+
+      {/* Undo for the user's latest promotion, whichever thread is selected */}
+      <PromotionToast />
     </div>
   );
 }
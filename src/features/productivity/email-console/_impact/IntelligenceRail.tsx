@@ -14,8 +14,14 @@
 
 'use client';
 
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
 import { useFuse } from '@/store/fuse';
-import { T } from '@/vr';
+import { Label, T } from '@/vr';
+import { PROMOTION_TARGETS, type PromotionType } from '@/domains/email';
+import { LinkedObjects } from './LinkedObjects';
 
 export interface IntelligenceRailProps {
   threadId: string | null;
@@ -33,6 +39,33 @@ export interface IntelligenceRailProps {
 export function IntelligenceRail({ threadId }: IntelligenceRailProps) {
   // FUSE access (email data + AI classifications preloaded by WARP)
   const email = useFuse((state) => state.productivity?.email);
+  const tasks = useFuse((state) => state.productivity?.tasks);
+  const projects = useFuse((state) => state.projects.projects);
+  const user = useFuse((state) => state.user);
+  const navigate = useFuse((state) => state.navigate);
+  const promoteThread = useMutation(api.domains.productivity.api.promoteThread);
+
+  const [promoting, setPromoting] = useState<PromotionType | null>(null);
+  const [promotionError, setPromotionError] = useState<string | null>(null);
+
+  // promotedTo is written on every message of the thread (undo lives in PromotionToast)
+  const promotion = threadId
+    ? email?.messages?.find((m) => m.externalThreadId === threadId && m.promotedTo)?.promotedTo
+    : undefined;
+  const canCreateProjects = !!user?.rank && user.rank !== 'crew';
+
+  const handlePromote = async (type: PromotionType) => {
+    if (!user?.id || !threadId) return;
+    setPromoting(type);
+    setPromotionError(null);
+    try {
+      await promoteThread({ callerUserId: user.id as Id<'admin_users'>, threadId, type });
+    } catch (err) {
+      setPromotionError(err instanceof Error ? err.message : 'Could not promote thread');
+    } finally {
+      setPromoting(null);
+    }
+  };
 
   // Early return if no thread selected
   if (!threadId) {
@@ -91,40 +124,48 @@ export function IntelligenceRail({ threadId }: IntelligenceRailProps) {
       {/* BIG 3 ACTION #1: PROMOTE - Primary Outcomes */}
       <div className="ft-intelligence-rail__section">
         <T.caption weight="medium" className="ft-intelligence-rail__section-title">Promote</T.caption>
+        {promotion && (
+          <div className="ft-intelligence-rail__promoted">
+            <T.caption size="sm">
+              {promotion.type === 'task'
+                ? `Promoted to task: ${tasks?.find((t) => t._id === promotion.entityId)?.title ?? 'removed task'}`
+                : promotion.type === 'project'
+                  ? `Promoted to project: ${projects.find((p) => p._id === promotion.entityId)?.name ?? 'project'}`
+                  : 'Promoted to a pending booking'}
+            </T.caption>
+            {promotion.type === 'task' && (
+              <button className="ft-ir-action ft-ir-action--secondary" onClick={() => navigate('productivity/tasks')}>
+                Open Tasks
+              </button>
+            )}
+            {promotion.type === 'project' && (
+              <button className="ft-ir-action ft-ir-action--secondary" onClick={() => navigate('projects/tracking')}>
+                Open Projects
+              </button>
+            )}
+          </div>
+        )}
+        {promotionError && <Label.error message={promotionError} />}
         <div className="ft-intelligence-rail__promotions">
-          <button className="ft-ir-promotion ft-ir-promotion--primary">
-            <span className="ft-ir-promotion__label">Promote to Task</span>
-          </button>
-          <button className="ft-ir-promotion">
-            <span className="ft-ir-promotion__label">Promote to Calendar</span>
-          </button>
-          <button className="ft-ir-promotion">
-            <span className="ft-ir-promotion__label">Promote to Pipeline</span>
-          </button>
-          <button className="ft-ir-promotion">
-            <span className="ft-ir-promotion__label">Promote to Note</span>
-          </button>
+          {PROMOTION_TARGETS.map(({ value, label }) => (
+            <button
+              key={value}
+              className={`ft-ir-promotion${value === 'task' ? ' ft-ir-promotion--primary' : ''}`}
+              onClick={() => handlePromote(value)}
+              disabled={!!promoting || !!promotion || (value === 'project' && !canCreateProjects)}
+              title={value === 'project' && !canCreateProjects ? 'Captain rank or higher required' : undefined}
+            >
+              <span className="ft-ir-promotion__label">{promoting === value ? 'Promoting...' : `Promote to ${label}`}</span>
+            </button>
+          ))}
         </div>
       </div>
 
       {/* BIG 3 ACTION #2: LINK - Context Association */}
-      <div className="ft-intelligence-rail__section">
-        <T.caption weight="medium" className="ft-intelligence-rail__section-title">Link</T.caption>
-        <div className="ft-intelligence-rail__links">
-          <button className="ft-ir-link ft-ir-link--primary">
-            <span className="ft-ir-link__label">Link to Project</span>
-          </button>
-          <button className="ft-ir-link">
-            <span className="ft-ir-link__label">Create New Project</span>
-          </button>
-          <button className="ft-ir-link">
-            <span className="ft-ir-link__label">Pin to Timeline</span>
-          </button>
-          <button className="ft-ir-link">
-            <span className="ft-ir-link__label">Reference Only</span>
-          </button>
-        </div>
-      </div>
+      <LinkedObjects
+        threadId={threadId}
+        participantEmails={[...(thread.latestFrom ? [thread.latestFrom.email] : []), ...thread.participants.map((p) => p.email)]}
+      />
 
       {/* AI CLASSIFICATION - Insights Section */}
       {aiClassification && (
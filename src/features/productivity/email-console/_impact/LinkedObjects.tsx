@@ -0,0 +1,145 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🔗 LINKED OBJECTS - Intelligence Rail Section                         │
+│  /src/features/productivity/email-console/_impact/LinkedObjects.tsx   │
+│                                                                        │
+│  BIG 3 ACTION #2: LINK                                                 │
+│  - Contacts, projects and invoices the thread is linked to            │
+│  - Suggests contacts whose email matches a participant                │
+│  - Picker to link anything else in the org                            │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFuse } from '@/store/fuse';
+import type { EmailLink } from '@/store/types';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useClientData } from '@/hooks/useClientData';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { Input, Label, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { contactDisplayName } from '@/domains/clients';
+import { LINK_TARGETS, suggestContactLinks, type LinkTargetType } from '@/domains/email';
+import { ContactDrawerFeature } from '@/features/clients/contact-drawer';
+import { InvoiceDrawerFeature } from '@/features/finance/invoice-drawer';
+
+export interface LinkedObjectsProps {
+  threadId: string;
+  /** Thread participant addresses, sender first */
+  participantEmails: string[];
+}
+
+export function LinkedObjects({ threadId, participantEmails }: LinkedObjectsProps) {
+  const { data } = useProductivityData();
+  const { data: clients } = useClientData();
+  const { data: projects } = useProjectData();
+  const { data: finance } = useFinancialData();
+  const user = useFuse((state) => state.user);
+  const navigate = useFuse((state) => state.navigate);
+  const { openDrawer } = useSideDrawer();
+  const linkThread = useMutation(api.domains.productivity.api.linkThread);
+  const unlinkThread = useMutation(api.domains.productivity.api.unlinkThread);
+
+  const [targetType, setTargetType] = useState<LinkTargetType>('contact');
+  const [targetId, setTargetId] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const links = data.emailLinks.filter((link) => link.externalThreadId === threadId);
+  const linkedIds = (type: LinkTargetType) => links.filter((link) => link.targetType === type).map((link) => link.targetId);
+
+  const targets: Record<LinkTargetType, { value: string; label: string }[]> = {
+    contact: clients.contacts.map((contact) => ({ value: contact._id, label: contactDisplayName(contact) })),
+    project: projects.projects.map((project) => ({ value: project._id, label: project.name })),
+    invoice: finance.invoices.map((invoice) => ({
+      value: invoice._id,
+      label: `${invoice.number ?? 'Draft'} · ${invoice.customerName}`,
+    })),
+  };
+  const targetLabel = (link: EmailLink) =>
+    targets[link.targetType].find((target) => target.value === link.targetId)?.label ?? `Removed ${link.targetType}`;
+
+  const suggestions = suggestContactLinks(participantEmails, clients.contacts, linkedIds('contact'));
+  const options = targets[targetType].filter((target) => !linkedIds(targetType).includes(target.value));
+
+  const handleLink = async (type: LinkTargetType, id: string) => {
+    if (!user?.id || !id) return;
+    setLinkError(null);
+    try {
+      await linkThread({ callerUserId: user.id as Id<'admin_users'>, threadId, targetType: type, targetId: id });
+      setTargetId('');
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Could not link thread');
+    }
+  };
+
+  const handleUnlink = async (link: EmailLink) => {
+    if (!user?.id) return;
+    setLinkError(null);
+    try {
+      await unlinkThread({ callerUserId: user.id as Id<'admin_users'>, linkId: link._id as Id<'productivity_email_Links'> });
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Could not remove link');
+    }
+  };
+
+  const openLink = (link: EmailLink) => {
+    if (link.targetType === 'project') {
+      navigate('projects/tracking');
+    } else if (link.targetType === 'contact') {
+      openDrawer({ content: <ContactDrawerFeature contactId={link.targetId} />, title: targetLabel(link), subtitle: 'Contact' });
+    } else {
+      openDrawer({ content: <InvoiceDrawerFeature invoiceId={link.targetId} />, title: targetLabel(link), subtitle: 'Invoice' });
+    }
+  };
+
+  return (
+    <div className="ft-intelligence-rail__section">
+      <T.caption weight="medium" className="ft-intelligence-rail__section-title">Linked objects</T.caption>
+
+      <div className="ft-intelligence-rail__links">
+        {links.length === 0 && <T.caption color="secondary">Not linked to anything yet</T.caption>}
+        {links.map((link) => (
+          <div key={link._id} className="ft-ir-linked">
+            <button type="button" className="ft-ir-link" onClick={() => openLink(link)}>
+              <span className="ft-ir-link__label">{`${LINK_TARGETS.find((t) => t.value === link.targetType)?.label}: ${targetLabel(link)}`}</span>
+            </button>
+            <button type="button" className="ft-ir-linked__remove" aria-label="Remove link" onClick={() => handleUnlink(link)}>
+              ×
+            </button>
+          </div>
+        ))}
+
+        {suggestions.map((contact) => (
+          <button key={contact._id} type="button" className="ft-ir-link ft-ir-link--suggested" onClick={() => handleLink('contact', contact._id)}>
+            <span className="ft-ir-link__label">{`Suggested: link ${contactDisplayName(contact)}`}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="ft-intelligence-rail__link-picker">
+        <Input.select
+          value={targetType}
+          onChange={(value) => {
+            setTargetType(value as LinkTargetType);
+            setTargetId('');
+          }}
+          options={LINK_TARGETS}
+        />
+        <Input.select
+          value={targetId}
+          onChange={setTargetId}
+          options={[{ value: '', label: options.length > 0 ? 'Choose…' : 'Nothing left to link' }, ...options]}
+        />
+        <button type="button" className="ft-ir-link ft-ir-link--primary" onClick={() => handleLink(targetType, targetId)} disabled={!targetId}>
+          <span className="ft-ir-link__label">Link</span>
+        </button>
+      </div>
+
+      {linkError && <Label.error message={linkError} />}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  ↩️ PROMOTION TOAST - Undo Countdown                                   │
+│  /src/features/productivity/email-console/_impact/PromotionToast.tsx  │
+│                                                                        │
+│  Shows the current user's latest promotion while its undo window is   │
+│  open: what the thread became, a countdown and "Undo".                │
+│  Lives at the Impact view level so it survives switching threads.     │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFuse } from '@/store/fuse';
+import { T } from '@/vr';
+import { canUndoPromotion, undoSecondsLeft } from '@/domains/email';
+
+const countdown = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export function PromotionToast() {
+  const messages = useFuse((state) => state.productivity?.email?.messages);
+  const user = useFuse((state) => state.user);
+  const undoPromotion = useMutation(api.domains.productivity.api.undoPromotion);
+
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissedAt, setDismissedAt] = useState(0);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [undoError, setUndoError] = useState<string | null>(null);
+
+  // promotedTo is copied onto every message, so any one carries the thread's promotion
+  const latest = (messages ?? [])
+    .filter((m) => m.promotedTo?.promotedBy === user?.id && (m.promotedTo?.promotedAt ?? 0) > dismissedAt)
+    .sort((a, b) => (b.promotedTo?.promotedAt ?? 0) - (a.promotedTo?.promotedAt ?? 0))[0];
+  const promotion = latest?.promotedTo;
+  const isOpen = canUndoPromotion(promotion, now);
+
+  // Tick once a second while the window is open
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  if (!latest || !promotion || !isOpen) return null;
+
+  const handleUndo = async () => {
+    if (!user?.id) return;
+    setIsUndoing(true);
+    setUndoError(null);
+    try {
+      await undoPromotion({ callerUserId: user.id as Id<'admin_users'>, threadId: latest.externalThreadId });
+    } catch (err) {
+      setUndoError(err instanceof Error ? err.message : 'Could not undo promotion');
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <div className="ft-promotion-toast" role="status">
+      <div className="ft-promotion-toast__text">
+        <T.body size="sm">{`“${latest.subject || 'Thread'}” promoted to ${promotion.type}`}</T.body>
+        {undoError
+          ? <T.caption className="ft-promotion-toast__error">{undoError}</T.caption>
+          : <T.caption color="secondary">{`Undo available for ${countdown(undoSecondsLeft(promotion, now))}`}</T.caption>}
+      </div>
+      <button type="button" className="ft-promotion-toast__undo" onClick={handleUndo} disabled={isUndoing}>
+        {isUndoing ? 'Undoing...' : 'Undo'}
+      </button>
+      <button
+        type="button"
+        className="ft-promotion-toast__dismiss"
+        aria-label="Dismiss"
+        onClick={() => setDismissedAt(promotion.promotedAt)}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -10,10 +10,13 @@ import { useProductivityData } from '@/hooks/useProductivityData';
 import { useEmailSyncIntent } from '@/hooks/useEmailSyncIntent';
 import { useEmailBodySync } from '@/hooks/useEmailBodySync';
 import { useFuse } from '@/store/fuse';
-import { T, Input } from '@/vr';
+import { T, Input, Button, useSideDrawer } from '@/vr';
+import { draftFolder, type ComposeMode } from '@/domains/email';
+import type { EmailDraft } from '@/store/types';
 import type { Id } from '@/convex/_generated/dataModel';
 import { useEmailActions } from './useEmailActions';
 import { useViewportPrefetch } from './useViewportPrefetch';
+import { useEmailSearch } from './useEmailSearch';
 import {
   getSavedWidth,
   getStorageKeys,
@@ -27,13 +30,23 @@ import {
 } from './utils';
 import { EmailSidebar } from './EmailSidebar';
 import { EmailMessageList } from './EmailMessageList';
+import { DraftQueue } from './DraftQueue';
+import { EmailSearchBar } from './EmailSearchBar';
 import { EmailContextMenu } from './EmailContextMenu';
 import { ConfirmModal } from './ConfirmModal';
 import { MessageBody } from './MessageBody';
 import type { EmailFolder } from './types';
 import { sounds } from './sounds';
+import { EmailComposerFeature } from '@/features/productivity/email-composer';
 import './email-console.css';
 
+const COMPOSE_TITLES: Record<ComposeMode, string> = {
+  new: 'New email',
+  reply: 'Reply',
+  replyAll: 'Reply all',
+  forward: 'Forward',
+};
+
 
 
 export function EmailConsole() {
@@ -42,7 +55,7 @@ export function EmailConsole() {
 
   // Clear error param from URL on mount (prevents re-showing on refresh)
   useEffect(() => {
-    if (searchParams.get('outlook_error')) {
+    if (searchParams.get('outlook_error') || searchParams.get('gmail_error')) {
       window.history.replaceState({}, '', window.location.pathname);
     }
   }, [searchParams]);
@@ -94,9 +107,14 @@ export function EmailConsole() {
   // Intent-based sync (triggers on focus, network, manual refresh)
   const { triggerManualSync, isSyncing } = useEmailSyncIntent();
 
+  // Header search - while it has results they replace the folder view
+  const search = useEmailSearch(userId);
+  const searchResult = search.result;
+
   // Memoize arrays to prevent new references on every render
   const allMessages = useMemo(() => data.email?.messages ?? [], [data.email?.messages]);
   const rawFolders = useMemo(() => data.email?.folders ?? [], [data.email?.folders]);
+  const emailDrafts = data.emailDrafts;
 
   // Cache folders to prevent flicker during sync (when query briefly returns empty)
   const [cachedFolders, setCachedFolders] = useState<typeof rawFolders>([]);
@@ -333,11 +351,25 @@ export function EmailConsole() {
     [allMessages, rootFolderIds]
   );
 
-  // Filter messages by selected folder using utility function
-  const messages = useMemo(
-    () => filterMessages(allMessages, selectedFolder, selectedSubfolderId, rootFolderIds),
-    [allMessages, selectedFolder, selectedSubfolderId, rootFolderIds]
+  // Filter messages by selected folder (or search results) using utility function
+  // Provider copies of composer drafts are listed once, as the draft itself
+  const messages = useMemo(() => {
+    const mirrored = new Set(emailDrafts.map((d) => d.providerMessageId).filter(Boolean));
+    const listed = mirrored.size > 0
+      ? allMessages.filter((m) => !m.externalMessageId || !mirrored.has(m.externalMessageId))
+      : allMessages;
+    if (searchResult) {
+      return listed.filter((m) => searchResult.messageIds.has(m._id)).sort((a, b) => b.receivedAt - a.receivedAt);
+    }
+    return filterMessages(listed, selectedFolder, selectedSubfolderId, rootFolderIds);
+  }, [allMessages, emailDrafts, searchResult, selectedFolder, selectedSubfolderId, rootFolderIds]);
+
+  // Composer drafts (Drafts) and scheduled sends (Scheduled) for the selected folder
+  const queuedDrafts = useMemo(
+    () => (selectedSubfolderId || searchResult ? [] : emailDrafts.filter((d) => draftFolder(d.status) === selectedFolder)),
+    [emailDrafts, searchResult, selectedFolder, selectedSubfolderId]
   );
+  const scheduledCount = emailDrafts.filter((d) => d.status === 'scheduled').length;
 
   // Build virtual items using utility function
   const virtualItems = useMemo(
@@ -359,8 +391,34 @@ export function EmailConsole() {
     triggerManualSync,
   });
 
-  // Wrap context action to handle layout reset locally
+  // Composer opens in the side drawer - replies target the right-clicked or displayed message
+  const { openDrawer } = useSideDrawer();
+  const openComposer = useCallback((mode: ComposeMode, messageId?: string | null) => {
+    const message = messageId ? allMessages.find((m) => m._id === messageId) : undefined;
+    if (mode !== 'new' && !message) return;
+    openDrawer({
+      content: <EmailComposerFeature mode={mode} message={message} />,
+      title: COMPOSE_TITLES[mode],
+      subtitle: message?.subject,
+    });
+  }, [allMessages, openDrawer]);
+
+  const openDraft = useCallback((draft: EmailDraft) => {
+    openDrawer({
+      content: <EmailComposerFeature mode={draft.mode} draft={draft} />,
+      title: draft.status === 'scheduled' ? 'Scheduled email' : 'Draft',
+      subtitle: draft.subject || undefined,
+    });
+  }, [openDrawer]);
+
+  // Wrap context action to handle layout reset and composing locally
   const handleContextAction = useCallback((action: string) => {
+    if (action === 'newEmail' || action === 'reply' || action === 'replyAll' || action === 'forward') {
+      const messageId = contextMenu?.messageId ?? (selectedMessageIds.size === 1 ? [...selectedMessageIds][0] : displayedMessageId);
+      setContextMenu(null);
+      openComposer(action === 'newEmail' ? 'new' : action, messageId);
+      return;
+    }
     if (action === 'resetLayout') {
       resetColumnWidths(contentWidth);
       setMailboxWidth(DEFAULTS[contentWidth].mailbox);
@@ -369,7 +427,7 @@ export function EmailConsole() {
       return;
     }
     baseHandleContextAction(action);
-  }, [baseHandleContextAction, setContextMenu, contentWidth]);
+  }, [baseHandleContextAction, setContextMenu, contentWidth, contextMenu, selectedMessageIds, displayedMessageId, openComposer]);
 
   // Auto-select first message when folder loads (Outlook Web behavior)
   useEffect(() => {
@@ -489,7 +547,7 @@ export function EmailConsole() {
 
   // Auto-mark-read hooks (only Convex mutations - FUSE actions via getState() for stable deps)
   const updateConvexReadStatus = useMutation(api.productivity.email.outlookActions.updateMessageReadStatus);
-  const batchSyncReadStatus = useAction(api.productivity.email.outlookActions.batchMarkOutlookReadStatus);
+  const batchSyncReadStatus = useAction(api.productivity.email.messageActions.batchMarkReadStatus);
 
   // ═══════════════════════════════════════════════════════════════════════════
   // MARK-AS-READ PREFERENCE
@@ -711,7 +769,11 @@ export function EmailConsole() {
   return (
     <div className="ft-email">
       <header className={`ft-email__header ${contentWidth === 'constrained' ? 'ft-email__header--constrained' : ''}`}>
-        <div className="ft-email__header-left"><T.body weight="medium">Email</T.body></div>
+        <div className="ft-email__header-left">
+          <T.body weight="medium">Email</T.body>
+          <Button.secondary onClick={() => openComposer('new')}>New email</Button.secondary>
+          <EmailSearchBar search={search} />
+        </div>
         <div className="ft-email__header-right">
           <Input.radio
             value={contentWidth}
@@ -740,6 +802,7 @@ export function EmailConsole() {
           expandedFolders={expandedFolders}
           folderTree={folderTree}
           folderCounts={folderCounts}
+          scheduledCount={scheduledCount}
           subfolderCounts={subfolderCounts}
           contextMenuFolderId={contextMenu?.folderId ?? null}
           getChildFolders={getChildFolders}
@@ -771,6 +834,10 @@ export function EmailConsole() {
           onRefresh={triggerManualSync}
           onMouseMove={() => setIsKeyboardNav(false)}
           onVisibleIdsChange={setVisibleMessageIds}
+          pinned={<DraftQueue drafts={queuedDrafts} onOpen={openDraft} />}
+          pinnedCount={queuedDrafts.length}
+          title={searchResult ? 'Search results' : undefined}
+          highlight={searchResult ? search.highlight : undefined}
         />
 
         <div className="ft-email__resize-handle" onMouseDown={(e) => handleResize('threads', e)} />
@@ -47,10 +47,15 @@ export interface EmailThread {
  */
 export interface EmailMessage {
   _id: string;
+  /** Account the message belongs to (replies are sent from it) */
+  accountId?: string;
+  /** Provider message id (matches a local draft's synced copy) */
+  externalMessageId?: string;
   externalThreadId: string;
   subject: string;
   from: Participant;
   to: Participant[];
+  cc?: Participant[];
   receivedAt: number;
   snippet?: string;
   hasAttachments?: boolean;
@@ -62,6 +67,20 @@ export interface EmailMessage {
   canonicalFolder?: string;
   /** Whether the message has been read */
   isRead: boolean;
+  /** Outcome the thread was promoted into (same on every message of the thread) */
+  promotedTo?: EmailPromotion;
+}
+
+/**
+ * Promotion of a thread into a task/project/booking
+ */
+export interface EmailPromotion {
+  type: 'task' | 'project' | 'booking';
+  entityId: string;
+  promotedAt: number;
+  promotedBy: string;
+  /** "Undo" is offered until this time */
+  undoWindowEndsAt: number;
 }
 
 /**
@@ -71,7 +90,7 @@ export interface EmailAccount {
   _id: string;
   label: string;
   emailAddress: string;
-  provider: 'outlook' | 'gmail';
+  provider: 'outlook' | 'gmail' | 'imap';
   status: 'active' | 'error' | 'disconnected';
   syncEnabled: boolean;
   connectedAt?: number;
@@ -93,7 +112,7 @@ export interface EmailFolder {
   canonicalFolder: string;
   parentFolderId?: string;
   childFolderCount: number;
-  provider: 'outlook' | 'gmail';
+  provider: 'outlook' | 'gmail' | 'imap';
 }
 
 /**
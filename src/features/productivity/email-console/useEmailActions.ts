@@ -46,11 +46,11 @@ export function useEmailActions({
   triggerManualSync,
 }: UseEmailActionsProps) {
   // Email actions from Convex
-  const deleteMessage = useAction(api.productivity.email.outlookActions.deleteOutlookMessage);
+  const deleteMessage = useAction(api.productivity.email.messageActions.trashMessage);
   const permanentlyDeleteMessage = useAction(api.productivity.email.outlookPermanentDelete.permanentlyDeleteOutlookMessage);
-  const archiveMessage = useAction(api.productivity.email.outlookActions.archiveOutlookMessage);
+  const archiveMessage = useAction(api.productivity.email.messageActions.archiveMessage);
   const deleteFolder = useAction(api.productivity.email.outlookFolderActions.deleteOutlookFolder);
-  const batchSyncReadStatus = useAction(api.productivity.email.outlookActions.batchMarkOutlookReadStatus);
+  const batchSyncReadStatus = useAction(api.productivity.email.messageActions.batchMarkReadStatus);
   const batchConvexReadStatus = useMutation(api.productivity.email.outlookActions.batchUpdateMessageReadStatus);
   const batchMoveToTrashInDb = useMutation(api.productivity.email.outlookStore.batchMoveToTrashInDb);
   const reconcileReadStatus = useAction(api.productivity.email.outlookReconcile.reconcileReadStatus);
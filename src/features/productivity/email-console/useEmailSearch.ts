@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAction } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { SEARCH_DEBOUNCE_MS, highlightTerms, isEmptySearch, parseSearchQuery } from '@/domains/email';
+
+export interface EmailSearchResult {
+  messageIds: Set<string>;
+  /** Messages the server search imported (server searches only) */
+  imported?: number;
+  error?: string;
+}
+
+/**
+ * Search bar state. The index is searched once typing pauses; searchServer
+ * asks the providers as well. Answers to superseded searches are dropped
+ */
+export function useEmailSearch(userId: Id<'admin_users'> | undefined) {
+  const searchMessages = useAction(api.productivity.email.search.searchMessages);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<EmailSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const requestRef = useRef(0);
+
+  const { query, invalid } = useMemo(() => parseSearchQuery(input), [input]);
+  const highlight = useMemo(() => highlightTerms(query), [query]);
+  const isActive = !isEmptySearch(query);
+
+  const run = useCallback(async (includeServer: boolean) => {
+    const request = ++requestRef.current;
+    if (!userId) return;
+    setIsSearching(true);
+    try {
+      const found = await searchMessages({ userId, search: query, includeServer });
+      if (request !== requestRef.current) return;
+      setResult({
+        messageIds: new Set(found.messageIds),
+        imported: includeServer ? found.imported : undefined,
+        error: found.error,
+      });
+    } catch (error) {
+      if (request === requestRef.current) setResult({ messageIds: new Set(), error: String(error) });
+    } finally {
+      if (request === requestRef.current) setIsSearching(false);
+    }
+  }, [searchMessages, userId, query]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setTimeout(() => {
+      run(false).catch(() => undefined);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isActive, run]);
+
+  const searchServer = useCallback(() => {
+    run(true).catch(() => undefined);
+  }, [run]);
+
+  return {
+    input,
+    setInput,
+    invalid,
+    isActive,
+    isSearching: isActive && isSearching,
+    /** Null while the bar is empty (the folder view shows) */
+    result: isActive ? result : null,
+    highlight,
+    searchServer,
+  };
+}
+
+export type EmailSearchState = ReturnType<typeof useEmailSearch>;
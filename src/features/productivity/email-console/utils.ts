@@ -117,8 +117,8 @@ const FYXER_PATTERN = /^\d+:\s/;
 
 /** Folder tree structure returned by buildFolderTree */
 export interface FolderTreeResult {
-  folderTree: Record<string, Array<{ _id: string; externalFolderId: string; displayName: string; canonicalFolder: string; parentFolderId?: string; childFolderCount: number; provider: 'outlook' | 'gmail' }>>;
-  getChildFolders: (parentExternalId: string) => Array<{ _id: string; externalFolderId: string; displayName: string; canonicalFolder: string; parentFolderId?: string; childFolderCount: number; provider: 'outlook' | 'gmail' }>;
+  folderTree: Record<string, Array<{ _id: string; externalFolderId: string; displayName: string; canonicalFolder: string; parentFolderId?: string; childFolderCount: number; provider: 'outlook' | 'gmail' | 'imap' }>>;
+  getChildFolders: (parentExternalId: string) => Array<{ _id: string; externalFolderId: string; displayName: string; canonicalFolder: string; parentFolderId?: string; childFolderCount: number; provider: 'outlook' | 'gmail' | 'imap' }>;
   rootFolderIds: Record<string, string>;
 }
 
@@ -127,7 +127,7 @@ export interface FolderTreeResult {
  * Also capture custom root-level folders (like Fyxer AI folders)
  */
 export function buildFolderTree(
-  allFolders: Array<{ _id: string; externalFolderId: string; displayName: string; canonicalFolder: string; parentFolderId?: string; childFolderCount: number; provider: 'outlook' | 'gmail' }>,
+  allFolders: Array<{ _id: string; externalFolderId: string; displayName: string; canonicalFolder: string; parentFolderId?: string; childFolderCount: number; provider: 'outlook' | 'gmail' | 'imap' }>,
   allMessages: Array<{ providerFolderId?: string }>
 ): FolderTreeResult {
   const tree: Record<string, typeof allFolders> = {
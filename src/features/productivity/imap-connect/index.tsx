@@ -0,0 +1,197 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📮 IMAP CONNECT FEATURE                                              │
+│  /src/features/productivity/imap-connect/index.tsx                    │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Server settings form for any IMAP/SMTP mailbox                     │
+│  - Wires Convex connectImapAccount (logs in before storing)           │
+│  - Opened in the side drawer from Account → Email                     │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './imap-connect.css';
+import { useState } from 'react';
+import { useAction } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFuse } from '@/store/fuse';
+import { Button, Input, Label, Stack, T, useSideDrawer } from '@/vr';
+
+type MailSecurity = 'tls' | 'starttls' | 'none';
+
+const SECURITY_OPTIONS: Array<{ value: MailSecurity; label: string }> = [
+  { value: 'tls', label: 'SSL/TLS' },
+  { value: 'starttls', label: 'STARTTLS' },
+  { value: 'none', label: 'None (local servers only)' },
+];
+
+/** Conventional ports per protocol and security */
+const DEFAULT_PORTS: Record<'imap' | 'smtp', Record<MailSecurity, string>> = {
+  imap: { tls: '993', starttls: '143', none: '143' },
+  smtp: { tls: '465', starttls: '587', none: '25' },
+};
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface ImapForm {
+  label: string;
+  emailAddress: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort: string;
+  imapSecurity: MailSecurity;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecurity: MailSecurity;
+}
+
+const EMPTY_FORM: ImapForm = {
+  label: '',
+  emailAddress: '',
+  username: '',
+  password: '',
+  imapHost: '',
+  imapPort: DEFAULT_PORTS.imap.tls,
+  imapSecurity: 'tls',
+  smtpHost: '',
+  smtpPort: DEFAULT_PORTS.smtp.starttls,
+  smtpSecurity: 'starttls',
+};
+
+function validateForm(form: ImapForm): string | null {
+  if (!/^[^\s@]+@[^\s@]+$/.test(form.emailAddress.trim())) return 'Enter the email address of the mailbox';
+  if (!form.password) return 'Enter the password (or app password)';
+  if (!form.imapHost.trim() || !form.smtpHost.trim()) return 'Enter both the IMAP and SMTP server';
+  for (const port of [form.imapPort, form.smtpPort]) {
+    const value = Number(port);
+    if (!Number.isInteger(value) || value < 1 || value > 65535) return 'Ports must be between 1 and 65535';
+  }
+  return null;
+}
+
+export function ImapConnectFeature() {
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const connectImapAccount = useAction(api.productivity.email.imapSync.connectImapAccount);
+
+  const [form, setForm] = useState<ImapForm>(EMPTY_FORM);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof ImapForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  // Server names default from the address domain until the user types their own
+  const setEmailAddress = (value: string) => {
+    setForm((current) => {
+      const oldDomain = current.emailAddress.split('@')[1] ?? '';
+      const domain = value.split('@')[1] ?? '';
+      const follows = (host: string, prefix: string) => !host || host === `${prefix}.${oldDomain}`;
+      return {
+        ...current,
+        emailAddress: value,
+        imapHost: follows(current.imapHost, 'imap') && domain ? `imap.${domain}` : current.imapHost,
+        smtpHost: follows(current.smtpHost, 'smtp') && domain ? `smtp.${domain}` : current.smtpHost,
+      };
+    });
+  };
+
+  // Changing security moves the port along unless it was customised
+  const setSecurity = (protocol: 'imap' | 'smtp') => (value: string) => {
+    const security = value as MailSecurity;
+    setForm((current) => {
+      const portField = protocol === 'imap' ? 'imapPort' : 'smtpPort';
+      const securityField = protocol === 'imap' ? 'imapSecurity' : 'smtpSecurity';
+      const isDefault = current[portField] === DEFAULT_PORTS[protocol][current[securityField]];
+      return {
+        ...current,
+        [securityField]: security,
+        [portField]: isDefault ? DEFAULT_PORTS[protocol][security] : current[portField],
+      };
+    });
+  };
+
+  const handleConnect = async () => {
+    if (!user?.convexId) return;
+    const formError = validateForm(form);
+    if (formError) {
+      setError(formError);
+      return;
+    }
+
+    setIsConnecting(true);
+    setError(null);
+    try {
+      const emailAddress = form.emailAddress.trim();
+      const result = await connectImapAccount({
+        userId: user.convexId as Id<'admin_users'>,
+        emailAddress,
+        label: form.label.trim() || undefined,
+        mailServer: {
+          imap: { host: form.imapHost.trim(), port: Number(form.imapPort), security: form.imapSecurity },
+          smtp: { host: form.smtpHost.trim(), port: Number(form.smtpPort), security: form.smtpSecurity },
+          username: form.username.trim() || emailAddress,
+        },
+        password: form.password,
+      });
+      if (!result.success) {
+        setError(result.error ?? 'The server refused the login');
+        return;
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reach the server');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <Stack className="ft-imap-connect">
+      <div className="ft-imap-connect__grid">
+        <label className="ft-imap-connect__field">
+          <T.caption>Email address</T.caption>
+          <Input.text type="email" value={form.emailAddress} onChange={setEmailAddress} placeholder="you@example.com" />
+        </label>
+        <label className="ft-imap-connect__field">
+          <T.caption>Label</T.caption>
+          <Input.text value={form.label} onChange={setField('label')} placeholder="IMAP" />
+        </label>
+        <label className="ft-imap-connect__field">
+          <T.caption>Username</T.caption>
+          <Input.text value={form.username} onChange={setField('username')} placeholder={form.emailAddress || 'Same as email address'} />
+        </label>
+        <label className="ft-imap-connect__field">
+          <T.caption>Password</T.caption>
+          <Input.password value={form.password} onChange={setField('password')} placeholder="Password or app password" />
+        </label>
+      </div>
+
+      <T.caption color="secondary">Incoming mail (IMAP)</T.caption>
+      <div className="ft-imap-connect__server">
+        <Input.text value={form.imapHost} onChange={setField('imapHost')} placeholder="imap.example.com" />
+        <Input.text type="number" value={form.imapPort} onChange={setField('imapPort')} />
+        <Input.select value={form.imapSecurity} onChange={setSecurity('imap')} options={SECURITY_OPTIONS} />
+      </div>
+
+      <T.caption color="secondary">Outgoing mail (SMTP)</T.caption>
+      <div className="ft-imap-connect__server">
+        <Input.text value={form.smtpHost} onChange={setField('smtpHost')} placeholder="smtp.example.com" />
+        <Input.text type="number" value={form.smtpPort} onChange={setField('smtpPort')} />
+        <Input.select value={form.smtpSecurity} onChange={setSecurity('smtp')} options={SECURITY_OPTIONS} />
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      <div className="ft-imap-connect__actions">
+        <Button.primary onClick={handleConnect} disabled={isConnecting}>
+          {isConnecting ? 'Connecting...' : 'Connect mailbox'}
+        </Button.primary>
+      </div>
+    </Stack>
+  );
+}
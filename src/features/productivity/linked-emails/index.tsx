@@ -0,0 +1,84 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🔗 LINKED EMAILS FEATURE                                             │
+│  /src/features/productivity/linked-emails/index.tsx                   │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useProductivityData - email threads + thread links)    │
+│  - The "Emails" tab on a contact or project: threads linked to it     │
+│    from the Intelligence Rail, newest first                           │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './linked-emails.css';
+import { useMemo } from 'react';
+import { Button, Stack, T } from '@/vr';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useFuse } from '@/store/fuse';
+import { formatDate } from '@/lib/format';
+import type { LinkTargetType } from '@/domains/email';
+
+const STATE_LABELS: Record<string, string> = {
+  awaiting_me: 'Awaiting me',
+  awaiting_them: 'Awaiting them',
+  resolved: 'Resolved',
+  none: '',
+};
+
+interface LinkedEmailsFeatureProps {
+  targetType: LinkTargetType;
+  targetId: string;
+}
+
+export function LinkedEmailsFeature({ targetType, targetId }: LinkedEmailsFeatureProps) {
+  const { data } = useProductivityData();
+  const navigate = useFuse((state) => state.navigate);
+
+  const links = useMemo(
+    () => data.emailLinks.filter((link) => link.targetType === targetType && link.targetId === targetId),
+    [data.emailLinks, targetType, targetId]
+  );
+  const threads = useMemo(() => {
+    const threadIds = new Set(links.map((link) => link.externalThreadId));
+    return (data.email?.threads ?? [])
+      .filter((thread) => threadIds.has(thread.threadId))
+      .sort((a, b) => b.latestMessageAt - a.latestMessageAt);
+  }, [links, data.email?.threads]);
+
+  if (links.length === 0) {
+    return <T.body color="secondary">No emails linked yet. Link threads from the Intelligence Rail in Email.</T.body>;
+  }
+
+  // Links to threads outside this mailbox (another member's account) still count
+  const elsewhere = links.length - threads.length;
+
+  return (
+    <Stack className="ft-linked-emails">
+      {threads.map((thread) => (
+        <article key={thread.threadId} className="ft-linked-emails__thread">
+          <div className="ft-linked-emails__row">
+            <T.body size="sm" weight="semibold">{thread.subject || '(no subject)'}</T.body>
+            <T.caption color="secondary">{formatDate(thread.latestMessageAt)}</T.caption>
+          </div>
+          <div className="ft-linked-emails__row">
+            <T.caption color="secondary">
+              {thread.participants.map((p) => p.name || p.email).join(', ')}
+            </T.caption>
+            <T.caption>{`${thread.messageCount} ${thread.messageCount === 1 ? 'message' : 'messages'}${STATE_LABELS[thread.state] ? ` · ${STATE_LABELS[thread.state]}` : ''}`}</T.caption>
+          </div>
+          {thread.snippet && <T.caption color="secondary">{thread.snippet}</T.caption>}
+        </article>
+      ))}
+
+      {elsewhere > 0 && (
+        <T.caption color="secondary">
+          {`${elsewhere} linked ${elsewhere === 1 ? 'thread is' : 'threads are'} in a mailbox you can't see`}
+        </T.caption>
+      )}
+
+      <div className="ft-linked-emails__actions">
+        <Button.ghost onClick={() => navigate('productivity/email')}>Open Email</Button.ghost>
+      </div>
+    </Stack>
+  );
+}
@@ -0,0 +1,323 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  ✅ TASK BOARD FEATURE                                                │
+│  /src/features/productivity/task-board/index.tsx                      │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useProductivityData - tasks kept live by               │
+│    ProductivityProvider; members and projects for labels)             │
+│  - Board: one column per status, drag cards between/within columns    │
+│  - List: sortable table of the same tasks                             │
+│  - Filters: assignee and project                                      │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './task-board.css';
+import { useMemo, useState, type DragEvent } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Button, Card, Input, Label, Search, Stack, T, Table, Tabs } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useTableSearch } from '@/vr/table';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { ProductivityTask } from '@/store/types';
+import { formatDate } from '@/lib/format';
+import { positionBetween } from '@/lib/ordering';
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  isOverdue,
+  startOfUtcDay,
+  type TaskStatus,
+} from '@/domains/tasks';
+import { TaskEditorFeature } from '@/features/productivity/task-editor';
+
+type BoardView = 'board' | 'list';
+
+const VIEW_TABS: { id: BoardView; label: string }[] = [
+  { id: 'board', label: 'Board' },
+  { id: 'list', label: 'List' },
+];
+
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+const statusLabel = (status: TaskStatus) => TASK_STATUSES.find((s) => s.value === status)?.label ?? status;
+const priorityLabel = (priority: string) => TASK_PRIORITIES.find((p) => p.value === priority)?.label ?? priority;
+
+type TaskRow = {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  priorityRank: number;
+  assignee: string;
+  due: number;
+  project: string;
+  overdue: boolean;
+};
+
+export function TaskBoardFeature() {
+  const { data } = useProductivityData();
+  const { data: projects } = useProjectData();
+  const { data: clients } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const moveTask = useMutation(api.domains.productivity.api.moveTask);
+
+  const [view, setView] = useState<BoardView>('board');
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStatus, setDropStatus] = useState<TaskStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const now = Date.now();
+  const today = startOfUtcDay(now);
+
+  const memberName = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const member of clients.members) {
+      names[member._id] = `${member.firstName} ${member.lastName}`.trim() || member.email;
+    }
+    return names;
+  }, [clients.members]);
+
+  const projectName = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const project of projects.projects) names[project._id] = project.name;
+    return names;
+  }, [projects.projects]);
+
+  const tasks = useMemo(() => data.tasks
+    .filter((task) =>
+      assigneeFilter === 'all' ||
+      (assigneeFilter === 'unassigned' ? !task.assignedTo : task.assignedTo === assigneeFilter))
+    .filter((task) => projectFilter === 'all' || task.projectId === projectFilter)
+    .sort((a, b) => a.position - b.position),
+  [data.tasks, assigneeFilter, projectFilter]);
+
+  const openTask = (task?: ProductivityTask, status?: TaskStatus) => {
+    openDrawer({
+      content: <TaskEditorFeature taskId={task?._id} status={status} />,
+      title: task ? task.title : 'New task',
+      subtitle: task ? statusLabel(task.status) : undefined,
+    });
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // DRAG & DROP
+  // ─────────────────────────────────────────────────────────────────────
+  /** Drop onto a column, before `beforeTask` (or at the bottom) */
+  const handleDrop = async (event: DragEvent, status: TaskStatus, beforeTask?: ProductivityTask) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropStatus(null);
+
+    const task = tasks.find((candidate) => candidate._id === event.dataTransfer.getData('text/plain'));
+    setDraggingId(null);
+    if (!task || !user?.id || task._id === beforeTask?._id) return;
+
+    // Positions are org-wide, so neighbours come from the unfiltered column
+    const column = data.tasks
+      .filter((candidate) => candidate.status === status && candidate._id !== task._id)
+      .sort((a, b) => a.position - b.position);
+    const index = beforeTask ? column.findIndex((candidate) => candidate._id === beforeTask._id) : column.length;
+
+    setError(null);
+    try {
+      await moveTask({
+        callerUserId: user.id as Id<'admin_users'>,
+        taskId: task._id as Id<'productivity_tasks_Tasks'>,
+        status,
+        position: positionBetween(column[index - 1]?.position, column[index]?.position),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not move task');
+    }
+  };
+
+  const allowDrop = (event: DragEvent, status: TaskStatus) => {
+    if (!draggingId) return;
+    event.preventDefault();
+    setDropStatus(status);
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // LIST
+  // ─────────────────────────────────────────────────────────────────────
+  const columns: SortableColumn<TaskRow>[] = [
+    {
+      key: 'title',
+      header: 'Task',
+      sortable: true,
+      width: '30%',
+      render: (_value, row) => (
+        <button type="button" className="ft-task-board__link" onClick={() => openTask(tasks.find((t) => t._id === row.id))}>
+          <T.body size="sm" weight="semibold">{row.title}</T.body>
+        </button>
+      ),
+    },
+    { key: 'status', header: 'Status', sortable: true, width: '12%' },
+    {
+      key: 'priorityRank',
+      header: 'Priority',
+      sortable: true,
+      width: '10%',
+      render: (_value, row) => <T.caption className={`ft-task-board__priority ft-task-board__priority--${row.priority}`}>{priorityLabel(row.priority)}</T.caption>,
+    },
+    { key: 'assignee', header: 'Assignee', sortable: true, width: '16%' },
+    {
+      key: 'due',
+      header: 'Due',
+      sortable: true,
+      width: '12%',
+      render: (_value, row) => row.overdue
+        ? <T.caption weight="medium" className="ft-task-board__overdue">{formatDate(row.due)}</T.caption>
+        : <T.caption color="secondary">{formatDate(row.due)}</T.caption>,
+    },
+    { key: 'project', header: 'Project', sortable: true, width: '20%' },
+  ];
+
+  const tableData = useMemo(() => tasks.map((task): TaskRow => ({
+    id: task._id,
+    title: task.title,
+    status: statusLabel(task.status),
+    priority: task.priority,
+    priorityRank: PRIORITY_RANK[task.priority] ?? 2,
+    assignee: task.assignedTo ? memberName[task.assignedTo] ?? 'Former member' : '—',
+    due: task.dueDate ?? 0,
+    project: task.projectId ? projectName[task.projectId] ?? '—' : '—',
+    overdue: isOverdue(task, now),
+  })), [tasks, memberName, projectName, now]);
+
+  // 🔍 Auto-search: filters all columns except actions
+  const { searchTerm, setSearchTerm, filteredData, totalCount, resultsCount, isFiltered } = useTableSearch({
+    data: tableData,
+    columns,
+  });
+
+  const assigneeOptions = [
+    { value: 'all', label: 'Everyone' },
+    ...(user?.id ? [{ value: user.id, label: 'Assigned to me' }] : []),
+    { value: 'unassigned', label: 'Unassigned' },
+    ...clients.members
+      .filter((member) => member._id !== user?.id)
+      .map((member) => ({ value: member._id, label: memberName[member._id] })),
+  ];
+  const projectOptions = [
+    { value: 'all', label: 'All projects' },
+    ...projects.projects.map((project) => ({ value: project._id, label: project.name })),
+  ];
+
+  const open = tasks.filter((task) => task.status !== 'done');
+  const overdue = open.filter((task) => isOverdue(task, now)).length;
+  const dueToday = open.filter((task) => task.dueDate === today).length;
+
+  return (
+    <Stack>
+      <div className="ft-task-board__metrics">
+        <Card.metric title="Open tasks" value={open.length} />
+        <Card.metric title="Due today" value={dueToday} />
+        <Card.metric title="Overdue" value={overdue} />
+      </div>
+
+      <div className="ft-task-board__toolbar">
+        <Tabs.simple tabs={VIEW_TABS} activeTab={view} onTabChange={(id) => setView(id as BoardView)} />
+        <div className="ft-task-board__actions">
+          <Input.select value={assigneeFilter} onChange={setAssigneeFilter} options={assigneeOptions} />
+          <Input.select value={projectFilter} onChange={setProjectFilter} options={projectOptions} />
+          <Button.primary onClick={() => openTask()}>New task</Button.primary>
+        </div>
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      {view === 'board' ? (
+        <div className="ft-task-board__columns">
+          {TASK_STATUSES.map(({ value: status, label }) => {
+            const column = tasks.filter((task) => task.status === status);
+            return (
+              <section
+                key={status}
+                className={`ft-task-board__column${dropStatus === status ? ' ft-task-board__column--over' : ''}`}
+                onDragOver={(event) => allowDrop(event, status)}
+                onDragLeave={() => setDropStatus(null)}
+                onDrop={(event) => void handleDrop(event, status)}
+              >
+                <header className="ft-task-board__column-title">
+                  <T.h4>{label}</T.h4>
+                  <T.caption color="secondary">{String(column.length)}</T.caption>
+                </header>
+
+                <div className="ft-task-board__cards">
+                  {column.map((task) => (
+                    <article
+                      key={task._id}
+                      className={`ft-task-board__card ft-task-board__card--${task.priority}${draggingId === task._id ? ' ft-task-board__card--dragging' : ''}`}
+                      draggable
+                      onDragStart={(event) => {
+                        event.dataTransfer.setData('text/plain', task._id);
+                        event.dataTransfer.effectAllowed = 'move';
+                        setDraggingId(task._id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropStatus(null);
+                      }}
+                      onDragOver={(event) => allowDrop(event, status)}
+                      onDrop={(event) => void handleDrop(event, status, task)}
+                      onClick={() => openTask(task)}
+                    >
+                      <T.body size="sm" weight="semibold">{task.title}</T.body>
+                      {task.projectId && (
+                        <T.caption color="secondary">{projectName[task.projectId] ?? 'Project'}</T.caption>
+                      )}
+                      <div className="ft-task-board__card-meta">
+                        <T.caption>{task.assignedTo ? memberName[task.assignedTo] ?? 'Former member' : 'Unassigned'}</T.caption>
+                        {task.dueDate !== undefined && (
+                          isOverdue(task, now)
+                            ? <T.caption weight="medium" className="ft-task-board__overdue">{formatDate(task.dueDate)}</T.caption>
+                            : <T.caption color="secondary">{formatDate(task.dueDate)}</T.caption>
+                        )}
+                      </div>
+                      {task.emailThreadId && <T.caption color="secondary">✉ From email</T.caption>}
+                    </article>
+                  ))}
+                  <Button.ghost fullWidth onClick={() => openTask(undefined, status)}>+ Add task</Button.ghost>
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      ) : (
+        <>
+          <Table.toolbar
+            search={
+              <Search.bar
+                value={searchTerm}
+                onChange={setSearchTerm}
+                placeholder="Search tasks..."
+                resultsCount={resultsCount}
+                totalCount={totalCount}
+              />
+            }
+          />
+          <Table.sortable
+            columns={columns}
+            data={filteredData}
+            defaultSortKey="priorityRank"
+            defaultSortDirection="asc"
+            striped
+            bordered
+            isFiltered={isFiltered}
+          />
+        </>
+      )}
+    </Stack>
+  );
+}
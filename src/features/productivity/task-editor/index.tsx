@@ -0,0 +1,242 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  ✅ TASK EDITOR FEATURE                                               │
+│  /src/features/productivity/task-editor/index.tsx                     │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (task, org members, projects, email threads read)       │
+│    + Convex task mutations                                            │
+│  - One form for create and edit; status changes go through moveTask   │
+│  - Shows the email thread a promoted task came from                   │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './task-editor.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProductivityData } from '@/hooks/useProductivityData';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { ProductivityTask } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { formatDate, fromDateInput, toDateInput } from '@/lib/format';
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  validateTaskItem,
+  type TaskPriority,
+  type TaskStatus,
+} from '@/domains/tasks';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface TaskForm {
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignedTo: string;
+  dueDate: string;
+  projectId: string;
+}
+
+function formFromTask(task: ProductivityTask | undefined, status: TaskStatus): TaskForm {
+  return {
+    title: task?.title ?? '',
+    description: task?.description ?? '',
+    status: task?.status ?? status,
+    priority: task?.priority ?? 'normal',
+    assignedTo: task?.assignedTo ?? '',
+    dueDate: task?.dueDate !== undefined ? toDateInput(task.dueDate) : '',
+    projectId: task?.projectId ?? '',
+  };
+}
+
+interface TaskEditorFeatureProps {
+  taskId?: string;
+  /** Column a new task starts in */
+  status?: TaskStatus;
+}
+
+export function TaskEditorFeature({ taskId, status }: TaskEditorFeatureProps) {
+  const { data } = useProductivityData();
+  const { data: projects } = useProjectData();
+  const { data: clients } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createTask = useMutation(api.domains.productivity.api.createTask);
+  const updateTask = useMutation(api.domains.productivity.api.updateTask);
+  const moveTask = useMutation(api.domains.productivity.api.moveTask);
+  const deleteTask = useMutation(api.domains.productivity.api.deleteTask);
+
+  const task = taskId ? data.tasks.find((t) => t._id === taskId) : undefined;
+
+  const [form, setForm] = useState<TaskForm>(() => formFromTask(task, status ?? 'todo'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (taskId && !task) {
+    return <T.body color="secondary">Task not found</T.body>;
+  }
+
+  const thread = task?.emailThreadId
+    ? data.email?.threads?.find((t) => t.threadId === task.emailThreadId)
+    : undefined;
+
+  const memberOptions = [
+    { value: '', label: 'Unassigned' },
+    ...clients.members.map((member) => ({
+      value: member._id,
+      label: `${member.firstName} ${member.lastName}`.trim() || member.email,
+    })),
+  ];
+  const projectOptions = [
+    { value: '', label: 'No project' },
+    ...projects.projects.map((project) => ({ value: project._id, label: project.name })),
+  ];
+
+  const setField = (field: keyof TaskForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const dueDate = form.dueDate ? fromDateInput(form.dueDate) : undefined;
+    if (dueDate === null) {
+      setError('Due date must be valid');
+      return;
+    }
+    const taskError = validateTaskItem({ title: form.title, dueDate });
+    if (taskError) {
+      setError(taskError);
+      return;
+    }
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const assignedTo = form.assignedTo ? form.assignedTo as Id<'admin_users'> : undefined;
+    const projectId = form.projectId ? form.projectId as Id<'projects_tracking_Schedule'> : undefined;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!task) {
+        await createTask({
+          callerUserId,
+          title: form.title,
+          description: form.description,
+          status: form.status,
+          priority: form.priority,
+          assignedTo,
+          dueDate,
+          projectId,
+        });
+      } else {
+        await updateTask({
+          callerUserId,
+          taskId: task._id as Id<'productivity_tasks_Tasks'>,
+          title: form.title,
+          description: form.description,
+          priority: form.priority,
+          assignedTo: assignedTo ?? null,
+          dueDate: dueDate ?? null,
+          projectId: projectId ?? null,
+        });
+        if (form.status !== task.status) {
+          await moveTask({ callerUserId, taskId: task._id as Id<'productivity_tasks_Tasks'>, status: form.status });
+        }
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !task) return;
+    setConfirmDelete(false);
+    try {
+      await deleteTask({
+        callerUserId: user.id as Id<'admin_users'>,
+        taskId: task._id as Id<'productivity_tasks_Tasks'>,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete task');
+    }
+  };
+
+  return (
+    <Stack className="ft-task-editor">
+      <label className="ft-task-editor__field">
+        <T.caption>Title</T.caption>
+        <Input.text value={form.title} onChange={setField('title')} placeholder="What needs doing?" />
+      </label>
+
+      <div className="ft-task-editor__grid">
+        <label className="ft-task-editor__field">
+          <T.caption>Status</T.caption>
+          <Input.select value={form.status} onChange={setField('status')} options={TASK_STATUSES} />
+        </label>
+        <label className="ft-task-editor__field">
+          <T.caption>Priority</T.caption>
+          <Input.select value={form.priority} onChange={setField('priority')} options={TASK_PRIORITIES} />
+        </label>
+        <label className="ft-task-editor__field">
+          <T.caption>Assignee</T.caption>
+          <Input.select value={form.assignedTo} onChange={setField('assignedTo')} options={memberOptions} />
+        </label>
+        <label className="ft-task-editor__field">
+          <T.caption>Due date</T.caption>
+          <input type="date" className="vr-input-text" value={form.dueDate} onChange={(e) => setField('dueDate')(e.target.value)} />
+        </label>
+      </div>
+
+      <label className="ft-task-editor__field">
+        <T.caption>Project</T.caption>
+        <Input.select value={form.projectId} onChange={setField('projectId')} options={projectOptions} />
+      </label>
+
+      <label className="ft-task-editor__field">
+        <T.caption>Notes</T.caption>
+        <Input.textarea value={form.description} onChange={setField('description')} rows={5} />
+      </label>
+
+      {task?.emailThreadId && (
+        <div className="ft-task-editor__source">
+          <T.caption color="secondary">Promoted from email</T.caption>
+          <T.body size="sm">{thread?.subject ?? 'Thread no longer in your mailbox'}</T.body>
+          {thread && <T.caption color="secondary">{`Last message ${formatDate(thread.latestMessageAt)}`}</T.caption>}
+        </div>
+      )}
+
+      {error && <Label.error message={error} />}
+
+      <div className="ft-task-editor__actions">
+        {task && <Button.danger onClick={() => setConfirmDelete(true)}>Delete</Button.danger>}
+        <Button.primary onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : task ? 'Save task' : 'Add task'}
+        </Button.primary>
+      </div>
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title="Delete task?"
+        message={task?.emailThreadId
+          ? `${task.title} will be deleted. Its email thread can be promoted again.`
+          : `${task?.title ?? 'This task'} will be deleted.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
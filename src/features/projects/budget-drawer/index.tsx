@@ -0,0 +1,128 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📋 BUDGET DRAWER FEATURE                                             │
+│  /src/features/projects/budget-drawer/index.tsx                       │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (project budget lines read) + Convex mutations          │
+│  - One budget line per cost category, all saved together              │
+│  - Clearing an amount removes that category's line                    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './budget-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import { Button, Input, Label, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { currencyForCountry } from '@/lib/currency';
+import { COST_CATEGORIES, validateBudgetLine, type CostCategory } from '@/domains/projects';
+
+type BudgetForm = Record<CostCategory, { amount: string; currency: string }>;
+
+interface BudgetDrawerFeatureProps {
+  projectId: string;
+}
+
+export function BudgetDrawerFeature({ projectId }: BudgetDrawerFeatureProps) {
+  const { computed } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const orgCountry = useFuse((state) => state.settings.organization?.country);
+  const { closeDrawer } = useSideDrawer();
+  const setBudgetLine = useMutation(api.domains.projects.api.setBudgetLine);
+  const removeBudgetLine = useMutation(api.domains.projects.api.removeBudgetLine);
+
+  const budget = computed.budgetByProject[projectId];
+  const lines = budget?.lines ?? [];
+  const canEdit = user?.rank !== 'crew';
+
+  const [form, setForm] = useState<BudgetForm>(() => {
+    const currency = budget?.baseCurrency ?? currencyForCountry(orgCountry);
+    const initial = {} as BudgetForm;
+    for (const { value } of COST_CATEGORIES) {
+      const line = lines.find((l) => l.category === value);
+      initial[value] = { amount: line ? String(line.amount) : '', currency: line?.currency ?? currency };
+    }
+    return initial;
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setRow = (category: CostCategory, field: 'amount' | 'currency') => (value: string) => {
+    setForm((current) => ({ ...current, [category]: { ...current[category], [field]: value } }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const callerUserId = user.id as Id<'admin_users'>;
+    const project = projectId as Id<'projects_tracking_Schedule'>;
+
+    // Validate everything before writing anything
+    const writes: { category: CostCategory; amount: number; currency: string }[] = [];
+    const removals: CostCategory[] = [];
+    for (const { value: category, label } of COST_CATEGORIES) {
+      const row = form[category];
+      const line = lines.find((l) => l.category === category);
+      if (!row.amount.trim()) {
+        if (line) removals.push(category);
+        continue;
+      }
+      const amount = Number(row.amount);
+      const currency = row.currency.trim().toUpperCase();
+      const lineError = validateBudgetLine({ amount, currency });
+      if (lineError) {
+        setError(`${label}: ${lineError}`);
+        return;
+      }
+      if (!line || line.amount !== amount || line.currency !== currency) {
+        writes.push({ category, amount, currency });
+      }
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      for (const write of writes) {
+        await setBudgetLine({ callerUserId, projectId: project, ...write });
+      }
+      for (const category of removals) {
+        await removeBudgetLine({ callerUserId, projectId: project, category });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack className="ft-budget-drawer">
+      <T.caption color="secondary">
+        Planned spend per category. Leave a category blank to keep it off the budget.
+      </T.caption>
+
+      {COST_CATEGORIES.map(({ value, label }) => (
+        <div key={value} className="ft-budget-drawer__row">
+          <T.body size="sm" weight="semibold">{label}</T.body>
+          <Input.text type="number" value={form[value].amount} onChange={setRow(value, 'amount')} placeholder="No budget" disabled={!canEdit} />
+          <Input.text value={form[value].currency} onChange={setRow(value, 'currency')} disabled={!canEdit} />
+        </div>
+      ))}
+
+      {error && <Label.error message={error} />}
+
+      {canEdit && (
+        <div className="ft-budget-drawer__actions">
+          <Button.primary onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save budget'}
+          </Button.primary>
+        </div>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,195 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  💸 COST DRAWER FEATURE                                               │
+│  /src/features/projects/cost-drawer/index.tsx                         │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (cost, project budget read) + Convex mutations          │
+│  - One form for create and edit, saved with a single button          │
+│  - Status moves a cost along estimated → approved → spent             │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './cost-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import type { ProjectCost } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { currencyForCountry } from '@/lib/currency';
+import { fromDateInput, toDateInput } from '@/lib/format';
+import {
+  COST_CATEGORIES,
+  COST_STATUSES,
+  validateCost,
+  type CostCategory,
+  type CostStatus,
+} from '@/domains/projects';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface CostForm {
+  name: string;
+  category: CostCategory;
+  status: CostStatus;
+  amount: string;
+  currency: string;
+  date: string;
+}
+
+function formFromCost(cost: ProjectCost | undefined, currency: string): CostForm {
+  return {
+    name: cost?.name ?? '',
+    category: cost?.category ?? 'labor',
+    status: cost?.status ?? 'estimated',
+    amount: cost ? String(cost.amount) : '',
+    currency: cost?.currency ?? currency,
+    date: toDateInput(cost?.date ?? Date.now()),
+  };
+}
+
+interface CostDrawerFeatureProps {
+  projectId: string;
+  costId?: string;
+}
+
+export function CostDrawerFeature({ projectId, costId }: CostDrawerFeatureProps) {
+  const { data, computed } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const orgCountry = useFuse((state) => state.settings.organization?.country);
+  const { closeDrawer } = useSideDrawer();
+  const createCost = useMutation(api.domains.projects.api.createCost);
+  const updateCost = useMutation(api.domains.projects.api.updateCost);
+  const deleteCost = useMutation(api.domains.projects.api.deleteCost);
+
+  const cost = costId ? data.costs.find((c) => c._id === costId) : undefined;
+  const canEdit = user?.rank !== 'crew';
+  // New costs default to the currency the project budget rolls up in
+  const defaultCurrency = computed.budgetByProject[projectId]?.baseCurrency ?? currencyForCountry(orgCountry);
+
+  const [form, setForm] = useState<CostForm>(() => formFromCost(cost, defaultCurrency));
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (costId && !cost) {
+    return <T.body color="secondary">Cost not found</T.body>;
+  }
+
+  const setField = (field: keyof CostForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const amount = Number(form.amount);
+    const currency = form.currency.trim().toUpperCase();
+    const costError = validateCost({ name: form.name, amount, currency });
+    if (costError) {
+      setError(costError);
+      return;
+    }
+    const date = fromDateInput(form.date);
+    if (date === null) {
+      setError('Date is not a valid date');
+      return;
+    }
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const details = {
+      name: form.name,
+      amount,
+      currency,
+      category: form.category,
+      status: form.status,
+      date,
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!cost) {
+        await createCost({ callerUserId, projectId: projectId as Id<'projects_tracking_Schedule'>, ...details });
+      } else {
+        await updateCost({ callerUserId, costId: cost._id as Id<'projects_tracking_Costs'>, ...details });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !cost) return;
+    setConfirmDelete(false);
+    try {
+      await deleteCost({
+        callerUserId: user.id as Id<'admin_users'>,
+        costId: cost._id as Id<'projects_tracking_Costs'>,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete cost');
+    }
+  };
+
+  return (
+    <Stack className="ft-cost-drawer">
+      <label className="ft-cost-drawer__field">
+        <T.caption>Description</T.caption>
+        <Input.text value={form.name} onChange={setField('name')} placeholder="e.g. Site survey" disabled={!canEdit} />
+      </label>
+
+      <div className="ft-cost-drawer__grid">
+        <label className="ft-cost-drawer__field">
+          <T.caption>Category</T.caption>
+          <Input.select value={form.category} onChange={setField('category')} options={COST_CATEGORIES} disabled={!canEdit} />
+        </label>
+        <label className="ft-cost-drawer__field">
+          <T.caption>Status</T.caption>
+          <Input.select value={form.status} onChange={setField('status')} options={COST_STATUSES} disabled={!canEdit} />
+        </label>
+        <label className="ft-cost-drawer__field">
+          <T.caption>Amount</T.caption>
+          <Input.text type="number" value={form.amount} onChange={setField('amount')} disabled={!canEdit} />
+        </label>
+        <label className="ft-cost-drawer__field">
+          <T.caption>Currency</T.caption>
+          <Input.text value={form.currency} onChange={setField('currency')} disabled={!canEdit} />
+        </label>
+        <label className="ft-cost-drawer__field">
+          <T.caption>Date</T.caption>
+          <input type="date" className="vr-input-text" value={form.date} onChange={(e) => setField('date')(e.target.value)} disabled={!canEdit} />
+        </label>
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      {canEdit && (
+        <div className="ft-cost-drawer__actions">
+          {cost && <Button.danger onClick={() => setConfirmDelete(true)}>Delete</Button.danger>}
+          <Button.primary onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : cost ? 'Save cost' : 'Add cost'}
+          </Button.primary>
+        </div>
+      )}
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title="Delete cost?"
+        message={`${cost?.name ?? 'This cost'} will be removed from the project.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,322 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🗓️ GANTT CHART                                                       │
+│  /src/features/projects/gantt-chart/GanttChart.tsx                    │
+│                                                                       │
+│  Task names on the left, an SVG timeline on the right: bars, mile-    │
+│  stone diamonds and dependency arrows, critical path highlighted.     │
+│  Dragging a bar previews the move (dependents included) and saves     │
+│  it on release.                                                       │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useId, useMemo, useState, type PointerEvent } from 'react';
+import { T } from '@/vr';
+import type { ProjectTask, TaskDependency } from '@/store/types';
+import { formatDate } from '@/lib/format';
+import {
+  DAY_MS,
+  criticalPath,
+  dependencyStart,
+  isDrivingDependency,
+  shiftDependents,
+  taskFinish,
+  type ScheduleTask,
+} from '@/domains/projects';
+
+// Row and header heights match .ft-gantt-chart__row / __names-header
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 40;
+const BAR_INSET = 9;
+const MILESTONE_SIZE = 8;
+const ARROW_GAP = 6;
+/** Days of empty timeline either side of the tasks */
+const PADDING_DAYS = 7;
+
+export type GanttScale = 'day' | 'week';
+
+const DAY_WIDTH: Record<GanttScale, number> = { day: 32, week: 12 };
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface DragState {
+  taskId: string;
+  originX: number;
+  offsetDays: number;
+  isSaving: boolean;
+}
+
+interface GanttChartProps {
+  tasks: ProjectTask[];
+  dependencies: TaskDependency[];
+  scale: GanttScale;
+  canEdit: boolean;
+  onOpenTask: (taskId: string) => void;
+  onReschedule: (taskId: string, startDate: number) => Promise<void>;
+}
+
+const toSchedule = (task: ProjectTask): ScheduleTask => ({
+  id: task._id,
+  startDate: task.startDate,
+  endDate: task.endDate,
+  isMilestone: task.isMilestone,
+});
+
+export function GanttChart({ tasks, dependencies, scale, canEdit, onOpenTask, onReschedule }: GanttChartProps) {
+  const markerId = useId();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dayWidth = DAY_WIDTH[scale];
+
+  // Timeline bounds come from the saved dates so the axis holds still while dragging
+  const range = useMemo(() => {
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    const starts = tasks.map((task) => task.startDate);
+    const finishes = tasks.map((task) => taskFinish(task));
+    const start = Math.min(today, ...starts) - PADDING_DAYS * DAY_MS;
+    const end = Math.max(today, ...finishes) + PADDING_DAYS * DAY_MS;
+    return { start, days: Math.round((end - start) / DAY_MS), today };
+  }, [tasks]);
+
+  // Saved schedule, with the drag preview (moved task + pushed dependents) applied
+  const schedule = useMemo(() => {
+    const base = tasks.map(toSchedule);
+    if (!drag || drag.offsetDays === 0) return base;
+    const moved = base.find((task) => task.id === drag.taskId);
+    if (!moved) return base;
+    const moves = shiftDependents(base, dependencies, drag.taskId, moved.startDate + drag.offsetDays * DAY_MS);
+    const byId = new Map(moves.map((move) => [move.id, move]));
+    return base.map((task) => ({ ...task, ...byId.get(task.id) }));
+  }, [tasks, dependencies, drag]);
+
+  const critical = useMemo(() => criticalPath(schedule, dependencies), [schedule, dependencies]);
+  const moving = useMemo(() => {
+    const saved = new Map(tasks.map((task) => [task._id, task.startDate]));
+    return new Set(schedule.filter((task) => saved.get(task.id) !== task.startDate).map((task) => task.id));
+  }, [tasks, schedule]);
+
+  const width = range.days * dayWidth;
+  const height = HEADER_HEIGHT + tasks.length * ROW_HEIGHT;
+  const xOf = (date: number) => ((date - range.start) / DAY_MS) * dayWidth;
+  const rowMid = (index: number) => HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+  const rowOf = new Map(schedule.map((task, index) => [task.id, index]));
+
+  // ─────────────────────────────────────────────────────────────────────
+  // DRAG TO RESCHEDULE
+  // ─────────────────────────────────────────────────────────────────────
+  const handlePointerDown = (taskId: string) => (event: PointerEvent<SVGElement>) => {
+    if (drag?.isSaving) return;
+    if (!canEdit) {
+      onOpenTask(taskId);
+      return;
+    }
+    event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+    setDrag({ taskId, originX: event.clientX, offsetDays: 0, isSaving: false });
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag || drag.isSaving) return;
+    const offsetDays = Math.round((event.clientX - drag.originX) / dayWidth);
+    if (offsetDays !== drag.offsetDays) setDrag({ ...drag, offsetDays });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag || drag.isSaving) return;
+    const task = tasks.find((t) => t._id === drag.taskId);
+    if (!task || drag.offsetDays === 0) {
+      setDrag(null);
+      if (task) onOpenTask(task._id);
+      return;
+    }
+    // Keep the preview on screen until the new dates arrive through FUSE
+    setDrag({ ...drag, isSaving: true });
+    try {
+      await onReschedule(task._id, task.startDate + drag.offsetDays * DAY_MS);
+    } finally {
+      setDrag(null);
+    }
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // AXIS
+  // ─────────────────────────────────────────────────────────────────────
+  const days = Array.from({ length: range.days }, (_, index) => {
+    const date = new Date(range.start + index * DAY_MS);
+    return { index, date, weekday: date.getUTCDay(), day: date.getUTCDate() };
+  });
+
+  // ─────────────────────────────────────────────────────────────────────
+  // DEPENDENCY ARROWS
+  // ─────────────────────────────────────────────────────────────────────
+  const arrows = dependencies.flatMap((dep) => {
+    const from = rowOf.get(dep.predecessorId);
+    const to = rowOf.get(dep.successorId);
+    if (from === undefined || to === undefined) return [];
+    const predecessor = schedule[from];
+    const successor = schedule[to];
+
+    const x1 = xOf(dependencyStart(predecessor, dep.type));
+    const x2 = xOf(successor.startDate) - (successor.isMilestone ? MILESTONE_SIZE : 0);
+    const y1 = rowMid(from);
+    const y2 = rowMid(to);
+    const exitX = x1 + (dep.type === 'finish_to_start' ? ARROW_GAP : -ARROW_GAP);
+
+    // Straight down-and-across when there is room, otherwise step back between the rows
+    const path = x2 - ARROW_GAP >= exitX
+      ? `M ${x1} ${y1} H ${x2 - ARROW_GAP} V ${y2} H ${x2}`
+      : `M ${x1} ${y1} H ${exitX} V ${y2 + (y2 > y1 ? -ROW_HEIGHT / 2 : ROW_HEIGHT / 2)} H ${x2 - ARROW_GAP} V ${y2} H ${x2}`;
+    const isCritical = critical.has(predecessor.id) && critical.has(successor.id) &&
+      isDrivingDependency(predecessor, successor, dep.type);
+
+    return [{ id: dep._id, path, isCritical }];
+  });
+
+  return (
+    <div className="ft-gantt-chart">
+      <div className="ft-gantt-chart__names">
+        <div className="ft-gantt-chart__names-header">
+          <T.caption color="secondary">Task</T.caption>
+        </div>
+        {tasks.map((task) => {
+          const shown = schedule[rowOf.get(task._id) ?? 0];
+          return (
+            <button
+              key={task._id}
+              type="button"
+              className={`ft-gantt-chart__row${critical.has(task._id) ? ' ft-gantt-chart__row--critical' : ''}`}
+              onClick={() => onOpenTask(task._id)}
+            >
+              <T.body size="sm" className="ft-gantt-chart__name">{task.isMilestone ? `◆ ${task.name}` : task.name}</T.body>
+              <T.caption color="secondary">
+                {shown.isMilestone ? formatDate(shown.startDate) : `${formatDate(shown.startDate)} – ${formatDate(shown.endDate)}`}
+              </T.caption>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="ft-gantt-chart__timeline">
+        <svg
+          className={`ft-gantt-chart__svg${drag ? ' ft-gantt-chart__svg--dragging' : ''}`}
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          <defs>
+            {[false, true].map((isCritical) => (
+              <marker
+                key={String(isCritical)}
+                id={`${markerId}-${isCritical ? 'critical' : 'normal'}`}
+                viewBox="0 0 8 8"
+                refX="7"
+                refY="4"
+                markerWidth="7"
+                markerHeight="7"
+                orient="auto"
+              >
+                <path
+                  d="M 0 0 L 8 4 L 0 8 z"
+                  className={`ft-gantt-chart__arrowhead${isCritical ? ' ft-gantt-chart__arrowhead--critical' : ''}`}
+                />
+              </marker>
+            ))}
+          </defs>
+
+          {/* Row stripes */}
+          {tasks.map((task, index) => (
+            <rect
+              key={task._id}
+              x={0}
+              y={HEADER_HEIGHT + index * ROW_HEIGHT}
+              width={width}
+              height={ROW_HEIGHT}
+              className={index % 2 === 0 ? 'ft-gantt-chart__stripe' : 'ft-gantt-chart__stripe ft-gantt-chart__stripe--odd'}
+            />
+          ))}
+
+          {/* Weekends, month starts and day labels */}
+          {days.map(({ index, weekday, day, date }) => {
+            const x = index * dayWidth;
+            const isWeekend = weekday === 0 || weekday === 6;
+            const labelled = scale === 'day' || weekday === 1;
+            return (
+              <g key={index}>
+                {isWeekend && (
+                  <rect x={x} y={HEADER_HEIGHT} width={dayWidth} height={height - HEADER_HEIGHT} className="ft-gantt-chart__weekend" />
+                )}
+                {day === 1 && <line x1={x} y1={0} x2={x} y2={height} className="ft-gantt-chart__month-line" />}
+                {(day === 1 || index === 0) && (
+                  <text x={x + 4} y={16} className="ft-gantt-chart__month">
+                    {`${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`}
+                  </text>
+                )}
+                {labelled && (
+                  <text x={x + (scale === 'day' ? dayWidth / 2 : 2)} y={34} className="ft-gantt-chart__tick" textAnchor={scale === 'day' ? 'middle' : 'start'}>
+                    {day}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          <line x1={0} y1={HEADER_HEIGHT} x2={width} y2={HEADER_HEIGHT} className="ft-gantt-chart__axis" />
+
+          {/* Today */}
+          <line x1={xOf(range.today)} y1={HEADER_HEIGHT} x2={xOf(range.today)} y2={height} className="ft-gantt-chart__today" />
+
+          {/* Dependencies */}
+          {arrows.map((arrow) => (
+            <path
+              key={arrow.id}
+              d={arrow.path}
+              className={`ft-gantt-chart__link${arrow.isCritical ? ' ft-gantt-chart__link--critical' : ''}`}
+              markerEnd={`url(#${markerId}-${arrow.isCritical ? 'critical' : 'normal'})`}
+            />
+          ))}
+
+          {/* Bars and milestones */}
+          {schedule.map((task, index) => {
+            const classes = [
+              task.isMilestone ? 'ft-gantt-chart__milestone' : 'ft-gantt-chart__bar',
+              critical.has(task.id) ? 'ft-gantt-chart__bar--critical' : '',
+              moving.has(task.id) ? 'ft-gantt-chart__bar--moving' : '',
+              canEdit ? 'ft-gantt-chart__bar--draggable' : '',
+            ].filter(Boolean).join(' ');
+            const name = tasks[index].name;
+
+            if (task.isMilestone) {
+              const cx = xOf(task.startDate);
+              const cy = rowMid(index);
+              return (
+                <polygon
+                  key={task.id}
+                  points={`${cx},${cy - MILESTONE_SIZE} ${cx + MILESTONE_SIZE},${cy} ${cx},${cy + MILESTONE_SIZE} ${cx - MILESTONE_SIZE},${cy}`}
+                  className={classes}
+                  onPointerDown={handlePointerDown(task.id)}
+                >
+                  <title>{`${name} · ${formatDate(task.startDate)}`}</title>
+                </polygon>
+              );
+            }
+
+            return (
+              <rect
+                key={task.id}
+                x={xOf(task.startDate)}
+                y={HEADER_HEIGHT + index * ROW_HEIGHT + BAR_INSET}
+                width={Math.max(xOf(taskFinish(task)) - xOf(task.startDate), 2)}
+                height={ROW_HEIGHT - BAR_INSET * 2}
+                rx={4}
+                className={classes}
+                onPointerDown={handlePointerDown(task.id)}
+              >
+                <title>{`${name} · ${formatDate(task.startDate)} – ${formatDate(task.endDate)}`}</title>
+              </rect>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🗓️ GANTT CHART FEATURE                                               │
+│  /src/features/projects/gantt-chart/index.tsx                         │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useProjectData - tasks and dependencies kept live      │
+│    by ProjectsProvider) + Convex rescheduleTask                       │
+│  - One project at a time, chosen from the toolbar                     │
+│  - Drag a bar to reschedule; its dependents are pushed along          │
+│  - Critical path highlighted                                          │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './gantt-chart.css';
+import { useMemo, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { Button, Card, Input, Label, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import { formatDate } from '@/lib/format';
+import { criticalPath, taskFinish, DAY_MS } from '@/domains/projects';
+import { TaskDrawerFeature } from '@/features/projects/task-drawer';
+import { GanttChart, type GanttScale } from './GanttChart';
+
+const SCALES: { value: GanttScale; label: string }[] = [
+  { value: 'day', label: 'Days' },
+  { value: 'week', label: 'Weeks' },
+];
+
+export function GanttChartFeature() {
+  const { data } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const rescheduleTask = useMutation(api.domains.projects.api.rescheduleTask);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [scale, setScale] = useState<GanttScale>('day');
+  const [error, setError] = useState<string | null>(null);
+  const canEdit = user?.rank !== 'crew';
+
+  // Default to the first active project
+  const project = data.projects.find((p) => p._id === selectedId)
+    ?? data.projects.find((p) => p.status === 'active')
+    ?? data.projects[0];
+
+  const tasks = useMemo(
+    () => (project ? data.tasks.filter((task) => task.projectId === project._id) : []),
+    [data.tasks, project]
+  );
+  const dependencies = useMemo(
+    () => (project ? data.dependencies.filter((dep) => dep.projectId === project._id) : []),
+    [data.dependencies, project]
+  );
+
+  const summary = useMemo(() => {
+    if (tasks.length === 0) return null;
+    const schedule = tasks.map((task) => ({ id: task._id, startDate: task.startDate, endDate: task.endDate, isMilestone: task.isMilestone }));
+    const finish = Math.max(...tasks.map((task) => taskFinish(task)));
+    return {
+      // Last working day (finish is the start of the following day)
+      finish: finish - DAY_MS,
+      critical: criticalPath(schedule, dependencies).size,
+    };
+  }, [tasks, dependencies]);
+
+  if (!project) {
+    return <T.body color="secondary">No projects yet. Create one on the Tracking page to plan its schedule.</T.body>;
+  }
+
+  const projectOptions = data.projects.map((p) => ({ value: p._id, label: p.name }));
+
+  const openTask = (taskId?: string) => {
+    const task = taskId ? tasks.find((t) => t._id === taskId) : undefined;
+    openDrawer({
+      content: <TaskDrawerFeature projectId={project._id} taskId={taskId} defaultStart={project.startDate} />,
+      title: task ? task.name : 'New task',
+      subtitle: project.name,
+    });
+  };
+
+  const handleReschedule = async (taskId: string, startDate: number) => {
+    if (!user?.id) return;
+    setError(null);
+    try {
+      await rescheduleTask({
+        callerUserId: user.id as Id<'admin_users'>,
+        taskId: taskId as Id<'projects_tracking_Tasks'>,
+        startDate,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not move task');
+    }
+  };
+
+  return (
+    <Stack>
+      <div className="ft-gantt-chart__toolbar">
+        <div className="ft-gantt-chart__controls">
+          <Input.select value={project._id} onChange={setSelectedId} options={projectOptions} />
+          <Input.select value={scale} onChange={(value) => setScale(value as GanttScale)} options={SCALES} />
+        </div>
+        {canEdit && <Button.primary onClick={() => openTask()}>Add task</Button.primary>}
+      </div>
+
+      {error && <Label.error message={error} />}
+
+      <Card.standard
+        title={project.name}
+        subtitle={summary
+          ? `${tasks.length} ${tasks.length === 1 ? 'item' : 'items'} · finishes ${formatDate(summary.finish)} · ${summary.critical} on the critical path`
+          : undefined}
+      >
+        {tasks.length > 0 ? (
+          <>
+            <GanttChart
+              tasks={tasks}
+              dependencies={dependencies}
+              scale={scale}
+              canEdit={canEdit}
+              onOpenTask={openTask}
+              onReschedule={handleReschedule}
+            />
+            <div className="ft-gantt-chart__legend">
+              <span className="ft-gantt-chart__swatch" />
+              <T.caption color="secondary">Task</T.caption>
+              <span className="ft-gantt-chart__swatch ft-gantt-chart__swatch--critical" />
+              <T.caption color="secondary">Critical path</T.caption>
+              {canEdit && <T.caption color="secondary">· Drag a bar to move it - dependent tasks follow</T.caption>}
+            </div>
+          </>
+        ) : (
+          <T.body color="secondary">No tasks yet. Add tasks and milestones to build the schedule.</T.body>
+        )}
+      </Card.standard>
+    </Stack>
+  );
+}
@@ -0,0 +1,280 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📍 LOCATION DRAWER FEATURE                                           │
+│  /src/features/projects/location-drawer/index.tsx                     │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (site, projects read) + Convex mutations and the        │
+│    geocodeAddress action                                              │
+│  - "Find on map" lists candidates from the configured geocoder;       │
+│    coordinates can also be typed in by hand                           │
+│  - Site contact kept with the site                                    │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './location-drawer.css';
+import { useState } from 'react';
+import { useAction, useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import type { ProjectLocation } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import type { GeocodeMatch } from '@/lib/geocoding';
+import { validateLocation } from '@/domains/projects';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface LocationForm {
+  projectId: string;
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  geocodedBy: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+  notes: string;
+}
+
+function formFromLocation(location: ProjectLocation | undefined, projectId: string): LocationForm {
+  return {
+    projectId: location?.projectId ?? projectId,
+    name: location?.name ?? '',
+    address: location?.address ?? '',
+    latitude: location?.latitude !== undefined ? String(location.latitude) : '',
+    longitude: location?.longitude !== undefined ? String(location.longitude) : '',
+    geocodedBy: location?.geocodedBy ?? '',
+    contactName: location?.contactName ?? '',
+    contactPhone: location?.contactPhone ?? '',
+    contactEmail: location?.contactEmail ?? '',
+    notes: location?.notes ?? '',
+  };
+}
+
+/** "" → undefined, otherwise the number (NaN when not numeric) */
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+interface LocationDrawerFeatureProps {
+  locationId?: string;
+  /** Preselected project for a new site */
+  projectId?: string;
+}
+
+export function LocationDrawerFeature({ locationId, projectId }: LocationDrawerFeatureProps) {
+  const { data } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createLocation = useMutation(api.domains.projects.api.createLocation);
+  const updateLocation = useMutation(api.domains.projects.api.updateLocation);
+  const deleteLocation = useMutation(api.domains.projects.api.deleteLocation);
+  const geocodeAddress = useAction(api.domains.projects.api.geocodeAddress);
+
+  const location = locationId ? data.locations.find((l) => l._id === locationId) : undefined;
+  const canEdit = user?.rank !== 'crew';
+
+  const [form, setForm] = useState<LocationForm>(() => formFromLocation(location, projectId ?? data.projects[0]?._id ?? ''));
+  const [matches, setMatches] = useState<{ provider: string; matches: GeocodeMatch[] } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (locationId && !location) {
+    return <T.body color="secondary">Site not found</T.body>;
+  }
+
+  const projectOptions = data.projects.map((p) => ({ value: p._id, label: p.name }));
+
+  const setField = (field: keyof LocationForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  // Typing coordinates by hand means they no longer come from a geocoder
+  const setCoordinate = (field: 'latitude' | 'longitude') => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value, geocodedBy: '' }));
+  };
+
+  const handleFind = async () => {
+    if (!user?.id || !form.address.trim()) return;
+    setIsSearching(true);
+    setError(null);
+    try {
+      const result = await geocodeAddress({ callerUserId: user.id as Id<'admin_users'>, address: form.address });
+      setMatches(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not look up the address');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const pickMatch = (match: GeocodeMatch, provider: string) => {
+    setForm((current) => ({
+      ...current,
+      latitude: match.latitude.toFixed(6),
+      longitude: match.longitude.toFixed(6),
+      geocodedBy: provider,
+    }));
+    setMatches(null);
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    if (!form.projectId) {
+      setError('Choose a project');
+      return;
+    }
+    const details = {
+      name: form.name,
+      address: form.address,
+      latitude: optionalNumber(form.latitude),
+      longitude: optionalNumber(form.longitude),
+      geocodedBy: form.geocodedBy || undefined,
+      contactName: form.contactName,
+      contactPhone: form.contactPhone,
+      contactEmail: form.contactEmail,
+      notes: form.notes,
+    };
+    const locationError = validateLocation(details);
+    if (locationError) {
+      setError(locationError);
+      return;
+    }
+
+    const callerUserId = user.id as Id<'admin_users'>;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!location) {
+        await createLocation({ callerUserId, projectId: form.projectId as Id<'projects_tracking_Schedule'>, ...details });
+      } else {
+        await updateLocation({ callerUserId, locationId: location._id as Id<'projects_tracking_Locations'>, ...details });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !location) return;
+    setConfirmDelete(false);
+    try {
+      await deleteLocation({
+        callerUserId: user.id as Id<'admin_users'>,
+        locationId: location._id as Id<'projects_tracking_Locations'>,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete site');
+    }
+  };
+
+  return (
+    <Stack className="ft-location-drawer">
+      <label className="ft-location-drawer__field">
+        <T.caption>Project</T.caption>
+        <Input.select value={form.projectId} onChange={setField('projectId')} options={projectOptions} disabled={!canEdit || !!location} />
+      </label>
+
+      <label className="ft-location-drawer__field">
+        <T.caption>Site name</T.caption>
+        <Input.text value={form.name} onChange={setField('name')} placeholder="e.g. North yard" disabled={!canEdit} />
+      </label>
+
+      <div className="ft-location-drawer__address">
+        <label className="ft-location-drawer__field">
+          <T.caption>Address</T.caption>
+          <Input.text value={form.address} onChange={setField('address')} placeholder="Street, city - or lat, long" disabled={!canEdit} />
+        </label>
+        {canEdit && (
+          <Button.secondary onClick={handleFind} disabled={isSearching || !form.address.trim()}>
+            {isSearching ? 'Searching...' : 'Find on map'}
+          </Button.secondary>
+        )}
+      </div>
+
+      {matches && (
+        <div className="ft-location-drawer__matches">
+          {matches.matches.length === 0 ? (
+            <T.caption color="secondary">No matches - enter the coordinates by hand.</T.caption>
+          ) : (
+            matches.matches.map((match) => (
+              <button
+                key={`${match.latitude},${match.longitude}`}
+                type="button"
+                className="ft-location-drawer__match"
+                onClick={() => pickMatch(match, matches.provider)}
+              >
+                <T.body size="sm">{match.label}</T.body>
+                <T.caption color="secondary">{`${match.latitude.toFixed(4)}, ${match.longitude.toFixed(4)}`}</T.caption>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <div className="ft-location-drawer__grid">
+        <label className="ft-location-drawer__field">
+          <T.caption>Latitude</T.caption>
+          <Input.text type="number" value={form.latitude} onChange={setCoordinate('latitude')} disabled={!canEdit} />
+        </label>
+        <label className="ft-location-drawer__field">
+          <T.caption>Longitude</T.caption>
+          <Input.text type="number" value={form.longitude} onChange={setCoordinate('longitude')} disabled={!canEdit} />
+        </label>
+      </div>
+      {form.geocodedBy && <T.caption color="secondary">{`Located by the ${form.geocodedBy} geocoder`}</T.caption>}
+
+      <T.body size="sm" weight="semibold">Site contact</T.body>
+      <div className="ft-location-drawer__grid">
+        <label className="ft-location-drawer__field">
+          <T.caption>Name</T.caption>
+          <Input.text value={form.contactName} onChange={setField('contactName')} disabled={!canEdit} />
+        </label>
+        <label className="ft-location-drawer__field">
+          <T.caption>Phone</T.caption>
+          <Input.text type="tel" value={form.contactPhone} onChange={setField('contactPhone')} disabled={!canEdit} />
+        </label>
+        <label className="ft-location-drawer__field">
+          <T.caption>Email</T.caption>
+          <Input.text type="email" value={form.contactEmail} onChange={setField('contactEmail')} disabled={!canEdit} />
+        </label>
+      </div>
+
+      <label className="ft-location-drawer__field">
+        <T.caption>Notes</T.caption>
+        <Input.textarea value={form.notes} onChange={setField('notes')} placeholder="Access, parking, induction..." rows={3} disabled={!canEdit} />
+      </label>
+
+      {error && <Label.error message={error} />}
+
+      {canEdit && (
+        <div className="ft-location-drawer__actions">
+          {location && <Button.danger onClick={() => setConfirmDelete(true)}>Delete</Button.danger>}
+          <Button.primary onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : location ? 'Save site' : 'Add site'}
+          </Button.primary>
+        </div>
+      )}
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title="Delete site?"
+        message={`${location?.name ?? 'This site'} will be removed from the project.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
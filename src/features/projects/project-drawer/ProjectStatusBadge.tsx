@@ -0,0 +1,27 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏷️ PROJECT STATUS BADGE                                              │
+│  /src/features/projects/project-drawer/ProjectStatusBadge.tsx         │
+│                                                                       │
+│  Maps project status to Badge.status.                                 │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { Badge } from '@/vr';
+import type { StatusVariant } from '@/vr/badge';
+import type { ProjectStatus } from '@/domains/projects';
+
+const STATUS_BADGES: Record<ProjectStatus, { variant: StatusVariant; label: string }> = {
+  active: { variant: 'success', label: 'Active' },
+  completed: { variant: 'info', label: 'Completed' },
+  archived: { variant: 'disabled', label: 'Archived' },
+};
+
+interface ProjectStatusBadgeProps {
+  status: ProjectStatus;
+}
+
+export function ProjectStatusBadge({ status }: ProjectStatusBadgeProps) {
+  const badge = STATUS_BADGES[status];
+  return <Badge.status variant={badge.variant}>{badge.label}</Badge.status>;
+}
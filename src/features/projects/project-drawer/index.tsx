@@ -0,0 +1,208 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT DRAWER FEATURE                                            │
+│  /src/features/projects/project-drawer/index.tsx                      │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (project, org members read) + Convex mutations          │
+│  - One form for create and edit, saved with a single button          │
+│  - Deleting a project removes its costs, budget, tasks and sites too  │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './project-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { Project } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { fromDateInput, toDateInput } from '@/lib/format';
+import { PROJECT_STATUSES, validateProject, type ProjectStatus } from '@/domains/projects';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+interface ProjectForm {
+  name: string;
+  description: string;
+  status: ProjectStatus;
+  assignedTo: string;
+  startDate: string;
+  endDate: string;
+}
+
+function formFromProject(project?: Project): ProjectForm {
+  return {
+    name: project?.name ?? '',
+    description: project?.description ?? '',
+    status: project?.status ?? 'active',
+    assignedTo: project?.assignedTo ?? '',
+    startDate: project?.startDate ? toDateInput(project.startDate) : '',
+    endDate: project?.endDate ? toDateInput(project.endDate) : '',
+  };
+}
+
+interface ProjectDrawerFeatureProps {
+  projectId?: string;
+  /** Called after the project is deleted (e.g. leave its detail page) */
+  onDeleted?: () => void;
+}
+
+export function ProjectDrawerFeature({ projectId, onDeleted }: ProjectDrawerFeatureProps) {
+  const { data } = useProjectData();
+  const { data: clients } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createProject = useMutation(api.domains.projects.api.createProject);
+  const updateProject = useMutation(api.domains.projects.api.updateProject);
+  const deleteProject = useMutation(api.domains.projects.api.deleteProject);
+
+  const project = projectId ? data.projects.find((p) => p._id === projectId) : undefined;
+  const canEdit = user?.rank !== 'crew';
+
+  const [form, setForm] = useState<ProjectForm>(() => formFromProject(project));
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (projectId && !project) {
+    return <T.body color="secondary">Project not found</T.body>;
+  }
+
+  const memberOptions = [
+    { value: '', label: 'Unassigned' },
+    ...clients.members.map((member) => ({
+      value: member._id,
+      label: `${member.firstName} ${member.lastName}`.trim() || member.email,
+    })),
+  ];
+
+  const setField = (field: keyof ProjectForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const startDate = form.startDate ? fromDateInput(form.startDate) : null;
+    const endDate = form.endDate ? fromDateInput(form.endDate) : null;
+    if ((form.startDate && startDate === null) || (form.endDate && endDate === null)) {
+      setError('Dates must be valid');
+      return;
+    }
+    const details = {
+      name: form.name,
+      startDate: startDate ?? undefined,
+      endDate: endDate ?? undefined,
+    };
+    const projectError = validateProject(details);
+    if (projectError) {
+      setError(projectError);
+      return;
+    }
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const assignedTo = form.assignedTo ? form.assignedTo as Id<'admin_users'> : undefined;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!project) {
+        await createProject({
+          callerUserId,
+          ...details,
+          description: form.description.trim() || undefined,
+          status: form.status,
+          assignedTo,
+        });
+      } else {
+        await updateProject({
+          callerUserId,
+          projectId: project._id as Id<'projects_tracking_Schedule'>,
+          ...details,
+          description: form.description.trim(),
+          status: form.status,
+          assignedTo,
+        });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !project) return;
+    setConfirmDelete(false);
+    try {
+      await deleteProject({
+        callerUserId: user.id as Id<'admin_users'>,
+        projectId: project._id as Id<'projects_tracking_Schedule'>,
+      });
+      closeDrawer();
+      onDeleted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete project');
+    }
+  };
+
+  return (
+    <Stack className="ft-project-drawer">
+      <label className="ft-project-drawer__field">
+        <T.caption>Name</T.caption>
+        <Input.text value={form.name} onChange={setField('name')} disabled={!canEdit} />
+      </label>
+
+      <div className="ft-project-drawer__grid">
+        <label className="ft-project-drawer__field">
+          <T.caption>Status</T.caption>
+          <Input.select value={form.status} onChange={setField('status')} options={PROJECT_STATUSES} disabled={!canEdit} />
+        </label>
+        <label className="ft-project-drawer__field">
+          <T.caption>Assigned to</T.caption>
+          <Input.select value={form.assignedTo} onChange={setField('assignedTo')} options={memberOptions} disabled={!canEdit} />
+        </label>
+        <label className="ft-project-drawer__field">
+          <T.caption>Start</T.caption>
+          <input type="date" className="vr-input-text" value={form.startDate} onChange={(e) => setField('startDate')(e.target.value)} disabled={!canEdit} />
+        </label>
+        <label className="ft-project-drawer__field">
+          <T.caption>End</T.caption>
+          <input type="date" className="vr-input-text" value={form.endDate} onChange={(e) => setField('endDate')(e.target.value)} disabled={!canEdit} />
+        </label>
+      </div>
+
+      <label className="ft-project-drawer__field">
+        <T.caption>Description</T.caption>
+        <Input.textarea value={form.description} onChange={setField('description')} disabled={!canEdit} />
+      </label>
+
+      {error && <Label.error message={error} />}
+
+      {canEdit && (
+        <div className="ft-project-drawer__actions">
+          {project && <Button.danger onClick={() => setConfirmDelete(true)}>Delete</Button.danger>}
+          <Button.primary onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : project ? 'Save project' : 'Create project'}
+          </Button.primary>
+        </div>
+      )}
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title="Delete project?"
+        message={`${project?.name ?? 'This project'} will be removed with all of its costs, budget lines, tasks and sites.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,154 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🗺️ SITE MAP                                                          │
+│  /src/features/projects/project-locations/SiteMap.tsx                 │
+│                                                                       │
+│  Slippy map drawn in SVG from XYZ tiles (@/lib/tiles) - no map        │
+│  library, so any tile source works, including an offline bundle.      │
+│  Fits every site on load; drag to pan, buttons to zoom.               │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useMemo, useState, type PointerEvent } from 'react';
+import { Button } from '@/vr';
+import {
+  TILE_SIZE,
+  fitView,
+  projectPoint,
+  tileUrl,
+  unprojectPoint,
+  type TileSource,
+} from '@/lib/tiles';
+
+// Logical viewport; the SVG scales to the card width (see site-map CSS)
+const WIDTH = 960;
+const HEIGHT = 420;
+
+export interface SiteMarker {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface MapView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+interface SiteMapProps {
+  sites: SiteMarker[];
+  source: TileSource;
+  selectedId?: string | null;
+  onSelect: (siteId: string) => void;
+}
+
+export function SiteMap({ sites, source, selectedId, onSelect }: SiteMapProps) {
+  // Refit whenever the set of sites changes (filter, add, remove)
+  const fitted = useMemo(() => fitView(sites, WIDTH, HEIGHT, source), [sites, source]);
+  const [view, setView] = useState<{ key: MapView; view: MapView } | null>(null);
+  const current = view && view.key === fitted ? view.view : fitted;
+  const [pan, setPan] = useState<{ x: number; y: number; scale: number } | null>(null);
+
+  const center = projectPoint(current.latitude, current.longitude, current.zoom);
+  const left = center.x - WIDTH / 2;
+  const top = center.y - HEIGHT / 2;
+
+  const moveTo = (next: MapView) => setView({ key: fitted, view: next });
+
+  const zoomBy = (delta: number) => {
+    const zoom = Math.min(Math.max(current.zoom + delta, source.minZoom), source.maxZoom);
+    if (zoom !== current.zoom) moveTo({ ...current, zoom });
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // PAN
+  // ─────────────────────────────────────────────────────────────────────
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if ((event.target as Element).closest('.ft-site-map__marker')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    // Screen pixels → viewport units (the SVG is scaled to its container)
+    const scale = WIDTH / event.currentTarget.getBoundingClientRect().width;
+    setPan({ x: event.clientX, y: event.clientY, scale });
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!pan) return;
+    const dx = (event.clientX - pan.x) * pan.scale;
+    const dy = (event.clientY - pan.y) * pan.scale;
+    if (dx === 0 && dy === 0) return;
+    const size = TILE_SIZE * 2 ** current.zoom;
+    const y = Math.min(Math.max(center.y - dy, 0), size);
+    moveTo({ ...unprojectPoint(center.x - dx, y, current.zoom), zoom: current.zoom });
+    setPan({ ...pan, x: event.clientX, y: event.clientY });
+  };
+
+  // ─────────────────────────────────────────────────────────────────────
+  // TILES
+  // ─────────────────────────────────────────────────────────────────────
+  const tiles = [];
+  const count = 2 ** current.zoom;
+  for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + HEIGHT) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= count) continue;
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + WIDTH) / TILE_SIZE); tx++) {
+      // Wrap around the antimeridian
+      const wrapped = ((tx % count) + count) % count;
+      tiles.push({
+        key: `${current.zoom}/${tx}/${ty}`,
+        href: tileUrl(source, current.zoom, wrapped, ty),
+        x: tx * TILE_SIZE - left,
+        y: ty * TILE_SIZE - top,
+      });
+    }
+  }
+
+  return (
+    <div className="ft-site-map">
+      <svg
+        className={`ft-site-map__svg${pan ? ' ft-site-map__svg--panning' : ''}`}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setPan(null)}
+        onPointerCancel={() => setPan(null)}
+      >
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT} className="ft-site-map__water" />
+        {tiles.map((tile) => (
+          <image key={tile.key} href={tile.href} x={tile.x} y={tile.y} width={TILE_SIZE} height={TILE_SIZE} />
+        ))}
+
+        {sites.map((site) => {
+          const point = projectPoint(site.latitude, site.longitude, current.zoom);
+          const isSelected = site.id === selectedId;
+          return (
+            <g
+              key={site.id}
+              className={`ft-site-map__marker${isSelected ? ' ft-site-map__marker--selected' : ''}`}
+              transform={`translate(${point.x - left} ${point.y - top})`}
+              onClick={() => onSelect(site.id)}
+            >
+              <title>{site.name}</title>
+              <circle r={isSelected ? 9 : 7} />
+              {isSelected && (
+                <text y={-14} textAnchor="middle" className="ft-site-map__label">{site.name}</text>
+              )}
+            </g>
+          );
+        })}
+
+        {source.attribution && (
+          <text x={WIDTH - 6} y={HEIGHT - 6} textAnchor="end" className="ft-site-map__attribution">
+            {source.attribution}
+          </text>
+        )}
+      </svg>
+
+      <div className="ft-site-map__controls">
+        <Button.secondary onClick={() => zoomBy(1)} disabled={current.zoom >= source.maxZoom}>+</Button.secondary>
+        <Button.secondary onClick={() => zoomBy(-1)} disabled={current.zoom <= source.minZoom}>−</Button.secondary>
+        <Button.ghost onClick={() => setView(null)}>Fit</Button.ghost>
+      </div>
+    </div>
+  );
+}
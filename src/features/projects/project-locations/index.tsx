@@ -0,0 +1,173 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📍 PROJECT LOCATIONS FEATURE                                         │
+│  /src/features/projects/project-locations/index.tsx                   │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useProjectData - sites kept live by ProjectsProvider)  │
+│  - Map of every geocoded site + a table of all sites                  │
+│  - Tile source from NEXT_PUBLIC_MAP_TILES (osm / URL template)        │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './project-locations.css';
+import { useMemo, useState } from 'react';
+import { Button, Card, Input, Search, Stack, T, Table } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useTableSearch } from '@/vr/table';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import { resolveTileSource } from '@/lib/tiles';
+import { LocationDrawerFeature } from '@/features/projects/location-drawer';
+import { SiteMap, type SiteMarker } from './SiteMap';
+
+const TILE_SOURCE = resolveTileSource(process.env.NEXT_PUBLIC_MAP_TILES);
+
+type SiteRow = {
+  id: string;
+  name: string;
+  project: string;
+  address: string;
+  contact: string;
+  coordinates: string;
+};
+
+export function ProjectLocationsFeature() {
+  const { data } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const canEdit = user?.rank !== 'crew';
+
+  const projectName = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const project of data.projects) names[project._id] = project.name;
+    return names;
+  }, [data.projects]);
+
+  const locations = useMemo(
+    () => data.locations.filter((location) => projectFilter === 'all' || location.projectId === projectFilter),
+    [data.locations, projectFilter]
+  );
+
+  const markers = useMemo(() => locations.flatMap((location): SiteMarker[] =>
+    location.latitude !== undefined && location.longitude !== undefined
+      ? [{ id: location._id, name: location.name, latitude: location.latitude, longitude: location.longitude }]
+      : []
+  ), [locations]);
+
+  const openSite = (locationId?: string) => {
+    const location = locationId ? data.locations.find((l) => l._id === locationId) : undefined;
+    if (locationId) setSelectedId(locationId);
+    openDrawer({
+      content: (
+        <LocationDrawerFeature
+          locationId={locationId}
+          projectId={projectFilter === 'all' ? undefined : projectFilter}
+        />
+      ),
+      title: location ? location.name : 'New site',
+      subtitle: location ? projectName[location.projectId] : 'Project location',
+    });
+  };
+
+  const columns: SortableColumn<SiteRow>[] = [
+    {
+      key: 'name',
+      header: 'Site',
+      sortable: true,
+      width: '20%',
+      render: (_value, row) => (
+        <button type="button" className="ft-project-locations__link" onClick={() => openSite(row.id)}>
+          <T.body size="sm" weight="semibold">{row.name}</T.body>
+        </button>
+      ),
+    },
+    { key: 'project', header: 'Project', sortable: true, width: '18%' },
+    { key: 'address', header: 'Address', sortable: true, width: '30%' },
+    { key: 'contact', header: 'Site contact', sortable: true, width: '18%' },
+    {
+      key: 'coordinates',
+      header: 'Map',
+      sortable: true,
+      width: '14%',
+      render: (_value, row) => row.coordinates
+        ? <T.caption color="secondary">{row.coordinates}</T.caption>
+        : <T.caption weight="medium" className="ft-project-locations__unmapped">Not located</T.caption>,
+    },
+  ];
+
+  const tableData = useMemo(() => locations.map((location): SiteRow => ({
+    id: location._id,
+    name: location.name,
+    project: projectName[location.projectId] ?? '—',
+    address: location.address,
+    contact: [location.contactName, location.contactPhone].filter(Boolean).join(' · ') || '—',
+    coordinates: location.latitude !== undefined && location.longitude !== undefined
+      ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`
+      : '',
+  })), [locations, projectName]);
+
+  // 🔍 Auto-search: filters all columns except actions
+  const { searchTerm, setSearchTerm, filteredData, totalCount, resultsCount, isFiltered } = useTableSearch({
+    data: tableData,
+    columns,
+  });
+
+  if (data.projects.length === 0) {
+    return <T.body color="secondary">No projects yet. Create one on the Tracking page, then add its sites here.</T.body>;
+  }
+
+  const projectOptions = [
+    { value: 'all', label: 'All projects' },
+    ...data.projects.map((project) => ({ value: project._id, label: project.name })),
+  ];
+  const unmapped = locations.length - markers.length;
+
+  return (
+    <Stack>
+      <Card.standard
+        title="Site map"
+        subtitle={`${markers.length} of ${locations.length} ${locations.length === 1 ? 'site' : 'sites'} on the map · ${TILE_SOURCE.label}`}
+      >
+        <SiteMap sites={markers} source={TILE_SOURCE} selectedId={selectedId} onSelect={openSite} />
+        {unmapped > 0 && (
+          <T.caption color="secondary">
+            {`${unmapped} ${unmapped === 1 ? 'site has' : 'sites have'} no coordinates yet - open ${unmapped === 1 ? 'it' : 'them'} and use Find on map.`}
+          </T.caption>
+        )}
+      </Card.standard>
+
+      <Table.toolbar
+        search={
+          <Search.bar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder="Search sites..."
+            resultsCount={resultsCount}
+            totalCount={totalCount}
+          />
+        }
+        actions={
+          <div className="ft-project-locations__actions">
+            <Input.select value={projectFilter} onChange={setProjectFilter} options={projectOptions} />
+            {canEdit && <Button.primary onClick={() => openSite()}>Add site</Button.primary>}
+          </div>
+        }
+      />
+
+      <Table.sortable
+        columns={columns}
+        data={filteredData}
+        defaultSortKey="name"
+        defaultSortDirection="asc"
+        striped
+        bordered
+        isFiltered={isFiltered}
+      />
+    </Stack>
+  );
+}
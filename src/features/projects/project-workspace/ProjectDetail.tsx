@@ -0,0 +1,198 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT DETAIL                                                    │
+│  /src/features/projects/project-workspace/ProjectDetail.tsx           │
+│                                                                       │
+│  One project: budget alerts, budget-vs-actual per category (live      │
+│  from listProjectBudgets) and the cost entries behind it, plus the    │
+│  email threads linked to it.                                          │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button, Card, Label, Stack, T, Table, Tabs } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import type { ProjectCost } from '@/store/types';
+import { formatDate, formatMoney } from '@/lib/format';
+import {
+  COST_CATEGORIES,
+  COST_STATUSES,
+  describeBudgetAlert,
+  type CategoryVariance,
+} from '@/domains/projects';
+import { ProjectDrawerFeature } from '@/features/projects/project-drawer';
+import { ProjectStatusBadge } from '@/features/projects/project-drawer/ProjectStatusBadge';
+import { CostDrawerFeature } from '@/features/projects/cost-drawer';
+import { BudgetDrawerFeature } from '@/features/projects/budget-drawer';
+import { LinkedEmailsFeature } from '@/features/productivity/linked-emails';
+
+type DetailTab = 'budget' | 'emails';
+
+const DETAIL_TABS: { id: DetailTab; label: string }[] = [
+  { id: 'budget', label: 'Budget & costs' },
+  { id: 'emails', label: 'Emails' },
+];
+
+const categoryLabel = (category: string) => COST_CATEGORIES.find((c) => c.value === category)?.label ?? category;
+const statusLabel = (status: string) => COST_STATUSES.find((s) => s.value === status)?.label ?? status;
+
+interface ProjectDetailProps {
+  projectId: string;
+  onBack: () => void;
+}
+
+export function ProjectDetail({ projectId, onBack }: ProjectDetailProps) {
+  const { data, computed } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+  const [tab, setTab] = useState<DetailTab>('budget');
+
+  const project = data.projects.find((p) => p._id === projectId);
+  const budget = computed.budgetByProject[projectId];
+  const costs = useMemo(() => data.costs.filter((cost) => cost.projectId === projectId), [data.costs, projectId]);
+  const canEdit = user?.rank !== 'crew';
+
+  if (!project) {
+    return (
+      <Stack>
+        <T.body color="secondary">Project not found</T.body>
+        <Button.ghost onClick={onBack}>← All projects</Button.ghost>
+      </Stack>
+    );
+  }
+
+  const currency = budget?.baseCurrency ?? '';
+  const money = (amount: number) => (currency ? formatMoney(amount, currency) : '—');
+
+  const openProject = () => {
+    openDrawer({
+      content: <ProjectDrawerFeature projectId={project._id} onDeleted={onBack} />,
+      title: project.name,
+      subtitle: 'Project details',
+    });
+  };
+
+  const openCost = (cost?: ProjectCost) => {
+    openDrawer({
+      content: <CostDrawerFeature projectId={project._id} costId={cost?._id} />,
+      title: cost ? cost.name : 'New cost',
+      subtitle: project.name,
+    });
+  };
+
+  const openBudget = () => {
+    openDrawer({
+      content: <BudgetDrawerFeature projectId={project._id} />,
+      title: 'Budget',
+      subtitle: project.name,
+    });
+  };
+
+  const varianceColumns = [
+    { key: 'category', header: 'Category', render: (_value: unknown, row: CategoryVariance) => categoryLabel(row.category) },
+    { key: 'budget', header: 'Budget', render: (_value: unknown, row: CategoryVariance) => money(row.budget) },
+    { key: 'estimated', header: 'Estimated', render: (_value: unknown, row: CategoryVariance) => money(row.estimated) },
+    { key: 'approved', header: 'Approved', render: (_value: unknown, row: CategoryVariance) => money(row.approved) },
+    { key: 'spent', header: 'Spent', render: (_value: unknown, row: CategoryVariance) => money(row.spent) },
+    {
+      key: 'variance',
+      header: 'Variance',
+      render: (_value: unknown, row: CategoryVariance) => (
+        <span className={row.variance < 0 ? 'ft-project-workspace__negative' : undefined}>{money(row.variance)}</span>
+      ),
+    },
+    {
+      key: 'usage',
+      header: 'Spent of budget',
+      render: (_value: unknown, row: CategoryVariance) => {
+        if (row.budget <= 0) return '—';
+        const percent = Math.round((row.spent / row.budget) * 100);
+        return (
+          <div className="ft-project-workspace__usage">
+            <progress
+              className={`ft-project-workspace__usage-bar${percent > 100 ? ' ft-project-workspace__usage-bar--over' : ''}`}
+              max={100}
+              value={Math.min(percent, 100)}
+            />
+            <T.caption>{`${percent}%`}</T.caption>
+          </div>
+        );
+      },
+    },
+  ];
+
+  const costColumns: SortableColumn<ProjectCost>[] = [
+    { key: 'date', header: 'Date', sortable: true, width: '14%', render: (_value, row) => formatDate(row.date) },
+    { key: 'name', header: 'Description', sortable: true, width: '28%' },
+    { key: 'category', header: 'Category', sortable: true, width: '14%', render: (_value, row) => categoryLabel(row.category) },
+    { key: 'status', header: 'Status', sortable: true, width: '12%', render: (_value, row) => statusLabel(row.status) },
+    { key: 'amount', header: 'Amount', sortable: true, width: '16%', cellAlign: 'right', render: (_value, row) => formatMoney(row.amount, row.currency) },
+    { key: 'actions', header: 'Actions', sortable: false, variant: 'view', onView: openCost },
+  ];
+
+  return (
+    <Stack>
+      <div className="ft-project-workspace__header">
+        <Button.ghost onClick={onBack}>← All projects</Button.ghost>
+        <div className="ft-project-workspace__title">
+          <T.h3>{project.name}</T.h3>
+          <ProjectStatusBadge status={project.status} />
+          <T.caption color="secondary">{`${formatDate(project.startDate)} – ${formatDate(project.endDate)}`}</T.caption>
+        </div>
+        <div className="ft-project-workspace__actions">
+          <Button.secondary onClick={openProject}>{canEdit ? 'Edit project' : 'Details'}</Button.secondary>
+          {canEdit && <Button.secondary onClick={openBudget}>Edit budget</Button.secondary>}
+          {canEdit && <Button.primary onClick={() => openCost()}>Add cost</Button.primary>}
+        </div>
+      </div>
+
+      {project.description && <T.body color="secondary">{project.description}</T.body>}
+
+      <Tabs.simple tabs={DETAIL_TABS} activeTab={tab} onTabChange={(id) => setTab(id as DetailTab)} />
+
+      {tab === 'emails' && <LinkedEmailsFeature targetType="project" targetId={project._id} />}
+
+      {tab === 'budget' && (
+        <>
+          {budget?.alerts.map((alert) => (
+            <Label.error
+              key={`${alert.kind}-${alert.category ?? 'project'}`}
+              message={describeBudgetAlert(alert, money)}
+            />
+          ))}
+          {budget && budget.missingRates.length > 0 && (
+            <Label.warning
+              message={`No ${currency} rate for ${budget.missingRates.join(', ')} - those amounts are left out of the rollup`}
+            />
+          )}
+
+          <div className="ft-project-workspace__metrics ft-project-workspace__metrics--four">
+            <Card.metric title="Budget" value={money(budget?.totals.budget ?? 0)} />
+            <Card.metric title="Approved" value={money(budget?.totals.approved ?? 0)} />
+            <Card.metric title="Spent" value={money(budget?.totals.spent ?? 0)} />
+            <Card.metric title="Variance" value={money(budget?.totals.variance ?? 0)} />
+          </div>
+
+          <Card.standard title="Budget vs actual" subtitle={currency ? `All amounts in ${currency}` : undefined}>
+            {budget && budget.categories.length > 0 ? (
+              <Table.standard columns={varianceColumns} data={budget.categories} striped bordered />
+            ) : (
+              <T.body color="secondary">No budget lines or costs yet.</T.body>
+            )}
+          </Card.standard>
+
+          <Card.standard title="Costs" subtitle={`${costs.length} ${costs.length === 1 ? 'entry' : 'entries'}`}>
+            {costs.length > 0 ? (
+              <Table.sortable columns={costColumns} data={costs} defaultSortKey="date" defaultSortDirection="desc" striped bordered />
+            ) : (
+              <T.body color="secondary">No costs recorded.</T.body>
+            )}
+          </Card.standard>
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,167 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT LIST                                                      │
+│  /src/features/projects/project-workspace/ProjectList.tsx             │
+│                                                                       │
+│  Every visible project with budget, spend and variance in the org     │
+│  base currency. Rows with budget alerts are flagged.                  │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button, Card, Input, Search, Stack, T, Table } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { useTableSearch } from '@/vr/table';
+import type { SortableColumn } from '@/vr/table/Sortable';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useFuse } from '@/store/fuse';
+import { formatDate, formatMoney } from '@/lib/format';
+import { PROJECT_STATUSES, type ProjectStatus } from '@/domains/projects';
+import { ProjectDrawerFeature } from '@/features/projects/project-drawer';
+import { ProjectStatusBadge } from '@/features/projects/project-drawer/ProjectStatusBadge';
+
+type StatusFilter = 'all' | ProjectStatus;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  ...PROJECT_STATUSES,
+];
+
+type ProjectRow = {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  startDate?: number;
+  endDate?: number;
+  currency: string;
+  budget: number;
+  spent: number;
+  variance: number;
+  alerts: number;
+};
+
+interface ProjectListProps {
+  onOpen: (projectId: string) => void;
+}
+
+export function ProjectList({ onOpen }: ProjectListProps) {
+  const { data, computed } = useProjectData();
+  const user = useFuse((state) => state.user);
+  const { openDrawer } = useSideDrawer();
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const canEdit = user?.rank !== 'crew';
+
+  const openNewProject = () => {
+    openDrawer({
+      content: <ProjectDrawerFeature />,
+      title: 'New project',
+      subtitle: 'Budgets and costs are added from the project page',
+    });
+  };
+
+  const money = (row: ProjectRow, amount: number) => (row.currency ? formatMoney(amount, row.currency) : '—');
+
+  const columns: SortableColumn<ProjectRow>[] = [
+    {
+      key: 'name',
+      header: 'Project',
+      sortable: true,
+      width: '26%',
+      render: (_value, row) => (
+        <button type="button" className="ft-project-workspace__link" onClick={() => onOpen(row.id)}>
+          <T.body size="sm" weight="semibold">{row.name}</T.body>
+        </button>
+      ),
+    },
+    { key: 'status', header: 'Status', sortable: true, width: '12%', render: (_value, row) => <ProjectStatusBadge status={row.status} /> },
+    { key: 'endDate', header: 'Ends', sortable: true, width: '12%', render: (_value, row) => formatDate(row.endDate) },
+    { key: 'budget', header: 'Budget', sortable: true, width: '14%', cellAlign: 'right', render: (_value, row) => money(row, row.budget) },
+    { key: 'spent', header: 'Spent', sortable: true, width: '14%', cellAlign: 'right', render: (_value, row) => money(row, row.spent) },
+    {
+      key: 'variance',
+      header: 'Variance',
+      sortable: true,
+      width: '12%',
+      cellAlign: 'right',
+      render: (_value, row) => (
+        <span className={row.variance < 0 ? 'ft-project-workspace__negative' : undefined}>{money(row, row.variance)}</span>
+      ),
+    },
+    {
+      key: 'alerts',
+      header: 'Alerts',
+      sortable: true,
+      width: '10%',
+      render: (_value, row) => row.alerts > 0
+        ? <T.caption weight="medium" className="ft-project-workspace__alert-count">{`⚠ ${row.alerts}`}</T.caption>
+        : '—',
+    },
+  ];
+
+  const tableData = useMemo(() => data.projects
+    .filter((project) => statusFilter === 'all' || project.status === statusFilter)
+    .map((project): ProjectRow => {
+      const budget = computed.budgetByProject[project._id];
+      return {
+        id: project._id,
+        name: project.name,
+        status: project.status,
+        startDate: project.startDate,
+        endDate: project.endDate,
+        currency: budget?.baseCurrency ?? '',
+        budget: budget?.totals.budget ?? 0,
+        spent: budget?.totals.spent ?? 0,
+        variance: budget?.totals.variance ?? 0,
+        alerts: budget?.alerts.length ?? 0,
+      };
+    }), [data.projects, computed.budgetByProject, statusFilter]);
+
+  // 🔍 Auto-search: filters all columns except actions
+  const { searchTerm, setSearchTerm, filteredData, totalCount, resultsCount, isFiltered } = useTableSearch({
+    data: tableData,
+    columns,
+  });
+
+  return (
+    <Stack>
+      <div className="ft-project-workspace__metrics">
+        <Card.metric title="Projects" value={computed.totalProjects} />
+        <Card.metric title="Active" value={computed.activeProjects} />
+        <Card.metric title="With budget alerts" value={computed.projectsWithAlerts} />
+      </div>
+
+      <Table.toolbar
+        search={
+          <Search.bar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder="Search projects..."
+            resultsCount={resultsCount}
+            totalCount={totalCount}
+          />
+        }
+        actions={
+          <div className="ft-project-workspace__actions">
+            <Input.select
+              value={statusFilter}
+              onChange={(value) => setStatusFilter(value as StatusFilter)}
+              options={STATUS_FILTERS}
+            />
+            {canEdit && <Button.primary onClick={openNewProject}>New project</Button.primary>}
+          </div>
+        }
+      />
+
+      <Table.sortable
+        columns={columns}
+        data={filteredData}
+        defaultSortKey="name"
+        defaultSortDirection="asc"
+        striped
+        bordered
+        isFiltered={isFiltered}
+      />
+    </Stack>
+  );
+}
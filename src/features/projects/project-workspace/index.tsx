@@ -0,0 +1,25 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  📋 PROJECT WORKSPACE FEATURE                                         │
+│  /src/features/projects/project-workspace/index.tsx                   │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (useProjectData - kept live by ProjectsProvider)        │
+│  - Project list → per-project page (budgets, variance, costs)         │
+│  - Budget alerts when spent exceeds approved or budgeted              │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './project-workspace.css';
+import { useState } from 'react';
+import { ProjectList } from './ProjectList';
+import { ProjectDetail } from './ProjectDetail';
+
+export function ProjectWorkspaceFeature() {
+  const [projectId, setProjectId] = useState<string | null>(null);
+
+  if (projectId) {
+    return <ProjectDetail projectId={projectId} onBack={() => setProjectId(null)} />;
+  }
+  return <ProjectList onOpen={setProjectId} />;
+}
@@ -0,0 +1,277 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🗓️ TASK DRAWER FEATURE                                               │
+│  /src/features/projects/task-drawer/index.tsx                         │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (task, links, org members read) + Convex mutations      │
+│  - One form for tasks and milestones, create and edit                 │
+│  - Predecessors are linked here; adding one may push this task        │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import './task-drawer.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useProjectData } from '@/hooks/useProjectData';
+import { useClientData } from '@/hooks/useClientData';
+import { useFuse } from '@/store/fuse';
+import type { ProjectTask } from '@/store/types';
+import { Button, Input, Label, Modal, Stack, T } from '@/vr';
+import { useSideDrawer } from '@/vr/modal';
+import { fromDateInput, toDateInput } from '@/lib/format';
+import { DAY_MS, DEPENDENCY_TYPES, validateDependency, validateTask, type DependencyType } from '@/domains/projects';
+
+// ─────────────────────────────────────────────────────────────────────
+// FORM MODEL
+// ─────────────────────────────────────────────────────────────────────
+type TaskKind = 'task' | 'milestone';
+
+const TASK_KINDS: { value: TaskKind; label: string }[] = [
+  { value: 'task', label: 'Task' },
+  { value: 'milestone', label: 'Milestone' },
+];
+
+interface TaskForm {
+  name: string;
+  kind: TaskKind;
+  startDate: string;
+  endDate: string;
+  assignedTo: string;
+}
+
+function formFromTask(task: ProjectTask | undefined, defaultStart: number): TaskForm {
+  return {
+    name: task?.name ?? '',
+    kind: task?.isMilestone ? 'milestone' : 'task',
+    startDate: toDateInput(task?.startDate ?? defaultStart),
+    endDate: toDateInput(task?.endDate ?? defaultStart + 4 * DAY_MS),
+    assignedTo: task?.assignedTo ?? '',
+  };
+}
+
+const dependencyLabel = (type: DependencyType) => DEPENDENCY_TYPES.find((t) => t.value === type)?.label ?? type;
+
+interface TaskDrawerFeatureProps {
+  projectId: string;
+  taskId?: string;
+  /** Start date for a new task (defaults to today) */
+  defaultStart?: number;
+}
+
+export function TaskDrawerFeature({ projectId, taskId, defaultStart }: TaskDrawerFeatureProps) {
+  const { data } = useProjectData();
+  const { data: clients } = useClientData();
+  const user = useFuse((state) => state.user);
+  const { closeDrawer } = useSideDrawer();
+  const createTask = useMutation(api.domains.projects.api.createTask);
+  const updateTask = useMutation(api.domains.projects.api.updateTask);
+  const deleteTask = useMutation(api.domains.projects.api.deleteTask);
+  const addDependency = useMutation(api.domains.projects.api.addDependency);
+  const removeDependency = useMutation(api.domains.projects.api.removeDependency);
+
+  const task = taskId ? data.tasks.find((t) => t._id === taskId) : undefined;
+  const canEdit = user?.rank !== 'crew';
+  const today = fromDateInput(toDateInput(Date.now())) ?? Date.now();
+
+  const [form, setForm] = useState<TaskForm>(() => formFromTask(task, defaultStart ?? today));
+  const [linkFrom, setLinkFrom] = useState('');
+  const [linkType, setLinkType] = useState<DependencyType>('finish_to_start');
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (taskId && !task) {
+    return <T.body color="secondary">Task not found</T.body>;
+  }
+
+  const projectTasks = data.tasks.filter((t) => t.projectId === projectId);
+  const projectLinks = data.dependencies.filter((dep) => dep.projectId === projectId);
+  const predecessors = task ? projectLinks.filter((dep) => dep.successorId === task._id) : [];
+  const taskName = (id: string) => projectTasks.find((t) => t._id === id)?.name ?? 'Removed task';
+
+  const memberOptions = [
+    { value: '', label: 'Unassigned' },
+    ...clients.members.map((member) => ({
+      value: member._id,
+      label: `${member.firstName} ${member.lastName}`.trim() || member.email,
+    })),
+  ];
+  const predecessorOptions = [
+    { value: '', label: 'Choose a task...' },
+    ...projectTasks
+      .filter((t) => t._id !== task?._id && !predecessors.some((dep) => dep.predecessorId === t._id))
+      .map((t) => ({ value: t._id, label: t.name })),
+  ];
+
+  const setField = (field: keyof TaskForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const isMilestone = form.kind === 'milestone';
+    const startDate = fromDateInput(form.startDate);
+    const endDate = isMilestone ? startDate : fromDateInput(form.endDate);
+    if (startDate === null || endDate === null) {
+      setError('Dates must be valid');
+      return;
+    }
+    const details = { name: form.name, startDate, endDate, isMilestone };
+    const taskError = validateTask(details);
+    if (taskError) {
+      setError(taskError);
+      return;
+    }
+
+    const callerUserId = user.id as Id<'admin_users'>;
+    const assignedTo = form.assignedTo ? form.assignedTo as Id<'admin_users'> : undefined;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (!task) {
+        await createTask({
+          callerUserId,
+          projectId: projectId as Id<'projects_tracking_Schedule'>,
+          ...details,
+          assignedTo,
+        });
+      } else {
+        await updateTask({
+          callerUserId,
+          taskId: task._id as Id<'projects_tracking_Tasks'>,
+          ...details,
+          assignedTo: assignedTo ?? null,
+        });
+      }
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddLink = async () => {
+    if (!user?.id || !task || !linkFrom) return;
+    const linkError = validateDependency(projectLinks, { predecessorId: linkFrom, successorId: task._id });
+    if (linkError) {
+      setError(linkError);
+      return;
+    }
+    setError(null);
+    try {
+      await addDependency({
+        callerUserId: user.id as Id<'admin_users'>,
+        predecessorId: linkFrom as Id<'projects_tracking_Tasks'>,
+        successorId: task._id as Id<'projects_tracking_Tasks'>,
+        type: linkType,
+      });
+      setLinkFrom('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not link tasks');
+    }
+  };
+
+  const handleRemoveLink = async (dependencyId: string) => {
+    if (!user?.id) return;
+    setError(null);
+    try {
+      await removeDependency({
+        callerUserId: user.id as Id<'admin_users'>,
+        dependencyId: dependencyId as Id<'projects_tracking_TaskDependencies'>,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove link');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user?.id || !task) return;
+    setConfirmDelete(false);
+    try {
+      await deleteTask({
+        callerUserId: user.id as Id<'admin_users'>,
+        taskId: task._id as Id<'projects_tracking_Tasks'>,
+      });
+      closeDrawer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete task');
+    }
+  };
+
+  return (
+    <Stack className="ft-task-drawer">
+      <label className="ft-task-drawer__field">
+        <T.caption>Name</T.caption>
+        <Input.text value={form.name} onChange={setField('name')} placeholder="e.g. Foundations" disabled={!canEdit} />
+      </label>
+
+      <div className="ft-task-drawer__grid">
+        <label className="ft-task-drawer__field">
+          <T.caption>Type</T.caption>
+          <Input.select value={form.kind} onChange={setField('kind')} options={TASK_KINDS} disabled={!canEdit} />
+        </label>
+        <label className="ft-task-drawer__field">
+          <T.caption>Assignee</T.caption>
+          <Input.select value={form.assignedTo} onChange={setField('assignedTo')} options={memberOptions} disabled={!canEdit} />
+        </label>
+        <label className="ft-task-drawer__field">
+          <T.caption>{form.kind === 'milestone' ? 'Date' : 'Start'}</T.caption>
+          <input type="date" className="vr-input-text" value={form.startDate} onChange={(e) => setField('startDate')(e.target.value)} disabled={!canEdit} />
+        </label>
+        {form.kind === 'task' && (
+          <label className="ft-task-drawer__field">
+            <T.caption>End</T.caption>
+            <input type="date" className="vr-input-text" value={form.endDate} onChange={(e) => setField('endDate')(e.target.value)} disabled={!canEdit} />
+          </label>
+        )}
+      </div>
+
+      {task && (
+        <div className="ft-task-drawer__links">
+          <T.body size="sm" weight="semibold">Depends on</T.body>
+          {predecessors.length === 0 && <T.caption color="secondary">No predecessors - this task can start any time.</T.caption>}
+          {predecessors.map((dep) => (
+            <div key={dep._id} className="ft-task-drawer__link">
+              <T.body size="sm">{taskName(dep.predecessorId)}</T.body>
+              <T.caption color="secondary">{dependencyLabel(dep.type)}</T.caption>
+              {canEdit && <Button.ghost onClick={() => handleRemoveLink(dep._id)}>Remove</Button.ghost>}
+            </div>
+          ))}
+          {canEdit && predecessorOptions.length > 1 && (
+            <div className="ft-task-drawer__link-form">
+              <Input.select value={linkFrom} onChange={setLinkFrom} options={predecessorOptions} />
+              <Input.select value={linkType} onChange={(value) => setLinkType(value as DependencyType)} options={DEPENDENCY_TYPES} />
+              <Button.secondary onClick={handleAddLink} disabled={!linkFrom}>Link</Button.secondary>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <Label.error message={error} />}
+
+      {canEdit && (
+        <div className="ft-task-drawer__actions">
+          {task && <Button.danger onClick={() => setConfirmDelete(true)}>Delete</Button.danger>}
+          <Button.primary onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : task ? 'Save task' : 'Add task'}
+          </Button.primary>
+        </div>
+      )}
+
+      <Modal.confirmation
+        isOpen={confirmDelete}
+        title="Delete task?"
+        message={`${task?.name ?? 'This task'} and its links will be removed from the schedule.`}
+        variant="danger"
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </Stack>
+  );
+}
@@ -24,13 +24,14 @@ import { useMutation } from 'convex/react';
 import { api } from '@/convex/_generated/api';
 import type { Id } from '@/convex/_generated/dataModel';
 import { useFuse } from '@/store/fuse';
-import { Field, Card, T, Stack } from '@/vr';
+import { Field, Card, T, Stack, useSideDrawer } from '@/vr';
 import { VerifyEmail } from '@/app/(clerk)/features/VerifyEmail';
 import { VerifySecondary } from '@/app/(clerk)/features/VerifySecondary';
 import { swapEmailsToPrimary, deleteSecondaryEmail } from '@/app/(clerk)/actions/email';
 import type { EmailAccount } from '@/features/productivity/email-console/types';
 import { refreshSessionAfterUpload } from '@/app/actions/user-mutations';
 import { useProductivityData } from '@/hooks/useProductivityData';
+import { ImapConnectFeature } from '@/features/productivity/imap-connect';
 
 type ActionState = 'idle' | 'confirming' | 'executing';
 type DisconnectState = Record<string, ActionState>;
@@ -54,7 +55,8 @@ export function EmailTab() {
   // Convex Mutations
   // ─────────────────────────────────────────────────────────────────────
   const updateUserSettings = useMutation(api.domains.settings.mutations.updateUserSettings);
-  const disconnectOutlook = useMutation(api.productivity.email.outlookDiagnostics.disconnectOutlookAccount);
+  const disconnectOutlook = useMutation(api.productivity.email.outlookDisconnect.disconnectOutlookAccount);
+  const { openDrawer } = useSideDrawer();
 
   // ─────────────────────────────────────────────────────────────────────
   // Modal State (for email verification)
@@ -401,16 +403,6 @@ export function EmailTab() {
               <T.body size="sm" color="secondary">
                 No email accounts connected yet.
               </T.body>
-              <div className="ft-emailtab-connect-button-container">
-                <a
-                  href="/api/auth/outlook/authorize"
-                  className="ft-emailtab-connect-button"
-                >
-                  <T.body size="sm" weight="medium">
-                    Connect Outlook
-                  </T.body>
-                </a>
-              </div>
             </div>
           ) : (
             <div className="ft-emailtab-connected-accounts">
@@ -460,6 +452,37 @@ export function EmailTab() {
               })}
             </div>
           )}
+          <div className="ft-emailtab-connect-button-container">
+            <a
+              href="/api/auth/outlook/authorize"
+              className="ft-emailtab-connect-button"
+            >
+              <T.body size="sm" weight="medium">
+                Connect Outlook
+              </T.body>
+            </a>
+            <a
+              href="/api/auth/gmail/authorize"
+              className="ft-emailtab-connect-button"
+            >
+              <T.body size="sm" weight="medium">
+                Connect Gmail
+              </T.body>
+            </a>
+            <button
+              type="button"
+              onClick={() => openDrawer({
+                content: <ImapConnectFeature />,
+                title: 'Connect IMAP mailbox',
+                subtitle: 'Any provider with IMAP and SMTP access',
+              })}
+              className="ft-emailtab-connect-button"
+            >
+              <T.body size="sm" weight="medium">
+                Connect IMAP
+              </T.body>
+            </button>
+          </div>
         </Card.standard>
       </Stack.lg>
 
@@ -0,0 +1,203 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏢 ORGANISATION TAB                                                  │
+│  /src/features/settings/account-page/_tabs/OrganisationTab.tsx        │
+│                                                                       │
+│  VR Doctrine: Feature Layer                                           │
+│  - Wires FUSE (settings.organization via useSettingsData)             │
+│  - Wires Convex (updateOrg, invites, removeOrgMember)                 │
+│  - Members share every contact, book and project of the org           │
+│  - Invitees join only once they accept                                │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import '../account-page.css';
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { acceptOrgInviteAction } from '@/app/actions/user-mutations';
+import { reloadWarpDomains } from '@/fuse/warp/orchestrator';
+import { useFuse } from '@/store/fuse';
+import { useSettingsData } from '@/hooks/useSettingsData';
+import { Button, Card, Field, Input, Label, Stack, T } from '@/vr';
+
+/** Invites addressed to the caller - accepting joins (and usually switches to) the org */
+function InvitationsCard() {
+  const user = useFuse((s) => s.user);
+  const updateUser = useFuse((s) => s.updateUser);
+  const { data } = useSettingsData();
+  const cancelOrgInvite = useMutation(api.domains.admin.orgs.api.cancelOrgInvite);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user?.id || data.invitations.length === 0) return null;
+  const callerUserId = user.id as Id<'admin_users'>;
+
+  const handleAccept = async (inviteId: string) => {
+    setBusyId(inviteId);
+    setError(null);
+    const result = await acceptOrgInviteAction(inviteId);
+    if (!result.success) {
+      setError(result.error ?? 'Could not accept invite');
+    } else if (result.switched) {
+      updateUser({ orgId: result.orgId });
+      await reloadWarpDomains();
+    }
+    setBusyId(null);
+  };
+
+  const handleDecline = async (inviteId: string) => {
+    setBusyId(inviteId);
+    setError(null);
+    try {
+      await cancelOrgInvite({ callerUserId, inviteId: inviteId as Id<'admin_orgs_Invites'> });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not decline invite');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card.standard title="Invitations" subtitle="Organisations that invited you">
+      <Stack.lg>
+        <div className="ft-organisationtab-members">
+          {data.invitations.map((invite) => (
+            <div key={invite._id} className="ft-organisationtab-member">
+              <T.body size="sm" weight="semibold">{invite.orgName}</T.body>
+              <Button.primary onClick={() => handleAccept(invite._id)} disabled={busyId !== null}>
+                {busyId === invite._id ? 'Joining...' : 'Accept'}
+              </Button.primary>
+              <Button.ghost onClick={() => handleDecline(invite._id)} disabled={busyId !== null}>Decline</Button.ghost>
+            </div>
+          ))}
+        </div>
+        {error && <Label.error message={error} />}
+      </Stack.lg>
+    </Card.standard>
+  );
+}
+
+export function OrganisationTab() {
+  const user = useFuse((s) => s.user);
+  const { data, computed } = useSettingsData();
+  const organization = data.organization;
+
+  const updateOrg = useMutation(api.domains.admin.orgs.api.updateOrg);
+  const inviteOrgMember = useMutation(api.domains.admin.orgs.api.inviteOrgMember);
+  const cancelOrgInvite = useMutation(api.domains.admin.orgs.api.cancelOrgInvite);
+  const removeOrgMember = useMutation(api.domains.admin.orgs.api.removeOrgMember);
+
+  const [email, setEmail] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!organization || !user?.id) {
+    return (
+      <Stack.lg>
+        <InvitationsCard />
+        <Card.standard title="Organisation" subtitle="Finish setting up your account to create one">
+          <T.body color="secondary">You are not part of an organisation yet.</T.body>
+        </Card.standard>
+      </Stack.lg>
+    );
+  }
+
+  const callerUserId = user.id as Id<'admin_users'>;
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    setError(null);
+    try {
+      await inviteOrgMember({ callerUserId, email });
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    setError(null);
+    try {
+      await cancelOrgInvite({ callerUserId, inviteId: inviteId as Id<'admin_orgs_Invites'> });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke invite');
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    setError(null);
+    try {
+      await removeOrgMember({ callerUserId, userId: userId as Id<'admin_users'> });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove member');
+    }
+  };
+
+  return (
+    <Stack.lg>
+      <InvitationsCard />
+      <Card.standard title="Organisation" subtitle="Members share contacts, finances and projects">
+        <Stack.lg>
+          <Stack.row.equal>
+            <Field.live
+              label="Name"
+              value={organization.name}
+              onSave={async (name) => { await updateOrg({ callerUserId, name }); }}
+              disabled={!computed.canManageOrg}
+            />
+            <Field.live
+              label="Timezone"
+              value={organization.timezone ?? ''}
+              onSave={async (timezone) => { await updateOrg({ callerUserId, timezone: timezone.trim() }); }}
+              placeholder="e.g. Australia/Sydney"
+              disabled={!computed.canManageOrg}
+            />
+          </Stack.row.equal>
+
+          <div className="ft-organisationtab-members">
+            {organization.members.map((member) => (
+              <div key={member._id} className="ft-organisationtab-member">
+                <div className="ft-organisationtab-member__identity">
+                  <T.body size="sm" weight="semibold">
+                    {`${member.firstName} ${member.lastName}`.trim() || member.email}
+                  </T.body>
+                  <T.caption color="secondary">{member.email}</T.caption>
+                </div>
+                <T.caption color="secondary">
+                  {member.role === 'owner' ? `Owner · ${member.rank}` : member.rank}
+                </T.caption>
+                {computed.canManageOrg && member.role !== 'owner' && member._id !== user.id && (
+                  <Button.ghost onClick={() => handleRemove(member._id)}>Remove</Button.ghost>
+                )}
+              </div>
+            ))}
+            {organization.invites.map((invite) => (
+              <div key={invite._id} className="ft-organisationtab-member">
+                <T.caption color="secondary">{invite.email}</T.caption>
+                <T.caption color="secondary">Invited</T.caption>
+                {computed.canManageOrg && (
+                  <Button.ghost onClick={() => handleRevoke(invite._id)}>Revoke</Button.ghost>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {computed.canManageOrg && (
+            <div className="ft-organisationtab-add">
+              <Input.text type="email" value={email} onChange={setEmail} placeholder="colleague@company.com" />
+              <Button.primary onClick={handleInvite} disabled={isInviting || !email.trim()}>
+                {isInviting ? 'Inviting...' : 'Invite member'}
+              </Button.primary>
+            </div>
+          )}
+
+          {error && <Label.error message={error} />}
+        </Stack.lg>
+      </Card.standard>
+    </Stack.lg>
+  );
+}
@@ -22,6 +22,7 @@ import { ProfileTab } from './_tabs/ProfileTab';
 import { EmailTab } from './_tabs/EmailTab';
 import { PasswordTab } from './_tabs/PasswordTab';
 import { GenomeTab } from './_tabs/GenomeTab';
+import { OrganisationTab } from './_tabs/OrganisationTab';
 
 export function AccountPageFeature() {
   const user = useFuse((s) => s.user);
@@ -71,6 +72,7 @@ export function AccountPageFeature() {
         <Tabs.panels
           tabs={[
             { id: 'profile', label: 'Profile', icon: <Icon variant="user" />, content: <ProfileTab /> },
+            { id: 'organisation', label: 'Organisation', icon: <Icon variant="building" />, content: <OrganisationTab /> },
             { id: 'email', label: 'Email', icon: <Icon variant="send" />, content: <EmailTab /> },
             { id: 'password', label: 'Password', icon: <Icon variant="lock" />, content: <PasswordTab /> },
             { id: 'genome', label: <><span>Genome</span> <span className="vr-tabs-panels-label-sm">{genomePercent}%</span></>, icon: <Icon variant="dna" />, content: <GenomeTab />, highlight: genomePercent < 100 },
@@ -0,0 +1,60 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🎭 IMPERSONATION BANNER - Admiral "View As User" Strip               │
+│  /src/features/shell/impersonation-banner/index.tsx                   │
+│                                                                        │
+│  Persistent strip above the topbar while an admiral views the app    │
+│  as another user. Stays until stopped or the session expires.         │
+│                                                                        │
+│  ARCHITECTURE:                                                         │
+│  - Reads user.impersonation from FUSE (baked into the FUSE_5.0 cookie)│
+│  - Stop: server action ends the audited session, clears the cookie    │
+│  - Full navigation afterwards - the shell's identity changes          │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+"use client";
+
+import { useState } from 'react';
+import { stopImpersonationAction } from '@/app/actions/user-mutations';
+import { useFuse } from '@/store/fuse';
+import { Button, Icon, T } from '@/vr';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function ImpersonationBanner() {
+  const impersonation = useFuse((s) => s.user?.impersonation);
+  const [isStopping, setIsStopping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!impersonation) return null;
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    setError(null);
+    const result = await stopImpersonationAction();
+    if (!result.success) {
+      setError(result.error ?? 'Could not stop viewing');
+      setIsStopping(false);
+      return;
+    }
+    // Back to the admiral's own shell (re-hydrates from the cleared cookie)
+    window.location.href = '/admin/users';
+  };
+
+  return (
+    <div className="ft-impersonation-banner" role="status">
+      <Icon variant="eye" size="sm" className="ft-impersonation-banner-icon" />
+      <T.body size="sm" weight="semibold">
+        Viewing as {impersonation.targetName} ({impersonation.targetRank})
+      </T.body>
+      <T.caption className="ft-impersonation-banner-detail">
+        Read-only · ends {formatTime(impersonation.expiresAt)}
+      </T.caption>
+      {error && <T.caption className="ft-impersonation-banner-error">{error}</T.caption>}
+      <Button.secondary onClick={handleStop} disabled={isStopping}>
+        {isStopping ? 'Stopping...' : 'Stop viewing'}
+      </Button.secondary>
+    </div>
+  );
+}
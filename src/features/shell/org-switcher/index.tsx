@@ -0,0 +1,71 @@
+/**──────────────────────────────────────────────────────────────────────┐
+│  🏢 ORG SWITCHER - Commodore Portfolio Switcher                       │
+│  /src/features/shell/org-switcher/index.tsx                           │
+│                                                                        │
+│  Topbar select for commodores (and admirals) who belong to more      │
+│  than one organization.                                               │
+│                                                                        │
+│  ARCHITECTURE:                                                         │
+│  - Reads the portfolio from FUSE (settings.portfolio via WARP)        │
+│  - Server action switches the org and re-mints the FUSE_5.0 cookie    │
+│  - WARP then reloads every domain slice for the new org               │
+└────────────────────────────────────────────────────────────────────────┘ */
+
+"use client";
+
+import { useState } from 'react';
+import { switchActiveOrgAction } from '@/app/actions/user-mutations';
+import { reloadWarpDomains } from '@/fuse/warp/orchestrator';
+import { useSettingsData } from '@/hooks/useSettingsData';
+import { useFuse } from '@/store/fuse';
+import { Icon, Input, Label } from '@/vr';
+
+export default function OrgSwitcher() {
+  const { data, computed } = useSettingsData();
+  const updateUser = useFuse((s) => s.updateUser);
+  const hydrateSettings = useFuse((s) => s.hydrateSettings);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!computed.canSwitchOrg) return null;
+
+  const portfolio = data.portfolio;
+  const activeOrg = portfolio.find((org) => org.isActive);
+
+  const handleSwitch = async (orgId: string) => {
+    if (orgId === activeOrg?._id) return;
+    setIsSwitching(true);
+    setError(null);
+
+    const result = await switchActiveOrgAction(orgId);
+    if (!result.success) {
+      setError(result.error ?? 'Could not switch organization');
+      setIsSwitching(false);
+      return;
+    }
+
+    // Optimistic: topbar shows the new org while the domains reload
+    updateUser({ orgId });
+    hydrateSettings({
+      portfolio: portfolio.map((org) => ({ ...org, isActive: org._id === orgId })),
+    }, 'MUTATION');
+
+    await reloadWarpDomains();
+    setIsSwitching(false);
+  };
+
+  return (
+    <div className="ft-orgswitcher">
+      <Icon variant="building" size="sm" className="ft-orgswitcher-icon" />
+      <Input.select
+        value={activeOrg?._id ?? ''}
+        onChange={handleSwitch}
+        options={portfolio.map((org) => ({ value: org._id, label: org.name }))}
+        placeholder="Select organization"
+        disabled={isSwitching}
+        className="ft-orgswitcher-select"
+      />
+      {error && <Label.error message={error} />}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@
 import { useLayoutEffect, useRef } from 'react';
 import { useFuse } from '@/store/fuse';
 import { getCookie, decodeFuseCookie } from './session/cookieClient';
+import { isImpersonationActive } from '@/rank/checks';
 // WARP is now called from FuseApp.tsx - no longer needed here
 
 export function ClientHydrator() {
@@ -63,6 +64,11 @@ export function ClientHydrator() {
 
     console.log('🔍 FUSE Hydrator: Cookie decoded, rank=', decoded.rank, 'phoneNumber=', decoded.phoneNumber);
 
+    // Admiral "view as user": shell runs at the target's rank until stopped
+    const impersonation = decoded.rank === 'admiral' && isImpersonationActive(decoded.impersonation)
+      ? decoded.impersonation
+      : null;
+
     // Populate store BEFORE paint - still instant to user
     setUser({
       id: decoded._id,
@@ -75,10 +81,12 @@ export function ClientHydrator() {
       lastName: decoded.lastName || '',
       avatarUrl: decoded.avatarUrl,
       brandLogoUrl: decoded.brandLogoUrl,
-      rank: decoded.rank as 'crew' | 'captain' | 'commodore' | 'admiral' | null | undefined,
+      rank: impersonation ? impersonation.targetRank : decoded.rank as 'crew' | 'captain' | 'commodore' | 'admiral' | null | undefined,
       setupStatus: decoded.setupStatus as 'pending' | 'complete' | null | undefined,
       businessCountry: decoded.businessCountry,
       entityName: decoded.entityName,
+      orgId: impersonation ? impersonation.targetOrgId : decoded.orgId,
+      impersonation,
       socialName: decoded.socialName,
       phoneNumber: decoded.phoneNumber,
       mirorAvatarProfile: decoded.mirorAvatarProfile,
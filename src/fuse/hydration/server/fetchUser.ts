@@ -14,6 +14,7 @@ import { ConvexHttpClient } from 'convex/browser';
 import { api } from '@/convex/_generated/api';
 import type { Id } from '@/convex/_generated/dataModel';
 import type { AvatarOption } from '@/fuse/constants/coreThemeConfig';
+import { isImpersonationActive } from '@/rank/checks';
 
 export type ServerUser = {
   _id: string;           // ✅ Sovereign Convex _id
@@ -26,6 +27,7 @@ export type ServerUser = {
   setupStatus?: string;
   businessCountry?: string;
   entityName?: string;
+  orgId?: string;
   socialName?: string;
   themeDark?: boolean;
   mirorAvatarProfile?: AvatarOption;
@@ -66,6 +68,7 @@ export async function fetchUserServer(): Promise<ServerUser | null> {
       setupStatus: convexUser.setupStatus,
       businessCountry: convexUser.businessCountry,
       entityName: convexUser.entityName,
+      orgId: convexUser.orgId,
       socialName: convexUser.socialName,
       themeDark: convexUser.themeDark,
       mirorAvatarProfile: convexUser.mirorAvatarProfile,
@@ -92,6 +95,7 @@ export async function fetchUserServer(): Promise<ServerUser | null> {
       setupStatus: convexUser.setupStatus ?? session.setupStatus,
       businessCountry: convexUser.businessCountry ?? session.businessCountry,
       entityName: convexUser.entityName ?? session.entityName,
+      orgId: convexUser.orgId ?? session.orgId,
       socialName: convexUser.socialName ?? session.socialName,
       phoneNumber: session.phoneNumber,
       themeMode: convexUser.themeDark ? 'dark' : 'light',
@@ -101,6 +105,7 @@ export async function fetchUserServer(): Promise<ServerUser | null> {
       dashboardLayout: session.dashboardLayout,
       dashboardWidgets: session.dashboardWidgets,
       genome: session.genome,
+      impersonation: isImpersonationActive(session.impersonation) ? session.impersonation : undefined,
     });
 
     // Update the cookie with fresh data
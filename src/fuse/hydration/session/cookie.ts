@@ -6,6 +6,7 @@
 import { cookies } from 'next/headers';
 import { SignJWT, jwtVerify } from 'jose';
 import type { AvatarOption } from '@/fuse/constants/coreThemeConfig';
+import type { ImpersonationState } from '@/rank/types';
 
 export const SESSION_COOKIE = 'FUSE_5.0';
 const ALG = 'HS256';
@@ -33,6 +34,7 @@ type SessionPayload = {
   subscriptionStatus?: string;
   businessCountry?: string;
   entityName?: string;
+  orgId?: string;      // Active org (admin_orgs _id) - follows switchActiveOrg
   socialName?: string;
   phoneNumber?: string;
   // Theme preferences for zero-FOUC rendering
@@ -45,6 +47,8 @@ type SessionPayload = {
   // Dashboard preferences (WARP'd during login)
   dashboardLayout?: 'classic' | 'focus' | 'metrics';
   dashboardWidgets?: string[];
+  // Admiral "view as user" (open admin_users_Impersonations row)
+  impersonation?: ImpersonationState;
   // Professional Genome (persisted for zero-loading)
   genome?: {
     completionPercent: number;
@@ -85,6 +89,7 @@ export async function mintSession(payload: Omit<SessionPayload, 'iat'>) {
     setupStatus: payload.setupStatus,
     businessCountry: payload.businessCountry,
     entityName: payload.entityName,
+    orgId: payload.orgId,
     socialName: payload.socialName,
     phoneNumber: payload.phoneNumber,
     themeName: payload.themeName,
@@ -95,6 +100,7 @@ export async function mintSession(payload: Omit<SessionPayload, 'iat'>) {
     // Dashboard preferences (WARP'd during login)
     dashboardLayout: payload.dashboardLayout,
     dashboardWidgets: payload.dashboardWidgets,
+    impersonation: payload.impersonation,
     // Professional Genome
     genome: payload.genome
   })
@@ -163,6 +169,7 @@ export async function readSessionCookie(): Promise<SessionPayload | null> {
       setupStatus: payload.setupStatus as string | undefined,
       businessCountry: payload.businessCountry as string | undefined,
       entityName: payload.entityName as string | undefined,
+      orgId: payload.orgId as string | undefined,
       socialName: payload.socialName as string | undefined,
       phoneNumber: payload.phoneNumber as string | undefined,
       themeName: payload.themeName as string | undefined,
@@ -173,6 +180,7 @@ export async function readSessionCookie(): Promise<SessionPayload | null> {
       // Dashboard preferences
       dashboardLayout: payload.dashboardLayout as 'classic' | 'focus' | 'metrics' | undefined,
       dashboardWidgets: payload.dashboardWidgets as string[] | undefined,
+      impersonation: payload.impersonation as ImpersonationState | undefined,
       // Professional Genome
       genome: payload.genome as SessionPayload['genome']
     };
@@ -232,6 +240,7 @@ export function getSessionFromCookie(cookieStore: { get: (name: string) => { val
       setupStatus: payload.setupStatus,
       businessCountry: payload.businessCountry,
       entityName: payload.entityName,
+      orgId: payload.orgId,
       socialName: payload.socialName,
       phoneNumber: payload.phoneNumber,
       themeName: payload.themeName,
@@ -242,6 +251,7 @@ export function getSessionFromCookie(cookieStore: { get: (name: string) => { val
       // Dashboard preferences
       dashboardLayout: payload.dashboardLayout,
       dashboardWidgets: payload.dashboardWidgets,
+      impersonation: payload.impersonation,
       // Professional Genome
       genome: payload.genome
     };
@@ -12,6 +12,7 @@
 'use client';
 
 import type { AvatarOption } from '@/fuse/constants/coreThemeConfig';
+import type { ImpersonationState } from '@/rank/types';
 
 /**
  * Get cookie value by name from document.cookie
@@ -51,6 +52,7 @@ export interface FuseCookiePayload {
   setupStatus?: 'pending' | 'complete' | null;
   businessCountry?: string;
   entityName?: string;
+  orgId?: string;
   socialName?: string;
   phoneNumber?: string;
   mirorAvatarProfile?: AvatarOption;
@@ -61,6 +63,8 @@ export interface FuseCookiePayload {
   // Dashboard preferences (WARP'd during login)
   dashboardLayout?: 'classic' | 'focus' | 'metrics';
   dashboardWidgets?: string[];
+  // Admiral "view as user" (banner + effective rank)
+  impersonation?: ImpersonationState;
   // Professional Genome (baked during genome save)
   genome?: {
     completionPercent: number;
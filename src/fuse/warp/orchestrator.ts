@@ -7,6 +7,7 @@
 │  - TTL revalidation (5 min) on focus/online events                    │
 │  - Non-blocking: runs during browser idle time                        │
 │  - Sequential to avoid network congestion                             │
+│  - Full reload when the active org changes (commodore switcher)       │
 └────────────────────────────────────────────────────────────────────────┘ */
 
 'use client';
@@ -206,3 +207,16 @@ export function resetWarpTTL(): void {
   });
   console.log('🔱 WARP-O: TTL reset');
 }
+
+// ═══════════════════════════════════════════════════════════════════════
+// RELOAD (for org switch)
+// ═══════════════════════════════════════════════════════════════════════
+
+/**
+ * Refetch every domain for the rank, ignoring TTL
+ * Called after the active org changes - every slice still holds the old org
+ */
+export async function reloadWarpDomains(): Promise<void> {
+  resetWarpTTL();
+  await runWarpPreload();
+}
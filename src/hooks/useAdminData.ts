@@ -25,7 +25,7 @@ import { useFuse } from '@/store/fuse';
  * Usage:
  * ```tsx
  * const { data, computed, flags } = useAdminData();
- * const { users, deletionLogs } = data;
+ * const { users, deletionLogs, impersonationLogs } = data;
  * ```
  */
 export function useAdminData() {
@@ -48,6 +48,7 @@ export function useAdminData() {
     data: {
       users: admin.users,
       deletionLogs: admin.deletionLogs,
+      impersonationLogs: admin.impersonationLogs,
     },
 
     // COMPUTED: Calculated values from data
@@ -43,6 +43,10 @@ export function useAdminSync(): void {
     api.domains.admin.users.api.getAllDeletionLogs,
     callerUserId ? { callerUserId } : "skip"
   );
+  const liveImpersonationLogs = useQuery(
+    api.domains.admin.impersonation.api.getImpersonationLog,
+    callerUserId ? { callerUserId } : "skip"
+  );
   const liveClerkRegistryCount = useQuery(
     api.domains.admin.users.api.getClerkRegistryCount,
     callerUserId ? { callerUserId } : "skip"
@@ -50,15 +54,16 @@ export function useAdminSync(): void {
 
   // SYNC TO FUSE: When Convex data arrives, hydrate FUSE store
   useEffect(() => {
-    if (liveUsers && liveDeletionLogs && liveClerkRegistryCount !== undefined) {
+    if (liveUsers && liveDeletionLogs && liveImpersonationLogs && liveClerkRegistryCount !== undefined) {
       hydrateAdmin({
         users: liveUsers,
         deletionLogs: liveDeletionLogs,
+        impersonationLogs: liveImpersonationLogs,
         clerkRegistryCount: liveClerkRegistryCount
       }, 'CONVEX_LIVE');
       console.log('🛡️ ADMIN SYNC: Data synced to FUSE via CONVEX_LIVE');
     }
-  }, [liveUsers, liveDeletionLogs, liveClerkRegistryCount, hydrateAdmin]);
+  }, [liveUsers, liveDeletionLogs, liveImpersonationLogs, liveClerkRegistryCount, hydrateAdmin]);
 
   // Log initial hydration status
   useEffect(() => {
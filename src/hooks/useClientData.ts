@@ -9,7 +9,9 @@
 
 'use client';
 
+import { useMemo } from 'react';
 import { useFuse } from '@/store/fuse';
+import { pipelineForecast, type ContactStatus } from '@/domains/clients';
 
 /**
  * WRAP Hook - Clients Domain
@@ -30,14 +32,38 @@ import { useFuse } from '@/store/fuse';
  */
 export function useClientData() {
   const clients = useFuse((state) => state.clients);
+  const userId = useFuse((state) => state.user?.id);
 
   // TTTS-1 compliant: status === 'hydrated' means data is ready (ONE source of truth)
   const isHydrated = clients.status === 'hydrated';
 
+  // Per-status counts for the contacts page metrics and filters
+  const contactsByStatus = useMemo(() => {
+    const counts: Record<ContactStatus, number> = { lead: 0, prospect: 0, active: 0, inactive: 0, archived: 0 };
+    for (const contact of clients.contacts) counts[contact.status] += 1;
+    return counts;
+  }, [clients.contacts]);
+
+  // Caller's own org (admirals load every org; boards and imports work in theirs)
+  const orgId = clients.members.find((member) => member._id === userId)?.orgId;
+
+  // Pipeline board: the caller's org only, stages in board order
+  const pipeline = useMemo(() => {
+    const inOrg = <T extends { orgId: string }>(rows: T[]) =>
+      orgId === undefined ? rows : rows.filter((row) => row.orgId === orgId);
+    const stages = inOrg(clients.pipelineStages).sort((a, b) => a.order - b.order);
+    const deals = inOrg(clients.deals).sort((a, b) => a.position - b.position);
+    const openStageIds = stages.filter((stage) => stage.kind === 'open').map((stage) => stage._id);
+    return { stages, deals, forecast: pipelineForecast(deals, openStageIds), openStageIds };
+  }, [clients.pipelineStages, clients.deals, orgId]);
+
   return {
     // DATA: Raw domain data from FUSE store
     data: {
       contacts: clients.contacts,
+      members: clients.members,
+      pipelineStages: clients.pipelineStages,
+      deals: clients.deals,
       teams: clients.teams,
       sessions: clients.sessions,
       reports: clients.reports,
@@ -46,6 +72,12 @@ export function useClientData() {
     // COMPUTED: Calculated/derived values
     computed: {
       totalContacts: clients.contacts.length,
+      contactsByStatus,
+      orgId,
+      orgPipelineStages: pipeline.stages,
+      orgDeals: pipeline.deals,
+      openDeals: pipeline.deals.filter((deal) => pipeline.openStageIds.includes(deal.stageId)).length,
+      pipelineForecast: pipeline.forecast,
       totalTeams: clients.teams.length,
       totalSessions: clients.sessions.length,
       totalReports: clients.reports.length,
@@ -0,0 +1,66 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔄 CLIENTS SYNC HOOK - Convex → FUSE Bridge                              │
+│  /src/hooks/useClientsSync.ts                                             │
+│                                                                           │
+│  TTTS-2 COMPLIANT: useQuery ONLY hydrates FUSE.                           │
+│  This hook syncs Convex data INTO FUSE - never returns directly.          │
+│                                                                           │
+│  Used by: ClientsProvider                                                 │
+│  Components read via: useClientData()                                     │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFuse } from '@/store/fuse';
+
+/**
+ * Clients Sync Hook - Convex → FUSE
+ *
+ * GOLDEN BRIDGE PATTERN:
+ * - Subscribes to Convex via useQuery
+ * - Hydrates FUSE store via hydrateClients()
+ * - Returns NOTHING (void)
+ * - Components read from FUSE via useClientData()
+ */
+export function useClientsSync(): void {
+  const hydrateClients = useFuse((state) => state.hydrateClients);
+  const user = useFuse((state) => state.user);
+
+  // 🛡️ S.I.D. Phase 15: Pass callerUserId (sovereign) to queries
+  const callerUserId = user?.id as Id<"admin_users"> | undefined;
+
+  // Convex WebSocket subscription for real-time updates
+  const liveContacts = useQuery(
+    api.domains.clients.api.listClients,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveMembers = useQuery(
+    api.domains.clients.api.listAssignableMembers,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const livePipelineStages = useQuery(
+    api.domains.clients.api.listPipelineStages,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveDeals = useQuery(
+    api.domains.clients.api.listDeals,
+    callerUserId ? { callerUserId } : "skip"
+  );
+
+  // SYNC TO FUSE: When Convex data arrives, hydrate FUSE store
+  useEffect(() => {
+    if (liveContacts && liveMembers && livePipelineStages && liveDeals) {
+      hydrateClients({
+        contacts: liveContacts,
+        members: liveMembers,
+        pipelineStages: livePipelineStages,
+        deals: liveDeals,
+      }, 'CONVEX_LIVE');
+      console.log('👥 CLIENTS SYNC: Data synced to FUSE via CONVEX_LIVE');
+    }
+  }, [liveContacts, liveMembers, livePipelineStages, liveDeals, hydrateClients]);
+}
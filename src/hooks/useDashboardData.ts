@@ -83,7 +83,7 @@ export function useDashboardData() {
         activeSessions: client.computed.totalSessions || 0,
 
         // Project domain stats (Captain+)
-        activeProjects: project.computed.totalCharts || 0,
+        activeProjects: project.computed.activeProjects || 0,
       },
 
       // Domain hydration status (for widget visibility)
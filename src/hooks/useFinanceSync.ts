@@ -0,0 +1,81 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔄 FINANCE SYNC HOOK - Convex → FUSE Bridge                              │
+│  /src/hooks/useFinanceSync.ts                                             │
+│                                                                           │
+│  TTTS-2 COMPLIANT: useQuery ONLY hydrates FUSE.                           │
+│  This hook syncs Convex data INTO FUSE - never returns directly.          │
+│                                                                           │
+│  Used by: FinanceProvider                                                 │
+│  Components read via: useFinancialData()                                  │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFuse } from '@/store/fuse';
+
+/**
+ * Finance Sync Hook - Convex → FUSE
+ *
+ * GOLDEN BRIDGE PATTERN:
+ * - Subscribes to Convex via useQuery
+ * - Hydrates FUSE store via hydrateFinance()
+ * - Returns NOTHING (void)
+ * - Components read from FUSE via useFinancialData()
+ */
+export function useFinanceSync(): void {
+  const hydrateFinance = useFuse((state) => state.hydrateFinance);
+  const user = useFuse((state) => state.user);
+
+  // 🛡️ S.I.D. Phase 15: Pass callerUserId (sovereign) to queries
+  const callerUserId = user?.id as Id<"admin_users"> | undefined;
+
+  // Convex WebSocket subscription for real-time updates
+  const liveTransactions = useQuery(
+    api.domains.finance.api.listTransactions,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveInvoices = useQuery(
+    api.domains.finance.api.listInvoices,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveChartOfAccounts = useQuery(
+    api.domains.finance.api.listLedgerAccounts,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveJournalEntries = useQuery(
+    api.domains.finance.api.listJournalEntries,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveCurrencySettings = useQuery(
+    api.domains.finance.api.getCurrencySettings,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveFxRates = useQuery(
+    api.domains.finance.api.listFxRates,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveRecurringTemplates = useQuery(
+    api.domains.finance.api.listRecurringTemplates,
+    callerUserId ? { callerUserId } : "skip"
+  );
+
+  // SYNC TO FUSE: When Convex data arrives, hydrate FUSE store
+  useEffect(() => {
+    if (liveTransactions && liveInvoices && liveChartOfAccounts && liveJournalEntries && liveCurrencySettings && liveFxRates && liveRecurringTemplates) {
+      hydrateFinance({
+        transactions: liveTransactions,
+        invoices: liveInvoices,
+        chartOfAccounts: liveChartOfAccounts,
+        journalEntries: liveJournalEntries,
+        currencySettings: liveCurrencySettings,
+        fxRates: liveFxRates,
+        recurringTemplates: liveRecurringTemplates,
+      }, 'CONVEX_LIVE');
+      console.log('💰 FINANCE SYNC: Data synced to FUSE via CONVEX_LIVE');
+    }
+  }, [liveTransactions, liveInvoices, liveChartOfAccounts, liveJournalEntries, liveCurrencySettings, liveFxRates, liveRecurringTemplates, hydrateFinance]);
+}
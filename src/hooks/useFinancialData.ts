@@ -10,6 +10,8 @@
 'use client';
 
 import { useFuse } from '@/store/fuse';
+import { isInvoiceOutstanding, isInvoiceOverdue } from '@/domains/finance';
+import { currencyForCountry } from '@/lib/currency';
 
 /**
  * WRAP Hook - Financial Domain
@@ -33,6 +35,8 @@ export function useFinancialData() {
 
   // TTTS-1 compliant: status === 'hydrated' means data is ready (ONE source of truth)
   const isHydrated = finances.status === 'hydrated';
+  const invoices = finances.invoices;
+  const orgCountry = useFuse((state) => state.settings.organization?.country);
 
   return {
     // DATA: Raw domain data from FUSE store
@@ -49,17 +53,27 @@ export function useFinancialData() {
       purchases: finances.purchases,
       bills: finances.bills,
       chartOfAccounts: finances.chartOfAccounts,
+      journalEntries: finances.journalEntries,
       fixedAssets: finances.fixedAssets,
+      currencySettings: finances.currencySettings,
+      fxRates: finances.fxRates,
+      recurringTemplates: finances.recurringTemplates,
       employees: finances.employees,
       payrollRuns: finances.payrollRuns,
     },
 
     // COMPUTED: Calculated/derived values
     computed: {
+      // Until settings arrive, mirror the server default (the org's country)
+      baseCurrency: finances.currencySettings?.baseCurrency ?? currencyForCountry(orgCountry),
       totalAccounts: finances.accounts.length,
       totalTransactions: finances.transactions.length,
       totalCustomers: finances.customers.length,
       totalInvoices: finances.invoices.length,
+      draftInvoices: invoices.filter((inv) => inv.status === 'draft').length,
+      outstandingInvoices: invoices.filter((inv) => isInvoiceOutstanding(inv)).length,
+      overdueInvoices: invoices.filter((inv) => isInvoiceOverdue(inv)).length,
+      paidInvoices: invoices.filter((inv) => inv.status === 'paid').length,
       totalSuppliers: finances.suppliers.length,
       totalBills: finances.bills.length,
       totalEmployees: finances.employees.length,
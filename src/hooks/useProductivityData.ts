@@ -29,6 +29,8 @@ export function useProductivityData() {
   const meetings = useFuse((state) => state.productivity.meetings);
   const bookings = useFuse((state) => state.productivity.bookings);
   const tasks = useFuse((state) => state.productivity.tasks);
+  const emailLinks = useFuse((state) => state.productivity.emailLinks);
+  const emailDrafts = useFuse((state) => state.productivity.emailDrafts);
   const status = useFuse((state) => state.productivity.status);
 
   // TTTS-1 compliant: status === 'hydrated' means data is ready
@@ -42,6 +44,8 @@ export function useProductivityData() {
       meetings,
       bookings,
       tasks,
+      emailLinks,
+      emailDrafts,
     },
 
     // COMPUTED: Calculated/derived values
@@ -44,6 +44,10 @@ const completedAccountsSet = new Set<string>();
  * - email.accounts (connected email accounts)
  * - email.threads (thread metadata with derived states)
  * - email.messages (individual email messages)
+ * - calendar (calendar events)
+ * - tasks (task board)
+ * - emailLinks (thread ↔ contact/project/invoice links)
+ * - emailDrafts (auto-saved drafts and scheduled sends)
  */
 /**
  * Return type for sync hook - includes callback for modal trigger
@@ -111,6 +115,30 @@ export function useProductivitySync(): ProductivitySyncResult {
     isIdentityStable ? { callerUserId: callerUserId! } : 'skip'
   );
 
+  // Calendar events (independent of email - hydrated on their own)
+  const liveCalendar = useQuery(
+    api.domains.productivity.api.listCalendarEvents,
+    isIdentityStable ? { callerUserId: callerUserId! } : 'skip'
+  );
+
+  // Task board (independent of email - hydrated on its own)
+  const liveTasks = useQuery(
+    api.domains.productivity.api.listTasks,
+    isIdentityStable ? { callerUserId: callerUserId! } : 'skip'
+  );
+
+  // Thread links (Link action, "Emails" tabs on contacts and projects)
+  const liveEmailLinks = useQuery(
+    api.domains.productivity.api.listEmailLinks,
+    isIdentityStable ? { callerUserId: callerUserId! } : 'skip'
+  );
+
+  // Drafts + scheduled sends (composer autosave, Drafts/Scheduled views)
+  const liveEmailDrafts = useQuery(
+    api.domains.productivity.api.listEmailDrafts,
+    isIdentityStable ? { callerUserId: callerUserId! } : 'skip'
+  );
+
   // ═══════════════════════════════════════════════════════════════════════
   // 🔄 HYDRATION: Transform and sync to FUSE
   // ═══════════════════════════════════════════════════════════════════════
@@ -128,7 +156,7 @@ export function useProductivitySync(): ProductivitySyncResult {
         _id: account._id,
         label: account.label,
         emailAddress: account.emailAddress,
-        provider: account.provider as 'outlook' | 'gmail',
+        provider: account.provider as 'outlook' | 'gmail' | 'imap',
         status: account.status as 'active' | 'error' | 'disconnected',
         syncEnabled: account.syncEnabled,
         connectedAt: account.connectedAt,
@@ -160,6 +188,8 @@ export function useProductivitySync(): ProductivitySyncResult {
       // NOTE: Pending read status protection is handled in hydrateProductivity()
       const messages: EmailMessage[] = liveMessages.map((msg) => ({
           _id: msg._id,
+          accountId: msg.accountId,
+          externalMessageId: msg.externalMessageId,
           externalThreadId: msg.externalThreadId,
           subject: msg.subject,
           from: {
@@ -170,6 +200,10 @@ export function useProductivitySync(): ProductivitySyncResult {
             name: recipient.name,
             email: recipient.email,
           })),
+          cc: msg.cc?.map((recipient): Participant => ({
+            name: recipient.name,
+            email: recipient.email,
+          })),
           receivedAt: msg.receivedAt,
           snippet: msg.snippet,
           hasAttachments: msg.hasAttachments,
@@ -184,6 +218,7 @@ export function useProductivitySync(): ProductivitySyncResult {
           providerFolderId: msg.providerFolderId,
           canonicalFolder: msg.canonicalFolder,
           isRead: msg.isRead,
+          promotedTo: msg.promotedTo,
         }));
 
       // Transform folders to FUSE format
@@ -194,7 +229,7 @@ export function useProductivitySync(): ProductivitySyncResult {
         canonicalFolder: folder.canonicalFolder,
         parentFolderId: folder.parentFolderId,
         childFolderCount: folder.childFolderCount,
-        provider: folder.provider as 'outlook' | 'gmail',
+        provider: folder.provider as 'outlook' | 'gmail' | 'imap',
       }));
 
       // ═══════════════════════════════════════════════════════════════════════
@@ -261,6 +296,26 @@ export function useProductivitySync(): ProductivitySyncResult {
     }
   }, [liveEmailAccounts, liveThreads, liveMessages, liveFolders, hydrateProductivity, isIdentityStable, callerUserId]);
 
+  useEffect(() => {
+    if (!isIdentityStable || !liveCalendar) return;
+    hydrateProductivity({ calendar: liveCalendar }, 'CONVEX_LIVE');
+  }, [liveCalendar, hydrateProductivity, isIdentityStable]);
+
+  useEffect(() => {
+    if (!isIdentityStable || !liveTasks) return;
+    hydrateProductivity({ tasks: liveTasks }, 'CONVEX_LIVE');
+  }, [liveTasks, hydrateProductivity, isIdentityStable]);
+
+  useEffect(() => {
+    if (!isIdentityStable || !liveEmailLinks) return;
+    hydrateProductivity({ emailLinks: liveEmailLinks }, 'CONVEX_LIVE');
+  }, [liveEmailLinks, hydrateProductivity, isIdentityStable]);
+
+  useEffect(() => {
+    if (!isIdentityStable || !liveEmailDrafts) return;
+    hydrateProductivity({ emailDrafts: liveEmailDrafts }, 'CONVEX_LIVE');
+  }, [liveEmailDrafts, hydrateProductivity, isIdentityStable]);
+
   return {
     showConnectedModal,
     dismissConnectedModal,
@@ -9,7 +9,9 @@
 
 'use client';
 
+import { useMemo } from 'react';
 import { useFuse } from '@/store/fuse';
+import type { ProjectBudget } from '@/store/types';
 
 /**
  * Golden Bridge Hook - Projects Domain
@@ -21,8 +23,8 @@ import { useFuse } from '@/store/fuse';
  * Usage:
  * ```tsx
  * const { data, computed, flags } = useProjectData();
- * const { charts, locations, tracking } = data;
- * const { totalCharts } = computed;
+ * const { projects, costs, tracking } = data;
+ * const { activeProjects, budgetByProject } = computed;
  * const { isHydrated } = flags;
  * ```
  */
@@ -32,26 +34,41 @@ export function useProjectData() {
   // TTTS-1 compliant: status === 'hydrated' means data is ready (ONE source of truth)
   const isHydrated = projects.status === 'hydrated';
 
+  // Budget-vs-actual rollup keyed by project, and how many projects have alerts
+  const budgets = useMemo(() => {
+    const byProject: Record<string, ProjectBudget> = {};
+    for (const budget of projects.tracking) byProject[budget.projectId] = budget;
+    const alerted = projects.tracking.filter((budget) => budget.alerts.length > 0).length;
+    return { byProject, alerted };
+  }, [projects.tracking]);
+
   return {
     // DATA: Raw domain data
     data: {
-      charts: projects.charts,
-      locations: projects.locations,
+      projects: projects.projects,
+      costs: projects.costs,
       tracking: projects.tracking,
+      tasks: projects.tasks,
+      dependencies: projects.dependencies,
+      locations: projects.locations,
     },
 
     // COMPUTED: Calculated values from data
     computed: {
-      totalCharts: projects.charts.length,
+      totalProjects: projects.projects.length,
+      activeProjects: projects.projects.filter((project) => project.status === 'active').length,
+      budgetByProject: budgets.byProject,
+      projectsWithAlerts: budgets.alerted,
+      totalTasks: projects.tasks.length,
       totalLocations: projects.locations.length,
       totalTracking: projects.tracking.length,
-      hasAnyData: projects.charts.length > 0 || projects.locations.length > 0 || projects.tracking.length > 0,
+      hasAnyData: projects.projects.length > 0 || projects.tasks.length > 0 || projects.locations.length > 0,
     },
 
     // ACTIONS: Mutations and operations (add as needed)
     actions: {
       // Future: Add mutations here
-      // updateChart: (id, updates) => store.updateChart(id, updates),
+      // updateTask: (id, updates) => store.updateTask(id, updates),
     },
 
     // FLAGS: Hydration and state flags
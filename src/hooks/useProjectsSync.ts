@@ -0,0 +1,76 @@
+/**─────────────────────────────────────────────────────────────────────────┐
+│  🔄 PROJECTS SYNC HOOK - Convex → FUSE Bridge                             │
+│  /src/hooks/useProjectsSync.ts                                            │
+│                                                                           │
+│  TTTS-2 COMPLIANT: useQuery ONLY hydrates FUSE.                           │
+│  This hook syncs Convex data INTO FUSE - never returns directly.          │
+│                                                                           │
+│  Used by: ProjectsProvider                                                │
+│  Components read via: useProjectData()                                    │
+└───────────────────────────────────────────────────────────────────────────┘ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { useFuse } from '@/store/fuse';
+
+/**
+ * Projects Sync Hook - Convex → FUSE
+ *
+ * GOLDEN BRIDGE PATTERN:
+ * - Subscribes to Convex via useQuery
+ * - Hydrates FUSE store via hydrateProjects()
+ * - Returns NOTHING (void)
+ * - Components read from FUSE via useProjectData()
+ */
+export function useProjectsSync(): void {
+  const hydrateProjects = useFuse((state) => state.hydrateProjects);
+  const user = useFuse((state) => state.user);
+
+  // 🛡️ S.I.D. Phase 15: Pass callerUserId (sovereign) to queries
+  const callerUserId = user?.id as Id<"admin_users"> | undefined;
+
+  // Convex WebSocket subscription for real-time updates
+  const liveProjects = useQuery(
+    api.domains.projects.api.listProjects,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveCosts = useQuery(
+    api.domains.projects.api.listProjectCosts,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveBudgets = useQuery(
+    api.domains.projects.api.listProjectBudgets,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveTasks = useQuery(
+    api.domains.projects.api.listProjectTasks,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveDependencies = useQuery(
+    api.domains.projects.api.listTaskDependencies,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const liveLocations = useQuery(
+    api.domains.projects.api.listProjectLocations,
+    callerUserId ? { callerUserId } : "skip"
+  );
+
+  // SYNC TO FUSE: When Convex data arrives, hydrate FUSE store
+  useEffect(() => {
+    if (liveProjects && liveCosts && liveBudgets && liveTasks && liveDependencies && liveLocations) {
+      hydrateProjects({
+        projects: liveProjects,
+        costs: liveCosts,
+        tracking: liveBudgets,
+        tasks: liveTasks,
+        dependencies: liveDependencies,
+        locations: liveLocations,
+      }, 'CONVEX_LIVE');
+      console.log('📋 PROJECTS SYNC: Data synced to FUSE via CONVEX_LIVE');
+    }
+  }, [liveProjects, liveCosts, liveBudgets, liveTasks, liveDependencies, liveLocations, hydrateProjects]);
+}
@@ -21,13 +21,14 @@ import { useFuse } from '@/store/fuse';
  * Usage:
  * ```tsx
  * const { data, computed, flags } = useSettingsData();
- * const { userProfile, preferences, notifications } = data;
+ * const { userProfile, preferences, notifications, organization, portfolio } = data;
  * const { hasProfile } = computed;
  * const { isHydrated } = flags;
  * ```
  */
 export function useSettingsData() {
   const settings = useFuse((state) => state.settings);
+  const user = useFuse((state) => state.user);
 
   // TTTS-1 compliant: status === 'hydrated' means data is ready (ONE source of truth)
   const isHydrated = settings.status === 'hydrated';
@@ -38,6 +39,9 @@ export function useSettingsData() {
       userProfile: settings.userProfile,
       preferences: settings.preferences,
       notifications: settings.notifications,
+      organization: settings.organization,
+      portfolio: settings.portfolio,
+      invitations: settings.invitations,
     },
 
     // COMPUTED: Calculated values from data
@@ -45,6 +49,11 @@ export function useSettingsData() {
       hasProfile: !!settings.userProfile,
       preferencesCount: settings.preferences.length,
       notificationsCount: settings.notifications.length,
+      isOrgOwner: !!user && settings.organization?.ownerId === user.id,
+      // Same rule as the org mutations: captain or higher manages members
+      canManageOrg: !!settings.organization && !!user?.rank && user.rank !== 'crew',
+      // Same rule as switchActiveOrg: commodores and up, with somewhere to switch to
+      canSwitchOrg: (user?.rank === 'commodore' || user?.rank === 'admiral') && settings.portfolio.length > 1,
     },
 
     // ACTIONS: Mutations and operations (add as needed)
@@ -34,15 +34,27 @@ export function useSettingsSync(): void {
   // 🛡️ S.I.D. Phase 15: Pass callerUserId (sovereign) to queries
   const callerUserId = user?.id as Id<"admin_users"> | undefined;
 
-  // Convex WebSocket subscription for real-time updates
+  // Convex WebSocket subscriptions for real-time updates
   const settingsData = useQuery(
     api.domains.settings.api.getUserSettings,
     callerUserId ? { callerUserId } : "skip"
   );
+  const organization = useQuery(
+    api.domains.admin.orgs.api.getMyOrg,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const portfolio = useQuery(
+    api.domains.admin.orgs.api.listMyOrgs,
+    callerUserId ? { callerUserId } : "skip"
+  );
+  const invitations = useQuery(
+    api.domains.admin.orgs.api.listMyInvites,
+    callerUserId ? { callerUserId } : "skip"
+  );
 
-  // SYNC TO FUSE: When Convex data arrives, hydrate FUSE store
+  // SYNC TO FUSE: When all Convex data has arrived, hydrate FUSE store
   useEffect(() => {
-    if (settingsData) {
+    if (settingsData && organization !== undefined && portfolio !== undefined && invitations !== undefined) {
       // 🛡️ S.I.D. Phase 15: Add clerkId from FUSE user state to profile
       hydrateSettings({
         userProfile: {
@@ -51,10 +63,13 @@ export function useSettingsSync(): void {
         },
         preferences: settingsData.preferences || [],
         notifications: settingsData.notifications || [],
+        organization,
+        portfolio,
+        invitations,
       }, 'CONVEX_LIVE');
       console.log('⚙️ SETTINGS SYNC: Data synced to FUSE via CONVEX_LIVE');
     }
-  }, [settingsData, hydrateSettings, user?.clerkId]);
+  }, [settingsData, organization, portfolio, invitations, hydrateSettings, user?.clerkId]);
 
   // Log initial hydration status
   useEffect(() => {
@@ -0,0 +1,97 @@
+/**
+ * Currency Unit Tests
+ *
+ * Dated rate lookup (direct, inverse, crossed), conversion, and the org
+ * base currency that falls back to the business country.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  FALLBACK_BASE_CURRENCY,
+  convertAmount,
+  currencyForCountry,
+  findRate,
+  sumInCurrency,
+  type FxRate,
+} from '@/lib/currency';
+import { getBaseCurrency } from '@/convex/domains/finance/currency/rates';
+import type { Id } from '@/convex/_generated/dataModel';
+import { fakeConvexCtx } from '@/lib/__tests__/fakeConvexCtx';
+
+const day = (n: number) => Date.UTC(2025, 0, n);
+const fx = (base: string, quote: string, rate: number, date: number): FxRate => ({ base, quote, rate, date });
+
+const rates = [
+  fx('USD', 'EUR', 0.9, day(1)),
+  fx('USD', 'EUR', 0.95, day(10)),
+  fx('GBP', 'USD', 1.25, day(1)),
+];
+
+describe('findRate', () => {
+  test('a currency converts to itself at 1', () => {
+    expect(findRate([], 'AUD', 'AUD', day(1))).toBe(1);
+  });
+
+  test('direct pairs use the latest rate on or before the date', () => {
+    expect(findRate(rates, 'USD', 'EUR', day(5))).toBe(0.9);
+    expect(findRate(rates, 'USD', 'EUR', day(10))).toBe(0.95);
+    expect(findRate(rates, 'USD', 'EUR', day(30))).toBe(0.95);
+  });
+
+  test('inverse pairs divide', () => {
+    expect(findRate(rates, 'USD', 'GBP', day(5))).toBe(0.8);
+  });
+
+  test('crosses through a currency both sides are quoted against', () => {
+    // GBP → USD → EUR
+    expect(findRate(rates, 'GBP', 'EUR', day(5))).toBeCloseTo(1.125, 10);
+    expect(findRate(rates, 'EUR', 'GBP', day(12))).toBeCloseTo(1 / (1.25 * 0.95), 10);
+  });
+
+  test('is null without a covering rate', () => {
+    expect(findRate(rates, 'USD', 'EUR', Date.UTC(2024, 11, 31))).toBeNull();
+    expect(findRate(rates, 'USD', 'JPY', day(5))).toBeNull();
+    expect(findRate([fx('USD', 'EUR', 0, day(1))], 'USD', 'EUR', day(5))).toBeNull();
+  });
+});
+
+describe('conversion', () => {
+  test('rounds converted amounts to cents', () => {
+    expect(convertAmount(10.01, 'GBP', 'EUR', rates, day(5))).toBe(11.26);
+    expect(convertAmount(10, 'USD', 'JPY', rates, day(5))).toBeNull();
+  });
+
+  test('sums what it can and lists currencies it could not convert', () => {
+    expect(sumInCurrency([
+      { amount: 100, currency: 'USD', date: day(5) },
+      { amount: 100, currency: 'USD', date: day(12) },
+      { amount: 50, currency: 'EUR', date: day(5) },
+      { amount: 1000, currency: 'JPY', date: day(5) },
+    ], 'EUR', rates)).toEqual({ total: 235, missing: ['JPY'] });
+  });
+});
+
+describe('base currency', () => {
+  test('country codes map to their currency, unknown ones to the fallback', () => {
+    expect(currencyForCountry('au')).toBe('AUD');
+    expect(currencyForCountry('IE')).toBe('EUR');
+    expect(currencyForCountry('XX')).toBe(FALLBACK_BASE_CURRENCY);
+    expect(currencyForCountry(undefined)).toBe(FALLBACK_BASE_CURRENCY);
+  });
+
+  test('follows the org country until a base currency is saved', async () => {
+    const org = { _id: 'admin_orgs:nz' as Id<'admin_orgs'>, settings: { country: 'NZ' } };
+    const { ctx } = fakeConvexCtx({ admin_orgs: [org] });
+    expect(await getBaseCurrency(ctx, org._id)).toEqual({ baseCurrency: 'NZD', isDefault: true });
+
+    await ctx.db.insert('finance_currency_Settings', { orgId: org._id, baseCurrency: 'AUD' } as never);
+    expect(await getBaseCurrency(ctx, org._id)).toEqual({ baseCurrency: 'AUD', isDefault: false });
+  });
+
+  test('an org without a country, an unknown org, or no org gets the fallback', async () => {
+    const { ctx } = fakeConvexCtx({ admin_orgs: [{ _id: 'admin_orgs:1', settings: {} }] });
+    expect(await getBaseCurrency(ctx, 'admin_orgs:1' as Id<'admin_orgs'>)).toEqual({ baseCurrency: 'USD', isDefault: true });
+    expect(await getBaseCurrency(ctx, 'admin_orgs:2' as Id<'admin_orgs'>)).toEqual({ baseCurrency: 'USD', isDefault: true });
+    expect(await getBaseCurrency(ctx, null)).toEqual({ baseCurrency: 'USD', isDefault: true });
+  });
+});
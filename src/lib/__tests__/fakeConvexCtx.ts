@@ -0,0 +1,134 @@
+/**
+ * In-Memory Convex Context for Unit Tests
+ *
+ * Just enough of ctx.db (get, insert, patch, delete, normalizeId and
+ * query → withIndex/filter/order → collect/first/unique) to run the shared
+ * Convex helpers without a deployment. Index names are ignored: the range
+ * callback's eq/gt/gte/lt/lte conditions filter the table directly.
+ */
+
+import type { MutationCtx } from '@/convex/_generated/server';
+
+type Row = Record<string, unknown> & { _id: string; _creationTime: number };
+type Condition = (row: Row) => boolean;
+
+interface RangeBuilder {
+  eq: (field: string, value: unknown) => RangeBuilder;
+  gt: (field: string, value: number) => RangeBuilder;
+  gte: (field: string, value: number) => RangeBuilder;
+  lt: (field: string, value: number) => RangeBuilder;
+  lte: (field: string, value: number) => RangeBuilder;
+}
+
+interface FilterBuilder {
+  field: (name: string) => (row: Row) => unknown;
+  eq: (a: unknown, b: unknown) => Condition;
+}
+
+const valueOf = (row: Row, operand: unknown) => (typeof operand === 'function' ? operand(row) : operand);
+
+function queryRows(source: () => Row[]) {
+  const conditions: Condition[] = [];
+  let descending = false;
+
+  const rows = () => {
+    const matched = source().filter((row) => conditions.every((condition) => condition(row)));
+    return descending ? matched.reverse() : matched;
+  };
+
+  const range: RangeBuilder = {
+    eq: (field, value) => (conditions.push((row) => row[field] === value), range),
+    gt: (field, value) => (conditions.push((row) => (row[field] as number) > value), range),
+    gte: (field, value) => (conditions.push((row) => (row[field] as number) >= value), range),
+    lt: (field, value) => (conditions.push((row) => (row[field] as number) < value), range),
+    lte: (field, value) => (conditions.push((row) => (row[field] as number) <= value), range),
+  };
+
+  const filters: FilterBuilder = {
+    field: (name) => (row) => row[name],
+    eq: (a, b) => (row) => valueOf(row, a) === valueOf(row, b),
+  };
+
+  const query = {
+    withIndex: (_index: string, build?: (q: RangeBuilder) => unknown) => {
+      build?.(range);
+      return query;
+    },
+    filter: (build: (q: FilterBuilder) => Condition) => {
+      conditions.push(build(filters));
+      return query;
+    },
+    order: (order: 'asc' | 'desc') => {
+      descending = order === 'desc';
+      return query;
+    },
+    collect: async () => rows(),
+    take: async (count: number) => rows().slice(0, count),
+    first: async () => rows()[0] ?? null,
+    unique: async () => {
+      const matched = rows();
+      if (matched.length > 1) throw new Error('unique() matched more than one document');
+      return matched[0] ?? null;
+    },
+  };
+  return query;
+}
+
+/**
+ * Fresh context seeded with `tables`. Seeded rows keep the _id they are
+ * given; inserted rows get "<table>:<n>" so normalizeId can tell tables apart.
+ */
+export function fakeConvexCtx(tables: Record<string, Partial<Row>[]> = {}) {
+  const data = new Map<string, Row[]>();
+  let sequence = 0;
+
+  const table = (name: string) => {
+    if (!data.has(name)) data.set(name, []);
+    return data.get(name) as Row[];
+  };
+  const locate = (id: string) => {
+    for (const [name, rows] of data) {
+      const index = rows.findIndex((row) => row._id === id);
+      if (index !== -1) return { name, rows, index };
+    }
+    return null;
+  };
+  const insert = (name: string, doc: Record<string, unknown>) => {
+    const row = { _id: `${name}:${++sequence}`, _creationTime: sequence, ...doc } as Row;
+    table(name).push(row);
+    return row._id;
+  };
+
+  for (const [name, rows] of Object.entries(tables)) {
+    for (const row of rows) insert(name, row);
+  }
+
+  const db = {
+    get: async (id: string) => {
+      const found = locate(id);
+      return found ? found.rows[found.index] : null;
+    },
+    insert: async (name: string, doc: Record<string, unknown>) => insert(name, doc),
+    patch: async (id: string, fields: Record<string, unknown>) => {
+      const found = locate(id);
+      if (!found) throw new Error(`Document ${id} not found`);
+      const row = found.rows[found.index];
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) delete row[key];
+        else row[key] = value;
+      }
+    },
+    delete: async (id: string) => {
+      const found = locate(id);
+      if (found) found.rows.splice(found.index, 1);
+    },
+    normalizeId: (name: string, id: string) => (locate(id)?.name === name ? id : null),
+    query: (name: string) => queryRows(() => [...table(name)]),
+  };
+
+  return {
+    ctx: { db } as unknown as MutationCtx,
+    /** Current rows of a table, in insertion order */
+    rows: (name: string) => [...table(name)],
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Geocoding Unit Tests
+ *
+ * The offline gazetteer, the Nominatim adapter against a stubbed fetch, and
+ * the provider a deployment picks from GEOCODING_PROVIDER.
+ */
+
+import { afterEach, describe, test, expect, vi } from 'vitest';
+import { createNominatimGeocoder, createOfflineGeocoder, parseCoordinates, type NominatimOptions } from '@/lib/geocoding';
+import { getGeocoder } from '@/convex/domains/projects/locations/actions';
+
+describe('parseCoordinates', () => {
+  test('reads "lat, long" pairs with any separator', () => {
+    expect(parseCoordinates(' -33.8688, 151.2093 ')).toEqual({ latitude: -33.8688, longitude: 151.2093 });
+    expect(parseCoordinates('51.5;-0.12')).toEqual({ latitude: 51.5, longitude: -0.12 });
+    expect(parseCoordinates('40 -74')).toEqual({ latitude: 40, longitude: -74 });
+  });
+
+  test('is null for addresses and out-of-range pairs', () => {
+    expect(parseCoordinates('1 George St, Sydney')).toBeNull();
+    expect(parseCoordinates('91, 0')).toBeNull();
+    expect(parseCoordinates('0, 181')).toBeNull();
+  });
+});
+
+describe('offline geocoder', () => {
+  const geocoder = createOfflineGeocoder();
+
+  test('matches a gazetteer place anywhere in the address', async () => {
+    expect(await geocoder.geocode('Level 4, 1 George St, SYDNEY NSW 2000')).toEqual([
+      { label: 'Sydney, NSW, Australia', latitude: -33.8688, longitude: 151.2093 },
+    ]);
+  });
+
+  test('passes a coordinate pair straight through', async () => {
+    expect(await geocoder.geocode('-41.2865, 174.7762')).toEqual([
+      { label: '-41.2865, 174.7762', latitude: -41.2865, longitude: 174.7762 },
+    ]);
+  });
+
+  test('returns nothing for an unknown place, without throwing', async () => {
+    expect(await geocoder.geocode('Nowhere Creek')).toEqual([]);
+  });
+
+  test('takes its own gazetteer', async () => {
+    const yard = { label: 'Depot, Site 7', latitude: 1, longitude: 2 };
+    expect(await createOfflineGeocoder([yard]).geocode('the depot')).toEqual([yard]);
+  });
+});
+
+describe('Nominatim geocoder', () => {
+  const stubFetch = (status: number, body: unknown) => {
+    const calls: { url: string; headers: Record<string, string> }[] = [];
+    const fetch: NominatimOptions['fetch'] = async (url, init) => {
+      calls.push({ url, headers: init.headers });
+      return new Response(JSON.stringify(body), { status });
+    };
+    return { calls, fetch };
+  };
+
+  test('queries /search and maps results, dropping unusable coordinates', async () => {
+    const { calls, fetch } = stubFetch(200, [
+      { display_name: 'Sydney Opera House, Bennelong Point', lat: '-33.8568', lon: '151.2153' },
+      { display_name: 'Broken', lat: 'n/a', lon: '151' },
+    ]);
+    const geocoder = createNominatimGeocoder({ baseUrl: 'https://geo.example.com/', userAgent: 'tests', limit: 2, fetch });
+
+    expect(await geocoder.geocode(' Opera House ')).toEqual([
+      { label: 'Sydney Opera House, Bennelong Point', latitude: -33.8568, longitude: 151.2153 },
+    ]);
+    expect(calls).toEqual([{
+      url: 'https://geo.example.com/search?q=Opera+House&format=jsonv2&limit=2',
+      headers: { 'User-Agent': 'tests', Accept: 'application/json' },
+    }]);
+  });
+
+  test('no match is an empty list; an HTTP failure throws', async () => {
+    const empty = stubFetch(200, []);
+    expect(await createNominatimGeocoder({ userAgent: 'tests', fetch: empty.fetch }).geocode('Nowhere')).toEqual([]);
+    expect(empty.calls[0].url).toMatch(/^https:\/\/nominatim\.openstreetmap\.org\/search\?/);
+
+    const failing = stubFetch(503, {});
+    await expect(createNominatimGeocoder({ userAgent: 'tests', fetch: failing.fetch }).geocode('Sydney'))
+      .rejects.toThrow('Geocoding failed (503)');
+  });
+
+  test('coordinates and blank addresses never hit the network', async () => {
+    const { calls, fetch } = stubFetch(200, []);
+    const geocoder = createNominatimGeocoder({ userAgent: 'tests', fetch });
+    expect(await geocoder.geocode('10, 20')).toEqual([{ label: '10, 20', latitude: 10, longitude: 20 }]);
+    expect(await geocoder.geocode('   ')).toEqual([]);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('GEOCODING_PROVIDER', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  test('defaults to the offline stub', () => {
+    vi.stubEnv('GEOCODING_PROVIDER', '');
+    expect(getGeocoder().id).toBe('offline');
+    vi.stubEnv('GEOCODING_PROVIDER', 'google');
+    expect(getGeocoder().id).toBe('offline');
+  });
+
+  test('nominatim uses GEOCODING_URL and GEOCODING_USER_AGENT', async () => {
+    vi.stubEnv('GEOCODING_PROVIDER', 'nominatim');
+    vi.stubEnv('GEOCODING_URL', 'https://nominatim.internal');
+    vi.stubEnv('GEOCODING_USER_AGENT', 'Acme sites');
+    const fetch = vi.fn(async () => new Response('[]'));
+    vi.stubGlobal('fetch', fetch);
+
+    const geocoder = getGeocoder();
+    expect(geocoder.id).toBe('nominatim');
+    await geocoder.geocode('Sydney');
+    expect(fetch).toHaveBeenCalledWith(
+      expect.stringMatching(/^https:\/\/nominatim\.internal\/search\?q=Sydney&/),
+      { headers: { 'User-Agent': 'Acme sites', Accept: 'application/json' } }
+    );
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * RRULE Unit Tests
+ *
+ * Parsing, formatting, expansion and month-end handling of the RFC 5545
+ * subset, plus the finance schedule wrappers that clamp to month end.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  describeRRule,
+  formatRRule,
+  nextOccurrence,
+  occurrencesBetween,
+  parseRRule,
+  type RRule,
+} from '@/lib/rrule';
+import { nextRecurringRun, previewRecurringRuns, validateRecurringSchedule } from '@/domains/finance/recurring';
+
+const rule = (text: string): RRule => {
+  const parsed = parseRRule(text);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.rule;
+};
+
+const days = (timestamps: number[]) => timestamps.map((timestamp) => new Date(timestamp).toISOString().slice(0, 10));
+
+const first = (text: string, dtstart: number, count: number, options?: { clampMonthEnd?: boolean }) =>
+  days(occurrencesBetween(rule(text), dtstart, dtstart, Number.MAX_SAFE_INTEGER, count, options));
+
+describe('parseRRule', () => {
+  test('reads every supported part', () => {
+    expect(rule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=1MO,-1FR;BYMONTH=1,7;COUNT=4;WKST=MO')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 'MO', ordinal: 1 }, { weekday: 'FR', ordinal: -1 }],
+      byMonth: [1, 7],
+      count: 4,
+    });
+  });
+
+  test('a date-only UNTIL covers the whole day', () => {
+    expect(rule('FREQ=DAILY;UNTIL=20250131').until).toBe(Date.UTC(2025, 0, 32) - 1);
+    expect(rule('FREQ=DAILY;UNTIL=20250131T120000Z').until).toBe(Date.UTC(2025, 0, 31, 12));
+  });
+
+  test.each([
+    ['INTERVAL=2', 'FREQ is required'],
+    ['FREQ=HOURLY', 'Unsupported FREQ HOURLY'],
+    ['FREQ=DAILY;COUNT=0', 'COUNT must be a positive whole number'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20250101', 'Use COUNT or UNTIL, not both'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'Invalid BYMONTHDAY 32'],
+    ['FREQ=YEARLY;BYMONTH=-1', 'Invalid BYMONTH -1'],
+    ['FREQ=WEEKLY;BYSETPOS=1', 'Unsupported RRULE part BYSETPOS'],
+  ])('%s → %s', (text, error) => {
+    expect(parseRRule(text)).toEqual({ error });
+  });
+
+  test('formatRRule round-trips', () => {
+    const text = 'FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR;COUNT=4';
+    expect(formatRRule(rule(text))).toBe(text);
+    expect(formatRRule(rule('FREQ=DAILY;UNTIL=20250131'))).toBe('FREQ=DAILY;UNTIL=20250131T235959Z');
+  });
+});
+
+describe('expansion', () => {
+  test('keeps the time of day of DTSTART', () => {
+    const start = Date.UTC(2025, 0, 6, 9, 30);
+    expect(occurrencesBetween(rule('FREQ=DAILY;COUNT=2'), start, start, Number.MAX_SAFE_INTEGER))
+      .toEqual([start, start + 24 * 60 * 60 * 1000]);
+  });
+
+  test('weekly on several days, every other week', () => {
+    expect(first('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', Date.UTC(2025, 0, 6), 4))
+      .toEqual(['2025-01-06', '2025-01-09', '2025-01-20', '2025-01-23']);
+  });
+
+  test('monthly by ordinal weekday and by negative month day', () => {
+    expect(first('FREQ=MONTHLY;BYDAY=-1FR', Date.UTC(2025, 0, 1), 3)).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+    expect(first('FREQ=MONTHLY;BYMONTHDAY=-1', Date.UTC(2024, 0, 1), 3)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+  });
+
+  test('yearly in listed months', () => {
+    expect(first('FREQ=YEARLY;BYMONTH=3,9;BYMONTHDAY=15', Date.UTC(2025, 0, 1), 3))
+      .toEqual(['2025-03-15', '2025-09-15', '2026-03-15']);
+  });
+
+  test('occurrences before DTSTART are skipped', () => {
+    expect(first('FREQ=WEEKLY;BYDAY=MO,FR', Date.UTC(2025, 0, 8), 2)).toEqual(['2025-01-10', '2025-01-13']);
+  });
+
+  test('COUNT and UNTIL end the rule', () => {
+    const start = Date.UTC(2025, 0, 1);
+    expect(first('FREQ=DAILY;COUNT=3', start, 10)).toHaveLength(3);
+    expect(first('FREQ=DAILY;UNTIL=20250103', start, 10)).toEqual(['2025-01-01', '2025-01-02', '2025-01-03']);
+    expect(nextOccurrence(rule('FREQ=DAILY;COUNT=3'), start, Date.UTC(2025, 0, 3))).toBeNull();
+  });
+
+  test('nextOccurrence is strictly after `after`', () => {
+    const start = Date.UTC(2025, 0, 15);
+    expect(nextOccurrence(rule('FREQ=MONTHLY'), start)).toBe(start);
+    expect(nextOccurrence(rule('FREQ=MONTHLY'), start, start)).toBe(Date.UTC(2025, 1, 15));
+  });
+});
+
+describe('month end', () => {
+  const jan31 = Date.UTC(2025, 0, 31);
+
+  test('RFC 5545 skips months without the start day', () => {
+    expect(first('FREQ=MONTHLY', jan31, 3)).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+  });
+
+  test('clampMonthEnd falls back to the last day and returns to the 31st', () => {
+    expect(first('FREQ=MONTHLY', jan31, 4, { clampMonthEnd: true }))
+      .toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    expect(first('FREQ=MONTHLY', Date.UTC(2024, 0, 30), 2, { clampMonthEnd: true })).toEqual(['2024-01-30', '2024-02-29']);
+  });
+
+  test('clampMonthEnd moves 29 February to the 28th in common years', () => {
+    expect(first('FREQ=YEARLY', Date.UTC(2024, 1, 29), 3, { clampMonthEnd: true }))
+      .toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+  });
+
+  test('finance schedules clamp', () => {
+    expect(days(previewRecurringRuns('FREQ=MONTHLY', jan31, 3))).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    expect(nextRecurringRun('FREQ=MONTHLY', jan31, jan31)).toBe(Date.UTC(2025, 1, 28));
+  });
+});
+
+describe('finance schedule validation', () => {
+  test('reports parse errors and rules that never occur', () => {
+    expect(validateRecurringSchedule('FREQ=MONTHLY', Date.UTC(2025, 0, 1))).toBeNull();
+    expect(validateRecurringSchedule('FREQ=SECONDLY', Date.UTC(2025, 0, 1))).toBe('Unsupported FREQ SECONDLY');
+    expect(validateRecurringSchedule('FREQ=DAILY;UNTIL=20240101', Date.UTC(2025, 0, 1))).toBe('Schedule never produces an occurrence');
+  });
+});
+
+describe('describeRRule', () => {
+  test.each([
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;COUNT=6', 'Every 2 weeks on Monday, 6 times'],
+    ['FREQ=MONTHLY;BYMONTHDAY=1,-1', 'Every month on the 1st, last day'],
+    ['FREQ=MONTHLY;BYDAY=2TU', 'Every month on 2nd Tuesday'],
+    ['FREQ=YEARLY;UNTIL=20301231', 'Every year until 2030-12-31'],
+  ])('%s', (text, description) => {
+    expect(describeRRule(rule(text))).toBe(description);
+  });
+});
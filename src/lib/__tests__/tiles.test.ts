@@ -0,0 +1,81 @@
+/**
+ * Map Tiles Unit Tests
+ *
+ * NEXT_PUBLIC_MAP_TILES resolution, tile URLs, and the Web Mercator maths
+ * behind the site map's centre and zoom.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { TILE_SIZE, TILE_SOURCES, fitView, projectPoint, resolveTileSource, tileUrl, unprojectPoint } from '@/lib/tiles';
+
+describe('resolveTileSource', () => {
+  test('defaults to OpenStreetMap, including for unknown values', () => {
+    for (const setting of [undefined, null, '', ' osm ', 'local', 'satellite']) {
+      expect(resolveTileSource(setting)).toBe(TILE_SOURCES.osm);
+    }
+  });
+
+  test('a template with {z}, {x} and {y} is a custom source', () => {
+    expect(resolveTileSource('https://tiles.internal/{z}/{x}/{y}.png')).toEqual({
+      id: 'custom',
+      label: 'Custom tiles',
+      url: 'https://tiles.internal/{z}/{x}/{y}.png',
+      attribution: '',
+      minZoom: 1,
+      maxZoom: 19,
+    });
+    expect(resolveTileSource('https://tiles.internal/{z}/{x}.png')).toBe(TILE_SOURCES.osm);
+  });
+});
+
+describe('tileUrl', () => {
+  test('fills the template', () => {
+    expect(tileUrl(TILE_SOURCES.osm, 12, 3767, 2457)).toBe('https://tile.openstreetmap.org/12/3767/2457.png');
+    expect(tileUrl(resolveTileSource('/maps/{z}-{y}-{x}.webp'), 3, 1, 2)).toBe('/maps/3-2-1.webp');
+  });
+});
+
+describe('Web Mercator', () => {
+  test('the origin sits in the middle of the world', () => {
+    expect(projectPoint(0, 0, 0)).toEqual({ x: TILE_SIZE / 2, y: TILE_SIZE / 2 });
+    expect(projectPoint(0, 180, 1).x).toBe(TILE_SIZE * 2);
+  });
+
+  test('unproject inverts project', () => {
+    const sydney = { latitude: -33.8688, longitude: 151.2093 };
+    const { x, y } = projectPoint(sydney.latitude, sydney.longitude, 10);
+    const back = unprojectPoint(x, y, 10);
+    expect(back.latitude).toBeCloseTo(sydney.latitude, 9);
+    expect(back.longitude).toBeCloseTo(sydney.longitude, 9);
+  });
+});
+
+describe('fitView', () => {
+  const source = TILE_SOURCES.osm;
+
+  test('no sites shows the world at the minimum zoom', () => {
+    expect(fitView([], 800, 600, source)).toEqual({ latitude: 20, longitude: 0, zoom: source.minZoom });
+  });
+
+  test('one site centres on it at street level', () => {
+    const view = fitView([{ latitude: 51.5074, longitude: -0.1278 }], 800, 600, source);
+    expect(view.zoom).toBe(14);
+    expect(view.latitude).toBeCloseTo(51.5074, 9);
+    expect(view.longitude).toBeCloseTo(-0.1278, 9);
+  });
+
+  test('several sites get the closest zoom that fits them all inside the padding', () => {
+    const sites = [
+      { latitude: -33.8688, longitude: 151.2093 },
+      { latitude: -37.8136, longitude: 144.9631 },
+    ];
+    const view = fitView(sites, 800, 600, source);
+    const span = (zoom: number) => {
+      const [a, b] = sites.map((site) => projectPoint(site.latitude, site.longitude, zoom));
+      return { width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y) };
+    };
+    expect(span(view.zoom).width).toBeLessThanOrEqual(800 - 80);
+    expect(span(view.zoom).height).toBeLessThanOrEqual(600 - 80);
+    expect(span(view.zoom + 1).height).toBeGreaterThan(600 - 80);
+  });
+});
@@ -0,0 +1,72 @@
+// CSV Utilities
+// Quote-aware reader and RFC 4180 writer shared by finance and clients imports/exports
+
+export interface CsvTable {
+  headers: string[];
+  records: string[][];
+}
+
+/** Pick the delimiter that splits the header line into the most columns */
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF/LF, BOM).
+ * Blank lines are dropped.
+ */
+export function readCsv(text: string): CsvTable {
+  const source = text.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(Boolean)) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some(Boolean)) rows.push(row);
+
+  const [headers = [], ...records] = rows;
+  return { headers, records };
+}
+
+/** Quote a cell only when it contains a delimiter, quote or line break */
+export function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function csvRow(cells: string[]): string {
+  return cells.map(csvCell).join(',');
+}
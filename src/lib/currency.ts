@@ -0,0 +1,109 @@
+// Currency Utilities
+// Base-currency defaults and dated FX conversion shared by finance and projects
+
+/** ISO 4217 currency per business country (ISO 3166 alpha-2) */
+export const COUNTRY_CURRENCIES: Record<string, string> = {
+  AU: 'AUD',
+  US: 'USD',
+  GB: 'GBP',
+  NZ: 'NZD',
+  CA: 'CAD',
+  IE: 'EUR',
+  DE: 'EUR',
+  FR: 'EUR',
+  NL: 'EUR',
+  ES: 'EUR',
+  IT: 'EUR',
+  SG: 'SGD',
+  JP: 'JPY',
+  CH: 'CHF',
+  IN: 'INR',
+  ZA: 'ZAR',
+};
+
+export const FALLBACK_BASE_CURRENCY = 'USD';
+
+/**
+ * Default org base currency for a business country
+ * @param country - ISO country code (e.g. "AU"); unknown/missing falls back to USD
+ */
+export function currencyForCountry(country?: string | null): string {
+  return (country && COUNTRY_CURRENCIES[country.toUpperCase()]) || FALLBACK_BASE_CURRENCY;
+}
+
+/** Three-letter ISO 4217 code */
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+/** One unit of `base` buys `rate` units of `quote`, effective from `date` */
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  date: number;
+}
+
+/** Latest rate for base→quote effective on or before `date` (inverse pairs count too) */
+function directRate(rates: FxRate[], from: string, to: string, date: number): { rate: number; date: number } | null {
+  let best: { rate: number; date: number } | null = null;
+  for (const fx of rates) {
+    if (fx.date > date || fx.rate <= 0) continue;
+    const rate = fx.base === from && fx.quote === to ? fx.rate : fx.base === to && fx.quote === from ? 1 / fx.rate : null;
+    if (rate !== null && (!best || fx.date > best.date)) best = { rate, date: fx.date };
+  }
+  return best;
+}
+
+/**
+ * Exchange rate from one currency to another on a given date.
+ * Uses the most recent stored rate on or before the date — direct, inverse,
+ * or crossed through a currency both sides are quoted against.
+ * @returns rate, or null when no stored rate covers the pair
+ */
+export function findRate(rates: FxRate[], from: string, to: string, date: number): number | null {
+  if (from === to) return 1;
+
+  const direct = directRate(rates, from, to, date);
+  if (direct) return direct.rate;
+
+  const pivots = new Set<string>();
+  for (const fx of rates) {
+    if (fx.base === from || fx.quote === from) pivots.add(fx.base === from ? fx.quote : fx.base);
+  }
+  for (const pivot of pivots) {
+    if (pivot === to) continue;
+    const first = directRate(rates, from, pivot, date);
+    const second = first && directRate(rates, pivot, to, date);
+    if (first && second) return first.rate * second.rate;
+  }
+  return null;
+}
+
+/**
+ * Convert an amount at the rate effective on `date`
+ * @returns converted amount rounded to cents, or null when no rate is available
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: FxRate[], date: number): number | null {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+}
+
+/**
+ * Sum dated amounts in mixed currencies into one target currency.
+ * Amounts without a usable rate are left out and their currencies listed.
+ */
+export function sumInCurrency(
+  items: { amount: number; currency: string; date: number }[],
+  target: string,
+  rates: FxRate[]
+): { total: number; missing: string[] } {
+  let total = 0;
+  const missing = new Set<string>();
+  for (const item of items) {
+    const converted = convertAmount(item.amount, item.currency, target, rates, item.date);
+    if (converted === null) missing.add(item.currency);
+    else total += converted;
+  }
+  return { total: Math.round(total * 100) / 100, missing: Array.from(missing).sort() };
+}
@@ -0,0 +1,38 @@
+// Formatting Utilities
+// Money and date presentation shared across domains
+// Dates travel as epoch milliseconds; date inputs use YYYY-MM-DD (UTC)
+
+/**
+ * Format an amount in a currency, e.g. (1234.5, "GBP") → "£1,234.50".
+ * Unknown currency codes fall back to "1,234.50 XYZ" instead of throwing.
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/** Display date in the app's table format (DD/MM/YYYY) */
+export function formatDate(timestamp: number | undefined): string {
+  if (!timestamp) return '—';
+  return new Date(timestamp).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+/** Epoch ms → "YYYY-MM-DD" for <input type="date"> */
+export function toDateInput(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/** "YYYY-MM-DD" → epoch ms (UTC midnight), or null when unparseable */
+export function fromDateInput(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const timestamp = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/** Add whole days to a timestamp (payment terms, due dates) */
+export function addDays(timestamp: number, days: number): number {
+  return timestamp + days * 24 * 60 * 60 * 1000;
+}
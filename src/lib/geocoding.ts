@@ -0,0 +1,121 @@
+// Geocoding
+// Address → coordinates behind a provider interface, so project sites can be
+// located online (Nominatim) or fully offline (built-in stub) with the same code.
+//
+// Providers never throw for "not found" - they return an empty list. Network
+// and HTTP failures do throw, so callers can tell "no match" from "no answer".
+
+export interface GeocodeMatch {
+  /** Human-readable name of the match */
+  label: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodingProvider {
+  readonly id: string;
+  /** Best matches first; empty when nothing matches */
+  geocode(address: string): Promise<GeocodeMatch[]>;
+}
+
+/** Latitude -90..90, longitude -180..180 */
+export function isValidCoordinates(latitude: number, longitude: number): boolean {
+  return Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+/** "-33.8688, 151.2093" → coordinates, or null when the text is not a lat/long pair */
+export function parseCoordinates(text: string): { latitude: number; longitude: number } | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return isValidCoordinates(latitude, longitude) ? { latitude, longitude } : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OFFLINE STUB
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Built-in gazetteer: the cities our orgs work from (see COUNTRY_CURRENCIES) */
+export const OFFLINE_PLACES: GeocodeMatch[] = [
+  { label: 'Sydney, NSW, Australia', latitude: -33.8688, longitude: 151.2093 },
+  { label: 'Melbourne, VIC, Australia', latitude: -37.8136, longitude: 144.9631 },
+  { label: 'Brisbane, QLD, Australia', latitude: -27.4698, longitude: 153.0251 },
+  { label: 'Perth, WA, Australia', latitude: -31.9523, longitude: 115.8613 },
+  { label: 'Adelaide, SA, Australia', latitude: -34.9285, longitude: 138.6007 },
+  { label: 'Auckland, New Zealand', latitude: -36.8485, longitude: 174.7633 },
+  { label: 'Wellington, New Zealand', latitude: -41.2865, longitude: 174.7762 },
+  { label: 'London, United Kingdom', latitude: 51.5074, longitude: -0.1278 },
+  { label: 'Manchester, United Kingdom', latitude: 53.4808, longitude: -2.2426 },
+  { label: 'Dublin, Ireland', latitude: 53.3498, longitude: -6.2603 },
+  { label: 'New York, NY, United States', latitude: 40.7128, longitude: -74.006 },
+  { label: 'San Francisco, CA, United States', latitude: 37.7749, longitude: -122.4194 },
+  { label: 'Toronto, ON, Canada', latitude: 43.6532, longitude: -79.3832 },
+  { label: 'Berlin, Germany', latitude: 52.52, longitude: 13.405 },
+  { label: 'Paris, France', latitude: 48.8566, longitude: 2.3522 },
+  { label: 'Amsterdam, Netherlands', latitude: 52.3676, longitude: 4.9041 },
+  { label: 'Madrid, Spain', latitude: 40.4168, longitude: -3.7038 },
+  { label: 'Rome, Italy', latitude: 41.9028, longitude: 12.4964 },
+  { label: 'Zurich, Switzerland', latitude: 47.3769, longitude: 8.5417 },
+  { label: 'Singapore', latitude: 1.3521, longitude: 103.8198 },
+  { label: 'Tokyo, Japan', latitude: 35.6762, longitude: 139.6503 },
+  { label: 'Mumbai, India', latitude: 19.076, longitude: 72.8777 },
+  { label: 'Johannesburg, South Africa', latitude: -26.2041, longitude: 28.0473 },
+];
+
+/**
+ * Offline geocoder - no network, deterministic.
+ * Accepts a literal "lat, long" pair, otherwise matches the address against
+ * the gazetteer by place name (the part before the first comma).
+ */
+export function createOfflineGeocoder(places: GeocodeMatch[] = OFFLINE_PLACES): GeocodingProvider {
+  return {
+    id: 'offline',
+    async geocode(address) {
+      const coordinates = parseCoordinates(address);
+      if (coordinates) return [{ label: address.trim(), ...coordinates }];
+
+      const query = address.toLowerCase();
+      return places.filter((place) => query.includes(place.label.split(',')[0].toLowerCase()));
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NOMINATIM (OpenStreetMap)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface NominatimOptions {
+  /** Self-hosted instance or the public one */
+  baseUrl?: string;
+  /** Required by the public instance's usage policy */
+  userAgent: string;
+  limit?: number;
+  /** HTTP client - injected so the adapter runs server-side only and can be tested offline */
+  fetch: (url: string, init: { headers: Record<string, string> }) => Promise<Response>;
+}
+
+export function createNominatimGeocoder(options: NominatimOptions): GeocodingProvider {
+  const baseUrl = (options.baseUrl ?? 'https://nominatim.openstreetmap.org').replace(/\/$/, '');
+
+  return {
+    id: 'nominatim',
+    async geocode(address) {
+      const coordinates = parseCoordinates(address);
+      if (coordinates) return [{ label: address.trim(), ...coordinates }];
+      if (!address.trim()) return [];
+
+      const params = new URLSearchParams({ q: address.trim(), format: 'jsonv2', limit: String(options.limit ?? 5) });
+      const response = await options.fetch(`${baseUrl}/search?${params}`, {
+        headers: { 'User-Agent': options.userAgent, Accept: 'application/json' },
+      });
+      if (!response.ok) throw new Error(`Geocoding failed (${response.status})`);
+
+      const results = (await response.json()) as { display_name: string; lat: string; lon: string }[];
+      return results
+        .map((result) => ({ label: result.display_name, latitude: Number(result.lat), longitude: Number(result.lon) }))
+        .filter((match) => isValidCoordinates(match.latitude, match.longitude));
+    },
+  };
+}
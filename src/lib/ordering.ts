@@ -0,0 +1,14 @@
+// Board Ordering
+// Fractional positions for drag-and-drop boards (pipeline deals, tasks)
+// Moving a card rewrites only that card: it lands between its new neighbours
+
+/**
+ * Board position between two neighbours (fractional indexing).
+ * Either side may be missing: top of column, bottom of column, or empty column.
+ */
+export function positionBetween(before?: number, after?: number): number {
+  if (before === undefined && after === undefined) return 1000;
+  if (before === undefined) return after! - 1000;
+  if (after === undefined) return before + 1000;
+  return (before + after) / 2;
+}
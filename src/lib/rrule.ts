@@ -0,0 +1,303 @@
+// Recurrence Rules
+// RFC 5545 RRULE subset shared by recurring finance templates and the calendar
+//
+// Supported: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, COUNT, UNTIL,
+// BYDAY (with ordinals for MONTHLY/YEARLY, e.g. 1MO, -1FR), BYMONTHDAY, BYMONTH.
+// Times are UTC; every occurrence keeps the time of day of DTSTART.
+// Monthly/yearly rules skip months without DTSTART's day (RFC 5545) unless
+// the caller asks for clampMonthEnd, which falls back to the month's last day.
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  /** Inclusive upper bound (epoch ms) */
+  until?: number;
+  byDay?: { weekday: Weekday; ordinal?: number }[];
+  byMonthDay?: number[];
+  /** 1-12 */
+  byMonth?: number[];
+}
+
+export interface ExpandOptions {
+  /** Months without DTSTART's day (e.g. the 31st) use their last day instead of being skipped */
+  clampMonthEnd?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Index = Date#getUTCDay() */
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday',
+};
+
+/** Safety valve: stop expanding after this many periods */
+const MAX_PERIODS = 10000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSE / FORMAT
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseUntil(value: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  // Date-only UNTIL covers the whole day
+  return hour === undefined
+    ? Date.UTC(Number(year), Number(month) - 1, Number(day)) + DAY_MS - 1
+    : Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+}
+
+function formatUntil(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function parseList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(Number);
+  return numbers.every((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max) ? numbers : null;
+}
+
+/**
+ * Parse an RRULE string ("FREQ=MONTHLY;BYMONTHDAY=1", optional "RRULE:" prefix).
+ * @returns rule, or an error message for the form
+ */
+export function parseRRule(text: string): { rule: RRule } | { error: string } {
+  const parts = text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const rule: Partial<RRule> = { interval: 1 };
+
+  for (const part of parts) {
+    const [rawKey, value = ''] = part.split('=');
+    const key = rawKey.toUpperCase();
+    const upper = value.toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(upper)) return { error: `Unsupported FREQ ${value}` };
+        rule.freq = upper as RRuleFrequency;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) return { error: 'INTERVAL must be a positive whole number' };
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) return { error: 'COUNT must be a positive whole number' };
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(upper);
+        if (until === null) return { error: 'UNTIL must look like 20251231 or 20251231T235959Z' };
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = upper.split(',').map((token) => /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token));
+        if (days.some((match) => !match)) return { error: `Invalid BYDAY ${value}` };
+        rule.byDay = days.map((match) => ({
+          weekday: match![2] as Weekday,
+          ordinal: match![1] ? Number(match![1]) : undefined,
+        }));
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseList(value, 1, 31);
+        if (!days) return { error: `Invalid BYMONTHDAY ${value}` };
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseList(value, 1, 12);
+        if (!months || months.some((month) => month < 0)) return { error: `Invalid BYMONTH ${value}` };
+        rule.byMonth = months;
+        break;
+      }
+      case 'WKST':
+        break;
+      default:
+        return { error: `Unsupported RRULE part ${key}` };
+    }
+  }
+
+  if (!rule.freq) return { error: 'FREQ is required' };
+  if (rule.count !== undefined && rule.until !== undefined) return { error: 'Use COUNT or UNTIL, not both' };
+  return { rule: rule as RRule };
+}
+
+/** Serialize back to RRULE text (without the "RRULE:" prefix) */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPANSION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Days of one month matching BYMONTHDAY / BYDAY (default: DTSTART's day) */
+function monthDays(rule: RRule, year: number, month: number, start: Date, options: ExpandOptions): number[] {
+  const length = daysInMonth(year, month);
+
+  if (rule.byMonthDay?.length) {
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length);
+  }
+
+  if (rule.byDay?.length) {
+    const days: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matches: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (WEEKDAYS[new Date(Date.UTC(year, month, day)).getUTCDay()] === weekday) matches.push(day);
+      }
+      if (ordinal === undefined) days.push(...matches);
+      else {
+        const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (pick !== undefined) days.push(pick);
+      }
+    }
+    return days;
+  }
+
+  // RFC 5545: months without DTSTART's day (e.g. the 31st) are skipped
+  if (start.getUTCDate() <= length) return [start.getUTCDate()];
+  return options.clampMonthEnd ? [length] : [];
+}
+
+/** Candidate days (UTC midnight) in the n-th period after DTSTART's period */
+function periodCandidates(rule: RRule, start: Date, period: number, options: ExpandOptions): number[] {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const step = period * rule.interval;
+  const byDay = new Set(rule.byDay?.map((day) => day.weekday));
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = Date.UTC(year, month, start.getUTCDate() + step);
+      const date = new Date(day);
+      if (byDay.size && !byDay.has(WEEKDAYS[date.getUTCDay()])) return [];
+      if (rule.byMonth?.length && !rule.byMonth.includes(date.getUTCMonth() + 1)) return [];
+      if (rule.byMonthDay?.length && !monthDays(rule, date.getUTCFullYear(), date.getUTCMonth(), start, options).includes(date.getUTCDate())) return [];
+      return [day];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const monday = Date.UTC(year, month, start.getUTCDate() - mondayOffset + step * 7);
+      const weekdays = byDay.size ? byDay : new Set([WEEKDAYS[start.getUTCDay()]]);
+      return Array.from({ length: 7 }, (_, offset) => monday + offset * DAY_MS)
+        .filter((day) => weekdays.has(WEEKDAYS[new Date(day).getUTCDay()]));
+    }
+    case 'MONTHLY': {
+      const first = new Date(Date.UTC(year, month + step, 1));
+      if (rule.byMonth?.length && !rule.byMonth.includes(first.getUTCMonth() + 1)) return [];
+      return monthDays(rule, first.getUTCFullYear(), first.getUTCMonth(), start, options)
+        .map((day) => Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), day));
+    }
+    case 'YEARLY': {
+      const targetYear = year + step;
+      const months = rule.byMonth?.length ? rule.byMonth.map((m) => m - 1) : [month];
+      return months.flatMap((m) => monthDays(rule, targetYear, m, start, options).map((day) => Date.UTC(targetYear, m, day)));
+    }
+  }
+}
+
+/**
+ * Iterate occurrences in order, starting at DTSTART.
+ * The callback returns false to stop early.
+ */
+function expand(rule: RRule, dtstart: number, options: ExpandOptions, visit: (occurrence: number) => boolean): void {
+  const start = new Date(dtstart);
+  const timeOfDay = dtstart - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = Array.from(new Set(periodCandidates(rule, start, period, options))).sort((a, b) => a - b);
+    for (const day of candidates) {
+      const occurrence = day + timeOfDay;
+      if (occurrence < dtstart) continue;
+      if (rule.until !== undefined && occurrence > rule.until) return;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      emitted++;
+      if (!visit(occurrence)) return;
+    }
+  }
+}
+
+/**
+ * First occurrence strictly after `after` (or at/after DTSTART when omitted)
+ * @returns epoch ms, or null when the rule is exhausted (COUNT / UNTIL)
+ */
+export function nextOccurrence(rule: RRule, dtstart: number, after?: number, options: ExpandOptions = {}): number | null {
+  let next: number | null = null;
+  expand(rule, dtstart, options, (occurrence) => {
+    if (after !== undefined && occurrence <= after) return true;
+    next = occurrence;
+    return false;
+  });
+  return next;
+}
+
+/** Occurrences within [from, to], capped at `limit` */
+export function occurrencesBetween(
+  rule: RRule,
+  dtstart: number,
+  from: number,
+  to: number,
+  limit = 500,
+  options: ExpandOptions = {}
+): number[] {
+  const found: number[] = [];
+  expand(rule, dtstart, options, (occurrence) => {
+    if (occurrence > to) return false;
+    if (occurrence >= from) found.push(occurrence);
+    return found.length < limit;
+  });
+  return found;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DESCRIBE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const UNITS: Record<RRuleFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/** Plain-English summary, e.g. "Every 2 weeks on Monday, 6 times" */
+export function describeRRule(rule: RRule): string {
+  const unit = UNITS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length) {
+    text += ` on ${rule.byDay.map((day) => `${day.ordinal ? `${ordinalLabel(day.ordinal)} ` : ''}${WEEKDAY_NAMES[day.weekday]}`).join(', ')}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on the ${rule.byMonthDay.map((day) => (day < 0 ? (day === -1 ? 'last day' : `${ordinalLabel(-day)} last day`) : ordinalLabel(day))).join(', ')}`;
+  }
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  if (rule.until !== undefined) text += ` until ${new Date(rule.until).toISOString().slice(0, 10)}`;
+  return text;
+}
@@ -0,0 +1,100 @@
+// Map Tiles
+// Pluggable XYZ tile sources and the Web Mercator maths the site map needs.
+//
+// NEXT_PUBLIC_MAP_TILES picks the source:
+//   "osm" - OpenStreetMap's public tile server (default)
+//   any URL template containing {z}, {x} and {y} - a self-hosted or commercial
+//           server; air-gapped installs point this at their own tile server
+
+export const TILE_SIZE = 256;
+
+export interface TileSource {
+  id: string;
+  label: string;
+  /** URL template with {z}, {x} and {y} */
+  url: string;
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export const TILE_SOURCES: Record<'osm', TileSource> = {
+  osm: {
+    id: 'osm',
+    label: 'OpenStreetMap',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors',
+    minZoom: 1,
+    maxZoom: 19,
+  },
+};
+
+/** Tile source for a NEXT_PUBLIC_MAP_TILES value (unknown values fall back to OSM) */
+export function resolveTileSource(setting?: string | null): TileSource {
+  const value = setting?.trim();
+  if (!value || value === 'osm') return TILE_SOURCES.osm;
+  if (/\{z\}/.test(value) && /\{x\}/.test(value) && /\{y\}/.test(value)) {
+    return { id: 'custom', label: 'Custom tiles', url: value, attribution: '', minZoom: 1, maxZoom: 19 };
+  }
+  return TILE_SOURCES.osm;
+}
+
+/** URL of one tile */
+export function tileUrl(source: TileSource, z: number, x: number, y: number): string {
+  return source.url.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WEB MERCATOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Latitude/longitude → world pixel at a zoom level */
+export function projectPoint(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((latitude * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/** World pixel → latitude/longitude at a zoom level */
+export function unprojectPoint(x: number, y: number, zoom: number): { latitude: number; longitude: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / scale) * 360 - 180,
+  };
+}
+
+/**
+ * Centre and zoom that fit every point in a width × height viewport
+ * (with padding), clamped to the source's zoom range
+ */
+export function fitView(
+  points: { latitude: number; longitude: number }[],
+  width: number,
+  height: number,
+  source: TileSource,
+  padding = 40
+): { latitude: number; longitude: number; zoom: number } {
+  if (points.length === 0) return { latitude: 20, longitude: 0, zoom: source.minZoom };
+
+  // Single site: a street-level-ish default
+  let zoom = Math.min(points.length === 1 ? 14 : source.maxZoom, source.maxZoom);
+  const bounds = (z: number) => {
+    const projected = points.map((point) => projectPoint(point.latitude, point.longitude, z));
+    const xs = projected.map((p) => p.x);
+    const ys = projected.map((p) => p.y);
+    return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+  };
+  for (; zoom > source.minZoom; zoom--) {
+    const box = bounds(zoom);
+    if (box.maxX - box.minX <= width - padding * 2 && box.maxY - box.minY <= height - padding * 2) break;
+  }
+
+  // Centre on the middle of the projected box (latitude is not linear on screen)
+  const box = bounds(zoom);
+  return { ...unprojectPoint((box.minX + box.maxX) / 2, (box.minY + box.maxY) / 2, zoom), zoom };
+}
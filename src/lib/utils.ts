@@ -9,3 +9,18 @@
 export function cn(...classes: (string | undefined | null | false)[]) {
   return classes.filter(Boolean).join(' ');
 }
+
+/**
+ * Hand a generated file to the browser as a download
+ * @param contents - File body (text or bytes)
+ * @param fileName - Suggested download name
+ * @param type - MIME type
+ */
+export function downloadFile(contents: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
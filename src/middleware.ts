@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server'
 import { isRouteAllowed, getRankHome } from '@/rank/manifest'
 import { readSessionCookie, mintSession, SESSION_COOKIE } from '@/fuse/hydration/session/cookie'
 import type { UserRank } from '@/rank/types'
+import { getEffectiveUser, isImpersonationActive } from '@/rank/checks'
 import { ConvexHttpClient } from 'convex/browser'
 import { api } from '@/convex/_generated/api'
 import type { Id } from '@/convex/_generated/dataModel'
@@ -91,6 +92,7 @@ export default clerkMiddleware(async (auth, req) => {
           setupStatus: freshUser.setupStatus ?? session.setupStatus,
           businessCountry: freshUser.businessCountry ?? session.businessCountry,
           entityName: freshUser.entityName ?? session.entityName,
+          orgId: freshUser.orgId ?? session.orgId,
           socialName: freshUser.socialName ?? session.socialName,
           phoneNumber: session.phoneNumber,
           themeMode: freshUser.themeDark ? 'dark' : 'light',
@@ -100,6 +102,7 @@ export default clerkMiddleware(async (auth, req) => {
           dashboardLayout: session.dashboardLayout,
           dashboardWidgets: session.dashboardWidgets,
           genome: session.genome,
+          impersonation: isImpersonationActive(session.impersonation) ? session.impersonation : undefined,
         })
 
         // Update session object for use below
@@ -108,7 +111,9 @@ export default clerkMiddleware(async (auth, req) => {
           avatarUrl: freshUser.avatarUrl ?? undefined,
           brandLogoUrl: freshUser.brandLogoUrl ?? undefined,
           rank: freshUser.rank ?? session.rank,
+          orgId: freshUser.orgId ?? session.orgId,
           themeMode: freshUser.themeDark ? 'dark' : 'light',
+          impersonation: isImpersonationActive(session.impersonation) ? session.impersonation : undefined,
         }
 
         console.log('✅ FUSE Middleware: Cookie refreshed with DB data')
@@ -138,9 +143,16 @@ export default clerkMiddleware(async (auth, req) => {
   // Client-side navigate() bypasses this entirely - security via Convex queries
 
   if (session && !isPublicRoute(req) && !pathname.startsWith('/api') && !pathname.startsWith('/_next')) {
-    const effectiveRank: UserRank = session.rank as UserRank
-    const actualRank: UserRank = session.rank as UserRank
-    const orgId = '' // TODO: Add orgId to SessionPayload when multi-tenant ready
+    // Admiral "view as user": the target's rank decides what is reachable
+    const effective = getEffectiveUser({
+      userId: session._id,
+      orgId: session.orgId ?? '',
+      actualRank: session.rank as UserRank,
+      impersonation: session.impersonation,
+    })
+    const effectiveRank: UserRank = effective.effectiveRank
+    const actualRank: UserRank = effective.actualRank
+    const orgId = effective.orgId
 
     // Check allowlist
     const allowed = isRouteAllowed(effectiveRank, pathname)
@@ -167,6 +179,7 @@ export default clerkMiddleware(async (auth, req) => {
     res.headers.set('x-effective-rank', effectiveRank)
     res.headers.set('x-actual-rank', actualRank)
     res.headers.set('x-org-id', orgId)
+    res.headers.set('x-impersonating', effective.isImpersonating ? '1' : '0')
     res.headers.set('x-theme-name', session.themeName || 'transtheme')
     res.headers.set('x-theme-mode', session.themeMode || 'light')
     res.headers.set('Vary', 'Cookie')
@@ -11,6 +11,7 @@
 
 import { ReactNode, useEffect } from 'react';
 import { useFuse } from '@/store/fuse';
+import { useClientsSync } from '@/hooks/useClientsSync';
 import type { ClientsSlice } from '@/store/types';
 
 interface ClientsProviderProps {
@@ -24,12 +25,16 @@ interface ClientsProviderProps {
  * Architecture:
  * - Receives initialData from section layout's WARP preload function
  * - Hydrates FUSE store clients slice on mount
+ * - Real-time sync: useClientsSync() keeps FUSE fresh
  * - Zero UI - pure state hydration
  * - Children render with instant data access
  */
 export function ClientsProvider({ children, initialData }: ClientsProviderProps) {
   const hydrateClients = useFuse((state) => state.hydrateClients);
 
+  // Real-time sync: Convex → FUSE (TTTS-2 compliant)
+  useClientsSync();
+
   useEffect(() => {
     if (initialData) {
       // 🔥 FUSE 6.0 + WARP: Hydrate clients domain
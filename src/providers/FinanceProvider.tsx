@@ -11,6 +11,7 @@
 
 import { ReactNode, useEffect } from 'react';
 import { useFuse } from '@/store/fuse';
+import { useFinanceSync } from '@/hooks/useFinanceSync';
 import type { FinanceSlice } from '@/store/types';
 
 interface FinanceProviderProps {
@@ -24,12 +25,16 @@ interface FinanceProviderProps {
  * Architecture:
  * - Receives initialData from section layout's WARP preload function
  * - Hydrates FUSE store finances slice on mount
+ * - Real-time sync: useFinanceSync() keeps FUSE fresh
  * - Zero UI - pure state hydration
  * - Children render with instant data access
  */
 export function FinanceProvider({ children, initialData }: FinanceProviderProps) {
   const hydrateFinance = useFuse((state) => state.hydrateFinance);
 
+  // Real-time sync: Convex → FUSE (TTTS-2 compliant)
+  useFinanceSync();
+
   useEffect(() => {
     if (initialData) {
       // 🔥 FUSE 6.0 + WARP: Hydrate finances domain
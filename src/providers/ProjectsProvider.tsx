@@ -11,6 +11,7 @@
 
 import { ReactNode, useEffect } from 'react';
 import { useFuse } from '@/store/fuse';
+import { useProjectsSync } from '@/hooks/useProjectsSync';
 import type { ProjectsSlice } from '@/store/types';
 
 interface ProjectsProviderProps {
@@ -24,12 +25,16 @@ interface ProjectsProviderProps {
  * Architecture:
  * - Receives initialData from section layout's WARP preload function
  * - Hydrates FUSE store projects slice on mount
+ * - Real-time sync: useProjectsSync() keeps FUSE fresh
  * - Zero UI - pure state hydration
  * - Children render with instant data access
  */
 export function ProjectsProvider({ children, initialData }: ProjectsProviderProps) {
   const hydrateProjects = useFuse((state) => state.hydrateProjects);
 
+  // Real-time sync: Convex → FUSE (TTTS-2 compliant)
+  useProjectsSync();
+
   useEffect(() => {
     if (initialData) {
       // 🔥 FUSE 6.0 + WARP: Hydrate projects domain
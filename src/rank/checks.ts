@@ -6,6 +6,7 @@
  */
 
 import { UserRank, RANK_HIERARCHY } from '@/rank/types';
+import type { EffectiveUser, SessionData } from '@/rank/types';
 
 /**
  * Check if user has minimum required rank
@@ -101,3 +102,41 @@ export function getRankDisplay(userRank: UserRank | null | undefined) {
     badgeUrl: `/images/rank/${userRank}.png`
   };
 }
+
+/**
+ * Check if an impersonation session is still running
+ */
+export function isImpersonationActive(
+  impersonation: SessionData['impersonation'] | null | undefined,
+  now: number = Date.now()
+): boolean {
+  return !!impersonation && impersonation.expiresAt > now;
+}
+
+/**
+ * Resolve who the session acts as (the target while an admiral impersonates)
+ *
+ * @example
+ * getEffectiveUser({ userId: 'a1', orgId: 'o1', actualRank: 'admiral' })
+ * // { userId: 'a1', orgId: 'o1', effectiveRank: 'admiral', actualRank: 'admiral', isImpersonating: false }
+ */
+export function getEffectiveUser(session: SessionData): EffectiveUser {
+  const impersonation = session.impersonation;
+  if (session.actualRank !== 'admiral' || !impersonation || !isImpersonationActive(impersonation)) {
+    return {
+      userId: session.userId,
+      orgId: session.orgId,
+      effectiveRank: session.actualRank,
+      actualRank: session.actualRank,
+      isImpersonating: false,
+    };
+  }
+
+  return {
+    userId: impersonation.targetUserId,
+    orgId: impersonation.targetOrgId,
+    effectiveRank: impersonation.targetRank,
+    actualRank: session.actualRank,
+    isImpersonating: true,
+  };
+}
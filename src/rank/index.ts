@@ -10,7 +10,7 @@
  */
 
 // Core types and constants
-export type { UserRank } from '@/rank/types';
+export type { UserRank, EffectiveUser, ImpersonationState } from '@/rank/types';
 export { RANK_HIERARCHY } from '@/rank/types';
 
 // Pure checking functions (framework-agnostic)
@@ -24,7 +24,9 @@ export {
   canControlFleet,
   canManageUsers,
   canModerateContent,
-  getRankDisplay
+  getRankDisplay,
+  isImpersonationActive,
+  getEffectiveUser
 } from '@/rank/checks';
 
 // React components
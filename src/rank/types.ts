@@ -86,6 +86,22 @@ export interface EffectiveUser {
   features?: string[]; // Extension point for within-rank capabilities
 }
 
+/**
+ * Impersonation State (admiral "view as user", stored in cookie)
+ *
+ * Mirrors the open admin_users_Impersonations row; Convex is the authority,
+ * the cookie only drives the shell (banner, nav by effective rank).
+ */
+export interface ImpersonationState {
+  sessionId: string;      // admin_users_Impersonations _id (audit row)
+  targetUserId: string;
+  targetName: string;
+  targetRank: UserRank;
+  targetOrgId: string;
+  startedAt: number;
+  expiresAt: number;
+}
+
 /**
  * Session Data (stored in cookie)
  */
@@ -93,10 +109,5 @@ export interface SessionData {
   userId: string;
   orgId: string;
   actualRank: UserRank;
-  impersonation?: {
-    targetRank: UserRank;
-    targetUserId: string;
-    targetOrgId: string;
-    startedAt: number;
-  };
+  impersonation?: ImpersonationState;
 }
@@ -13,6 +13,7 @@ import Image from 'next/image';
 import { useFuse } from '@/store/fuse';
 import { useRankCheck } from '@/fuse/hydration/hooks/useRankCheck';
 import TopbarSetupButton from '@/features/setup/topbar-button';
+import OrgSwitcher from '@/features/shell/org-switcher';
 
 export default function Topbar() {
   const { isAdmiral } = useRankCheck();
@@ -33,6 +34,8 @@ export default function Topbar() {
   return (
     <header className="ly-topbar-header">
       <div className="ly-topbar-left-container">
+        {/* Org switcher - commodores with more than one org */}
+        <OrgSwitcher />
       </div>
 
       <div className="ly-topbar-right-container">
@@ -0,0 +1,133 @@
+// FUSE Store Brain - Core Type Definitions
+// User, Genome, theme and navigation shapes owned by the core slice
+//
+// Re-exported from ./types - import from there, not from this file
+
+import type { AvatarOption } from '@/fuse/constants/coreThemeConfig';
+import type { ImpersonationState } from '@/rank/types';
+
+// ══════════════════════════════════════════════════════════════════════════════
+// CORE TYPES
+// ══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * User document type - ready for 100K users
+ *
+ * 🛡️ SOVEREIGNTY DOCTRINE:
+ * - `id` is ALWAYS Convex _id (canonical identity)
+ * - `convexId` is explicit alias for clarity
+ * - `clerkId` is auth reference ONLY - never use for Convex queries
+ * - All domain operations use `id` (Convex _id), not `clerkId`
+ */
+export type FuseUser = {
+  id: string;         // ✅ REQUIRED - Convex _id (canonical, sovereign identity)
+  convexId: string;   // Explicit alias for absolute clarity
+  clerkId: string;    // ⚠️ NON-CANONICAL: Auth handoff reference only
+  email?: string | null;
+  secondaryEmail?: string | null;
+  emailVerified?: boolean;
+  firstName: string; // REQUIRED - Clerk provides this
+  lastName: string;  // REQUIRED - Clerk provides this
+  rank?: 'admiral' | 'commodore' | 'captain' | 'crew' | null;
+  setupStatus?: 'invited' | 'pending' | 'abandon' | 'complete' | 'revoked' | null;
+  subscriptionStatus?: 'trial' | 'active' | 'expired' | 'lifetime' | 'cancelled' | null;
+  createdAt?: number;
+  lastLoginAt?: number; // Last login timestamp
+  avatarUrl?: string | null;
+  brandLogoUrl?: string | null; // Optional: Only set when user uploads custom logo
+  // Business configuration
+  entityName?: string | null;
+  socialName?: string | null;
+  businessCountry?: string | null;
+  orgId?: string | null; // Active org - commodores switch between orgs in their portfolio
+  // Admiral "view as user" - rank above is then the target's (effective) rank
+  impersonation?: ImpersonationState | null;
+  // Theme preferences - included in user object for zero-query theme loading
+  themeName?: ThemeName;
+  themeDark?: boolean;
+  // Miror AI preferences
+  mirorAvatarProfile?: AvatarOption;
+  mirorEnchantmentEnabled?: boolean;
+  mirorEnchantmentTiming?: 'subtle' | 'magical' | 'playful';
+  // Email preferences
+  emailMarkReadMode?: 'timer' | 'departure' | 'never';
+  emailSoundTrash?: boolean;
+  emailSoundSend?: boolean;
+  emailSoundReceive?: boolean;
+  emailSoundMark?: boolean;
+  // Professional Genome fields
+  phoneNumber?: string | null;
+  jobTitle?: string | null;
+  department?: string | null;
+  seniority?: string | null;
+  industry?: string | null;
+  companySize?: string | null;
+  companyWebsite?: string | null;
+  transformationGoal?: string | null;
+  transformationStage?: string | null;
+  transformationType?: string | null;
+  timelineUrgency?: string | null;
+  howDidYouHearAboutUs?: string | null;
+  teamSize?: number | null;
+  annualRevenue?: string | null;
+  successMetric?: string | null;
+} | null;
+
+/**
+ * Professional Genome - User's professional profile
+ * Lives in settings_account_Genome table (separate from admin_users)
+ */
+export type GenomeData = {
+  // Completion tracking
+  completionPercent: number;
+  // Professional Identity
+  jobTitle?: string | null;
+  department?: string | null;
+  seniority?: string | null;
+  // Company Context
+  industry?: string | null;
+  companySize?: string | null;
+  companyWebsite?: string | null;
+  // Transformation Journey
+  transformationGoal?: string | null;
+  transformationStage?: string | null;
+  transformationType?: string | null;
+  timelineUrgency?: string | null;
+  // Growth Intel
+  howDidYouHearAboutUs?: string | null;
+  teamSize?: number | null;
+  annualRevenue?: string | null;
+  successMetric?: string | null;
+} | null;
+
+/**
+ * Theme mode type following FUSE-STYLE system
+ */
+export type ThemeMode = 'light' | 'dark';
+
+/**
+ * Theme name type from Convex schema
+ */
+export type ThemeName = 'transtheme';
+
+/**
+ * Navigation state - tracks current page context
+ */
+export type NavigationState = {
+  currentRoute: string;
+  breadcrumbs: string[];
+  sidebarCollapsed: boolean;
+  activeSection?: string;
+  expandedSections: string[]; // Track which nav sections are expanded
+  pendingRoute: string | null; // Track route being navigated to for INSTANT visual feedback
+};
+
+/**
+ * AI Sidebar state - three states for instant interaction
+ */
+export type AISidebarState = 'closed' | 'open' | 'expand';
+
+/**
+ * User rank type - imported from rank system
+ */
+export type UserRank = 'crew' | 'captain' | 'commodore' | 'admiral';
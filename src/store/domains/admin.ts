@@ -3,7 +3,7 @@
  * ADMIN DOMAIN SLICE
  * ══════════════════════════════════════════════════════════════════════════════
  *
- * Handles: user management, deletion logs, admin operations
+ * Handles: user management, deletion logs, impersonation log, admin operations
  * Route: /app/domains/admin/*
  * Backend: /convex/domains/admin/
  * Access: Admiral only
@@ -23,6 +23,7 @@ import { fuseTimer } from './_template';
 export interface AdminData {
   users: Record<string, unknown>[];
   deletionLogs: Record<string, unknown>[];
+  impersonationLogs: Record<string, unknown>[];
   clerkRegistryCount?: number;
 }
 
@@ -30,6 +31,7 @@ export interface AdminSlice {
   // Domain data
   users: Record<string, unknown>[];
   deletionLogs: Record<string, unknown>[];
+  impersonationLogs: Record<string, unknown>[];
   clerkRegistryCount: number;
   // ADP Coordination (REQUIRED)
   status: ADPStatus;
@@ -49,6 +51,7 @@ export interface AdminActions {
 const initialAdminState: AdminSlice = {
   users: [],
   deletionLogs: [],
+  impersonationLogs: [],
   clerkRegistryCount: 0,
   // ADP Coordination
   status: 'idle',
@@ -81,6 +84,7 @@ export const createAdminSlice: StateCreator<
       console.log(`🛡️ FUSE: Admin domain hydrated via ${source}`, {
         users: data.users?.length || 0,
         deletionLogs: data.deletionLogs?.length || 0,
+        impersonationLogs: data.impersonationLogs?.length || 0,
         clerkRegistryCount: data.clerkRegistryCount ?? 0,
       });
     }
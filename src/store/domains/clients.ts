@@ -15,13 +15,81 @@
 import type { StateCreator } from 'zustand';
 import type { ADPSource, ADPStatus } from './_template';
 import { fuseTimer } from './_template';
+import type { ContactStatus, StageKind } from '@/domains/clients';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Client contact (mirrors clients_contacts_Users) */
+export interface ClientContact {
+  _id: string;
+  _creationTime: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  company?: string;
+  jobTitle?: string;
+  phoneNumber?: string;
+  orgId: string;
+  assignedTo?: string;
+  status: ContactStatus;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Org member a contact can be assigned to (listAssignableMembers) */
+export interface ClientMember {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  rank: string;
+  orgId: string;
+}
+
+/** Pipeline column (mirrors clients_pipeline_Stages) */
+export interface PipelineStage {
+  _id: string;
+  _creationTime: number;
+  name: string;
+  kind: StageKind;
+  probability: number;
+  order: number;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Pipeline deal (mirrors clients_pipeline_Deals) */
+export interface PipelineDeal {
+  _id: string;
+  _creationTime: number;
+  title: string;
+  stageId: string;
+  position: number;
+  value: number;
+  currency: string;
+  probability: number;
+  expectedCloseDate?: number;
+  contactId?: string;
+  notes?: string;
+  closedAt?: number;
+  closeReason?: string;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
 export interface ClientsData {
-  contacts: Record<string, unknown>[];
+  contacts: ClientContact[];
+  members: ClientMember[];
+  pipelineStages: PipelineStage[];
+  deals: PipelineDeal[];
   teams: Record<string, unknown>[];
   sessions: Record<string, unknown>[];
   reports: Record<string, unknown>[];
@@ -43,11 +111,19 @@ export interface ClientsActions {
 // Initial State
 // ─────────────────────────────────────────────────────────────────────────────
 
-const initialClientsState: ClientsSlice = {
+/** Empty domain data - shared by the initial slice and WARP fallbacks */
+export const EMPTY_CLIENTS_DATA: ClientsData = {
   contacts: [],
+  members: [],
+  pipelineStages: [],
+  deals: [],
   teams: [],
   sessions: [],
   reports: [],
+};
+
+const initialClientsState: ClientsSlice = {
+  ...EMPTY_CLIENTS_DATA,
   // ADP Coordination
   status: 'idle',
   lastFetchedAt: undefined,
@@ -78,6 +154,9 @@ export const createClientsSlice: StateCreator<
     if (process.env.NODE_ENV === 'development') {
       console.log(`👥 FUSE: Clients domain hydrated via ${source}`, {
         contacts: data.contacts?.length || 0,
+        members: data.members?.length || 0,
+        pipelineStages: data.pipelineStages?.length || 0,
+        deals: data.deals?.length || 0,
         teams: data.teams?.length || 0,
         sessions: data.sessions?.length || 0,
         reports: data.reports?.length || 0,
@@ -15,30 +15,191 @@
 import type { StateCreator } from 'zustand';
 import type { ADPSource, ADPStatus } from './_template';
 import { fuseTimer } from './_template';
+import type {
+  InvoiceLineItem,
+  InvoiceStatus,
+  JournalLine,
+  LedgerAccountType,
+  RecurringKind,
+  RecurringStatus,
+  StatementSource,
+} from '@/domains/finance';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Bank statement line (mirrors finance_banking_Statements) */
+export interface FinanceTransaction {
+  _id: string;
+  _creationTime: number;
+  type: 'invoice' | 'payment' | 'expense';
+  amount: number;
+  currency: string;
+  description: string;
+  orgId: string;
+  status: 'pending' | 'paid' | 'overdue';
+  date: number;
+  /** Where the row came from - statement imports record their file format */
+  source?: StatementSource;
+  /** Bank-side reference from the imported statement */
+  externalId?: string;
+  /** Invoice an imported payment was matched to (clears Unmatched Receipts) */
+  matchedInvoiceId?: string;
+  /** Pending past this goes overdue (recurring queue) */
+  dueDate?: number;
+  recurringTemplateId?: string;
+  recurringDate?: number;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Invoice document (mirrors finance_invoicing_Invoices) */
+export interface FinanceInvoice {
+  _id: string;
+  _creationTime: number;
+  number?: string;
+  sequence?: number;
+  contactId?: string;
+  customerName: string;
+  customerEmail?: string;
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+  currency: string;
+  issueDate: number;
+  dueDate: number;
+  orgId: string;
+  status: InvoiceStatus;
+  notes?: string;
+  sentAt?: number;
+  paidAt?: number;
+  voidedAt?: number;
+  recurringTemplateId?: string;
+  recurringDate?: number;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Chart of accounts entry (mirrors finance_ledger_Accounts) */
+export interface FinanceLedgerAccount {
+  _id: string;
+  _creationTime: number;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  systemKey?: string;
+  isArchived: boolean;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Posted journal entry (mirrors finance_ledger_JournalEntries) */
+export interface FinanceJournalEntry {
+  _id: string;
+  _creationTime: number;
+  date: number;
+  memo: string;
+  currency: string;
+  lines: JournalLine[];
+  sourceType: 'manual' | 'invoice' | 'transaction';
+  sourceId?: string;
+  sourceEvent?: string;
+  reversesEntryId?: string;
+  reversedAt?: number;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Org base currency (isDefault = derived from businessCountry) */
+export interface FinanceCurrencySettings {
+  baseCurrency: string;
+  isDefault: boolean;
+}
+
+/** Dated exchange rate (mirrors finance_currency_Rates) */
+export interface FinanceFxRate {
+  _id: string;
+  _creationTime: number;
+  base: string;
+  quote: string;
+  rate: number;
+  date: number;
+  source: 'manual' | 'import';
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Recurring transaction / invoice template (mirrors finance_recurring_Templates) */
+export interface FinanceRecurringTemplate {
+  _id: string;
+  _creationTime: number;
+  name: string;
+  kind: RecurringKind;
+  rrule: string;
+  startDate: number;
+  nextRunAt?: number;
+  occurrenceCount: number;
+  lastOccurrenceAt?: number;
+  lastError?: string;
+  status: RecurringStatus;
+  transaction?: {
+    type: 'invoice' | 'payment' | 'expense';
+    amount: number;
+    currency: string;
+    description: string;
+    dueInDays?: number;
+  };
+  invoice?: {
+    contactId?: string;
+    customerName: string;
+    customerEmail?: string;
+    lineItems: InvoiceLineItem[];
+    currency: string;
+    paymentTermsDays: number;
+    notes?: string;
+    autoSend: boolean;
+  };
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
 export interface FinanceData {
   // Business setup
   businessProfile: Record<string, unknown> | null;
   categories: Record<string, unknown>[];
   // Banking
   accounts: Record<string, unknown>[];
-  transactions: Record<string, unknown>[];
+  transactions: FinanceTransaction[];
   patterns: Record<string, unknown>[];
   // Income
   customers: Record<string, unknown>[];
   quotes: Record<string, unknown>[];
-  invoices: Record<string, unknown>[];
+  invoices: FinanceInvoice[];
   // Expense
   suppliers: Record<string, unknown>[];
   purchases: Record<string, unknown>[];
   bills: Record<string, unknown>[];
   // Accounting
-  chartOfAccounts: Record<string, unknown>[];
+  chartOfAccounts: FinanceLedgerAccount[];
+  journalEntries: FinanceJournalEntry[];
   fixedAssets: Record<string, unknown>[];
+  // Currency
+  currencySettings: FinanceCurrencySettings | null;
+  fxRates: FinanceFxRate[];
+  // Recurring
+  recurringTemplates: FinanceRecurringTemplate[];
   // Payroll
   employees: Record<string, unknown>[];
   payrollRuns: Record<string, unknown>[];
@@ -60,7 +221,8 @@ export interface FinanceActions {
 // Initial State
 // ─────────────────────────────────────────────────────────────────────────────
 
-const initialFinanceState: FinanceSlice = {
+/** Empty domain data - shared by the initial slice and WARP fallbacks */
+export const EMPTY_FINANCE_DATA: FinanceData = {
   // Business setup
   businessProfile: null,
   categories: [],
@@ -78,10 +240,20 @@ const initialFinanceState: FinanceSlice = {
   bills: [],
   // Accounting
   chartOfAccounts: [],
+  journalEntries: [],
   fixedAssets: [],
+  // Currency
+  currencySettings: null,
+  fxRates: [],
+  // Recurring
+  recurringTemplates: [],
   // Payroll
   employees: [],
   payrollRuns: [],
+};
+
+const initialFinanceState: FinanceSlice = {
+  ...EMPTY_FINANCE_DATA,
   // ADP Coordination
   status: 'idle',
   lastFetchedAt: undefined,
@@ -43,6 +43,10 @@ export {
   type ProductivityActions,
   type ProductivityData,
   type ProductivityStore,
+  type ProductivityTask,
+  type EmailLink,
+  type EmailDraft,
+  type CalendarEvent,
 } from './productivity';
 
 // Email body cache (infrastructure - separated from productivity domain)
@@ -78,6 +82,14 @@ export {
   type FinanceActions,
   type FinanceData,
   type FinanceStore,
+  type FinanceCurrencySettings,
+  type FinanceFxRate,
+  type FinanceInvoice,
+  type FinanceJournalEntry,
+  type FinanceLedgerAccount,
+  type FinanceRecurringTemplate,
+  type FinanceTransaction,
+  EMPTY_FINANCE_DATA,
 } from './finance';
 
 export {
@@ -86,6 +98,11 @@ export {
   type ClientsActions,
   type ClientsData,
   type ClientsStore,
+  type ClientContact,
+  type ClientMember,
+  type PipelineStage,
+  type PipelineDeal,
+  EMPTY_CLIENTS_DATA,
 } from './clients';
 
 export {
@@ -94,6 +111,14 @@ export {
   type ProjectsActions,
   type ProjectsData,
   type ProjectsStore,
+  type Project,
+  type ProjectCost,
+  type ProjectBudgetLine,
+  type ProjectBudget,
+  type ProjectTask,
+  type TaskDependency,
+  type ProjectLocation,
+  EMPTY_PROJECTS_DATA,
 } from './projects';
 
 export {
@@ -102,6 +127,11 @@ export {
   type SettingsActions,
   type SettingsData,
   type SettingsStore,
+  type SettingsOrganization,
+  type SettingsOrgMember,
+  type SettingsOrgInvite,
+  type SettingsPortfolioOrg,
+  type SettingsInvitation,
 } from './settings';
 
 export {
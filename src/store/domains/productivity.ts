@@ -1,60 +1,19 @@
-/** Productivity Domain Slice - email, calendar, meetings, bookings, tasks */
+/** Productivity Domain Slice - email, calendar, meetings, bookings, tasks, thread links, drafts */
 
 import type { StateCreator } from 'zustand';
-import type { ADPSource, ADPStatus } from './_template';
 import { fuseTimer } from './_template';
-import type { ProductivityEmail } from '@/features/productivity/email-console/types';
-
-// Types
-
-export type EmailViewMode = 'live' | 'impact';
-
-export interface ProductivityData {
-  email?: ProductivityEmail;
-  calendar: Record<string, unknown>[];
-  meetings: Record<string, unknown>[];
-  bookings: Record<string, unknown>[];
-  tasks: Record<string, unknown>[];
-}
-
-export interface ProductivitySlice {
-  // Domain data
-  email?: ProductivityEmail;
-  calendar: Record<string, unknown>[];
-  meetings: Record<string, unknown>[];
-  bookings: Record<string, unknown>[];
-  tasks: Record<string, unknown>[];
-  // UI preferences (persisted)
-  emailViewMode: EmailViewMode;
-  // Pending read status updates (skip sync for these messages)
-  pendingReadUpdates: Set<string>;
-  // Pending move updates (protect folder moves from sync overwrite)
-  pendingMoveUpdates: Map<string, { canonicalFolder: string; providerFolderId: string }>;
-  // Auto-mark exempt IDs (never auto-mark these again this session)
-  autoMarkExemptIds: Set<string>;
-  // ADP Coordination (REQUIRED)
-  status: ADPStatus;
-  lastFetchedAt?: number;
-  source?: ADPSource;
-}
-
-export interface ProductivityActions {
-  hydrateProductivity: (data: Partial<ProductivityData>, source?: ADPSource) => void;
-  updateEmailReadStatus: (messageId: string, isRead: boolean) => void;
-  batchUpdateEmailReadStatus: (messageIds: string[], isRead: boolean) => void;
-  removeEmailMessages: (messageIds: string[]) => void;
-  moveEmailsToTrash: (messageIds: string[]) => void;
-  removeEmailFolder: (folderId: string) => void;
-  clearPendingReadUpdate: (messageId: string) => void;
-  batchClearPendingReadUpdates: (messageIds: string[]) => void;
-  batchClearPendingMoves: (messageIds: string[]) => void;
-  addAutoMarkExempt: (messageId: string) => void;
-  addAutoMarkExemptBatch: (messageIds: string[]) => void;
-  removeAutoMarkExempt: (messageId: string) => void;
-  removeAutoMarkExemptBatch: (messageIds: string[]) => void;
-  clearProductivity: () => void;
-  setEmailViewMode: (mode: EmailViewMode) => void;
-}
+import type { ProductivitySlice, ProductivityActions } from './productivityTypes';
+
+export type {
+  EmailViewMode,
+  ProductivityTask,
+  EmailLink,
+  EmailDraft,
+  CalendarEvent,
+  ProductivityData,
+  ProductivitySlice,
+  ProductivityActions,
+} from './productivityTypes';
 
 // Initial State
 
@@ -64,6 +23,8 @@ const initialProductivityState: ProductivitySlice = {
   meetings: [],
   bookings: [],
   tasks: [],
+  emailLinks: [],
+  emailDrafts: [],
   // UI preferences
   emailViewMode: 'live', // Default to Live mode (traditional Outlook-style)
   // Pending read status updates (protected from sync overwrite)
@@ -94,7 +55,8 @@ export const createProductivitySlice: StateCreator<
       // CRITICAL: Preserve optimistic updates from being overwritten by stale sync
       // - pendingReadUpdates: protect isRead status
       // - pendingMoveUpdates: protect canonicalFolder/providerFolderId
-      let finalEmail = data.email;
+      // Partial hydrations (e.g. tasks or links only) keep the current email
+      let finalEmail = data.email ?? state.email;
       const pendingReadSize = state.pendingReadUpdates.size;
       const pendingMoveSize = state.pendingMoveUpdates.size;
 
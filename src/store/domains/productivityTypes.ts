@@ -0,0 +1,134 @@
+/** Productivity Domain Types - records, slice state and actions for ./productivity */
+
+import type { ADPSource, ADPStatus } from './_template';
+import type { ProductivityEmail } from '@/features/productivity/email-console/types';
+import type { TaskPriority, TaskStatus } from '@/domains/tasks';
+import type { ComposeMode, DraftStatus, LinkTargetType } from '@/domains/email';
+
+export type EmailViewMode = 'live' | 'impact';
+
+/** Board task (mirrors productivity_tasks_Tasks) */
+export interface ProductivityTask {
+  _id: string;
+  _creationTime: number;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  position: number;
+  assignedTo?: string;
+  dueDate?: number;
+  completedAt?: number;
+  emailThreadId?: string;
+  projectId?: string;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Thread ↔ contact/project/invoice link (mirrors productivity_email_Links) */
+export interface EmailLink {
+  _id: string;
+  _creationTime: number;
+  externalThreadId: string;
+  targetType: LinkTargetType;
+  targetId: string;
+  orgId: string;
+  createdAt: number;
+  createdBy: string;
+}
+
+/** Auto-saved draft or scheduled send (mirrors productivity_email_Drafts) */
+export interface EmailDraft {
+  _id: string;
+  _creationTime: number;
+  accountId: string;
+  mode: ComposeMode;
+  replyToMessageId?: string;
+  to: { name: string; email: string }[];
+  cc: { name: string; email: string }[];
+  bcc: { name: string; email: string }[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments: { storageId: string; filename: string; contentType: string; size: number }[];
+  status: DraftStatus;
+  scheduledFor?: number;
+  lastError?: string;
+  /** Synced copy in the provider's drafts folder (hidden behind this draft) */
+  providerMessageId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Calendar event (mirrors productivity_calendar_Events) */
+export interface CalendarEvent {
+  _id: string;
+  _creationTime: number;
+  title: string;
+  description?: string;
+  location?: string;
+  startTime: number;
+  endTime: number;
+  allDay?: boolean;
+  rrule?: string;
+  exdates?: number[];
+  uid?: string;
+  orgId: string;
+  attendees: string[];
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+export interface ProductivityData {
+  email?: ProductivityEmail;
+  calendar: CalendarEvent[];
+  meetings: Record<string, unknown>[];
+  bookings: Record<string, unknown>[];
+  tasks: ProductivityTask[];
+  emailLinks: EmailLink[];
+  emailDrafts: EmailDraft[];
+}
+
+export interface ProductivitySlice {
+  // Domain data
+  email?: ProductivityEmail;
+  calendar: CalendarEvent[];
+  meetings: Record<string, unknown>[];
+  bookings: Record<string, unknown>[];
+  tasks: ProductivityTask[];
+  emailLinks: EmailLink[];
+  emailDrafts: EmailDraft[];
+  // UI preferences (persisted)
+  emailViewMode: EmailViewMode;
+  // Pending read status updates (skip sync for these messages)
+  pendingReadUpdates: Set<string>;
+  // Pending move updates (protect folder moves from sync overwrite)
+  pendingMoveUpdates: Map<string, { canonicalFolder: string; providerFolderId: string }>;
+  // Auto-mark exempt IDs (never auto-mark these again this session)
+  autoMarkExemptIds: Set<string>;
+  // ADP Coordination (REQUIRED)
+  status: ADPStatus;
+  lastFetchedAt?: number;
+  source?: ADPSource;
+}
+
+export interface ProductivityActions {
+  hydrateProductivity: (data: Partial<ProductivityData>, source?: ADPSource) => void;
+  updateEmailReadStatus: (messageId: string, isRead: boolean) => void;
+  batchUpdateEmailReadStatus: (messageIds: string[], isRead: boolean) => void;
+  removeEmailMessages: (messageIds: string[]) => void;
+  moveEmailsToTrash: (messageIds: string[]) => void;
+  removeEmailFolder: (folderId: string) => void;
+  clearPendingReadUpdate: (messageId: string) => void;
+  batchClearPendingReadUpdates: (messageIds: string[]) => void;
+  batchClearPendingMoves: (messageIds: string[]) => void;
+  addAutoMarkExempt: (messageId: string) => void;
+  addAutoMarkExemptBatch: (messageIds: string[]) => void;
+  removeAutoMarkExempt: (messageId: string) => void;
+  removeAutoMarkExemptBatch: (messageIds: string[]) => void;
+  clearProductivity: () => void;
+  setEmailViewMode: (mode: EmailViewMode) => void;
+}
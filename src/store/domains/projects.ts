@@ -3,7 +3,7 @@
  * PROJECTS DOMAIN SLICE
  * ══════════════════════════════════════════════════════════════════════════════
  *
- * Handles: charts (Gantt), locations, tracking
+ * Handles: projects, costs, budgets (tracking), tasks + dependencies (Gantt), sites (locations)
  * Route: /app/domains/projects/*
  * Backend: /convex/domains/projects/
  * Access: Captain+ (org-scoped)
@@ -15,15 +15,122 @@
 import type { StateCreator } from 'zustand';
 import type { ADPSource, ADPStatus } from './_template';
 import { fuseTimer } from './_template';
+import type { BudgetRollup, CostCategory, CostStatus, DependencyType, ProjectStatus } from '@/domains/projects';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Project (mirrors projects_tracking_Schedule) */
+export interface Project {
+  _id: string;
+  _creationTime: number;
+  name: string;
+  description?: string;
+  orgId: string;
+  assignedTo?: string;
+  status: ProjectStatus;
+  startDate?: number;
+  endDate?: number;
+  /** Email thread the project was promoted from */
+  emailThreadId?: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Cost entry (mirrors projects_tracking_Costs) */
+export interface ProjectCost {
+  _id: string;
+  _creationTime: number;
+  projectId: string;
+  name: string;
+  amount: number;
+  currency: string;
+  category: CostCategory;
+  orgId: string;
+  status: CostStatus;
+  date: number;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Budget line as entered (projects_tracking_Budgets) */
+export interface ProjectBudgetLine {
+  _id: string;
+  category: CostCategory;
+  amount: number;
+  currency: string;
+  notes?: string;
+}
+
+/** Budget vs actual of one project, in the org base currency (listProjectBudgets) */
+export interface ProjectBudget extends BudgetRollup {
+  projectId: string;
+  baseCurrency: string;
+  lines: ProjectBudgetLine[];
+  missingRates: string[];
+  costCount: number;
+}
+
+/** Gantt task or milestone (mirrors projects_tracking_Tasks) */
+export interface ProjectTask {
+  _id: string;
+  _creationTime: number;
+  projectId: string;
+  name: string;
+  startDate: number;
+  endDate: number;
+  isMilestone: boolean;
+  assignedTo?: string;
+  order: number;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
+/** Link between two tasks (mirrors projects_tracking_TaskDependencies) */
+export interface TaskDependency {
+  _id: string;
+  _creationTime: number;
+  projectId: string;
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  orgId: string;
+  createdAt: number;
+  createdBy: string;
+}
+
+/** Project site (mirrors projects_tracking_Locations) */
+export interface ProjectLocation {
+  _id: string;
+  _creationTime: number;
+  projectId: string;
+  name: string;
+  address: string;
+  latitude?: number;
+  longitude?: number;
+  geocodedBy?: string;
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  notes?: string;
+  orgId: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+}
+
 export interface ProjectsData {
-  charts: Record<string, unknown>[];
-  locations: Record<string, unknown>[];
-  tracking: Record<string, unknown>[];
+  projects: Project[];
+  costs: ProjectCost[];
+  tracking: ProjectBudget[];
+  tasks: ProjectTask[];
+  dependencies: TaskDependency[];
+  locations: ProjectLocation[];
 }
 
 export interface ProjectsSlice extends ProjectsData {
@@ -42,10 +149,18 @@ export interface ProjectsActions {
 // Initial State
 // ─────────────────────────────────────────────────────────────────────────────
 
-const initialProjectsState: ProjectsSlice = {
-  charts: [],
-  locations: [],
+/** Empty domain data - shared by the initial slice and WARP fallbacks */
+export const EMPTY_PROJECTS_DATA: ProjectsData = {
+  projects: [],
+  costs: [],
   tracking: [],
+  tasks: [],
+  dependencies: [],
+  locations: [],
+};
+
+const initialProjectsState: ProjectsSlice = {
+  ...EMPTY_PROJECTS_DATA,
   // ADP Coordination
   status: 'idle',
   lastFetchedAt: undefined,
@@ -75,9 +190,12 @@ export const createProjectsSlice: StateCreator<
     }));
     if (process.env.NODE_ENV === 'development') {
       console.log(`📋 FUSE: Projects domain hydrated via ${source}`, {
-        charts: data.charts?.length || 0,
-        locations: data.locations?.length || 0,
+        projects: data.projects?.length || 0,
+        costs: data.costs?.length || 0,
         tracking: data.tracking?.length || 0,
+        tasks: data.tasks?.length || 0,
+        dependencies: data.dependencies?.length || 0,
+        locations: data.locations?.length || 0,
       });
     }
     fuseTimer.end('hydrateProjects', start);
@@ -3,7 +3,7 @@
  * SETTINGS DOMAIN SLICE
  * ══════════════════════════════════════════════════════════════════════════════
  *
- * Handles: user profile, preferences, notifications
+ * Handles: user profile, preferences, notifications, active organization, org portfolio, invitations
  * Route: /app/domains/settings/*
  * Backend: /convex/domains/settings/
  * Access: All ranks (SELF-scoped - unique!)
@@ -21,10 +21,59 @@ import type { FuseUser } from '@/store/types';
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+export interface SettingsOrgMember {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  rank: 'admiral' | 'commodore' | 'captain' | 'crew';
+  role: 'owner' | 'member';
+  joinedAt: number;
+}
+
+/** Pending invite sent by the active org */
+export interface SettingsOrgInvite {
+  _id: string;
+  email: string;
+  createdAt: number;
+}
+
+/** Caller's active org (admin_orgs) with its members */
+export interface SettingsOrganization {
+  _id: string;
+  name: string;
+  slug: string;
+  ownerId: string;
+  country: string;
+  timezone?: string;
+  members: SettingsOrgMember[];
+  invites: SettingsOrgInvite[];
+}
+
+/** One org the caller belongs to - a commodore's portfolio lists several */
+export interface SettingsPortfolioOrg {
+  _id: string;
+  name: string;
+  slug: string;
+  role: 'owner' | 'member';
+  isActive: boolean;
+}
+
+/** Invite addressed to the caller, waiting for them to accept or decline */
+export interface SettingsInvitation {
+  _id: string;
+  orgId: string;
+  orgName: string;
+  createdAt: number;
+}
+
 export interface SettingsData {
   userProfile: FuseUser;
   preferences: Record<string, unknown>[];
   notifications: Record<string, unknown>[];
+  organization: SettingsOrganization | null;
+  portfolio: SettingsPortfolioOrg[];
+  invitations: SettingsInvitation[];
 }
 
 export interface SettingsSlice extends SettingsData {
@@ -47,6 +96,9 @@ const initialSettingsState: SettingsSlice = {
   userProfile: null,
   preferences: [],
   notifications: [],
+  organization: null,
+  portfolio: [],
+  invitations: [],
   // ADP Coordination
   status: 'idle',
   lastFetchedAt: undefined,
@@ -79,6 +131,9 @@ export const createSettingsSlice: StateCreator<
         userProfile: data.userProfile ? 'present' : 'none',
         preferences: data.preferences?.length || 0,
         notifications: data.notifications?.length || 0,
+        organization: data.organization ? data.organization.name : 'none',
+        portfolio: data.portfolio?.length || 0,
+        invitations: data.invitations?.length || 0,
       });
     }
     fuseTimer.end('hydrateSettings', start);
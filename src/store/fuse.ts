@@ -216,6 +216,8 @@ export const useFuse = create<FuseStore>()((set, get, store): FuseStore => {
       meetings: productivitySlice.meetings,
       bookings: productivitySlice.bookings,
       tasks: productivitySlice.tasks,
+      emailLinks: productivitySlice.emailLinks,
+      emailDrafts: productivitySlice.emailDrafts,
       emailViewMode: productivitySlice.emailViewMode,
       pendingReadUpdates: productivitySlice.pendingReadUpdates,
       pendingMoveUpdates: productivitySlice.pendingMoveUpdates,
@@ -232,6 +234,7 @@ export const useFuse = create<FuseStore>()((set, get, store): FuseStore => {
     admin: {
       users: adminSlice.users,
       deletionLogs: adminSlice.deletionLogs,
+      impersonationLogs: adminSlice.impersonationLogs,
       clerkRegistryCount: adminSlice.clerkRegistryCount,
       status: adminSlice.status,
       lastFetchedAt: adminSlice.lastFetchedAt,
@@ -258,7 +261,11 @@ export const useFuse = create<FuseStore>()((set, get, store): FuseStore => {
       purchases: financeSlice.purchases,
       bills: financeSlice.bills,
       chartOfAccounts: financeSlice.chartOfAccounts,
+      journalEntries: financeSlice.journalEntries,
       fixedAssets: financeSlice.fixedAssets,
+      currencySettings: financeSlice.currencySettings,
+      fxRates: financeSlice.fxRates,
+      recurringTemplates: financeSlice.recurringTemplates,
       employees: financeSlice.employees,
       payrollRuns: financeSlice.payrollRuns,
       status: financeSlice.status,
@@ -267,6 +274,9 @@ export const useFuse = create<FuseStore>()((set, get, store): FuseStore => {
     },
     clients: {
       contacts: clientsSlice.contacts,
+      members: clientsSlice.members,
+      pipelineStages: clientsSlice.pipelineStages,
+      deals: clientsSlice.deals,
       teams: clientsSlice.teams,
       sessions: clientsSlice.sessions,
       reports: clientsSlice.reports,
@@ -275,9 +285,12 @@ export const useFuse = create<FuseStore>()((set, get, store): FuseStore => {
       source: clientsSlice.source,
     },
     projects: {
-      charts: projectsSlice.charts,
-      locations: projectsSlice.locations,
+      projects: projectsSlice.projects,
+      costs: projectsSlice.costs,
       tracking: projectsSlice.tracking,
+      tasks: projectsSlice.tasks,
+      dependencies: projectsSlice.dependencies,
+      locations: projectsSlice.locations,
       status: projectsSlice.status,
       lastFetchedAt: projectsSlice.lastFetchedAt,
       source: projectsSlice.source,
@@ -286,6 +299,9 @@ export const useFuse = create<FuseStore>()((set, get, store): FuseStore => {
       userProfile: settingsSlice.userProfile,
       preferences: settingsSlice.preferences,
       notifications: settingsSlice.notifications,
+      organization: settingsSlice.organization,
+      portfolio: settingsSlice.portfolio,
+      invitations: settingsSlice.invitations,
       status: settingsSlice.status,
       lastFetchedAt: settingsSlice.lastFetchedAt,
       source: settingsSlice.source,
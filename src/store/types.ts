@@ -9,6 +9,10 @@ import type {
   ProductivitySlice,
   ProductivityData,
   ProductivityActions,
+  ProductivityTask,
+  EmailLink,
+  EmailDraft,
+  CalendarEvent,
 } from './domains/productivity';
 
 import type {
@@ -27,24 +31,47 @@ import type {
   FinanceSlice,
   FinanceData,
   FinanceActions,
+  FinanceCurrencySettings,
+  FinanceFxRate,
+  FinanceInvoice,
+  FinanceJournalEntry,
+  FinanceLedgerAccount,
+  FinanceRecurringTemplate,
+  FinanceTransaction,
 } from './domains/finance';
 
 import type {
   ClientsSlice,
   ClientsData,
   ClientsActions,
+  ClientContact,
+  ClientMember,
+  PipelineStage,
+  PipelineDeal,
 } from './domains/clients';
 
 import type {
   ProjectsSlice,
   ProjectsData,
   ProjectsActions,
+  Project,
+  ProjectCost,
+  ProjectBudgetLine,
+  ProjectBudget,
+  ProjectTask,
+  TaskDependency,
+  ProjectLocation,
 } from './domains/projects';
 
 import type {
   SettingsSlice,
   SettingsData,
   SettingsActions,
+  SettingsOrganization,
+  SettingsOrgMember,
+  SettingsOrgInvite,
+  SettingsPortfolioOrg,
+  SettingsInvitation,
 } from './domains/settings';
 
 import type {
@@ -60,12 +87,36 @@ import type {
 } from './domains/_template';
 
 import type { AvatarOption } from '@/fuse/constants/coreThemeConfig';
+import type {
+  FuseUser,
+  GenomeData,
+  ThemeMode,
+  ThemeName,
+  NavigationState,
+  AISidebarState,
+  UserRank,
+} from './coreTypes';
+
+// Re-export core types (user, genome, theme, navigation)
+export type {
+  FuseUser,
+  GenomeData,
+  ThemeMode,
+  ThemeName,
+  NavigationState,
+  AISidebarState,
+  UserRank,
+};
 
 // Re-export all domain types for consumers
 export type {
   ProductivitySlice,
   ProductivityData,
   ProductivityActions,
+  ProductivityTask,
+  EmailLink,
+  EmailDraft,
+  CalendarEvent,
   AdminSlice,
   AdminData,
   AdminActions,
@@ -75,15 +126,38 @@ export type {
   FinanceSlice,
   FinanceData,
   FinanceActions,
+  FinanceCurrencySettings,
+  FinanceFxRate,
+  FinanceInvoice,
+  FinanceJournalEntry,
+  FinanceLedgerAccount,
+  FinanceRecurringTemplate,
+  FinanceTransaction,
   ClientsSlice,
   ClientsData,
   ClientsActions,
+  ClientContact,
+  ClientMember,
+  PipelineStage,
+  PipelineDeal,
   ProjectsSlice,
   ProjectsData,
   ProjectsActions,
+  Project,
+  ProjectCost,
+  ProjectBudgetLine,
+  ProjectBudget,
+  ProjectTask,
+  TaskDependency,
+  ProjectLocation,
   SettingsSlice,
   SettingsData,
   SettingsActions,
+  SettingsOrganization,
+  SettingsOrgMember,
+  SettingsOrgInvite,
+  SettingsPortfolioOrg,
+  SettingsInvitation,
   SystemSlice,
   SystemData,
   SystemActions,
@@ -93,128 +167,9 @@ export type {
 };
 
 // ══════════════════════════════════════════════════════════════════════════════
-// CORE TYPES
+// FUSE STATE
 // ══════════════════════════════════════════════════════════════════════════════
 
-/**
- * User document type - ready for 100K users
- *
- * 🛡️ SOVEREIGNTY DOCTRINE:
- * - `id` is ALWAYS Convex _id (canonical identity)
- * - `convexId` is explicit alias for clarity
- * - `clerkId` is auth reference ONLY - never use for Convex queries
- * - All domain operations use `id` (Convex _id), not `clerkId`
- */
-export type FuseUser = {
-  id: string;         // ✅ REQUIRED - Convex _id (canonical, sovereign identity)
-  convexId: string;   // Explicit alias for absolute clarity
-  clerkId: string;    // ⚠️ NON-CANONICAL: Auth handoff reference only
-  email?: string | null;
-  secondaryEmail?: string | null;
-  emailVerified?: boolean;
-  firstName: string; // REQUIRED - Clerk provides this
-  lastName: string;  // REQUIRED - Clerk provides this
-  rank?: 'admiral' | 'commodore' | 'captain' | 'crew' | null;
-  setupStatus?: 'invited' | 'pending' | 'abandon' | 'complete' | 'revoked' | null;
-  subscriptionStatus?: 'trial' | 'active' | 'expired' | 'lifetime' | 'cancelled' | null;
-  createdAt?: number;
-  lastLoginAt?: number; // Last login timestamp
-  avatarUrl?: string | null;
-  brandLogoUrl?: string | null; // Optional: Only set when user uploads custom logo
-  // Business configuration
-  entityName?: string | null;
-  socialName?: string | null;
-  businessCountry?: string | null;
-  // Theme preferences - included in user object for zero-query theme loading
-  themeName?: ThemeName;
-  themeDark?: boolean;
-  // Miror AI preferences
-  mirorAvatarProfile?: AvatarOption;
-  mirorEnchantmentEnabled?: boolean;
-  mirorEnchantmentTiming?: 'subtle' | 'magical' | 'playful';
-  // Email preferences
-  emailMarkReadMode?: 'timer' | 'departure' | 'never';
-  emailSoundTrash?: boolean;
-  emailSoundSend?: boolean;
-  emailSoundReceive?: boolean;
-  emailSoundMark?: boolean;
-  // Professional Genome fields
-  phoneNumber?: string | null;
-  jobTitle?: string | null;
-  department?: string | null;
-  seniority?: string | null;
-  industry?: string | null;
-  companySize?: string | null;
-  companyWebsite?: string | null;
-  transformationGoal?: string | null;
-  transformationStage?: string | null;
-  transformationType?: string | null;
-  timelineUrgency?: string | null;
-  howDidYouHearAboutUs?: string | null;
-  teamSize?: number | null;
-  annualRevenue?: string | null;
-  successMetric?: string | null;
-} | null;
-
-/**
- * Professional Genome - User's professional profile
- * Lives in settings_account_Genome table (separate from admin_users)
- */
-export type GenomeData = {
-  // Completion tracking
-  completionPercent: number;
-  // Professional Identity
-  jobTitle?: string | null;
-  department?: string | null;
-  seniority?: string | null;
-  // Company Context
-  industry?: string | null;
-  companySize?: string | null;
-  companyWebsite?: string | null;
-  // Transformation Journey
-  transformationGoal?: string | null;
-  transformationStage?: string | null;
-  transformationType?: string | null;
-  timelineUrgency?: string | null;
-  // Growth Intel
-  howDidYouHearAboutUs?: string | null;
-  teamSize?: number | null;
-  annualRevenue?: string | null;
-  successMetric?: string | null;
-} | null;
-
-/**
- * Theme mode type following FUSE-STYLE system
- */
-export type ThemeMode = 'light' | 'dark';
-
-/**
- * Theme name type from Convex schema
- */
-export type ThemeName = 'transtheme';
-
-/**
- * Navigation state - tracks current page context
- */
-export type NavigationState = {
-  currentRoute: string;
-  breadcrumbs: string[];
-  sidebarCollapsed: boolean;
-  activeSection?: string;
-  expandedSections: string[]; // Track which nav sections are expanded
-  pendingRoute: string | null; // Track route being navigated to for INSTANT visual feedback
-};
-
-/**
- * AI Sidebar state - three states for instant interaction
- */
-export type AISidebarState = 'closed' | 'open' | 'expand';
-
-/**
- * User rank type - imported from rank system
- */
-export type UserRank = 'crew' | 'captain' | 'commodore' | 'admiral';
-
 /**
  * Core FUSE State - The behavioral brain
  * Handles all application state and performance tracking
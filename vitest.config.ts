@@ -25,8 +25,9 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '@': path.resolve(__dirname, './src'),
+      // Most specific first - '@' would otherwise claim '@/convex/...'
       '@/convex': path.resolve(__dirname, './convex'),
+      '@': path.resolve(__dirname, './src'),
     },
   },
 });